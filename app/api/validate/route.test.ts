@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { POST } from './route'
+
+const createRequest = (body: string, query = '') =>
+  new Request(`http://localhost/api/validate${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/xml' },
+    body,
+  })
+
+describe('POST /api/validate', () => {
+  it('should report the errors of the XML', async () => {
+    const response = await POST(createRequest('<Altro/>'))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.isValid).toBe(false)
+    expect(body.errors).toContainEqual({
+      path: '/',
+      message: 'Elemento radice "Offerta" mancante',
+      severity: 'error',
+    })
+  })
+
+  it('should reject an empty body', async () => {
+    const response = await POST(createRequest('  '))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).summary).toBe('Trovati 1 errore')
+  })
+
+  it('should reject an unsupported version of the specification', async () => {
+    const response = await POST(createRequest('<Offerta/>', '?spec=1.0'))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).errors).toEqual([
+      {
+        path: '/',
+        message: 'Versione delle specifiche non supportata: 1.0',
+        severity: 'error',
+      },
+    ])
+  })
+})
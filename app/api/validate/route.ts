@@ -0,0 +1,42 @@
+import { getSpecVersion } from '@/lib/xml-generator/spec-registry'
+import { createErrorBody, validateOfferXML } from '@/lib/xml-generator/xml-api'
+
+/**
+ * POST /api/validate[?spec=<versione>]
+ * Checks a raw SII XML body against the business rules and the XSD of the
+ * given version of the specification, the current one by default.
+ * Responds with the validation outcome, or 400 when the body is empty or the
+ * version is not supported
+ */
+export async function POST(request: Request) {
+  const version = new URL(request.url).searchParams.get('spec')
+  const spec = version ? getSpecVersion(version) : undefined
+  if (version && !spec) {
+    return Response.json(
+      createErrorBody([
+        {
+          path: '/',
+          message: `Versione delle specifiche non supportata: ${version}`,
+          severity: 'error',
+        },
+      ]),
+      { status: 400 },
+    )
+  }
+
+  const xml = await request.text()
+  if (xml.trim().length === 0) {
+    return Response.json(
+      createErrorBody([
+        {
+          path: '/',
+          message: 'Il corpo della richiesta deve contenere il XML da validare',
+          severity: 'error',
+        },
+      ]),
+      { status: 400 },
+    )
+  }
+
+  return Response.json(validateOfferXML(xml, undefined, spec))
+}
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { generateOfferXML } from '@/lib/xml-generator/xml-api'
+import { POST } from './route'
+
+vi.mock('@/lib/xml-generator/xml-api', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/xml-generator/xml-api')>()),
+  generateOfferXML: vi.fn(),
+}))
+
+const createRequest = (body: string) =>
+  new Request('http://localhost/api/xml', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+  })
+
+describe('POST /api/xml', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should return the XML as an attachment', async () => {
+    vi.mocked(generateOfferXML).mockReturnValue({
+      success: true,
+      xml: '<Offerta/>',
+      filename: 'IT12345678901_INSERIMENTO_LUCE_FISSA.XML',
+      warnings: [],
+    })
+
+    const response = await POST(createRequest('{"basicInfo":{}}'))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe(
+      'application/xml; charset=utf-8',
+    )
+    expect(response.headers.get('Content-Disposition')).toBe(
+      'attachment; filename="IT12345678901_INSERIMENTO_LUCE_FISSA.XML"',
+    )
+    expect(await response.text()).toBe('<Offerta/>')
+    expect(generateOfferXML).toHaveBeenCalledWith({ basicInfo: {} })
+  })
+
+  it('should return the validation errors with status 422', async () => {
+    const errors = [
+      {
+        path: 'basicInfo.pivaUtente',
+        message: 'La PIVA deve contenere almeno 11 caratteri',
+        severity: 'error' as const,
+      },
+    ]
+    vi.mocked(generateOfferXML).mockReturnValue({ success: false, errors })
+
+    const response = await POST(createRequest('{}'))
+
+    expect(response.status).toBe(422)
+    expect(await response.json()).toEqual({
+      summary: 'Trovati 1 errore',
+      errors,
+    })
+  })
+
+  it('should reject a body without the required steps', async () => {
+    const { generateOfferXML: generate } = await vi.importActual<
+      typeof import('@/lib/xml-generator/xml-api')
+    >('@/lib/xml-generator/xml-api')
+    vi.mocked(generateOfferXML).mockImplementation(generate)
+
+    const response = await POST(createRequest('{}'))
+
+    expect(response.status).toBe(422)
+    expect((await response.json()).errors).toContainEqual({
+      path: 'basicInfo.codOfferta',
+      message: 'Campo obbligatorio mancante',
+      severity: 'error',
+    })
+  })
+
+  it('should reject a body that is not JSON', async () => {
+    const response = await POST(createRequest('<Offerta/>'))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).errors[0].message).toBe(
+      'Il corpo della richiesta non è un JSON valido',
+    )
+    expect(generateOfferXML).not.toHaveBeenCalled()
+  })
+})
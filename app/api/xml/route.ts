@@ -0,0 +1,40 @@
+import {
+  createErrorBody,
+  generateOfferXML,
+  XML_CONTENT_TYPE,
+} from '@/lib/xml-generator/xml-api'
+
+/**
+ * POST /api/xml
+ * Generates the SII XML of an offer from a CompleteFormValues JSON body.
+ * Responds with the XML as an attachment, or 400/422 with the Italian error list
+ */
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json(
+      createErrorBody([
+        {
+          path: '/',
+          message: 'Il corpo della richiesta non è un JSON valido',
+          severity: 'error',
+        },
+      ]),
+      { status: 400 },
+    )
+  }
+
+  const result = generateOfferXML(body)
+  if (!result.success) {
+    return Response.json(createErrorBody(result.errors), { status: 422 })
+  }
+
+  return new Response(result.xml, {
+    headers: {
+      'Content-Type': XML_CONTENT_TYPE,
+      'Content-Disposition': `attachment; filename="${result.filename}"`,
+    },
+  })
+}
@@ -0,0 +1,27 @@
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Confronto Offerte SII',
+  description:
+    'Confronta struttura e spesa annua di offerte del mercato energetico e gas',
+}
+
+export default function OfferComparisonLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4">
+          <h1 className="font-bold text-2xl">Confronto Offerte SII</h1>
+          <p className="mt-1 text-muted-foreground text-sm">
+            Confronta bozze e file XML prima della pubblicazione
+          </p>
+        </div>
+      </header>
+      <main className="container mx-auto px-4 py-8">{children}</main>
+    </div>
+  )
+}
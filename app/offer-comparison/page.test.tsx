@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+
+// Simple integration test for the offer comparison page
+describe('OfferComparisonPage Integration', () => {
+  it('should export a default component', async () => {
+    const pageModule = await import('./page')
+    expect(pageModule.default).toBeDefined()
+    expect(typeof pageModule.default).toBe('function')
+  })
+
+  it('should be named after the page', async () => {
+    const { default: OfferComparisonPage } = await import('./page')
+
+    expect(OfferComparisonPage.name).toBe('OfferComparisonPage')
+    expect(OfferComparisonPage.length).toBe(0) // No required parameters
+  })
+})
@@ -0,0 +1,5 @@
+import { OfferComparison } from '@/components/offer-comparison/offer-comparison'
+
+export default function OfferComparisonPage() {
+  return <OfferComparison />
+}
@@ -1,4 +1,4 @@
-import { FileCode2, Zap } from 'lucide-react'
+import { BarChart3, FileCheck2, FileCode2, Zap } from 'lucide-react'
 import Link from 'next/link'
 import {
   Card,
@@ -16,6 +16,22 @@ const tools = [
     href: '/xml-generator',
     available: true,
   },
+  {
+    id: 'xml-validator',
+    title: 'Validatore XML SII',
+    description: 'Verifica file XML di offerte ricevuti o generati altrove',
+    icon: FileCheck2,
+    href: '/xml-validator',
+    available: true,
+  },
+  {
+    id: 'offer-comparison',
+    title: 'Confronto Offerte SII',
+    description: 'Confronta struttura e spesa annua di più offerte',
+    icon: BarChart3,
+    href: '/offer-comparison',
+    available: true,
+  },
   // Add more tools here as they become available
 ]
 
@@ -0,0 +1,27 @@
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Validatore XML Offerte SII',
+  description:
+    'Verifica file XML di offerte del mercato energetico e gas rispetto alle specifiche SII',
+}
+
+export default function XmlValidatorLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4">
+          <h1 className="font-bold text-2xl">Validatore XML Offerte SII</h1>
+          <p className="mt-1 text-muted-foreground text-sm">
+            Verifica file XML ricevuti da partner o prodotti da altri strumenti
+          </p>
+        </div>
+      </header>
+      <main className="container mx-auto px-4 py-8">{children}</main>
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+
+// Simple integration test for the XML validator page
+describe('XmlValidatorPage Integration', () => {
+  it('should export a default component', async () => {
+    const pageModule = await import('./page')
+    expect(pageModule.default).toBeDefined()
+    expect(typeof pageModule.default).toBe('function')
+  })
+
+  it('should be named after the page', async () => {
+    const { default: XmlValidatorPage } = await import('./page')
+
+    expect(XmlValidatorPage.name).toBe('XmlValidatorPage')
+    expect(XmlValidatorPage.length).toBe(0) // No required parameters
+  })
+})
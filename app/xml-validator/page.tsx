@@ -0,0 +1,5 @@
+import { XmlFileValidator } from '@/components/xml-validator/xml-file-validator'
+
+export default function XmlValidatorPage() {
+  return <XmlFileValidator />
+}
@@ -0,0 +1,171 @@
+import { fireEvent, render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { toast } from 'sonner'
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createWorkspaceOffer,
+  listWorkspaceOffers,
+} from '@/lib/xml-generator/offer-workspace'
+import { buildXML } from '@/lib/xml-generator/xml-builder'
+import {
+  type FormStatesInput,
+  toXMLFormData,
+} from '@/lib/xml-generator/xml-form-data'
+import { OfferComparison } from './offer-comparison'
+
+vi.mock('@/lib/xml-generator/offer-workspace', async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import('@/lib/xml-generator/offer-workspace')
+  >()),
+  listWorkspaceOffers: vi.fn(),
+}))
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}))
+
+// Regex patterns for testing
+const DRAFT_REGEX = /bozza da confrontare/i
+
+const createFormStates = (
+  offerName: string,
+  fixedFee: number,
+  energyPrice: number,
+): FormStatesInput => ({
+  basicInfo: { pivaUtente: 'IT12345678901', codOfferta: offerName },
+  offerDetails: { marketType: '01', offerName, duration: 12 },
+  pricingConfig: { timeBandConfiguration: '01' },
+  companyComponents: {
+    companyComponents: [
+      {
+        name: 'Quota fissa',
+        description: 'Commercializzazione',
+        componentType: '01',
+        macroArea: '01',
+        priceIntervals: [{ price: fixedFee, unitOfMeasure: '01' }],
+      },
+      {
+        name: 'Prezzo energia',
+        description: 'Materia prima',
+        componentType: '01',
+        macroArea: '04',
+        priceIntervals: [{ price: energyPrice, unitOfMeasure: '03' }],
+      },
+    ],
+  },
+})
+
+// Break-even at 2400 kWh: Luce Flat wins below, Luce Fissa above
+const fixedFeeStates = createFormStates('Luce Fissa', 96, 0.1)
+const energyOnlyStates = createFormStates('Luce Flat', 0, 0.14)
+
+const createFile = (name: string, content: string) => {
+  const file = new File([content], name, { type: 'text/xml' })
+  // jsdom does not implement Blob.text()
+  file.text = () => Promise.resolve(content)
+  return file
+}
+
+const selectDraft = async (name: string) => {
+  fireEvent.click(screen.getByRole('combobox', { name: DRAFT_REGEX }))
+  fireEvent.click(await screen.findByRole('option', { name }))
+}
+
+describe('OfferComparison', () => {
+  beforeAll(() => {
+    // Radix Select scrolls the selected option into view, missing in jsdom
+    Element.prototype.scrollIntoView = vi.fn()
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    const createdAt = new Date('2026-10-19T08:00:00Z')
+    vi.mocked(listWorkspaceOffers).mockResolvedValue([
+      createWorkspaceOffer(fixedFeeStates, createdAt, 'offer-1'),
+      createWorkspaceOffer(energyOnlyStates, createdAt, 'offer-2'),
+    ])
+  })
+
+  it('affianca la struttura delle bozze selezionate', async () => {
+    render(<OfferComparison />)
+
+    await selectDraft('Luce Fissa')
+    expect(
+      screen.queryByText('Struttura delle Offerte'),
+    ).not.toBeInTheDocument()
+
+    await selectDraft('Luce Flat')
+
+    expect(screen.getByText('Struttura delle Offerte')).toBeInTheDocument()
+    const durationRow = screen.getByText('Durata').closest('tr')
+    expect(durationRow).toHaveAttribute('data-differs', 'false')
+  })
+
+  it('evidenzia dove ciascuna offerta è la più conveniente', async () => {
+    render(<OfferComparison />)
+
+    await selectDraft('Luce Fissa')
+    await selectDraft('Luce Flat')
+
+    const ranges = within(
+      screen.getByRole('list', { name: 'Offerte più convenienti' }),
+    ).getAllByRole('listitem')
+    expect(ranges.map((range) => range.textContent)).toEqual([
+      'Luce Flat da 500 kWh a 2000 kWh',
+      'Luce Fissa da 2500 kWh a 5000 kWh',
+    ])
+
+    const lowestRow = screen
+      .getByRole('cell', { name: '500 kWh' })
+      .closest('tr')
+    expect(lowestRow).not.toBeNull()
+    const cells = within(lowestRow as HTMLElement).getAllByRole('cell')
+    expect(cells[1]).toHaveAttribute('data-cheapest', 'false')
+    expect(cells[2]).toHaveAttribute('data-cheapest', 'true')
+  })
+
+  it('confronta un file XML caricato con una bozza', async () => {
+    const user = userEvent.setup()
+    render(<OfferComparison />)
+
+    await selectDraft('Luce Fissa')
+    await user.upload(screen.getByLabelText('File XML da confrontare'), [
+      createFile('luce-flat.xml', buildXML(toXMLFormData(energyOnlyStates))),
+    ])
+
+    expect(
+      await screen.findByRole('button', { name: 'Rimuovi luce-flat.xml' }),
+    ).toBeInTheDocument()
+    expect(screen.getByText('Struttura delle Offerte')).toBeInTheDocument()
+  })
+
+  it("segnala i file che non contengono un'offerta", async () => {
+    const user = userEvent.setup()
+    render(<OfferComparison />)
+
+    await user.upload(screen.getByLabelText('File XML da confrontare'), [
+      createFile('rotto.xml', '<Offerta><IdentificativiOfferta></Offerta>'),
+    ])
+
+    await vi.waitFor(() =>
+      expect(toast.error).toHaveBeenCalledWith(
+        "rotto.xml: impossibile leggere l'offerta",
+        expect.anything(),
+      ),
+    )
+    expect(screen.getByText('Nessuna offerta selezionata')).toBeInTheDocument()
+  })
+
+  it("rimuove un'offerta dal confronto", async () => {
+    const user = userEvent.setup()
+    render(<OfferComparison />)
+
+    await selectDraft('Luce Fissa')
+    await selectDraft('Luce Flat')
+    await user.click(screen.getByRole('button', { name: 'Rimuovi Luce Flat' }))
+
+    expect(
+      screen.queryByText('Struttura delle Offerte'),
+    ).not.toBeInTheDocument()
+  })
+})
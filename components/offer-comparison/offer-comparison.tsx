@@ -0,0 +1,408 @@
+'use client'
+
+import { BarChart3, Trophy, Upload, X } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+import { MARKET_TYPE_LABELS } from '@/lib/xml-generator/constants'
+import {
+  type ComparedOffer,
+  type CostCurve,
+  getCheapestRanges,
+  getComparisonRows,
+  getCostCurve,
+  MAX_COMPARED_OFFERS,
+} from '@/lib/xml-generator/offer-comparison'
+import {
+  hasFormData,
+  listWorkspaceOffers,
+  type WorkspaceOffer,
+} from '@/lib/xml-generator/offer-workspace'
+import { importXML } from '@/lib/xml-generator/xml-importer'
+
+const euroFormatter = new Intl.NumberFormat('it-IT', {
+  style: 'currency',
+  currency: 'EUR',
+})
+
+const getOfferKey = (offerIndex: number) => `offer${offerIndex}`
+
+function StructureTable({ offers }: { offers: ComparedOffer[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Caratteristica</TableHead>
+          {offers.map((offer) => (
+            <TableHead key={offer.id}>{offer.label}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {getComparisonRows(offers).map((row) => (
+          <TableRow
+            className={cn(row.differs && 'bg-yellow-50')}
+            data-differs={row.differs}
+            key={row.label}
+          >
+            <TableCell className="font-medium">{row.label}</TableCell>
+            {row.values.map((value, offerIndex) => (
+              <TableCell key={offers[offerIndex].id}>
+                {value ?? 'Non specificato'}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+function CostCurveChart({
+  offers,
+  curve,
+}: {
+  offers: ComparedOffer[]
+  curve: CostCurve
+}) {
+  const config: ChartConfig = Object.fromEntries(
+    offers.map((offer, offerIndex) => [
+      getOfferKey(offerIndex),
+      { label: offer.label, color: `var(--chart-${offerIndex + 1})` },
+    ]),
+  )
+  const data = curve.points.map((point) => ({
+    level: point.profile.label,
+    ...Object.fromEntries(
+      point.totals.map((total, offerIndex) => [getOfferKey(offerIndex), total]),
+    ),
+  }))
+
+  return (
+    <ChartContainer className="max-h-80 w-full" config={config}>
+      <LineChart data={data} margin={{ left: 12, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="level" tickLine={false} />
+        <YAxis tickFormatter={(value: number) => `${value} €`} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        {offers.map((offer, offerIndex) => (
+          <Line
+            dataKey={getOfferKey(offerIndex)}
+            dot={false}
+            key={offer.id}
+            stroke={`var(--color-${getOfferKey(offerIndex)})`}
+            strokeWidth={2}
+            type="monotone"
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  )
+}
+
+function CostCurveTable({
+  offers,
+  curve,
+}: {
+  offers: ComparedOffer[]
+  curve: CostCurve
+}) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Consumo annuo</TableHead>
+          {offers.map((offer) => (
+            <TableHead className="text-right" key={offer.id}>
+              {offer.label}
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {curve.points.map((point) => (
+          <TableRow key={point.profile.label}>
+            <TableCell>{point.profile.label}</TableCell>
+            {point.totals.map((total, offerIndex) => {
+              const isCheapest = point.cheapest.includes(offerIndex)
+              return (
+                <TableCell
+                  className={cn(
+                    'text-right',
+                    isCheapest && 'bg-green-50 font-semibold text-green-800',
+                  )}
+                  data-cheapest={isCheapest}
+                  key={offers[offerIndex].id}
+                >
+                  {total === undefined ? '—' : euroFormatter.format(total)}
+                </TableCell>
+              )
+            })}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+function CostComparison({ offers }: { offers: ComparedOffer[] }) {
+  const curve = getCostCurve(offers)
+  const ranges = getCheapestRanges(curve.points)
+
+  if (curve.points.length === 0) {
+    return (
+      <p className="text-gray-600 text-sm">
+        Nessuna offerta indica il tipo di mercato: la spesa annua non può essere
+        calcolata
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <CostCurveChart curve={curve} offers={offers} />
+
+      {ranges.length > 0 ? (
+        <ul aria-label="Offerte più convenienti" className="space-y-1 text-sm">
+          {ranges.map((range) => (
+            <li className="flex items-center gap-2" key={range.from.label}>
+              <Trophy className="h-4 w-4 text-green-600" />
+              <span>
+                <span className="font-medium">
+                  {range.offers
+                    .map((offerIndex) => offers[offerIndex].label)
+                    .join(' e ')}
+                </span>{' '}
+                {range.from === range.to
+                  ? `a ${range.from.label}`
+                  : `da ${range.from.label} a ${range.to.label}`}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      <CostCurveTable curve={curve} offers={offers} />
+
+      {curve.excluded.map(({ offerIndex, reason }) => (
+        <p className="text-gray-600 text-sm" key={offers[offerIndex].id}>
+          {offers[offerIndex].label} esclusa dalla spesa annua: {reason}
+        </p>
+      ))}
+      <p className="text-muted-foreground text-xs">
+        Spesa stimata per il mercato{' '}
+        {MARKET_TYPE_LABELS[curve.marketType ?? ''] ?? curve.marketType},
+        esclusi oneri di sistema, trasporto e imposte
+      </p>
+    </div>
+  )
+}
+
+/**
+ * Compares candidate offers before publishing (FE-4)
+ * Offers come from the drafts of the workspace or from XML files; the view
+ * lines up their structure and their annual cost over the consumption levels
+ */
+export function OfferComparison() {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [drafts, setDrafts] = useState<WorkspaceOffer[]>([])
+  const [offers, setOffers] = useState<ComparedOffer[]>([])
+
+  useEffect(() => {
+    // The workspace is optional here, files can always be compared
+    listWorkspaceOffers()
+      .then(setDrafts)
+      .catch(() => setDrafts([]))
+  }, [])
+
+  const addOffers = (added: ComparedOffer[]) => {
+    const ids = new Set(added.map((offer) => offer.id))
+    const merged = [...offers.filter((offer) => !ids.has(offer.id)), ...added]
+    if (merged.length > MAX_COMPARED_OFFERS) {
+      toast.error(
+        `Puoi confrontare al massimo ${MAX_COMPARED_OFFERS} offerte alla volta`,
+      )
+    }
+    setOffers(merged.slice(0, MAX_COMPARED_OFFERS))
+  }
+
+  const handleDraft = (id: string) => {
+    const draft = drafts.find((offer) => offer.id === id)
+    if (draft) {
+      addOffers([
+        { id: draft.id, label: draft.name, formStates: draft.formStates },
+      ])
+    }
+  }
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const files = [...(event.target.files ?? [])]
+    event.target.value = ''
+
+    const imported = await Promise.all(
+      files.map(async (file) => ({
+        file,
+        result: importXML(await file.text()),
+      })),
+    )
+    const added: ComparedOffer[] = []
+    for (const { file, result } of imported) {
+      if (hasFormData(result.formStates)) {
+        added.push({
+          id: `file:${file.name}`,
+          label: file.name,
+          formStates: result.formStates,
+        })
+      } else {
+        toast.error(`${file.name}: impossibile leggere l'offerta`, {
+          description: result.issues[0]?.message,
+        })
+      }
+    }
+    addOffers(added)
+  }
+
+  const removeOffer = (id: string) => {
+    setOffers((current) => current.filter((offer) => offer.id !== id))
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5 text-blue-600" />
+            Offerte da confrontare
+          </CardTitle>
+          <CardDescription>
+            Aggiungi fino a {MAX_COMPARED_OFFERS} offerte dalle bozze salvate o
+            da file XML
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select onValueChange={handleDraft} value="">
+              <SelectTrigger aria-label="Bozza da confrontare" className="w-64">
+                <SelectValue placeholder="Aggiungi una bozza" />
+              </SelectTrigger>
+              <SelectContent>
+                {drafts.map((draft) => (
+                  <SelectItem key={draft.id} value={draft.id}>
+                    {draft.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <input
+              accept=".xml,.XML,application/xml,text/xml"
+              aria-label="File XML da confrontare"
+              className="hidden"
+              multiple
+              onChange={handleFileChange}
+              ref={inputRef}
+              type="file"
+            />
+            <Button
+              onClick={() => inputRef.current?.click()}
+              type="button"
+              variant="outline"
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Carica XML
+            </Button>
+          </div>
+
+          {offers.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {offers.map((offer) => (
+                <Badge
+                  className="gap-1 pr-1"
+                  key={offer.id}
+                  variant="secondary"
+                >
+                  {offer.label}
+                  <Button
+                    aria-label={`Rimuovi ${offer.label}`}
+                    className="h-5 w-5"
+                    onClick={() => removeOffer(offer.id)}
+                    size="icon"
+                    type="button"
+                    variant="ghost"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-sm">
+              Nessuna offerta selezionata
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {offers.length >= 2 ? (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Struttura delle Offerte</CardTitle>
+              <CardDescription>
+                Le righe evidenziate sono diverse tra le offerte
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <StructureTable offers={offers} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Spesa Annua per Livello di Consumo</CardTitle>
+              <CardDescription>
+                In verde l&apos;offerta più conveniente per ogni livello di
+                consumo
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CostComparison offers={offers} />
+            </CardContent>
+          </Card>
+        </>
+      ) : null}
+    </div>
+  )
+}
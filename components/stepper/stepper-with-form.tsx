@@ -3,6 +3,7 @@
 import { parseAsString, useQueryState } from 'nuqs'
 import { Suspense, useEffect } from 'react'
 import { Skeleton } from '@/components/ui/skeleton'
+import { WorkspaceAutosave } from '@/components/xml-generator/workspace-autosave'
 import { xmlFormStepper } from '@/lib/xml-generator/stepperize-config'
 
 const { useStepper } = xmlFormStepper
@@ -24,6 +25,7 @@ function StepperWithFormContent() {
 
   return (
     <>
+      <WorkspaceAutosave />
       {methods.switch({
         basicInfo: ({ Component }) => <Component />,
         offerDetails: ({ Component }) => <Component />,
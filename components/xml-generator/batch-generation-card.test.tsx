@@ -0,0 +1,116 @@
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { toast } from 'sonner'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  downloadBatchZip,
+  generateBatch,
+} from '@/lib/xml-generator/batch-generator'
+import { BatchGenerationCard } from './batch-generation-card'
+
+vi.mock('@/lib/xml-generator/batch-generator', () => ({
+  generateBatch: vi.fn(),
+  downloadBatchZip: vi.fn().mockReturnValue({ success: true }),
+}))
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), warning: vi.fn(), error: vi.fn() },
+}))
+
+// Regex patterns for testing
+const ADD_VARIANT_REGEX = /aggiungi variante/i
+const GENERATE_ZIP_REGEX = /genera zip/i
+const EXCLUDED_REGEX = /Escluso \(Trovati 1 errore\): Nome file duplicato/
+
+const formStates = {
+  basicInfo: { pivaUtente: 'IT12345678901', codOfferta: 'LUCE01' },
+  offerDetails: { offerName: 'Luce Fissa' },
+}
+
+describe('BatchGenerationCard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(generateBatch).mockReturnValue({
+      items: [
+        {
+          filename: 'IT12345678901_INSERIMENTO_LUCE_NORD.XML',
+          xml: '<Offerta/>',
+          isValid: true,
+          errors: [],
+        },
+        {
+          filename: 'IT12345678901_INSERIMENTO_LUCE_NORD.XML',
+          xml: '<Offerta/>',
+          isValid: false,
+          errors: [
+            {
+              path: '/',
+              message:
+                'Nome file duplicato: IT12345678901_INSERIMENTO_LUCE_NORD.XML',
+              severity: 'error',
+            },
+          ],
+        },
+      ],
+      validCount: 1,
+      invalidCount: 1,
+    })
+  })
+
+  it('precompila la prima variante dai dati correnti', () => {
+    render(<BatchGenerationCard formStates={formStates} />)
+
+    expect(screen.getByLabelText('Codice offerta variante 1')).toHaveValue(
+      'LUCE01',
+    )
+    expect(screen.getByLabelText('Nome offerta variante 1')).toHaveValue(
+      'Luce Fissa',
+    )
+  })
+
+  it('genera una variante per riga e scarica lo ZIP', async () => {
+    const user = userEvent.setup()
+    render(<BatchGenerationCard formStates={formStates} />)
+
+    await user.click(screen.getByRole('button', { name: ADD_VARIANT_REGEX }))
+    await user.type(
+      screen.getByLabelText('Codice offerta variante 2'),
+      'LUCE01SUD',
+    )
+    await user.type(screen.getByLabelText('Nome offerta variante 2'), 'Sud')
+    await user.click(screen.getByRole('button', { name: GENERATE_ZIP_REGEX }))
+
+    expect(generateBatch).toHaveBeenCalledWith(formStates, [
+      {
+        overrides: {
+          basicInfo: { codOfferta: 'LUCE01' },
+          offerDetails: { offerName: 'Luce Fissa' },
+        },
+      },
+      {
+        overrides: {
+          basicInfo: { codOfferta: 'LUCE01SUD' },
+          offerDetails: { offerName: 'Sud' },
+        },
+      },
+    ])
+    expect(downloadBatchZip).toHaveBeenCalled()
+    expect(toast.warning).toHaveBeenCalled()
+    expect(screen.getByText(EXCLUDED_REGEX)).toBeInTheDocument()
+  })
+
+  it('mostra un errore se nessun file può essere scaricato', async () => {
+    const user = userEvent.setup()
+    vi.mocked(downloadBatchZip).mockReturnValueOnce({
+      success: false,
+      error: "Nessun file XML valido da includere nell'archivio",
+    })
+    render(<BatchGenerationCard formStates={formStates} />)
+
+    await user.click(screen.getByRole('button', { name: GENERATE_ZIP_REGEX }))
+
+    expect(toast.error).toHaveBeenCalledWith('Generazione ZIP non riuscita', {
+      description: "Nessun file XML valido da includere nell'archivio",
+    })
+  })
+})
@@ -0,0 +1,189 @@
+'use client'
+
+import {
+  AlertCircle,
+  CheckCircle,
+  FileArchive,
+  Plus,
+  Trash2,
+} from 'lucide-react'
+import { useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  type BatchResult,
+  downloadBatchZip,
+  generateBatch,
+} from '@/lib/xml-generator/batch-generator'
+import type { FormStatesInput } from '@/lib/xml-generator/xml-form-data'
+import { getValidationSummary } from '@/lib/xml-generator/xml-validator'
+
+interface VariantRow {
+  id: number
+  codOfferta: string
+  offerName: string
+}
+
+export function BatchGenerationCard({
+  formStates,
+}: {
+  formStates: FormStatesInput
+}) {
+  const nextId = useRef(1)
+  const [rows, setRows] = useState<VariantRow[]>(() => [
+    {
+      id: 0,
+      codOfferta: formStates.basicInfo?.codOfferta || '',
+      offerName: formStates.offerDetails?.offerName || '',
+    },
+  ])
+  const [result, setResult] = useState<BatchResult | null>(null)
+
+  const addRow = () => {
+    setRows((current) => [
+      ...current,
+      { id: nextId.current++, codOfferta: '', offerName: '' },
+    ])
+  }
+
+  const removeRow = (id: number) => {
+    setRows((current) => current.filter((row) => row.id !== id))
+  }
+
+  const updateRow = (
+    id: number,
+    field: 'codOfferta' | 'offerName',
+    value: string,
+  ) => {
+    setRows((current) =>
+      current.map((row) => (row.id === id ? { ...row, [field]: value } : row)),
+    )
+  }
+
+  const handleGenerate = () => {
+    const batch = generateBatch(
+      formStates,
+      rows.map((row) => ({
+        overrides: {
+          basicInfo: { codOfferta: row.codOfferta },
+          offerDetails: { offerName: row.offerName },
+        },
+      })),
+    )
+    setResult(batch)
+
+    const download = downloadBatchZip(batch)
+    if (!download.success) {
+      toast.error('Generazione ZIP non riuscita', {
+        description: download.error || 'Si è verificato un errore imprevisto',
+      })
+      return
+    }
+
+    if (batch.invalidCount > 0) {
+      toast.warning('Archivio ZIP scaricato con esclusioni', {
+        description: `${batch.validCount} file inclusi, ${batch.invalidCount} esclusi: vedi manifest.json`,
+      })
+    } else {
+      toast.success('Archivio ZIP scaricato con successo', {
+        description: `${batch.validCount} file XML inclusi`,
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileArchive className="h-5 w-5 text-purple-600" />
+          Generazione multipla
+        </CardTitle>
+        <CardDescription>
+          Genera più varianti dell&apos;offerta corrente, ad esempio una per
+          regione o canale, e scaricale in un unico archivio ZIP
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {rows.map((row, index) => (
+            <div className="flex items-center gap-2" key={row.id}>
+              <Input
+                aria-label={`Codice offerta variante ${index + 1}`}
+                onChange={(event) =>
+                  updateRow(row.id, 'codOfferta', event.target.value)
+                }
+                placeholder="Codice offerta"
+                value={row.codOfferta}
+              />
+              <Input
+                aria-label={`Nome offerta variante ${index + 1}`}
+                onChange={(event) =>
+                  updateRow(row.id, 'offerName', event.target.value)
+                }
+                placeholder="Nome offerta"
+                value={row.offerName}
+              />
+              <Button
+                aria-label={`Rimuovi variante ${index + 1}`}
+                disabled={rows.length === 1}
+                onClick={() => removeRow(row.id)}
+                size="icon"
+                type="button"
+                variant="ghost"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={addRow} type="button" variant="outline">
+            <Plus className="mr-2 h-4 w-4" />
+            Aggiungi variante
+          </Button>
+          <Button onClick={handleGenerate} type="button">
+            <FileArchive className="mr-2 h-4 w-4" />
+            Genera ZIP
+          </Button>
+        </div>
+
+        {result ? (
+          <ul className="max-h-64 space-y-2 overflow-auto text-sm">
+            {result.items.map((item, index) => (
+              <li
+                className={`flex items-start gap-2 rounded-md p-2 ${
+                  item.isValid
+                    ? 'bg-green-50 text-green-700'
+                    : 'bg-red-50 text-red-700'
+                }`}
+                key={`${item.filename}-${index}`}
+              >
+                {item.isValid ? (
+                  <CheckCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                ) : (
+                  <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                )}
+                <span>
+                  <code className="text-xs">{item.filename}</code>
+                  <br />
+                  {item.isValid
+                    ? "Incluso nell'archivio"
+                    : `Escluso (${getValidationSummary(item.errors)}): ${item.errors.find((error) => error.severity === 'error')?.message}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
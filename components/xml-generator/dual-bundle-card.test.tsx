@@ -0,0 +1,169 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { toast } from 'sonner'
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { downloadDualBundleZip } from '@/lib/xml-generator/dual-bundle'
+import {
+  createWorkspaceOffer,
+  listWorkspaceOffers,
+} from '@/lib/xml-generator/offer-workspace'
+import type { FormStatesInput } from '@/lib/xml-generator/xml-form-data'
+import { DualBundleCard } from './dual-bundle-card'
+
+vi.mock('@/lib/xml-generator/offer-workspace', async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import('@/lib/xml-generator/offer-workspace')
+  >()),
+  listWorkspaceOffers: vi.fn(),
+}))
+
+vi.mock('@/lib/xml-generator/dual-bundle', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/xml-generator/dual-bundle')>()),
+  downloadDualBundleZip: vi.fn().mockReturnValue({ success: true }),
+}))
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}))
+
+// Regex patterns for testing
+const ALIGN_REGEX = /allinea dati comuni/i
+const GENERATE_REGEX = /genera pacchetto/i
+const ELECTRICITY_DRAFT_REGEX = /bozza offerta luce/i
+const GAS_DRAFT_REGEX = /bozza offerta gas/i
+const CLIENT_TYPE_ERROR_REGEX = /offerta gas: il tipo cliente deve coincidere/i
+
+const createOffer = (
+  codOfferta: string,
+  offerName: string,
+  clientType: '01' | '02' = '01',
+): FormStatesInput => ({
+  basicInfo: { pivaUtente: 'IT12345678901', codOfferta },
+  offerDetails: {
+    marketType: '03',
+    singleOffer: 'SI',
+    clientType,
+    residentialStatus: '01',
+    offerType: '01',
+    contractActivationTypes: ['01'],
+    offerName,
+    offerDescription: 'Prezzo fisso per 12 mesi',
+    duration: 12,
+    guarantees: 'NO',
+  },
+  activationContacts: { activationMethods: ['01'], phone: '800123456' },
+  paymentConditions: { paymentMethods: [{ paymentMethodType: '01' }] },
+  validityReview: {
+    validityPeriod: { startDate: '01/01/2099', endDate: '31/12/2099' },
+  },
+})
+
+const dualOffer = createOffer('DUAL01', 'Casa Insieme')
+
+const selectElectricity = async () => {
+  fireEvent.click(
+    screen.getByRole('combobox', { name: ELECTRICITY_DRAFT_REGEX }),
+  )
+  fireEvent.click(await screen.findByRole('option', { name: 'Casa Luce' }))
+}
+
+const selectGas = async (name: string) => {
+  fireEvent.click(screen.getByRole('combobox', { name: GAS_DRAFT_REGEX }))
+  fireEvent.click(await screen.findByRole('option', { name }))
+}
+
+describe('DualBundleCard', () => {
+  beforeAll(() => {
+    // Radix Select scrolls the selected option into view, missing in jsdom
+    Element.prototype.scrollIntoView = vi.fn()
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(listWorkspaceOffers).mockResolvedValue([
+      createWorkspaceOffer(
+        createOffer('LUCE01', 'Casa Luce'),
+        new Date('2026-10-19T08:00:00Z'),
+        'offer-1',
+      ),
+      createWorkspaceOffer(
+        createOffer('GAS01', 'Casa Gas', '02'),
+        new Date('2026-10-19T08:00:00Z'),
+        'offer-2',
+      ),
+    ])
+  })
+
+  it("mette l'offerta in modifica nella colonna Dual Fuel", () => {
+    render(<DualBundleCard formStates={dualOffer} />)
+
+    expect(screen.getByLabelText('Codice offerta dual fuel')).toHaveValue(
+      'DUAL01',
+    )
+    expect(screen.getByLabelText('Codice offerta luce')).toHaveValue('')
+  })
+
+  it('collega i codici delle offerte luce e gas', async () => {
+    const user = userEvent.setup()
+    render(<DualBundleCard formStates={dualOffer} />)
+
+    await selectElectricity()
+    await user.type(screen.getByLabelText('Codice offerta gas'), 'GAS09')
+
+    expect(screen.getByText('LUCE01')).toBeInTheDocument()
+    expect(screen.getByText('GAS09')).toBeInTheDocument()
+  })
+
+  it('segnala il tipo cliente diverso e lo allinea', async () => {
+    const user = userEvent.setup()
+    render(<DualBundleCard formStates={dualOffer} />)
+
+    await selectElectricity()
+    await selectGas('Casa Gas')
+
+    expect(screen.getByText(CLIENT_TYPE_ERROR_REGEX)).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: ALIGN_REGEX }))
+
+    expect(screen.queryByText(CLIENT_TYPE_ERROR_REGEX)).not.toBeInTheDocument()
+    expect(screen.getByLabelText('Codice offerta gas')).toHaveValue('GAS01')
+  })
+
+  it('esporta i tre XML collegati', async () => {
+    const user = userEvent.setup()
+    render(<DualBundleCard formStates={dualOffer} />)
+
+    await selectElectricity()
+    await selectGas('Casa Gas')
+    await user.click(screen.getByRole('button', { name: ALIGN_REGEX }))
+    await user.click(screen.getByRole('button', { name: GENERATE_REGEX }))
+
+    expect(downloadDualBundleZip).toHaveBeenCalledWith(
+      expect.objectContaining({ isValid: true }),
+      'DUAL_DUAL01.zip',
+    )
+    expect(toast.success).toHaveBeenCalled()
+    expect(
+      screen.getByText('IT12345678901_INSERIMENTO_CASA_GAS.XML'),
+    ).toBeInTheDocument()
+  })
+
+  it("segnala l'errore quando il pacchetto non è completo", async () => {
+    const user = userEvent.setup()
+    vi.mocked(downloadDualBundleZip).mockReturnValueOnce({
+      success: false,
+      error: 'Il pacchetto Dual Fuel contiene errori',
+    })
+    render(<DualBundleCard formStates={dualOffer} />)
+
+    await user.click(screen.getByRole('button', { name: GENERATE_REGEX }))
+
+    expect(toast.error).toHaveBeenCalledWith(
+      'Pacchetto Dual Fuel non esportato',
+      { description: 'Il pacchetto Dual Fuel contiene errori' },
+    )
+    expect(
+      screen.getByText('Offerta luce: codice offerta mancante'),
+    ).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,272 @@
+'use client'
+
+import {
+  AlertCircle,
+  CheckCircle,
+  Combine,
+  FileArchive,
+  RefreshCw,
+} from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CLIENT_TYPE_LABELS } from '@/lib/xml-generator/constants'
+import {
+  alignDualBundle,
+  checkDualBundle,
+  createDualBundle,
+  DUAL_BUNDLE_ROLE_LABELS,
+  DUAL_BUNDLE_ROLES,
+  type DualBundleResult,
+  type DualBundleRole,
+  type DualOfferBundle,
+  downloadDualBundleZip,
+  generateDualBundle,
+  generateDualBundleFilename,
+  linkDualBundle,
+} from '@/lib/xml-generator/dual-bundle'
+import {
+  listWorkspaceOffers,
+  type WorkspaceOffer,
+} from '@/lib/xml-generator/offer-workspace'
+import type { FormStatesInput } from '@/lib/xml-generator/xml-form-data'
+import { getValidationSummary } from '@/lib/xml-generator/xml-validator'
+
+const CURRENT_OFFER = 'current'
+
+interface BundleColumnProps {
+  role: DualBundleRole
+  offer: FormStatesInput
+  drafts: WorkspaceOffer[]
+  onSelect: (value: string) => void
+  onChange: (field: 'codOfferta' | 'offerName', value: string) => void
+}
+
+function BundleColumn({
+  role,
+  offer,
+  drafts,
+  onSelect,
+  onChange,
+}: BundleColumnProps) {
+  const label = DUAL_BUNDLE_ROLE_LABELS[role]
+  const clientType = offer.offerDetails?.clientType
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <p className="font-medium text-sm">{label}</p>
+      <Select onValueChange={onSelect}>
+        <SelectTrigger aria-label={`Bozza ${label.toLowerCase()}`}>
+          <SelectValue placeholder="Carica da una bozza" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={CURRENT_OFFER}>Offerta in modifica</SelectItem>
+          {drafts.map((draft) => (
+            <SelectItem key={draft.id} value={draft.id}>
+              {draft.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        aria-label={`Codice ${label.toLowerCase()}`}
+        onChange={(event) => onChange('codOfferta', event.target.value)}
+        placeholder="Codice offerta"
+        value={offer.basicInfo?.codOfferta ?? ''}
+      />
+      <Input
+        aria-label={`Nome ${label.toLowerCase()}`}
+        onChange={(event) => onChange('offerName', event.target.value)}
+        placeholder="Nome offerta"
+        value={offer.offerDetails?.offerName ?? ''}
+      />
+      <p className="text-muted-foreground text-xs">
+        Tipo cliente:{' '}
+        {(clientType && CLIENT_TYPE_LABELS[clientType]) || 'Non specificato'}
+      </p>
+    </div>
+  )
+}
+
+export function DualBundleCard({
+  formStates,
+}: {
+  formStates: FormStatesInput
+}) {
+  const [drafts, setDrafts] = useState<WorkspaceOffer[]>([])
+  const [bundle, setBundle] = useState<DualOfferBundle>(() =>
+    createDualBundle(formStates),
+  )
+  const [result, setResult] = useState<DualBundleResult | null>(null)
+
+  useEffect(() => {
+    // Without the workspace the component offers are filled in by hand
+    listWorkspaceOffers()
+      .then(setDrafts)
+      .catch(() => setDrafts([]))
+  }, [])
+
+  const updateBundle = (next: DualOfferBundle) => {
+    setBundle(next)
+    setResult(null)
+  }
+
+  const handleSelect = (role: DualBundleRole, value: string) => {
+    const draft = drafts.find((offer) => offer.id === value)
+    updateBundle({ ...bundle, [role]: draft?.formStates ?? formStates })
+  }
+
+  const handleChange = (
+    role: DualBundleRole,
+    field: 'codOfferta' | 'offerName',
+    value: string,
+  ) => {
+    const offer = bundle[role]
+    updateBundle({
+      ...bundle,
+      [role]:
+        field === 'codOfferta'
+          ? { ...offer, basicInfo: { ...offer.basicInfo, codOfferta: value } }
+          : {
+              ...offer,
+              offerDetails: { ...offer.offerDetails, offerName: value },
+            },
+    })
+  }
+
+  const handleGenerate = () => {
+    const generated = generateDualBundle(bundle)
+    setResult(generated)
+
+    const download = downloadDualBundleZip(
+      generated,
+      generateDualBundleFilename(bundle),
+    )
+    if (download.success) {
+      toast.success('Pacchetto Dual Fuel scaricato con successo', {
+        description: `${generated.items.length} file XML collegati`,
+      })
+    } else {
+      toast.error('Pacchetto Dual Fuel non esportato', {
+        description: download.error || 'Si è verificato un errore imprevisto',
+      })
+    }
+  }
+
+  const jointOffers = linkDualBundle(bundle).dual.additionalFeatures?.dualOffer
+  const errors = result?.errors ?? checkDualBundle(bundle)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Combine className="h-5 w-5 text-teal-600" />
+          Pacchetto Dual Fuel
+        </CardTitle>
+        <CardDescription>
+          Prepara insieme l&apos;offerta Dual Fuel e le offerte luce e gas che
+          la compongono: i codici vengono collegati automaticamente e i tre XML
+          sono esportati in un unico archivio
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          {DUAL_BUNDLE_ROLES.map((role) => (
+            <BundleColumn
+              drafts={drafts}
+              key={role}
+              offer={bundle[role]}
+              onChange={(field, value) => handleChange(role, field, value)}
+              onSelect={(value) => handleSelect(role, value)}
+              role={role}
+            />
+          ))}
+        </div>
+
+        <p className="text-sm">
+          Offerte congiunte: luce{' '}
+          <code className="text-xs">
+            {jointOffers?.electricityJointOffers?.join(', ') || '—'}
+          </code>
+          , gas{' '}
+          <code className="text-xs">
+            {jointOffers?.gasJointOffers?.join(', ') || '—'}
+          </code>
+        </p>
+
+        {errors.length > 0 ? (
+          <ul className="space-y-1 text-red-700 text-sm">
+            {errors.map((error) => (
+              <li
+                className="flex items-start gap-2"
+                key={`${error.path}-${error.message}`}
+              >
+                <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                {error.message}
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => updateBundle(alignDualBundle(bundle))}
+            type="button"
+            variant="outline"
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Allinea dati comuni
+          </Button>
+          <Button onClick={handleGenerate} type="button">
+            <FileArchive className="mr-2 h-4 w-4" />
+            Genera pacchetto
+          </Button>
+        </div>
+
+        {result ? (
+          <ul className="space-y-2 text-sm">
+            {result.items.map((item, index) => (
+              <li
+                className={`flex items-start gap-2 rounded-md p-2 ${
+                  item.isValid
+                    ? 'bg-green-50 text-green-700'
+                    : 'bg-red-50 text-red-700'
+                }`}
+                key={DUAL_BUNDLE_ROLES[index]}
+              >
+                {item.isValid ? (
+                  <CheckCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                ) : (
+                  <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                )}
+                <span>
+                  {DUAL_BUNDLE_ROLE_LABELS[DUAL_BUNDLE_ROLES[index]]}:{' '}
+                  <code className="text-xs">{item.filename}</code>
+                  <br />
+                  {item.isValid
+                    ? 'XML valido'
+                    : `${getValidationSummary(item.errors)}: ${item.errors.find((error) => error.severity === 'error')?.message}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,6 +1,12 @@
 // Export all XML generator form components
 
+export { BatchGenerationCard } from './batch-generation-card'
+export { DualBundleCard } from './dual-bundle-card'
+export { OfferDiffCard } from './offer-diff-card'
+export { OfferWorkspaceCard } from './offer-workspace-card'
 export { PlaceholderComponent } from './placeholder-component'
+export { PriceIndexHistoryCard } from './price-index-history-card'
+export { SpreadsheetImportCard } from './spreadsheet-import-card'
 export { AdditionalFeaturesStep } from './steps/additional-features-step'
 export { BasicInfoStep } from './steps/basic-info-step'
 export { CompanyComponentsStep } from './steps/company-components-step'
@@ -9,3 +15,7 @@ export { PaymentConditionsStep } from './steps/payment-conditions-step'
 export { PricingConfigStep } from './steps/pricing-config-step'
 export * from './steps/skeletons'
 export { ValidityReviewStep } from './steps/validity-review-step'
+export { TemplatePickerCard } from './template-picker-card'
+export { WeeklyTimeBandEditor } from './weekly-time-band-editor'
+export { WorkspaceAutosave } from './workspace-autosave'
+export { XmlImportCard } from './xml-import-card'
@@ -0,0 +1,127 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { downloadOfferDiff } from '@/lib/xml-generator/offer-diff'
+import {
+  createWorkspaceOffer,
+  listWorkspaceOffers,
+} from '@/lib/xml-generator/offer-workspace'
+import { buildXML } from '@/lib/xml-generator/xml-builder'
+import {
+  type FormStatesInput,
+  toXMLFormData,
+} from '@/lib/xml-generator/xml-form-data'
+import { OfferDiffCard } from './offer-diff-card'
+
+vi.mock('@/lib/xml-generator/offer-workspace', async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import('@/lib/xml-generator/offer-workspace')
+  >()),
+  listWorkspaceOffers: vi.fn(),
+}))
+
+vi.mock('@/lib/xml-generator/offer-diff', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/xml-generator/offer-diff')>()),
+  downloadOfferDiff: vi.fn().mockReturnValue({ success: true }),
+}))
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}))
+
+// Regex patterns for testing
+const COMPARE_REGEX = /confronta/i
+const EXPORT_HTML_REGEX = /esporta html/i
+const DRAFT_AFTER_REGEX = /bozza versione nuova/i
+const DRAFT_BEFORE_REGEX = /bozza versione precedente/i
+const NO_DIFFERENCES_REGEX = /nessuna differenza/i
+
+const formStates: FormStatesInput = {
+  basicInfo: { pivaUtente: 'IT12345678901', codOfferta: 'LUCE01' },
+  offerDetails: { marketType: '01', offerName: 'Luce Fissa' },
+}
+
+const previousXML = buildXML(
+  toXMLFormData({
+    ...formStates,
+    offerDetails: { marketType: '01', offerName: 'Luce Base' },
+  }),
+)
+
+const uploadPrevious = async (user: ReturnType<typeof userEvent.setup>) => {
+  const file = new File([previousXML], 'luce-v1.xml', { type: 'text/xml' })
+  // jsdom does not implement Blob.text()
+  file.text = () => Promise.resolve(previousXML)
+  await user.upload(screen.getByLabelText('File XML versione precedente'), file)
+}
+
+const selectAfter = async (name: string) => {
+  fireEvent.click(screen.getByRole('combobox', { name: DRAFT_AFTER_REGEX }))
+  fireEvent.click(await screen.findByRole('option', { name }))
+}
+
+describe('OfferDiffCard', () => {
+  beforeAll(() => {
+    // Radix Select scrolls the selected option into view, missing in jsdom
+    Element.prototype.scrollIntoView = vi.fn()
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(listWorkspaceOffers).mockResolvedValue([
+      createWorkspaceOffer(
+        formStates,
+        new Date('2026-10-19T08:00:00Z'),
+        'offer-1',
+      ),
+    ])
+  })
+
+  it('confronta un XML caricato con la bozza in modifica', async () => {
+    const user = userEvent.setup()
+    render(<OfferDiffCard formStates={formStates} />)
+
+    expect(screen.getByRole('button', { name: COMPARE_REGEX })).toBeDisabled()
+
+    await uploadPrevious(user)
+    await selectAfter('Offerta in modifica')
+    await user.click(screen.getByRole('button', { name: COMPARE_REGEX }))
+
+    expect(screen.getByText('1 differenza trovata')).toBeInTheDocument()
+    expect(
+      screen.getByText('DettaglioOfferta/NOME_OFFERTA'),
+    ).toBeInTheDocument()
+    expect(screen.getByText('Luce Base')).toBeInTheDocument()
+    expect(screen.getByText('Luce Fissa')).toBeInTheDocument()
+  })
+
+  it('esporta il confronto con una bozza salvata', async () => {
+    const user = userEvent.setup()
+    render(<OfferDiffCard formStates={formStates} />)
+
+    await uploadPrevious(user)
+    await selectAfter('Luce Fissa')
+    await user.click(screen.getByRole('button', { name: COMPARE_REGEX }))
+    await user.click(screen.getByRole('button', { name: EXPORT_HTML_REGEX }))
+
+    expect(downloadOfferDiff).toHaveBeenCalledWith(
+      [expect.objectContaining({ kind: 'changed', after: 'Luce Fissa' })],
+      { before: 'luce-v1.xml', after: 'Luce Fissa' },
+      'html',
+    )
+  })
+
+  it('segnala quando le versioni coincidono', async () => {
+    const user = userEvent.setup()
+    render(<OfferDiffCard formStates={formStates} />)
+
+    fireEvent.click(screen.getByRole('combobox', { name: DRAFT_BEFORE_REGEX }))
+    fireEvent.click(
+      await screen.findByRole('option', { name: 'Offerta in modifica' }),
+    )
+    await selectAfter('Offerta in modifica')
+    await user.click(screen.getByRole('button', { name: COMPARE_REGEX }))
+
+    expect(screen.getByText(NO_DIFFERENCES_REGEX)).toBeInTheDocument()
+  })
+})
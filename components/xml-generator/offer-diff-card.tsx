@@ -0,0 +1,310 @@
+'use client'
+
+import { Download, GitCompare, Upload } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  diffOffers,
+  downloadOfferDiff,
+  OFFER_DIFF_KIND_LABELS,
+  type OfferDiffKind,
+  type OfferDiffReportFormat,
+  type OfferDiffResult,
+} from '@/lib/xml-generator/offer-diff'
+import {
+  listWorkspaceOffers,
+  type WorkspaceOffer,
+} from '@/lib/xml-generator/offer-workspace'
+import { resolveSpecVersion } from '@/lib/xml-generator/spec-registry'
+import { buildXML } from '@/lib/xml-generator/xml-builder'
+import {
+  type FormStatesInput,
+  toXMLFormData,
+} from '@/lib/xml-generator/xml-form-data'
+
+type DiffSide = 'before' | 'after'
+
+type DiffSource = {
+  // "current", the id of a workspace offer or "file"
+  id: string
+  label: string
+  xml: string
+}
+
+const CURRENT_OFFER = 'current'
+
+const SIDE_LABELS: Record<DiffSide, string> = {
+  before: 'Versione precedente',
+  after: 'Versione nuova',
+}
+
+const KIND_ROW_CLASSES: Record<OfferDiffKind, string> = {
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-700',
+  changed: 'bg-yellow-50 text-yellow-800',
+}
+
+interface SourcePickerProps {
+  side: DiffSide
+  source: DiffSource | null
+  drafts: WorkspaceOffer[]
+  onSelect: (value: string) => void
+  onFile: (file: File) => void
+}
+
+function SourcePicker({
+  side,
+  source,
+  drafts,
+  onSelect,
+  onFile,
+}: SourcePickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <p className="font-medium text-sm">{SIDE_LABELS[side]}</p>
+      <Select
+        onValueChange={onSelect}
+        value={source && source.id !== 'file' ? source.id : ''}
+      >
+        <SelectTrigger aria-label={`Bozza ${SIDE_LABELS[side].toLowerCase()}`}>
+          <SelectValue placeholder="Seleziona una bozza" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={CURRENT_OFFER}>Offerta in modifica</SelectItem>
+          {drafts.map((draft) => (
+            <SelectItem key={draft.id} value={draft.id}>
+              {draft.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <input
+        accept=".xml,application/xml,text/xml"
+        aria-label={`File XML ${SIDE_LABELS[side].toLowerCase()}`}
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0]
+          event.target.value = ''
+          if (file) {
+            onFile(file)
+          }
+        }}
+        ref={inputRef}
+        type="file"
+      />
+      <Button
+        onClick={() => inputRef.current?.click()}
+        size="sm"
+        type="button"
+        variant="outline"
+      >
+        <Upload className="mr-2 h-4 w-4" />
+        Carica XML
+      </Button>
+      <p className="text-muted-foreground text-xs">
+        {source
+          ? `Selezionato: ${source.label}`
+          : 'Nessuna versione selezionata'}
+      </p>
+    </div>
+  )
+}
+
+export function OfferDiffCard({ formStates }: { formStates: FormStatesInput }) {
+  const [drafts, setDrafts] = useState<WorkspaceOffer[]>([])
+  const [sources, setSources] = useState<Record<DiffSide, DiffSource | null>>({
+    before: null,
+    after: null,
+  })
+  const [result, setResult] = useState<OfferDiffResult | null>(null)
+
+  useEffect(() => {
+    // The workspace is optional here, files can always be compared
+    listWorkspaceOffers()
+      .then(setDrafts)
+      .catch(() => setDrafts([]))
+  }, [])
+
+  const setSource = (side: DiffSide, source: DiffSource) => {
+    setSources((current) => ({ ...current, [side]: source }))
+    setResult(null)
+  }
+
+  const handleSelect = (side: DiffSide, value: string) => {
+    const draft = drafts.find((offer) => offer.id === value)
+    try {
+      const offer = draft?.formStates ?? formStates
+      const xml = buildXML(
+        toXMLFormData(offer),
+        resolveSpecVersion(offer.basicInfo?.specVersion),
+      )
+      setSource(side, {
+        id: value,
+        label: draft?.name ?? 'Offerta in modifica',
+        xml,
+      })
+    } catch {
+      toast.error('Impossibile generare il XML della bozza selezionata')
+    }
+  }
+
+  const handleFile = async (side: DiffSide, file: File) => {
+    setSource(side, { id: 'file', label: file.name, xml: await file.text() })
+  }
+
+  const handleCompare = () => {
+    if (sources.before && sources.after) {
+      setResult(diffOffers(sources.before.xml, sources.after.xml))
+    }
+  }
+
+  const handleExport = (format: OfferDiffReportFormat) => {
+    if (!(result && sources.before && sources.after)) {
+      return
+    }
+    const download = downloadOfferDiff(
+      result.entries,
+      { before: sources.before.label, after: sources.after.label },
+      format,
+    )
+    if (!download.success) {
+      toast.error('Esportazione non riuscita', {
+        description: download.error,
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5 text-indigo-600" />
+          Confronto tra Versioni
+        </CardTitle>
+        <CardDescription>
+          Confronta due versioni dell&apos;offerta elemento per elemento:
+          componenti, sconti e scaglioni vengono abbinati per nome e non per
+          posizione
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          {(['before', 'after'] as const).map((side) => (
+            <SourcePicker
+              drafts={drafts}
+              key={side}
+              onFile={(file) => handleFile(side, file)}
+              onSelect={(value) => handleSelect(side, value)}
+              side={side}
+              source={sources[side]}
+            />
+          ))}
+        </div>
+
+        <Button
+          disabled={!(sources.before && sources.after)}
+          onClick={handleCompare}
+          type="button"
+        >
+          <GitCompare className="mr-2 h-4 w-4" />
+          Confronta
+        </Button>
+
+        {result?.error ? (
+          <p className="text-red-700 text-sm">{result.error}</p>
+        ) : null}
+
+        {result?.success ? (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="font-medium text-sm">
+                {result.entries.length === 0
+                  ? 'Nessuna differenza tra le due versioni'
+                  : `${result.entries.length} ${result.entries.length === 1 ? 'differenza trovata' : 'differenze trovate'}`}
+              </p>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => handleExport('markdown')}
+                  size="sm"
+                  type="button"
+                  variant="outline"
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Esporta Markdown
+                </Button>
+                <Button
+                  onClick={() => handleExport('html')}
+                  size="sm"
+                  type="button"
+                  variant="outline"
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Esporta HTML
+                </Button>
+              </div>
+            </div>
+
+            {result.entries.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Elemento</TableHead>
+                    <TableHead>Modifica</TableHead>
+                    <TableHead>Prima</TableHead>
+                    <TableHead>Dopo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.entries.map((entry, index) => (
+                    <TableRow
+                      className={KIND_ROW_CLASSES[entry.kind]}
+                      key={`${entry.path}-${index}`}
+                    >
+                      <TableCell className="whitespace-normal break-all font-mono text-xs">
+                        {entry.path}
+                      </TableCell>
+                      <TableCell>
+                        {OFFER_DIFF_KIND_LABELS[entry.kind]}
+                      </TableCell>
+                      <TableCell className="whitespace-normal">
+                        {entry.before ?? '—'}
+                      </TableCell>
+                      <TableCell className="whitespace-normal">
+                        {entry.after ?? '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : null}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,182 @@
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { FormProvider, type UseFormReturn, useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { useFormStates } from '@/hooks/use-form-states'
+import { useWorkspaceOfferId } from '@/hooks/use-workspace-offer-id'
+import {
+  createOfferSnapshot,
+  downloadOfferHistory,
+  listOfferSnapshots,
+} from '@/lib/xml-generator/offer-history'
+import type { BasicInfoFormValues } from '@/lib/xml-generator/schemas'
+import { OfferHistoryCard } from './offer-history-card'
+
+vi.mock('@/lib/xml-generator/offer-history', async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import('@/lib/xml-generator/offer-history')
+  >()),
+  listOfferSnapshots: vi.fn(),
+  downloadOfferHistory: vi.fn().mockReturnValue({ success: true }),
+}))
+
+vi.mock('@/hooks/use-workspace-offer-id', () => ({
+  useWorkspaceOfferId: vi.fn(),
+}))
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}))
+
+// Regex patterns for testing
+const CHANGES_REGEX = /^modifiche del/i
+const RESTORE_REGEX = /^ripristina la versione/i
+const EXPORT_CSV_REGEX = /esporta csv/i
+const EXPORT_JSON_REGEX = /esporta json/i
+
+const basicInfo = { pivaUtente: 'IT12345678901', codOfferta: 'LUCE01' }
+
+const firstVersion = createOfferSnapshot(
+  'offer-1',
+  { basicInfo, offerDetails: { marketType: '01', offerName: 'Luce Base' } },
+  'save',
+  new Date('2026-10-19T08:00:00Z'),
+  'snapshot-1',
+)
+const secondVersion = createOfferSnapshot(
+  'offer-1',
+  { basicInfo, offerDetails: { marketType: '01', offerName: 'Luce Fissa' } },
+  'export',
+  new Date('2026-10-19T09:30:00Z'),
+  'snapshot-2',
+)
+
+let basicInfoForm: UseFormReturn<BasicInfoFormValues> | undefined
+
+function TestWrapper({ children }: { children: React.ReactNode }) {
+  const form = useForm<BasicInfoFormValues>({
+    defaultValues: {
+      ...basicInfo,
+      codOfferta: 'LUCE02',
+      specVersion: '4.5',
+      existingOfferConfirmed: true,
+    },
+  })
+  basicInfoForm = form
+  return <FormProvider {...form}>{children}</FormProvider>
+}
+
+describe('OfferHistoryCard', () => {
+  const setFormStates = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(listOfferSnapshots).mockResolvedValue([
+      secondVersion,
+      firstVersion,
+    ])
+    vi.mocked(useFormStates).mockReturnValue([
+      {},
+      setFormStates,
+    ] as unknown as ReturnType<typeof useFormStates>)
+    vi.mocked(useWorkspaceOfferId).mockReturnValue([
+      'offer-1',
+      vi.fn(),
+    ] as unknown as ReturnType<typeof useWorkspaceOfferId>)
+  })
+
+  it("elenca le versioni dell'offerta in modifica", async () => {
+    render(<OfferHistoryCard />, { wrapper: TestWrapper })
+
+    expect(await screen.findByText('Esportazione')).toBeInTheDocument()
+    expect(screen.getByText('Salvataggio')).toBeInTheDocument()
+    expect(
+      screen.getByText(
+        'INSERIMENTO · IT12345678901_INSERIMENTO_LUCE_FISSA.XML',
+      ),
+    ).toBeInTheDocument()
+    expect(listOfferSnapshots).toHaveBeenCalledWith('offer-1')
+  })
+
+  it('mostra le modifiche rispetto alla versione precedente', async () => {
+    const user = userEvent.setup()
+    render(<OfferHistoryCard />, { wrapper: TestWrapper })
+
+    // Only the newer version has a previous one to compare with
+    const [changes] = await screen.findAllByRole('button', {
+      name: CHANGES_REGEX,
+    })
+    expect(screen.getAllByRole('button', { name: CHANGES_REGEX })).toHaveLength(
+      1,
+    )
+    await user.click(changes)
+
+    expect(
+      screen.getByText('DettaglioOfferta/NOME_OFFERTA'),
+    ).toBeInTheDocument()
+    expect(screen.getByText(': Luce Base → Luce Fissa')).toBeInTheDocument()
+  })
+
+  it('ripristina una versione nel modulo', async () => {
+    const user = userEvent.setup()
+    render(<OfferHistoryCard />, { wrapper: TestWrapper })
+
+    const restoreButtons = await screen.findAllByRole('button', {
+      name: RESTORE_REGEX,
+    })
+    await user.click(restoreButtons[1])
+
+    expect(setFormStates).toHaveBeenCalledWith(
+      expect.objectContaining({
+        basicInfo,
+        offerDetails: { marketType: '01', offerName: 'Luce Base' },
+        pricingConfig: null,
+      }),
+    )
+    expect(toast.success).toHaveBeenCalled()
+  })
+
+  it('sostituisce tutte le informazioni di base con quelle della versione', async () => {
+    const user = userEvent.setup()
+    render(<OfferHistoryCard />, { wrapper: TestWrapper })
+
+    const restoreButtons = await screen.findAllByRole('button', {
+      name: RESTORE_REGEX,
+    })
+    await user.click(restoreButtons[1])
+
+    expect(basicInfoForm?.getValues()).toEqual(basicInfo)
+  })
+
+  it("esporta l'intera cronologia in CSV e JSON", async () => {
+    const user = userEvent.setup()
+    render(<OfferHistoryCard />, { wrapper: TestWrapper })
+
+    await user.click(screen.getByRole('button', { name: EXPORT_CSV_REGEX }))
+    await user.click(screen.getByRole('button', { name: EXPORT_JSON_REGEX }))
+
+    expect(listOfferSnapshots).toHaveBeenCalledWith()
+    expect(downloadOfferHistory).toHaveBeenCalledWith(
+      [secondVersion, firstVersion],
+      'csv',
+    )
+    expect(downloadOfferHistory).toHaveBeenCalledWith(
+      [secondVersion, firstVersion],
+      'json',
+    )
+  })
+
+  it("non mostra versioni per un'offerta non ancora salvata", () => {
+    vi.mocked(useWorkspaceOfferId).mockReturnValue([
+      null,
+      vi.fn(),
+    ] as unknown as ReturnType<typeof useWorkspaceOfferId>)
+    render(<OfferHistoryCard />, { wrapper: TestWrapper })
+
+    expect(
+      screen.getByText("Nessuna versione registrata per l'offerta in modifica"),
+    ).toBeInTheDocument()
+    expect(listOfferSnapshots).not.toHaveBeenCalled()
+  })
+})
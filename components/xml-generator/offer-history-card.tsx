@@ -0,0 +1,254 @@
+'use client'
+
+import { FileDown, GitCompare, History, RotateCcw } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+import { useFormContext } from 'react-hook-form'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { useFormStates } from '@/hooks/use-form-states'
+import { useWorkspaceOfferId } from '@/hooks/use-workspace-offer-id'
+import { OFFER_DIFF_KIND_LABELS } from '@/lib/xml-generator/offer-diff'
+import {
+  diffOfferSnapshots,
+  downloadOfferHistory,
+  listOfferSnapshots,
+  OFFER_HISTORY_EVENT_LABELS,
+  type OfferHistoryFormat,
+  type OfferSnapshot,
+} from '@/lib/xml-generator/offer-history'
+import type { BasicInfoFormValues } from '@/lib/xml-generator/schemas'
+import { steps } from '@/lib/xml-generator/stepperize/config'
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('it-IT', {
+    dateStyle: 'short',
+    timeStyle: 'medium',
+  })
+
+function SnapshotChanges({
+  before,
+  after,
+}: {
+  before: OfferSnapshot
+  after: OfferSnapshot
+}) {
+  const result = diffOfferSnapshots(before, after)
+
+  if (!result.success) {
+    return <p className="text-red-700 text-xs">{result.error}</p>
+  }
+  if (result.entries.length === 0) {
+    return (
+      <p className="text-muted-foreground text-xs">
+        Nessuna differenza nel XML rispetto alla versione precedente
+      </p>
+    )
+  }
+  return (
+    <ul
+      aria-label={`Differenze del ${formatTimestamp(after.timestamp)}`}
+      className="space-y-1 text-xs"
+    >
+      {result.entries.map((entry) => (
+        <li key={`${entry.kind}-${entry.path}`}>
+          <Badge className="mr-2" variant="outline">
+            {OFFER_DIFF_KIND_LABELS[entry.kind]}
+          </Badge>
+          <code>{entry.path}</code>
+          {entry.kind === 'changed'
+            ? `: ${entry.before} → ${entry.after}`
+            : null}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function OfferHistoryCard() {
+  const form = useFormContext<BasicInfoFormValues>()
+  const [, setFormStates] = useFormStates()
+  const [offerId] = useWorkspaceOfferId()
+  const [snapshots, setSnapshots] = useState<OfferSnapshot[]>([])
+  const [openChanges, setOpenChanges] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!offerId) {
+      setSnapshots([])
+      return
+    }
+    try {
+      setSnapshots(await listOfferSnapshots(offerId))
+      setError(null)
+    } catch (cause) {
+      setError(
+        cause instanceof Error
+          ? cause.message
+          : 'Impossibile leggere la cronologia',
+      )
+    }
+  }, [offerId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Replace every step, the restored version becomes a new save of the offer
+  const handleRestore = async (snapshot: OfferSnapshot) => {
+    const nextStates = Object.fromEntries(
+      steps.map((step) => [step, snapshot.formStates[step] ?? null]),
+    )
+    await setFormStates(nextStates)
+    // Fields missing from the snapshot, such as specVersion, are cleared too
+    const basicInfo = snapshot.formStates.basicInfo
+    form.reset({
+      ...basicInfo,
+      pivaUtente: basicInfo?.pivaUtente ?? '',
+      codOfferta: basicInfo?.codOfferta ?? '',
+    })
+    toast.success(
+      `Ripristinata la versione del ${formatTimestamp(snapshot.timestamp)}`,
+    )
+  }
+
+  // The exported log covers every offer of the workspace
+  const handleExport = async (format: OfferHistoryFormat) => {
+    try {
+      const log = await listOfferSnapshots()
+      if (log.length === 0) {
+        toast.error('La cronologia è vuota')
+        return
+      }
+      const download = downloadOfferHistory(log, format)
+      if (!download.success) {
+        toast.error('Esportazione non riuscita', {
+          description: download.error,
+        })
+      }
+    } catch {
+      toast.error('Impossibile leggere la cronologia')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <History className="h-5 w-5 text-slate-600" />
+            Cronologia dell&apos;offerta
+          </span>
+          <span className="flex gap-2">
+            <Button
+              onClick={() => handleExport('csv')}
+              size="sm"
+              type="button"
+              variant="outline"
+            >
+              <FileDown className="mr-2 h-4 w-4" />
+              Esporta CSV
+            </Button>
+            <Button
+              onClick={() => handleExport('json')}
+              size="sm"
+              type="button"
+              variant="outline"
+            >
+              <FileDown className="mr-2 h-4 w-4" />
+              Esporta JSON
+            </Button>
+          </span>
+        </CardTitle>
+        <CardDescription>
+          Ogni salvataggio ed esportazione registra una versione con data, file
+          generato ed esito della validazione
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {error ? <p className="text-red-700">{error}</p> : null}
+        {!error && snapshots.length === 0 ? (
+          <p className="text-muted-foreground">
+            Nessuna versione registrata per l&apos;offerta in modifica
+          </p>
+        ) : null}
+        {snapshots.length > 0 ? (
+          <ol className="max-h-96 space-y-2 overflow-auto">
+            {snapshots.map((snapshot, index) => {
+              const previous = snapshots[index + 1]
+              return (
+                <li
+                  className="space-y-2 rounded-md border p-2"
+                  key={snapshot.id}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0 space-y-1">
+                      <p className="flex items-center gap-2 font-medium">
+                        {formatTimestamp(snapshot.timestamp)}
+                        <Badge variant="secondary">
+                          {OFFER_HISTORY_EVENT_LABELS[snapshot.event]}
+                        </Badge>
+                        <Badge
+                          variant={
+                            snapshot.validation.isValid
+                              ? 'default'
+                              : 'destructive'
+                          }
+                        >
+                          {snapshot.validation.isValid
+                            ? 'Valida'
+                            : `${snapshot.validation.errorCount} errori`}
+                        </Badge>
+                      </p>
+                      <p className="truncate text-muted-foreground text-xs">
+                        {snapshot.action} · {snapshot.filename}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      {previous ? (
+                        <Button
+                          aria-expanded={openChanges === snapshot.id}
+                          aria-label={`Modifiche del ${formatTimestamp(snapshot.timestamp)}`}
+                          onClick={() =>
+                            setOpenChanges(
+                              openChanges === snapshot.id ? null : snapshot.id,
+                            )
+                          }
+                          size="sm"
+                          type="button"
+                          variant="ghost"
+                        >
+                          <GitCompare className="h-4 w-4" />
+                        </Button>
+                      ) : null}
+                      <Button
+                        aria-label={`Ripristina la versione del ${formatTimestamp(snapshot.timestamp)}`}
+                        onClick={() => handleRestore(snapshot)}
+                        size="sm"
+                        type="button"
+                        variant="outline"
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Ripristina
+                      </Button>
+                    </div>
+                  </div>
+                  {previous && openChanges === snapshot.id ? (
+                    <SnapshotChanges after={snapshot} before={previous} />
+                  ) : null}
+                </li>
+              )
+            })}
+          </ol>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
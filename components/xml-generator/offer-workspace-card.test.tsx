@@ -0,0 +1,114 @@
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { FormProvider, useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { useFormStates } from '@/hooks/use-form-states'
+import { useWorkspaceOfferId } from '@/hooks/use-workspace-offer-id'
+import {
+  createWorkspaceOffer,
+  deleteWorkspaceOffer,
+  listWorkspaceOffers,
+  saveWorkspaceOffer,
+} from '@/lib/xml-generator/offer-workspace'
+import type { BasicInfoFormValues } from '@/lib/xml-generator/schemas'
+import { OfferWorkspaceCard } from './offer-workspace-card'
+
+vi.mock('@/lib/xml-generator/offer-workspace', async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import('@/lib/xml-generator/offer-workspace')
+  >()),
+  listWorkspaceOffers: vi.fn(),
+  saveWorkspaceOffer: vi.fn((saved) => Promise.resolve(saved)),
+  deleteWorkspaceOffer: vi.fn(() => Promise.resolve()),
+}))
+
+vi.mock('@/hooks/use-workspace-offer-id', () => ({
+  useWorkspaceOfferId: vi.fn(),
+}))
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}))
+
+const offer = createWorkspaceOffer(
+  {
+    basicInfo: { pivaUtente: 'IT12345678901', codOfferta: 'LUCE01' },
+    offerDetails: { marketType: '01', offerName: 'Luce Fissa' },
+  },
+  new Date('2026-10-19T08:00:00Z'),
+  'offer-1',
+)
+
+function TestWrapper({ children }: { children: React.ReactNode }) {
+  const form = useForm<BasicInfoFormValues>()
+  return <FormProvider {...form}>{children}</FormProvider>
+}
+
+describe('OfferWorkspaceCard', () => {
+  const setFormStates = vi.fn()
+  const setOfferId = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(listWorkspaceOffers).mockResolvedValue([offer])
+    vi.mocked(useFormStates).mockReturnValue([
+      {},
+      setFormStates,
+    ] as unknown as ReturnType<typeof useFormStates>)
+    vi.mocked(useWorkspaceOfferId).mockReturnValue([
+      'offer-1',
+      setOfferId,
+    ] as unknown as ReturnType<typeof useWorkspaceOfferId>)
+  })
+
+  it('elenca le offerte salvate con mercato e stato', async () => {
+    render(<OfferWorkspaceCard />, { wrapper: TestWrapper })
+
+    expect(await screen.findByText('Luce Fissa')).toBeInTheDocument()
+    expect(screen.getByText('Bozza')).toBeInTheDocument()
+    expect(screen.getByText('In modifica')).toBeInTheDocument()
+  })
+
+  it('riapre una offerta salvata nel modulo', async () => {
+    const user = userEvent.setup()
+    render(<OfferWorkspaceCard />, { wrapper: TestWrapper })
+
+    await user.click(await screen.findByLabelText('Apri Luce Fissa'))
+
+    expect(setFormStates).toHaveBeenCalledWith(
+      expect.objectContaining({
+        basicInfo: offer.formStates.basicInfo,
+        offerDetails: offer.formStates.offerDetails,
+        validityReview: null,
+      }),
+    )
+    expect(setOfferId).toHaveBeenCalledWith('offer-1')
+  })
+
+  it('duplica ed elimina le offerte', async () => {
+    const user = userEvent.setup()
+    render(<OfferWorkspaceCard />, { wrapper: TestWrapper })
+
+    await user.click(await screen.findByLabelText('Duplica Luce Fissa'))
+    expect(saveWorkspaceOffer).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Luce Fissa (copia)' }),
+    )
+
+    await user.click(screen.getByLabelText('Elimina Luce Fissa'))
+    expect(deleteWorkspaceOffer).toHaveBeenCalledWith('offer-1')
+    expect(setOfferId).toHaveBeenCalledWith(null)
+    expect(toast.success).toHaveBeenCalledWith('Offerta "Luce Fissa" eliminata')
+  })
+
+  it('segnala quando IndexedDB non è disponibile', async () => {
+    vi.mocked(listWorkspaceOffers).mockRejectedValueOnce(
+      new Error('IndexedDB non è disponibile in questo browser'),
+    )
+    render(<OfferWorkspaceCard />, { wrapper: TestWrapper })
+
+    expect(
+      await screen.findByText('IndexedDB non è disponibile in questo browser'),
+    ).toBeInTheDocument()
+  })
+})
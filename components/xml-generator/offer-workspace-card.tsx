@@ -0,0 +1,211 @@
+'use client'
+
+import { Copy, FilePlus, FolderOpen, Trash2 } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+import { useFormContext } from 'react-hook-form'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { useFormStates } from '@/hooks/use-form-states'
+import { useWorkspaceOfferId } from '@/hooks/use-workspace-offer-id'
+import { MARKET_TYPE_LABELS } from '@/lib/xml-generator/constants'
+import {
+  deleteWorkspaceOffer,
+  duplicateWorkspaceOffer,
+  listWorkspaceOffers,
+  saveWorkspaceOffer,
+  WORKSPACE_STATUS_LABELS,
+  type WorkspaceOffer,
+  type WorkspaceOfferStatus,
+} from '@/lib/xml-generator/offer-workspace'
+import type { BasicInfoFormValues } from '@/lib/xml-generator/schemas'
+import { steps } from '@/lib/xml-generator/stepperize/config'
+
+const STATUS_BADGE_VARIANTS: Record<
+  WorkspaceOfferStatus,
+  'default' | 'secondary' | 'outline'
+> = {
+  draft: 'outline',
+  validated: 'secondary',
+  exported: 'default',
+}
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('it-IT', {
+    dateStyle: 'short',
+    timeStyle: 'short',
+  })
+
+export function OfferWorkspaceCard() {
+  const form = useFormContext<BasicInfoFormValues>()
+  const [, setFormStates] = useFormStates()
+  const [offerId, setOfferId] = useWorkspaceOfferId()
+  const [offers, setOffers] = useState<WorkspaceOffer[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setOffers(await listWorkspaceOffers())
+      setError(null)
+    } catch (cause) {
+      setError(
+        cause instanceof Error
+          ? cause.message
+          : "Impossibile leggere l'area di lavoro",
+      )
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Replace every step so data from the previous offer does not survive
+  const loadIntoWizard = async (
+    formStates: WorkspaceOffer['formStates'],
+    id: string | null,
+  ) => {
+    const nextStates = Object.fromEntries(
+      steps.map((step) => [step, formStates[step] ?? null]),
+    )
+    await setFormStates(nextStates)
+    await setOfferId(id)
+    form.reset({
+      ...form.getValues(),
+      action: formStates.basicInfo?.action,
+      pivaUtente: formStates.basicInfo?.pivaUtente ?? '',
+      codOfferta: formStates.basicInfo?.codOfferta ?? '',
+      existingOfferConfirmed: formStates.basicInfo?.existingOfferConfirmed,
+    })
+  }
+
+  const handleOpen = async (offer: WorkspaceOffer) => {
+    await loadIntoWizard(offer.formStates, offer.id)
+    toast.success(`Offerta "${offer.name}" aperta`)
+  }
+
+  const handleNew = async () => {
+    await loadIntoWizard({}, null)
+    toast.success('Nuova offerta', {
+      description:
+        "Verrà salvata nell'area di lavoro al primo passaggio completato",
+    })
+  }
+
+  const handleDuplicate = async (offer: WorkspaceOffer) => {
+    try {
+      const copy = await saveWorkspaceOffer(duplicateWorkspaceOffer(offer))
+      await refresh()
+      toast.success(`Creata la copia "${copy.name}"`)
+    } catch {
+      toast.error("Impossibile duplicare l'offerta")
+    }
+  }
+
+  const handleDelete = async (offer: WorkspaceOffer) => {
+    try {
+      await deleteWorkspaceOffer(offer.id)
+      if (offer.id === offerId) {
+        await setOfferId(null)
+      }
+      await refresh()
+      toast.success(`Offerta "${offer.name}" eliminata`)
+    } catch {
+      toast.error("Impossibile eliminare l'offerta")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <FolderOpen className="h-5 w-5 text-amber-600" />
+            Area di lavoro
+          </span>
+          <Button onClick={handleNew} size="sm" type="button" variant="outline">
+            <FilePlus className="mr-2 h-4 w-4" />
+            Nuova offerta
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Bozze e offerte generate vengono salvate automaticamente in questo
+          browser a ogni passaggio completato
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {error ? <p className="text-red-700">{error}</p> : null}
+        {!error && offers.length === 0 ? (
+          <p className="text-muted-foreground">
+            Nessuna offerta salvata nell&apos;area di lavoro
+          </p>
+        ) : null}
+        {offers.length > 0 ? (
+          <ul className="max-h-80 space-y-2 overflow-auto">
+            {offers.map((offer) => (
+              <li
+                className="flex items-center justify-between gap-2 rounded-md border p-2"
+                key={offer.id}
+              >
+                <div className="min-w-0 space-y-1">
+                  <p className="flex items-center gap-2 font-medium">
+                    <span className="truncate">{offer.name}</span>
+                    <Badge variant={STATUS_BADGE_VARIANTS[offer.status]}>
+                      {WORKSPACE_STATUS_LABELS[offer.status]}
+                    </Badge>
+                    {offer.id === offerId ? (
+                      <Badge variant="outline">In modifica</Badge>
+                    ) : null}
+                  </p>
+                  <p className="text-muted-foreground text-xs">
+                    {offer.marketType
+                      ? `${MARKET_TYPE_LABELS[offer.marketType]} · `
+                      : ''}
+                    Creata il {formatTimestamp(offer.createdAt)} · Modificata il{' '}
+                    {formatTimestamp(offer.updatedAt)}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    aria-label={`Apri ${offer.name}`}
+                    onClick={() => handleOpen(offer)}
+                    size="sm"
+                    type="button"
+                    variant="outline"
+                  >
+                    Apri
+                  </Button>
+                  <Button
+                    aria-label={`Duplica ${offer.name}`}
+                    onClick={() => handleDuplicate(offer)}
+                    size="sm"
+                    type="button"
+                    variant="ghost"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    aria-label={`Elimina ${offer.name}`}
+                    onClick={() => handleDelete(offer)}
+                    size="sm"
+                    type="button"
+                    variant="ghost"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,93 @@
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { toast } from 'sonner'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { savePriceIndexValues } from '@/lib/xml-generator/price-index-history'
+import type { FormStatesInput } from '@/lib/xml-generator/xml-form-data'
+import { PriceIndexHistoryCard } from './price-index-history-card'
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}))
+
+// Regex patterns for testing
+const IMPORT_REGEX = /importa valori indici/i
+const CLEAR_REGEX = /elimina valori/i
+const NO_VALUES_REGEX = /nessun valore importato per l'indice/i
+
+const formStates: FormStatesInput = {
+  offerDetails: { marketType: '01', offerType: '02' },
+  pricingConfig: { energyPriceIndex: '12' },
+  companyComponents: {
+    companyComponents: [
+      {
+        name: 'Spread PUN',
+        description: 'Spread sul PUN mensile',
+        componentType: '01',
+        macroArea: '04',
+        priceIntervals: [{ price: 0.02, unitOfMeasure: '03' }],
+      },
+    ],
+  },
+}
+
+describe('PriceIndexHistoryCard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    localStorage.clear()
+  })
+
+  it('non viene mostrato per le offerte a prezzo fisso', () => {
+    const { container } = render(
+      <PriceIndexHistoryCard
+        formStates={{ ...formStates, offerDetails: { offerType: '01' } }}
+      />,
+    )
+
+    expect(container).toBeEmptyDOMElement()
+  })
+
+  it('mostra il prezzo effettivo dei valori salvati', () => {
+    savePriceIndexValues([{ index: '12', month: '01/2020', value: 0.05 }])
+    render(<PriceIndexHistoryCard formStates={formStates} />)
+
+    expect(screen.getByText('01/2020')).toBeInTheDocument()
+    expect(screen.getByText('Spread PUN (€/kWh)')).toBeInTheDocument()
+    expect(screen.getByText('0,07')).toBeInTheDocument()
+  })
+
+  it('importa i valori degli indici da un file CSV', async () => {
+    const user = userEvent.setup()
+    render(<PriceIndexHistoryCard formStates={formStates} />)
+
+    expect(screen.getByRole('button', { name: IMPORT_REGEX })).toBeVisible()
+    expect(screen.getByText(NO_VALUES_REGEX)).toBeInTheDocument()
+
+    const content = 'INDICE;MESE;VALORE\n12;02/2020;0,1\n12;13/2020;0,1'
+    const file = new File([content], 'pun.csv', { type: 'text/csv' })
+    // jsdom does not implement Blob.text()
+    file.text = () => Promise.resolve(content)
+    await user.upload(
+      screen.getByLabelText('File CSV dei valori degli indici'),
+      file,
+    )
+
+    expect(await screen.findByText('0,12')).toBeInTheDocument()
+    expect(
+      screen.getByText(
+        'Riga 3, colonna MESE: Il mese deve essere nel formato mm/aaaa',
+      ),
+    ).toBeInTheDocument()
+    expect(toast.success).toHaveBeenCalled()
+  })
+
+  it("elimina i valori dell'indice dell'offerta", async () => {
+    const user = userEvent.setup()
+    savePriceIndexValues([{ index: '12', month: '01/2020', value: 0.05 }])
+    render(<PriceIndexHistoryCard formStates={formStates} />)
+
+    await user.click(screen.getByRole('button', { name: CLEAR_REGEX }))
+
+    expect(screen.queryByText('01/2020')).not.toBeInTheDocument()
+  })
+})
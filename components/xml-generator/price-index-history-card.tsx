@@ -0,0 +1,197 @@
+'use client'
+
+import { AlertCircle, FileSpreadsheet, LineChart, Trash2 } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  clearPriceIndexHistory,
+  getEffectivePriceHistory,
+  getPriceIndexLabel,
+  importPriceIndexCSV,
+  loadPriceIndexHistory,
+  type PriceIndexValue,
+  savePriceIndexValues,
+} from '@/lib/xml-generator/price-index-history'
+import type { SpreadsheetIssue } from '@/lib/xml-generator/spreadsheet-importer'
+import type { FormStatesInput } from '@/lib/xml-generator/xml-form-data'
+
+// Index values and spreads have up to 6 decimals, as the SII prices
+const priceFormatter = new Intl.NumberFormat('it-IT', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 6,
+})
+
+/**
+ * Effective price of a variable offer in the past months
+ * Shows the imported values of the offer index plus the spreads of its
+ * energy price components. Nothing is shown for offers that are not variable
+ */
+export function PriceIndexHistoryCard({
+  formStates,
+}: {
+  formStates: FormStatesInput
+}) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [values, setValues] = useState<PriceIndexValue[]>([])
+  const [issues, setIssues] = useState<SpreadsheetIssue[]>([])
+
+  useEffect(() => {
+    setValues(loadPriceIndexHistory())
+  }, [])
+
+  const history = getEffectivePriceHistory(formStates, values)
+  if (!history) {
+    return null
+  }
+  const indexLabel = getPriceIndexLabel(history.index)
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) {
+      return
+    }
+
+    const imported = importPriceIndexCSV(await file.text())
+    setIssues(imported.issues)
+
+    if (!imported.success) {
+      toast.error('Importazione non riuscita', {
+        description: imported.issues[0]?.message,
+      })
+      return
+    }
+
+    setValues(savePriceIndexValues(imported.values))
+    toast.success('Valori degli indici importati', {
+      description: `${imported.values.length} valori mensili, ${imported.issues.length} righe scartate`,
+    })
+  }
+
+  const handleClear = () => {
+    setValues(clearPriceIndexHistory(history.index))
+    setIssues([])
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LineChart className="h-5 w-5 text-indigo-600" />
+          Prezzo Effettivo nei Mesi Passati
+        </CardTitle>
+        <CardDescription>
+          Valore dell&apos;indice {indexLabel} più lo spread dei componenti
+          impresa del prezzo energia. I valori dell&apos;indice vanno importati
+          da un file CSV con le colonne INDICE, MESE e VALORE
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          accept=".csv,text/csv"
+          aria-label="File CSV dei valori degli indici"
+          className="hidden"
+          onChange={handleFileChange}
+          ref={inputRef}
+          type="file"
+        />
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={() => inputRef.current?.click()}
+            type="button"
+            variant="outline"
+          >
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Importa valori indici
+          </Button>
+          {history.rows.length > 0 ? (
+            <Button onClick={handleClear} type="button" variant="ghost">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Elimina valori {indexLabel}
+            </Button>
+          ) : null}
+        </div>
+
+        {issues.length > 0 ? (
+          <ul className="max-h-40 space-y-1 overflow-auto text-red-700 text-sm">
+            {issues.map((issue, index) => (
+              <li
+                className="flex items-start gap-2"
+                key={`${issue.path}-${index}`}
+              >
+                <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                {issue.path}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        ) : null}
+
+        {history.spreads.length === 0 ? (
+          <p className="text-gray-600 text-sm">
+            Aggiungi un componente impresa del prezzo energia in €/kWh o €/Sm³
+            per calcolare il prezzo effettivo
+          </p>
+        ) : null}
+
+        {history.rows.length === 0 ? (
+          <p className="text-gray-600 text-sm">
+            Nessun valore importato per l&apos;indice {indexLabel}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mese</TableHead>
+                <TableHead className="text-right">Indice</TableHead>
+                {history.spreads.map((spread, index) => (
+                  <TableHead
+                    className="text-right"
+                    key={`${spread.label}-${index}`}
+                  >
+                    {spread.label} ({spread.unit})
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.rows.map((row) => (
+                <TableRow key={row.month}>
+                  <TableCell>{row.month}</TableCell>
+                  <TableCell className="text-right font-mono">
+                    {priceFormatter.format(row.indexValue)}
+                  </TableCell>
+                  {row.prices.map((price, index) => (
+                    <TableCell
+                      className="text-right font-mono"
+                      key={`${price.label}-${index}`}
+                    >
+                      {priceFormatter.format(price.price)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
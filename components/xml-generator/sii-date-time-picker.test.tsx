@@ -0,0 +1,90 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { SIIDateTimePicker } from './sii-date-time-picker'
+
+// Regex patterns for testing
+const CALENDAR_BUTTON_REGEX = /scegli la data dal calendario/i
+const DAY_REGEX = /20 giugno 2099/i
+
+function renderPicker(value: string) {
+  const onChange = vi.fn()
+  render(
+    <SIIDateTimePicker
+      aria-label="Data di inizio"
+      defaultTime="00:00:00"
+      onChange={onChange}
+      timeLabel="Ora di inizio"
+      value={value}
+    />,
+  )
+  return onChange
+}
+
+describe('SIIDateTimePicker', () => {
+  it("mostra la data e l'ora del valore", () => {
+    renderPicker('15/06/2099_08:30:00')
+
+    expect(screen.getByLabelText('Data di inizio')).toHaveValue('15/06/2099')
+    expect(screen.getByLabelText('Ora di inizio')).toHaveValue('08:30:00')
+  })
+
+  it("disabilita l'ora finché la data è vuota", () => {
+    renderPicker('')
+
+    expect(screen.getByLabelText('Ora di inizio')).toBeDisabled()
+    expect(screen.getByLabelText('Ora di inizio')).toHaveValue('00:00:00')
+  })
+
+  it("aggiunge l'ora predefinita alla data digitata", () => {
+    const onChange = renderPicker('')
+
+    fireEvent.change(screen.getByLabelText('Data di inizio'), {
+      target: { value: '15/06/2099' },
+    })
+
+    expect(onChange).toHaveBeenCalledWith('15/06/2099_00:00:00')
+  })
+
+  it("mantiene l'ora quando cambia la data", () => {
+    const onChange = renderPicker('15/06/2099_08:30:00')
+
+    fireEvent.change(screen.getByLabelText('Data di inizio'), {
+      target: { value: '16/06/2099' },
+    })
+
+    expect(onChange).toHaveBeenCalledWith('16/06/2099_08:30:00')
+  })
+
+  it("aggiunge i secondi all'ora scelta", () => {
+    const onChange = renderPicker('15/06/2099')
+
+    fireEvent.change(screen.getByLabelText('Ora di inizio'), {
+      target: { value: '08:30' },
+    })
+
+    expect(onChange).toHaveBeenCalledWith('15/06/2099_08:30:00')
+  })
+
+  it('svuota il valore quando la data viene cancellata', () => {
+    const onChange = renderPicker('15/06/2099_08:30:00')
+
+    fireEvent.change(screen.getByLabelText('Data di inizio'), {
+      target: { value: '' },
+    })
+
+    expect(onChange).toHaveBeenCalledWith('')
+  })
+
+  it('seleziona la data dal calendario', async () => {
+    const user = userEvent.setup()
+    const onChange = renderPicker('15/06/2099_08:30:00')
+
+    await user.click(
+      screen.getByRole('button', { name: CALENDAR_BUTTON_REGEX }),
+    )
+    await user.click(screen.getByRole('button', { name: DAY_REGEX }))
+
+    expect(onChange).toHaveBeenCalledWith('20/06/2099_08:30:00')
+  })
+})
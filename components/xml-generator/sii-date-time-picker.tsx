@@ -0,0 +1,114 @@
+'use client'
+
+import { format } from 'date-fns'
+import { it as italianLocale } from 'date-fns/locale'
+import { CalendarIcon } from 'lucide-react'
+import { type ComponentProps, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import { Input } from '@/components/ui/input'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  getSIITimestamp,
+  parseSIITimestamp,
+  toSIITime,
+} from '@/lib/xml-generator/sii-timestamp'
+
+type SIIDateTimePickerProps = Omit<
+  ComponentProps<typeof Input>,
+  'value' | 'onChange' | 'defaultValue' | 'type'
+> & {
+  // gg/mm/aaaa or gg/mm/aaaa_hh:mm:ss
+  value?: string
+  onChange: (value: string) => void
+  // Time used when only the date is chosen, e.g. 00:00:00 for a start date
+  defaultTime: string
+  // Accessible name of the time input
+  timeLabel: string
+}
+
+// Day of a gg/mm/aaaa date, for the calendar
+const toCalendarDate = (date: string) => {
+  const [day, month, year] = date.split('/').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * Date and time input of the SII validity timestamps
+ * The date is typed as gg/mm/aaaa or picked from the calendar, the time is
+ * Italian time and defaults to defaultTime. The value is the form timestamp
+ * gg/mm/aaaa_hh:mm:ss, or an empty string when the date is cleared
+ */
+export function SIIDateTimePicker({
+  value = '',
+  onChange,
+  defaultTime,
+  timeLabel,
+  disabled,
+  ...inputProps
+}: SIIDateTimePickerProps) {
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false)
+  const [date = '', time] = value.split('_')
+  const parts = parseSIITimestamp(value)
+  // Days before today in Italy cannot be chosen as validity dates
+  const today = toCalendarDate(getSIITimestamp().split('_')[0])
+
+  const update = (nextDate: string, nextTime = time ?? defaultTime) => {
+    onChange(nextDate ? `${nextDate}_${nextTime}` : '')
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        {...inputProps}
+        className="font-mono"
+        disabled={disabled}
+        onChange={(event) => update(event.target.value)}
+        value={date}
+      />
+      <Popover onOpenChange={setIsCalendarOpen} open={isCalendarOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            aria-label="Scegli la data dal calendario"
+            disabled={disabled}
+            size="icon"
+            type="button"
+            variant="outline"
+          >
+            <CalendarIcon className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-auto p-0">
+          <Calendar
+            defaultMonth={parts ? toCalendarDate(parts.date) : today}
+            disabled={{ before: today }}
+            locale={italianLocale}
+            mode="single"
+            onSelect={(selected) => {
+              if (selected) {
+                update(format(selected, 'dd/MM/yyyy'))
+                setIsCalendarOpen(false)
+              }
+            }}
+            selected={parts ? toCalendarDate(parts.date) : undefined}
+          />
+        </PopoverContent>
+      </Popover>
+      <Input
+        aria-label={timeLabel}
+        className="w-32 font-mono"
+        disabled={disabled || !date}
+        onChange={(event) =>
+          update(date, toSIITime(event.target.value) || defaultTime)
+        }
+        step={1}
+        type="time"
+        value={time ?? defaultTime}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { toast } from 'sonner'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  downloadBatchZip,
+  generateBatch,
+} from '@/lib/xml-generator/batch-generator'
+import { importSpreadsheet } from '@/lib/xml-generator/spreadsheet-importer'
+import { SpreadsheetImportCard } from './spreadsheet-import-card'
+
+vi.mock('@/lib/xml-generator/batch-generator', () => ({
+  generateBatch: vi.fn().mockReturnValue({
+    items: [],
+    validCount: 1,
+    invalidCount: 0,
+  }),
+  downloadBatchZip: vi.fn().mockReturnValue({ success: true }),
+}))
+
+vi.mock('@/lib/xml-generator/spreadsheet-importer', () => ({
+  createSpreadsheetTemplate: vi.fn().mockReturnValue('SEZIONE;COD_OFFERTA\n'),
+  importSpreadsheet: vi.fn(),
+}))
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), warning: vi.fn(), error: vi.fn() },
+}))
+
+// Regex patterns for testing
+const GENERATE_ZIP_REGEX = /genera zip/i
+
+const validFormStates = {
+  basicInfo: { pivaUtente: 'IT12345678901', codOfferta: 'LUCE01NORD' },
+}
+
+const uploadCsv = async () => {
+  const user = userEvent.setup()
+  const file = new File(['SEZIONE;COD_OFFERTA'], 'offerte.csv', {
+    type: 'text/csv',
+  })
+  // jsdom does not implement Blob.text()
+  file.text = () => Promise.resolve('SEZIONE;COD_OFFERTA')
+
+  render(<SpreadsheetImportCard />)
+  await user.upload(screen.getByLabelText('File CSV da importare'), file)
+  return user
+}
+
+describe('SpreadsheetImportCard', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(importSpreadsheet).mockReturnValue({
+      success: true,
+      issues: [],
+      offers: [
+        {
+          codOfferta: 'LUCE01NORD',
+          row: 2,
+          formStates: validFormStates,
+          isValid: true,
+          issues: [],
+        },
+        {
+          codOfferta: 'LUCE01SUD',
+          row: 3,
+          formStates: {},
+          isValid: false,
+          issues: [
+            {
+              row: 3,
+              column: 'PREZZO',
+              path: 'Riga 3, colonna PREZZO',
+              message: 'Valore numerico non valido: "abc"',
+              severity: 'error',
+            },
+          ],
+        },
+      ],
+    })
+  })
+
+  it('mostra lo stato di ogni offerta importata', async () => {
+    await uploadCsv()
+
+    expect(importSpreadsheet).toHaveBeenCalledWith('SEZIONE;COD_OFFERTA')
+    expect(screen.getByText('LUCE01NORD')).toBeInTheDocument()
+    expect(screen.getByText('Riga 3, colonna PREZZO')).toBeInTheDocument()
+    expect(
+      screen.getByText('Valore numerico non valido: "abc"'),
+    ).toBeInTheDocument()
+    expect(toast.success).toHaveBeenCalledWith('Foglio di calcolo importato', {
+      description: '1 offerte valide su 2',
+    })
+  })
+
+  it('genera lo ZIP solo con le offerte valide', async () => {
+    const user = await uploadCsv()
+
+    await user.click(screen.getByRole('button', { name: GENERATE_ZIP_REGEX }))
+
+    expect(generateBatch).toHaveBeenCalledWith({}, [
+      { overrides: validFormStates },
+    ])
+    expect(downloadBatchZip).toHaveBeenCalled()
+    expect(toast.success).toHaveBeenCalledWith(
+      'Archivio ZIP scaricato con successo',
+      { description: '1 file XML inclusi' },
+    )
+  })
+
+  it('segnala gli errori che impediscono la lettura del file', async () => {
+    vi.mocked(importSpreadsheet).mockReturnValueOnce({
+      success: false,
+      offers: [],
+      issues: [
+        {
+          row: 1,
+          path: 'Riga 1',
+          message: 'Colonna obbligatoria mancante: SEZIONE',
+          severity: 'error',
+        },
+      ],
+    })
+
+    await uploadCsv()
+
+    expect(toast.error).toHaveBeenCalledWith('Importazione non riuscita', {
+      description: 'Colonna obbligatoria mancante: SEZIONE',
+    })
+    expect(
+      screen.getByRole('button', { name: GENERATE_ZIP_REGEX }),
+    ).toBeDisabled()
+  })
+})
@@ -0,0 +1,229 @@
+'use client'
+
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  Download,
+  FileArchive,
+  FileSpreadsheet,
+} from 'lucide-react'
+import { useRef, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  downloadBatchZip,
+  generateBatch,
+} from '@/lib/xml-generator/batch-generator'
+import {
+  createSpreadsheetTemplate,
+  importSpreadsheet,
+  type SpreadsheetImportResult,
+  type SpreadsheetIssue,
+} from '@/lib/xml-generator/spreadsheet-importer'
+import { downloadFile } from '@/lib/xml-generator/xml-builder'
+import { getValidationSummary } from '@/lib/xml-generator/xml-validator'
+
+const TEMPLATE_FILENAME = 'MODELLO_OFFERTE_SII.csv'
+
+function IssueList({ issues }: { issues: SpreadsheetIssue[] }) {
+  return (
+    <ul className="space-y-1">
+      {issues.map((issue, index) => (
+        <li
+          className={`flex items-start gap-2 rounded-md p-2 ${
+            issue.severity === 'error'
+              ? 'bg-red-50 text-red-700'
+              : 'bg-yellow-50 text-yellow-800'
+          }`}
+          key={`${issue.path}-${index}`}
+        >
+          {issue.severity === 'error' ? (
+            <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+          ) : (
+            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+          )}
+          <span>
+            <code className="text-xs">{issue.path}</code>
+            <br />
+            {issue.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function SpreadsheetImportCard() {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [result, setResult] = useState<SpreadsheetImportResult | null>(null)
+  const [fileName, setFileName] = useState<string | null>(null)
+
+  const validOffers = result?.offers.filter((offer) => offer.isValid) ?? []
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) {
+      return
+    }
+
+    const imported = importSpreadsheet(await file.text())
+    setFileName(file.name)
+    setResult(imported)
+
+    if (!imported.success) {
+      toast.error('Importazione non riuscita', {
+        description: imported.issues[0]?.message,
+      })
+      return
+    }
+
+    const validCount = imported.offers.filter((offer) => offer.isValid).length
+    toast.success('Foglio di calcolo importato', {
+      description: `${validCount} offerte valide su ${imported.offers.length}`,
+    })
+  }
+
+  const handleDownloadTemplate = () => {
+    const download = downloadFile(
+      () =>
+        new Blob([createSpreadsheetTemplate()], {
+          type: 'text/csv;charset=utf-8',
+        }),
+      TEMPLATE_FILENAME,
+    )
+    if (!download.success) {
+      toast.error('Errore durante il download', {
+        description: download.error,
+      })
+    }
+  }
+
+  const handleGenerateZip = () => {
+    const batch = generateBatch(
+      {},
+      validOffers.map((offer) => ({ overrides: offer.formStates })),
+    )
+
+    const download = downloadBatchZip(batch)
+    if (!download.success) {
+      toast.error('Generazione ZIP non riuscita', {
+        description: download.error || 'Si è verificato un errore imprevisto',
+      })
+      return
+    }
+
+    if (batch.invalidCount > 0) {
+      toast.warning('Archivio ZIP scaricato con esclusioni', {
+        description: `${batch.validCount} file inclusi, ${batch.invalidCount} non conformi allo schema XSD: vedi manifest.json`,
+      })
+    } else {
+      toast.success('Archivio ZIP scaricato con successo', {
+        description: `${batch.validCount} file XML inclusi`,
+      })
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5 text-green-600" />
+          Importa da foglio di calcolo
+        </CardTitle>
+        <CardDescription>
+          Carica un file CSV con più offerte per generarle tutte in un unico
+          archivio ZIP. I file Excel vanno salvati in formato CSV.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          accept=".csv,text/csv"
+          aria-label="File CSV da importare"
+          className="hidden"
+          onChange={handleFileChange}
+          ref={inputRef}
+          type="file"
+        />
+        <div className="flex flex-wrap gap-2">
+          <Button
+            onClick={() => inputRef.current?.click()}
+            type="button"
+            variant="outline"
+          >
+            <FileSpreadsheet className="mr-2 h-4 w-4" />
+            Seleziona file CSV
+          </Button>
+          <Button
+            onClick={handleDownloadTemplate}
+            type="button"
+            variant="ghost"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Scarica modello CSV
+          </Button>
+        </div>
+
+        {fileName && result ? (
+          <div className="space-y-3 text-sm">
+            <p className="font-medium">
+              {fileName}: {validOffers.length} offerte valide su{' '}
+              {result.offers.length}
+            </p>
+
+            {result.issues.length > 0 ? (
+              <IssueList issues={result.issues} />
+            ) : null}
+
+            <ul className="max-h-96 space-y-2 overflow-auto">
+              {result.offers.map((offer) => (
+                <li
+                  className="space-y-1"
+                  key={`${offer.codOfferta}-${offer.row}`}
+                >
+                  <div className="flex items-center gap-2">
+                    {offer.isValid ? (
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <AlertCircle className="h-4 w-4 text-red-600" />
+                    )}
+                    <span className="font-medium">
+                      {offer.codOfferta || `Riga ${offer.row}`}
+                    </span>
+                    {offer.issues.length > 0 ? (
+                      <span className="text-muted-foreground">
+                        {getValidationSummary(offer.issues)}
+                      </span>
+                    ) : null}
+                  </div>
+                  {offer.issues.length > 0 ? (
+                    <IssueList issues={offer.issues} />
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+
+            <Button
+              disabled={validOffers.length === 0}
+              onClick={handleGenerateZip}
+              type="button"
+            >
+              <FileArchive className="mr-2 h-4 w-4" />
+              Genera ZIP ({validOffers.length})
+            </Button>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
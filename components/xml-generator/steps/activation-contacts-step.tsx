@@ -13,6 +13,8 @@ import { Checkbox } from '@/components/ui/checkbox'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
+import { useFormStates } from '@/hooks/use-form-states'
+import { isSimulableOffer } from '@/lib/xml-generator/constants'
 import type { ActivationContactsFormValues } from '@/lib/xml-generator/schemas'
 import { ActivationContactsSkeleton } from './skeletons/activation-contacts-skeleton'
 
@@ -23,6 +25,10 @@ export function ActivationContactsStepComponent() {
     setValue,
     formState: { errors },
   } = useFormContext<ActivationContactsFormValues>()
+  const [formStates] = useFormStates()
+
+  // Non-simulable offers point customers to the offer page (FR-5.8)
+  const requiresOfferUrl = !isSimulableOffer(formStates.offerDetails?.offerMode)
 
   const activationMethods = watch('activationMethods') || []
 
@@ -174,7 +180,8 @@ export function ActivationContactsStepComponent() {
 
           <div className="space-y-2">
             <Label className="font-medium text-sm" htmlFor="offerUrl">
-              URL dell&apos;Offerta
+              URL dell&apos;Offerta{' '}
+              {requiresOfferUrl && <span className="text-destructive">*</span>}
             </Label>
             <Input
               id="offerUrl"
@@ -188,7 +195,9 @@ export function ActivationContactsStepComponent() {
               </p>
             )}
             <p className="text-muted-foreground text-xs">
-              URL specifico dell&apos;offerta (opzionale, massimo 100 caratteri)
+              {requiresOfferUrl
+                ? "URL specifico dell'offerta (obbligatorio per le offerte non simulabili, massimo 100 caratteri)"
+                : "URL specifico dell'offerta (opzionale, massimo 100 caratteri)"}
             </p>
           </div>
         </CardContent>
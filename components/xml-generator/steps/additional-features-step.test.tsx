@@ -217,7 +217,7 @@ describe('AdditionalFeaturesStep', () => {
       expect(screen.getByText('Comuni')).toBeInTheDocument()
     })
 
-    it('allows adding regions with correct input constraints', () => {
+    it('allows adding regions searchable by name', () => {
       render(
         <TestWrapper>
           <AdditionalFeaturesStep />
@@ -229,14 +229,12 @@ describe('AdditionalFeaturesStep', () => {
       })
       fireEvent.click(addRegionButton)
 
-      const regionInput = screen.getByPlaceholderText(
-        'Codice regione (2 cifre)',
-      )
-      expect(regionInput).toBeInTheDocument()
-      expect(regionInput).toHaveAttribute('maxLength', '2')
+      expect(
+        screen.getByRole('button', { name: 'Regioni 1' }),
+      ).toHaveTextContent('Cerca regione per nome o codice')
     })
 
-    it('allows adding provinces with correct input constraints', () => {
+    it('allows adding provinces searchable by name', () => {
       render(
         <TestWrapper>
           <AdditionalFeaturesStep />
@@ -248,14 +246,12 @@ describe('AdditionalFeaturesStep', () => {
       })
       fireEvent.click(addProvinceButton)
 
-      const provinceInput = screen.getByPlaceholderText(
-        'Codice provincia (3 cifre)',
-      )
-      expect(provinceInput).toBeInTheDocument()
-      expect(provinceInput).toHaveAttribute('maxLength', '3')
+      expect(
+        screen.getByRole('button', { name: 'Province 1' }),
+      ).toHaveTextContent('Cerca provincia per nome o codice')
     })
 
-    it('allows adding municipalities with correct input constraints', () => {
+    it('allows adding municipalities searchable by name', () => {
       render(
         <TestWrapper>
           <AdditionalFeaturesStep />
@@ -267,11 +263,58 @@ describe('AdditionalFeaturesStep', () => {
       })
       fireEvent.click(addMunicipalityButton)
 
-      const municipalityInput = screen.getByPlaceholderText(
-        'Codice comune (6 cifre)',
+      expect(
+        screen.getByRole('button', { name: 'Comuni 1' }),
+      ).toHaveTextContent('Cerca comune per nome o codice')
+    })
+
+    it('shows the names of the selected zones', () => {
+      render(
+        <TestWrapper
+          formData={{
+            zoneOffers: { provinces: ['016'], municipalities: ['999001'] },
+          }}
+        >
+          <AdditionalFeaturesStep />
+        </TestWrapper>,
+      )
+
+      expect(
+        screen.getByRole('button', { name: 'Province 1' }),
+      ).toHaveTextContent('016 Bergamo')
+      // Codes missing from the embedded list are shown as they are
+      expect(
+        screen.getByRole('button', { name: 'Comuni 1' }),
+      ).toHaveTextContent('999001')
+      expect(
+        screen.getByText(
+          "Il comune 999001 non è presente nell'elenco ISTAT del 01/01/2020: verifica il codice",
+        ),
+      ).toBeInTheDocument()
+    })
+
+    it('expands a whole region into its provinces', () => {
+      render(
+        <TestWrapper
+          formData={{ zoneOffers: { regions: ['14'], provinces: ['094'] } }}
+        >
+          <AdditionalFeaturesStep />
+        </TestWrapper>,
+      )
+
+      fireEvent.click(
+        screen.getByRole('button', { name: 'Espandi in province 1' }),
       )
-      expect(municipalityInput).toBeInTheDocument()
-      expect(municipalityInput).toHaveAttribute('maxLength', '6')
+
+      expect(
+        screen.queryByRole('button', { name: 'Regioni 1' }),
+      ).not.toBeInTheDocument()
+      expect(
+        screen.getByRole('button', { name: 'Province 1' }),
+      ).toHaveTextContent('094 Isernia')
+      expect(
+        screen.getByRole('button', { name: 'Province 2' }),
+      ).toHaveTextContent('070 Campobasso')
     })
   })
 
@@ -1,6 +1,6 @@
 'use client'
 
-import { Plus, Trash2 } from 'lucide-react'
+import { ListTree, Plus, Trash2 } from 'lucide-react'
 import { Suspense } from 'react'
 import {
   type FieldArrayPath,
@@ -38,12 +38,20 @@ import {
   ADDITIONAL_PRODUCT_MACRO_AREA_LABELS,
   DISCOUNT_CONDITION_LABELS,
   DISCOUNT_TYPE_LABELS,
+  isSimulableOffer,
   MARKET_TYPES,
   OFFER_TYPES,
   UNIT_OF_MEASURE_LABELS,
   VAT_APPLICABILITY_LABELS,
 } from '@/lib/xml-generator/constants'
+import {
+  expandRegion,
+  type TerritoryLevel,
+  validateZoneHierarchy,
+  ZONE_FIELDS,
+} from '@/lib/xml-generator/istat-territories'
 import type { AdditionalFeaturesFormValues } from '@/lib/xml-generator/schemas'
+import { TerritoryCombobox } from '../territory-combobox'
 import { AdditionalFeaturesSkeleton } from './skeletons/additional-features-skeleton'
 
 // Helper to bypass strict type checking for nested field arrays
@@ -89,8 +97,10 @@ export function AdditionalFeaturesStepComponent() {
       {/* Zone Offers Section */}
       <ZoneOffersSection />
 
-      {/* Discounts Section */}
-      <DiscountsSection />
+      {/* Discounts Section, not transmitted for non-simulable offers (FR-5.8) */}
+      {isSimulableOffer(formStates.offerDetails?.offerMode) && (
+        <DiscountsSection />
+      )}
 
       {/* Additional Products/Services Section */}
       <AdditionalProductsSection />
@@ -385,180 +395,155 @@ function DualOfferSection() {
   )
 }
 
+// Codes of one level of ZoneOfferta
+function ZoneCodesList({
+  level,
+  title,
+  addLabel,
+  fieldArray,
+  onExpand,
+}: {
+  level: TerritoryLevel
+  title: string
+  addLabel: string
+  fieldArray: ReturnType<typeof useFieldArray>
+  // Replace a whole region with its provinces
+  onExpand?: (index: number) => void
+}) {
+  const form = useFormContext<AdditionalFeaturesFormValues>()
+  const fieldName = ZONE_FIELDS[level]
+  // Codes missing from the offline ISTAT copy do not block the offer
+  const warnings = validateZoneHierarchy(form.watch('zoneOffers')).filter(
+    (issue) => issue.severity === 'warning' && issue.field === fieldName,
+  )
+
+  return (
+    <div>
+      <h4 className="mb-3 font-medium">{title}</h4>
+      <div className="space-y-3">
+        {fieldArray.fields.map((arrayItem, index) => (
+          <div className="flex items-center space-x-3" key={arrayItem.id}>
+            <FormField
+              control={form.control}
+              name={`zoneOffers.${fieldName}.${index}`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl>
+                    <TerritoryCombobox
+                      aria-label={`${title} ${index + 1}`}
+                      level={level}
+                      onChange={field.onChange}
+                      value={field.value}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                  {warnings
+                    .filter((warning) => warning.index === index)
+                    .map((warning) => (
+                      <p
+                        className="text-xs text-yellow-800"
+                        key={warning.message}
+                      >
+                        {warning.message}
+                      </p>
+                    ))}
+                </FormItem>
+              )}
+            />
+            {onExpand ? (
+              <Button
+                aria-label={`Espandi in province ${index + 1}`}
+                onClick={() => onExpand(index)}
+                size="sm"
+                title="Sostituisci la regione con tutte le sue province"
+                type="button"
+                variant="ghost"
+              >
+                <ListTree className="h-4 w-4" />
+              </Button>
+            ) : null}
+            <Button
+              className="text-destructive hover:text-destructive"
+              onClick={() => fieldArray.remove(index)}
+              size="sm"
+              type="button"
+              variant="ghost"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          onClick={() => fieldArray.append('')}
+          size="sm"
+          type="button"
+          variant="outline"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          {addLabel}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
 function ZoneOffersSection() {
   const form = useFormContext<AdditionalFeaturesFormValues>()
 
-  const {
-    fields: regionsFields,
-    append: appendRegion,
-    remove: removeRegion,
-  } = useNestedFieldArray<AdditionalFeaturesFormValues>(
+  const regions = useNestedFieldArray<AdditionalFeaturesFormValues>(
     form.control,
     'zoneOffers.regions',
   )
-
-  const {
-    fields: provincesFields,
-    append: appendProvince,
-    remove: removeProvince,
-  } = useNestedFieldArray<AdditionalFeaturesFormValues>(
+  const provinces = useNestedFieldArray<AdditionalFeaturesFormValues>(
     form.control,
     'zoneOffers.provinces',
   )
-
-  const {
-    fields: municipalitiesFields,
-    append: appendMunicipality,
-    remove: removeMunicipality,
-  } = useNestedFieldArray<AdditionalFeaturesFormValues>(
+  const municipalities = useNestedFieldArray<AdditionalFeaturesFormValues>(
     form.control,
     'zoneOffers.municipalities',
   )
 
+  const expandRegionAt = (index: number) => {
+    const zoneOffers = form.getValues('zoneOffers')
+    const regionCode = zoneOffers?.regions?.[index]
+    if (!regionCode) {
+      return
+    }
+    const expanded = expandRegion(zoneOffers, regionCode)
+    regions.replace(expanded.regions ?? [])
+    provinces.replace(expanded.provinces ?? [])
+  }
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>Zone dell&apos;Offerta</CardTitle>
         <CardDescription>
-          Limitazioni geografiche dell&apos;offerta (opzionale). Inserire i
-          codici numerici delle zone.
+          Limitazioni geografiche dell&apos;offerta (opzionale). Cerca le zone
+          per nome o codice ISTAT: una regione include tutte le sue province e
+          una provincia tutti i suoi comuni.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
-        {/* Regions */}
-        <div>
-          <h4 className="mb-3 font-medium">Regioni</h4>
-          <div className="space-y-3">
-            {regionsFields.map((arrayItem, index) => (
-              <div className="flex items-center space-x-3" key={arrayItem.id}>
-                <FormField
-                  control={form.control}
-                  name={`zoneOffers.regions.${index}`}
-                  render={({ field }) => (
-                    <FormItem className="flex-1">
-                      <FormControl>
-                        <Input
-                          maxLength={2}
-                          placeholder="Codice regione (2 cifre)"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <Button
-                  className="text-destructive hover:text-destructive"
-                  onClick={() => removeRegion(index)}
-                  size="sm"
-                  type="button"
-                  variant="ghost"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              </div>
-            ))}
-            <Button
-              onClick={() => appendRegion('')}
-              size="sm"
-              type="button"
-              variant="outline"
-            >
-              <Plus className="mr-2 h-4 w-4" />
-              Aggiungi Regione
-            </Button>
-          </div>
-        </div>
-
-        {/* Provinces */}
-        <div>
-          <h4 className="mb-3 font-medium">Province</h4>
-          <div className="space-y-3">
-            {provincesFields.map((arrayItem, index) => (
-              <div className="flex items-center space-x-3" key={arrayItem.id}>
-                <FormField
-                  control={form.control}
-                  name={`zoneOffers.provinces.${index}`}
-                  render={({ field }) => (
-                    <FormItem className="flex-1">
-                      <FormControl>
-                        <Input
-                          maxLength={3}
-                          placeholder="Codice provincia (3 cifre)"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <Button
-                  className="text-destructive hover:text-destructive"
-                  onClick={() => removeProvince(index)}
-                  size="sm"
-                  type="button"
-                  variant="ghost"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              </div>
-            ))}
-            <Button
-              onClick={() => appendProvince('')}
-              size="sm"
-              type="button"
-              variant="outline"
-            >
-              <Plus className="mr-2 h-4 w-4" />
-              Aggiungi Provincia
-            </Button>
-          </div>
-        </div>
-
-        {/* Municipalities */}
-        <div>
-          <h4 className="mb-3 font-medium">Comuni</h4>
-          <div className="space-y-3">
-            {municipalitiesFields.map((arrayItem, index) => (
-              <div className="flex items-center space-x-3" key={arrayItem.id}>
-                <FormField
-                  control={form.control}
-                  name={`zoneOffers.municipalities.${index}`}
-                  render={({ field }) => (
-                    <FormItem className="flex-1">
-                      <FormControl>
-                        <Input
-                          maxLength={6}
-                          placeholder="Codice comune (6 cifre)"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <Button
-                  className="text-destructive hover:text-destructive"
-                  onClick={() => removeMunicipality(index)}
-                  size="sm"
-                  type="button"
-                  variant="ghost"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              </div>
-            ))}
-            <Button
-              onClick={() => appendMunicipality('')}
-              size="sm"
-              type="button"
-              variant="outline"
-            >
-              <Plus className="mr-2 h-4 w-4" />
-              Aggiungi Comune
-            </Button>
-          </div>
-        </div>
+        <ZoneCodesList
+          addLabel="Aggiungi Regione"
+          fieldArray={regions}
+          level="region"
+          onExpand={expandRegionAt}
+          title="Regioni"
+        />
+        <ZoneCodesList
+          addLabel="Aggiungi Provincia"
+          fieldArray={provinces}
+          level="province"
+          title="Province"
+        />
+        <ZoneCodesList
+          addLabel="Aggiungi Comune"
+          fieldArray={municipalities}
+          level="municipality"
+          title="Comuni"
+        />
       </CardContent>
     </Card>
   )
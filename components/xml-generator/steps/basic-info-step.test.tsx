@@ -30,6 +30,11 @@ const COD_OFFERTA_DESCRIPTION_REGEX =
   /Codice univoco utilizzato nel campo CODICE CONTRATTO durante le richieste di switching \(Alfanumerico, max 32 caratteri\)/i
 const PIVA_ERROR_REGEX = /La PIVA deve/i
 const CODICE_OFFERTA_ERROR_REGEX = /Il codice offerta deve/i
+const ACTION_LABEL_REGEX = /Tipo di Operazione/i
+const EXISTING_OFFER_REGEX = /identifica un'offerta già trasmessa al SII/i
+const SPEC_VERSION_LABEL_REGEX = /Versione delle Specifiche SII/i
+const SELF_DECLARED_REGEX = /La conferma è una tua dichiarazione/i
+const UNVERIFIED_CONFIRMATION_REGEX = /la conferma non può essere verificata/i
 
 // Test wrapper component that provides form context and stepper context
 function TestWrapper({
@@ -242,4 +247,66 @@ describe('BasicInfoStep', () => {
     expect(pivaInput.value).toBe('IT98765432109')
     expect(offerCodeInput.value).toBe('TESTCODE123')
   })
+
+  it('shows the action selector with INSERIMENTO by default', () => {
+    render(
+      <TestWrapper>
+        <BasicInfoStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.getByText(ACTION_LABEL_REGEX)).toBeInTheDocument()
+    expect(screen.getByText('Inserimento - nuova offerta')).toBeInTheDocument()
+    expect(screen.queryByText(EXISTING_OFFER_REGEX)).not.toBeInTheDocument()
+  })
+
+  it('shows the specification version in force by default', () => {
+    render(
+      <TestWrapper>
+        <BasicInfoStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.getByText(SPEC_VERSION_LABEL_REGEX)).toBeInTheDocument()
+    expect(
+      screen.getByText('Trasmissione Offerte 4.5 (6 dicembre 2023)'),
+    ).toBeInTheDocument()
+  })
+
+  it('asks to confirm the existing offer for AGGIORNAMENTO', () => {
+    render(
+      <TestWrapper
+        defaultValues={{
+          action: 'AGGIORNAMENTO',
+          pivaUtente: 'IT98765432109',
+          codOfferta: 'TESTCODE123',
+        }}
+      >
+        <BasicInfoStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.getByText(EXISTING_OFFER_REGEX)).toBeInTheDocument()
+    expect(screen.getByRole('checkbox')).not.toBeChecked()
+  })
+
+  it('states that the confirmation is not checked against SII', async () => {
+    render(
+      <TestWrapper
+        defaultValues={{
+          action: 'AGGIORNAMENTO',
+          pivaUtente: 'IT98765432109',
+          codOfferta: 'TESTCODE123',
+        }}
+      >
+        <BasicInfoStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.getByText(SELF_DECLARED_REGEX)).toBeInTheDocument()
+    // jsdom has no IndexedDB, the exported offers cannot be read
+    expect(
+      await screen.findByText(UNVERIFIED_CONFIRMATION_REGEX),
+    ).toBeInTheDocument()
+  })
 })
@@ -1,6 +1,7 @@
 'use client'
 
-import { Suspense } from 'react'
+import { AlertTriangle, CheckCircle } from 'lucide-react'
+import { Suspense, useEffect, useState } from 'react'
 import { useFormContext } from 'react-hook-form'
 import {
   Card,
@@ -9,6 +10,7 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   FormControl,
   FormDescription,
@@ -18,14 +20,76 @@ import {
   FormMessage,
 } from '@/components/ui/form'
 import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ACTION_TYPE_LABELS, ACTION_TYPES } from '@/lib/xml-generator/constants'
+import { listExportedOfferCodes } from '@/lib/xml-generator/offer-workspace'
 import type { BasicInfoFormValues } from '@/lib/xml-generator/schemas'
+import {
+  getDefaultSpecVersion,
+  getProducibleSpecVersions,
+} from '@/lib/xml-generator/spec-registry'
 import { xmlFormStepper } from '@/lib/xml-generator/stepperize-config'
+import { OfferHistoryCard } from '../offer-history-card'
+import { OfferWorkspaceCard } from '../offer-workspace-card'
+import { SpreadsheetImportCard } from '../spreadsheet-import-card'
+import { TemplatePickerCard } from '../template-picker-card'
+import { XmlImportCard } from '../xml-import-card'
 import { BasicInfoSkeleton } from './skeletons/basic-info-skeleton'
 
+// Local check of an update: SII cannot be queried, only the offers exported
+// from this browser are known
+function ExportedOfferCodeNotice({ codOfferta }: { codOfferta?: string }) {
+  const [codes, setCodes] = useState<string[] | null>(null)
+  const [isUnavailable, setIsUnavailable] = useState(false)
+
+  useEffect(() => {
+    listExportedOfferCodes()
+      .then(setCodes)
+      .catch(() => setIsUnavailable(true))
+  }, [])
+
+  if (isUnavailable) {
+    return (
+      <p className="flex items-center gap-2 text-xs text-yellow-800">
+        <AlertTriangle className="h-4 w-4 shrink-0" />
+        Impossibile leggere le offerte esportate da questo browser: la conferma
+        non può essere verificata
+      </p>
+    )
+  }
+  if (!(codes && codOfferta)) {
+    return null
+  }
+  return codes.includes(codOfferta) ? (
+    <p className="flex items-center gap-2 text-green-700 text-xs">
+      <CheckCircle className="h-4 w-4 shrink-0" />
+      Il codice {codOfferta} risulta tra le offerte esportate da questo browser
+    </p>
+  ) : (
+    <p className="flex items-center gap-2 text-xs text-yellow-800">
+      <AlertTriangle className="h-4 w-4 shrink-0" />
+      Il codice {codOfferta} non risulta tra le offerte esportate da questo
+      browser: verifica che corrisponda a un&apos;offerta già trasmessa al SII
+    </p>
+  )
+}
+
 export function BasicInfoStepComponent() {
   const { Stepper } = xmlFormStepper
   const form = useFormContext<BasicInfoFormValues>()
 
+  const action = form.watch('action')
+  const codOfferta = form.watch('codOfferta')
+  // Two versions during a transition period, the one in force otherwise
+  const specVersions = getProducibleSpecVersions()
+  const defaultSpecVersion = getDefaultSpecVersion()
+
   return (
     <Stepper.Panel>
       <div className="space-y-6">
@@ -37,6 +101,12 @@ export function BasicInfoStepComponent() {
           </p>
         </div>
 
+        <OfferWorkspaceCard />
+        <OfferHistoryCard />
+        <TemplatePickerCard />
+        <XmlImportCard />
+        <SpreadsheetImportCard />
+
         <Card>
           <CardHeader>
             <CardTitle>Dati Identificativi</CardTitle>
@@ -46,6 +116,77 @@ export function BasicInfoStepComponent() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            <FormField
+              control={form.control}
+              name="action"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tipo di Operazione (AZIONE)</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    value={field.value || ACTION_TYPES.INSERIMENTO}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Seleziona il tipo di operazione" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(ACTION_TYPE_LABELS).map(
+                        ([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ),
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Determina il nome del file XML generato. Per un
+                    aggiornamento usa lo stesso codice dell&apos;offerta già
+                    trasmessa.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="specVersion"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Versione delle Specifiche SII</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    value={field.value || defaultSpecVersion.version}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Seleziona la versione delle specifiche" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {(specVersions.length > 0
+                        ? specVersions
+                        : [defaultSpecVersion]
+                      ).map((spec) => (
+                        <SelectItem key={spec.version} value={spec.version}>
+                          {spec.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Versione di &quot;Trasmissione Offerte&quot; del XML
+                    generato. Nei periodi di transizione il SII accetta sia la
+                    versione precedente sia quella nuova.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="pivaUtente"
@@ -102,6 +243,40 @@ export function BasicInfoStepComponent() {
                 </FormItem>
               )}
             />
+
+            {/* Existing offer confirmation - only shown for updates */}
+            {action === ACTION_TYPES.AGGIORNAMENTO && (
+              <FormField
+                control={form.control}
+                name="existingOfferConfirmed"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value ?? false}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>
+                        Il codice indicato identifica un&apos;offerta già
+                        trasmessa al SII{' '}
+                        <span className="text-destructive">*</span>
+                      </FormLabel>
+                      <FormDescription>
+                        L&apos;aggiornamento sostituisce i dati
+                        dell&apos;offerta esistente con lo stesso COD_OFFERTA.
+                        La conferma è una tua dichiarazione: il codice viene
+                        confrontato solo con le offerte esportate da questo
+                        browser, non con il SII.
+                      </FormDescription>
+                      <FormMessage />
+                      <ExportedOfferCodeNotice codOfferta={codOfferta} />
+                    </div>
+                  </FormItem>
+                )}
+              />
+            )}
           </CardContent>
         </Card>
 
@@ -129,6 +304,14 @@ export function BasicInfoStepComponent() {
                   (Alfanumerico, max 32 caratteri)
                 </span>
               </li>
+              <li className="flex items-start gap-2">
+                <span className="text-primary">•</span>
+                <span>
+                  <strong>AZIONE:</strong> INSERIMENTO per le nuove offerte,
+                  AGGIORNAMENTO per modificare un&apos;offerta esistente con lo
+                  stesso COD_OFFERTA
+                </span>
+              </li>
               <li className="flex items-start gap-2">
                 <span className="text-primary">•</span>
                 <span>
@@ -21,25 +21,34 @@ const MACRO_AREA_REGEX = /Macroarea/
 const UNIT_MEASURE_REGEX = /Unità di Misura/
 const TIME_BAND_REGEX = /Fascia Componente/
 const PCV_CHECKBOX_REGEX = /PCV \(01\)/
+const MISSING_F2_REGEX = /manca la fascia F2/
+const MISSING_F3_REGEX = /manca la fascia F3/
+const BRACKET_GAP_REGEX = /mancano i consumi tra 1000 e 1500/
 
 interface TestFormData {
   offerDetails?: {
     marketType?: string
+    offerMode?: string
+  }
+  pricingConfig?: {
+    timeBandConfiguration?: string
   }
 }
 
 const TestWrapper = ({
   children,
   formData = {},
+  companyComponents = [],
 }: {
   children: React.ReactNode
   formData?: TestFormData
+  companyComponents?: CompanyComponentsFormValues['companyComponents']
 }) => {
   const form = useForm<CompanyComponentsFormValues>({
     resolver: zodResolver(companyComponentsSchema),
     defaultValues: {
       regulatedComponents: [],
-      companyComponents: [],
+      companyComponents,
     },
     mode: 'onChange', // Prevent uncontrolled/controlled issues
   })
@@ -194,9 +203,10 @@ describe('CompanyComponentsStep', () => {
     const addButton = screen.getByText('Aggiungi Componente Aziendale')
     fireEvent.click(addButton)
 
-    expect(screen.getByText('Data Inizio Validità')).toBeInTheDocument()
-    expect(screen.getByText('Data Fine Validità')).toBeInTheDocument()
-    expect(screen.getAllByText('Formato: gg/mm/aaaa')).toHaveLength(2)
+    expect(screen.getByText('Durata Validità (mesi)')).toBeInTheDocument()
+    expect(screen.getByText('Valido Fino')).toBeInTheDocument()
+    expect(screen.getByText('Mesi di Validità')).toBeInTheDocument()
+    expect(screen.getByPlaceholderText('mm/aaaa')).toBeInTheDocument()
   })
 
   it('allows adding multiple price intervals', () => {
@@ -374,7 +384,7 @@ describe('CompanyComponentsStep', () => {
     fireEvent.click(addButton)
 
     expect(screen.getByText('Massimo 3000 caratteri')).toBeInTheDocument()
-    expect(screen.getAllByText('Formato: gg/mm/aaaa')).toHaveLength(2)
+    expect(screen.getByText('Formato: mm/aaaa')).toBeInTheDocument()
   })
 
   it('handles regulated components selection', () => {
@@ -429,4 +439,117 @@ describe('CompanyComponentsStep', () => {
 
     expect(priceInput).toHaveValue(10.5)
   })
+
+  it('suggests the missing interval for each band of the time band configuration', () => {
+    render(
+      <TestWrapper
+        companyComponents={[
+          {
+            name: 'Prezzo energia',
+            description: 'Prezzo per fascia',
+            componentType: '01',
+            macroArea: '04',
+            priceIntervals: [
+              { price: 0.12, unitOfMeasure: '03', componentTimeBand: '01' },
+            ],
+          },
+        ]}
+        formData={{
+          offerDetails: { marketType: MARKET_TYPES.ELECTRICITY },
+          pricingConfig: { timeBandConfiguration: '03' },
+        }}
+      >
+        <CompanyComponentsStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.getByText(MISSING_F2_REGEX)).toBeInTheDocument()
+    expect(screen.getByText(MISSING_F3_REGEX)).toBeInTheDocument()
+
+    fireEvent.click(
+      screen.getByRole('button', { name: 'Aggiungi intervallo per F2' }),
+    )
+
+    expect(screen.getByText('Intervallo 2')).toBeInTheDocument()
+    expect(screen.queryByText(MISSING_F2_REGEX)).not.toBeInTheDocument()
+    expect(screen.getByText(MISSING_F3_REGEX)).toBeInTheDocument()
+  })
+
+  it('does not apply the band rules outside the electricity market', () => {
+    render(
+      <TestWrapper
+        companyComponents={[
+          {
+            name: 'Prezzo gas',
+            description: 'Prezzo materia prima',
+            componentType: '01',
+            macroArea: '04',
+            priceIntervals: [
+              { price: 0.5, unitOfMeasure: '03', componentTimeBand: '01' },
+            ],
+          },
+        ]}
+        formData={{
+          offerDetails: { marketType: MARKET_TYPES.GAS },
+          pricingConfig: { timeBandConfiguration: '03' },
+        }}
+      >
+        <CompanyComponentsStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.queryByText(MISSING_F2_REGEX)).not.toBeInTheDocument()
+  })
+
+  it('shows the consumption brackets table with gaps highlighted', () => {
+    render(
+      <TestWrapper
+        companyComponents={[
+          {
+            name: 'Prezzo gas',
+            description: 'Prezzo a scaglioni',
+            componentType: '01',
+            macroArea: '04',
+            priceIntervals: [
+              {
+                price: 0.5,
+                unitOfMeasure: '04',
+                consumptionFrom: 0,
+                consumptionTo: 1000,
+              },
+              { price: 0.4, unitOfMeasure: '04', consumptionFrom: 1500 },
+            ],
+          },
+        ]}
+        formData={{ offerDetails: { marketType: MARKET_TYPES.GAS } }}
+      >
+        <CompanyComponentsStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.getByText('Scaglioni di Consumo')).toBeInTheDocument()
+    expect(screen.getByText('oltre')).toBeInTheDocument()
+    expect(screen.getByText(BRACKET_GAP_REGEX)).toBeInTheDocument()
+  })
+
+  it('hides the components of non-simulable offers', () => {
+    render(
+      <TestWrapper
+        formData={{
+          offerDetails: {
+            marketType: MARKET_TYPES.ELECTRICITY,
+            offerMode: 'NON_SIMULABILE',
+          },
+        }}
+      >
+        <CompanyComponentsStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.getByText('Offerta non simulabile')).toBeInTheDocument()
+    expect(
+      screen.queryByText(REGULATED_COMPONENTS_REGEX),
+    ).not.toBeInTheDocument()
+    expect(screen.queryByText(COMPANY_COMPONENTS_REGEX)).not.toBeInTheDocument()
+  })
 })
@@ -1,6 +1,6 @@
 'use client'
 
-import { Plus, PlusCircle, Trash2 } from 'lucide-react'
+import { AlertCircle, Plus, PlusCircle, Trash2, Wrench } from 'lucide-react'
 import { Suspense } from 'react'
 import { useFieldArray, useFormContext } from 'react-hook-form'
 import { Button } from '@/components/ui/button'
@@ -29,17 +29,36 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Separator } from '@/components/ui/separator'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
 import { Textarea } from '@/components/ui/textarea'
 import { useFormStates } from '@/hooks/use-form-states'
 import {
   COMPONENT_TIME_BAND_LABELS,
   COMPONENT_TYPE_LABELS,
   getRegulatedComponentsByMarket,
+  isSimulableOffer,
   MACRO_AREA_LABELS,
   MARKET_TYPES,
+  MONTH_LABELS,
+  type Month,
   REGULATED_COMPONENT_LABELS,
   UNIT_OF_MEASURE_LABELS,
 } from '@/lib/xml-generator/constants'
+import {
+  groupConsumptionBrackets,
+  validateConsumptionBrackets,
+} from '@/lib/xml-generator/consumption-brackets'
+import {
+  type PriceIntervalFix,
+  validateElectricityPriceIntervals,
+} from '@/lib/xml-generator/price-interval-rules'
 import type { CompanyComponentsFormValues } from '@/lib/xml-generator/schemas'
 import { CompanyComponentsSkeleton } from './skeletons/company-components-skeleton'
 
@@ -48,6 +67,7 @@ export function CompanyComponentsStepComponent() {
   const [formStates] = useFormStates()
 
   const marketType = formStates.offerDetails?.marketType ?? ''
+  const timeBandConfiguration = formStates.pricingConfig?.timeBandConfiguration
 
   // Get available regulated components based on market type
   const availableRegulatedComponents =
@@ -81,15 +101,38 @@ export function CompanyComponentsStepComponent() {
   // Cross-step validation is now handled by the custom resolver in FormProvider
   // No need for useEffect here anymore
 
+  const header = (
+    <div>
+      <h2 className="font-semibold text-lg">Componenti Impresa</h2>
+      <p className="text-muted-foreground text-sm">
+        Definisci i componenti regolati e i componenti aziendali con relativi
+        intervalli di prezzo
+      </p>
+    </div>
+  )
+
+  // Non-simulable offers carry no price structure (FR-5.8)
+  if (!isSimulableOffer(formStates.offerDetails?.offerMode)) {
+    return (
+      <div className="space-y-6">
+        {header}
+        <Card>
+          <CardHeader>
+            <CardTitle>Offerta non simulabile</CardTitle>
+            <CardDescription>
+              Componenti regolate e componenti impresa non vengono trasmessi per
+              le offerte non simulabili. Per inserirli imposta la modalità
+              &quot;Simulabile&quot; nei dettagli dell&apos;offerta
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    )
+  }
+
   return (
     <div className="space-y-6">
-      <div>
-        <h2 className="font-semibold text-lg">Componenti Impresa</h2>
-        <p className="text-muted-foreground text-sm">
-          Definisci i componenti regolati e i componenti aziendali con relativi
-          intervalli di prezzo
-        </p>
-      </div>
+      {header}
 
       {/* Regulated Components Section */}
       <Card>
@@ -170,9 +213,11 @@ export function CompanyComponentsStepComponent() {
             {companyComponentFields.map((field, index) => (
               <CompanyComponentCard
                 index={index}
+                isElectricity={marketType === MARKET_TYPES.ELECTRICITY}
                 key={field.id}
                 onRemove={() => removeCompanyComponent(index)}
                 showRemove={companyComponentFields.length > 1}
+                timeBandConfiguration={timeBandConfiguration}
               />
             ))}
 
@@ -202,16 +247,27 @@ export const CompanyComponentsStep = () => {
 
 interface CompanyComponentCardProps {
   index: number
+  isElectricity: boolean
   onRemove: () => void
   showRemove: boolean
+  timeBandConfiguration?: string
 }
 
 function CompanyComponentCard({
   index,
+  isElectricity,
   onRemove,
   showRemove,
+  timeBandConfiguration,
 }: CompanyComponentCardProps) {
   const form = useFormContext<CompanyComponentsFormValues>()
+  const component = form.watch(`companyComponents.${index}`)
+
+  // Electricity intervals must match TIPOLOGIA_FASCE (FR-4.6)
+  const intervalIssues =
+    isElectricity && component
+      ? validateElectricityPriceIntervals(component, timeBandConfiguration)
+      : []
 
   // Field array for price intervals
   const {
@@ -230,6 +286,28 @@ function CompanyComponentCard({
     })
   }
 
+  const applyFix = (fix: PriceIntervalFix) => {
+    if (fix.type === 'addInterval') {
+      appendPriceInterval({
+        price: 0,
+        unitOfMeasure: '03',
+        componentTimeBand: fix.componentTimeBand,
+      })
+      return
+    }
+    if (fix.type === 'removeInterval') {
+      removePriceInterval(fix.intervalIndex)
+      return
+    }
+    for (const intervalIndex of priceIntervalFields.keys()) {
+      form.setValue(
+        `companyComponents.${index}.priceIntervals.${intervalIndex}.componentTimeBand`,
+        undefined,
+        { shouldDirty: true },
+      )
+    }
+  }
+
   return (
     <Card>
       <CardHeader className="pb-4">
@@ -353,6 +431,33 @@ function CompanyComponentCard({
         {/* Price Intervals */}
         <div>
           <h4 className="mb-3 font-medium">Intervalli di Prezzo</h4>
+          {intervalIssues.length > 0 ? (
+            <ul className="mb-4 space-y-2 text-sm">
+              {intervalIssues.map((issue) => (
+                <li
+                  className="flex items-start justify-between gap-2 rounded-md bg-red-50 p-2 text-red-700"
+                  key={issue.message}
+                >
+                  <span className="flex items-start gap-2">
+                    <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                    {issue.message}
+                  </span>
+                  {issue.fix ? (
+                    <Button
+                      className="shrink-0"
+                      onClick={() => issue.fix && applyFix(issue.fix)}
+                      size="sm"
+                      type="button"
+                      variant="outline"
+                    >
+                      <Wrench className="mr-2 h-3 w-3" />
+                      {issue.fix.label}
+                    </Button>
+                  ) : null}
+                </li>
+              ))}
+            </ul>
+          ) : null}
           <div className="space-y-4">
             {priceIntervalFields.map((intervalField, intervalIndex) => (
               <PriceIntervalCard
@@ -376,11 +481,109 @@ function CompanyComponentCard({
             </Button>
           </div>
         </div>
+
+        <ConsumptionBracketTable
+          priceIntervals={component?.priceIntervals ?? []}
+        />
       </CardContent>
     </Card>
   )
 }
 
+type PriceIntervalValues = NonNullable<
+  CompanyComponentsFormValues['companyComponents']
+>[number]['priceIntervals']
+
+const formatValidityPeriod = (
+  period: PriceIntervalValues[number]['validityPeriod'],
+) => {
+  const parts = [
+    period?.duration ? `${period.duration} mesi` : null,
+    period?.validUntil ? `fino a ${period.validUntil}` : null,
+    period?.validMonths?.length
+      ? period.validMonths.map((month) => MONTH_LABELS[month]).join(', ')
+      : null,
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(' - ') : 'Sempre'
+}
+
+function ConsumptionBracketTable({
+  priceIntervals,
+}: {
+  priceIntervals: PriceIntervalValues
+}) {
+  const groups = groupConsumptionBrackets(priceIntervals)
+  if (groups.length === 0) {
+    return null
+  }
+
+  const issues = new Map(
+    validateConsumptionBrackets(priceIntervals).map((issue) => [
+      issue.intervalIndex,
+      issue.message,
+    ]),
+  )
+
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium">Scaglioni di Consumo</h4>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Fascia</TableHead>
+            <TableHead>Periodo</TableHead>
+            <TableHead className="text-right">Da</TableHead>
+            <TableHead className="text-right">A</TableHead>
+            <TableHead className="text-right">Prezzo</TableHead>
+            <TableHead>Intervallo</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.flatMap((group) =>
+            group.brackets.map((bracket) => {
+              const issue = issues.get(bracket.intervalIndex)
+              return (
+                <TableRow
+                  className={issue ? 'bg-red-50 text-red-700' : undefined}
+                  key={bracket.intervalIndex}
+                  title={issue}
+                >
+                  <TableCell>
+                    {group.componentTimeBand
+                      ? COMPONENT_TIME_BAND_LABELS[group.componentTimeBand]
+                      : 'Tutte'}
+                  </TableCell>
+                  <TableCell>
+                    {formatValidityPeriod(
+                      priceIntervals[bracket.intervalIndex]?.validityPeriod,
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{bracket.from}</TableCell>
+                  <TableCell className="text-right">
+                    {bracket.to ?? 'oltre'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {priceIntervals[bracket.intervalIndex]?.price}
+                    {group.unitOfMeasure
+                      ? ` ${UNIT_OF_MEASURE_LABELS[group.unitOfMeasure]}`
+                      : null}
+                  </TableCell>
+                  <TableCell>
+                    {bracket.intervalIndex + 1}
+                    {issue ? (
+                      <span className="block text-xs">{issue}</span>
+                    ) : null}
+                  </TableCell>
+                </TableRow>
+              )
+            }),
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
 interface PriceIntervalCardProps {
   componentIndex: number
   intervalIndex: number
@@ -532,7 +735,7 @@ function PriceIntervalCard({
           render={({ field }) => (
             <FormItem>
               <FormLabel>Fascia Componente</FormLabel>
-              <Select defaultValue={field.value} onValueChange={field.onChange}>
+              <Select onValueChange={field.onChange} value={field.value ?? ''}>
                 <FormControl>
                   <SelectTrigger>
                     <SelectValue placeholder="Seleziona fascia (opzionale)" />
@@ -553,38 +756,104 @@ function PriceIntervalCard({
           )}
         />
 
-        <div className="grid grid-cols-2 gap-3">
-          <FormField
-            control={form.control}
-            name={`companyComponents.${componentIndex}.priceIntervals.${intervalIndex}.validityPeriod.fromDate`}
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Data Inizio Validità</FormLabel>
-                <FormControl>
-                  <Input placeholder="gg/mm/aaaa" type="text" {...field} />
-                </FormControl>
-                <FormDescription>Formato: gg/mm/aaaa</FormDescription>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-
-          <FormField
-            control={form.control}
-            name={`companyComponents.${componentIndex}.priceIntervals.${intervalIndex}.validityPeriod.toDate`}
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Data Fine Validità</FormLabel>
-                <FormControl>
-                  <Input placeholder="gg/mm/aaaa" type="text" {...field} />
-                </FormControl>
-                <FormDescription>Formato: gg/mm/aaaa</FormDescription>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-        </div>
+        <PriceIntervalValidityFields
+          componentIndex={componentIndex}
+          intervalIndex={intervalIndex}
+        />
       </CardContent>
     </Card>
   )
 }
+
+function PriceIntervalValidityFields({
+  componentIndex,
+  intervalIndex,
+}: Pick<PriceIntervalCardProps, 'componentIndex' | 'intervalIndex'>) {
+  const form = useFormContext<CompanyComponentsFormValues>()
+  const basePath =
+    `companyComponents.${componentIndex}.priceIntervals.${intervalIndex}.validityPeriod` as const
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <FormField
+          control={form.control}
+          name={`${basePath}.duration`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Durata Validità (mesi)</FormLabel>
+              <FormControl>
+                <Input
+                  max="99"
+                  min="1"
+                  placeholder="Opzionale"
+                  type="number"
+                  {...field}
+                  onChange={(e) =>
+                    field.onChange(
+                      e.target.value
+                        ? Number.parseInt(e.target.value, 10)
+                        : undefined,
+                    )
+                  }
+                  value={field.value ?? ''}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name={`${basePath}.validUntil`}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Valido Fino</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="mm/aaaa"
+                  type="text"
+                  {...field}
+                  value={field.value ?? ''}
+                />
+              </FormControl>
+              <FormDescription>Formato: mm/aaaa</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={form.control}
+        name={`${basePath}.validMonths`}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Mesi di Validità</FormLabel>
+            <div className="grid grid-cols-3 gap-2 md:grid-cols-6">
+              {Object.entries(MONTH_LABELS).map(([month, label]) => (
+                <div className="flex items-center gap-2 text-sm" key={month}>
+                  <Checkbox
+                    aria-label={label}
+                    checked={field.value?.includes(month as Month) ?? false}
+                    onCheckedChange={(checked) => {
+                      const months = (field.value ?? []).filter(
+                        (value) => value !== month,
+                      )
+                      field.onChange(
+                        checked ? [...months, month as Month].sort() : months,
+                      )
+                    }}
+                  />
+                  {label}
+                </div>
+              ))}
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  )
+}
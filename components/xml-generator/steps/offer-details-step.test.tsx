@@ -27,6 +27,9 @@ const DURATION_LABEL_REGEX = /Durata \(mesi\)/
 const GUARANTEES_LABEL_REGEX = /Garanzie/
 const SINGLE_OFFER_LABEL_REGEX = /Offerta Singola/
 const RESIDENTIAL_STATUS_LABEL_REGEX = /Stato Residenziale/
+const OFFER_MODE_LABEL_REGEX = /Modalità dell'Offerta/
+const NON_SIMULABLE_HELP_REGEX =
+  /Le offerte non simulabili non riportano prezzi/
 
 // Wrapper component for testing
 function TestWrapper({
@@ -339,6 +342,18 @@ describe('OfferDetailsStep', () => {
     expect(offerDescriptionInput).toHaveValue('')
   })
 
+  it('shows the offer mode as simulable by default', () => {
+    render(
+      <TestWrapper>
+        <OfferDetailsStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.getByText(OFFER_MODE_LABEL_REGEX)).toBeInTheDocument()
+    expect(screen.getByText('Simulabile')).toBeInTheDocument()
+    expect(screen.getByText(NON_SIMULABLE_HELP_REGEX)).toBeInTheDocument()
+  })
+
   it('shows help text for duration field', () => {
     render(
       <TestWrapper>
@@ -32,6 +32,8 @@ import {
   CLIENT_TYPE_LABELS,
   CONTRACT_ACTIVATION_LABELS,
   MARKET_TYPE_LABELS,
+  OFFER_MODE_LABELS,
+  OFFER_MODES,
   OFFER_TYPE_LABELS,
   RESIDENTIAL_STATUS_LABELS,
   SINGLE_OFFER_LABELS,
@@ -229,6 +231,40 @@ export function OfferDetailsStepComponent() {
             />
           </div>
 
+          <FormField
+            control={form.control}
+            name="offerMode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Modalità dell&apos;Offerta</FormLabel>
+                <Select
+                  onValueChange={field.onChange}
+                  value={field.value || OFFER_MODES.SIMULABLE}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(OFFER_MODE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Le offerte non simulabili non riportano prezzi, fasce,
+                  componenti impresa e sconti usati dal Portale Offerte per
+                  stimare la spesa: i prezzi vanno pubblicati alla pagina
+                  dell&apos;offerta
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <FormField
             control={form.control}
             name="contractActivationTypes"
@@ -260,14 +260,21 @@ describe('PricingConfigStep', () => {
     )
 
     expect(screen.getByText('Fasce Orarie Settimanali')).toBeInTheDocument()
-    expect(screen.getByText('Lunedì')).toBeInTheDocument()
-    expect(screen.getByText('Martedì')).toBeInTheDocument()
-    expect(screen.getByText('Mercoledì')).toBeInTheDocument()
-    expect(screen.getByText('Giovedì')).toBeInTheDocument()
-    expect(screen.getByText('Venerdì')).toBeInTheDocument()
-    expect(screen.getByText('Sabato')).toBeInTheDocument()
-    expect(screen.getByText('Domenica')).toBeInTheDocument()
-    expect(screen.getByText('Festività')).toBeInTheDocument()
+    expect(screen.getByRole('textbox', { name: 'Lunedì' })).toBeInTheDocument()
+    expect(screen.getByRole('textbox', { name: 'Martedì' })).toBeInTheDocument()
+    expect(
+      screen.getByRole('textbox', { name: 'Mercoledì' }),
+    ).toBeInTheDocument()
+    expect(screen.getByRole('textbox', { name: 'Giovedì' })).toBeInTheDocument()
+    expect(screen.getByRole('textbox', { name: 'Venerdì' })).toBeInTheDocument()
+    expect(screen.getByRole('textbox', { name: 'Sabato' })).toBeInTheDocument()
+    expect(
+      screen.getByRole('textbox', { name: 'Domenica' }),
+    ).toBeInTheDocument()
+    expect(
+      screen.getByRole('textbox', { name: 'Festività' }),
+    ).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'F2' })).toBeInTheDocument()
   })
 
   it('shows dispatching section for electricity market', () => {
@@ -34,6 +34,7 @@ import {
   DISPATCHING_TYPES,
   ENERGY_PRICE_INDEX_LABELS,
   ENERGY_PRICE_INDICES,
+  isSimulableOffer,
   MARKET_TYPES,
   OFFER_TYPES,
   requiresEnergyPriceReference,
@@ -41,6 +42,9 @@ import {
   TIME_BAND_CONFIGURATION_LABELS,
   TIME_BAND_CONFIGURATIONS,
 } from '@/lib/xml-generator/constants'
+import { TIME_BAND_DAYS } from '@/lib/xml-generator/time-band-grid'
+import { PriceIndexHistoryCard } from '../price-index-history-card'
+import { WeeklyTimeBandEditor } from '../weekly-time-band-editor'
 import { PricingConfigSkeleton } from './skeletons/pricing-config-skeleton'
 
 interface PricingConfigStepProps {
@@ -74,9 +78,14 @@ export function PricingConfigStepComponent({
   // Check if energy price reference is required
   const showEnergyPriceReference = requiresEnergyPriceReference(offerType)
 
+  // Non-simulable offers leave out bands and dispatching (FR-5.8)
+  const isSimulable = isSimulableOffer(offerDetails?.offerMode as string)
+
   // Check if time band configuration is required (electricity market and not FLAT)
   const showTimeBandConfiguration =
-    marketType === MARKET_TYPES.ELECTRICITY && offerType !== OFFER_TYPES.FLAT
+    isSimulable &&
+    marketType === MARKET_TYPES.ELECTRICITY &&
+    offerType !== OFFER_TYPES.FLAT
 
   // Check if weekly time bands are required
   const showWeeklyTimeBands =
@@ -85,7 +94,7 @@ export function PricingConfigStepComponent({
     requiresWeeklyTimeBands(timeBandConfiguration)
 
   // Check if dispatching is required (electricity market)
-  const showDispatching = marketType === MARKET_TYPES.ELECTRICITY
+  const showDispatching = isSimulable && marketType === MARKET_TYPES.ELECTRICITY
 
   const addDispatchingComponent = () => {
     appendDispatching({
@@ -107,6 +116,13 @@ export function PricingConfigStepComponent({
           </p>
         </div>
 
+        {!isSimulable && (
+          <p className="rounded-md bg-blue-50 p-3 text-blue-800 text-sm">
+            Offerta non simulabile: fasce orarie e dispacciamento non vengono
+            trasmessi
+          </p>
+        )}
+
         {/* Energy Price References */}
         {showEnergyPriceReference && (
           <Card>
@@ -173,6 +189,18 @@ export function PricingConfigStepComponent({
           </Card>
         )}
 
+        {showEnergyPriceReference && (
+          <PriceIndexHistoryCard
+            formStates={{
+              ...formStates,
+              pricingConfig: {
+                ...formStates.pricingConfig,
+                energyPriceIndex: watch('energyPriceIndex'),
+              },
+            }}
+          />
+        )}
+
         {/* Time Band Configuration */}
         {showTimeBandConfiguration && (
           <Card>
@@ -228,21 +256,16 @@ export function PricingConfigStepComponent({
                     </p>
                   </div>
 
+                  <WeeklyTimeBandEditor
+                    timeBandConfiguration={timeBandConfiguration}
+                  />
+
                   <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
-                    {[
-                      { name: 'monday', label: 'Lunedì' },
-                      { name: 'tuesday', label: 'Martedì' },
-                      { name: 'wednesday', label: 'Mercoledì' },
-                      { name: 'thursday', label: 'Giovedì' },
-                      { name: 'friday', label: 'Venerdì' },
-                      { name: 'saturday', label: 'Sabato' },
-                      { name: 'sunday', label: 'Domenica' },
-                      { name: 'holidays', label: 'Festività' },
-                    ].map((day) => (
+                    {TIME_BAND_DAYS.map((day) => (
                       <FormField
                         control={control}
-                        key={day.name}
-                        name={`weeklyTimeBands.${day.name}`}
+                        key={day.key}
+                        name={`weeklyTimeBands.${day.key}`}
                         render={({ field }) => (
                           <FormItem>
                             <FormLabel>{day.label}</FormLabel>
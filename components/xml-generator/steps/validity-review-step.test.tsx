@@ -4,15 +4,41 @@ import userEvent from '@testing-library/user-event'
 import { FormProvider, useForm } from 'react-hook-form'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import { useFormStates } from '@/hooks/use-form-states'
+import { useWorkspaceOfferId } from '@/hooks/use-workspace-offer-id'
+import { recordOfferSnapshot } from '@/lib/xml-generator/offer-history'
+import { recordWorkspaceOfferExport } from '@/lib/xml-generator/offer-workspace'
 import {
   type ValidityReviewFormValues,
   validityReviewSchema,
 } from '@/lib/xml-generator/schemas'
+import {
+  downloadXML,
+  generateXMLFilename,
+} from '@/lib/xml-generator/xml-builder'
+import { validateXSD } from '@/lib/xml-generator/xsd-validator'
 import { ValidityReviewStepComponent as ValidityReviewStep } from './validity-review-step'
 
 // Mock useFormStates hook
 vi.mock('@/hooks/use-form-states')
 
+vi.mock('@/hooks/use-workspace-offer-id', () => ({
+  useWorkspaceOfferId: vi.fn().mockReturnValue([null, vi.fn()]),
+}))
+
+vi.mock('@/lib/xml-generator/offer-workspace', async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import('@/lib/xml-generator/offer-workspace')
+  >()),
+  recordWorkspaceOfferExport: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('@/lib/xml-generator/offer-history', async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import('@/lib/xml-generator/offer-history')
+  >()),
+  recordOfferSnapshot: vi.fn().mockResolvedValue(undefined),
+}))
+
 // Mock XML builder functions
 vi.mock('@/lib/xml-generator/xml-builder', () => ({
   buildXML: vi.fn().mockReturnValue('<xml>Test XML Content</xml>'),
@@ -20,6 +46,15 @@ vi.mock('@/lib/xml-generator/xml-builder', () => ({
   generateXMLFilename: vi
     .fn()
     .mockImplementation((piva, desc) => `${piva}_INSERIMENTO_${desc}.XML`),
+  PLACEHOLDER_PIVA_UTENTE: 'IT00000000000',
+}))
+
+// Mock XSD validator, valid unless a test says otherwise
+vi.mock('@/lib/xml-generator/xsd-validator', async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import('@/lib/xml-generator/xsd-validator')
+  >()),
+  validateXSD: vi.fn().mockReturnValue({ isValid: true, errors: [] }),
 }))
 
 // Mock react-syntax-highlighter
@@ -53,6 +88,12 @@ const GENERATE_PREVIEW_REGEX = /genera anteprima xml/i
 const XML_FILE_PREVIEW_REGEX = /anteprima del file xml/i
 const HIDE_REGEX = /nascondi/i
 const DOWNLOAD_XML_REGEX = /scarica xml/i
+const ANNUAL_COST_REGEX = /Spesa Annua Stimata/i
+const ANNUAL_TOTAL_REGEX = /^50,00\s€$/
+const MISSING_DISPATCHING_VALUE_REGEX =
+  /valore di dispacciamento non specificato/
+const XSD_SUMMARY_REGEX = /Schema XSD: Trovati 1 errore/
+const NON_SIMULABLE_COST_REGEX = /il Portale Offerte non stima la spesa annua/
 
 // Mock form data for testing
 const mockFormData = {
@@ -166,6 +207,7 @@ describe('ValidityReviewStep', () => {
   beforeEach(() => {
     // Mock useFormStates to return mock data
     vi.mocked(useFormStates).mockReturnValue([mockFormData, vi.fn()])
+    vi.mocked(validateXSD).mockReturnValue({ isValid: true, errors: [] })
   })
 
   it('renders the component with all sections', () => {
@@ -222,11 +264,125 @@ describe('ValidityReviewStep', () => {
 
     // Check that form data is displayed
     expect(screen.getByText('IT12345678901')).toBeInTheDocument()
-    expect(screen.getByText('TESTOFFERTA123')).toBeInTheDocument()
+    // The code is also listed as a joint offer of the Dual Fuel bundle
+    expect(screen.getAllByText('TESTOFFERTA123')).toHaveLength(2)
     expect(screen.getByText('Test Offer')).toBeInTheDocument()
     expect(screen.getByText('+39123456789')).toBeInTheDocument()
   })
 
+  it('shows the action and the file name in the summary', () => {
+    vi.mocked(useFormStates).mockReturnValue([
+      {
+        ...mockFormData,
+        basicInfo: {
+          ...mockFormData.basicInfo,
+          action: 'AGGIORNAMENTO' as const,
+          existingOfferConfirmed: true,
+        },
+      },
+      vi.fn(),
+    ])
+
+    render(
+      <TestWrapper>
+        <ValidityReviewStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.getByText('AGGIORNAMENTO')).toBeInTheDocument()
+    expect(generateXMLFilename).toHaveBeenCalledWith(
+      'IT12345678901',
+      'Test Offer',
+      'AGGIORNAMENTO',
+    )
+  })
+
+  it('shows the target version of the specification', () => {
+    vi.mocked(useFormStates).mockReturnValue([
+      {
+        ...mockFormData,
+        basicInfo: { ...mockFormData.basicInfo, specVersion: '4.5' },
+      },
+      vi.fn(),
+    ])
+
+    render(
+      <TestWrapper>
+        <ValidityReviewStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.getByText('Specifiche SII:')).toBeInTheDocument()
+    expect(
+      screen.getByText('Trasmissione Offerte 4.5 (6 dicembre 2023)'),
+    ).toBeInTheDocument()
+  })
+
+  it('shows the names of the offer zones next to their codes', () => {
+    vi.mocked(useFormStates).mockReturnValue([
+      {
+        ...mockFormData,
+        additionalFeatures: {
+          ...mockFormData.additionalFeatures,
+          zoneOffers: { regions: ['03'], municipalities: ['058091'] },
+        },
+      },
+      vi.fn(),
+    ])
+
+    render(
+      <TestWrapper>
+        <ValidityReviewStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.getByText("Zone dell'Offerta")).toBeInTheDocument()
+    expect(screen.getByText('03 Lombardia')).toBeInTheDocument()
+    expect(screen.getByText('058091 Roma')).toBeInTheDocument()
+  })
+
+  it('shows the estimated annual cost for the standard profiles', () => {
+    render(
+      <TestWrapper>
+        <ValidityReviewStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.getByText(ANNUAL_COST_REGEX)).toBeInTheDocument()
+    expect(screen.getByText('1500 kWh')).toBeInTheDocument()
+    expect(screen.getByText('4000 kWh')).toBeInTheDocument()
+    // 100 €/year component minus a 50 €/year discount on every profile
+    expect(screen.getAllByText(ANNUAL_TOTAL_REGEX)).toHaveLength(3)
+    expect(
+      screen.getByText(MISSING_DISPATCHING_VALUE_REGEX),
+    ).toBeInTheDocument()
+  })
+
+  it('shows the offer mode and skips the estimate of non-simulable offers', () => {
+    vi.mocked(useFormStates).mockReturnValue([
+      {
+        ...mockFormData,
+        offerDetails: {
+          ...mockFormData.offerDetails,
+          offerMode: 'NON_SIMULABILE' as const,
+        },
+      },
+      vi.fn(),
+    ])
+
+    render(
+      <TestWrapper>
+        <ValidityReviewStep />
+      </TestWrapper>,
+    )
+
+    expect(screen.getByText('Modalità Offerta:')).toBeInTheDocument()
+    expect(screen.getByText('Non simulabile')).toBeInTheDocument()
+    expect(screen.getByText(NON_SIMULABLE_COST_REGEX)).toBeInTheDocument()
+    expect(screen.queryByText('1500 kWh')).not.toBeInTheDocument()
+    expect(screen.getAllByText('Non trasmesso')).toHaveLength(3)
+  })
+
   it('renders review confirmation checkbox', () => {
     render(
       <TestWrapper>
@@ -303,7 +459,7 @@ describe('ValidityReviewStep', () => {
     expect(textarea).toHaveValue('Test notes')
   })
 
-  it('displays "Non specificata" for missing basic info', () => {
+  it('displays "Non specificato" for missing summary fields', () => {
     const emptyMockData = {
       basicInfo: {},
       offerDetails: {},
@@ -327,8 +483,8 @@ describe('ValidityReviewStep', () => {
       </TestWrapper>,
     )
 
-    expect(screen.getAllByText('Non specificata')).toHaveLength(2)
-    expect(screen.getAllByText('Non specificato')).toHaveLength(5)
+    // 2 basic info fields, 5 offer details and 4 activation and contacts
+    expect(screen.getAllByText('Non specificato')).toHaveLength(11)
   })
 
   it('calculates completion percentage correctly for empty data', () => {
@@ -408,7 +564,8 @@ describe('ValidityReviewStep', () => {
     )
 
     // Should not crash and show default values
-    expect(screen.getAllByText('Non specificata')).toHaveLength(2)
+    expect(screen.getAllByText('Non specificato')).toHaveLength(11)
+    expect(screen.getAllByText('Configurato')).toHaveLength(4)
   })
 
   it('shows component counts in summary cards', () => {
@@ -622,4 +779,88 @@ describe('ValidityReviewStep', () => {
       screen.queryByRole('button', { name: DOWNLOAD_XML_REGEX }),
     ).not.toBeInTheDocument()
   })
+
+  it('scarica il file XML quando supera la validazione XSD', async () => {
+    const user = userEvent.setup()
+
+    render(
+      <TestWrapper>
+        <ValidityReviewStep />
+      </TestWrapper>,
+    )
+
+    await user.click(
+      screen.getByRole('button', { name: GENERATE_PREVIEW_REGEX }),
+    )
+    await user.click(screen.getByRole('button', { name: DOWNLOAD_XML_REGEX }))
+
+    expect(validateXSD).toHaveBeenCalledWith(
+      '<xml>Test XML Content</xml>',
+      expect.anything(),
+    )
+    expect(downloadXML).toHaveBeenCalled()
+  })
+
+  it("registra l'esportazione nella cronologia anche se lo stato non si aggiorna", async () => {
+    const user = userEvent.setup()
+    vi.mocked(useWorkspaceOfferId).mockReturnValue([
+      'offer-1',
+      vi.fn(),
+    ] as unknown as ReturnType<typeof useWorkspaceOfferId>)
+    vi.mocked(recordWorkspaceOfferExport).mockRejectedValueOnce(
+      new Error('Offerta non trovata'),
+    )
+
+    render(
+      <TestWrapper>
+        <ValidityReviewStep />
+      </TestWrapper>,
+    )
+
+    await user.click(
+      screen.getByRole('button', { name: GENERATE_PREVIEW_REGEX }),
+    )
+    await user.click(screen.getByRole('button', { name: DOWNLOAD_XML_REGEX }))
+
+    expect(recordWorkspaceOfferExport).toHaveBeenCalledWith('offer-1')
+    expect(recordOfferSnapshot).toHaveBeenCalledWith(
+      'offer-1',
+      mockFormData,
+      'export',
+    )
+  })
+
+  it('blocca il download se la validazione XSD fallisce', async () => {
+    const user = userEvent.setup()
+    vi.mocked(downloadXML).mockClear()
+    vi.mocked(validateXSD).mockReturnValue({
+      isValid: false,
+      errors: [
+        {
+          path: '/Offerta/IdentificativiOfferta/COD_OFFERTA',
+          message: 'Elemento obbligatorio mancante: COD_OFFERTA',
+          severity: 'error',
+        },
+      ],
+    })
+
+    render(
+      <TestWrapper>
+        <ValidityReviewStep />
+      </TestWrapper>,
+    )
+
+    await user.click(
+      screen.getByRole('button', { name: GENERATE_PREVIEW_REGEX }),
+    )
+
+    expect(screen.getByText(XSD_SUMMARY_REGEX)).toBeInTheDocument()
+    expect(
+      screen.getByText('/Offerta/IdentificativiOfferta/COD_OFFERTA'),
+    ).toBeInTheDocument()
+    expect(
+      screen.getByRole('button', { name: DOWNLOAD_XML_REGEX }),
+    ).toBeDisabled()
+    expect(downloadXML).not.toHaveBeenCalled()
+  })
 })
@@ -2,12 +2,14 @@
 
 import {
   AlertCircle,
+  Calculator,
   Calendar,
   CheckCircle2,
   Database,
   Download,
   Eye,
   FileText,
+  MapPin,
 } from 'lucide-react'
 import { Suspense, useState } from 'react'
 import { type UseFormReturn, useFormContext } from 'react-hook-form'
@@ -32,21 +34,65 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form'
-import { Input } from '@/components/ui/input'
 import { Separator } from '@/components/ui/separator'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
 import { Textarea } from '@/components/ui/textarea'
 import { useFormStates } from '@/hooks/use-form-states'
+import { useWorkspaceOfferId } from '@/hooks/use-workspace-offer-id'
 import {
-  CLIENT_TYPE_LABELS,
-  MARKET_TYPE_LABELS,
-  OFFER_TYPE_LABELS,
+  ACTION_TYPE_LABELS,
+  ACTION_TYPES,
+  isSimulableOffer,
+  OFFER_MODE_LABELS,
+  OFFER_MODES,
 } from '@/lib/xml-generator/constants'
+import { simulateAnnualCosts } from '@/lib/xml-generator/cost-simulator'
+import {
+  formatTerritory,
+  type TerritoryLevel,
+  ZONE_FIELDS,
+  type ZoneOffersInput,
+} from '@/lib/xml-generator/istat-territories'
+import { recordOfferSnapshot } from '@/lib/xml-generator/offer-history'
+import {
+  type OfferStepKey,
+  summarizeField,
+} from '@/lib/xml-generator/offer-mapping'
+import { recordWorkspaceOfferExport } from '@/lib/xml-generator/offer-workspace'
 import type { ValidityReviewFormValues } from '@/lib/xml-generator/schemas'
+import {
+  DEFAULT_END_TIME,
+  DEFAULT_START_TIME,
+} from '@/lib/xml-generator/sii-timestamp'
+import {
+  getSpecSchema,
+  resolveSpecVersion,
+} from '@/lib/xml-generator/spec-registry'
 import {
   buildXML,
   downloadXML,
   generateXMLFilename,
+  PLACEHOLDER_PIVA_UTENTE,
 } from '@/lib/xml-generator/xml-builder'
+import { toXMLFormData } from '@/lib/xml-generator/xml-form-data'
+import {
+  getValidationSummary,
+  type ValidationError,
+} from '@/lib/xml-generator/xml-validator'
+import { validateXSD } from '@/lib/xml-generator/xsd-validator'
+import { BatchGenerationCard } from '../batch-generation-card'
+import { DualBundleCard } from '../dual-bundle-card'
+import { OfferDiffCard } from '../offer-diff-card'
+import { PriceIndexHistoryCard } from '../price-index-history-card'
+import { SIIDateTimePicker } from '../sii-date-time-picker'
 import { ValidityReviewSkeleton } from './skeletons/validity-review-skeleton'
 
 // Helper function to get label from labels object
@@ -153,15 +199,16 @@ function ValidityPeriodCard({
               <FormItem>
                 <FormLabel>Data di Inizio *</FormLabel>
                 <FormControl>
-                  <Input
+                  <SIIDateTimePicker
                     {...field}
-                    className="font-mono"
+                    defaultTime={DEFAULT_START_TIME}
                     placeholder="gg/mm/aaaa"
+                    timeLabel="Ora di inizio"
                   />
                 </FormControl>
                 <FormDescription>
-                  Data di inizio validità dell&apos;offerta (formato:
-                  gg/mm/aaaa)
+                  Data e ora di inizio validità dell&apos;offerta (formato:
+                  gg/mm/aaaa, ora italiana, predefinita 00:00:00)
                 </FormDescription>
                 <FormMessage />
               </FormItem>
@@ -175,15 +222,16 @@ function ValidityPeriodCard({
               <FormItem>
                 <FormLabel>Data di Fine</FormLabel>
                 <FormControl>
-                  <Input
+                  <SIIDateTimePicker
                     {...field}
-                    className="font-mono"
+                    defaultTime={DEFAULT_END_TIME}
                     placeholder="gg/mm/aaaa (opzionale)"
+                    timeLabel="Ora di fine"
                   />
                 </FormControl>
                 <FormDescription>
-                  Data di fine validità dell&apos;offerta (lasciare vuoto per
-                  durata indeterminata)
+                  Data e ora di fine validità dell&apos;offerta (ora italiana,
+                  predefinita 23:59:59; lasciare vuoto per durata indeterminata)
                 </FormDescription>
                 <FormMessage />
               </FormItem>
@@ -195,11 +243,53 @@ function ValidityPeriodCard({
   )
 }
 
+// Helper function to build the file name of the XML to download
+const getXMLFilename = (formStates: FormStates) =>
+  generateXMLFilename(
+    formStates.basicInfo?.pivaUtente || PLACEHOLDER_PIVA_UTENTE,
+    formStates.offerDetails?.offerName || 'OFFERTA',
+    formStates.basicInfo?.action || ACTION_TYPES.INSERIMENTO,
+  )
+
+// Summary of the given step fields, with labels and values from the XML mapping
+function SummaryFields({
+  step,
+  values,
+  fields,
+  monospaceFields = [],
+}: {
+  step: OfferStepKey
+  values: Record<string, unknown> | null | undefined
+  fields: string[]
+  monospaceFields?: string[]
+}) {
+  return fields.map((field) => {
+    const item = summarizeField(step, field, values)
+    if (!item) {
+      return null
+    }
+    return (
+      <div key={field}>
+        <span className="font-medium text-gray-600">{item.label}:</span>
+        <p
+          className={monospaceFields.includes(field) ? 'font-mono' : undefined}
+        >
+          {item.value ?? 'Non specificato'}
+        </p>
+      </div>
+    )
+  })
+}
+
 function BasicInfoSection({
   basicInfo,
+  filename,
 }: {
   basicInfo: FormStates['basicInfo']
+  filename: string
 }) {
+  const action = basicInfo?.action || ACTION_TYPES.INSERIMENTO
+
   return (
     <div>
       <h4 className="mb-3 flex items-center gap-2 font-semibold text-gray-900">
@@ -207,17 +297,32 @@ function BasicInfoSection({
         Informazioni di Base
       </h4>
       <div className="grid grid-cols-1 gap-4 text-sm md:grid-cols-2">
+        <SummaryFields
+          fields={['pivaUtente', 'codOfferta']}
+          monospaceFields={['pivaUtente', 'codOfferta']}
+          step="basicInfo"
+          values={basicInfo}
+        />
         <div>
-          <span className="font-medium text-gray-600">PIVA Utente:</span>
-          <p className="font-mono">
-            {basicInfo?.pivaUtente || 'Non specificata'}
+          <span className="font-medium text-gray-600">Operazione:</span>
+          <p className="flex items-center gap-2">
+            <Badge
+              variant={
+                action === ACTION_TYPES.AGGIORNAMENTO ? 'default' : 'secondary'
+              }
+            >
+              {action}
+            </Badge>
+            {getLabelFromLabels(action, ACTION_TYPE_LABELS)}
           </p>
         </div>
         <div>
-          <span className="font-medium text-gray-600">Codice Offerta:</span>
-          <p className="font-mono">
-            {basicInfo?.codOfferta || 'Non specificato'}
-          </p>
+          <span className="font-medium text-gray-600">Nome File:</span>
+          <p className="break-all font-mono">{filename}</p>
+        </div>
+        <div>
+          <span className="font-medium text-gray-600">Specifiche SII:</span>
+          <p>{resolveSpecVersion(basicInfo?.specVersion).label}</p>
         </div>
       </div>
     </div>
@@ -229,38 +334,30 @@ function OfferDetailsSection({
 }: {
   offerDetails: FormStates['offerDetails']
 }) {
+  const offerMode = offerDetails?.offerMode || OFFER_MODES.SIMULABLE
+  const isSimulable = isSimulableOffer(offerMode)
+
   return (
     <div>
       <h4 className="mb-3 font-semibold text-gray-900">Dettagli Offerta</h4>
       <div className="grid grid-cols-1 gap-4 text-sm md:grid-cols-2 lg:grid-cols-3">
+        <SummaryFields
+          fields={[
+            'marketType',
+            'clientType',
+            'offerType',
+            'offerName',
+            'duration',
+          ]}
+          step="offerDetails"
+          values={offerDetails}
+        />
         <div>
-          <span className="font-medium text-gray-600">Tipo Mercato:</span>
-          <p>
-            {getLabelFromLabels(offerDetails?.marketType, MARKET_TYPE_LABELS)}
-          </p>
-        </div>
-        <div>
-          <span className="font-medium text-gray-600">Tipo Cliente:</span>
-          <p>
-            {getLabelFromLabels(offerDetails?.clientType, CLIENT_TYPE_LABELS)}
-          </p>
-        </div>
-        <div>
-          <span className="font-medium text-gray-600">Tipo Offerta:</span>
-          <p>
-            {getLabelFromLabels(offerDetails?.offerType, OFFER_TYPE_LABELS)}
-          </p>
-        </div>
-        <div>
-          <span className="font-medium text-gray-600">Nome Offerta:</span>
-          <p>{offerDetails?.offerName || 'Non specificato'}</p>
-        </div>
-        <div>
-          <span className="font-medium text-gray-600">Durata:</span>
+          <span className="font-medium text-gray-600">Modalità Offerta:</span>
           <p>
-            {offerDetails?.duration
-              ? `${offerDetails?.duration} mesi`
-              : 'Non specificata'}
+            <Badge variant={isSimulable ? 'secondary' : 'outline'}>
+              {OFFER_MODE_LABELS[offerMode]}
+            </Badge>
           </p>
         </div>
       </div>
@@ -279,84 +376,111 @@ function ActivationContactsSection({
         Attivazione e Contatti
       </h4>
       <div className="grid grid-cols-1 gap-4 text-sm md:grid-cols-2">
-        <div>
-          <span className="font-medium text-gray-600">
-            Metodi di Attivazione:
-          </span>
-          <p>
-            {activationContacts?.activationMethods &&
-            activationContacts?.activationMethods?.length > 0
-              ? `${activationContacts?.activationMethods?.length} metodi selezionati`
-              : 'Nessuno'}
-          </p>
-        </div>
-        <div>
-          <span className="font-medium text-gray-600">Telefono:</span>
-          <p className="font-mono">
-            {activationContacts?.phone || 'Non specificato'}
-          </p>
-        </div>
-        <div>
-          <span className="font-medium text-gray-600">Sito Venditore:</span>
-          <p>{activationContacts?.vendorWebsite || 'Non specificato'}</p>
-        </div>
-        <div>
-          <span className="font-medium text-gray-600">URL Offerta:</span>
-          <p>{activationContacts?.offerUrl || 'Non specificato'}</p>
-        </div>
+        <SummaryFields
+          fields={['activationMethods', 'phone', 'vendorWebsite', 'offerUrl']}
+          monospaceFields={['phone']}
+          step="activationContacts"
+          values={activationContacts}
+        />
       </div>
     </div>
   )
 }
 
-function AdditionalSectionsGrid({
-  pricingConfig,
-  companyComponents,
-  paymentConditions,
-  additionalFeatures,
+const ZONE_SUMMARY_ROWS: {
+  label: string
+  level: TerritoryLevel
+}[] = [
+  { label: 'Regioni', level: 'region' },
+  { label: 'Province', level: 'province' },
+  { label: 'Comuni', level: 'municipality' },
+]
+
+// ISTAT codes of ZoneOfferta with the names of the territories
+function ZoneOffersSummary({
+  zoneOffers,
 }: {
-  pricingConfig: FormStates['pricingConfig']
-  companyComponents: FormStates['companyComponents']
-  paymentConditions: FormStates['paymentConditions']
-  additionalFeatures: FormStates['additionalFeatures']
+  zoneOffers: ZoneOffersInput | undefined
 }) {
+  const rows = ZONE_SUMMARY_ROWS.map((row) => ({
+    ...row,
+    codes: zoneOffers?.[ZONE_FIELDS[row.level]]?.filter(Boolean) ?? [],
+  })).filter((row) => row.codes.length > 0)
+
+  if (rows.length === 0) {
+    return null
+  }
+
   return (
-    <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
-      <div className="rounded-lg bg-gray-50 p-3 text-center">
-        <h5 className="mb-1 font-medium text-gray-900">Prezzi</h5>
-        <p className="text-gray-600 text-sm">
-          {pricingConfig?.dispatching && pricingConfig?.dispatching?.length > 0
-            ? `${pricingConfig?.dispatching?.length} componenti`
-            : 'Configurato'}
-        </p>
-      </div>
-      <div className="rounded-lg bg-gray-50 p-3 text-center">
-        <h5 className="mb-1 font-medium text-gray-900">Componenti</h5>
-        <p className="text-gray-600 text-sm">
-          {companyComponents?.companyComponents &&
-          companyComponents?.companyComponents?.length > 0
-            ? `${companyComponents?.companyComponents?.length} componenti`
-            : 'Configurato'}
-        </p>
-      </div>
-      <div className="rounded-lg bg-gray-50 p-3 text-center">
-        <h5 className="mb-1 font-medium text-gray-900">Pagamenti</h5>
-        <p className="text-gray-600 text-sm">
-          {paymentConditions?.paymentMethods &&
-          paymentConditions?.paymentMethods?.length > 0
-            ? `${paymentConditions?.paymentMethods?.length} metodi`
-            : 'Configurato'}
-        </p>
-      </div>
-      <div className="rounded-lg bg-gray-50 p-3 text-center">
-        <h5 className="mb-1 font-medium text-gray-900">Funzionalità</h5>
-        <p className="text-gray-600 text-sm">
-          {additionalFeatures?.discounts &&
-          additionalFeatures?.discounts?.length > 0
-            ? `${additionalFeatures?.discounts?.length} sconti`
-            : 'Configurato'}
-        </p>
+    <>
+      <div>
+        <h4 className="mb-3 flex items-center gap-2 font-semibold text-gray-900">
+          <MapPin className="h-4 w-4" />
+          Zone dell&apos;Offerta
+        </h4>
+        <div className="grid grid-cols-1 gap-4 text-sm md:grid-cols-3">
+          {rows.map(({ label, level, codes }) => (
+            <div key={level}>
+              <span className="font-medium text-gray-600">{label}:</span>
+              <ul>
+                {codes.map((code) => (
+                  <li key={code}>{formatTerritory(level, code)}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
       </div>
+      <Separator />
+    </>
+  )
+}
+
+// Step fields counted in the grid of the other sections
+const ADDITIONAL_SECTIONS: {
+  title: string
+  step: OfferStepKey
+  field: string
+  // Left out of non-simulable offers (FR-5.8)
+  simulableOnly?: boolean
+}[] = [
+  {
+    title: 'Prezzi',
+    step: 'pricingConfig',
+    field: 'dispatching',
+    simulableOnly: true,
+  },
+  {
+    title: 'Componenti',
+    step: 'companyComponents',
+    field: 'companyComponents',
+    simulableOnly: true,
+  },
+  { title: 'Pagamenti', step: 'paymentConditions', field: 'paymentMethods' },
+  {
+    title: 'Funzionalità',
+    step: 'additionalFeatures',
+    field: 'discounts',
+    simulableOnly: true,
+  },
+]
+
+function AdditionalSectionsGrid({ formStates }: { formStates: FormStates }) {
+  const isSimulable = isSimulableOffer(formStates.offerDetails?.offerMode)
+
+  return (
+    <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
+      {ADDITIONAL_SECTIONS.map(({ title, step, field, simulableOnly }) => (
+        <div className="rounded-lg bg-gray-50 p-3 text-center" key={step}>
+          <h5 className="mb-1 font-medium text-gray-900">{title}</h5>
+          <p className="text-gray-600 text-sm">
+            {simulableOnly && !isSimulable
+              ? 'Non trasmesso'
+              : (summarizeField(step, field, formStates[step])?.value ??
+                'Configurato')}
+          </p>
+        </div>
+      ))}
     </div>
   )
 }
@@ -365,10 +489,6 @@ function FormSummaryCard({ formStates }: { formStates: FormStates }) {
   const basicInfo = formStates.basicInfo || {}
   const offerDetails = formStates.offerDetails || {}
   const activationContacts = formStates.activationContacts || {}
-  const pricingConfig = formStates.pricingConfig || {}
-  const companyComponents = formStates.companyComponents || {}
-  const paymentConditions = formStates.paymentConditions || {}
-  const additionalFeatures = formStates.additionalFeatures || {}
 
   return (
     <Card>
@@ -382,18 +502,127 @@ function FormSummaryCard({ formStates }: { formStates: FormStates }) {
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
-        <BasicInfoSection basicInfo={basicInfo} />
+        <BasicInfoSection
+          basicInfo={basicInfo}
+          filename={getXMLFilename(formStates)}
+        />
         <Separator />
         <OfferDetailsSection offerDetails={offerDetails} />
         <Separator />
         <ActivationContactsSection activationContacts={activationContacts} />
         <Separator />
-        <AdditionalSectionsGrid
-          additionalFeatures={additionalFeatures}
-          companyComponents={companyComponents}
-          paymentConditions={paymentConditions}
-          pricingConfig={pricingConfig}
+        <ZoneOffersSummary
+          zoneOffers={formStates.additionalFeatures?.zoneOffers}
         />
+        <AdditionalSectionsGrid formStates={formStates} />
+      </CardContent>
+    </Card>
+  )
+}
+
+const euroFormatter = new Intl.NumberFormat('it-IT', {
+  style: 'currency',
+  currency: 'EUR',
+})
+
+const COST_ITEM_TYPE_LABELS: Record<string, string> = {
+  component: 'Componente',
+  dispatching: 'Dispacciamento',
+  discount: 'Sconto',
+}
+
+function AnnualCostCard({ formStates }: { formStates: FormStates }) {
+  const isSimulable = isSimulableOffer(formStates.offerDetails?.offerMode)
+  // The Portale Offerte does not estimate the cost of non-simulable offers
+  const estimates = isSimulable ? simulateAnnualCosts(formStates) : []
+  // Every profile lists the same items in the same order
+  const items = estimates[0]?.items ?? []
+  const notes = [...new Set(estimates.flatMap((estimate) => estimate.notes))]
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calculator className="h-5 w-5 text-blue-600" />
+          Spesa Annua Stimata
+        </CardTitle>
+        <CardDescription>
+          Stima per i profili di consumo standard del Portale Offerte, esclusi
+          oneri di sistema, trasporto e imposte
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {estimates.length === 0 ? (
+          <p className="text-gray-600 text-sm">
+            {isSimulable
+              ? 'Seleziona il tipo di mercato per calcolare la spesa annua stimata'
+              : 'Offerta non simulabile: il Portale Offerte non stima la spesa annua'}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Voce</TableHead>
+                {estimates.map((estimate) => (
+                  <TableHead
+                    className="text-right"
+                    key={estimate.profile.label}
+                  >
+                    {estimate.profile.label}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item, index) => (
+                <TableRow key={`${item.type}-${item.name}-${index}`}>
+                  <TableCell>
+                    <span className="text-gray-600">
+                      {COST_ITEM_TYPE_LABELS[item.type]}:
+                    </span>{' '}
+                    {item.name}
+                    {item.included ? null : (
+                      <Badge className="ml-2" variant="outline">
+                        Opzionale, esclusa dal totale
+                      </Badge>
+                    )}
+                  </TableCell>
+                  {estimates.map((estimate) => (
+                    <TableCell
+                      className="text-right font-mono"
+                      key={estimate.profile.label}
+                    >
+                      {euroFormatter.format(estimate.items[index].amount)}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell className="font-semibold">Totale annuo</TableCell>
+                {estimates.map((estimate) => (
+                  <TableCell
+                    className="text-right font-mono font-semibold"
+                    key={estimate.profile.label}
+                  >
+                    {euroFormatter.format(estimate.total)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+        {notes.length > 0 ? (
+          <ul className="space-y-1 text-amber-700 text-sm">
+            {notes.map((note) => (
+              <li className="flex items-start gap-2" key={note}>
+                <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                {note}
+              </li>
+            ))}
+          </ul>
+        ) : null}
       </CardContent>
     </Card>
   )
@@ -467,217 +696,18 @@ function ReviewConfirmationCard({
 }
 
 function XmlPreviewCard({ formStates }: { formStates: FormStates }) {
+  const [offerId] = useWorkspaceOfferId()
   const [showPreview, setShowPreview] = useState(false)
   const [xmlContent, setXmlContent] = useState<string>('')
   const [error, setError] = useState<string | null>(null)
-
-  // Helper functions to transform form sections
-  const transformBasicInfo = (basicInfo: FormStates['basicInfo']) => ({
-    pivaUtente: basicInfo?.pivaUtente || '',
-    codOfferta: basicInfo?.codOfferta || '',
-  })
-
-  const transformOfferDetails = (offerDetails: FormStates['offerDetails']) => ({
-    tipoMercato: offerDetails?.marketType || '',
-    offertaSingola: offerDetails?.singleOffer,
-    tipoCliente: offerDetails?.clientType || '',
-    domesticoResidente: offerDetails?.residentialStatus,
-    tipoOfferta: offerDetails?.offerType || '',
-    tipologiaAttContr: offerDetails?.contractActivationTypes || [],
-    nomeOfferta: offerDetails?.offerName || '',
-    descrizione: offerDetails?.offerDescription || '',
-    durata: offerDetails?.duration || 0,
-    garanzie: offerDetails?.guarantees || '',
-  })
-
-  const transformActivationContacts = (
-    activationContacts: FormStates['activationContacts'],
-  ) => ({
-    modalita: activationContacts?.activationMethods || [],
-    descrizioneModalita: activationContacts?.activationDescription,
-    telefono: activationContacts?.phone || '',
-    urlSitoVenditore: activationContacts?.vendorWebsite,
-    urlOfferta: activationContacts?.offerUrl,
-  })
-
-  const transformPricingConfig = (
-    pricingConfig: FormStates['pricingConfig'],
-  ) => ({
-    riferimentiPrezzoEnergia: pricingConfig?.energyPriceIndex
-      ? {
-          idxPrezzoEnergia: pricingConfig.energyPriceIndex || '',
-          altro: pricingConfig.alternativeIndexDescription,
-        }
-      : undefined,
-    tipoPrezzo: pricingConfig?.timeBandConfiguration
-      ? {
-          tipologiaFasce: pricingConfig.timeBandConfiguration || '',
-        }
-      : undefined,
-    fasceOrarieSettimanale: pricingConfig?.weeklyTimeBands
-      ? {
-          fLunedi: pricingConfig.weeklyTimeBands.monday,
-          fMartedi: pricingConfig.weeklyTimeBands.tuesday,
-          fMercoledi: pricingConfig.weeklyTimeBands.wednesday,
-          fGiovedi: pricingConfig.weeklyTimeBands.thursday,
-          fVenerdi: pricingConfig.weeklyTimeBands.friday,
-          fSabato: pricingConfig.weeklyTimeBands.saturday,
-          fDomenica: pricingConfig.weeklyTimeBands.sunday,
-          fFestivita: pricingConfig.weeklyTimeBands.holidays,
-        }
-      : undefined,
-    dispacciamento: pricingConfig?.dispatching?.map((disp) => ({
-      tipoDispacciamento: disp.dispatchingType,
-      valoreDisp: disp.dispatchingValue,
-      nome: disp.componentName,
-      descrizione: disp.componentDescription,
-    })),
-  })
-
-  const transformCompanyComponents = (
-    companyComponents: FormStates['companyComponents'],
-  ) => ({
-    componentiRegolate: companyComponents?.regulatedComponents
-      ? {
-          codice: companyComponents.regulatedComponents || [],
-        }
-      : undefined,
-    componenteImpresa: companyComponents?.companyComponents?.map((comp) => ({
-      nome: comp.name,
-      descrizione: comp.description,
-      tipologia: comp.componentType as string,
-      macroArea: comp.macroArea as string,
-      intervalloPrezzi:
-        comp.priceIntervals?.map((interval) => ({
-          fasciaComponente: interval.componentTimeBand as string | undefined,
-          consumoDa: interval.consumptionFrom,
-          consumoA: interval.consumptionTo,
-          prezzo: interval.price,
-          unitaMisura: interval.unitOfMeasure as string,
-          periodoValidita: interval.validityPeriod
-            ? {
-                durata: undefined,
-                validoFino: interval.validityPeriod.toDate,
-                meseValidita: undefined,
-              }
-            : undefined,
-        })) || [],
-    })),
-  })
-
-  const transformPaymentConditions = (
-    paymentConditions: FormStates['paymentConditions'],
-  ) => ({
-    metodoPagamento:
-      paymentConditions?.paymentMethods?.map((method) => ({
-        modalitaPagamento: method.paymentMethodType,
-        descrizione: method.description,
-      })) || [],
-    condizioniContrattuali: paymentConditions?.contractualConditions?.map(
-      (cond) => ({
-        tipologiaCondizione: cond.conditionType,
-        altro: cond.alternativeDescription,
-        descrizione: cond.description,
-        limitante: cond.isLimiting,
-      }),
-    ),
-  })
-
-  const transformAdditionalFeatures = (
-    additionalFeatures: FormStates['additionalFeatures'],
-  ) => ({
-    caratteristicheOfferta: additionalFeatures?.offerCharacteristics
-      ? {
-          consumoMin: additionalFeatures.offerCharacteristics.consumptionMin,
-          consumoMax: additionalFeatures.offerCharacteristics.consumptionMax,
-          potenzaMin: additionalFeatures.offerCharacteristics.powerMin,
-          potenzaMax: additionalFeatures.offerCharacteristics.powerMax,
-        }
-      : undefined,
-    offertaDUAL: additionalFeatures?.dualOffer
-      ? {
-          offerteCongiungeEE:
-            additionalFeatures.dualOffer.electricityJointOffers || [],
-          offerteCongiungeGas:
-            additionalFeatures.dualOffer.gasJointOffers || [],
-        }
-      : undefined,
-    zoneOfferta: additionalFeatures?.zoneOffers
-      ? {
-          regione: additionalFeatures.zoneOffers.regions,
-          provincia: additionalFeatures.zoneOffers.provinces,
-          comune: additionalFeatures.zoneOffers.municipalities,
-        }
-      : undefined,
-    sconto: additionalFeatures?.discounts?.map((discount) => ({
-      nome: discount.name,
-      descrizione: discount.description,
-      codiceComponenteFascia: discount.componentBandCodes as
-        | string[]
-        | undefined,
-      validita: discount.validity,
-      ivaSconto: discount.vatApplicability,
-      periodoValidita: discount.validityPeriod
-        ? {
-            durata: discount.validityPeriod.duration,
-            validoFino: discount.validityPeriod.validUntil,
-            meseValidita: discount.validityPeriod.validMonths as
-              | string[]
-              | undefined,
-          }
-        : undefined,
-      scontoCondizione: {
-        condizioneApplicazione: discount.condition.applicationCondition,
-        descrizioneCondizione: discount.condition.conditionDescription,
-      },
-      prezziSconto:
-        discount.discountPrices?.map((price) => ({
-          tipologia: price.discountType,
-          validoDa: price.validFrom,
-          validoFino: price.validTo,
-          unitaMisura: price.unitOfMeasure,
-          prezzo: price.price,
-        })) || [],
-    })),
-    prodottiServiziAggiuntivi: additionalFeatures?.additionalProducts?.map(
-      (prod) => ({
-        nome: prod.name,
-        dettaglio: prod.details,
-        macroArea: prod.macroArea,
-        dettagliMacroArea: prod.macroAreaDetails,
-      }),
-    ),
-  })
+  const [xsdErrors, setXsdErrors] = useState<ValidationError[]>([])
+  const spec = resolveSpecVersion(formStates.basicInfo?.specVersion)
 
   const handleGeneratePreview = () => {
     try {
-      const formData = {
-        basicInfo: transformBasicInfo(formStates.basicInfo),
-        offerDetails: transformOfferDetails(formStates.offerDetails),
-        activationContacts: transformActivationContacts(
-          formStates.activationContacts,
-        ),
-        pricingConfig: transformPricingConfig(formStates.pricingConfig),
-        companyComponents: transformCompanyComponents(
-          formStates.companyComponents,
-        ),
-        paymentConditions: transformPaymentConditions(
-          formStates.paymentConditions,
-        ),
-        additionalFeatures: transformAdditionalFeatures(
-          formStates.additionalFeatures,
-        ),
-        validityReview: {
-          validitaOfferta: {
-            dataInizio:
-              formStates.validityReview?.validityPeriod?.startDate || '',
-            dataFine: formStates.validityReview?.validityPeriod?.endDate || '',
-          },
-        },
-      }
-
-      const xml = buildXML(formData)
+      const xml = buildXML(toXMLFormData(formStates), spec)
       setXmlContent(xml)
+      setXsdErrors(validateXSD(xml, getSpecSchema(spec)).errors)
       setError(null)
       setShowPreview(true)
     } catch {
@@ -687,13 +717,29 @@ function XmlPreviewCard({ formStates }: { formStates: FormStates }) {
 
   const handleDownload = () => {
     if (xmlContent) {
-      const filename = generateXMLFilename(
-        formStates.basicInfo?.pivaUtente || 'IT00000000000',
-        formStates.offerDetails?.offerName || 'OFFERTA',
-      )
+      // Never hand out a file the SII portal would reject
+      const validation = validateXSD(xmlContent, getSpecSchema(spec))
+      if (!validation.isValid) {
+        setXsdErrors(validation.errors)
+        toast.error('Download bloccato: XML non conforme allo schema XSD', {
+          description: getValidationSummary(validation.errors),
+        })
+        return
+      }
+
+      const filename = getXMLFilename(formStates)
       const result = downloadXML(xmlContent, filename)
 
       if (result.success) {
+        // Independent records, the audit entry must not depend on the status
+        if (offerId) {
+          recordWorkspaceOfferExport(offerId).catch(() => {
+            // The export status is informative, the file was downloaded anyway
+          })
+          recordOfferSnapshot(offerId, formStates, 'export').catch(() => {
+            // The history is best effort, as for the saves
+          })
+        }
         toast.success('File XML scaricato con successo', {
           description: `File salvato come ${filename}`,
         })
@@ -723,7 +769,12 @@ function XmlPreviewCard({ formStates }: { formStates: FormStates }) {
                 <Eye className="mr-2 h-4 w-4" />
                 Nascondi
               </Button>
-              <Button onClick={handleDownload} size="sm" variant="default">
+              <Button
+                disabled={xsdErrors.length > 0}
+                onClick={handleDownload}
+                size="sm"
+                variant="default"
+              >
                 <Download className="mr-2 h-4 w-4" />
                 Scarica XML
               </Button>
@@ -733,7 +784,30 @@ function XmlPreviewCard({ formStates }: { formStates: FormStates }) {
             Anteprima del file XML che verrà generato per l&apos;invio al SII
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {xsdErrors.length > 0 ? (
+            <div className="space-y-2" role="alert">
+              <p className="font-medium text-red-700 text-sm">
+                Schema XSD: {getValidationSummary(xsdErrors)}. Correggi i dati
+                prima di scaricare il file.
+              </p>
+              <ul className="max-h-64 space-y-2 overflow-auto text-sm">
+                {xsdErrors.map((xsdError, index) => (
+                  <li
+                    className="flex items-start gap-2 rounded-md bg-red-50 p-2 text-red-700"
+                    key={`${xsdError.path}-${index}`}
+                  >
+                    <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                    <span>
+                      <code className="text-xs">{xsdError.path}</code>
+                      <br />
+                      {xsdError.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
           <div className="relative max-h-[600px] overflow-auto rounded-lg border">
             <SyntaxHighlighter
               customStyle={{
@@ -801,8 +875,13 @@ export function ValidityReviewStepComponent() {
       <CompletionStatusCard formStates={formStates} />
       <ValidityPeriodCard form={form} />
       <FormSummaryCard formStates={formStates} />
+      <AnnualCostCard formStates={formStates} />
+      <PriceIndexHistoryCard formStates={formStates} />
       <ReviewConfirmationCard form={form} />
       <XmlPreviewCard formStates={formStates} />
+      <BatchGenerationCard formStates={formStates} />
+      <OfferDiffCard formStates={formStates} />
+      <DualBundleCard formStates={formStates} />
     </div>
   )
 }
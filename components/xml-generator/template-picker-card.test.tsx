@@ -0,0 +1,93 @@
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { FormProvider, useForm } from 'react-hook-form'
+import { toast } from 'sonner'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { useFormStates } from '@/hooks/use-form-states'
+import { BUILT_IN_TEMPLATES } from '@/lib/xml-generator/offer-templates'
+import type { BasicInfoFormValues } from '@/lib/xml-generator/schemas'
+import { TemplatePickerCard } from './template-picker-card'
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}))
+
+// Regex patterns for testing
+const SAVE_REGEX = /salva modello corrente/i
+
+const formStates = {
+  basicInfo: { pivaUtente: 'IT12345678901', codOfferta: 'LUCE01' },
+  offerDetails: { offerName: 'Luce Fissa' },
+}
+
+function TestWrapper({ children }: { children: React.ReactNode }) {
+  const form = useForm<BasicInfoFormValues>({
+    defaultValues: formStates.basicInfo,
+  })
+  return <FormProvider {...form}>{children}</FormProvider>
+}
+
+describe('TemplatePickerCard', () => {
+  const setFormStates = vi.fn()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    localStorage.clear()
+    vi.mocked(useFormStates).mockReturnValue([
+      formStates,
+      setFormStates,
+    ] as unknown as ReturnType<typeof useFormStates>)
+  })
+
+  it('applica un modello predefinito a tutti i passaggi', async () => {
+    const user = userEvent.setup()
+    const [template] = BUILT_IN_TEMPLATES
+    render(<TemplatePickerCard />, { wrapper: TestWrapper })
+
+    await user.click(
+      screen.getByLabelText(`Applica il modello ${template.name}`),
+    )
+
+    expect(setFormStates).toHaveBeenCalledWith(
+      expect.objectContaining({
+        basicInfo: { pivaUtente: 'IT12345678901' },
+        offerDetails: template.formStates.offerDetails,
+        validityReview: null,
+      }),
+    )
+    expect(toast.success).toHaveBeenCalled()
+  })
+
+  it('salva ed elimina un modello personalizzato', async () => {
+    const user = userEvent.setup()
+    render(<TemplatePickerCard />, { wrapper: TestWrapper })
+
+    await user.type(
+      screen.getByLabelText('Nome del nuovo modello'),
+      'Listino base',
+    )
+    await user.click(screen.getByRole('button', { name: SAVE_REGEX }))
+
+    expect(
+      screen.getByLabelText('Applica il modello Listino base'),
+    ).toBeInTheDocument()
+
+    await user.click(screen.getByLabelText('Elimina il modello Listino base'))
+
+    expect(
+      screen.queryByLabelText('Applica il modello Listino base'),
+    ).not.toBeInTheDocument()
+    expect(
+      screen.getByText('Nessun modello salvato in questo browser'),
+    ).toBeInTheDocument()
+  })
+
+  it('richiede un nome per salvare il modello', async () => {
+    const user = userEvent.setup()
+    render(<TemplatePickerCard />, { wrapper: TestWrapper })
+
+    await user.click(screen.getByRole('button', { name: SAVE_REGEX }))
+
+    expect(toast.error).toHaveBeenCalledWith('Inserisci un nome per il modello')
+  })
+})
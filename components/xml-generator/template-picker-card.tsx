@@ -0,0 +1,181 @@
+'use client'
+
+import { LayoutTemplate, Save, Trash2 } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { useFormContext } from 'react-hook-form'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { useFormStates } from '@/hooks/use-form-states'
+import {
+  applyTemplate,
+  BUILT_IN_TEMPLATES,
+  createTemplateFromFormStates,
+  deleteUserTemplate,
+  loadUserTemplates,
+  type OfferTemplate,
+  saveUserTemplate,
+} from '@/lib/xml-generator/offer-templates'
+import type { BasicInfoFormValues } from '@/lib/xml-generator/schemas'
+
+function TemplateRow({
+  template,
+  onApply,
+  onDelete,
+}: {
+  template: OfferTemplate
+  onApply: (selected: OfferTemplate) => void
+  onDelete?: (selected: OfferTemplate) => void
+}) {
+  return (
+    <li className="flex items-center justify-between gap-2 rounded-md border p-2">
+      <div className="min-w-0">
+        <p className="truncate font-medium">{template.name}</p>
+        <p className="truncate text-muted-foreground text-xs">
+          {template.description}
+        </p>
+      </div>
+      <div className="flex shrink-0 gap-1">
+        <Button
+          aria-label={`Applica il modello ${template.name}`}
+          onClick={() => onApply(template)}
+          size="sm"
+          type="button"
+          variant="outline"
+        >
+          Applica
+        </Button>
+        {onDelete ? (
+          <Button
+            aria-label={`Elimina il modello ${template.name}`}
+            onClick={() => onDelete(template)}
+            size="sm"
+            type="button"
+            variant="ghost"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        ) : null}
+      </div>
+    </li>
+  )
+}
+
+export function TemplatePickerCard() {
+  const form = useFormContext<BasicInfoFormValues>()
+  const [formStates, setFormStates] = useFormStates()
+  const [userTemplates, setUserTemplates] = useState<OfferTemplate[]>([])
+  const [templateName, setTemplateName] = useState('')
+
+  // Saved templates live in localStorage, read them after hydration
+  useEffect(() => {
+    setUserTemplates(loadUserTemplates())
+  }, [])
+
+  const handleApply = async (template: OfferTemplate) => {
+    const nextStates = applyTemplate(template, formStates)
+    await setFormStates(nextStates as Parameters<typeof setFormStates>[0])
+    form.reset({
+      ...form.getValues(),
+      pivaUtente: nextStates.basicInfo?.pivaUtente ?? '',
+      codOfferta: '',
+      action: undefined,
+      existingOfferConfirmed: undefined,
+    })
+
+    toast.success(`Modello "${template.name}" applicato`, {
+      description:
+        'Inserisci il codice offerta e verifica i dati precompilati in ogni passaggio',
+    })
+  }
+
+  const handleSave = () => {
+    const name = templateName.trim()
+    if (!name) {
+      toast.error('Inserisci un nome per il modello')
+      return
+    }
+
+    const template = createTemplateFromFormStates(name, formStates)
+    setUserTemplates(saveUserTemplate(template))
+    setTemplateName('')
+    toast.success(`Modello "${template.name}" salvato`)
+  }
+
+  const handleDelete = (template: OfferTemplate) => {
+    setUserTemplates(deleteUserTemplate(template.id))
+    toast.success(`Modello "${template.name}" eliminato`)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LayoutTemplate className="h-5 w-5 text-purple-600" />
+          Modelli di offerta
+        </CardTitle>
+        <CardDescription>
+          Parti da una configurazione comune o da un modello salvato per
+          precompilare tutti i passaggi del modulo
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div className="space-y-2">
+          <p className="font-medium">Modelli predefiniti</p>
+          <ul className="grid gap-2 md:grid-cols-2">
+            {BUILT_IN_TEMPLATES.map((template) => (
+              <TemplateRow
+                key={template.id}
+                onApply={handleApply}
+                template={template}
+              />
+            ))}
+          </ul>
+        </div>
+
+        <div className="space-y-2">
+          <p className="flex items-center gap-2 font-medium">
+            Modelli salvati
+            <Badge variant="secondary">{userTemplates.length}</Badge>
+          </p>
+          {userTemplates.length > 0 ? (
+            <ul className="grid gap-2 md:grid-cols-2">
+              {userTemplates.map((template) => (
+                <TemplateRow
+                  key={template.id}
+                  onApply={handleApply}
+                  onDelete={handleDelete}
+                  template={template}
+                />
+              ))}
+            </ul>
+          ) : (
+            <p className="text-muted-foreground">
+              Nessun modello salvato in questo browser
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Input
+              aria-label="Nome del nuovo modello"
+              onChange={(event) => setTemplateName(event.target.value)}
+              placeholder="Nome del modello"
+              value={templateName}
+            />
+            <Button onClick={handleSave} type="button" variant="outline">
+              <Save className="mr-2 h-4 w-4" />
+              Salva modello corrente
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
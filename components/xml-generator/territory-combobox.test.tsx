@@ -0,0 +1,93 @@
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+import { TerritoryCombobox } from './territory-combobox'
+
+// Regex patterns for testing
+const BERGAMO_OPTION_REGEX = /016\s*Bergamo\s*Lombardia/
+const SEARCH_PROVINCE_REGEX = /nome o codice provincia/i
+const SEARCH_MUNICIPALITY_REGEX = /nome o codice comune/i
+
+describe('TerritoryCombobox', () => {
+  beforeAll(() => {
+    // cmdk scrolls the selected item into view, missing in jsdom
+    Element.prototype.scrollIntoView = vi.fn()
+  })
+
+  it('cerca la provincia per nome e ne salva il codice', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(
+      <TerritoryCombobox
+        aria-label="Provincia"
+        level="province"
+        onChange={onChange}
+      />,
+    )
+
+    await user.click(screen.getByRole('button', { name: 'Provincia' }))
+    await user.type(screen.getByPlaceholderText(SEARCH_PROVINCE_REGEX), 'Berg')
+    await user.click(screen.getByRole('option', { name: BERGAMO_OPTION_REGEX }))
+
+    expect(onChange).toHaveBeenCalledWith('016')
+  })
+
+  it('mostra il nome accanto al codice selezionato', () => {
+    render(
+      <TerritoryCombobox
+        aria-label="Regione"
+        level="region"
+        onChange={vi.fn()}
+        value="03"
+      />,
+    )
+
+    expect(screen.getByRole('button', { name: 'Regione' })).toHaveTextContent(
+      '03 Lombardia',
+    )
+  })
+
+  it('accetta il codice completo di un comune non in elenco', async () => {
+    const user = userEvent.setup()
+    const onChange = vi.fn()
+    render(
+      <TerritoryCombobox
+        aria-label="Comune"
+        level="municipality"
+        onChange={onChange}
+      />,
+    )
+
+    await user.click(screen.getByRole('button', { name: 'Comune' }))
+    await user.type(
+      screen.getByPlaceholderText(SEARCH_MUNICIPALITY_REGEX),
+      '016999',
+    )
+    await user.click(
+      screen.getByRole('option', { name: 'Usa il codice 016999' }),
+    )
+
+    expect(onChange).toHaveBeenCalledWith('016999')
+  })
+
+  it('segnala quando la ricerca non trova territori', async () => {
+    const user = userEvent.setup()
+    render(
+      <TerritoryCombobox
+        aria-label="Comune"
+        level="municipality"
+        onChange={vi.fn()}
+      />,
+    )
+
+    await user.click(screen.getByRole('button', { name: 'Comune' }))
+    await user.type(
+      screen.getByPlaceholderText(SEARCH_MUNICIPALITY_REGEX),
+      'Zzz',
+    )
+
+    expect(
+      screen.getByText('Nessun risultato: inserisci il codice ISTAT completo'),
+    ).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,152 @@
+'use client'
+
+import { Check, ChevronsUpDown } from 'lucide-react'
+import { type ComponentProps, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { cn } from '@/lib/utils'
+import {
+  formatTerritory,
+  getTerritory,
+  searchTerritories,
+  TERRITORY_CODE_LENGTHS,
+  type Territory,
+  type TerritoryLevel,
+} from '@/lib/xml-generator/istat-territories'
+
+const DIGITS_REGEX = /^\d+$/
+
+// Longest list shown while searching, the municipalities are many
+const MAX_RESULTS = 50
+
+const LEVEL_LABELS: Record<TerritoryLevel, string> = {
+  region: 'regione',
+  province: 'provincia',
+  municipality: 'comune',
+}
+
+const PARENT_LEVELS: Partial<Record<TerritoryLevel, TerritoryLevel>> = {
+  province: 'region',
+  municipality: 'province',
+}
+
+type TerritoryComboboxProps = Omit<
+  ComponentProps<typeof Button>,
+  'value' | 'onChange'
+> & {
+  level: TerritoryLevel
+  value?: string
+  onChange: (code: string) => void
+}
+
+// Name of the region of a province or of the province of a municipality
+const getParentName = (territory: Territory) => {
+  const parentLevel = PARENT_LEVELS[territory.level]
+  return parentLevel
+    ? getTerritory(parentLevel, territory.parentCode)?.name
+    : undefined
+}
+
+/**
+ * Searchable picker of an ISTAT code of ZoneOfferta
+ * Territories are searched by name or code. Codes of municipalities missing
+ * from the embedded list can be typed in full and used as they are
+ */
+export function TerritoryCombobox({
+  level,
+  value = '',
+  onChange,
+  className,
+  ...buttonProps
+}: TerritoryComboboxProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [query, setQuery] = useState('')
+  const label = LEVEL_LABELS[level]
+  const results = searchTerritories(level, query).slice(0, MAX_RESULTS)
+  const isTypedCode =
+    query.length === TERRITORY_CODE_LENGTHS[level] &&
+    DIGITS_REGEX.test(query) &&
+    !results.some((territory) => territory.code === query)
+
+  const select = (code: string) => {
+    onChange(code)
+    setQuery('')
+    setIsOpen(false)
+  }
+
+  return (
+    <Popover onOpenChange={setIsOpen} open={isOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          {...buttonProps}
+          aria-expanded={isOpen}
+          aria-haspopup="listbox"
+          className={cn('w-full justify-between font-normal', className)}
+          type="button"
+          variant="outline"
+        >
+          {value ? (
+            <span className="truncate">{formatTerritory(level, value)}</span>
+          ) : (
+            <span className="text-muted-foreground">
+              Cerca {label} per nome o codice
+            </span>
+          )}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <Command shouldFilter={false}>
+          <CommandInput
+            onValueChange={setQuery}
+            placeholder={`Nome o codice ${label}`}
+            value={query}
+          />
+          <CommandList>
+            <CommandEmpty>
+              Nessun risultato: inserisci il codice ISTAT completo
+            </CommandEmpty>
+            <CommandGroup>
+              {isTypedCode ? (
+                <CommandItem onSelect={() => select(query)} value={query}>
+                  Usa il codice {query}
+                </CommandItem>
+              ) : null}
+              {results.map((territory) => (
+                <CommandItem
+                  key={territory.code}
+                  onSelect={() => select(territory.code)}
+                  value={territory.code}
+                >
+                  <Check
+                    className={cn(
+                      'h-4 w-4',
+                      territory.code === value ? 'opacity-100' : 'opacity-0',
+                    )}
+                  />
+                  <span className="font-mono text-xs">{territory.code}</span>
+                  <span>{territory.name}</span>
+                  <span className="ml-auto text-muted-foreground text-xs">
+                    {getParentName(territory)}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,83 @@
+import { fireEvent, render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { FormProvider, useForm, useFormContext } from 'react-hook-form'
+import { describe, expect, it } from 'vitest'
+import { TIME_BAND_CONFIGURATIONS } from '@/lib/xml-generator/constants'
+import type { PricingConfigFormValues } from '@/lib/xml-generator/schemas'
+import { WeeklyTimeBandEditor } from './weekly-time-band-editor'
+
+// Regex patterns for testing
+const SEGMENT_LIMIT_REGEX = /massimo 10 segmenti/i
+const MISSING_BAND_REGEX = /non presenti in nessun giorno: F2/i
+const DISALLOWED_REGEX = /fasce non previste dalla tipologia selezionata: F3/i
+
+function MondayValue() {
+  const { watch } = useFormContext<PricingConfigFormValues>()
+  return <output data-testid="monday">{watch('weeklyTimeBands.monday')}</output>
+}
+
+function renderEditor(monday: string) {
+  function TestForm() {
+    const form = useForm<PricingConfigFormValues>({
+      defaultValues: { weeklyTimeBands: { monday } },
+    })
+    return (
+      <FormProvider {...form}>
+        <WeeklyTimeBandEditor
+          timeBandConfiguration={TIME_BAND_CONFIGURATIONS.F1_F2}
+        />
+        <MondayValue />
+      </FormProvider>
+    )
+  }
+  return render(<TestForm />)
+}
+
+const dragMonday = (from: string, to: string) => {
+  fireEvent.pointerDown(screen.getByLabelText(new RegExp(`^Lunedì ${from}-`)))
+  fireEvent.pointerEnter(screen.getByLabelText(new RegExp(`^Lunedì ${to}-`)))
+  fireEvent.pointerUp(window)
+}
+
+describe('WeeklyTimeBandEditor', () => {
+  it('mostra solo le fasce previste dalla tipologia selezionata', () => {
+    renderEditor('')
+
+    expect(screen.getByRole('button', { name: 'F1' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'F2' })).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'F3' })).not.toBeInTheDocument()
+  })
+
+  it('converte le fasce disegnate nel formato SII', async () => {
+    const user = userEvent.setup()
+    renderEditor('96-2')
+
+    await user.click(screen.getByRole('button', { name: 'F1' }))
+    dragMonday('08:00', '18:45')
+
+    expect(screen.getByTestId('monday')).toHaveTextContent('32-2,76-1,96-2')
+    expect(screen.getAllByText('3/10 segmenti').length).toBeGreaterThan(0)
+  })
+
+  it('blocca le modifiche oltre il limite di 10 segmenti', () => {
+    const tenSegments = '1-1,2-2,3-1,4-2,5-1,6-2,7-1,8-2,9-1,96-2'
+    renderEditor(tenSegments)
+
+    dragMonday('12:00', '12:00')
+
+    expect(screen.getByText(SEGMENT_LIMIT_REGEX)).toBeInTheDocument()
+    expect(screen.getByTestId('monday')).toHaveTextContent(tenSegments)
+  })
+
+  it('segnala le fasce non ammesse dalla tipologia', () => {
+    renderEditor('32-3,96-1')
+
+    expect(screen.getByText(DISALLOWED_REGEX)).toBeInTheDocument()
+  })
+
+  it('segnala le fasce configurate assenti nella settimana', () => {
+    renderEditor('96-1')
+
+    expect(screen.getByText(MISSING_BAND_REGEX)).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,262 @@
+'use client'
+
+import { AlertCircle, AlertTriangle } from 'lucide-react'
+import { useEffect, useRef, useState } from 'react'
+import { useFormContext } from 'react-hook-form'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import { TIME_BAND_CONSTANTS } from '@/lib/xml-generator/constants'
+import type { PricingConfigFormValues } from '@/lib/xml-generator/schemas'
+import {
+  countDaySegments,
+  createEmptyDay,
+  type DayQuarters,
+  exceedsSegmentLimit,
+  formatDayTimeBands,
+  formatQuarterTime,
+  getAllowedTimeBands,
+  getDisallowedBands,
+  paintDayQuarters,
+  parseDayTimeBands,
+  TIME_BAND_DAYS,
+  TIME_BAND_NUMBER_LABELS,
+  type TimeBandDay,
+  validateWeeklyTimeBands,
+} from '@/lib/xml-generator/time-band-grid'
+
+const BAND_COLORS: Record<number, string> = {
+  1: 'bg-red-500',
+  2: 'bg-amber-400',
+  3: 'bg-green-500',
+  4: 'bg-sky-500',
+  5: 'bg-violet-500',
+  6: 'bg-pink-500',
+  7: 'bg-orange-600',
+  8: 'bg-blue-700',
+}
+
+const WORKING_DAYS: TimeBandDay[] = [
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+]
+
+const HOUR_MARKS = Array.from({ length: 8 }, (_, index) => index * 3)
+
+type DragState = {
+  day: TimeBandDay
+  anchor: number
+  base: DayQuarters
+}
+
+interface WeeklyTimeBandEditorProps {
+  timeBandConfiguration?: string
+}
+
+export function WeeklyTimeBandEditor({
+  timeBandConfiguration,
+}: WeeklyTimeBandEditorProps) {
+  const { watch, setValue } = useFormContext<PricingConfigFormValues>()
+  const weeklyTimeBands = watch('weeklyTimeBands')
+  const allowedBands = getAllowedTimeBands(timeBandConfiguration)
+  const [selectedBand, setSelectedBand] = useState(allowedBands[0])
+  const [limitError, setLimitError] = useState<string | null>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const weekIssues = validateWeeklyTimeBands(
+    timeBandConfiguration,
+    weeklyTimeBands,
+  ).filter((issue) => !issue.day)
+
+  // Fall back to the first band when TIPOLOGIA_FASCE changes
+  const activeBand = allowedBands.includes(selectedBand)
+    ? selectedBand
+    : allowedBands[0]
+
+  useEffect(() => {
+    const endDrag = () => {
+      dragRef.current = null
+    }
+    window.addEventListener('pointerup', endDrag)
+    return () => window.removeEventListener('pointerup', endDrag)
+  }, [])
+
+  const setDay = (day: TimeBandDay, quarters: DayQuarters) => {
+    setValue(`weeklyTimeBands.${day}`, formatDayTimeBands(quarters), {
+      shouldDirty: true,
+      shouldValidate: true,
+    })
+  }
+
+  const paintTo = (quarter: number) => {
+    const drag = dragRef.current
+    if (!drag) {
+      return
+    }
+
+    const next = paintDayQuarters(drag.base, drag.anchor, quarter, activeBand)
+    if (exceedsSegmentLimit(next)) {
+      const label = TIME_BAND_DAYS.find((day) => day.key === drag.day)?.label
+      setLimitError(
+        `${label}: sono ammessi al massimo ${TIME_BAND_CONSTANTS.MAX_SEGMENTS_PER_DAY} segmenti per giorno`,
+      )
+      return
+    }
+
+    setLimitError(null)
+    setDay(drag.day, next)
+  }
+
+  const startPainting = (
+    day: TimeBandDay,
+    quarter: number,
+    quarters: DayQuarters | null,
+  ) => {
+    dragRef.current = {
+      day,
+      anchor: quarter,
+      // A malformed string is replaced by the painted band
+      base: quarters ?? createEmptyDay(),
+    }
+    paintTo(quarter)
+  }
+
+  const copyMondayToWorkingDays = () => {
+    for (const day of WORKING_DAYS) {
+      setValue(`weeklyTimeBands.${day}`, weeklyTimeBands?.monday ?? '', {
+        shouldDirty: true,
+        shouldValidate: true,
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-muted-foreground text-xs">Fascia:</span>
+        {allowedBands.map((band) => (
+          <Button
+            aria-pressed={band === activeBand}
+            key={band}
+            onClick={() => setSelectedBand(band)}
+            size="sm"
+            type="button"
+            variant={band === activeBand ? 'default' : 'outline'}
+          >
+            <span
+              className={cn(
+                'mr-1 inline-block h-3 w-3 rounded-sm',
+                BAND_COLORS[band],
+              )}
+            />
+            {TIME_BAND_NUMBER_LABELS[band]}
+          </Button>
+        ))}
+        <Button
+          className="ml-auto"
+          disabled={!weeklyTimeBands?.monday}
+          onClick={copyMondayToWorkingDays}
+          size="sm"
+          type="button"
+          variant="ghost"
+        >
+          Copia il lunedì sui giorni feriali
+        </Button>
+      </div>
+
+      <p className="text-muted-foreground text-xs">
+        Trascina sulla griglia per applicare la fascia selezionata: ogni colonna
+        corrisponde a un quarto d&apos;ora
+      </p>
+
+      {weekIssues.map((issue) => (
+        <p
+          className="flex items-center gap-2 text-xs text-yellow-800"
+          key={issue.message}
+        >
+          <AlertTriangle className="h-4 w-4" />
+          {issue.message}
+        </p>
+      ))}
+
+      {limitError ? (
+        <p className="flex items-center gap-2 text-red-700 text-xs">
+          <AlertCircle className="h-4 w-4" />
+          {limitError}
+        </p>
+      ) : null}
+
+      <div className="space-y-1 overflow-x-auto">
+        <div className="ml-24 flex min-w-[576px] text-muted-foreground text-xs">
+          {HOUR_MARKS.map((hour) => (
+            <span className="flex-1" key={hour}>
+              {formatQuarterTime(hour * 4)}
+            </span>
+          ))}
+        </div>
+
+        {TIME_BAND_DAYS.map((day) => {
+          const value = weeklyTimeBands?.[day.key]
+          const quarters = parseDayTimeBands(value)
+          const disallowed = quarters
+            ? getDisallowedBands(quarters, allowedBands)
+            : []
+
+          return (
+            <div className="space-y-1" key={day.key}>
+              <div className="flex items-center">
+                <span className="w-24 shrink-0 text-xs">
+                  {day.label}
+                  <span className="block text-muted-foreground">
+                    {quarters
+                      ? `${countDaySegments(quarters)}/${TIME_BAND_CONSTANTS.MAX_SEGMENTS_PER_DAY} segmenti`
+                      : 'Formato non valido'}
+                  </span>
+                </span>
+                <div className="flex h-6 min-w-[576px] flex-1 touch-none select-none">
+                  {(quarters ?? createEmptyDay()).map((band, quarter) => (
+                    <button
+                      aria-label={`${day.label} ${formatQuarterTime(quarter)}-${formatQuarterTime(quarter + 1)}: ${band ? TIME_BAND_NUMBER_LABELS[band] : 'nessuna fascia'}`}
+                      className={cn(
+                        'h-full flex-1 border-background border-r last:border-r-0',
+                        quarter % 4 === 0 && 'border-l border-l-foreground/20',
+                        band ? BAND_COLORS[band] : 'bg-muted',
+                      )}
+                      // biome-ignore lint/suspicious/noArrayIndexKey: quarters are fixed positions of the day
+                      key={quarter}
+                      onClick={(event) => {
+                        // Keyboard activation, pointer painting is handled below
+                        if (event.detail === 0) {
+                          startPainting(day.key, quarter, quarters)
+                          dragRef.current = null
+                        }
+                      }}
+                      onPointerDown={() =>
+                        startPainting(day.key, quarter, quarters)
+                      }
+                      onPointerEnter={() => {
+                        if (dragRef.current?.day === day.key) {
+                          paintTo(quarter)
+                        }
+                      }}
+                      type="button"
+                    />
+                  ))}
+                </div>
+              </div>
+              {disallowed.length > 0 ? (
+                <p className="ml-24 flex items-center gap-1 text-xs text-yellow-800">
+                  <AlertTriangle className="h-3 w-3" />
+                  Fasce non previste dalla tipologia selezionata:{' '}
+                  {disallowed
+                    .map((band) => TIME_BAND_NUMBER_LABELS[band])
+                    .join(', ')}
+                </p>
+              ) : null}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { useFormStates } from '@/hooks/use-form-states'
+import { useWorkspaceOfferId } from '@/hooks/use-workspace-offer-id'
+import { recordOfferSnapshot } from '@/lib/xml-generator/offer-history'
+import {
+  createWorkspaceOffer,
+  getWorkspaceOffer,
+  hasFormData,
+  saveWorkspaceOffer,
+  updateWorkspaceOffer,
+  type WorkspaceOffer,
+} from '@/lib/xml-generator/offer-workspace'
+
+// Saves the wizard state to the local workspace every time a step is saved,
+// recording a version in the offer history whenever the data changed
+export function WorkspaceAutosave() {
+  const [formStates] = useFormStates()
+  const [offerId, setOfferId] = useWorkspaceOfferId()
+  const lastSavedRef = useRef<WorkspaceOffer | null>(null)
+
+  useEffect(() => {
+    if (!hasFormData(formStates)) {
+      return
+    }
+
+    // Assign the identifier right away so that later saves update the same record
+    const id = offerId ?? crypto.randomUUID()
+    if (!offerId) {
+      setOfferId(id)
+    }
+
+    const persist = async () => {
+      const stored =
+        lastSavedRef.current?.id === id
+          ? lastSavedRef.current
+          : await getWorkspaceOffer(id)
+      const next = stored
+        ? updateWorkspaceOffer(stored, formStates)
+        : createWorkspaceOffer(formStates, new Date(), id)
+
+      if (next !== stored) {
+        await saveWorkspaceOffer(next)
+        await recordOfferSnapshot(id, formStates, 'save')
+      }
+      lastSavedRef.current = next
+    }
+
+    persist().catch(() => {
+      // The workspace is best effort, the URL still holds the form state
+    })
+  }, [formStates, offerId, setOfferId])
+
+  return null
+}
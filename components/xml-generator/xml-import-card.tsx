@@ -0,0 +1,136 @@
+'use client'
+
+import { AlertCircle, AlertTriangle, Upload } from 'lucide-react'
+import { useRef, useState } from 'react'
+import { useFormContext } from 'react-hook-form'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { useFormStates } from '@/hooks/use-form-states'
+import type { BasicInfoFormValues } from '@/lib/xml-generator/schemas'
+import { steps } from '@/lib/xml-generator/stepperize/config'
+import { importXML } from '@/lib/xml-generator/xml-importer'
+import {
+  getValidationSummary,
+  type ValidationError,
+} from '@/lib/xml-generator/xml-validator'
+
+export function XmlImportCard() {
+  const form = useFormContext<BasicInfoFormValues>()
+  const [, setFormStates] = useFormStates()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [issues, setIssues] = useState<ValidationError[]>([])
+  const [fileName, setFileName] = useState<string | null>(null)
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) {
+      return
+    }
+
+    const result = importXML(await file.text())
+    setFileName(file.name)
+    setIssues(result.issues)
+
+    if (!result.success) {
+      toast.error('Importazione non riuscita', {
+        description: result.issues[0]?.message,
+      })
+      return
+    }
+
+    // Replace every step so data from a previous offer does not survive
+    const nextStates = Object.fromEntries(
+      steps.map((step) => [step, result.formStates[step] ?? null]),
+    )
+    await setFormStates(nextStates)
+    form.reset({
+      ...form.getValues(),
+      action: result.formStates.basicInfo?.action,
+      pivaUtente: result.formStates.basicInfo?.pivaUtente ?? '',
+      codOfferta: result.formStates.basicInfo?.codOfferta ?? '',
+      existingOfferConfirmed:
+        result.formStates.basicInfo?.existingOfferConfirmed,
+    })
+
+    toast.success('Offerta importata', {
+      description:
+        result.issues.length > 0
+          ? `${getValidationSummary(result.issues)}: verifica i dettagli`
+          : 'Tutti i passaggi sono stati precompilati',
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="h-5 w-5 text-blue-600" />
+          Importa da XML
+        </CardTitle>
+        <CardDescription>
+          Carica un file XML SII esistente per precompilare tutti i passaggi del
+          modulo
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <input
+          accept=".xml,application/xml,text/xml"
+          aria-label="File XML da importare"
+          className="hidden"
+          onChange={handleFileChange}
+          ref={inputRef}
+          type="file"
+        />
+        <Button
+          onClick={() => inputRef.current?.click()}
+          type="button"
+          variant="outline"
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Seleziona file XML
+        </Button>
+
+        {fileName && issues.length > 0 ? (
+          <div className="space-y-2">
+            <p className="font-medium text-sm">
+              {fileName}: {getValidationSummary(issues)}
+            </p>
+            <ul className="max-h-64 space-y-2 overflow-auto text-sm">
+              {issues.map((issue, index) => (
+                <li
+                  className={`flex items-start gap-2 rounded-md p-2 ${
+                    issue.severity === 'error'
+                      ? 'bg-red-50 text-red-700'
+                      : 'bg-yellow-50 text-yellow-800'
+                  }`}
+                  key={`${issue.path}-${index}`}
+                >
+                  {issue.severity === 'error' ? (
+                    <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                  ) : (
+                    <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                  )}
+                  <span>
+                    <code className="text-xs">{issue.path}</code>
+                    <br />
+                    {issue.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,79 @@
+import { fireEvent, render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { XmlFileValidator } from './xml-file-validator'
+
+// Regex patterns for testing
+const CLEAR_REGEX = /svuota elenco/i
+const INVALID_REGEX = /file non valido/i
+const DROP_REGEX = /trascina qui/i
+
+const INVALID_XML = '<Offerta><IdentificativiOfferta></Offerta>'
+
+const createFile = (name: string, content: string) => {
+  const file = new File([content], name, { type: 'text/xml' })
+  // jsdom does not implement Blob.text()
+  file.text = () => Promise.resolve(content)
+  return file
+}
+
+describe('XmlFileValidator', () => {
+  it('verifica più file selezionati e mostra un report per ciascuno', async () => {
+    const user = userEvent.setup()
+    render(<XmlFileValidator />)
+
+    await user.upload(screen.getByLabelText('File XML da verificare'), [
+      createFile('IT12345678901_INSERIMENTO_LUCE.XML', INVALID_XML),
+      createFile('offerta.XML', INVALID_XML),
+    ])
+
+    expect(
+      await screen.findByText('IT12345678901_INSERIMENTO_LUCE.XML'),
+    ).toBeInTheDocument()
+    expect(screen.getByText('offerta.XML')).toBeInTheDocument()
+    expect(screen.getByText('0 file validi su 2')).toBeInTheDocument()
+    expect(screen.getAllByText(INVALID_REGEX)).toHaveLength(2)
+  })
+
+  it('raggruppa gli errori del nome file in una sezione', async () => {
+    const user = userEvent.setup()
+    render(<XmlFileValidator />)
+
+    await user.upload(screen.getByLabelText('File XML da verificare'), [
+      createFile('offerta.XML', INVALID_XML),
+    ])
+
+    const section = await screen.findByRole('region', {
+      name: 'Sezione Nome file',
+    })
+    expect(within(section).getByText('Errori: 1')).toBeInTheDocument()
+  })
+
+  it('accetta i file trascinati ignorando quelli non XML', async () => {
+    render(<XmlFileValidator />)
+
+    fireEvent.drop(screen.getByText(DROP_REGEX), {
+      dataTransfer: {
+        files: [
+          createFile('IT12345678901_INSERIMENTO_LUCE.XML', INVALID_XML),
+          createFile('note.txt', 'testo'),
+        ],
+      },
+    })
+
+    expect(await screen.findByText('0 file validi su 1')).toBeInTheDocument()
+    expect(screen.queryByText('note.txt')).not.toBeInTheDocument()
+  })
+
+  it("svuota l'elenco dei file verificati", async () => {
+    const user = userEvent.setup()
+    render(<XmlFileValidator />)
+
+    await user.upload(screen.getByLabelText('File XML da verificare'), [
+      createFile('offerta.XML', INVALID_XML),
+    ])
+    await user.click(await screen.findByRole('button', { name: CLEAR_REGEX }))
+
+    expect(screen.queryByText('offerta.XML')).not.toBeInTheDocument()
+  })
+})
@@ -0,0 +1,224 @@
+'use client'
+
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  FileCode2,
+  Trash2,
+  Upload,
+} from 'lucide-react'
+import { useRef, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+import {
+  checkXMLFile,
+  type XMLFileReport,
+  type XMLFileSection,
+} from '@/lib/xml-generator/xml-file-report'
+import type { ValidationError } from '@/lib/xml-generator/xml-validator'
+
+const XML_EXTENSION_REGEX = /\.xml$/i
+
+function IssueItem({ issue }: { issue: ValidationError }) {
+  const isError = issue.severity === 'error'
+  return (
+    <li
+      className={cn(
+        'flex items-start gap-2 rounded-md p-2',
+        isError ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800',
+      )}
+    >
+      {isError ? (
+        <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+      ) : (
+        <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+      )}
+      <span>
+        <code className="text-xs">{issue.path}</code>
+        <br />
+        {issue.message}
+      </span>
+    </li>
+  )
+}
+
+function SectionIssues({ section }: { section: XMLFileSection }) {
+  return (
+    <section
+      aria-label={`Sezione ${section.section}`}
+      className="space-y-2 text-sm"
+    >
+      <h4 className="flex items-center gap-2 font-medium">
+        {section.section}
+        {section.errors.length > 0 ? (
+          <Badge variant="destructive">Errori: {section.errors.length}</Badge>
+        ) : null}
+        {section.warnings.length > 0 ? (
+          <Badge variant="outline">Avvisi: {section.warnings.length}</Badge>
+        ) : null}
+      </h4>
+      <ul className="space-y-1">
+        {[...section.errors, ...section.warnings].map((issue, index) => (
+          <IssueItem issue={issue} key={`${issue.path}-${index}`} />
+        ))}
+      </ul>
+    </section>
+  )
+}
+
+function FileReport({ report }: { report: XMLFileReport }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          {report.isValid ? (
+            <CheckCircle className="h-5 w-5 text-green-600" />
+          ) : (
+            <AlertCircle className="h-5 w-5 text-red-600" />
+          )}
+          <code className="break-all">{report.filename}</code>
+        </CardTitle>
+        <CardDescription>
+          {report.isValid ? 'File valido' : 'File non valido'}: {report.summary}
+        </CardDescription>
+      </CardHeader>
+      {report.sections.length > 0 ? (
+        <CardContent className="space-y-4">
+          {report.sections.map((section) => (
+            <SectionIssues key={section.section} section={section} />
+          ))}
+        </CardContent>
+      ) : null}
+    </Card>
+  )
+}
+
+/**
+ * Checks SII XML files received from partners or other tools
+ * Files can be dropped or picked, each one gets a report with the issues of
+ * its name and content grouped by section of the offer
+ */
+export function XmlFileValidator() {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [reports, setReports] = useState<XMLFileReport[]>([])
+  const [isDragging, setIsDragging] = useState(false)
+
+  const checkFiles = async (files: File[]) => {
+    const checked = await Promise.all(
+      files.map(async (file) =>
+        XML_EXTENSION_REGEX.test(file.name)
+          ? checkXMLFile(file.name, await file.text())
+          : null,
+      ),
+    )
+    const added = checked.filter(
+      (report): report is XMLFileReport => report !== null,
+    )
+    const names = new Set(added.map((report) => report.filename))
+
+    // A file checked again replaces its previous report
+    setReports((current) => [
+      ...current.filter((report) => !names.has(report.filename)),
+      ...added,
+    ])
+  }
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const files = [...(event.target.files ?? [])]
+    event.target.value = ''
+    await checkFiles(files)
+  }
+
+  const handleDrop = async (event: React.DragEvent<HTMLElement>) => {
+    event.preventDefault()
+    setIsDragging(false)
+    await checkFiles([...event.dataTransfer.files])
+  }
+
+  const validCount = reports.filter((report) => report.isValid).length
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileCode2 className="h-5 w-5 text-blue-600" />
+            Verifica file XML
+          </CardTitle>
+          <CardDescription>
+            Controlla il nome e il contenuto dei file XML delle offerte rispetto
+            alle regole di business e allo schema XSD del SII
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <input
+            accept=".xml,.XML,application/xml,text/xml"
+            aria-label="File XML da verificare"
+            className="hidden"
+            multiple
+            onChange={handleFileChange}
+            ref={inputRef}
+            type="file"
+          />
+          {/* biome-ignore lint/a11y/noStaticElementInteractions: drop target, the button inside is the keyboard alternative */}
+          {/* biome-ignore lint/nursery/noNoninteractiveElementInteractions: drop target, the button inside is the keyboard alternative */}
+          <div
+            className={cn(
+              'flex flex-col items-center gap-3 rounded-md border-2 border-dashed p-8 text-center text-sm',
+              isDragging ? 'border-primary bg-primary/5' : 'border-muted',
+            )}
+            onDragLeave={() => setIsDragging(false)}
+            onDragOver={(event) => {
+              event.preventDefault()
+              setIsDragging(true)
+            }}
+            onDrop={handleDrop}
+          >
+            <Upload className="h-8 w-8 text-muted-foreground" />
+            <p className="text-muted-foreground">
+              Trascina qui uno o più file XML oppure
+            </p>
+            <Button
+              onClick={() => inputRef.current?.click()}
+              type="button"
+              variant="outline"
+            >
+              Seleziona file XML
+            </Button>
+          </div>
+
+          {reports.length > 0 ? (
+            <div className="flex items-center justify-between text-sm">
+              <p className="font-medium">
+                {validCount} file validi su {reports.length}
+              </p>
+              <Button
+                onClick={() => setReports([])}
+                type="button"
+                variant="ghost"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Svuota elenco
+              </Button>
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      {reports.map((report) => (
+        <FileReport key={report.filename} report={report} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,6 @@
+import { parseAsString, useQueryState } from 'nuqs'
+
+// Identifier of the workspace record the wizard is editing, kept in the URL
+export function useWorkspaceOfferId() {
+  return useQueryState('offerId', parseAsString)
+}
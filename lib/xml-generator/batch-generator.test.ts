@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  BATCH_MANIFEST_FILENAME,
+  createBatchManifest,
+  createBatchZip,
+  downloadBatchZip,
+  generateBatch,
+  generateBatchFilename,
+  mergeVariant,
+} from './batch-generator'
+import { COMPLETE_OFFER_FIXTURE } from './test-fixtures'
+
+// Top-level regex patterns for performance
+const NORD_FILENAME_REGEX = /IT12345678901_INSERIMENTO_LUCE_NORD\.XML/g
+
+const baseOffer = COMPLETE_OFFER_FIXTURE
+
+const createVariant = (codOfferta: string, offerName: string) => ({
+  overrides: {
+    basicInfo: { codOfferta },
+    offerDetails: { offerName },
+  },
+})
+
+describe('batch-generator', () => {
+  describe('mergeVariant', () => {
+    it('should override only the fields set by the variant', () => {
+      const merged = mergeVariant(baseOffer, {
+        offerDetails: { offerName: 'Luce Nord' },
+      })
+
+      expect(merged.offerDetails?.offerName).toBe('Luce Nord')
+      expect(merged.offerDetails?.duration).toBe(12)
+      expect(merged.basicInfo).toEqual(baseOffer.basicInfo)
+    })
+  })
+
+  describe('generateBatch', () => {
+    it('should build a valid XML for each variant', () => {
+      const result = generateBatch(baseOffer, [
+        createVariant('LUCE01NORD', 'Luce Nord'),
+        createVariant('LUCE01SUD', 'Luce Sud'),
+      ])
+
+      expect(result.validCount).toBe(2)
+      expect(result.invalidCount).toBe(0)
+      expect(result.items.map((item) => item.filename)).toEqual([
+        'IT12345678901_INSERIMENTO_LUCE_NORD.XML',
+        'IT12345678901_INSERIMENTO_LUCE_SUD.XML',
+      ])
+      expect(result.items[1].xml).toContain(
+        '<COD_OFFERTA>LUCE01SUD</COD_OFFERTA>',
+      )
+    })
+
+    it('should report the XSD violations of a variant', () => {
+      const result = generateBatch(baseOffer, [
+        createVariant('LUCE01NORD', 'Luce Nord'),
+        createVariant('L'.repeat(33), 'Luce Sud'),
+      ])
+
+      expect(result.validCount).toBe(1)
+      expect(result.items[1].isValid).toBe(false)
+      expect(result.items[1].errors).toContainEqual(
+        expect.objectContaining({
+          path: '/Offerta/IdentificativiOfferta/COD_OFFERTA',
+          severity: 'error',
+        }),
+      )
+    })
+
+    it('should report why the XML of a variant could not be generated', () => {
+      // Variants are read from JSON files, where a code may not be a string
+      const result = generateBatch(baseOffer, [
+        { overrides: JSON.parse('{"basicInfo": {"codOfferta": 1}}') },
+      ])
+
+      expect(result.items[0].errors).toEqual([
+        {
+          path: '/',
+          message: expect.stringContaining(
+            'Errore nella generazione del XML: ',
+          ),
+          severity: 'error',
+        },
+      ])
+      expect(result.items[0].errors[0].message).toContain('toUpperCase')
+    })
+
+    it('should apply the business rules of the API', () => {
+      const result = generateBatch(baseOffer, [
+        createVariant('LUCE01NORD', 'Luce Nord'),
+        {
+          overrides: {
+            basicInfo: { codOfferta: 'LUCE01SUD' },
+            offerDetails: { offerName: 'Luce Sud', singleOffer: undefined },
+          },
+        },
+        {
+          overrides: {
+            basicInfo: { codOfferta: 'LUCE01EST' },
+            offerDetails: {
+              offerName: 'Luce Est',
+              offerMode: 'NON_SIMULABILE',
+            },
+          },
+        },
+      ])
+
+      expect(result.items.map((item) => item.isValid)).toEqual([
+        true,
+        false,
+        false,
+      ])
+      expect(result.items[1].errors).toContainEqual(
+        expect.objectContaining({
+          message: 'OFFERTA_SINGOLA è obbligatorio per mercati Elettrico e Gas',
+        }),
+      )
+      expect(result.items[2].errors).toContainEqual(
+        expect.objectContaining({
+          message: 'URL_OFFERTA è obbligatorio per le offerte non simulabili',
+        }),
+      )
+    })
+
+    it('should flag variants with the same file name', () => {
+      const result = generateBatch(baseOffer, [
+        createVariant('LUCE01NORD', 'Luce Nord'),
+        createVariant('LUCE01NORD2', 'Luce Nord'),
+      ])
+
+      expect(result.items[0].isValid).toBe(true)
+      expect(result.items[1].isValid).toBe(false)
+      expect(result.items[1].errors.at(-1)?.message).toBe(
+        'Nome file duplicato: IT12345678901_INSERIMENTO_LUCE_NORD.XML',
+      )
+    })
+  })
+
+  describe('createBatchManifest', () => {
+    it('should list every file with its validation result', () => {
+      const result = generateBatch(baseOffer, [
+        createVariant('LUCE01NORD', 'Luce Nord'),
+        createVariant('LUCE01NORD2', 'Luce Nord'),
+      ])
+      const manifest = createBatchManifest(
+        result,
+        new Date('2024-06-15T10:00:00Z'),
+      )
+
+      expect(manifest).toMatchObject({
+        generatedAt: '2024-06-15T10:00:00.000Z',
+        total: 2,
+        valid: 1,
+        invalid: 1,
+      })
+      expect(manifest.files.map((file) => file.included)).toEqual([true, false])
+    })
+  })
+
+  describe('createBatchZip', () => {
+    it('should pack the valid files and the manifest', () => {
+      const result = generateBatch(baseOffer, [
+        createVariant('LUCE01NORD', 'Luce Nord'),
+        createVariant('LUCE01NORD2', 'Luce Nord'),
+      ])
+      const zip = createBatchZip(result)
+      const archive = new TextDecoder().decode(zip)
+      const view = new DataView(zip.buffer)
+
+      // Entry count of the end of central directory record
+      expect(view.getUint16(zip.length - 12, true)).toBe(2)
+      expect(archive.match(NORD_FILENAME_REGEX)?.length).toBeGreaterThan(0)
+      expect(archive).toContain(BATCH_MANIFEST_FILENAME)
+      expect(archive).toContain('"invalid": 1')
+    })
+  })
+
+  describe('generateBatchFilename', () => {
+    it('should include the generation day', () => {
+      expect(generateBatchFilename(new Date(2024, 5, 5))).toBe(
+        'OFFERTE_SII_20240605.zip',
+      )
+    })
+  })
+
+  describe('downloadBatchZip', () => {
+    const mockClick = vi.fn()
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      global.URL.createObjectURL = vi.fn().mockReturnValue('blob:mock-url')
+      global.URL.revokeObjectURL = vi.fn()
+      vi.spyOn(document, 'createElement').mockReturnValue({
+        href: '',
+        download: '',
+        click: mockClick,
+      } as unknown as HTMLAnchorElement)
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+      vi.restoreAllMocks()
+      mockClick.mockClear()
+    })
+
+    it('should download the archive as a ZIP file', () => {
+      const result = generateBatch(baseOffer, [
+        createVariant('LUCE01NORD', 'Luce Nord'),
+      ])
+
+      expect(downloadBatchZip(result, 'OFFERTE.zip')).toEqual({
+        success: true,
+      })
+      expect(URL.createObjectURL).toHaveBeenCalledWith(expect.any(Blob))
+      expect(mockClick).toHaveBeenCalled()
+    })
+
+    it('should refuse a batch without valid files', () => {
+      const result = generateBatch(baseOffer, [])
+
+      expect(downloadBatchZip(result, 'OFFERTE.zip')).toEqual({
+        success: false,
+        error: "Nessun file XML valido da includere nell'archivio",
+      })
+      expect(mockClick).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,228 @@
+import { ACTION_TYPES } from './constants'
+import { resolveSpecVersion } from './spec-registry'
+import { validateOfferXML } from './xml-api'
+import {
+  buildXML,
+  downloadFile,
+  generateXMLFilename,
+  PLACEHOLDER_PIVA_UTENTE,
+} from './xml-builder'
+import { type FormStatesInput, toXMLFormData } from './xml-form-data'
+import type { ValidationError } from './xml-validator'
+import { createZip } from './zip-writer'
+
+/**
+ * Batch generation of SII offers
+ * Builds one XML per offer variant, validates it with the business rules and
+ * the XSD of its version as the API does, and packs the valid files in a ZIP
+ * together with a manifest of the results
+ */
+
+export const BATCH_MANIFEST_FILENAME = 'manifest.json'
+
+export interface OfferVariant {
+  // Step values replacing the ones of the base offer, merged field by field
+  overrides: FormStatesInput
+}
+
+export interface BatchItemResult {
+  filename: string
+  xml: string
+  isValid: boolean
+  errors: ValidationError[]
+}
+
+export interface BatchResult {
+  items: BatchItemResult[]
+  validCount: number
+  invalidCount: number
+}
+
+export interface BatchManifest {
+  generatedAt: string
+  total: number
+  valid: number
+  invalid: number
+  files: Array<{
+    filename: string
+    included: boolean
+    errors: ValidationError[]
+  }>
+}
+
+/**
+ * Apply the overrides of a variant to the base form states
+ * @param base - Form states shared by every offer of the batch
+ * @param overrides - Step values specific to the variant
+ * @returns Form states of the variant
+ */
+export function mergeVariant(
+  base: FormStatesInput,
+  overrides: FormStatesInput,
+): FormStatesInput {
+  const merged: Record<string, unknown> = { ...base }
+  for (const [step, values] of Object.entries(overrides)) {
+    const baseValues = base[step as keyof FormStatesInput]
+    merged[step] = { ...baseValues, ...values }
+  }
+  return merged as FormStatesInput
+}
+
+const getVariantFilename = (formStates: FormStatesInput) =>
+  generateXMLFilename(
+    formStates.basicInfo?.pivaUtente || PLACEHOLDER_PIVA_UTENTE,
+    formStates.offerDetails?.offerName || 'OFFERTA',
+    formStates.basicInfo?.action || ACTION_TYPES.INSERIMENTO,
+  )
+
+function generateVariant(formStates: FormStatesInput): BatchItemResult {
+  const filename = getVariantFilename(formStates)
+
+  try {
+    const spec = resolveSpecVersion(formStates.basicInfo?.specVersion)
+    const xml = buildXML(toXMLFormData(formStates), spec)
+    const { isValid, errors } = validateOfferXML(
+      xml,
+      formStates.offerDetails?.offerMode,
+      spec,
+    )
+    return { filename, xml, isValid, errors }
+  } catch (error) {
+    return {
+      filename,
+      xml: '',
+      isValid: false,
+      errors: [
+        {
+          path: '/',
+          message: `Errore nella generazione del XML: ${error instanceof Error ? error.message : 'Errore sconosciuto'}`,
+          severity: 'error',
+        },
+      ],
+    }
+  }
+}
+
+/**
+ * Generate and validate the XML of every offer variant
+ * Variants ending up with the same file name are flagged as invalid, as they
+ * would overwrite each other in the archive
+ * @param base - Form states shared by every offer of the batch
+ * @param variants - Offer variants to generate
+ * @returns Result of each variant, in the same order
+ */
+export function generateBatch(
+  base: FormStatesInput,
+  variants: OfferVariant[],
+): BatchResult {
+  const items = variants.map((variant) =>
+    generateVariant(mergeVariant(base, variant.overrides)),
+  )
+
+  const seenFilenames = new Set<string>()
+  for (const item of items) {
+    if (seenFilenames.has(item.filename)) {
+      item.isValid = false
+      item.errors = [
+        ...item.errors,
+        {
+          path: '/',
+          message: `Nome file duplicato: ${item.filename}`,
+          severity: 'error',
+        },
+      ]
+    }
+    seenFilenames.add(item.filename)
+  }
+
+  const validCount = items.filter((item) => item.isValid).length
+  return { items, validCount, invalidCount: items.length - validCount }
+}
+
+/**
+ * Summarize the validation results of a batch
+ * @param result - Batch generation result
+ * @param generatedAt - Generation date recorded in the manifest
+ * @returns Manifest listing every file and whether it is in the archive
+ */
+export function createBatchManifest(
+  result: BatchResult,
+  generatedAt: Date = new Date(),
+): BatchManifest {
+  return {
+    generatedAt: generatedAt.toISOString(),
+    total: result.items.length,
+    valid: result.validCount,
+    invalid: result.invalidCount,
+    files: result.items.map((item) => ({
+      filename: item.filename,
+      included: item.isValid,
+      errors: item.errors,
+    })),
+  }
+}
+
+/**
+ * Pack the valid XML files of a batch in a ZIP archive
+ * Invalid files are left out and only reported in the manifest
+ * @param result - Batch generation result
+ * @param generatedAt - Generation date of the archive
+ * @returns ZIP archive bytes
+ */
+export function createBatchZip(
+  result: BatchResult,
+  generatedAt: Date = new Date(),
+): Uint8Array {
+  const manifest = createBatchManifest(result, generatedAt)
+
+  return createZip(
+    [
+      ...result.items
+        .filter((item) => item.isValid)
+        .map((item) => ({ name: item.filename, content: item.xml })),
+      {
+        name: BATCH_MANIFEST_FILENAME,
+        content: JSON.stringify(manifest, null, 2),
+      },
+    ],
+    generatedAt,
+  )
+}
+
+/**
+ * Generate the file name of a batch archive
+ * @param date - Generation date
+ * @returns Filename in format OFFERTE_SII_<YYYYMMDD>.zip
+ */
+export function generateBatchFilename(date: Date = new Date()): string {
+  const day = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('')
+  return `OFFERTE_SII_${day}.zip`
+}
+
+/**
+ * Download a batch as a ZIP archive
+ * @param result - Batch generation result
+ * @param filename - Name of the archive
+ * @returns Success status and optional error message
+ */
+export function downloadBatchZip(
+  result: BatchResult,
+  filename: string = generateBatchFilename(),
+): { success: boolean; error?: string } {
+  if (result.validCount === 0) {
+    return {
+      success: false,
+      error: "Nessun file XML valido da includere nell'archivio",
+    }
+  }
+
+  const zip = createBatchZip(result)
+  return downloadFile(
+    () => new Blob([zip], { type: 'application/zip' }),
+    filename,
+  )
+}
@@ -0,0 +1,350 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { BATCH_MANIFEST_FILENAME } from './batch-generator'
+import { CLI_EXIT_CODES, type CliIO, nodeCliIO, runCli } from './cli'
+import { COMPLETE_OFFER_FIXTURE } from './test-fixtures'
+import { buildXML } from './xml-builder'
+import { toXMLFormData } from './xml-form-data'
+
+// Top-level regex patterns for performance
+const UNKNOWN_COMMAND_REGEX = /Comando non riconosciuto: publish/
+const FORMAT_ERROR_REGEX = /Formato di output non valido/
+const IMPORT_TO_REGEX = /import richiede --to json/
+const SUMMARY_REGEX = /1 di 2 offerte generate in offerte/
+const SPEC_ERROR_REGEX = /Versione delle specifiche non supportata: 1\.0/
+
+const validXML = buildXML(toXMLFormData(COMPLETE_OFFER_FIXTURE))
+
+const OFFER_FILENAME = 'IT12345678901_INSERIMENTO_LUCE_FISSA.XML'
+
+const createMemoryIO = (files: Record<string, string>) => {
+  const stdout: string[] = []
+  const stderr: string[] = []
+  const directories: string[] = []
+  const io: CliIO = {
+    readFile: (path) =>
+      path in files
+        ? Promise.resolve(files[path])
+        : Promise.reject(new Error('ENOENT')),
+    writeFile: (path, content) => {
+      files[path] = content
+      return Promise.resolve()
+    },
+    readDir: (path) =>
+      Promise.resolve(
+        Object.keys(files)
+          .filter((file) => file.startsWith(`${path}/`))
+          .map((file) => file.slice(path.length + 1)),
+      ),
+    makeDir: (path) => {
+      directories.push(path)
+      return Promise.resolve()
+    },
+    stdout: (text) => stdout.push(text),
+    stderr: (text) => stderr.push(text),
+  }
+  return { io, files, directories, stdout, stderr }
+}
+
+describe('cli', () => {
+  describe('usage', () => {
+    it('should print the help', async () => {
+      const { io, stdout } = createMemoryIO({})
+
+      expect(await runCli(['--help'], io)).toBe(CLI_EXIT_CODES.OK)
+      expect(stdout[0]).toContain('Uso: sii-offer')
+    })
+
+    it('should reject unknown commands', async () => {
+      const { io, stderr } = createMemoryIO({})
+
+      expect(await runCli(['publish', 'offerta.json'], io)).toBe(
+        CLI_EXIT_CODES.USAGE,
+      )
+      expect(stderr[0]).toMatch(UNKNOWN_COMMAND_REGEX)
+    })
+
+    it('should reject unknown output formats', async () => {
+      const { io, stderr } = createMemoryIO({})
+
+      expect(
+        await runCli(['validate', 'offerta.xml', '--format', 'yaml'], io),
+      ).toBe(CLI_EXIT_CODES.USAGE)
+      expect(stderr[0]).toMatch(FORMAT_ERROR_REGEX)
+    })
+
+    it('should report unreadable files as JSON', async () => {
+      const { io, stdout } = createMemoryIO({})
+
+      expect(
+        await runCli(['validate', 'offerta.xml', '--format', 'json'], io),
+      ).toBe(CLI_EXIT_CODES.IO)
+      expect(JSON.parse(stdout[0])).toEqual({
+        success: false,
+        errors: [
+          {
+            path: '/',
+            message: 'Impossibile leggere il file offerta.xml',
+            severity: 'error',
+          },
+        ],
+      })
+    })
+  })
+
+  describe('build', () => {
+    it('should write the XML of valid offers', async () => {
+      const { io, files, stdout } = createMemoryIO({
+        'offerta.json': JSON.stringify(COMPLETE_OFFER_FIXTURE),
+      })
+
+      const exitCode = await runCli(
+        ['build', 'offerta.json', '--out', 'offerta.xml', '--format=json'],
+        io,
+      )
+
+      expect(exitCode).toBe(CLI_EXIT_CODES.OK)
+      expect(files['offerta.xml']).toBe(validXML)
+      expect(JSON.parse(stdout[0])).toMatchObject({
+        success: true,
+        filename: OFFER_FILENAME,
+        out: 'offerta.xml',
+      })
+    })
+
+    it('should print the XML without --out', async () => {
+      const { io, stdout } = createMemoryIO({
+        'offerta.json': JSON.stringify(COMPLETE_OFFER_FIXTURE),
+      })
+
+      expect(await runCli(['build', 'offerta.json'], io)).toBe(
+        CLI_EXIT_CODES.OK,
+      )
+      expect(stdout[0]).toBe(validXML)
+    })
+
+    it('should fail on invalid offers', async () => {
+      const { io, stderr } = createMemoryIO({
+        'offerta.json': JSON.stringify({ basicInfo: {} }),
+      })
+
+      expect(await runCli(['build', 'offerta.json'], io)).toBe(
+        CLI_EXIT_CODES.INVALID,
+      )
+      expect(stderr).toContain(
+        'ERRORE basicInfo.pivaUtente: Campo obbligatorio mancante',
+      )
+    })
+  })
+
+  describe('validate', () => {
+    it('should accept a valid XML', async () => {
+      const { io, stdout } = createMemoryIO({ 'offerta.xml': validXML })
+
+      expect(await runCli(['validate', 'offerta.xml'], io)).toBe(
+        CLI_EXIT_CODES.OK,
+      )
+      expect(stdout[0]).toContain('offerta.xml:')
+    })
+
+    it('should validate against the given version of the specification', async () => {
+      const { io } = createMemoryIO({ 'offerta.xml': validXML })
+
+      expect(
+        await runCli(['validate', 'offerta.xml', '--spec', '4.5'], io),
+      ).toBe(CLI_EXIT_CODES.OK)
+    })
+
+    it('should reject unsupported versions of the specification', async () => {
+      const { io, stderr } = createMemoryIO({ 'offerta.xml': validXML })
+
+      expect(
+        await runCli(['validate', 'offerta.xml', '--spec', '1.0'], io),
+      ).toBe(CLI_EXIT_CODES.USAGE)
+      expect(stderr[0]).toMatch(SPEC_ERROR_REGEX)
+    })
+
+    it('should fail on an invalid XML', async () => {
+      const { io, stdout } = createMemoryIO({ 'offerta.xml': '<Offerta>' })
+
+      expect(
+        await runCli(['validate', 'offerta.xml', '--format', 'json'], io),
+      ).toBe(CLI_EXIT_CODES.INVALID)
+      expect(JSON.parse(stdout[0]).isValid).toBe(false)
+    })
+  })
+
+  describe('import', () => {
+    it('should convert an XML into the form steps', async () => {
+      const { io, stdout } = createMemoryIO({ 'offerta.xml': validXML })
+
+      expect(await runCli(['import', 'offerta.xml', '--to', 'json'], io)).toBe(
+        CLI_EXIT_CODES.OK,
+      )
+      expect(JSON.parse(stdout[0]).basicInfo).toMatchObject({
+        pivaUtente: 'IT12345678901',
+        codOfferta: 'LUCE01',
+      })
+    })
+
+    it('should require the target format', async () => {
+      const { io, stderr } = createMemoryIO({ 'offerta.xml': validXML })
+
+      expect(await runCli(['import', 'offerta.xml'], io)).toBe(
+        CLI_EXIT_CODES.USAGE,
+      )
+      expect(stderr[0]).toMatch(IMPORT_TO_REGEX)
+    })
+  })
+
+  describe('batch', () => {
+    it('should process every JSON file of the directory', async () => {
+      const { io, files, stdout } = createMemoryIO({
+        'offerte/a.json': JSON.stringify(COMPLETE_OFFER_FIXTURE),
+        'offerte/b.json': '{',
+        'offerte/note.txt': 'ignorato',
+      })
+
+      const exitCode = await runCli(['batch', 'offerte'], io)
+
+      expect(exitCode).toBe(CLI_EXIT_CODES.INVALID)
+      expect(files[`offerte/${OFFER_FILENAME}`]).toBe(validXML)
+      expect(stdout).toContain(`OK     a.json -> ${OFFER_FILENAME}`)
+      expect(stdout).toContain('ERRORE b.json: Trovati 1 errore')
+      expect(stdout.at(-1)).toMatch(SUMMARY_REGEX)
+    })
+
+    it('should report a JSON summary', async () => {
+      const { io, files, directories, stdout } = createMemoryIO({
+        'offerte/a.json': JSON.stringify(COMPLETE_OFFER_FIXTURE),
+        'offerte/b.json': '{',
+      })
+
+      expect(
+        await runCli(
+          ['batch', 'offerte', '--out', 'xml', '--format', 'json'],
+          io,
+        ),
+      ).toBe(CLI_EXIT_CODES.INVALID)
+      expect(directories).toEqual(['xml'])
+      expect(files[`xml/${OFFER_FILENAME}`]).toBe(validXML)
+      expect(JSON.parse(stdout[0])).toMatchObject({
+        total: 2,
+        valid: 1,
+        invalid: 1,
+        manifest: `xml/${BATCH_MANIFEST_FILENAME}`,
+        files: [
+          { source: 'a.json', filename: OFFER_FILENAME, success: true },
+          {
+            source: 'b.json',
+            success: false,
+            errors: [{ message: 'offerte/b.json non contiene un JSON valido' }],
+          },
+        ],
+      })
+    })
+
+    it('should report the missing steps of a JSON file', async () => {
+      const { basicInfo: _, ...withoutBasicInfo } = COMPLETE_OFFER_FIXTURE
+      const { io, files, stderr } = createMemoryIO({
+        'offerte/a.json': JSON.stringify(withoutBasicInfo),
+      })
+
+      expect(await runCli(['batch', 'offerte'], io)).toBe(
+        CLI_EXIT_CODES.INVALID,
+      )
+      expect(stderr).toContain(
+        'ERRORE basicInfo.pivaUtente: Campo obbligatorio mancante',
+      )
+      expect(Object.keys(files)).toEqual([
+        'offerte/a.json',
+        `offerte/${BATCH_MANIFEST_FILENAME}`,
+      ])
+    })
+
+    it('should not write files named after the placeholder PIVA', async () => {
+      const { io, files, stderr } = createMemoryIO({
+        'offerte/a.json': JSON.stringify({
+          ...COMPLETE_OFFER_FIXTURE,
+          basicInfo: {
+            ...COMPLETE_OFFER_FIXTURE.basicInfo,
+            pivaUtente: 'IT00000000000',
+          },
+        }),
+      })
+
+      expect(await runCli(['batch', 'offerte'], io)).toBe(
+        CLI_EXIT_CODES.INVALID,
+      )
+      expect(files).not.toHaveProperty(
+        'offerte/IT00000000000_INSERIMENTO_LUCE_FISSA.XML',
+      )
+      expect(stderr).toContain(
+        'ERRORE basicInfo.pivaUtente: PIVA_UTENTE IT00000000000 è il segnaposto del nome file: il XML non viene scritto',
+      )
+    })
+
+    it('should write the manifest of the batch', async () => {
+      const { io, files } = createMemoryIO({
+        'offerte/a.json': JSON.stringify(COMPLETE_OFFER_FIXTURE),
+        'offerte/b.json': JSON.stringify(COMPLETE_OFFER_FIXTURE),
+        [`offerte/${BATCH_MANIFEST_FILENAME}`]: '{}',
+      })
+
+      expect(await runCli(['batch', 'offerte'], io)).toBe(
+        CLI_EXIT_CODES.INVALID,
+      )
+      expect(
+        JSON.parse(files[`offerte/${BATCH_MANIFEST_FILENAME}`]),
+      ).toMatchObject({
+        total: 2,
+        valid: 1,
+        invalid: 1,
+        files: [
+          { filename: OFFER_FILENAME, included: true },
+          {
+            filename: OFFER_FILENAME,
+            included: false,
+            errors: expect.arrayContaining([
+              expect.objectContaining({
+                message: `Nome file duplicato: ${OFFER_FILENAME}`,
+              }),
+            ]),
+          },
+        ],
+      })
+    })
+
+    it('should create the missing output directory', async () => {
+      const directory = await mkdtemp(join(tmpdir(), 'sii-offer-'))
+      const output: string[] = []
+      const io: CliIO = {
+        ...nodeCliIO,
+        stdout: (text) => output.push(text),
+        stderr: (text) => output.push(text),
+      }
+
+      try {
+        await writeFile(
+          join(directory, 'a.json'),
+          JSON.stringify(COMPLETE_OFFER_FIXTURE),
+        )
+        const out = join(directory, 'xml', 'luce')
+
+        expect(await runCli(['batch', directory, '--out', out], io)).toBe(
+          CLI_EXIT_CODES.OK,
+        )
+        expect(await readFile(join(out, OFFER_FILENAME), 'utf8')).toBe(validXML)
+        expect(
+          JSON.parse(
+            await readFile(join(out, BATCH_MANIFEST_FILENAME), 'utf8'),
+          ),
+        ).toMatchObject({ total: 1, valid: 1 })
+      } finally {
+        await rm(directory, { recursive: true, force: true })
+      }
+    })
+  })
+})
@@ -0,0 +1,493 @@
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises'
+import { extname, join } from 'node:path'
+import { parseArgs } from 'node:util'
+import {
+  BATCH_MANIFEST_FILENAME,
+  type BatchItemResult,
+  type BatchResult,
+  createBatchManifest,
+  generateBatch,
+} from './batch-generator'
+import {
+  getSpecVersion,
+  SPEC_VERSIONS,
+  type SpecVersion,
+} from './spec-registry'
+import {
+  generateOfferXML,
+  parseCompleteFormValues,
+  toValidationErrors,
+  validateOfferXML,
+  type XMLGenerationResult,
+} from './xml-api'
+import { PLACEHOLDER_PIVA_UTENTE } from './xml-builder'
+import type { FormStatesInput } from './xml-form-data'
+import { importXML } from './xml-importer'
+import type { ValidationError } from './xml-validator'
+import { getValidationSummary } from './xml-validator'
+
+/**
+ * Command-line interface of the SII offer generator
+ * Exposes the generation, validation and import of lib/xml-generator to
+ * scheduled jobs and CI, with exit codes and a JSON output format
+ */
+
+export const CLI_EXIT_CODES = {
+  // Every offer is valid
+  OK: 0,
+  // At least one offer failed validation
+  INVALID: 1,
+  // Wrong command or options
+  USAGE: 2,
+  // A file could not be read or written
+  IO: 3,
+} as const
+
+export type CliOutputFormat = 'text' | 'json'
+
+// File system and console access, replaced in tests
+export interface CliIO {
+  readFile: (path: string) => Promise<string>
+  writeFile: (path: string, content: string) => Promise<void>
+  readDir: (path: string) => Promise<string[]>
+  // Creates the directory and its parents, if missing
+  makeDir: (path: string) => Promise<void>
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+export const nodeCliIO: CliIO = {
+  readFile: (path) => readFile(path, 'utf8'),
+  writeFile: (path, content) => writeFile(path, content, 'utf8'),
+  readDir: (path) => readdir(path),
+  makeDir: async (path) => {
+    await mkdir(path, { recursive: true })
+  },
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+}
+
+export const CLI_USAGE = `Uso: sii-offer <comando> [opzioni]
+
+Comandi:
+  build <file.json>          Genera il XML da un JSON CompleteFormValues
+  validate <file.xml>        Valida un XML SII (regole di business e XSD)
+  import <file.xml> --to json
+                             Converte un XML SII nel JSON dei passi del modulo
+  batch <cartella>           Genera il XML di ogni file .json della cartella
+                             e il riepilogo manifest.json
+
+Opzioni:
+  --format <text|json>       Formato dell'output (predefinito: text)
+  --out <percorso>           File (build, import) o cartella (batch) di destinazione
+  --to <json>                Formato di destinazione di import
+  --spec <versione>          Versione delle specifiche SII di validate
+                             (predefinita: quella in vigore)
+  -h, --help                 Mostra questo messaggio
+
+Codici di uscita:
+  0  operazione riuscita
+  1  almeno un'offerta non supera la validazione
+  2  comando o opzioni non validi
+  3  errore di lettura o scrittura dei file`
+
+type CliOptions = {
+  format: CliOutputFormat
+  out?: string
+  to?: string
+  spec?: SpecVersion
+}
+
+type CommandHandler = (
+  target: string,
+  options: CliOptions,
+  io: CliIO,
+) => Promise<number>
+
+class CliUsageError extends Error {}
+
+const formatIssue = (issue: ValidationError) =>
+  `${issue.severity === 'error' ? 'ERRORE' : 'AVVISO'} ${issue.path}: ${issue.message}`
+
+const printJSON = (io: CliIO, value: unknown) => {
+  io.stdout(JSON.stringify(value, null, 2))
+}
+
+const printIssues = (io: CliIO, issues: ValidationError[]) => {
+  for (const issue of issues) {
+    io.stderr(formatIssue(issue))
+  }
+}
+
+const readSource = async (io: CliIO, path: string) => {
+  try {
+    return await io.readFile(path)
+  } catch {
+    throw new Error(`Impossibile leggere il file ${path}`)
+  }
+}
+
+const writeTarget = async (io: CliIO, path: string, content: string) => {
+  try {
+    await io.writeFile(path, content)
+  } catch {
+    throw new Error(`Impossibile scrivere il file ${path}`)
+  }
+}
+
+const parseJSONFile = async (io: CliIO, path: string) => {
+  const content = await readSource(io, path)
+  try {
+    return { input: JSON.parse(content) as unknown }
+  } catch {
+    return {
+      errors: [
+        {
+          path: '/',
+          message: `${path} non contiene un JSON valido`,
+          severity: 'error',
+        },
+      ] satisfies ValidationError[],
+    }
+  }
+}
+
+const generateFromJSONFile = async (
+  io: CliIO,
+  path: string,
+): Promise<XMLGenerationResult> => {
+  const parsed = await parseJSONFile(io, path)
+  return parsed.errors
+    ? { success: false, errors: parsed.errors }
+    : generateOfferXML(parsed.input)
+}
+
+const runBuild: CommandHandler = async (target, options, io) => {
+  const result = await generateFromJSONFile(io, target)
+
+  if (!result.success) {
+    if (options.format === 'json') {
+      printJSON(io, { success: false, errors: result.errors })
+    } else {
+      io.stderr(getValidationSummary(result.errors))
+      printIssues(io, result.errors)
+    }
+    return CLI_EXIT_CODES.INVALID
+  }
+
+  if (options.out) {
+    await writeTarget(io, options.out, result.xml)
+  }
+
+  if (options.format === 'json') {
+    printJSON(io, {
+      success: true,
+      filename: result.filename,
+      warnings: result.warnings,
+      ...(options.out ? { out: options.out } : { xml: result.xml }),
+    })
+  } else if (options.out) {
+    io.stdout(`XML generato: ${options.out}`)
+    printIssues(io, result.warnings)
+  } else {
+    // The XML goes to stdout so it can be redirected, messages to stderr
+    io.stdout(result.xml)
+    printIssues(io, result.warnings)
+  }
+  return CLI_EXIT_CODES.OK
+}
+
+const runValidate: CommandHandler = async (target, options, io) => {
+  const validation = validateOfferXML(
+    await readSource(io, target),
+    undefined,
+    options.spec,
+  )
+
+  if (options.format === 'json') {
+    printJSON(io, validation)
+  } else {
+    io.stdout(`${target}: ${validation.summary}`)
+    for (const issue of validation.errors) {
+      io.stdout(formatIssue(issue))
+    }
+  }
+  return validation.isValid ? CLI_EXIT_CODES.OK : CLI_EXIT_CODES.INVALID
+}
+
+const runImport: CommandHandler = async (target, options, io) => {
+  if (options.to !== 'json') {
+    throw new CliUsageError('import richiede --to json')
+  }
+
+  const result = importXML(await readSource(io, target))
+  const formStatesJSON = JSON.stringify(result.formStates, null, 2)
+  if (result.success && options.out) {
+    await writeTarget(io, options.out, formStatesJSON)
+  }
+
+  if (options.format === 'json') {
+    printJSON(io, result)
+  } else {
+    if (result.success && !options.out) {
+      io.stdout(formStatesJSON)
+    } else if (result.success) {
+      io.stdout(`JSON generato: ${options.out}`)
+    }
+    printIssues(io, result.issues)
+  }
+  return result.success ? CLI_EXIT_CODES.OK : CLI_EXIT_CODES.INVALID
+}
+
+type BatchSource = { source: string } & (
+  | { input: FormStatesInput }
+  | { errors: ValidationError[] }
+)
+
+// JSON files are checked with the complete form schema, as the API does
+const readBatchSource = async (
+  io: CliIO,
+  directory: string,
+  source: string,
+): Promise<BatchSource> => {
+  const parsed = await parseJSONFile(io, join(directory, source))
+  if (parsed.errors) {
+    return { source, errors: parsed.errors }
+  }
+  const validated = parseCompleteFormValues(parsed.input)
+  return validated.success
+    ? { source, input: validated.data }
+    : { source, errors: toValidationErrors(validated.error.issues) }
+}
+
+// A file named after the placeholder PIVA would reach SII under a wrong sender
+const refusePlaceholderFilename = (item: BatchItemResult): BatchItemResult =>
+  item.filename.startsWith(`${PLACEHOLDER_PIVA_UTENTE}_`)
+    ? {
+        ...item,
+        isValid: false,
+        errors: [
+          ...item.errors,
+          {
+            path: 'basicInfo.pivaUtente',
+            message: `PIVA_UTENTE ${PLACEHOLDER_PIVA_UTENTE} è il segnaposto del nome file: il XML non viene scritto`,
+            severity: 'error',
+          },
+        ],
+      }
+    : item
+
+// Files rejected before generation keep the name of their JSON file
+const toBatchResult = (sources: BatchSource[]): BatchResult => {
+  const generated = generateBatch(
+    {},
+    sources.flatMap((source) =>
+      'input' in source ? [{ overrides: source.input }] : [],
+    ),
+  ).items.map(refusePlaceholderFilename)
+  let generatedIndex = 0
+  const items = sources.map(
+    (source): BatchItemResult =>
+      'input' in source
+        ? generated[generatedIndex++]
+        : {
+            filename: source.source,
+            xml: '',
+            isValid: false,
+            errors: source.errors,
+          },
+  )
+  const validCount = items.filter((item) => item.isValid).length
+  return { items, validCount, invalidCount: items.length - validCount }
+}
+
+const writeBatch = async (
+  io: CliIO,
+  directory: string,
+  result: BatchResult,
+) => {
+  try {
+    await io.makeDir(directory)
+  } catch {
+    throw new Error(`Impossibile creare la cartella ${directory}`)
+  }
+  await Promise.all(
+    result.items
+      .filter((item) => item.isValid)
+      .map((item) => writeTarget(io, join(directory, item.filename), item.xml)),
+  )
+  await writeTarget(
+    io,
+    join(directory, BATCH_MANIFEST_FILENAME),
+    JSON.stringify(createBatchManifest(result), null, 2),
+  )
+}
+
+const runBatch: CommandHandler = async (target, options, io) => {
+  let entries: string[]
+  try {
+    entries = await io.readDir(target)
+  } catch {
+    throw new Error(`Impossibile leggere la cartella ${target}`)
+  }
+
+  // The manifest of a previous run is not an offer
+  const sources = await Promise.all(
+    entries
+      .filter(
+        (entry) =>
+          extname(entry).toLowerCase() === '.json' &&
+          entry !== BATCH_MANIFEST_FILENAME,
+      )
+      .sort()
+      .map((entry) => readBatchSource(io, target, entry)),
+  )
+  const result = toBatchResult(sources)
+  const outDirectory = options.out ?? target
+  await writeBatch(io, outDirectory, result)
+
+  const files = sources.map(({ source }, index) => {
+    const { filename, isValid, errors } = result.items[index]
+    return {
+      source,
+      ...('input' in sources[index] ? { filename } : {}),
+      success: isValid,
+      errors,
+    }
+  })
+  if (options.format === 'json') {
+    printJSON(io, {
+      total: result.items.length,
+      valid: result.validCount,
+      invalid: result.invalidCount,
+      manifest: join(outDirectory, BATCH_MANIFEST_FILENAME),
+      files,
+    })
+  } else {
+    for (const file of files) {
+      io.stdout(
+        file.success
+          ? `OK     ${file.source} -> ${file.filename}`
+          : `ERRORE ${file.source}: ${getValidationSummary(file.errors)}`,
+      )
+      printIssues(io, file.errors)
+    }
+    io.stdout(
+      `${result.validCount} di ${files.length} offerte generate in ${outDirectory}`,
+    )
+  }
+  return result.invalidCount === 0 ? CLI_EXIT_CODES.OK : CLI_EXIT_CODES.INVALID
+}
+
+const COMMANDS: Record<string, CommandHandler> = {
+  build: runBuild,
+  validate: runValidate,
+  import: runImport,
+  batch: runBatch,
+}
+
+const parseCliArgs = (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', default: 'text' },
+      out: { type: 'string' },
+      to: { type: 'string' },
+      spec: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.format !== 'text' && values.format !== 'json') {
+    throw new CliUsageError(
+      `Formato di output non valido: ${values.format} (valori ammessi: text, json)`,
+    )
+  }
+
+  const spec = values.spec ? getSpecVersion(values.spec) : undefined
+  if (values.spec && !spec) {
+    throw new CliUsageError(
+      `Versione delle specifiche non supportata: ${values.spec} (versioni disponibili: ${SPEC_VERSIONS.map(({ version }) => version).join(', ')})`,
+    )
+  }
+
+  const [command, target, ...rest] = positionals
+  return {
+    help: values.help ?? false,
+    command,
+    target,
+    rest,
+    options: {
+      format: values.format,
+      out: values.out,
+      to: values.to,
+      spec,
+    } satisfies CliOptions,
+  }
+}
+
+const reportFailure = (io: CliIO, format: CliOutputFormat, message: string) => {
+  if (format === 'json') {
+    printJSON(io, {
+      success: false,
+      errors: [{ path: '/', message, severity: 'error' }],
+    })
+  } else {
+    io.stderr(message)
+  }
+}
+
+/**
+ * Run the CLI
+ * @param args - Arguments after the executable name
+ * @param io - File system and console access
+ * @returns Process exit code, see CLI_EXIT_CODES
+ */
+export async function runCli(
+  args: string[],
+  io: CliIO = nodeCliIO,
+): Promise<number> {
+  // Known before parsing, so that option errors honour --format json too
+  const format: CliOutputFormat =
+    args.includes('--format=json') ||
+    args.some((arg, index) => arg === '--format' && args[index + 1] === 'json')
+      ? 'json'
+      : 'text'
+
+  let parsed: ReturnType<typeof parseCliArgs>
+  try {
+    parsed = parseCliArgs(args)
+  } catch (error) {
+    reportFailure(io, format, (error as Error).message)
+    io.stderr(CLI_USAGE)
+    return CLI_EXIT_CODES.USAGE
+  }
+
+  if (parsed.help) {
+    io.stdout(CLI_USAGE)
+    return CLI_EXIT_CODES.OK
+  }
+
+  const handler = parsed.command ? COMMANDS[parsed.command] : undefined
+  if (!(handler && parsed.target) || parsed.rest.length > 0) {
+    reportFailure(
+      io,
+      parsed.options.format,
+      handler
+        ? `Uso: sii-offer ${parsed.command} <file>`
+        : `Comando non riconosciuto: ${parsed.command ?? '(nessuno)'}`,
+    )
+    io.stderr(CLI_USAGE)
+    return CLI_EXIT_CODES.USAGE
+  }
+
+  try {
+    return await handler(parsed.target, parsed.options, io)
+  } catch (error) {
+    reportFailure(io, parsed.options.format, (error as Error).message)
+    return error instanceof CliUsageError
+      ? CLI_EXIT_CODES.USAGE
+      : CLI_EXIT_CODES.IO
+  }
+}
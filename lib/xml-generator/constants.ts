@@ -11,6 +11,11 @@ export const ACTION_TYPES = {
   AGGIORNAMENTO: 'AGGIORNAMENTO',
 } as const
 
+export const ACTION_TYPE_LABELS: Record<string, string> = {
+  INSERIMENTO: 'Inserimento - nuova offerta',
+  AGGIORNAMENTO: "Aggiornamento - modifica di un'offerta già trasmessa",
+} as const
+
 export type ActionType = (typeof ACTION_TYPES)[keyof typeof ACTION_TYPES]
 
 // Market types (TIPO_MERCATO)
@@ -88,6 +93,32 @@ export const OFFER_TYPE_LABELS: Record<string, string> = {
 
 export type OfferType = (typeof OFFER_TYPES)[keyof typeof OFFER_TYPES]
 
+// Offer modes (FR-5.8) - not transmitted, they select the offer format:
+// simulable offers (section 7.1 of the SII document) carry the price structure
+// the Portale Offerte uses to estimate the annual expense, non-simulable
+// offers (section 7.2) leave it out
+export const OFFER_MODES = {
+  SIMULABLE: 'SIMULABILE',
+  NON_SIMULABLE: 'NON_SIMULABILE',
+} as const
+
+export const OFFER_MODE_LABELS: Record<string, string> = {
+  SIMULABILE: 'Simulabile',
+  NON_SIMULABILE: 'Non simulabile',
+} as const
+
+export type OfferMode = (typeof OFFER_MODES)[keyof typeof OFFER_MODES]
+
+// Sections of the simulable format only, left out of non-simulable offers
+export const SIMULABLE_ONLY_SECTIONS = [
+  'ComponentiRegolate',
+  'TipoPrezzo',
+  'FasceOrarieSettimanale',
+  'Dispacciamento',
+  'ComponenteImpresa',
+  'Sconto',
+] as const
+
 // Contract activation types (TIPOLOGIA_ATT_CONTR)
 export const CONTRACT_ACTIVATION_TYPES = {
   SUPPLIER_CHANGE: '01',
@@ -578,6 +609,27 @@ export const TIME_BAND_CONSTANTS = {
   OFFPEAK_BAND_NUMBER: 8,
 } as const
 
+// Standard consumption profiles for the annual cost estimate (spesa annua stimata)
+export const CONSUMPTION_PROFILES = {
+  ELECTRICITY_KWH: [1500, 2700, 4000],
+  GAS_SMC: [700, 1400, 2000],
+  COMMITTED_POWER_KW: 3,
+} as const
+
+// Consumption levels of the annual cost curves of the offer comparison
+// Dual fuel levels pair electricity and gas values by position
+export const COST_CURVE_LEVELS = {
+  ELECTRICITY_KWH: [500, 1000, 1500, 2000, 2500, 3000, 3500, 4000, 4500, 5000],
+  GAS_SMC: [200, 400, 600, 800, 1000, 1200, 1400, 1600, 1800, 2000],
+} as const
+
+// Share of the yearly electricity consumption falling in each time band
+export const TIME_BAND_CONSUMPTION_SHARES = {
+  F1: 0.33,
+  F2: 0.31,
+  F3: 0.36,
+} as const
+
 // Helpers for conditional fields
 export const requiresWeeklyTimeBands = (tipologiaFasce: string): boolean => {
   return ['02', '04', '05', '06'].includes(tipologiaFasce)
@@ -591,6 +643,11 @@ export const requiresEnergyPriceReference = (tipoOfferta: string): boolean => {
   return tipoOfferta === OFFER_TYPES.VARIABLE
 }
 
+// Offers without a mode were created before FR-5.8 and are simulable
+export const isSimulableOffer = (offerMode?: string): boolean => {
+  return offerMode !== OFFER_MODES.NON_SIMULABLE
+}
+
 export const requiresConsumptionLimits = (tipoOfferta: string): boolean => {
   return tipoOfferta === OFFER_TYPES.FLAT
 }
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getValidityPeriodKey,
+  groupConsumptionBrackets,
+  validateConsumptionBrackets,
+} from './consumption-brackets'
+
+describe('consumption-brackets', () => {
+  describe('groupConsumptionBrackets', () => {
+    it('should group brackets by band and validity period', () => {
+      const groups = groupConsumptionBrackets([
+        { componentTimeBand: '01', consumptionFrom: 1000, consumptionTo: 2000 },
+        { componentTimeBand: '02', consumptionFrom: 0 },
+        { componentTimeBand: '01', consumptionFrom: 0, consumptionTo: 1000 },
+        {
+          componentTimeBand: '01',
+          consumptionFrom: 0,
+          validityPeriod: { toDate: '31/12/2099' },
+        },
+      ])
+
+      expect(groups).toHaveLength(3)
+      expect(groups[0].brackets).toEqual([
+        { intervalIndex: 2, from: 0, to: 1000 },
+        { intervalIndex: 0, from: 1000, to: 2000 },
+      ])
+      expect(groups[2].validityPeriod).toEqual({ toDate: '31/12/2099' })
+    })
+
+    it('should ignore groups without consumption ranges', () => {
+      expect(
+        groupConsumptionBrackets([
+          { componentTimeBand: '01' },
+          { componentTimeBand: '02' },
+        ]),
+      ).toEqual([])
+    })
+  })
+
+  describe('validateConsumptionBrackets', () => {
+    it('should accept contiguous brackets starting at 0', () => {
+      expect(
+        validateConsumptionBrackets([
+          { consumptionFrom: 0, consumptionTo: 1000 },
+          { consumptionFrom: 1000, consumptionTo: 2500 },
+          { consumptionFrom: 2501 },
+        ]),
+      ).toEqual([])
+    })
+
+    it('should require the first bracket to start at 0', () => {
+      expect(
+        validateConsumptionBrackets([
+          { consumptionFrom: 100, consumptionTo: 1000 },
+        ]),
+      ).toEqual([
+        {
+          intervalIndex: 0,
+          message: 'Il primo scaglione deve partire da 0 (parte da 100)',
+        },
+      ])
+    })
+
+    it('should report gaps between brackets', () => {
+      const issues = validateConsumptionBrackets([
+        { consumptionFrom: 0, consumptionTo: 1000 },
+        { consumptionFrom: 1500 },
+      ])
+
+      expect(issues).toEqual([
+        {
+          intervalIndex: 1,
+          message: 'Scaglioni non contigui: mancano i consumi tra 1000 e 1500',
+        },
+      ])
+    })
+
+    it('should report overlapping and open-ended brackets', () => {
+      const issues = validateConsumptionBrackets([
+        { componentTimeBand: '01', consumptionFrom: 0, consumptionTo: 1000 },
+        { componentTimeBand: '01', consumptionFrom: 800, consumptionTo: 2000 },
+        { componentTimeBand: '02', consumptionFrom: 0 },
+        { componentTimeBand: '02', consumptionFrom: 500 },
+      ])
+
+      expect(issues.map((issue) => issue.intervalIndex)).toEqual([1, 3])
+    })
+
+    it('should not treat a fixed fee as a bracket of the consumption prices', () => {
+      expect(
+        validateConsumptionBrackets([
+          { componentTimeBand: '01', unitOfMeasure: '01' },
+          { componentTimeBand: '01', unitOfMeasure: '02' },
+          {
+            componentTimeBand: '01',
+            unitOfMeasure: '03',
+            consumptionFrom: 0,
+            consumptionTo: 1000,
+          },
+          {
+            componentTimeBand: '01',
+            unitOfMeasure: '03',
+            consumptionFrom: 1000,
+          },
+        ]),
+      ).toEqual([])
+    })
+
+    it('should check the brackets of each unit of measure separately', () => {
+      const groups = groupConsumptionBrackets([
+        { unitOfMeasure: '03', consumptionFrom: 0, consumptionTo: 1000 },
+        { unitOfMeasure: '01', consumptionFrom: 0 },
+        { unitOfMeasure: '03', consumptionFrom: 1000 },
+      ])
+
+      expect(groups.map((group) => group.unitOfMeasure)).toEqual(['03', '01'])
+      expect(
+        validateConsumptionBrackets([
+          { unitOfMeasure: '03', consumptionFrom: 0, consumptionTo: 1000 },
+          { unitOfMeasure: '01', consumptionFrom: 0 },
+          { unitOfMeasure: '03', consumptionFrom: 1000 },
+        ]),
+      ).toEqual([])
+    })
+  })
+
+  it('should ignore empty fields in validity period keys', () => {
+    expect(getValidityPeriodKey({ fromDate: '', toDate: undefined })).toBe(
+      getValidityPeriodKey(undefined),
+    )
+  })
+})
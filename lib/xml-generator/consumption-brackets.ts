@@ -0,0 +1,143 @@
+/**
+ * Stepped consumption brackets of a ComponenteImpresa
+ * Intervals with the same FASCIA_COMPONENTE, UNITA_MISURA and PeriodoValidita
+ * form a bracket ladder (CONSUMO_DA / CONSUMO_A) that has to start at 0 and
+ * be contiguous and non-overlapping
+ */
+
+export type BracketIntervalInput = {
+  componentTimeBand?: string
+  unitOfMeasure?: string
+  consumptionFrom?: number
+  consumptionTo?: number
+  validityPeriod?: Record<string, unknown>
+}
+
+export type ConsumptionBracket = {
+  intervalIndex: number
+  from: number
+  // Undefined for an open-ended bracket
+  to?: number
+}
+
+export type ConsumptionBracketGroup = {
+  componentTimeBand?: string
+  unitOfMeasure?: string
+  validityPeriod?: Record<string, unknown>
+  // Sorted by CONSUMO_DA
+  brackets: ConsumptionBracket[]
+}
+
+export type ConsumptionBracketIssue = {
+  intervalIndex: number
+  message: string
+}
+
+const hasBracket = (interval: BracketIntervalInput) =>
+  interval.consumptionFrom !== undefined || interval.consumptionTo !== undefined
+
+/**
+ * Key identifying a validity period, ignoring fields left empty
+ *
+ * @param validityPeriod - Validity period of an interval
+ * @returns A key equal for intervals valid in the same period
+ */
+export function getValidityPeriodKey(
+  validityPeriod: Record<string, unknown> | undefined,
+): string {
+  return JSON.stringify(
+    Object.entries(validityPeriod ?? {}).filter(
+      ([, value]) => value !== undefined && value !== '',
+    ),
+  )
+}
+
+const formatBracket = (bracket: ConsumptionBracket) =>
+  `${bracket.from}-${bracket.to ?? 'oltre'}`
+
+/**
+ * Groups the intervals of a component into bracket ladders
+ * Intervals setting neither CONSUMO_DA nor CONSUMO_A, such as fixed fees in
+ * €/anno or €/kW, are not brackets and are left out
+ *
+ * @param intervals - Price intervals of the component
+ * @returns The stepped groups, in order of first appearance
+ */
+export function groupConsumptionBrackets(
+  intervals: BracketIntervalInput[],
+): ConsumptionBracketGroup[] {
+  const groups = new Map<string, ConsumptionBracketGroup>()
+
+  for (const [intervalIndex, interval] of intervals.entries()) {
+    if (!hasBracket(interval)) {
+      continue
+    }
+    const key = `${interval.componentTimeBand ?? ''}|${interval.unitOfMeasure ?? ''}|${getValidityPeriodKey(interval.validityPeriod)}`
+    const group = groups.get(key) ?? {
+      componentTimeBand: interval.componentTimeBand,
+      unitOfMeasure: interval.unitOfMeasure,
+      validityPeriod: interval.validityPeriod,
+      brackets: [],
+    }
+    group.brackets.push({
+      intervalIndex,
+      from: interval.consumptionFrom ?? 0,
+      to: interval.consumptionTo,
+    })
+    groups.set(key, group)
+  }
+
+  return [...groups.values()].map((group) => ({
+    ...group,
+    brackets: [...group.brackets].sort(
+      (a, b) => a.from - b.from || a.intervalIndex - b.intervalIndex,
+    ),
+  }))
+}
+
+// Checks one bracket against the previous one of the ladder
+const checkBracketPair = (
+  previous: ConsumptionBracket,
+  bracket: ConsumptionBracket,
+): string | null => {
+  if (previous.to === undefined || bracket.from < previous.to) {
+    return `Lo scaglione ${formatBracket(bracket)} si sovrappone allo scaglione ${formatBracket(previous)} dell'intervallo ${previous.intervalIndex + 1}`
+  }
+  // CONSUMO_DA may repeat the previous CONSUMO_A or follow it by one unit
+  if (bracket.from > previous.to + 1) {
+    return `Scaglioni non contigui: mancano i consumi tra ${previous.to} e ${bracket.from}`
+  }
+  return null
+}
+
+/**
+ * Checks the bracket ladders of a component for gaps and overlaps
+ *
+ * @param intervals - Price intervals of the component
+ * @returns The issues found, each referring to an interval
+ */
+export function validateConsumptionBrackets(
+  intervals: BracketIntervalInput[],
+): ConsumptionBracketIssue[] {
+  const issues: ConsumptionBracketIssue[] = []
+
+  for (const { brackets } of groupConsumptionBrackets(intervals)) {
+    const [first] = brackets
+    if (first.from !== 0) {
+      issues.push({
+        intervalIndex: first.intervalIndex,
+        message: `Il primo scaglione deve partire da 0 (parte da ${first.from})`,
+      })
+    }
+
+    for (const [index, bracket] of brackets.entries()) {
+      const message =
+        index > 0 ? checkBracketPair(brackets[index - 1], bracket) : null
+      if (message) {
+        issues.push({ intervalIndex: bracket.intervalIndex, message })
+      }
+    }
+  }
+
+  return issues
+}
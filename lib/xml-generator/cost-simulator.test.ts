@@ -0,0 +1,307 @@
+import { describe, expect, it } from 'vitest'
+import {
+  type CostSimulationInput,
+  getConsumptionProfiles,
+  getCostCurveProfiles,
+  simulateAnnualCost,
+  simulateAnnualCosts,
+} from './cost-simulator'
+
+const electricityProfile = {
+  label: '2700 kWh',
+  electricityKWh: 2700,
+  gasSmc: 0,
+  powerKW: 3,
+}
+
+const gasProfile = {
+  label: '1400 Smc',
+  electricityKWh: 0,
+  gasSmc: 1400,
+  powerKW: 0,
+}
+
+const createInput = (
+  overrides: Partial<CostSimulationInput> = {},
+): CostSimulationInput => ({
+  offerDetails: { marketType: '01' },
+  pricingConfig: { timeBandConfiguration: '01' },
+  companyComponents: {
+    companyComponents: [
+      {
+        name: 'Quota fissa',
+        description: 'Commercializzazione',
+        componentType: '01',
+        macroArea: '01',
+        priceIntervals: [{ price: 96, unitOfMeasure: '01' }],
+      },
+      {
+        name: 'Prezzo energia',
+        description: 'Materia prima',
+        componentType: '01',
+        macroArea: '04',
+        priceIntervals: [{ price: 0.1, unitOfMeasure: '03' }],
+      },
+    ],
+  },
+  ...overrides,
+})
+
+describe('cost-simulator', () => {
+  describe('getConsumptionProfiles', () => {
+    it('should return the standard profiles for each market', () => {
+      expect(
+        getConsumptionProfiles('01').map((profile) => profile.electricityKWh),
+      ).toEqual([1500, 2700, 4000])
+      expect(
+        getConsumptionProfiles('02').map((profile) => profile.gasSmc),
+      ).toEqual([700, 1400, 2000])
+      expect(getConsumptionProfiles('03')[0]).toMatchObject({
+        electricityKWh: 1500,
+        gasSmc: 700,
+      })
+      expect(getConsumptionProfiles(undefined)).toEqual([])
+    })
+  })
+
+  describe('getCostCurveProfiles', () => {
+    it('should return ten consumption levels for each market', () => {
+      const electricity = getCostCurveProfiles('01')
+
+      expect(electricity).toHaveLength(10)
+      expect(electricity[0]).toMatchObject({ electricityKWh: 500, gasSmc: 0 })
+      expect(electricity.at(-1)?.electricityKWh).toBe(5000)
+      expect(getCostCurveProfiles('02').at(-1)?.gasSmc).toBe(2000)
+      expect(getCostCurveProfiles(undefined)).toEqual([])
+    })
+  })
+
+  describe('simulateAnnualCost', () => {
+    it('should add fixed fees and energy prices', () => {
+      const result = simulateAnnualCost(createInput(), electricityProfile)
+
+      expect(result.items).toEqual([
+        { type: 'component', name: 'Quota fissa', amount: 96, included: true },
+        {
+          type: 'component',
+          name: 'Prezzo energia',
+          amount: 270,
+          included: true,
+        },
+      ])
+      expect(result.total).toBe(366)
+      expect(result.notes).toEqual([])
+    })
+
+    it('should apply consumption ranges by steps', () => {
+      const result = simulateAnnualCost(
+        createInput({
+          offerDetails: { marketType: '02' },
+          companyComponents: {
+            companyComponents: [
+              {
+                name: 'Prezzo gas',
+                description: 'Materia prima a scaglioni',
+                componentType: '01',
+                macroArea: '04',
+                priceIntervals: [
+                  {
+                    consumptionFrom: 1001,
+                    price: 0.4,
+                    unitOfMeasure: '04',
+                  },
+                  {
+                    consumptionFrom: 0,
+                    consumptionTo: 1000,
+                    price: 0.5,
+                    unitOfMeasure: '04',
+                  },
+                ],
+              },
+            ],
+          },
+        }),
+        gasProfile,
+      )
+
+      // 1000 Smc at 0.5 and the remaining 400 Smc at 0.4
+      expect(result.total).toBe(660)
+    })
+
+    it('should split the consumption across time bands', () => {
+      const result = simulateAnnualCost(
+        createInput({
+          pricingConfig: { timeBandConfiguration: '03' },
+          companyComponents: {
+            companyComponents: [
+              {
+                name: 'Prezzo energia',
+                description: 'Prezzo per fascia',
+                componentType: '01',
+                macroArea: '04',
+                priceIntervals: [
+                  {
+                    componentTimeBand: '01',
+                    price: 0.2,
+                    unitOfMeasure: '03',
+                  },
+                  {
+                    componentTimeBand: '91',
+                    price: 0.1,
+                    unitOfMeasure: '03',
+                  },
+                  {
+                    componentTimeBand: '04',
+                    price: 0.3,
+                    unitOfMeasure: '03',
+                  },
+                ],
+              },
+            ],
+          },
+        }),
+        electricityProfile,
+      )
+
+      // F1 33% at 0.2, F2+F3 67% at 0.1
+      expect(result.total).toBe(359.1)
+      expect(result.notes).toEqual([
+        'Prezzo energia: fascia F4 non inclusa nella stima',
+      ])
+    })
+
+    it('should select fixed fee ranges by the commodity of the component', () => {
+      const result = simulateAnnualCost(
+        createInput({
+          offerDetails: { marketType: '03' },
+          companyComponents: {
+            companyComponents: [
+              {
+                name: 'Gas',
+                description: 'Quota fissa e materia prima gas',
+                componentType: '01',
+                macroArea: '04',
+                priceIntervals: [
+                  {
+                    price: 60,
+                    unitOfMeasure: '01',
+                    consumptionFrom: 0,
+                    consumptionTo: 1500,
+                  },
+                  { price: 0.5, unitOfMeasure: '04' },
+                ],
+              },
+              {
+                name: 'Quota per consumi',
+                description: 'Commercializzazione',
+                componentType: '01',
+                macroArea: '01',
+                priceIntervals: [
+                  { price: 24, unitOfMeasure: '01', consumptionFrom: 1000 },
+                ],
+              },
+            ],
+          },
+        }),
+        { ...electricityProfile, label: 'Dual fuel', gasSmc: 1400 },
+      )
+
+      // 1400 Smc fall in the 0-1500 range of the gas fee
+      expect(result.items.map((item) => item.amount)).toEqual([760, 0])
+      expect(result.notes).toEqual([
+        'Quota per consumi: scaglione di consumo della quota fissa non determinabile, non incluso nella stima',
+      ])
+    })
+
+    it('should exclude optional components from the total', () => {
+      const input = createInput()
+      const components = input.companyComponents?.companyComponents ?? []
+      const result = simulateAnnualCost(
+        {
+          ...input,
+          companyComponents: {
+            companyComponents: [
+              components[0],
+              { ...components[1], componentType: '02' },
+            ],
+          },
+        },
+        electricityProfile,
+      )
+
+      expect(result.items[1]).toMatchObject({ amount: 270, included: false })
+      expect(result.total).toBe(96)
+    })
+
+    it('should charge dispatching values on electricity consumption', () => {
+      const result = simulateAnnualCost(
+        createInput({
+          pricingConfig: {
+            dispatching: [
+              {
+                dispatchingType: '99',
+                dispatchingValue: 0.01,
+                componentName: 'Dispacciamento',
+              },
+              { dispatchingType: '01', componentName: 'Disp. del.111/06' },
+            ],
+          },
+        }),
+        electricityProfile,
+      )
+
+      expect(result.items[2]).toEqual({
+        type: 'dispatching',
+        name: 'Dispacciamento',
+        amount: 27,
+        included: true,
+      })
+      expect(result.total).toBe(393)
+      expect(result.notes).toHaveLength(1)
+    })
+
+    it('should subtract discounts for their validity period', () => {
+      const result = simulateAnnualCost(
+        createInput({
+          additionalFeatures: {
+            discounts: [
+              {
+                name: 'Sconto benvenuto',
+                description: 'Sconto sulla quota fissa',
+                vatApplicability: '01',
+                validityPeriod: { duration: 6 },
+                condition: { applicationCondition: '00' },
+                discountPrices: [
+                  { discountType: '01', unitOfMeasure: '01', price: 48 },
+                ],
+              },
+              {
+                name: 'Sconto bolletta web',
+                description: 'Sconto percentuale',
+                vatApplicability: '01',
+                condition: { applicationCondition: '01' },
+                discountPrices: [
+                  { discountType: '03', unitOfMeasure: '06', price: 10 },
+                ],
+              },
+            ],
+          },
+        }),
+        electricityProfile,
+      )
+
+      expect(result.items.slice(2).map((item) => item.amount)).toEqual([
+        -24, -36.6,
+      ])
+      expect(result.total).toBe(305.4)
+    })
+  })
+
+  describe('simulateAnnualCosts', () => {
+    it('should estimate every profile of the offer market', () => {
+      const results = simulateAnnualCosts(createInput())
+
+      expect(results.map((result) => result.total)).toEqual([246, 366, 496])
+    })
+  })
+})
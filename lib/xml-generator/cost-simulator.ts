@@ -0,0 +1,458 @@
+import {
+  COMPONENT_TIME_BAND_LABELS,
+  COMPONENT_TIME_BANDS,
+  COMPONENT_TYPES,
+  CONSUMPTION_PROFILES,
+  COST_CURVE_LEVELS,
+  MARKET_TYPES,
+  TIME_BAND_CONFIGURATIONS,
+  TIME_BAND_CONSUMPTION_SHARES,
+  UNIT_OF_MEASURE_LABELS,
+  UNITS_OF_MEASURE,
+} from './constants'
+import type {
+  AdditionalFeaturesFormValues,
+  CompanyComponentsFormValues,
+  OfferDetailsFormValues,
+  PricingConfigFormValues,
+} from './schemas'
+
+/**
+ * Annual cost simulator for SII offers (spesa annua stimata)
+ * Estimates the yearly spend of the offer being built for the standard
+ * consumption profiles, from company components, dispatching and discounts.
+ * Regulated charges, network costs and taxes are not included.
+ */
+
+const MONTHS_PER_YEAR = 12
+
+// Form states read by the simulator, steps may still be empty
+export interface CostSimulationInput {
+  offerDetails?: Partial<OfferDetailsFormValues> | null
+  pricingConfig?: Partial<PricingConfigFormValues> | null
+  companyComponents?: Partial<CompanyComponentsFormValues> | null
+  additionalFeatures?: Partial<AdditionalFeaturesFormValues> | null
+}
+
+export interface ConsumptionProfile {
+  label: string
+  electricityKWh: number
+  gasSmc: number
+  powerKW: number
+}
+
+export interface CostBreakdownItem {
+  type: 'component' | 'dispatching' | 'discount'
+  name: string
+  amount: number
+  // Optional components are shown but not counted in the total
+  included: boolean
+}
+
+export interface AnnualCostEstimate {
+  profile: ConsumptionProfile
+  items: CostBreakdownItem[]
+  total: number
+  notes: string[]
+}
+
+type CompanyComponent = NonNullable<
+  CompanyComponentsFormValues['companyComponents']
+>[number]
+type PriceInterval = CompanyComponent['priceIntervals'][number]
+type Discount = NonNullable<AdditionalFeaturesFormValues['discounts']>[number]
+
+const roundToCents = (value: number) => Math.round(value * 100) / 100
+
+const formatQuantity = (value: number) => value.toLocaleString('it-IT')
+
+/**
+ * Build the consumption profiles of a market type from consumption levels
+ * Dual fuel profiles pair the electricity and gas levels by position
+ * @returns Profiles to simulate, empty if the market type is not set
+ */
+function toConsumptionProfiles(
+  marketType: string | undefined,
+  electricityLevels: readonly number[],
+  gasLevels: readonly number[],
+): ConsumptionProfile[] {
+  const powerKW = CONSUMPTION_PROFILES.COMMITTED_POWER_KW
+
+  if (marketType === MARKET_TYPES.ELECTRICITY) {
+    return electricityLevels.map((electricityKWh) => ({
+      label: `${formatQuantity(electricityKWh)} kWh`,
+      electricityKWh,
+      gasSmc: 0,
+      powerKW,
+    }))
+  }
+  if (marketType === MARKET_TYPES.GAS) {
+    return gasLevels.map((gasSmc) => ({
+      label: `${formatQuantity(gasSmc)} Smc`,
+      electricityKWh: 0,
+      gasSmc,
+      powerKW: 0,
+    }))
+  }
+  if (marketType === MARKET_TYPES.DUAL_FUEL) {
+    return electricityLevels.map((electricityKWh, index) => {
+      const gasSmc = gasLevels[index]
+      return {
+        label: `${formatQuantity(electricityKWh)} kWh + ${formatQuantity(gasSmc)} Smc`,
+        electricityKWh,
+        gasSmc,
+        powerKW,
+      }
+    })
+  }
+  return []
+}
+
+/**
+ * Get the standard consumption profiles for a market type
+ * @param marketType - TIPO_MERCATO code
+ * @returns Profiles to simulate, empty if the market type is not set
+ */
+export function getConsumptionProfiles(
+  marketType: string | undefined,
+): ConsumptionProfile[] {
+  return toConsumptionProfiles(
+    marketType,
+    CONSUMPTION_PROFILES.ELECTRICITY_KWH,
+    CONSUMPTION_PROFILES.GAS_SMC,
+  )
+}
+
+/**
+ * Get the consumption levels of the annual cost curve for a market type
+ * @param marketType - TIPO_MERCATO code
+ * @returns Profiles from the lowest to the highest consumption
+ */
+export function getCostCurveProfiles(
+  marketType: string | undefined,
+): ConsumptionProfile[] {
+  return toConsumptionProfiles(
+    marketType,
+    COST_CURVE_LEVELS.ELECTRICITY_KWH,
+    COST_CURVE_LEVELS.GAS_SMC,
+  )
+}
+
+/**
+ * Share of the yearly consumption billed in a component time band
+ * Peak is approximated with F1 and OffPeak with F2+F3
+ * @returns Share between 0 and 1, undefined if the band is not simulated
+ */
+function getTimeBandShare(
+  timeBand: string | undefined,
+  timeBandConfiguration: string | undefined,
+): number | undefined {
+  const { F1, F2, F3 } = TIME_BAND_CONSUMPTION_SHARES
+
+  // Without time bands the whole consumption is billed at a single price
+  if (
+    !(timeBand && timeBandConfiguration) ||
+    timeBandConfiguration === TIME_BAND_CONFIGURATIONS.MONORARIO
+  ) {
+    return 1
+  }
+
+  const shares: Record<string, number> = {
+    [COMPONENT_TIME_BANDS.MONORARIO_F1]: F1,
+    [COMPONENT_TIME_BANDS.F2]: F2,
+    [COMPONENT_TIME_BANDS.F3]: F3,
+    [COMPONENT_TIME_BANDS.PEAK]: F1,
+    [COMPONENT_TIME_BANDS.OFFPEAK]: F2 + F3,
+    [COMPONENT_TIME_BANDS.F2_F3]: F2 + F3,
+    [COMPONENT_TIME_BANDS.F1_F3]: F1 + F3,
+    [COMPONENT_TIME_BANDS.F1_F2]: F1 + F2,
+  }
+  return shares[timeBand]
+}
+
+/**
+ * Apply stepped prices to a quantity
+ * Each interval covers the consumption from the end of the previous one up to
+ * its CONSUMO_A: 0-100 at X and 101-200 at Y bill 150 as 100*X + 50*Y
+ */
+function applySteppedPrices(
+  quantity: number,
+  intervals: PriceInterval[],
+): number {
+  const sorted = [...intervals].sort(
+    (a, b) => (a.consumptionFrom ?? 0) - (b.consumptionFrom ?? 0),
+  )
+
+  let amount = 0
+  let lowerBound = 0
+  for (const interval of sorted) {
+    const upperBound = interval.consumptionTo ?? Number.POSITIVE_INFINITY
+    const steppedQuantity = Math.min(quantity, upperBound) - lowerBound
+    if (steppedQuantity > 0) {
+      amount += steppedQuantity * interval.price
+    }
+    lowerBound = Math.max(lowerBound, upperBound)
+  }
+  return amount
+}
+
+const isEnergyUnit = (unitOfMeasure: string) =>
+  unitOfMeasure === UNITS_OF_MEASURE.EURO_KWH ||
+  unitOfMeasure === UNITS_OF_MEASURE.EURO_SM3
+
+const getYearlyQuantity = (
+  unitOfMeasure: string,
+  profile: ConsumptionProfile,
+) =>
+  unitOfMeasure === UNITS_OF_MEASURE.EURO_KWH
+    ? profile.electricityKWh
+    : profile.gasSmc
+
+const isFixedFeeUnit = (unitOfMeasure: string) =>
+  unitOfMeasure === UNITS_OF_MEASURE.EURO_YEAR ||
+  unitOfMeasure === UNITS_OF_MEASURE.EURO_KW ||
+  unitOfMeasure === UNITS_OF_MEASURE.EURO
+
+const getUnitNote = (name: string, unitOfMeasure: string) =>
+  unitOfMeasure === UNITS_OF_MEASURE.PERCENTAGE
+    ? `${name}: prezzi in percentuale non inclusi nella stima`
+    : `${name}: unità di misura ${UNIT_OF_MEASURE_LABELS[unitOfMeasure] ?? unitOfMeasure} non inclusa nella stima`
+
+/**
+ * Energy unit whose yearly consumption selects the fixed fee ranges
+ * Taken from the energy prices of the component, or from the profile when it
+ * has a single commodity
+ * @returns EURO_KWH or EURO_SM3, undefined if the commodity is ambiguous
+ */
+function getReferenceUnit(
+  component: CompanyComponent,
+  profile: ConsumptionProfile,
+): string | undefined {
+  const energyInterval = component.priceIntervals?.find((interval) =>
+    isEnergyUnit(interval.unitOfMeasure),
+  )
+  if (energyInterval) {
+    return energyInterval.unitOfMeasure
+  }
+  if (profile.gasSmc === 0) {
+    return UNITS_OF_MEASURE.EURO_KWH
+  }
+  if (profile.electricityKWh === 0) {
+    return UNITS_OF_MEASURE.EURO_SM3
+  }
+  return
+}
+
+/**
+ * Yearly amount of a fixed fee interval
+ * Fixed fees only apply when the yearly consumption falls in their range
+ * @param referenceUnit - Energy unit of the consumption compared to the range
+ * @returns Amount in euro, undefined if the range cannot be evaluated
+ */
+function getFixedFee(
+  interval: PriceInterval,
+  profile: ConsumptionProfile,
+  referenceUnit: string | undefined,
+): number | undefined {
+  const hasRange =
+    interval.consumptionFrom !== undefined ||
+    interval.consumptionTo !== undefined
+  if (hasRange && !referenceUnit) {
+    return
+  }
+
+  const referenceQuantity = referenceUnit
+    ? getYearlyQuantity(referenceUnit, profile)
+    : 0
+  const inRange =
+    !hasRange ||
+    (referenceQuantity >= (interval.consumptionFrom ?? 0) &&
+      referenceQuantity <= (interval.consumptionTo ?? Number.POSITIVE_INFINITY))
+  if (!inRange) {
+    return 0
+  }
+
+  return interval.unitOfMeasure === UNITS_OF_MEASURE.EURO_KW
+    ? interval.price * profile.powerKW
+    : interval.price
+}
+
+function simulateComponent(
+  component: CompanyComponent,
+  profile: ConsumptionProfile,
+  timeBandConfiguration: string | undefined,
+  notes: Set<string>,
+): number {
+  const energyIntervals = new Map<string, PriceInterval[]>()
+  const referenceUnit = getReferenceUnit(component, profile)
+  let amount = 0
+
+  for (const interval of component.priceIntervals ?? []) {
+    if (isEnergyUnit(interval.unitOfMeasure)) {
+      // Steps are evaluated separately for each unit and time band
+      const key = `${interval.unitOfMeasure}-${interval.componentTimeBand ?? ''}`
+      energyIntervals.set(key, [...(energyIntervals.get(key) ?? []), interval])
+      continue
+    }
+    if (!isFixedFeeUnit(interval.unitOfMeasure)) {
+      notes.add(getUnitNote(component.name, interval.unitOfMeasure))
+      continue
+    }
+
+    const fee = getFixedFee(interval, profile, referenceUnit)
+    if (fee === undefined) {
+      notes.add(
+        `${component.name}: scaglione di consumo della quota fissa non determinabile, non incluso nella stima`,
+      )
+    } else {
+      amount += fee
+    }
+  }
+
+  for (const intervals of energyIntervals.values()) {
+    const { unitOfMeasure, componentTimeBand } = intervals[0]
+    const share = getTimeBandShare(componentTimeBand, timeBandConfiguration)
+    if (share === undefined) {
+      notes.add(
+        `${component.name}: fascia ${COMPONENT_TIME_BAND_LABELS[componentTimeBand ?? '']} non inclusa nella stima`,
+      )
+      continue
+    }
+
+    amount += applySteppedPrices(
+      getYearlyQuantity(unitOfMeasure, profile) * share,
+      intervals,
+    )
+  }
+
+  return amount
+}
+
+function simulateDiscount(
+  discount: Discount,
+  profile: ConsumptionProfile,
+  subtotal: number,
+  notes: Set<string>,
+): number {
+  let amount = 0
+
+  for (const discountPrice of discount.discountPrices ?? []) {
+    const { price, validFrom, validTo } = discountPrice
+    switch (discountPrice.unitOfMeasure) {
+      case UNITS_OF_MEASURE.EURO_YEAR:
+      case UNITS_OF_MEASURE.EURO:
+        amount += price
+        break
+      case UNITS_OF_MEASURE.EURO_KW:
+        amount += price * profile.powerKW
+        break
+      case UNITS_OF_MEASURE.EURO_KWH:
+      case UNITS_OF_MEASURE.EURO_SM3: {
+        const quantity = getYearlyQuantity(discountPrice.unitOfMeasure, profile)
+        const discountedQuantity =
+          Math.min(quantity, validTo ?? Number.POSITIVE_INFINITY) -
+          (validFrom ?? 0)
+        amount += Math.max(discountedQuantity, 0) * price
+        break
+      }
+      case UNITS_OF_MEASURE.PERCENTAGE:
+        amount += (subtotal * price) / 100
+        break
+      default:
+        notes.add(getUnitNote(discount.name, discountPrice.unitOfMeasure))
+    }
+  }
+
+  // Discounts limited in time only apply for part of the year
+  const duration = discount.validityPeriod?.duration
+  const yearShare = duration
+    ? Math.min(duration, MONTHS_PER_YEAR) / MONTHS_PER_YEAR
+    : 1
+
+  return -amount * yearShare
+}
+
+/**
+ * Estimate the annual spend of an offer for a consumption profile
+ * @param input - Current form states of the wizard
+ * @param profile - Consumption profile to simulate
+ * @returns Total and per-item breakdown, amounts in euro rounded to cents
+ */
+export function simulateAnnualCost(
+  input: CostSimulationInput,
+  profile: ConsumptionProfile,
+): AnnualCostEstimate {
+  const notes = new Set<string>()
+  const items: CostBreakdownItem[] = []
+  const timeBandConfiguration = input.pricingConfig?.timeBandConfiguration
+
+  for (const component of input.companyComponents?.companyComponents ?? []) {
+    items.push({
+      type: 'component',
+      name: component.name,
+      amount: roundToCents(
+        simulateComponent(component, profile, timeBandConfiguration, notes),
+      ),
+      included: component.componentType !== COMPONENT_TYPES.OPTIONAL,
+    })
+  }
+
+  if (profile.electricityKWh > 0) {
+    for (const dispatching of input.pricingConfig?.dispatching ?? []) {
+      if (dispatching.dispatchingValue === undefined) {
+        notes.add(
+          `${dispatching.componentName}: valore di dispacciamento non specificato, non incluso nella stima`,
+        )
+        continue
+      }
+      items.push({
+        type: 'dispatching',
+        name: dispatching.componentName,
+        amount: roundToCents(
+          dispatching.dispatchingValue * profile.electricityKWh,
+        ),
+        included: true,
+      })
+    }
+  }
+
+  // Percentage discounts apply to the spend before discounts
+  const subtotal = items
+    .filter((item) => item.included)
+    .reduce((sum, item) => sum + item.amount, 0)
+
+  for (const discount of input.additionalFeatures?.discounts ?? []) {
+    items.push({
+      type: 'discount',
+      name: discount.name,
+      amount: roundToCents(
+        simulateDiscount(discount, profile, subtotal, notes),
+      ),
+      included: true,
+    })
+  }
+
+  const total = items
+    .filter((item) => item.included)
+    .reduce((sum, item) => sum + item.amount, 0)
+
+  return {
+    profile,
+    items,
+    total: roundToCents(total),
+    notes: [...notes],
+  }
+}
+
+/**
+ * Estimate the annual spend for every standard profile of the offer market
+ * @param input - Current form states of the wizard
+ * @returns One estimate per standard consumption profile
+ */
+export function simulateAnnualCosts(
+  input: CostSimulationInput,
+): AnnualCostEstimate[] {
+  return getConsumptionProfiles(input.offerDetails?.marketType).map((profile) =>
+    simulateAnnualCost(input, profile),
+  )
+}
@@ -0,0 +1,265 @@
+import { describe, expect, it } from 'vitest'
+import {
+  alignDualBundle,
+  checkDualBundle,
+  createDualBundle,
+  type DualOfferBundle,
+  generateDualBundle,
+  generateDualBundleFilename,
+  linkDualBundle,
+} from './dual-bundle'
+import type { FormStatesInput } from './xml-form-data'
+
+const createOffer = (
+  codOfferta: string,
+  offerName: string,
+  overrides: FormStatesInput = {},
+): FormStatesInput => ({
+  basicInfo: { pivaUtente: 'IT12345678901', codOfferta },
+  offerDetails: {
+    singleOffer: 'SI',
+    clientType: '01',
+    residentialStatus: '01',
+    offerType: '01',
+    contractActivationTypes: ['01'],
+    offerName,
+    offerDescription: 'Prezzo fisso per 12 mesi',
+    duration: 12,
+    guarantees: 'NO',
+    ...overrides.offerDetails,
+  },
+  activationContacts: { activationMethods: ['01'], phone: '800123456' },
+  paymentConditions: { paymentMethods: [{ paymentMethodType: '01' }] },
+  validityReview: {
+    validityPeriod: { startDate: '01/01/2099', endDate: '31/12/2099' },
+    reviewConfirmed: true,
+    ...overrides.validityReview,
+  },
+})
+
+const bundle: DualOfferBundle = {
+  dual: createOffer('DUAL01', 'Casa Insieme'),
+  electricity: createOffer('LUCE01', 'Casa Luce'),
+  gas: createOffer('GAS01', 'Casa Gas'),
+}
+
+describe('dual-bundle', () => {
+  describe('createDualBundle', () => {
+    it('should place the offer in the column of its market type', () => {
+      const gasOffer = createOffer('GAS01', 'Casa Gas', {
+        offerDetails: { marketType: '02' },
+      })
+
+      expect(createDualBundle(gasOffer)).toEqual({
+        dual: {},
+        electricity: {},
+        gas: gasOffer,
+      })
+    })
+
+    it('should use the Dual Fuel column without a market type', () => {
+      expect(createDualBundle(bundle.dual).dual).toBe(bundle.dual)
+    })
+  })
+
+  describe('linkDualBundle', () => {
+    it('should set the market types and the joint offer codes', () => {
+      const linked = linkDualBundle(bundle)
+
+      expect(linked.dual.offerDetails?.marketType).toBe('03')
+      expect(linked.electricity.offerDetails?.marketType).toBe('01')
+      expect(linked.gas.offerDetails?.marketType).toBe('02')
+      expect(linked.dual.additionalFeatures?.dualOffer).toEqual({
+        electricityJointOffers: ['LUCE01'],
+        gasJointOffers: ['GAS01'],
+      })
+    })
+
+    it('should not change the bundle', () => {
+      linkDualBundle(bundle)
+
+      expect(bundle.dual.additionalFeatures).toBeUndefined()
+    })
+  })
+
+  describe('alignDualBundle', () => {
+    it('should copy the shared data of the Dual Fuel offer', () => {
+      const aligned = alignDualBundle({
+        ...bundle,
+        gas: createOffer('GAS01', 'Casa Gas', {
+          offerDetails: { clientType: '03' },
+          validityReview: {
+            validityPeriod: { startDate: '01/03/2099' },
+          },
+        }),
+      })
+
+      expect(aligned.gas.offerDetails).toMatchObject({
+        clientType: '01',
+        offerName: 'Casa Gas',
+      })
+      expect(aligned.gas.validityReview?.validityPeriod).toEqual(
+        bundle.dual.validityReview?.validityPeriod,
+      )
+      expect(aligned.gas.basicInfo?.codOfferta).toBe('GAS01')
+    })
+  })
+
+  describe('checkDualBundle', () => {
+    it('should accept consistent offers', () => {
+      expect(checkDualBundle(bundle)).toEqual([])
+    })
+
+    it('should require distinct offer codes', () => {
+      const errors = checkDualBundle({
+        ...bundle,
+        gas: createOffer('LUCE01', 'Casa Gas'),
+        electricity: createOffer('', 'Casa Luce'),
+      })
+
+      expect(errors.map((error) => error.path)).toEqual([
+        'electricity.basicInfo.codOfferta',
+      ])
+      expect(
+        checkDualBundle({ ...bundle, gas: createOffer('DUAL01', 'Casa Gas') }),
+      ).toEqual([
+        {
+          path: 'gas.basicInfo.codOfferta',
+          message:
+            'Offerta gas: il codice DUAL01 è già usato da Offerta Dual Fuel',
+          severity: 'error',
+        },
+      ])
+    })
+
+    it('should require the same client type', () => {
+      const errors = checkDualBundle({
+        ...bundle,
+        gas: createOffer('GAS01', 'Casa Gas', {
+          offerDetails: { clientType: '02' },
+        }),
+      })
+
+      expect(errors).toEqual([
+        {
+          path: 'gas.offerDetails.clientType',
+          message:
+            "Offerta gas: il tipo cliente deve coincidere con quello dell'offerta Dual Fuel (Domestico)",
+          severity: 'error',
+        },
+      ])
+    })
+
+    it('should require component offers valid for the whole Dual Fuel validity', () => {
+      const errors = checkDualBundle({
+        ...bundle,
+        electricity: createOffer('LUCE01', 'Casa Luce', {
+          validityReview: {
+            validityPeriod: {
+              startDate: '01/01/2099',
+              endDate: '30/06/2099_12:00:00',
+            },
+          },
+        }),
+      })
+
+      expect(errors).toEqual([
+        {
+          path: 'electricity.validityReview.validityPeriod',
+          message:
+            "Offerta luce: la validità (dal 01/01/2099_00:00:00 al 30/06/2099_12:00:00) deve coprire quella dell'offerta Dual Fuel (dal 01/01/2099_00:00:00 al 31/12/2099_23:59:59)",
+          severity: 'error',
+        },
+      ])
+    })
+
+    it('should accept component offers without an end date', () => {
+      expect(
+        checkDualBundle({
+          ...bundle,
+          gas: createOffer('GAS01', 'Casa Gas', {
+            validityReview: { validityPeriod: { startDate: '01/12/2098' } },
+          }),
+        }),
+      ).toEqual([])
+    })
+
+    it('should refuse an open Dual Fuel offer on component offers with an end date', () => {
+      const errors = checkDualBundle({
+        ...bundle,
+        dual: createOffer('DUAL01', 'Casa Insieme', {
+          validityReview: { validityPeriod: { startDate: '01/01/2099' } },
+        }),
+      })
+
+      expect(errors.map((error) => error.path)).toEqual([
+        'electricity.validityReview.validityPeriod',
+        'gas.validityReview.validityPeriod',
+      ])
+    })
+  })
+
+  describe('generateDualBundle', () => {
+    it('should generate the three linked XML files', () => {
+      const result = generateDualBundle(bundle)
+
+      expect(result.items.map((item) => item.filename)).toEqual([
+        'IT12345678901_INSERIMENTO_CASA_INSIEME.XML',
+        'IT12345678901_INSERIMENTO_CASA_LUCE.XML',
+        'IT12345678901_INSERIMENTO_CASA_GAS.XML',
+      ])
+      expect(result.items[0].xml).toContain(
+        '<OFFERTE_CONGIUNTE_EE>LUCE01</OFFERTE_CONGIUNTE_EE>',
+      )
+      expect(result.items[0].xml).toContain(
+        '<OFFERTE_CONGIUNTE_GAS>GAS01</OFFERTE_CONGIUNTE_GAS>',
+      )
+      expect(result.errors).toEqual([])
+      expect(result.isValid).toBe(true)
+    })
+
+    it('should not be valid with consistency errors', () => {
+      const result = generateDualBundle({
+        ...bundle,
+        gas: createOffer('GAS01', 'Casa Gas', {
+          offerDetails: { clientType: '02' },
+        }),
+      })
+
+      expect(result.invalidCount).toBe(0)
+      expect(result.isValid).toBe(false)
+    })
+
+    it('should report the XML errors of each offer', () => {
+      const result = generateDualBundle({
+        ...bundle,
+        electricity: createOffer('LUCE01', 'Casa Luce', {
+          offerDetails: { singleOffer: undefined },
+        }),
+        gas: createOffer('', 'Casa Gas'),
+      })
+
+      expect(result.isValid).toBe(false)
+      expect(result.errors).toContainEqual({
+        path: 'electricity/Offerta/DettaglioOfferta/OFFERTA_SINGOLA',
+        message:
+          'Offerta luce: OFFERTA_SINGOLA è obbligatorio per mercati Elettrico e Gas',
+        severity: 'error',
+      })
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          path: 'dual/Offerta/OffertaDUAL/OFFERTE_CONGIUNTE_GAS',
+        }),
+      )
+    })
+  })
+
+  describe('generateDualBundleFilename', () => {
+    it('should use the Dual Fuel offer code', () => {
+      expect(generateDualBundleFilename(bundle)).toBe('DUAL_DUAL01.zip')
+      expect(generateDualBundleFilename({ ...bundle, dual: {} })).toBe(
+        'DUAL_OFFERTA.zip',
+      )
+    })
+  })
+})
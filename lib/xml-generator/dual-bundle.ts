@@ -0,0 +1,352 @@
+import {
+  type BatchResult,
+  createBatchZip,
+  generateBatch,
+} from './batch-generator'
+import { CLIENT_TYPE_LABELS } from './constants'
+import {
+  DEFAULT_END_TIME,
+  DEFAULT_START_TIME,
+  toSIITimestamp,
+  toTimestampKey,
+} from './sii-timestamp'
+import { downloadFile } from './xml-builder'
+import type { FormStatesInput } from './xml-form-data'
+import type { ValidationError } from './xml-validator'
+
+/**
+ * Dual Fuel bundles
+ * A Dual Fuel offer (TIPO_MERCATO 03) references the electricity and gas
+ * offers it combines through OffertaDUAL. The bundle keeps the three offers
+ * together, links their codes, checks that they are consistent and exports
+ * the three XML files at once
+ */
+
+export type DualBundleRole = 'dual' | 'electricity' | 'gas'
+
+export const DUAL_BUNDLE_ROLES: DualBundleRole[] = [
+  'dual',
+  'electricity',
+  'gas',
+]
+
+// TIPO_MERCATO of each offer of the bundle
+export const DUAL_BUNDLE_MARKET_TYPES: Record<DualBundleRole, string> = {
+  dual: '03',
+  electricity: '01',
+  gas: '02',
+}
+
+export const DUAL_BUNDLE_ROLE_LABELS: Record<DualBundleRole, string> = {
+  dual: 'Offerta Dual Fuel',
+  electricity: 'Offerta luce',
+  gas: 'Offerta gas',
+}
+
+export type DualOfferBundle = Record<DualBundleRole, FormStatesInput>
+
+export interface DualBundleResult extends BatchResult {
+  // Consistency errors between the three offers and errors of each XML
+  errors: ValidationError[]
+  // Every XML is valid and the offers are consistent
+  isValid: boolean
+}
+
+// The offer containing no data yet
+const EMPTY_OFFER: FormStatesInput = {}
+
+const getCode = (formStates: FormStatesInput) =>
+  formStates.basicInfo?.codOfferta?.trim() || undefined
+
+/**
+ * Find the bundle role of an offer from its market type
+ * @param formStates - Form states of the offer
+ * @returns The role, undefined when the market type is not set
+ */
+export function getDualBundleRole(
+  formStates: FormStatesInput,
+): DualBundleRole | undefined {
+  return DUAL_BUNDLE_ROLES.find(
+    (role) =>
+      DUAL_BUNDLE_MARKET_TYPES[role] === formStates.offerDetails?.marketType,
+  )
+}
+
+/**
+ * Create a bundle from the offer being edited
+ * @param formStates - Form states of the offer, placed in the column of its
+ * market type, or in the Dual Fuel column when the market type is not set
+ * @returns The bundle with the other offers empty
+ */
+export function createDualBundle(formStates: FormStatesInput): DualOfferBundle {
+  return {
+    dual: EMPTY_OFFER,
+    electricity: EMPTY_OFFER,
+    gas: EMPTY_OFFER,
+    [getDualBundleRole(formStates) ?? 'dual']: formStates,
+  }
+}
+
+/**
+ * Link the offers of a bundle
+ * Sets the market type of each offer and lists the codes of the electricity
+ * and gas offers in the OffertaDUAL section of the Dual Fuel offer
+ * @param bundle - Offers of the bundle
+ * @returns The linked bundle
+ */
+export function linkDualBundle(bundle: DualOfferBundle): DualOfferBundle {
+  const linked = Object.fromEntries(
+    DUAL_BUNDLE_ROLES.map((role) => [
+      role,
+      {
+        ...bundle[role],
+        offerDetails: {
+          ...bundle[role].offerDetails,
+          marketType: DUAL_BUNDLE_MARKET_TYPES[role],
+        },
+      },
+    ]),
+  ) as DualOfferBundle
+
+  const electricityCode = getCode(bundle.electricity)
+  const gasCode = getCode(bundle.gas)
+  linked.dual.additionalFeatures = {
+    ...linked.dual.additionalFeatures,
+    dualOffer: {
+      electricityJointOffers: electricityCode ? [electricityCode] : [],
+      gasJointOffers: gasCode ? [gasCode] : [],
+    },
+  }
+  return linked
+}
+
+/**
+ * Copy the data that must match from the Dual Fuel offer to the electricity
+ * and gas offers: PIVA, client type, residential status and validity period
+ * @param bundle - Offers of the bundle
+ * @returns The bundle with the shared data aligned
+ */
+export function alignDualBundle(bundle: DualOfferBundle): DualOfferBundle {
+  const { dual } = bundle
+  const align = (offer: FormStatesInput): FormStatesInput => ({
+    ...offer,
+    basicInfo: { ...offer.basicInfo, pivaUtente: dual.basicInfo?.pivaUtente },
+    offerDetails: {
+      ...offer.offerDetails,
+      clientType: dual.offerDetails?.clientType,
+      residentialStatus: dual.offerDetails?.residentialStatus,
+    },
+    validityReview: {
+      ...offer.validityReview,
+      validityPeriod: dual.validityReview?.validityPeriod,
+    },
+  })
+
+  return {
+    dual,
+    electricity: align(bundle.electricity),
+    gas: align(bundle.gas),
+  }
+}
+
+// Validity window of an offer as sortable keys, the end is open when empty
+const getValidityWindow = (formStates: FormStatesInput) => {
+  const period = formStates.validityReview?.validityPeriod
+  return {
+    start: toTimestampKey(period?.startDate, DEFAULT_START_TIME),
+    end: toTimestampKey(period?.endDate, DEFAULT_END_TIME),
+    hasEnd: Boolean(period?.endDate),
+  }
+}
+
+const formatValidity = (formStates: FormStatesInput) => {
+  const period = formStates.validityReview?.validityPeriod
+  const start = toSIITimestamp(period?.startDate ?? '', DEFAULT_START_TIME)
+  return period?.endDate
+    ? `dal ${start} al ${toSIITimestamp(period.endDate, DEFAULT_END_TIME)}`
+    : `dal ${start} senza scadenza`
+}
+
+// The component offer must be on sale for the whole Dual Fuel validity
+const coversValidity = (
+  component: FormStatesInput,
+  dual: FormStatesInput,
+): boolean => {
+  const outer = getValidityWindow(component)
+  const inner = getValidityWindow(dual)
+  if (!(outer.start && inner.start)) {
+    // Missing dates are reported by the step schemas
+    return true
+  }
+  if (outer.start > inner.start) {
+    return false
+  }
+  if (!outer.hasEnd) {
+    return true
+  }
+  return Boolean(
+    inner.hasEnd && outer.end && inner.end && inner.end <= outer.end,
+  )
+}
+
+const bundleError = (path: string, message: string): ValidationError => ({
+  path,
+  message,
+  severity: 'error',
+})
+
+function checkCodes(bundle: DualOfferBundle): ValidationError[] {
+  const errors: ValidationError[] = []
+  const seenCodes = new Map<string, DualBundleRole>()
+
+  for (const role of DUAL_BUNDLE_ROLES) {
+    const code = getCode(bundle[role])
+    if (!code) {
+      errors.push(
+        bundleError(
+          `${role}.basicInfo.codOfferta`,
+          `${DUAL_BUNDLE_ROLE_LABELS[role]}: codice offerta mancante`,
+        ),
+      )
+      continue
+    }
+    const sameCodeRole = seenCodes.get(code)
+    if (sameCodeRole) {
+      errors.push(
+        bundleError(
+          `${role}.basicInfo.codOfferta`,
+          `${DUAL_BUNDLE_ROLE_LABELS[role]}: il codice ${code} è già usato da ${DUAL_BUNDLE_ROLE_LABELS[sameCodeRole]}`,
+        ),
+      )
+    }
+    seenCodes.set(code, role)
+  }
+  return errors
+}
+
+function checkComponentOffer(
+  dual: FormStatesInput,
+  component: FormStatesInput,
+  role: DualBundleRole,
+): ValidationError[] {
+  const errors: ValidationError[] = []
+  const label = DUAL_BUNDLE_ROLE_LABELS[role]
+
+  if (component.basicInfo?.pivaUtente !== dual.basicInfo?.pivaUtente) {
+    errors.push(
+      bundleError(
+        `${role}.basicInfo.pivaUtente`,
+        `${label}: la PIVA deve coincidere con quella dell'offerta Dual Fuel`,
+      ),
+    )
+  }
+
+  const clientType = dual.offerDetails?.clientType
+  if (component.offerDetails?.clientType !== clientType) {
+    errors.push(
+      bundleError(
+        `${role}.offerDetails.clientType`,
+        `${label}: il tipo cliente deve coincidere con quello dell'offerta Dual Fuel (${
+          CLIENT_TYPE_LABELS[clientType ?? ''] ?? 'non specificato'
+        })`,
+      ),
+    )
+  }
+
+  if (!coversValidity(component, dual)) {
+    errors.push(
+      bundleError(
+        `${role}.validityReview.validityPeriod`,
+        `${label}: la validità (${formatValidity(component)}) deve coprire quella dell'offerta Dual Fuel (${formatValidity(dual)})`,
+      ),
+    )
+  }
+  return errors
+}
+
+/**
+ * Check that the offers of a bundle can be transmitted together
+ * @param bundle - Offers of the bundle
+ * @returns Consistency errors, with the path of the field in the bundle, e.g.
+ * gas.offerDetails.clientType
+ */
+export function checkDualBundle(bundle: DualOfferBundle): ValidationError[] {
+  return [
+    ...checkCodes(bundle),
+    ...checkComponentOffer(bundle.dual, bundle.electricity, 'electricity'),
+    ...checkComponentOffer(bundle.dual, bundle.gas, 'gas'),
+  ]
+}
+
+// Errors of the XML of each offer, with the role in front of the element path,
+// e.g. dual/Offerta/OffertaDUAL/OFFERTE_CONGIUNTE_EE
+const getOfferErrors = (batch: BatchResult): ValidationError[] =>
+  batch.items.flatMap((item, index) => {
+    const role = DUAL_BUNDLE_ROLES[index]
+    return item.errors
+      .filter((error) => error.severity === 'error')
+      .map((error) => ({
+        ...error,
+        path: `${role}${error.path}`,
+        message: `${DUAL_BUNDLE_ROLE_LABELS[role]}: ${error.message}`,
+      }))
+  })
+
+/**
+ * Link, check and generate the three offers of a bundle
+ * Each XML goes through the business rules and the XSD of the API, the Dual
+ * Fuel rules of TIPO_MERCATO 03 included
+ * @param bundle - Offers of the bundle
+ * @returns XML of each offer in DUAL_BUNDLE_ROLES order, with the
+ * consistency errors of the bundle and the errors of each XML
+ */
+export function generateDualBundle(bundle: DualOfferBundle): DualBundleResult {
+  const linked = linkDualBundle(bundle)
+  const batch = generateBatch(
+    {},
+    DUAL_BUNDLE_ROLES.map((role) => ({ overrides: linked[role] })),
+  )
+  const errors = [...checkDualBundle(linked), ...getOfferErrors(batch)]
+
+  return {
+    ...batch,
+    errors,
+    isValid: errors.length === 0 && batch.invalidCount === 0,
+  }
+}
+
+/**
+ * Generate the file name of a bundle archive
+ * @param bundle - Offers of the bundle
+ * @returns Filename in format DUAL_<COD_OFFERTA>.zip
+ */
+export function generateDualBundleFilename(bundle: DualOfferBundle): string {
+  return `DUAL_${getCode(bundle.dual) ?? 'OFFERTA'}.zip`
+}
+
+/**
+ * Download the three XML files of a bundle in a ZIP archive
+ * The bundle is exported only when complete, as the offers must reach the
+ * SII together
+ * @param result - Bundle generation result
+ * @param filename - Name of the archive
+ * @returns Success status and optional error message
+ */
+export function downloadDualBundleZip(
+  result: DualBundleResult,
+  filename: string,
+): { success: boolean; error?: string } {
+  if (!result.isValid) {
+    return {
+      success: false,
+      error:
+        'Il pacchetto Dual Fuel contiene errori: correggili prima di esportare',
+    }
+  }
+
+  const zip = createBatchZip(result)
+  return downloadFile(
+    () => new Blob([zip], { type: 'application/zip' }),
+    filename,
+  )
+}
@@ -0,0 +1,239 @@
+import { describe, expect, it } from 'vitest'
+import {
+  expandRegion,
+  formatTerritory,
+  getMunicipalityProvince,
+  ISTAT_TERRITORIES,
+  searchTerritories,
+  TERRITORY_CODE_LENGTHS,
+  validateZoneHierarchy,
+} from './istat-territories'
+
+describe('istat-territories', () => {
+  describe('ISTAT_TERRITORIES', () => {
+    it('should list every region and province once', () => {
+      const count = (level: string) =>
+        ISTAT_TERRITORIES.filter((territory) => territory.level === level)
+          .length
+
+      expect(count('region')).toBe(20)
+      expect(count('province')).toBe(107)
+      expect(
+        new Set(
+          ISTAT_TERRITORIES.map(
+            (territory) => `${territory.level}:${territory.code}`,
+          ),
+        ).size,
+      ).toBe(ISTAT_TERRITORIES.length)
+    })
+
+    it('should list every municipality of the ISTAT list', () => {
+      expect(
+        searchTerritories('municipality', 'ala di stura').map(
+          ({ code }) => code,
+        ),
+      ).toEqual(['001003'])
+      expect(getMunicipalityProvince('092009')?.name).toBe('Cagliari')
+      expect(
+        ISTAT_TERRITORIES.filter(
+          (territory) => territory.level === 'municipality',
+        ).length,
+      ).toBeGreaterThan(7900)
+    })
+
+    it('should use codes of the SII length in a known parent', () => {
+      for (const territory of ISTAT_TERRITORIES) {
+        expect(territory.code).toHaveLength(
+          TERRITORY_CODE_LENGTHS[territory.level],
+        )
+        if (territory.level === 'municipality') {
+          expect(getMunicipalityProvince(territory.code)).toBeDefined()
+        }
+      }
+    })
+  })
+
+  describe('searchTerritories', () => {
+    it('should find territories by name', () => {
+      expect(searchTerritories('province', 'bergamo')).toEqual([
+        {
+          level: 'province',
+          code: '016',
+          name: 'Bergamo',
+          parentCode: '03',
+        },
+      ])
+    })
+
+    it('should ignore accents and match any word of the name', () => {
+      expect(
+        searchTerritories('province', 'forli').map(({ code }) => code),
+      ).toEqual(['040'])
+      expect(
+        searchTerritories('province', 'brianza').map(({ code }) => code),
+      ).toEqual(['108'])
+      expect(
+        searchTerritories('region', 'sudtirol').map(({ code }) => code),
+      ).toEqual(['04'])
+    })
+
+    it('should find territories by code prefix', () => {
+      expect(
+        searchTerritories('municipality', '01602').map(({ code }) => code),
+      ).toEqual([
+        '016020',
+        '016021',
+        '016022',
+        '016023',
+        '016024',
+        '016025',
+        '016026',
+        '016027',
+        '016028',
+        '016029',
+      ])
+    })
+
+    it('should list the whole level without a query', () => {
+      expect(searchTerritories('region', ' ')).toHaveLength(20)
+    })
+  })
+
+  describe('formatTerritory', () => {
+    it('should add the name to known codes', () => {
+      expect(formatTerritory('region', '03')).toBe('03 Lombardia')
+      expect(formatTerritory('municipality', '016999')).toBe('016999')
+    })
+  })
+
+  describe('expandRegion', () => {
+    it('should replace the region with its provinces', () => {
+      expect(
+        expandRegion(
+          { regions: ['14', '03'], provinces: ['094'], municipalities: [] },
+          '14',
+        ),
+      ).toEqual({
+        regions: ['03'],
+        provinces: ['094', '070'],
+        municipalities: [],
+      })
+    })
+  })
+
+  describe('validateZoneHierarchy', () => {
+    it('should accept zones in different territories', () => {
+      expect(
+        validateZoneHierarchy({
+          regions: ['03'],
+          provinces: ['058'],
+          municipalities: ['063049', '001003'],
+        }),
+      ).toEqual([])
+    })
+
+    it('should only warn about codes missing from the ISTAT list', () => {
+      expect(
+        validateZoneHierarchy({
+          regions: ['21'],
+          provinces: ['999'],
+          municipalities: ['998001', '063999'],
+        }),
+      ).toEqual([
+        {
+          field: 'regions',
+          index: 0,
+          message:
+            "La regione 21 non è presente nell'elenco ISTAT del 01/01/2020: verifica il codice",
+          severity: 'warning',
+        },
+        {
+          field: 'provinces',
+          index: 0,
+          message:
+            "La provincia 999 non è presente nell'elenco ISTAT del 01/01/2020: verifica il codice",
+          severity: 'warning',
+        },
+        {
+          field: 'municipalities',
+          index: 0,
+          message:
+            "Il comune 998001 non è presente nell'elenco ISTAT del 01/01/2020: verifica il codice",
+          severity: 'warning',
+        },
+        {
+          field: 'municipalities',
+          index: 1,
+          message:
+            "Il comune 063999 non è presente nell'elenco ISTAT del 01/01/2020: verifica il codice",
+          severity: 'warning',
+        },
+      ])
+    })
+
+    it('should place unknown municipalities in their province by code', () => {
+      expect(
+        validateZoneHierarchy({
+          provinces: ['999'],
+          municipalities: ['999001'],
+        }).map(({ message, severity }) => [severity, message]),
+      ).toEqual([
+        [
+          'warning',
+          "La provincia 999 non è presente nell'elenco ISTAT del 01/01/2020: verifica il codice",
+        ],
+        ['error', 'Il comune 999001 è già incluso nella provincia 999'],
+      ])
+    })
+
+    it('should report zones already included in a wider zone', () => {
+      expect(
+        validateZoneHierarchy({
+          regions: ['03'],
+          provinces: ['016', '058'],
+          municipalities: ['015146', '058091'],
+        }),
+      ).toEqual([
+        {
+          field: 'provinces',
+          index: 0,
+          message:
+            'La provincia 016 Bergamo è già inclusa nella regione 03 Lombardia',
+          severity: 'error',
+        },
+        {
+          field: 'municipalities',
+          index: 0,
+          message:
+            'Il comune 015146 Milano è già incluso nella regione 03 Lombardia',
+          severity: 'error',
+        },
+        {
+          field: 'municipalities',
+          index: 1,
+          message:
+            'Il comune 058091 Roma è già incluso nella provincia 058 Roma',
+          severity: 'error',
+        },
+      ])
+    })
+
+    it('should report repeated codes', () => {
+      expect(
+        validateZoneHierarchy({ regions: ['03', '03'] }).map(
+          ({ index, message }) => [index, message],
+        ),
+      ).toEqual([[1, 'La regione 03 è ripetuta']])
+    })
+
+    it('should leave malformed codes to the field schemas', () => {
+      expect(
+        validateZoneHierarchy({
+          regions: ['3'],
+          provinces: [''],
+          municipalities: ['ABCDEF'],
+        }),
+      ).toEqual([])
+    })
+  })
+})
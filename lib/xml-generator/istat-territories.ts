@@ -0,0 +1,325 @@
+import {
+  ISTAT_LIST_DATE,
+  ISTAT_MUNICIPALITIES,
+  ISTAT_PROVINCES,
+  ISTAT_REGIONS,
+} from './istat-territory-list'
+
+/**
+ * ISTAT territories of ZoneOfferta
+ * Offline copy of the ISTAT codes of regions (REGIONE, 2 digits), provinces
+ * and metropolitan cities (PROVINCIA, 3 digits) and municipalities (COMUNE,
+ * 6 digits), generated in istat-territory-list.ts from the ISTAT list with
+ * scripts/generate-istat-territories.ts. The copy falls behind when ISTAT
+ * creates territories, so well-formed codes missing from it are only warnings
+ * and never block an offer
+ */
+
+export type TerritoryLevel = 'region' | 'province' | 'municipality'
+
+// Field of zoneOffers holding the codes of each level
+export type ZoneField = 'regions' | 'provinces' | 'municipalities'
+
+export interface Territory {
+  level: TerritoryLevel
+  code: string
+  name: string
+  // Region of a province, province of a municipality
+  parentCode?: string
+}
+
+export interface ZoneOffersInput {
+  regions?: string[]
+  provinces?: string[]
+  municipalities?: string[]
+}
+
+export type ZoneHierarchyIssue = {
+  field: ZoneField
+  index: number
+  message: string
+  // Codes missing from the offline copy are warnings, the others errors
+  severity: 'error' | 'warning'
+}
+
+export const ZONE_FIELDS: Record<TerritoryLevel, ZoneField> = {
+  region: 'regions',
+  province: 'provinces',
+  municipality: 'municipalities',
+}
+
+export const TERRITORY_CODE_LENGTHS: Record<TerritoryLevel, number> = {
+  region: 2,
+  province: 3,
+  municipality: 6,
+}
+
+const DIACRITICS_REGEX = /\p{Diacritic}/gu
+// Word separators of names such as Trentino-Alto Adige/Südtirol or L'Aquila
+const NAME_SEPARATORS_REGEX = /[\s'/-]+/g
+const DIGITS_REGEX = /^\d+$/
+
+export const ISTAT_TERRITORIES: Territory[] = [
+  ...ISTAT_REGIONS.map(
+    ([code, name]): Territory => ({
+      level: 'region',
+      code,
+      name,
+    }),
+  ),
+  ...ISTAT_PROVINCES.map(
+    ([code, name, parentCode]): Territory => ({
+      level: 'province',
+      code,
+      name,
+      parentCode,
+    }),
+  ),
+  ...ISTAT_MUNICIPALITIES.map(
+    ([code, name]): Territory => ({
+      level: 'municipality',
+      code,
+      name,
+      parentCode: code.slice(0, 3),
+    }),
+  ),
+]
+
+const TERRITORIES_BY_KEY = new Map(
+  ISTAT_TERRITORIES.map((territory) => [
+    `${territory.level}:${territory.code}`,
+    territory,
+  ]),
+)
+
+const normalize = (text: string) =>
+  text
+    .normalize('NFD')
+    .replace(DIACRITICS_REGEX, '')
+    .replace(NAME_SEPARATORS_REGEX, ' ')
+    .toLowerCase()
+    .trim()
+
+/**
+ * Find a territory by code
+ * @param level - Level of the code
+ * @param code - ISTAT code
+ * @returns The territory, undefined when the code is not in the list
+ */
+export function getTerritory(
+  level: TerritoryLevel,
+  code: string | undefined,
+): Territory | undefined {
+  return TERRITORIES_BY_KEY.get(`${level}:${code}`)
+}
+
+/**
+ * Province of a municipality code
+ * @param code - ISTAT municipality code
+ * @returns The province, undefined when its code is not an ISTAT province
+ */
+export function getMunicipalityProvince(code: string): Territory | undefined {
+  return getTerritory('province', code.slice(0, 3))
+}
+
+/**
+ * Format a code with the name of its territory
+ * @param level - Level of the code
+ * @param code - ISTAT code
+ * @returns e.g. "016 Bergamo", or the code alone when it is not in the list
+ */
+export function formatTerritory(level: TerritoryLevel, code: string): string {
+  const territory = getTerritory(level, code)
+  return territory ? `${code} ${territory.name}` : code
+}
+
+/**
+ * Search the territories of a level by name or code
+ * Names match from the start of any word, ignoring case and accents
+ * @param level - Level of the territories
+ * @param query - Part of the name or code, e.g. "bergamo" or "016"
+ * @returns Matching territories in list order
+ */
+export function searchTerritories(
+  level: TerritoryLevel,
+  query: string,
+): Territory[] {
+  const search = normalize(query)
+  return ISTAT_TERRITORIES.filter((territory) => {
+    if (territory.level !== level) {
+      return false
+    }
+    if (!search) {
+      return true
+    }
+    if (DIGITS_REGEX.test(search)) {
+      return territory.code.startsWith(search)
+    }
+    const name = normalize(territory.name)
+    return name.startsWith(search) || name.includes(` ${search}`)
+  })
+}
+
+/**
+ * Replace a whole region with its provinces, so that some of them can be
+ * removed from the zones of the offer
+ * @param zoneOffers - Zones of the offer
+ * @param regionCode - Code of the region to expand
+ * @returns The zones without the region and with all its provinces
+ */
+export function expandRegion(
+  zoneOffers: ZoneOffersInput | undefined,
+  regionCode: string,
+): ZoneOffersInput {
+  const provinces = zoneOffers?.provinces ?? []
+  const regionProvinces = ISTAT_TERRITORIES.filter(
+    (territory) =>
+      territory.level === 'province' &&
+      territory.parentCode === regionCode &&
+      !provinces.includes(territory.code),
+  ).map((territory) => territory.code)
+
+  return {
+    ...zoneOffers,
+    regions: (zoneOffers?.regions ?? []).filter((code) => code !== regionCode),
+    provinces: [...provinces, ...regionProvinces],
+  }
+}
+
+// Codes with the wrong format are reported by the field schemas
+const hasCodeFormat = (level: TerritoryLevel, code: string) =>
+  code.length === TERRITORY_CODE_LENGTHS[level] && DIGITS_REGEX.test(code)
+
+// The code is already listed before the given index
+const isRepeated = (codes: string[], index: number) =>
+  codes.indexOf(codes[index]) < index
+
+// Date of the offline copy, e.g. 01/01/2020
+const LIST_DATE = ISTAT_LIST_DATE.split('-').reverse().join('/')
+
+const zoneError = (
+  field: ZoneField,
+  index: number,
+  message: string,
+): ZoneHierarchyIssue => ({ field, index, message, severity: 'error' })
+
+// The territory may have been created after the date of the offline copy
+const unknownCode = (
+  field: ZoneField,
+  index: number,
+  territory: string,
+): ZoneHierarchyIssue => ({
+  field,
+  index,
+  message: `${territory} non è presente nell'elenco ISTAT del ${LIST_DATE}: verifica il codice`,
+  severity: 'warning',
+})
+
+function validateRegions(regions: string[]): ZoneHierarchyIssue[] {
+  return regions.flatMap((code, index): ZoneHierarchyIssue[] => {
+    if (!hasCodeFormat('region', code)) {
+      return []
+    }
+    if (isRepeated(regions, index)) {
+      return [zoneError('regions', index, `La regione ${code} è ripetuta`)]
+    }
+    return getTerritory('region', code)
+      ? []
+      : [unknownCode('regions', index, `La regione ${code}`)]
+  })
+}
+
+function validateProvinces(
+  provinces: string[],
+  regions: string[],
+): ZoneHierarchyIssue[] {
+  return provinces.flatMap((code, index): ZoneHierarchyIssue[] => {
+    if (!hasCodeFormat('province', code)) {
+      return []
+    }
+    if (isRepeated(provinces, index)) {
+      return [zoneError('provinces', index, `La provincia ${code} è ripetuta`)]
+    }
+    const province = getTerritory('province', code)
+    if (!province) {
+      return [unknownCode('provinces', index, `La provincia ${code}`)]
+    }
+    const regionCode = province.parentCode ?? ''
+    return regions.includes(regionCode)
+      ? [
+          zoneError(
+            'provinces',
+            index,
+            `La provincia ${formatTerritory('province', code)} è già inclusa nella regione ${formatTerritory('region', regionCode)}`,
+          ),
+        ]
+      : []
+  })
+}
+
+function validateMunicipalities(
+  municipalities: string[],
+  provinces: string[],
+  regions: string[],
+): ZoneHierarchyIssue[] {
+  return municipalities.flatMap((code, index): ZoneHierarchyIssue[] => {
+    if (!hasCodeFormat('municipality', code)) {
+      return []
+    }
+    if (isRepeated(municipalities, index)) {
+      return [
+        zoneError('municipalities', index, `Il comune ${code} è ripetuto`),
+      ]
+    }
+    // The province is the code prefix, even for territories missing from the copy
+    const name = formatTerritory('municipality', code)
+    const provinceCode = code.slice(0, 3)
+    if (provinces.includes(provinceCode)) {
+      return [
+        zoneError(
+          'municipalities',
+          index,
+          `Il comune ${name} è già incluso nella provincia ${formatTerritory('province', provinceCode)}`,
+        ),
+      ]
+    }
+    const regionCode = getMunicipalityProvince(code)?.parentCode
+    if (regionCode && regions.includes(regionCode)) {
+      return [
+        zoneError(
+          'municipalities',
+          index,
+          `Il comune ${name} è già incluso nella regione ${formatTerritory('region', regionCode)}`,
+        ),
+      ]
+    }
+    return getTerritory('municipality', code)
+      ? []
+      : [unknownCode('municipalities', index, `Il comune ${code}`)]
+  })
+}
+
+/**
+ * Check the zones of an offer against the ISTAT hierarchy
+ * A zone must not repeat or be already included in a wider zone of the
+ * offer, e.g. a municipality of a selected province. Codes missing from the
+ * offline copy are reported as warnings
+ * @param zoneOffers - Zones of the offer
+ * @returns Issues with the field, index and severity of the code
+ */
+export function validateZoneHierarchy(
+  zoneOffers: ZoneOffersInput | undefined,
+): ZoneHierarchyIssue[] {
+  const regions = zoneOffers?.regions ?? []
+  const provinces = zoneOffers?.provinces ?? []
+
+  return [
+    ...validateRegions(regions),
+    ...validateProvinces(provinces, regions),
+    ...validateMunicipalities(
+      zoneOffers?.municipalities ?? [],
+      provinces,
+      regions,
+    ),
+  ]
+}
@@ -0,0 +1,8049 @@
+/**
+ * ISTAT territories of ZoneOfferta
+ * Generated by scripts/generate-istat-territories.ts from the ISTAT list of 2020-01-01, do not edit
+ */
+
+export const ISTAT_LIST_DATE = '2020-01-01'
+
+// [code, name]
+export const ISTAT_REGIONS: [string, string][] = [
+  ['01', 'Piemonte'],
+  ['02', "Valle d'Aosta/Vallée d'Aoste"],
+  ['03', 'Lombardia'],
+  ['04', 'Trentino-Alto Adige/Südtirol'],
+  ['05', 'Veneto'],
+  ['06', 'Friuli-Venezia Giulia'],
+  ['07', 'Liguria'],
+  ['08', 'Emilia-Romagna'],
+  ['09', 'Toscana'],
+  ['10', 'Umbria'],
+  ['11', 'Marche'],
+  ['12', 'Lazio'],
+  ['13', 'Abruzzo'],
+  ['14', 'Molise'],
+  ['15', 'Campania'],
+  ['16', 'Puglia'],
+  ['17', 'Basilicata'],
+  ['18', 'Calabria'],
+  ['19', 'Sicilia'],
+  ['20', 'Sardegna'],
+]
+
+// [code, name, region]
+export const ISTAT_PROVINCES: [string, string, string][] = [
+  ['001', 'Torino', '01'],
+  ['002', 'Vercelli', '01'],
+  ['003', 'Novara', '01'],
+  ['004', 'Cuneo', '01'],
+  ['005', 'Asti', '01'],
+  ['006', 'Alessandria', '01'],
+  ['007', "Valle d'Aosta/Vallée d'Aoste", '02'],
+  ['008', 'Imperia', '07'],
+  ['009', 'Savona', '07'],
+  ['010', 'Genova', '07'],
+  ['011', 'La Spezia', '07'],
+  ['012', 'Varese', '03'],
+  ['013', 'Como', '03'],
+  ['014', 'Sondrio', '03'],
+  ['015', 'Milano', '03'],
+  ['016', 'Bergamo', '03'],
+  ['017', 'Brescia', '03'],
+  ['018', 'Pavia', '03'],
+  ['019', 'Cremona', '03'],
+  ['020', 'Mantova', '03'],
+  ['021', 'Bolzano/Bozen', '04'],
+  ['022', 'Trento', '04'],
+  ['023', 'Verona', '05'],
+  ['024', 'Vicenza', '05'],
+  ['025', 'Belluno', '05'],
+  ['026', 'Treviso', '05'],
+  ['027', 'Venezia', '05'],
+  ['028', 'Padova', '05'],
+  ['029', 'Rovigo', '05'],
+  ['030', 'Udine', '06'],
+  ['031', 'Gorizia', '06'],
+  ['032', 'Trieste', '06'],
+  ['033', 'Piacenza', '08'],
+  ['034', 'Parma', '08'],
+  ['035', "Reggio nell'Emilia", '08'],
+  ['036', 'Modena', '08'],
+  ['037', 'Bologna', '08'],
+  ['038', 'Ferrara', '08'],
+  ['039', 'Ravenna', '08'],
+  ['040', 'Forlì-Cesena', '08'],
+  ['041', 'Pesaro e Urbino', '11'],
+  ['042', 'Ancona', '11'],
+  ['043', 'Macerata', '11'],
+  ['044', 'Ascoli Piceno', '11'],
+  ['045', 'Massa-Carrara', '09'],
+  ['046', 'Lucca', '09'],
+  ['047', 'Pistoia', '09'],
+  ['048', 'Firenze', '09'],
+  ['049', 'Livorno', '09'],
+  ['050', 'Pisa', '09'],
+  ['051', 'Arezzo', '09'],
+  ['052', 'Siena', '09'],
+  ['053', 'Grosseto', '09'],
+  ['054', 'Perugia', '10'],
+  ['055', 'Terni', '10'],
+  ['056', 'Viterbo', '12'],
+  ['057', 'Rieti', '12'],
+  ['058', 'Roma', '12'],
+  ['059', 'Latina', '12'],
+  ['060', 'Frosinone', '12'],
+  ['061', 'Caserta', '15'],
+  ['062', 'Benevento', '15'],
+  ['063', 'Napoli', '15'],
+  ['064', 'Avellino', '15'],
+  ['065', 'Salerno', '15'],
+  ['066', "L'Aquila", '13'],
+  ['067', 'Teramo', '13'],
+  ['068', 'Pescara', '13'],
+  ['069', 'Chieti', '13'],
+  ['070', 'Campobasso', '14'],
+  ['071', 'Foggia', '16'],
+  ['072', 'Bari', '16'],
+  ['073', 'Taranto', '16'],
+  ['074', 'Brindisi', '16'],
+  ['075', 'Lecce', '16'],
+  ['076', 'Potenza', '17'],
+  ['077', 'Matera', '17'],
+  ['078', 'Cosenza', '18'],
+  ['079', 'Catanzaro', '18'],
+  ['080', 'Reggio Calabria', '18'],
+  ['081', 'Trapani', '19'],
+  ['082', 'Palermo', '19'],
+  ['083', 'Messina', '19'],
+  ['084', 'Agrigento', '19'],
+  ['085', 'Caltanissetta', '19'],
+  ['086', 'Enna', '19'],
+  ['087', 'Catania', '19'],
+  ['088', 'Ragusa', '19'],
+  ['089', 'Siracusa', '19'],
+  ['090', 'Sassari', '20'],
+  ['091', 'Nuoro', '20'],
+  ['092', 'Cagliari', '20'],
+  ['093', 'Pordenone', '06'],
+  ['094', 'Isernia', '14'],
+  ['095', 'Oristano', '20'],
+  ['096', 'Biella', '01'],
+  ['097', 'Lecco', '03'],
+  ['098', 'Lodi', '03'],
+  ['099', 'Rimini', '08'],
+  ['100', 'Prato', '09'],
+  ['101', 'Crotone', '18'],
+  ['102', 'Vibo Valentia', '18'],
+  ['103', 'Verbano-Cusio-Ossola', '01'],
+  ['108', 'Monza e della Brianza', '03'],
+  ['109', 'Fermo', '11'],
+  ['110', 'Barletta-Andria-Trani', '16'],
+  ['111', 'Sud Sardegna', '20'],
+]
+
+// [code, name]
+export const ISTAT_MUNICIPALITIES: [string, string][] = [
+  ['001001', 'Agliè'],
+  ['001002', 'Airasca'],
+  ['001003', 'Ala di Stura'],
+  ['001004', "Albiano d'Ivrea"],
+  ['001006', 'Almese'],
+  ['001007', 'Alpette'],
+  ['001008', 'Alpignano'],
+  ['001009', 'Andezeno'],
+  ['001010', 'Andrate'],
+  ['001011', 'Angrogna'],
+  ['001012', 'Arignano'],
+  ['001013', 'Avigliana'],
+  ['001014', 'Azeglio'],
+  ['001015', 'Bairo'],
+  ['001016', 'Balangero'],
+  ['001017', 'Baldissero Canavese'],
+  ['001018', 'Baldissero Torinese'],
+  ['001019', 'Balme'],
+  ['001020', 'Banchette'],
+  ['001021', 'Barbania'],
+  ['001022', 'Bardonecchia'],
+  ['001023', 'Barone Canavese'],
+  ['001024', 'Beinasco'],
+  ['001025', 'Bibiana'],
+  ['001026', 'Bobbio Pellice'],
+  ['001027', 'Bollengo'],
+  ['001028', 'Borgaro Torinese'],
+  ['001029', 'Borgiallo'],
+  ['001030', "Borgofranco d'Ivrea"],
+  ['001031', 'Borgomasino'],
+  ['001032', 'Borgone Susa'],
+  ['001033', 'Bosconero'],
+  ['001034', 'Brandizzo'],
+  ['001035', 'Bricherasio'],
+  ['001036', 'Brosso'],
+  ['001037', 'Brozolo'],
+  ['001038', 'Bruino'],
+  ['001039', 'Brusasco'],
+  ['001040', 'Bruzolo'],
+  ['001041', 'Buriasco'],
+  ['001042', 'Burolo'],
+  ['001043', 'Busano'],
+  ['001044', 'Bussoleno'],
+  ['001045', 'Buttigliera Alta'],
+  ['001046', 'Cafasse'],
+  ['001047', 'Caluso'],
+  ['001048', 'Cambiano'],
+  ['001049', 'Campiglione Fenile'],
+  ['001050', 'Candia Canavese'],
+  ['001051', 'Candiolo'],
+  ['001052', 'Canischio'],
+  ['001053', 'Cantalupa'],
+  ['001054', 'Cantoira'],
+  ['001055', 'Caprie'],
+  ['001056', 'Caravino'],
+  ['001057', 'Carema'],
+  ['001058', 'Carignano'],
+  ['001059', 'Carmagnola'],
+  ['001060', 'Casalborgone'],
+  ['001061', "Cascinette d'Ivrea"],
+  ['001062', 'Caselette'],
+  ['001063', 'Caselle Torinese'],
+  ['001064', 'Castagneto Po'],
+  ['001065', 'Castagnole Piemonte'],
+  ['001066', 'Castellamonte'],
+  ['001067', 'Castelnuovo Nigra'],
+  ['001068', 'Castiglione Torinese'],
+  ['001069', 'Cavagnolo'],
+  ['001070', 'Cavour'],
+  ['001071', 'Cercenasco'],
+  ['001072', 'Ceres'],
+  ['001073', 'Ceresole Reale'],
+  ['001074', 'Cesana Torinese'],
+  ['001075', 'Chialamberto'],
+  ['001076', 'Chianocco'],
+  ['001077', 'Chiaverano'],
+  ['001078', 'Chieri'],
+  ['001079', 'Chiesanuova'],
+  ['001080', 'Chiomonte'],
+  ['001081', 'Chiusa di San Michele'],
+  ['001082', 'Chivasso'],
+  ['001083', 'Ciconio'],
+  ['001084', 'Cintano'],
+  ['001085', 'Cinzano'],
+  ['001086', 'Ciriè'],
+  ['001087', 'Claviere'],
+  ['001088', 'Coassolo Torinese'],
+  ['001089', 'Coazze'],
+  ['001090', 'Collegno'],
+  ['001091', 'Colleretto Castelnuovo'],
+  ['001092', 'Colleretto Giacosa'],
+  ['001093', 'Condove'],
+  ['001094', 'Corio'],
+  ['001095', 'Cossano Canavese'],
+  ['001096', 'Cuceglio'],
+  ['001097', 'Cumiana'],
+  ['001098', 'Cuorgnè'],
+  ['001099', 'Druento'],
+  ['001100', 'Exilles'],
+  ['001101', 'Favria'],
+  ['001102', 'Feletto'],
+  ['001103', 'Fenestrelle'],
+  ['001104', 'Fiano'],
+  ['001105', 'Fiorano Canavese'],
+  ['001106', 'Foglizzo'],
+  ['001107', 'Forno Canavese'],
+  ['001108', 'Frassinetto'],
+  ['001109', 'Front'],
+  ['001110', 'Frossasco'],
+  ['001111', 'Garzigliana'],
+  ['001112', 'Gassino Torinese'],
+  ['001113', 'Germagnano'],
+  ['001114', 'Giaglione'],
+  ['001115', 'Giaveno'],
+  ['001116', 'Givoletto'],
+  ['001117', 'Gravere'],
+  ['001118', 'Groscavallo'],
+  ['001119', 'Grosso'],
+  ['001120', 'Grugliasco'],
+  ['001121', 'Ingria'],
+  ['001122', 'Inverso Pinasca'],
+  ['001123', 'Isolabella'],
+  ['001124', 'Issiglio'],
+  ['001125', 'Ivrea'],
+  ['001126', 'La Cassa'],
+  ['001127', 'La Loggia'],
+  ['001128', 'Lanzo Torinese'],
+  ['001129', 'Lauriano'],
+  ['001130', 'Leini'],
+  ['001131', 'Lemie'],
+  ['001132', 'Lessolo'],
+  ['001133', 'Levone'],
+  ['001134', 'Locana'],
+  ['001135', 'Lombardore'],
+  ['001136', 'Lombriasco'],
+  ['001137', 'Loranzè'],
+  ['001139', 'Luserna San Giovanni'],
+  ['001140', 'Lusernetta'],
+  ['001141', 'Lusigliè'],
+  ['001142', 'Macello'],
+  ['001143', 'Maglione'],
+  ['001144', 'Marentino'],
+  ['001145', 'Massello'],
+  ['001146', 'Mathi'],
+  ['001147', 'Mattie'],
+  ['001148', 'Mazzè'],
+  ['001149', 'Meana di Susa'],
+  ['001150', 'Mercenasco'],
+  ['001152', 'Mezzenile'],
+  ['001153', 'Mombello di Torino'],
+  ['001154', 'Mompantero'],
+  ['001155', 'Monastero di Lanzo'],
+  ['001156', 'Moncalieri'],
+  ['001157', 'Moncenisio'],
+  ['001158', 'Montaldo Torinese'],
+  ['001159', 'Montalenghe'],
+  ['001160', 'Montalto Dora'],
+  ['001161', 'Montanaro'],
+  ['001162', 'Monteu da Po'],
+  ['001163', 'Moriondo Torinese'],
+  ['001164', 'Nichelino'],
+  ['001165', 'Noasca'],
+  ['001166', 'Nole'],
+  ['001167', 'Nomaglio'],
+  ['001168', 'None'],
+  ['001169', 'Novalesa'],
+  ['001170', 'Oglianico'],
+  ['001171', 'Orbassano'],
+  ['001172', 'Orio Canavese'],
+  ['001173', 'Osasco'],
+  ['001174', 'Osasio'],
+  ['001175', 'Oulx'],
+  ['001176', 'Ozegna'],
+  ['001177', 'Palazzo Canavese'],
+  ['001178', 'Pancalieri'],
+  ['001179', 'Parella'],
+  ['001180', 'Pavarolo'],
+  ['001181', 'Pavone Canavese'],
+  ['001183', 'Pecetto Torinese'],
+  ['001184', 'Perosa Argentina'],
+  ['001185', 'Perosa Canavese'],
+  ['001186', 'Perrero'],
+  ['001187', 'Pertusio'],
+  ['001188', 'Pessinetto'],
+  ['001189', 'Pianezza'],
+  ['001190', 'Pinasca'],
+  ['001191', 'Pinerolo'],
+  ['001192', 'Pino Torinese'],
+  ['001193', 'Piobesi Torinese'],
+  ['001194', 'Piossasco'],
+  ['001195', 'Piscina'],
+  ['001196', 'Piverone'],
+  ['001197', 'Poirino'],
+  ['001198', 'Pomaretto'],
+  ['001199', 'Pont-Canavese'],
+  ['001200', 'Porte'],
+  ['001201', 'Pragelato'],
+  ['001202', 'Prali'],
+  ['001203', 'Pralormo'],
+  ['001204', 'Pramollo'],
+  ['001205', 'Prarostino'],
+  ['001206', 'Prascorsano'],
+  ['001207', 'Pratiglione'],
+  ['001208', 'Quagliuzzo'],
+  ['001209', 'Quassolo'],
+  ['001210', 'Quincinetto'],
+  ['001211', 'Reano'],
+  ['001212', 'Ribordone'],
+  ['001213', 'Rivalba'],
+  ['001214', 'Rivalta di Torino'],
+  ['001215', 'Riva presso Chieri'],
+  ['001216', 'Rivara'],
+  ['001217', 'Rivarolo Canavese'],
+  ['001218', 'Rivarossa'],
+  ['001219', 'Rivoli'],
+  ['001220', 'Robassomero'],
+  ['001221', 'Rocca Canavese'],
+  ['001222', 'Roletto'],
+  ['001223', 'Romano Canavese'],
+  ['001224', 'Ronco Canavese'],
+  ['001225', 'Rondissone'],
+  ['001226', 'Rorà'],
+  ['001227', 'Roure'],
+  ['001228', 'Rosta'],
+  ['001229', 'Rubiana'],
+  ['001230', 'Rueglio'],
+  ['001231', 'Salassa'],
+  ['001232', 'Salbertrand'],
+  ['001233', 'Salerano Canavese'],
+  ['001234', 'Salza di Pinerolo'],
+  ['001235', 'Samone'],
+  ['001236', 'San Benigno Canavese'],
+  ['001237', 'San Carlo Canavese'],
+  ['001238', 'San Colombano Belmonte'],
+  ['001239', 'San Didero'],
+  ['001240', 'San Francesco al Campo'],
+  ['001241', 'Sangano'],
+  ['001242', 'San Germano Chisone'],
+  ['001243', 'San Gillio'],
+  ['001244', 'San Giorgio Canavese'],
+  ['001245', 'San Giorio di Susa'],
+  ['001246', 'San Giusto Canavese'],
+  ['001247', 'San Martino Canavese'],
+  ['001248', 'San Maurizio Canavese'],
+  ['001249', 'San Mauro Torinese'],
+  ['001250', 'San Pietro Val Lemina'],
+  ['001251', 'San Ponso'],
+  ['001252', 'San Raffaele Cimena'],
+  ['001253', 'San Sebastiano da Po'],
+  ['001254', 'San Secondo di Pinerolo'],
+  ['001255', "Sant'Ambrogio di Torino"],
+  ['001256', "Sant'Antonino di Susa"],
+  ['001257', 'Santena'],
+  ['001258', 'Sauze di Cesana'],
+  ['001259', "Sauze d'Oulx"],
+  ['001260', 'Scalenghe'],
+  ['001261', 'Scarmagno'],
+  ['001262', 'Sciolze'],
+  ['001263', 'Sestriere'],
+  ['001264', 'Settimo Rottaro'],
+  ['001265', 'Settimo Torinese'],
+  ['001266', 'Settimo Vittone'],
+  ['001267', 'Sparone'],
+  ['001268', 'Strambinello'],
+  ['001269', 'Strambino'],
+  ['001270', 'Susa'],
+  ['001271', 'Tavagnasco'],
+  ['001272', 'Torino'],
+  ['001273', 'Torrazza Piemonte'],
+  ['001274', 'Torre Canavese'],
+  ['001275', 'Torre Pellice'],
+  ['001276', 'Trana'],
+  ['001278', 'Traversella'],
+  ['001279', 'Traves'],
+  ['001280', 'Trofarello'],
+  ['001281', 'Usseaux'],
+  ['001282', 'Usseglio'],
+  ['001283', 'Vaie'],
+  ['001284', 'Val della Torre'],
+  ['001285', 'Valgioie'],
+  ['001286', 'Vallo Torinese'],
+  ['001287', 'Valperga'],
+  ['001288', 'Valprato Soana'],
+  ['001289', 'Varisella'],
+  ['001290', 'Vauda Canavese'],
+  ['001291', 'Venaus'],
+  ['001292', 'Venaria Reale'],
+  ['001293', 'Verolengo'],
+  ['001294', 'Verrua Savoia'],
+  ['001295', 'Vestignè'],
+  ['001296', 'Vialfrè'],
+  ['001298', 'Vidracco'],
+  ['001299', 'Vigone'],
+  ['001300', 'Villafranca Piemonte'],
+  ['001301', 'Villanova Canavese'],
+  ['001302', 'Villarbasse'],
+  ['001303', 'Villar Dora'],
+  ['001304', 'Villareggia'],
+  ['001305', 'Villar Focchiardo'],
+  ['001306', 'Villar Pellice'],
+  ['001307', 'Villar Perosa'],
+  ['001308', 'Villastellone'],
+  ['001309', 'Vinovo'],
+  ['001310', 'Virle Piemonte'],
+  ['001311', 'Vische'],
+  ['001312', 'Vistrorio'],
+  ['001313', 'Viù'],
+  ['001314', 'Volpiano'],
+  ['001315', 'Volvera'],
+  ['001316', 'Mappano'],
+  ['001317', 'Val di Chy'],
+  ['001318', 'Valchiusa'],
+  ['002002', 'Alagna Valsesia'],
+  ['002003', 'Albano Vercellese'],
+  ['002004', 'Alice Castello'],
+  ['002006', 'Arborio'],
+  ['002007', 'Asigliano Vercellese'],
+  ['002008', 'Balmuccia'],
+  ['002009', 'Balocco'],
+  ['002011', 'Bianzè'],
+  ['002014', 'Boccioleto'],
+  ['002015', "Borgo d'Ale"],
+  ['002016', 'Borgosesia'],
+  ['002017', 'Borgo Vercelli'],
+  ['002021', 'Buronzo'],
+  ['002025', 'Campertogno'],
+  ['002029', 'Carcoforo'],
+  ['002030', 'Caresana'],
+  ['002031', 'Caresanablot'],
+  ['002032', 'Carisio'],
+  ['002033', 'Casanova Elvo'],
+  ['002035', 'San Giacomo Vercellese'],
+  ['002041', 'Cervatto'],
+  ['002042', 'Cigliano'],
+  ['002043', 'Civiasco'],
+  ['002045', 'Collobiano'],
+  ['002047', 'Costanzana'],
+  ['002048', 'Cravagliana'],
+  ['002049', 'Crescentino'],
+  ['002052', 'Crova'],
+  ['002054', 'Desana'],
+  ['002057', 'Fobello'],
+  ['002058', 'Fontanetto Po'],
+  ['002059', 'Formigliana'],
+  ['002061', 'Gattinara'],
+  ['002062', 'Ghislarengo'],
+  ['002065', 'Greggio'],
+  ['002066', 'Guardabosone'],
+  ['002067', 'Lamporo'],
+  ['002068', 'Lenta'],
+  ['002070', 'Lignana'],
+  ['002071', 'Livorno Ferraris'],
+  ['002072', 'Lozzolo'],
+  ['002078', 'Mollia'],
+  ['002079', 'Moncrivello'],
+  ['002082', "Motta de' Conti"],
+  ['002088', 'Olcenengo'],
+  ['002089', 'Oldenico'],
+  ['002090', 'Palazzolo Vercellese'],
+  ['002091', 'Pertengo'],
+  ['002093', 'Pezzana'],
+  ['002096', 'Pila'],
+  ['002097', 'Piode'],
+  ['002102', 'Postua'],
+  ['002104', 'Prarolo'],
+  ['002107', 'Quarona'],
+  ['002108', 'Quinto Vercellese'],
+  ['002110', 'Rassa'],
+  ['002113', 'Rimella'],
+  ['002115', 'Rive'],
+  ['002116', 'Roasio'],
+  ['002118', 'Ronsecco'],
+  ['002121', 'Rossa'],
+  ['002122', 'Rovasenda'],
+  ['002126', 'Salasco'],
+  ['002127', 'Sali Vercellese'],
+  ['002128', 'Saluggia'],
+  ['002131', 'San Germano Vercellese'],
+  ['002133', 'Santhià'],
+  ['002134', 'Scopa'],
+  ['002135', 'Scopello'],
+  ['002137', 'Serravalle Sesia'],
+  ['002142', 'Stroppiana'],
+  ['002147', 'Tricerro'],
+  ['002148', 'Trino'],
+  ['002150', 'Tronzano Vercellese'],
+  ['002152', 'Valduggia'],
+  ['002156', 'Varallo'],
+  ['002158', 'Vercelli'],
+  ['002163', 'Villarboit'],
+  ['002164', 'Villata'],
+  ['002166', 'Vocca'],
+  ['002170', 'Alto Sermenza'],
+  ['002171', 'Cellio con Breia'],
+  ['003001', 'Agrate Conturbia'],
+  ['003002', 'Ameno'],
+  ['003006', 'Armeno'],
+  ['003008', 'Arona'],
+  ['003012', 'Barengo'],
+  ['003016', 'Bellinzago Novarese'],
+  ['003018', 'Biandrate'],
+  ['003019', 'Boca'],
+  ['003021', 'Bogogno'],
+  ['003022', 'Bolzano Novarese'],
+  ['003023', 'Borgolavezzaro'],
+  ['003024', 'Borgomanero'],
+  ['003025', 'Borgo Ticino'],
+  ['003026', 'Briga Novarese'],
+  ['003027', 'Briona'],
+  ['003030', 'Caltignaga'],
+  ['003032', 'Cameri'],
+  ['003036', 'Carpignano Sesia'],
+  ['003037', 'Casalbeltrame'],
+  ['003039', 'Casaleggio Novara'],
+  ['003040', 'Casalino'],
+  ['003041', 'Casalvolone'],
+  ['003042', 'Castellazzo Novarese'],
+  ['003043', 'Castelletto sopra Ticino'],
+  ['003044', 'Cavaglietto'],
+  ['003045', "Cavaglio d'Agogna"],
+  ['003047', 'Cavallirio'],
+  ['003049', 'Cerano'],
+  ['003051', 'Colazza'],
+  ['003052', 'Comignago'],
+  ['003055', 'Cressa'],
+  ['003058', 'Cureggio'],
+  ['003060', 'Divignano'],
+  ['003062', 'Dormelletto'],
+  ['003065', 'Fara Novarese'],
+  ['003066', "Fontaneto d'Agogna"],
+  ['003068', 'Galliate'],
+  ['003069', 'Garbagna Novarese'],
+  ['003070', 'Gargallo'],
+  ['003073', 'Ghemme'],
+  ['003076', 'Gozzano'],
+  ['003077', 'Granozzo con Monticello'],
+  ['003079', 'Grignasco'],
+  ['003082', 'Invorio'],
+  ['003083', 'Landiona'],
+  ['003084', 'Lesa'],
+  ['003088', 'Maggiora'],
+  ['003090', 'Mandello Vitta'],
+  ['003091', 'Marano Ticino'],
+  ['003093', 'Massino Visconti'],
+  ['003095', 'Meina'],
+  ['003097', 'Mezzomerico'],
+  ['003098', 'Miasino'],
+  ['003100', 'Momo'],
+  ['003103', 'Nebbiuno'],
+  ['003104', 'Nibbiola'],
+  ['003106', 'Novara'],
+  ['003108', 'Oleggio'],
+  ['003109', 'Oleggio Castello'],
+  ['003112', 'Orta San Giulio'],
+  ['003114', 'Paruzzaro'],
+  ['003115', 'Pella'],
+  ['003116', 'Pettenasco'],
+  ['003119', 'Pisano'],
+  ['003120', 'Pogno'],
+  ['003121', 'Pombia'],
+  ['003122', 'Prato Sesia'],
+  ['003129', 'Recetto'],
+  ['003130', 'Romagnano Sesia'],
+  ['003131', 'Romentino'],
+  ['003133', "San Maurizio d'Opaglio"],
+  ['003134', 'San Nazzaro Sesia'],
+  ['003135', 'San Pietro Mosezzo'],
+  ['003138', 'Sillavengo'],
+  ['003139', 'Sizzano'],
+  ['003140', 'Soriso'],
+  ['003141', 'Sozzago'],
+  ['003143', 'Suno'],
+  ['003144', 'Terdobbiate'],
+  ['003146', 'Tornaco'],
+  ['003149', 'Trecate'],
+  ['003153', "Vaprio d'Agogna"],
+  ['003154', 'Varallo Pombia'],
+  ['003158', 'Vespolate'],
+  ['003159', 'Vicolungo'],
+  ['003164', 'Vinzaglio'],
+  ['003166', 'Gattico-Veruno'],
+  ['004001', 'Acceglio'],
+  ['004002', 'Aisone'],
+  ['004003', 'Alba'],
+  ['004004', 'Albaretto della Torre'],
+  ['004005', 'Alto'],
+  ['004006', 'Argentera'],
+  ['004007', 'Arguello'],
+  ['004008', 'Bagnasco'],
+  ['004009', 'Bagnolo Piemonte'],
+  ['004010', "Baldissero d'Alba"],
+  ['004011', 'Barbaresco'],
+  ['004012', 'Barge'],
+  ['004013', 'Barolo'],
+  ['004014', 'Bastia Mondovì'],
+  ['004015', 'Battifollo'],
+  ['004016', 'Beinette'],
+  ['004017', 'Bellino'],
+  ['004018', 'Belvedere Langhe'],
+  ['004019', 'Bene Vagienna'],
+  ['004020', 'Benevello'],
+  ['004021', 'Bergolo'],
+  ['004022', 'Bernezzo'],
+  ['004023', 'Bonvicino'],
+  ['004024', 'Borgomale'],
+  ['004025', 'Borgo San Dalmazzo'],
+  ['004026', 'Bosia'],
+  ['004027', 'Bossolasco'],
+  ['004028', 'Boves'],
+  ['004029', 'Bra'],
+  ['004030', 'Briaglia'],
+  ['004031', 'Briga Alta'],
+  ['004032', 'Brondello'],
+  ['004033', 'Brossasco'],
+  ['004034', 'Busca'],
+  ['004035', 'Camerana'],
+  ['004037', 'Canale'],
+  ['004038', 'Canosio'],
+  ['004039', 'Caprauna'],
+  ['004040', 'Caraglio'],
+  ['004041', 'Caramagna Piemonte'],
+  ['004042', 'Cardè'],
+  ['004043', 'Carrù'],
+  ['004044', 'Cartignano'],
+  ['004045', 'Casalgrasso'],
+  ['004046', 'Castagnito'],
+  ['004047', 'Casteldelfino'],
+  ['004049', 'Castelletto Stura'],
+  ['004050', 'Castelletto Uzzone'],
+  ['004051', "Castellinaldo d'Alba"],
+  ['004052', 'Castellino Tanaro'],
+  ['004053', 'Castelmagno'],
+  ['004054', 'Castelnuovo di Ceva'],
+  ['004055', 'Castiglione Falletto'],
+  ['004056', 'Castiglione Tinella'],
+  ['004057', 'Castino'],
+  ['004058', 'Cavallerleone'],
+  ['004059', 'Cavallermaggiore'],
+  ['004060', 'Celle di Macra'],
+  ['004061', 'Centallo'],
+  ['004062', 'Ceresole Alba'],
+  ['004063', 'Cerretto Langhe'],
+  ['004064', 'Cervasca'],
+  ['004065', 'Cervere'],
+  ['004066', 'Ceva'],
+  ['004067', 'Cherasco'],
+  ['004068', 'Chiusa di Pesio'],
+  ['004069', 'Cigliè'],
+  ['004070', 'Cissone'],
+  ['004071', 'Clavesana'],
+  ['004072', "Corneliano d'Alba"],
+  ['004073', 'Cortemilia'],
+  ['004074', 'Cossano Belbo'],
+  ['004075', 'Costigliole Saluzzo'],
+  ['004076', 'Cravanzana'],
+  ['004077', 'Crissolo'],
+  ['004078', 'Cuneo'],
+  ['004079', 'Demonte'],
+  ['004080', "Diano d'Alba"],
+  ['004081', 'Dogliani'],
+  ['004082', 'Dronero'],
+  ['004083', 'Elva'],
+  ['004084', 'Entracque'],
+  ['004085', 'Envie'],
+  ['004086', 'Farigliano'],
+  ['004087', 'Faule'],
+  ['004088', 'Feisoglio'],
+  ['004089', 'Fossano'],
+  ['004090', 'Frabosa Soprana'],
+  ['004091', 'Frabosa Sottana'],
+  ['004092', 'Frassino'],
+  ['004093', 'Gaiola'],
+  ['004094', 'Gambasca'],
+  ['004095', 'Garessio'],
+  ['004096', 'Genola'],
+  ['004097', 'Gorzegno'],
+  ['004098', 'Gottasecca'],
+  ['004099', 'Govone'],
+  ['004100', 'Grinzane Cavour'],
+  ['004101', 'Guarene'],
+  ['004102', 'Igliano'],
+  ['004103', 'Isasca'],
+  ['004104', 'Lagnasco'],
+  ['004105', 'La Morra'],
+  ['004106', 'Lequio Berria'],
+  ['004107', 'Lequio Tanaro'],
+  ['004108', 'Lesegno'],
+  ['004109', 'Levice'],
+  ['004110', 'Limone Piemonte'],
+  ['004111', 'Lisio'],
+  ['004112', 'Macra'],
+  ['004113', 'Magliano Alfieri'],
+  ['004114', 'Magliano Alpi'],
+  ['004115', 'Mango'],
+  ['004116', 'Manta'],
+  ['004117', 'Marene'],
+  ['004118', 'Margarita'],
+  ['004119', 'Marmora'],
+  ['004120', 'Marsaglia'],
+  ['004121', 'Martiniana Po'],
+  ['004122', 'Melle'],
+  ['004123', 'Moiola'],
+  ['004124', 'Mombarcaro'],
+  ['004125', 'Mombasiglio'],
+  ['004126', 'Monastero di Vasco'],
+  ['004127', 'Monasterolo Casotto'],
+  ['004128', 'Monasterolo di Savigliano'],
+  ['004129', 'Monchiero'],
+  ['004130', 'Mondovì'],
+  ['004131', 'Monesiglio'],
+  ['004132', "Monforte d'Alba"],
+  ['004133', 'Montà'],
+  ['004134', 'Montaldo di Mondovì'],
+  ['004135', 'Montaldo Roero'],
+  ['004136', 'Montanera'],
+  ['004137', 'Montelupo Albese'],
+  ['004138', 'Montemale di Cuneo'],
+  ['004139', 'Monterosso Grana'],
+  ['004140', 'Monteu Roero'],
+  ['004141', 'Montezemolo'],
+  ['004142', "Monticello d'Alba"],
+  ['004143', 'Moretta'],
+  ['004144', 'Morozzo'],
+  ['004145', 'Murazzano'],
+  ['004146', 'Murello'],
+  ['004147', 'Narzole'],
+  ['004148', 'Neive'],
+  ['004149', 'Neviglie'],
+  ['004150', 'Niella Belbo'],
+  ['004151', 'Niella Tanaro'],
+  ['004152', 'Novello'],
+  ['004153', 'Nucetto'],
+  ['004154', 'Oncino'],
+  ['004155', 'Ormea'],
+  ['004156', 'Ostana'],
+  ['004157', 'Paesana'],
+  ['004158', 'Pagno'],
+  ['004159', 'Pamparato'],
+  ['004160', 'Paroldo'],
+  ['004161', 'Perletto'],
+  ['004162', 'Perlo'],
+  ['004163', 'Peveragno'],
+  ['004164', 'Pezzolo Valle Uzzone'],
+  ['004165', 'Pianfei'],
+  ['004166', 'Piasco'],
+  ['004167', 'Pietraporzio'],
+  ['004168', "Piobesi d'Alba"],
+  ['004169', 'Piozzo'],
+  ['004170', 'Pocapaglia'],
+  ['004171', 'Polonghera'],
+  ['004172', 'Pontechianale'],
+  ['004173', 'Pradleves'],
+  ['004174', 'Prazzo'],
+  ['004175', 'Priero'],
+  ['004176', 'Priocca'],
+  ['004177', 'Priola'],
+  ['004178', 'Prunetto'],
+  ['004179', 'Racconigi'],
+  ['004180', 'Revello'],
+  ['004181', 'Rifreddo'],
+  ['004182', 'Rittana'],
+  ['004183', 'Roaschia'],
+  ['004184', 'Roascio'],
+  ['004185', 'Robilante'],
+  ['004186', 'Roburent'],
+  ['004187', 'Roccabruna'],
+  ['004188', 'Rocca Cigliè'],
+  ['004189', "Rocca de' Baldi"],
+  ['004190', 'Roccaforte Mondovì'],
+  ['004191', 'Roccasparvera'],
+  ['004192', 'Roccavione'],
+  ['004193', 'Rocchetta Belbo'],
+  ['004194', 'Roddi'],
+  ['004195', 'Roddino'],
+  ['004196', 'Rodello'],
+  ['004197', 'Rossana'],
+  ['004198', 'Ruffia'],
+  ['004199', 'Sale delle Langhe'],
+  ['004200', 'Sale San Giovanni'],
+  ['004201', 'Saliceto'],
+  ['004202', 'Salmour'],
+  ['004203', 'Saluzzo'],
+  ['004204', 'Sambuco'],
+  ['004205', 'Sampeyre'],
+  ['004206', 'San Benedetto Belbo'],
+  ['004207', 'San Damiano Macra'],
+  ['004208', 'Sanfrè'],
+  ['004209', 'Sanfront'],
+  ['004210', 'San Michele Mondovì'],
+  ['004211', "Sant'Albano Stura"],
+  ['004212', "Santa Vittoria d'Alba"],
+  ['004213', 'Santo Stefano Belbo'],
+  ['004214', 'Santo Stefano Roero'],
+  ['004215', 'Savigliano'],
+  ['004216', 'Scagnello'],
+  ['004217', 'Scarnafigi'],
+  ['004218', "Serralunga d'Alba"],
+  ['004219', 'Serravalle Langhe'],
+  ['004220', 'Sinio'],
+  ['004221', 'Somano'],
+  ['004222', 'Sommariva del Bosco'],
+  ['004223', 'Sommariva Perno'],
+  ['004224', 'Stroppo'],
+  ['004225', 'Tarantasca'],
+  ['004226', 'Torre Bormida'],
+  ['004227', 'Torre Mondovì'],
+  ['004228', 'Torre San Giorgio'],
+  ['004229', 'Torresina'],
+  ['004230', 'Treiso'],
+  ['004231', 'Trezzo Tinella'],
+  ['004232', 'Trinità'],
+  ['004233', 'Valdieri'],
+  ['004234', 'Valgrana'],
+  ['004235', 'Valloriate'],
+  ['004237', 'Venasca'],
+  ['004238', 'Verduno'],
+  ['004239', 'Vernante'],
+  ['004240', 'Verzuolo'],
+  ['004241', "Vezza d'Alba"],
+  ['004242', 'Vicoforte'],
+  ['004243', 'Vignolo'],
+  ['004244', 'Villafalletto'],
+  ['004245', 'Villanova Mondovì'],
+  ['004246', 'Villanova Solaro'],
+  ['004247', 'Villar San Costanzo'],
+  ['004248', 'Vinadio'],
+  ['004249', 'Viola'],
+  ['004250', 'Vottignasco'],
+  ['005001', 'Agliano Terme'],
+  ['005002', 'Albugnano'],
+  ['005003', 'Antignano'],
+  ['005004', 'Aramengo'],
+  ['005005', 'Asti'],
+  ['005006', "Azzano d'Asti"],
+  ['005007', "Baldichieri d'Asti"],
+  ['005008', 'Belveglio'],
+  ['005009', 'Berzano di San Pietro'],
+  ['005010', 'Bruno'],
+  ['005011', 'Bubbio'],
+  ['005012', "Buttigliera d'Asti"],
+  ['005013', 'Calamandrana'],
+  ['005014', 'Calliano'],
+  ['005015', 'Calosso'],
+  ['005016', 'Camerano Casasco'],
+  ['005017', 'Canelli'],
+  ['005018', 'Cantarana'],
+  ['005019', 'Capriglio'],
+  ['005020', 'Casorzo'],
+  ['005021', 'Cassinasco'],
+  ['005022', 'Castagnole delle Lanze'],
+  ['005023', 'Castagnole Monferrato'],
+  ['005024', 'Castel Boglione'],
+  ['005025', "Castell'Alfero"],
+  ['005026', 'Castellero'],
+  ['005027', 'Castelletto Molina'],
+  ['005028', 'Castello di Annone'],
+  ['005029', 'Castelnuovo Belbo'],
+  ['005030', 'Castelnuovo Calcea'],
+  ['005031', 'Castelnuovo Don Bosco'],
+  ['005032', 'Castel Rocchero'],
+  ['005033', 'Cellarengo'],
+  ['005034', 'Celle Enomondo'],
+  ['005035', "Cerreto d'Asti"],
+  ['005036', 'Cerro Tanaro'],
+  ['005037', 'Cessole'],
+  ['005038', "Chiusano d'Asti"],
+  ['005039', 'Cinaglio'],
+  ['005040', "Cisterna d'Asti"],
+  ['005041', 'Coazzolo'],
+  ['005042', 'Cocconato'],
+  ['005044', 'Corsione'],
+  ['005045', 'Cortandone'],
+  ['005046', 'Cortanze'],
+  ['005047', 'Cortazzone'],
+  ['005048', 'Cortiglione'],
+  ['005049', 'Cossombrato'],
+  ['005050', "Costigliole d'Asti"],
+  ['005051', 'Cunico'],
+  ['005052', 'Dusino San Michele'],
+  ['005053', 'Ferrere'],
+  ['005054', 'Fontanile'],
+  ['005055', 'Frinco'],
+  ['005056', 'Grana'],
+  ['005057', 'Grazzano Badoglio'],
+  ['005058', 'Incisa Scapaccino'],
+  ['005059', "Isola d'Asti"],
+  ['005060', 'Loazzolo'],
+  ['005061', 'Maranzana'],
+  ['005062', 'Maretto'],
+  ['005063', 'Moasca'],
+  ['005064', 'Mombaldone'],
+  ['005065', 'Mombaruzzo'],
+  ['005066', 'Mombercelli'],
+  ['005067', 'Monale'],
+  ['005068', 'Monastero Bormida'],
+  ['005069', 'Moncalvo'],
+  ['005070', 'Moncucco Torinese'],
+  ['005071', 'Mongardino'],
+  ['005072', 'Montabone'],
+  ['005073', 'Montafia'],
+  ['005074', 'Montaldo Scarampi'],
+  ['005075', "Montechiaro d'Asti"],
+  ['005076', "Montegrosso d'Asti"],
+  ['005077', 'Montemagno'],
+  ['005079', 'Moransengo'],
+  ['005080', 'Nizza Monferrato'],
+  ['005081', 'Olmo Gentile'],
+  ['005082', 'Passerano Marmorito'],
+  ['005083', 'Penango'],
+  ['005084', 'Piea'],
+  ['005085', "Pino d'Asti"],
+  ['005086', 'Piovà Massaia'],
+  ['005087', 'Portacomaro'],
+  ['005088', 'Quaranti'],
+  ['005089', 'Refrancore'],
+  ['005090', "Revigliasco d'Asti"],
+  ['005091', 'Roatto'],
+  ['005092', 'Robella'],
+  ['005093', "Rocca d'Arazzo"],
+  ['005094', 'Roccaverano'],
+  ['005095', 'Rocchetta Palafea'],
+  ['005096', 'Rocchetta Tanaro'],
+  ['005097', "San Damiano d'Asti"],
+  ['005098', 'San Giorgio Scarampi'],
+  ['005099', 'San Martino Alfieri'],
+  ['005100', 'San Marzano Oliveto'],
+  ['005101', 'San Paolo Solbrito'],
+  ['005103', 'Scurzolengo'],
+  ['005104', 'Serole'],
+  ['005105', 'Sessame'],
+  ['005106', 'Settime'],
+  ['005107', 'Soglio'],
+  ['005108', 'Tigliole'],
+  ['005109', 'Tonco'],
+  ['005110', 'Tonengo'],
+  ['005111', 'Vaglio Serra'],
+  ['005112', 'Valfenera'],
+  ['005113', 'Vesime'],
+  ['005114', 'Viale'],
+  ['005115', 'Viarigi'],
+  ['005116', "Vigliano d'Asti"],
+  ['005117', "Villafranca d'Asti"],
+  ['005118', "Villanova d'Asti"],
+  ['005119', 'Villa San Secondo'],
+  ['005120', 'Vinchio'],
+  ['005121', 'Montiglio Monferrato'],
+  ['006001', 'Acqui Terme'],
+  ['006002', 'Albera Ligure'],
+  ['006003', 'Alessandria'],
+  ['006004', 'Alfiano Natta'],
+  ['006005', 'Alice Bel Colle'],
+  ['006007', 'Altavilla Monferrato'],
+  ['006008', 'Alzano Scrivia'],
+  ['006009', 'Arquata Scrivia'],
+  ['006010', 'Avolasca'],
+  ['006011', 'Balzola'],
+  ['006012', 'Basaluzzo'],
+  ['006013', 'Bassignana'],
+  ['006014', 'Belforte Monferrato'],
+  ['006015', 'Bergamasco'],
+  ['006016', 'Berzano di Tortona'],
+  ['006017', 'Bistagno'],
+  ['006018', 'Borghetto di Borbera'],
+  ['006019', 'Borgoratto Alessandrino'],
+  ['006020', 'Borgo San Martino'],
+  ['006021', 'Bosco Marengo'],
+  ['006022', 'Bosio'],
+  ['006023', 'Bozzole'],
+  ['006024', 'Brignano-Frascata'],
+  ['006025', 'Cabella Ligure'],
+  ['006026', 'Camagna Monferrato'],
+  ['006027', 'Camino'],
+  ['006028', 'Cantalupo Ligure'],
+  ['006029', "Capriata d'Orba"],
+  ['006030', 'Carbonara Scrivia'],
+  ['006031', 'Carentino'],
+  ['006032', 'Carezzano'],
+  ['006033', 'Carpeneto'],
+  ['006034', 'Carrega Ligure'],
+  ['006035', 'Carrosio'],
+  ['006036', 'Cartosio'],
+  ['006037', 'Casal Cermelli'],
+  ['006038', 'Casaleggio Boiro'],
+  ['006039', 'Casale Monferrato'],
+  ['006040', 'Casalnoceto'],
+  ['006041', 'Casasco'],
+  ['006043', 'Cassine'],
+  ['006044', 'Cassinelle'],
+  ['006045', 'Castellania Coppi'],
+  ['006046', 'Castellar Guidobono'],
+  ['006047', 'Castellazzo Bormida'],
+  ['006048', "Castelletto d'Erro"],
+  ['006049', "Castelletto d'Orba"],
+  ['006050', 'Castelletto Merli'],
+  ['006051', 'Castelletto Monferrato'],
+  ['006052', 'Castelnuovo Bormida'],
+  ['006053', 'Castelnuovo Scrivia'],
+  ['006054', 'Castelspina'],
+  ['006055', 'Cavatore'],
+  ['006056', 'Cella Monte'],
+  ['006057', 'Cereseto'],
+  ['006058', 'Cerreto Grue'],
+  ['006059', 'Cerrina Monferrato'],
+  ['006060', 'Coniolo'],
+  ['006061', 'Conzano'],
+  ['006062', 'Costa Vescovato'],
+  ['006063', 'Cremolino'],
+  ['006065', 'Denice'],
+  ['006066', 'Dernice'],
+  ['006067', 'Fabbrica Curone'],
+  ['006068', 'Felizzano'],
+  ['006069', 'Fraconalto'],
+  ['006070', 'Francavilla Bisio'],
+  ['006071', 'Frascaro'],
+  ['006072', 'Frassinello Monferrato'],
+  ['006073', 'Frassineto Po'],
+  ['006074', 'Fresonara'],
+  ['006075', 'Frugarolo'],
+  ['006076', 'Fubine Monferrato'],
+  ['006077', 'Gabiano'],
+  ['006078', 'Gamalero'],
+  ['006079', 'Garbagna'],
+  ['006081', 'Gavi'],
+  ['006082', 'Giarole'],
+  ['006083', 'Gremiasco'],
+  ['006084', 'Grognardo'],
+  ['006085', 'Grondona'],
+  ['006086', 'Guazzora'],
+  ['006087', "Isola Sant'Antonio"],
+  ['006088', 'Lerma'],
+  ['006090', 'Malvicino'],
+  ['006091', 'Masio'],
+  ['006092', 'Melazzo'],
+  ['006093', 'Merana'],
+  ['006094', 'Mirabello Monferrato'],
+  ['006095', 'Molare'],
+  ['006096', 'Molino dei Torti'],
+  ['006097', 'Mombello Monferrato'],
+  ['006098', 'Momperone'],
+  ['006099', 'Moncestino'],
+  ['006100', 'Mongiardino Ligure'],
+  ['006101', 'Monleale'],
+  ['006102', 'Montacuto'],
+  ['006103', 'Montaldeo'],
+  ['006104', 'Montaldo Bormida'],
+  ['006105', 'Montecastello'],
+  ['006106', "Montechiaro d'Acqui"],
+  ['006107', 'Montegioco'],
+  ['006108', 'Montemarzino'],
+  ['006109', 'Morano sul Po'],
+  ['006110', 'Morbello'],
+  ['006111', 'Mornese'],
+  ['006112', 'Morsasco'],
+  ['006113', 'Murisengo'],
+  ['006114', 'Novi Ligure'],
+  ['006115', 'Occimiano'],
+  ['006116', 'Odalengo Grande'],
+  ['006117', 'Odalengo Piccolo'],
+  ['006118', 'Olivola'],
+  ['006119', 'Orsara Bormida'],
+  ['006120', 'Ottiglio'],
+  ['006121', 'Ovada'],
+  ['006122', 'Oviglio'],
+  ['006123', 'Ozzano Monferrato'],
+  ['006124', 'Paderna'],
+  ['006125', 'Pareto'],
+  ['006126', 'Parodi Ligure'],
+  ['006127', 'Pasturana'],
+  ['006128', 'Pecetto di Valenza'],
+  ['006129', 'Pietra Marazzi'],
+  ['006131', 'Pomaro Monferrato'],
+  ['006132', 'Pontecurone'],
+  ['006133', 'Pontestura'],
+  ['006134', 'Ponti'],
+  ['006135', 'Ponzano Monferrato'],
+  ['006136', 'Ponzone'],
+  ['006137', 'Pozzol Groppo'],
+  ['006138', 'Pozzolo Formigaro'],
+  ['006139', 'Prasco'],
+  ['006140', 'Predosa'],
+  ['006141', 'Quargnento'],
+  ['006142', 'Quattordio'],
+  ['006143', 'Ricaldone'],
+  ['006144', 'Rivalta Bormida'],
+  ['006145', 'Rivarone'],
+  ['006146', 'Roccaforte Ligure'],
+  ['006147', 'Rocca Grimalda'],
+  ['006148', 'Rocchetta Ligure'],
+  ['006149', 'Rosignano Monferrato'],
+  ['006150', 'Sala Monferrato'],
+  ['006151', 'Sale'],
+  ['006152', 'San Cristoforo'],
+  ['006153', 'San Giorgio Monferrato'],
+  ['006154', 'San Salvatore Monferrato'],
+  ['006155', 'San Sebastiano Curone'],
+  ['006156', "Sant'Agata Fossili"],
+  ['006157', 'Sardigliano'],
+  ['006158', 'Sarezzano'],
+  ['006159', 'Serralunga di Crea'],
+  ['006160', 'Serravalle Scrivia'],
+  ['006161', 'Sezzadio'],
+  ['006162', "Silvano d'Orba"],
+  ['006163', 'Solero'],
+  ['006164', 'Solonghello'],
+  ['006165', 'Spigno Monferrato'],
+  ['006166', 'Spineto Scrivia'],
+  ['006167', 'Stazzano'],
+  ['006168', 'Strevi'],
+  ['006169', 'Tagliolo Monferrato'],
+  ['006170', 'Tassarolo'],
+  ['006171', 'Terruggia'],
+  ['006172', 'Terzo'],
+  ['006173', 'Ticineto'],
+  ['006174', 'Tortona'],
+  ['006175', 'Treville'],
+  ['006176', 'Trisobbio'],
+  ['006177', 'Valenza'],
+  ['006178', 'Valmacca'],
+  ['006179', 'Vignale Monferrato'],
+  ['006180', 'Vignole Borbera'],
+  ['006181', 'Viguzzolo'],
+  ['006182', 'Villadeati'],
+  ['006183', 'Villalvernia'],
+  ['006184', 'Villamiroglio'],
+  ['006185', 'Villanova Monferrato'],
+  ['006186', 'Villaromagnano'],
+  ['006187', 'Visone'],
+  ['006188', 'Volpedo'],
+  ['006189', 'Volpeglino'],
+  ['006190', 'Voltaggio'],
+  ['006191', 'Cassano Spinola'],
+  ['006192', 'Alluvioni Piovera'],
+  ['006193', 'Lu e Cuccaro Monferrato'],
+  ['007001', 'Allein'],
+  ['007002', 'Antey-Saint-André'],
+  ['007003', 'Aosta'],
+  ['007004', 'Arnad'],
+  ['007005', 'Arvier'],
+  ['007006', 'Avise'],
+  ['007007', 'Ayas'],
+  ['007008', 'Aymavilles'],
+  ['007009', 'Bard'],
+  ['007010', 'Bionaz'],
+  ['007011', 'Brissogne'],
+  ['007012', 'Brusson'],
+  ['007013', 'Challand-Saint-Anselme'],
+  ['007014', 'Challand-Saint-Victor'],
+  ['007015', 'Chambave'],
+  ['007016', 'Chamois'],
+  ['007017', 'Champdepraz'],
+  ['007018', 'Champorcher'],
+  ['007019', 'Charvensod'],
+  ['007020', 'Châtillon'],
+  ['007021', 'Cogne'],
+  ['007022', 'Courmayeur'],
+  ['007023', 'Donnas'],
+  ['007024', 'Doues'],
+  ['007025', 'Emarèse'],
+  ['007026', 'Etroubles'],
+  ['007027', 'Fénis'],
+  ['007028', 'Fontainemore'],
+  ['007029', 'Gaby'],
+  ['007030', 'Gignod'],
+  ['007031', 'Gressan'],
+  ['007032', 'Gressoney-La-Trinité'],
+  ['007033', 'Gressoney-Saint-Jean'],
+  ['007034', 'Hône'],
+  ['007035', 'Introd'],
+  ['007036', 'Issime'],
+  ['007037', 'Issogne'],
+  ['007038', 'Jovençan'],
+  ['007039', 'La Magdeleine'],
+  ['007040', 'La Salle'],
+  ['007041', 'La Thuile'],
+  ['007042', 'Lillianes'],
+  ['007043', 'Montjovet'],
+  ['007044', 'Morgex'],
+  ['007045', 'Nus'],
+  ['007046', 'Ollomont'],
+  ['007047', 'Oyace'],
+  ['007048', 'Perloz'],
+  ['007049', 'Pollein'],
+  ['007050', 'Pontboset'],
+  ['007051', 'Pontey'],
+  ['007052', 'Pont-Saint-Martin'],
+  ['007053', 'Pré-Saint-Didier'],
+  ['007054', 'Quart'],
+  ['007055', 'Rhêmes-Notre-Dame'],
+  ['007056', 'Rhêmes-Saint-Georges'],
+  ['007057', 'Roisan'],
+  ['007058', 'Saint-Christophe'],
+  ['007059', 'Saint-Denis'],
+  ['007060', 'Saint-Marcel'],
+  ['007061', 'Saint-Nicolas'],
+  ['007062', 'Saint-Oyen'],
+  ['007063', 'Saint-Pierre'],
+  ['007064', 'Saint-Rhémy-en-Bosses'],
+  ['007065', 'Saint-Vincent'],
+  ['007066', 'Sarre'],
+  ['007067', 'Torgnon'],
+  ['007068', 'Valgrisenche'],
+  ['007069', 'Valpelline'],
+  ['007070', 'Valsavarenche'],
+  ['007071', 'Valtournenche'],
+  ['007072', 'Verrayes'],
+  ['007073', 'Verrès'],
+  ['007074', 'Villeneuve'],
+  ['008001', 'Airole'],
+  ['008002', 'Apricale'],
+  ['008003', "Aquila d'Arroscia"],
+  ['008004', 'Armo'],
+  ['008005', 'Aurigo'],
+  ['008006', 'Badalucco'],
+  ['008007', 'Bajardo'],
+  ['008008', 'Bordighera'],
+  ['008009', "Borghetto d'Arroscia"],
+  ['008010', 'Borgomaro'],
+  ['008011', 'Camporosso'],
+  ['008012', 'Caravonica'],
+  ['008014', 'Castellaro'],
+  ['008015', 'Castel Vittorio'],
+  ['008016', 'Ceriana'],
+  ['008017', 'Cervo'],
+  ['008018', 'Cesio'],
+  ['008019', 'Chiusanico'],
+  ['008020', 'Chiusavecchia'],
+  ['008021', 'Cipressa'],
+  ['008022', 'Civezza'],
+  ['008023', "Cosio d'Arroscia"],
+  ['008024', 'Costarainera'],
+  ['008025', 'Diano Arentino'],
+  ['008026', 'Diano Castello'],
+  ['008027', 'Diano Marina'],
+  ['008028', 'Diano San Pietro'],
+  ['008029', 'Dolceacqua'],
+  ['008030', 'Dolcedo'],
+  ['008031', 'Imperia'],
+  ['008032', 'Isolabona'],
+  ['008033', 'Lucinasco'],
+  ['008034', 'Mendatica'],
+  ['008035', 'Molini di Triora'],
+  ['008037', 'Montegrosso Pian Latte'],
+  ['008038', 'Olivetta San Michele'],
+  ['008039', 'Ospedaletti'],
+  ['008040', 'Perinaldo'],
+  ['008041', 'Pietrabruna'],
+  ['008042', 'Pieve di Teco'],
+  ['008043', 'Pigna'],
+  ['008044', 'Pompeiana'],
+  ['008045', 'Pontedassio'],
+  ['008046', 'Pornassio'],
+  ['008047', 'Prelà'],
+  ['008048', 'Ranzo'],
+  ['008049', 'Rezzo'],
+  ['008050', 'Riva Ligure'],
+  ['008051', 'Rocchetta Nervina'],
+  ['008052', 'San Bartolomeo al Mare'],
+  ['008053', 'San Biagio della Cima'],
+  ['008054', 'San Lorenzo al Mare'],
+  ['008055', 'Sanremo'],
+  ['008056', 'Santo Stefano al Mare'],
+  ['008057', 'Seborga'],
+  ['008058', 'Soldano'],
+  ['008059', 'Taggia'],
+  ['008060', 'Terzorio'],
+  ['008061', 'Triora'],
+  ['008062', 'Vallebona'],
+  ['008063', 'Vallecrosia'],
+  ['008064', 'Vasia'],
+  ['008065', 'Ventimiglia'],
+  ['008066', 'Vessalico'],
+  ['008067', 'Villa Faraldi'],
+  ['008068', 'Montalto Carpasio'],
+  ['009001', 'Alassio'],
+  ['009002', 'Albenga'],
+  ['009003', 'Albissola Marina'],
+  ['009004', 'Albisola Superiore'],
+  ['009005', 'Altare'],
+  ['009006', 'Andora'],
+  ['009007', 'Arnasco'],
+  ['009008', 'Balestrino'],
+  ['009009', 'Bardineto'],
+  ['009010', 'Bergeggi'],
+  ['009011', 'Boissano'],
+  ['009012', 'Borghetto Santo Spirito'],
+  ['009013', 'Borgio Verezzi'],
+  ['009014', 'Bormida'],
+  ['009015', 'Cairo Montenotte'],
+  ['009016', 'Calice Ligure'],
+  ['009017', 'Calizzano'],
+  ['009018', 'Carcare'],
+  ['009019', 'Casanova Lerrone'],
+  ['009020', 'Castelbianco'],
+  ['009021', 'Castelvecchio di Rocca Barbena'],
+  ['009022', 'Celle Ligure'],
+  ['009023', 'Cengio'],
+  ['009024', 'Ceriale'],
+  ['009025', 'Cisano sul Neva'],
+  ['009026', 'Cosseria'],
+  ['009027', 'Dego'],
+  ['009028', 'Erli'],
+  ['009029', 'Finale Ligure'],
+  ['009030', 'Garlenda'],
+  ['009031', 'Giustenice'],
+  ['009032', 'Giusvalla'],
+  ['009033', 'Laigueglia'],
+  ['009034', 'Loano'],
+  ['009035', 'Magliolo'],
+  ['009036', 'Mallare'],
+  ['009037', 'Massimino'],
+  ['009038', 'Millesimo'],
+  ['009039', 'Mioglia'],
+  ['009040', 'Murialdo'],
+  ['009041', 'Nasino'],
+  ['009042', 'Noli'],
+  ['009043', 'Onzo'],
+  ['009044', 'Orco Feglino'],
+  ['009045', 'Ortovero'],
+  ['009046', 'Osiglia'],
+  ['009047', 'Pallare'],
+  ['009048', 'Piana Crixia'],
+  ['009049', 'Pietra Ligure'],
+  ['009050', 'Plodio'],
+  ['009051', 'Pontinvrea'],
+  ['009052', 'Quiliano'],
+  ['009053', 'Rialto'],
+  ['009054', 'Roccavignale'],
+  ['009055', 'Sassello'],
+  ['009056', 'Savona'],
+  ['009057', 'Spotorno'],
+  ['009058', 'Stella'],
+  ['009059', 'Stellanello'],
+  ['009060', 'Testico'],
+  ['009061', 'Toirano'],
+  ['009062', 'Tovo San Giacomo'],
+  ['009063', 'Urbe'],
+  ['009064', 'Vado Ligure'],
+  ['009065', 'Varazze'],
+  ['009066', 'Vendone'],
+  ['009067', 'Vezzi Portio'],
+  ['009068', "Villanova d'Albenga"],
+  ['009069', 'Zuccarello'],
+  ['010001', 'Arenzano'],
+  ['010002', 'Avegno'],
+  ['010003', 'Bargagli'],
+  ['010004', 'Bogliasco'],
+  ['010005', 'Borzonasca'],
+  ['010006', 'Busalla'],
+  ['010007', 'Camogli'],
+  ['010008', 'Campo Ligure'],
+  ['010009', 'Campomorone'],
+  ['010010', 'Carasco'],
+  ['010011', 'Casarza Ligure'],
+  ['010012', 'Casella'],
+  ['010013', 'Castiglione Chiavarese'],
+  ['010014', 'Ceranesi'],
+  ['010015', 'Chiavari'],
+  ['010016', 'Cicagna'],
+  ['010017', 'Cogoleto'],
+  ['010018', 'Cogorno'],
+  ['010019', 'Coreglia Ligure'],
+  ['010020', 'Crocefieschi'],
+  ['010021', 'Davagna'],
+  ['010022', 'Fascia'],
+  ['010023', 'Favale di Malvaro'],
+  ['010024', 'Fontanigorda'],
+  ['010025', 'Genova'],
+  ['010026', 'Gorreto'],
+  ['010027', 'Isola del Cantone'],
+  ['010028', 'Lavagna'],
+  ['010029', 'Leivi'],
+  ['010030', 'Lorsica'],
+  ['010031', 'Lumarzo'],
+  ['010032', 'Masone'],
+  ['010033', 'Mele'],
+  ['010034', 'Mezzanego'],
+  ['010035', 'Mignanego'],
+  ['010036', 'Moconesi'],
+  ['010037', 'Moneglia'],
+  ['010038', 'Montebruno'],
+  ['010039', 'Montoggio'],
+  ['010040', 'Ne'],
+  ['010041', 'Neirone'],
+  ['010042', 'Orero'],
+  ['010043', 'Pieve Ligure'],
+  ['010044', 'Portofino'],
+  ['010045', 'Propata'],
+  ['010046', 'Rapallo'],
+  ['010047', 'Recco'],
+  ['010048', 'Rezzoaglio'],
+  ['010049', 'Ronco Scrivia'],
+  ['010050', 'Rondanina'],
+  ['010051', 'Rossiglione'],
+  ['010052', 'Rovegno'],
+  ['010053', 'San Colombano Certenoli'],
+  ['010054', 'Santa Margherita Ligure'],
+  ['010055', "Sant'Olcese"],
+  ['010056', "Santo Stefano d'Aveto"],
+  ['010057', 'Savignone'],
+  ['010058', 'Serra Riccò'],
+  ['010059', 'Sestri Levante'],
+  ['010060', 'Sori'],
+  ['010061', 'Tiglieto'],
+  ['010062', 'Torriglia'],
+  ['010063', 'Tribogna'],
+  ['010064', 'Uscio'],
+  ['010065', 'Valbrevenna'],
+  ['010066', 'Vobbia'],
+  ['010067', 'Zoagli'],
+  ['011001', 'Ameglia'],
+  ['011002', 'Arcola'],
+  ['011003', 'Beverino'],
+  ['011004', 'Bolano'],
+  ['011005', 'Bonassola'],
+  ['011006', 'Borghetto di Vara'],
+  ['011007', 'Brugnato'],
+  ['011008', 'Calice al Cornoviglio'],
+  ['011009', 'Carro'],
+  ['011010', 'Carrodano'],
+  ['011011', 'Castelnuovo Magra'],
+  ['011012', 'Deiva Marina'],
+  ['011013', 'Follo'],
+  ['011014', 'Framura'],
+  ['011015', 'La Spezia'],
+  ['011016', 'Lerici'],
+  ['011017', 'Levanto'],
+  ['011018', 'Maissana'],
+  ['011019', 'Monterosso al Mare'],
+  ['011020', 'Luni'],
+  ['011021', 'Pignone'],
+  ['011022', 'Portovenere'],
+  ['011023', 'Riccò del Golfo di Spezia'],
+  ['011024', 'Riomaggiore'],
+  ['011025', 'Rocchetta di Vara'],
+  ['011026', 'Santo Stefano di Magra'],
+  ['011027', 'Sarzana'],
+  ['011028', 'Sesta Godano'],
+  ['011029', 'Varese Ligure'],
+  ['011030', 'Vernazza'],
+  ['011031', 'Vezzano Ligure'],
+  ['011032', 'Zignago'],
+  ['012001', 'Agra'],
+  ['012002', 'Albizzate'],
+  ['012003', 'Angera'],
+  ['012004', 'Arcisate'],
+  ['012005', 'Arsago Seprio'],
+  ['012006', 'Azzate'],
+  ['012007', 'Azzio'],
+  ['012008', 'Barasso'],
+  ['012009', 'Bardello'],
+  ['012010', 'Bedero Valcuvia'],
+  ['012011', 'Besano'],
+  ['012012', 'Besnate'],
+  ['012013', 'Besozzo'],
+  ['012014', 'Biandronno'],
+  ['012015', 'Bisuschio'],
+  ['012016', 'Bodio Lomnago'],
+  ['012017', 'Brebbia'],
+  ['012018', 'Bregano'],
+  ['012019', 'Brenta'],
+  ['012020', 'Brezzo di Bedero'],
+  ['012021', 'Brinzio'],
+  ['012022', 'Brissago-Valtravaglia'],
+  ['012023', 'Brunello'],
+  ['012024', 'Brusimpiano'],
+  ['012025', 'Buguggiate'],
+  ['012026', 'Busto Arsizio'],
+  ['012027', 'Cadegliano-Viconago'],
+  ['012029', 'Cairate'],
+  ['012030', 'Cantello'],
+  ['012031', 'Caravate'],
+  ['012032', 'Cardano al Campo'],
+  ['012033', 'Carnago'],
+  ['012034', 'Caronno Pertusella'],
+  ['012035', 'Caronno Varesino'],
+  ['012036', 'Casale Litta'],
+  ['012037', 'Casalzuigno'],
+  ['012038', 'Casciago'],
+  ['012039', 'Casorate Sempione'],
+  ['012040', 'Cassano Magnago'],
+  ['012041', 'Cassano Valcuvia'],
+  ['012042', 'Castellanza'],
+  ['012043', 'Castello Cabiaglio'],
+  ['012044', 'Castelseprio'],
+  ['012045', 'Castelveccana'],
+  ['012046', 'Castiglione Olona'],
+  ['012047', 'Castronno'],
+  ['012048', 'Cavaria con Premezzo'],
+  ['012049', 'Cazzago Brabbia'],
+  ['012050', 'Cislago'],
+  ['012051', 'Cittiglio'],
+  ['012052', 'Clivio'],
+  ['012053', 'Cocquio-Trevisago'],
+  ['012054', 'Comabbio'],
+  ['012055', 'Comerio'],
+  ['012056', 'Cremenaga'],
+  ['012057', 'Crosio della Valle'],
+  ['012058', 'Cuasso al Monte'],
+  ['012059', 'Cugliate-Fabiasco'],
+  ['012060', 'Cunardo'],
+  ['012061', 'Curiglia con Monteviasco'],
+  ['012062', 'Cuveglio'],
+  ['012063', 'Cuvio'],
+  ['012064', 'Daverio'],
+  ['012065', 'Dumenza'],
+  ['012066', 'Duno'],
+  ['012067', 'Fagnano Olona'],
+  ['012068', 'Ferno'],
+  ['012069', 'Ferrera di Varese'],
+  ['012070', 'Gallarate'],
+  ['012071', 'Galliate Lombardo'],
+  ['012072', 'Gavirate'],
+  ['012073', 'Gazzada Schianno'],
+  ['012074', 'Gemonio'],
+  ['012075', 'Gerenzano'],
+  ['012076', 'Germignaga'],
+  ['012077', 'Golasecca'],
+  ['012078', 'Gorla Maggiore'],
+  ['012079', 'Gorla Minore'],
+  ['012080', 'Gornate Olona'],
+  ['012081', 'Grantola'],
+  ['012082', 'Inarzo'],
+  ['012083', 'Induno Olona'],
+  ['012084', 'Ispra'],
+  ['012085', 'Jerago con Orago'],
+  ['012086', 'Lavena Ponte Tresa'],
+  ['012087', 'Laveno-Mombello'],
+  ['012088', 'Leggiuno'],
+  ['012089', 'Lonate Ceppino'],
+  ['012090', 'Lonate Pozzolo'],
+  ['012091', 'Lozza'],
+  ['012092', 'Luino'],
+  ['012093', 'Luvinate'],
+  ['012095', 'Malgesso'],
+  ['012096', 'Malnate'],
+  ['012097', 'Marchirolo'],
+  ['012098', 'Marnate'],
+  ['012099', 'Marzio'],
+  ['012100', 'Masciago Primo'],
+  ['012101', 'Mercallo'],
+  ['012102', 'Mesenzana'],
+  ['012103', 'Montegrino Valtravaglia'],
+  ['012104', 'Monvalle'],
+  ['012105', 'Morazzone'],
+  ['012106', 'Mornago'],
+  ['012107', 'Oggiona con Santo Stefano'],
+  ['012108', 'Olgiate Olona'],
+  ['012109', 'Origgio'],
+  ['012110', 'Orino'],
+  ['012113', 'Porto Ceresio'],
+  ['012114', 'Porto Valtravaglia'],
+  ['012115', 'Rancio Valcuvia'],
+  ['012116', 'Ranco'],
+  ['012117', 'Saltrio'],
+  ['012118', 'Samarate'],
+  ['012119', 'Saronno'],
+  ['012120', 'Sesto Calende'],
+  ['012121', 'Solbiate Arno'],
+  ['012122', 'Solbiate Olona'],
+  ['012123', 'Somma Lombardo'],
+  ['012124', 'Sumirago'],
+  ['012125', 'Taino'],
+  ['012126', 'Ternate'],
+  ['012127', 'Tradate'],
+  ['012128', 'Travedona-Monate'],
+  ['012129', 'Tronzano Lago Maggiore'],
+  ['012130', 'Uboldo'],
+  ['012131', 'Valganna'],
+  ['012132', 'Varano Borghi'],
+  ['012133', 'Varese'],
+  ['012134', 'Vedano Olona'],
+  ['012136', 'Venegono Inferiore'],
+  ['012137', 'Venegono Superiore'],
+  ['012138', 'Vergiate'],
+  ['012139', 'Viggiù'],
+  ['012140', 'Vizzola Ticino'],
+  ['012141', 'Sangiano'],
+  ['012142', 'Maccagno con Pino e Veddasca'],
+  ['012143', 'Cadrezzate con Osmate'],
+  ['013003', 'Albavilla'],
+  ['013004', 'Albese con Cassano'],
+  ['013005', 'Albiolo'],
+  ['013006', 'Alserio'],
+  ['013007', 'Alzate Brianza'],
+  ['013009', 'Anzano del Parco'],
+  ['013010', 'Appiano Gentile'],
+  ['013011', 'Argegno'],
+  ['013012', 'Arosio'],
+  ['013013', 'Asso'],
+  ['013015', 'Barni'],
+  ['013021', 'Bene Lario'],
+  ['013022', 'Beregazzo con Figliaro'],
+  ['013023', 'Binago'],
+  ['013024', 'Bizzarone'],
+  ['013025', 'Blessagno'],
+  ['013026', 'Blevio'],
+  ['013028', 'Bregnano'],
+  ['013029', 'Brenna'],
+  ['013030', 'Brienno'],
+  ['013032', 'Brunate'],
+  ['013034', 'Bulgarograsso'],
+  ['013035', 'Cabiate'],
+  ['013036', 'Cadorago'],
+  ['013037', 'Caglio'],
+  ['013040', "Campione d'Italia"],
+  ['013041', 'Cantù'],
+  ['013042', 'Canzo'],
+  ['013043', 'Capiago Intimiano'],
+  ['013044', 'Carate Urio'],
+  ['013045', 'Carbonate'],
+  ['013046', 'Carimate'],
+  ['013047', 'Carlazzo'],
+  ['013048', 'Carugo'],
+  ['013052', "Caslino d'Erba"],
+  ['013053', 'Casnate con Bernate'],
+  ['013055', 'Cassina Rizzardi'],
+  ['013058', 'Castelmarte'],
+  ['013059', 'Castelnuovo Bozzente'],
+  ['013062', 'Cavargna'],
+  ['013063', "Cerano d'Intelvi"],
+  ['013064', 'Cermenate'],
+  ['013065', 'Cernobbio'],
+  ['013068', 'Cirimido'],
+  ['013071', 'Claino con Osteno'],
+  ['013074', 'Colonno'],
+  ['013075', 'Como'],
+  ['013077', 'Corrido'],
+  ['013083', 'Cremia'],
+  ['013084', 'Cucciago'],
+  ['013085', 'Cusino'],
+  ['013087', 'Dizzasco'],
+  ['013089', 'Domaso'],
+  ['013090', 'Dongo'],
+  ['013092', 'Dosso del Liro'],
+  ['013095', 'Erba'],
+  ['013097', 'Eupilio'],
+  ['013098', 'Faggeto Lario'],
+  ['013099', 'Faloppio'],
+  ['013100', 'Fenegrò'],
+  ['013101', 'Figino Serenza'],
+  ['013102', 'Fino Mornasco'],
+  ['013106', 'Garzeno'],
+  ['013107', 'Gera Lario'],
+  ['013110', 'Grandate'],
+  ['013111', 'Grandola ed Uniti'],
+  ['013113', 'Griante'],
+  ['013114', 'Guanzate'],
+  ['013118', 'Inverigo'],
+  ['013119', 'Laglio'],
+  ['013120', 'Laino'],
+  ['013121', 'Lambrugo'],
+  ['013123', 'Lasnigo'],
+  ['013126', 'Lezzeno'],
+  ['013128', 'Limido Comasco'],
+  ['013129', 'Lipomo'],
+  ['013130', 'Livo'],
+  ['013131', 'Locate Varesino'],
+  ['013133', 'Lomazzo'],
+  ['013134', 'Longone al Segrino'],
+  ['013135', 'Luisago'],
+  ['013136', "Lurago d'Erba"],
+  ['013137', 'Lurago Marinone'],
+  ['013138', 'Lurate Caccivio'],
+  ['013139', 'Magreglio'],
+  ['013143', 'Mariano Comense'],
+  ['013144', 'Maslianico'],
+  ['013145', 'Menaggio'],
+  ['013147', 'Merone'],
+  ['013152', 'Moltrasio'],
+  ['013153', 'Monguzzo'],
+  ['013154', 'Montano Lucino'],
+  ['013155', 'Montemezzo'],
+  ['013157', 'Montorfano'],
+  ['013159', 'Mozzate'],
+  ['013160', 'Musso'],
+  ['013161', 'Nesso'],
+  ['013163', 'Novedrate'],
+  ['013165', 'Olgiate Comasco'],
+  ['013169', 'Oltrona di San Mamette'],
+  ['013170', 'Orsenigo'],
+  ['013178', 'Peglio'],
+  ['013183', 'Pianello del Lario'],
+  ['013184', 'Pigra'],
+  ['013185', 'Plesio'],
+  ['013186', 'Pognana Lario'],
+  ['013187', 'Ponna'],
+  ['013188', 'Ponte Lambro'],
+  ['013189', 'Porlezza'],
+  ['013192', 'Proserpio'],
+  ['013193', 'Pusiano'],
+  ['013195', 'Rezzago'],
+  ['013197', 'Rodero'],
+  ['013199', 'Ronago'],
+  ['013201', 'Rovellasca'],
+  ['013202', 'Rovello Porro'],
+  ['013203', 'Sala Comacina'],
+  ['013204', 'San Bartolomeo Val Cavargna'],
+  ['013206', 'San Fermo della Battaglia'],
+  ['013207', 'San Nazzaro Val Cavargna'],
+  ['013211', 'Schignano'],
+  ['013212', 'Senna Comasco'],
+  ['013216', 'Sorico'],
+  ['013217', 'Sormano'],
+  ['013218', 'Stazzona'],
+  ['013222', 'Tavernerio'],
+  ['013223', 'Torno'],
+  ['013226', 'Trezzone'],
+  ['013227', 'Turate'],
+  ['013228', 'Uggiate-Trevano'],
+  ['013229', 'Valbrona'],
+  ['013232', 'Valmorea'],
+  ['013233', 'Val Rezzo'],
+  ['013234', 'Valsolda'],
+  ['013236', 'Veleso'],
+  ['013238', 'Veniano'],
+  ['013239', 'Vercana'],
+  ['013242', 'Vertemate con Minoprio'],
+  ['013245', 'Villa Guardia'],
+  ['013246', 'Zelbio'],
+  ['013248', 'San Siro'],
+  ['013249', 'Gravedona ed Uniti'],
+  ['013250', 'Bellagio'],
+  ['013251', 'Colverde'],
+  ['013252', 'Tremezzina'],
+  ['013253', 'Alta Valle Intelvi'],
+  ['013254', 'Centro Valle Intelvi'],
+  ['013255', 'Solbiate con Cagno'],
+  ['014001', 'Albaredo per San Marco'],
+  ['014002', 'Albosaggia'],
+  ['014003', 'Andalo Valtellino'],
+  ['014004', 'Aprica'],
+  ['014005', 'Ardenno'],
+  ['014006', 'Bema'],
+  ['014007', 'Berbenno di Valtellina'],
+  ['014008', 'Bianzone'],
+  ['014009', 'Bormio'],
+  ['014010', 'Buglio in Monte'],
+  ['014011', 'Caiolo'],
+  ['014012', 'Campodolcino'],
+  ['014013', 'Caspoggio'],
+  ['014014', "Castello dell'Acqua"],
+  ['014015', 'Castione Andevenno'],
+  ['014016', 'Cedrasco'],
+  ['014017', 'Cercino'],
+  ['014018', 'Chiavenna'],
+  ['014019', 'Chiesa in Valmalenco'],
+  ['014020', 'Chiuro'],
+  ['014021', 'Cino'],
+  ['014022', 'Civo'],
+  ['014023', 'Colorina'],
+  ['014024', 'Cosio Valtellino'],
+  ['014025', 'Dazio'],
+  ['014026', 'Delebio'],
+  ['014027', 'Dubino'],
+  ['014028', 'Faedo Valtellino'],
+  ['014029', 'Forcola'],
+  ['014030', 'Fusine'],
+  ['014031', 'Gerola Alta'],
+  ['014032', 'Gordona'],
+  ['014033', 'Grosio'],
+  ['014034', 'Grosotto'],
+  ['014035', 'Madesimo'],
+  ['014036', 'Lanzada'],
+  ['014037', 'Livigno'],
+  ['014038', 'Lovero'],
+  ['014039', 'Mantello'],
+  ['014040', 'Mazzo di Valtellina'],
+  ['014041', 'Mello'],
+  ['014043', 'Mese'],
+  ['014044', 'Montagna in Valtellina'],
+  ['014045', 'Morbegno'],
+  ['014046', 'Novate Mezzola'],
+  ['014047', 'Pedesina'],
+  ['014048', 'Piantedo'],
+  ['014049', 'Piateda'],
+  ['014050', 'Piuro'],
+  ['014051', 'Poggiridenti'],
+  ['014052', 'Ponte in Valtellina'],
+  ['014053', 'Postalesio'],
+  ['014054', 'Prata Camportaccio'],
+  ['014055', 'Rasura'],
+  ['014056', 'Rogolo'],
+  ['014057', 'Samolaco'],
+  ['014058', 'San Giacomo Filippo'],
+  ['014059', 'Sernio'],
+  ['014060', 'Sondalo'],
+  ['014061', 'Sondrio'],
+  ['014062', 'Spriana'],
+  ['014063', 'Talamona'],
+  ['014064', 'Tartano'],
+  ['014065', 'Teglio'],
+  ['014066', 'Tirano'],
+  ['014067', 'Torre di Santa Maria'],
+  ['014068', "Tovo di Sant'Agata"],
+  ['014069', 'Traona'],
+  ['014070', 'Tresivio'],
+  ['014071', 'Valdidentro'],
+  ['014072', 'Valdisotto'],
+  ['014073', 'Valfurva'],
+  ['014074', 'Val Masino'],
+  ['014075', 'Verceia'],
+  ['014076', 'Vervio'],
+  ['014077', 'Villa di Chiavenna'],
+  ['014078', 'Villa di Tirano'],
+  ['015002', 'Abbiategrasso'],
+  ['015005', 'Albairate'],
+  ['015007', 'Arconate'],
+  ['015009', 'Arese'],
+  ['015010', 'Arluno'],
+  ['015011', 'Assago'],
+  ['015012', 'Bareggio'],
+  ['015014', 'Basiano'],
+  ['015015', 'Basiglio'],
+  ['015016', 'Bellinzago Lombardo'],
+  ['015019', 'Bernate Ticino'],
+  ['015022', 'Besate'],
+  ['015024', 'Binasco'],
+  ['015026', 'Boffalora sopra Ticino'],
+  ['015027', 'Bollate'],
+  ['015032', 'Bresso'],
+  ['015035', 'Bubbiano'],
+  ['015036', 'Buccinasco'],
+  ['015038', 'Buscate'],
+  ['015040', 'Bussero'],
+  ['015041', 'Busto Garolfo'],
+  ['015042', 'Calvignasco'],
+  ['015044', 'Cambiago'],
+  ['015046', 'Canegrate'],
+  ['015050', 'Carpiano'],
+  ['015051', 'Carugate'],
+  ['015055', 'Casarile'],
+  ['015058', 'Casorezzo'],
+  ['015059', "Cassano d'Adda"],
+  ['015060', "Cassina de' Pecchi"],
+  ['015061', 'Cassinetta di Lugagnano'],
+  ['015062', 'Castano Primo'],
+  ['015070', 'Cernusco sul Naviglio'],
+  ['015071', 'Cerro al Lambro'],
+  ['015072', 'Cerro Maggiore'],
+  ['015074', 'Cesano Boscone'],
+  ['015076', 'Cesate'],
+  ['015077', 'Cinisello Balsamo'],
+  ['015078', 'Cisliano'],
+  ['015081', 'Cologno Monzese'],
+  ['015082', 'Colturano'],
+  ['015085', 'Corbetta'],
+  ['015086', 'Cormano'],
+  ['015087', 'Cornaredo'],
+  ['015093', 'Corsico'],
+  ['015096', 'Cuggiono'],
+  ['015097', 'Cusago'],
+  ['015098', 'Cusano Milanino'],
+  ['015099', 'Dairago'],
+  ['015101', 'Dresano'],
+  ['015103', 'Gaggiano'],
+  ['015105', 'Garbagnate Milanese'],
+  ['015106', 'Gessate'],
+  ['015108', 'Gorgonzola'],
+  ['015110', 'Grezzago'],
+  ['015112', 'Gudo Visconti'],
+  ['015113', 'Inveruno'],
+  ['015114', 'Inzago'],
+  ['015115', 'Lacchiarella'],
+  ['015116', 'Lainate'],
+  ['015118', 'Legnano'],
+  ['015122', 'Liscate'],
+  ['015125', 'Locate di Triulzi'],
+  ['015130', 'Magenta'],
+  ['015131', 'Magnago'],
+  ['015134', 'Marcallo con Casone'],
+  ['015136', 'Masate'],
+  ['015139', 'Mediglia'],
+  ['015140', 'Melegnano'],
+  ['015142', 'Melzo'],
+  ['015144', 'Mesero'],
+  ['015146', 'Milano'],
+  ['015150', 'Morimondo'],
+  ['015151', 'Motta Visconti'],
+  ['015154', 'Nerviano'],
+  ['015155', 'Nosate'],
+  ['015157', 'Novate Milanese'],
+  ['015158', 'Noviglio'],
+  ['015159', 'Opera'],
+  ['015164', 'Ossona'],
+  ['015165', 'Ozzero'],
+  ['015166', 'Paderno Dugnano'],
+  ['015167', 'Pantigliate'],
+  ['015168', 'Parabiago'],
+  ['015169', 'Paullo'],
+  ['015170', 'Pero'],
+  ['015171', 'Peschiera Borromeo'],
+  ['015172', 'Pessano con Bornago'],
+  ['015173', 'Pieve Emanuele'],
+  ['015175', 'Pioltello'],
+  ['015176', 'Pogliano Milanese'],
+  ['015177', "Pozzo d'Adda"],
+  ['015178', 'Pozzuolo Martesana'],
+  ['015179', 'Pregnana Milanese'],
+  ['015181', 'Rescaldina'],
+  ['015182', 'Rho'],
+  ['015183', 'Robecchetto con Induno'],
+  ['015184', 'Robecco sul Naviglio'],
+  ['015185', 'Rodano'],
+  ['015188', 'Rosate'],
+  ['015189', 'Rozzano'],
+  ['015191', 'San Colombano al Lambro'],
+  ['015192', 'San Donato Milanese'],
+  ['015194', 'San Giorgio su Legnano'],
+  ['015195', 'San Giuliano Milanese'],
+  ['015200', 'Santo Stefano Ticino'],
+  ['015201', 'San Vittore Olona'],
+  ['015202', 'San Zenone al Lambro'],
+  ['015204', 'Sedriano'],
+  ['015205', 'Segrate'],
+  ['015206', 'Senago'],
+  ['015209', 'Sesto San Giovanni'],
+  ['015210', 'Settala'],
+  ['015211', 'Settimo Milanese'],
+  ['015213', 'Solaro'],
+  ['015219', 'Trezzano Rosa'],
+  ['015220', 'Trezzano sul Naviglio'],
+  ['015221', "Trezzo sull'Adda"],
+  ['015222', 'Tribiano'],
+  ['015224', 'Truccazzano'],
+  ['015226', 'Turbigo'],
+  ['015229', 'Vanzago'],
+  ['015230', "Vaprio d'Adda"],
+  ['015236', 'Vernate'],
+  ['015237', 'Vignate'],
+  ['015242', 'Vimodrone'],
+  ['015243', 'Vittuone'],
+  ['015244', 'Vizzolo Predabissi'],
+  ['015247', 'Zibido San Giacomo'],
+  ['015248', 'Villa Cortese'],
+  ['015249', 'Vanzaghello'],
+  ['015250', 'Baranzate'],
+  ['015251', 'Vermezzo con Zelo'],
+  ['016001', 'Adrara San Martino'],
+  ['016002', 'Adrara San Rocco'],
+  ['016003', "Albano Sant'Alessandro"],
+  ['016004', 'Albino'],
+  ['016005', 'Almè'],
+  ['016006', 'Almenno San Bartolomeo'],
+  ['016007', 'Almenno San Salvatore'],
+  ['016008', 'Alzano Lombardo'],
+  ['016009', 'Ambivere'],
+  ['016010', 'Antegnate'],
+  ['016011', 'Arcene'],
+  ['016012', 'Ardesio'],
+  ['016013', "Arzago d'Adda"],
+  ['016014', 'Averara'],
+  ['016015', 'Aviatico'],
+  ['016016', 'Azzano San Paolo'],
+  ['016017', 'Azzone'],
+  ['016018', 'Bagnatica'],
+  ['016019', 'Barbata'],
+  ['016020', 'Bariano'],
+  ['016021', 'Barzana'],
+  ['016022', 'Bedulita'],
+  ['016023', 'Berbenno'],
+  ['016024', 'Bergamo'],
+  ['016025', 'Berzo San Fermo'],
+  ['016026', 'Bianzano'],
+  ['016027', 'Blello'],
+  ['016028', 'Bolgare'],
+  ['016029', 'Boltiere'],
+  ['016030', 'Bonate Sopra'],
+  ['016031', 'Bonate Sotto'],
+  ['016032', 'Borgo di Terzo'],
+  ['016033', 'Bossico'],
+  ['016034', 'Bottanuco'],
+  ['016035', 'Bracca'],
+  ['016036', 'Branzi'],
+  ['016037', 'Brembate'],
+  ['016038', 'Brembate di Sopra'],
+  ['016040', "Brignano Gera d'Adda"],
+  ['016041', 'Brumano'],
+  ['016042', 'Brusaporto'],
+  ['016043', 'Calcinate'],
+  ['016044', 'Calcio'],
+  ['016046', "Calusco d'Adda"],
+  ['016047', 'Calvenzano'],
+  ['016048', 'Camerata Cornello'],
+  ['016049', "Canonica d'Adda"],
+  ['016050', 'Capizzone'],
+  ['016051', 'Capriate San Gervasio'],
+  ['016052', 'Caprino Bergamasco'],
+  ['016053', 'Caravaggio'],
+  ['016055', 'Carobbio degli Angeli'],
+  ['016056', 'Carona'],
+  ['016057', 'Carvico'],
+  ['016058', 'Casazza'],
+  ['016059', "Casirate d'Adda"],
+  ['016060', 'Casnigo'],
+  ['016061', 'Cassiglio'],
+  ['016062', 'Castelli Calepio'],
+  ['016063', 'Castel Rozzone'],
+  ['016064', 'Castione della Presolana'],
+  ['016065', 'Castro'],
+  ['016066', 'Cavernago'],
+  ['016067', "Cazzano Sant'Andrea"],
+  ['016068', 'Cenate Sopra'],
+  ['016069', 'Cenate Sotto'],
+  ['016070', 'Cene'],
+  ['016071', 'Cerete'],
+  ['016072', "Chignolo d'Isola"],
+  ['016073', 'Chiuduno'],
+  ['016074', 'Cisano Bergamasco'],
+  ['016075', 'Ciserano'],
+  ['016076', 'Cividate al Piano'],
+  ['016077', 'Clusone'],
+  ['016078', 'Colere'],
+  ['016079', 'Cologno al Serio'],
+  ['016080', 'Colzate'],
+  ['016081', 'Comun Nuovo'],
+  ['016082', 'Corna Imagna'],
+  ['016083', 'Cortenuova'],
+  ['016084', 'Costa di Mezzate'],
+  ['016085', 'Costa Valle Imagna'],
+  ['016086', 'Costa Volpino'],
+  ['016087', 'Covo'],
+  ['016088', 'Credaro'],
+  ['016089', 'Curno'],
+  ['016090', 'Cusio'],
+  ['016091', 'Dalmine'],
+  ['016092', 'Dossena'],
+  ['016093', 'Endine Gaiano'],
+  ['016094', 'Entratico'],
+  ['016096', "Fara Gera d'Adda"],
+  ['016097', 'Fara Olivana con Sola'],
+  ['016098', 'Filago'],
+  ['016099', 'Fino del Monte'],
+  ['016100', 'Fiorano al Serio'],
+  ['016101', 'Fontanella'],
+  ['016102', 'Fonteno'],
+  ['016103', 'Foppolo'],
+  ['016104', 'Foresto Sparso'],
+  ['016105', 'Fornovo San Giovanni'],
+  ['016106', 'Fuipiano Valle Imagna'],
+  ['016107', 'Gandellino'],
+  ['016108', 'Gandino'],
+  ['016109', 'Gandosso'],
+  ['016110', 'Gaverina Terme'],
+  ['016111', 'Gazzaniga'],
+  ['016113', 'Ghisalba'],
+  ['016114', 'Gorlago'],
+  ['016115', 'Gorle'],
+  ['016116', 'Gorno'],
+  ['016117', 'Grassobbio'],
+  ['016118', 'Gromo'],
+  ['016119', 'Grone'],
+  ['016120', 'Grumello del Monte'],
+  ['016121', 'Isola di Fondra'],
+  ['016122', 'Isso'],
+  ['016123', 'Lallio'],
+  ['016124', 'Leffe'],
+  ['016125', 'Lenna'],
+  ['016126', 'Levate'],
+  ['016127', 'Locatello'],
+  ['016128', 'Lovere'],
+  ['016129', 'Lurano'],
+  ['016130', 'Luzzana'],
+  ['016131', 'Madone'],
+  ['016132', 'Mapello'],
+  ['016133', 'Martinengo'],
+  ['016134', 'Mezzoldo'],
+  ['016135', "Misano di Gera d'Adda"],
+  ['016136', "Moio de' Calvi"],
+  ['016137', 'Monasterolo del Castello'],
+  ['016139', 'Montello'],
+  ['016140', 'Morengo'],
+  ['016141', 'Mornico al Serio'],
+  ['016142', 'Mozzanica'],
+  ['016143', 'Mozzo'],
+  ['016144', 'Nembro'],
+  ['016145', 'Olmo al Brembo'],
+  ['016146', 'Oltre il Colle'],
+  ['016147', 'Oltressenda Alta'],
+  ['016148', 'Oneta'],
+  ['016149', 'Onore'],
+  ['016150', 'Orio al Serio'],
+  ['016151', 'Ornica'],
+  ['016152', 'Osio Sopra'],
+  ['016153', 'Osio Sotto'],
+  ['016154', 'Pagazzano'],
+  ['016155', 'Paladina'],
+  ['016156', 'Palazzago'],
+  ['016157', 'Palosco'],
+  ['016158', 'Parre'],
+  ['016159', 'Parzanica'],
+  ['016160', 'Pedrengo'],
+  ['016161', 'Peia'],
+  ['016162', 'Pianico'],
+  ['016163', 'Piario'],
+  ['016164', 'Piazza Brembana'],
+  ['016165', 'Piazzatorre'],
+  ['016166', 'Piazzolo'],
+  ['016167', 'Pognano'],
+  ['016168', 'Ponte Nossa'],
+  ['016169', 'Ponteranica'],
+  ['016170', 'Ponte San Pietro'],
+  ['016171', 'Pontida'],
+  ['016172', 'Pontirolo Nuovo'],
+  ['016173', 'Pradalunga'],
+  ['016174', 'Predore'],
+  ['016175', 'Premolo'],
+  ['016176', 'Presezzo'],
+  ['016177', 'Pumenengo'],
+  ['016178', 'Ranica'],
+  ['016179', 'Ranzanico'],
+  ['016180', 'Riva di Solto'],
+  ['016182', 'Rogno'],
+  ['016183', 'Romano di Lombardia'],
+  ['016184', 'Roncobello'],
+  ['016185', 'Roncola'],
+  ['016186', "Rota d'Imagna"],
+  ['016187', 'Rovetta'],
+  ['016188', 'San Giovanni Bianco'],
+  ['016189', "San Paolo d'Argon"],
+  ['016190', 'San Pellegrino Terme'],
+  ['016191', 'Santa Brigida'],
+  ['016193', 'Sarnico'],
+  ['016194', 'Scanzorosciate'],
+  ['016195', 'Schilpario'],
+  ['016196', 'Sedrina'],
+  ['016197', 'Selvino'],
+  ['016198', 'Seriate'],
+  ['016199', 'Serina'],
+  ['016200', 'Solto Collina'],
+  ['016201', 'Songavazzo'],
+  ['016202', 'Sorisole'],
+  ['016203', 'Sotto il Monte Giovanni XXIII'],
+  ['016204', 'Sovere'],
+  ['016205', 'Spinone al Lago'],
+  ['016206', 'Spirano'],
+  ['016207', 'Stezzano'],
+  ['016208', 'Strozza'],
+  ['016209', 'Suisio'],
+  ['016210', 'Taleggio'],
+  ['016211', 'Tavernola Bergamasca'],
+  ['016212', 'Telgate'],
+  ['016213', "Terno d'Isola"],
+  ['016214', 'Torre Boldone'],
+  ['016215', "Torre de' Busi"],
+  ['016216', "Torre de' Roveri"],
+  ['016217', 'Torre Pallavicina'],
+  ['016218', 'Trescore Balneario'],
+  ['016219', 'Treviglio'],
+  ['016220', 'Treviolo'],
+  ['016221', 'Ubiale Clanezzo'],
+  ['016222', 'Urgnano'],
+  ['016223', 'Valbondione'],
+  ['016224', 'Valbrembo'],
+  ['016225', 'Valgoglio'],
+  ['016226', 'Valleve'],
+  ['016227', 'Valnegra'],
+  ['016229', 'Valtorta'],
+  ['016230', 'Vedeseta'],
+  ['016232', 'Verdellino'],
+  ['016233', 'Verdello'],
+  ['016234', 'Vertova'],
+  ['016235', 'Viadanica'],
+  ['016236', 'Vigano San Martino'],
+  ['016237', 'Vigolo'],
+  ['016238', "Villa d'Adda"],
+  ['016239', "Villa d'Almè"],
+  ['016240', 'Villa di Serio'],
+  ['016241', "Villa d'Ogna"],
+  ['016242', 'Villongo'],
+  ['016243', 'Vilminore di Scalve'],
+  ['016244', 'Zandobbio'],
+  ['016245', 'Zanica'],
+  ['016246', 'Zogno'],
+  ['016247', 'Costa Serina'],
+  ['016248', 'Algua'],
+  ['016249', 'Cornalba'],
+  ['016250', 'Medolago'],
+  ['016251', 'Solza'],
+  ['016252', "Sant'Omobono Terme"],
+  ['016253', 'Val Brembilla'],
+  ['017001', 'Acquafredda'],
+  ['017002', 'Adro'],
+  ['017003', 'Agnosine'],
+  ['017004', 'Alfianello'],
+  ['017005', 'Anfo'],
+  ['017006', 'Angolo Terme'],
+  ['017007', 'Artogne'],
+  ['017008', 'Azzano Mella'],
+  ['017009', 'Bagnolo Mella'],
+  ['017010', 'Bagolino'],
+  ['017011', 'Barbariga'],
+  ['017012', 'Barghe'],
+  ['017013', 'Bassano Bresciano'],
+  ['017014', 'Bedizzole'],
+  ['017015', 'Berlingo'],
+  ['017016', 'Berzo Demo'],
+  ['017017', 'Berzo Inferiore'],
+  ['017018', 'Bienno'],
+  ['017019', 'Bione'],
+  ['017020', 'Borgo San Giacomo'],
+  ['017021', 'Borgosatollo'],
+  ['017022', 'Borno'],
+  ['017023', 'Botticino'],
+  ['017024', 'Bovegno'],
+  ['017025', 'Bovezzo'],
+  ['017026', 'Brandico'],
+  ['017027', 'Braone'],
+  ['017028', 'Breno'],
+  ['017029', 'Brescia'],
+  ['017030', 'Brione'],
+  ['017031', 'Caino'],
+  ['017032', 'Calcinato'],
+  ['017033', 'Calvagese della Riviera'],
+  ['017034', 'Calvisano'],
+  ['017035', 'Capo di Ponte'],
+  ['017036', 'Capovalle'],
+  ['017037', 'Capriano del Colle'],
+  ['017038', 'Capriolo'],
+  ['017039', 'Carpenedolo'],
+  ['017040', 'Castegnato'],
+  ['017041', 'Castelcovati'],
+  ['017042', 'Castel Mella'],
+  ['017043', 'Castenedolo'],
+  ['017044', 'Casto'],
+  ['017045', 'Castrezzato'],
+  ['017046', 'Cazzago San Martino'],
+  ['017047', 'Cedegolo'],
+  ['017048', 'Cellatica'],
+  ['017049', 'Cerveno'],
+  ['017050', 'Ceto'],
+  ['017051', 'Cevo'],
+  ['017052', 'Chiari'],
+  ['017053', 'Cigole'],
+  ['017054', 'Cimbergo'],
+  ['017055', 'Cividate Camuno'],
+  ['017056', 'Coccaglio'],
+  ['017057', 'Collebeato'],
+  ['017058', 'Collio'],
+  ['017059', 'Cologne'],
+  ['017060', 'Comezzano-Cizzago'],
+  ['017061', 'Concesio'],
+  ['017062', 'Corte Franca'],
+  ['017063', 'Corteno Golgi'],
+  ['017064', 'Corzano'],
+  ['017065', 'Darfo Boario Terme'],
+  ['017066', 'Dello'],
+  ['017067', 'Desenzano del Garda'],
+  ['017068', 'Edolo'],
+  ['017069', 'Erbusco'],
+  ['017070', 'Esine'],
+  ['017071', 'Fiesse'],
+  ['017072', 'Flero'],
+  ['017073', 'Gambara'],
+  ['017074', 'Gardone Riviera'],
+  ['017075', 'Gardone Val Trompia'],
+  ['017076', 'Gargnano'],
+  ['017077', 'Gavardo'],
+  ['017078', 'Ghedi'],
+  ['017079', 'Gianico'],
+  ['017080', 'Gottolengo'],
+  ['017081', 'Gussago'],
+  ['017082', 'Idro'],
+  ['017083', 'Incudine'],
+  ['017084', 'Irma'],
+  ['017085', 'Iseo'],
+  ['017086', 'Isorella'],
+  ['017087', 'Lavenone'],
+  ['017088', 'Leno'],
+  ['017089', 'Limone sul Garda'],
+  ['017090', 'Lodrino'],
+  ['017091', 'Lograto'],
+  ['017092', 'Lonato del Garda'],
+  ['017093', 'Longhena'],
+  ['017094', 'Losine'],
+  ['017095', 'Lozio'],
+  ['017096', 'Lumezzane'],
+  ['017097', 'Maclodio'],
+  ['017098', 'Magasa'],
+  ['017099', 'Mairano'],
+  ['017100', 'Malegno'],
+  ['017101', 'Malonno'],
+  ['017102', 'Manerba del Garda'],
+  ['017103', 'Manerbio'],
+  ['017104', 'Marcheno'],
+  ['017105', 'Marmentino'],
+  ['017106', 'Marone'],
+  ['017107', 'Mazzano'],
+  ['017108', 'Milzano'],
+  ['017109', 'Moniga del Garda'],
+  ['017110', 'Monno'],
+  ['017111', 'Monte Isola'],
+  ['017112', 'Monticelli Brusati'],
+  ['017113', 'Montichiari'],
+  ['017114', 'Montirone'],
+  ['017115', 'Mura'],
+  ['017116', 'Muscoline'],
+  ['017117', 'Nave'],
+  ['017118', 'Niardo'],
+  ['017119', 'Nuvolento'],
+  ['017120', 'Nuvolera'],
+  ['017121', 'Odolo'],
+  ['017122', 'Offlaga'],
+  ['017123', 'Ome'],
+  ['017124', 'Ono San Pietro'],
+  ['017125', 'Orzinuovi'],
+  ['017126', 'Orzivecchi'],
+  ['017127', 'Ospitaletto'],
+  ['017128', 'Ossimo'],
+  ['017129', 'Padenghe sul Garda'],
+  ['017130', 'Paderno Franciacorta'],
+  ['017131', 'Paisco Loveno'],
+  ['017132', 'Paitone'],
+  ['017133', "Palazzolo sull'Oglio"],
+  ['017134', 'Paratico'],
+  ['017135', 'Paspardo'],
+  ['017136', 'Passirano'],
+  ['017137', 'Pavone del Mella'],
+  ['017138', 'San Paolo'],
+  ['017139', 'Pertica Alta'],
+  ['017140', 'Pertica Bassa'],
+  ['017141', 'Pezzaze'],
+  ['017142', 'Pian Camuno'],
+  ['017143', 'Pisogne'],
+  ['017144', 'Polaveno'],
+  ['017145', 'Polpenazze del Garda'],
+  ['017146', 'Pompiano'],
+  ['017147', 'Poncarale'],
+  ['017148', 'Ponte di Legno'],
+  ['017149', 'Pontevico'],
+  ['017150', 'Pontoglio'],
+  ['017151', 'Pozzolengo'],
+  ['017152', 'Pralboino'],
+  ['017153', 'Preseglie'],
+  ['017155', 'Prevalle'],
+  ['017156', "Provaglio d'Iseo"],
+  ['017157', 'Provaglio Val Sabbia'],
+  ['017158', 'Puegnago del Garda'],
+  ['017159', "Quinzano d'Oglio"],
+  ['017160', 'Remedello'],
+  ['017161', 'Rezzato'],
+  ['017162', 'Roccafranca'],
+  ['017163', 'Rodengo Saiano'],
+  ['017164', 'Roè Volciano'],
+  ['017165', 'Roncadelle'],
+  ['017166', 'Rovato'],
+  ['017167', 'Rudiano'],
+  ['017168', 'Sabbio Chiese'],
+  ['017169', 'Sale Marasino'],
+  ['017170', 'Salò'],
+  ['017171', 'San Felice del Benaco'],
+  ['017172', 'San Gervasio Bresciano'],
+  ['017173', 'San Zeno Naviglio'],
+  ['017174', 'Sarezzo'],
+  ['017175', "Saviore dell'Adamello"],
+  ['017176', 'Sellero'],
+  ['017177', 'Seniga'],
+  ['017178', 'Serle'],
+  ['017179', 'Sirmione'],
+  ['017180', 'Soiano del Lago'],
+  ['017181', 'Sonico'],
+  ['017182', 'Sulzano'],
+  ['017183', 'Tavernole sul Mella'],
+  ['017184', 'Temù'],
+  ['017185', 'Tignale'],
+  ['017186', 'Torbole Casaglia'],
+  ['017187', 'Toscolano-Maderno'],
+  ['017188', 'Travagliato'],
+  ['017189', 'Tremosine sul Garda'],
+  ['017190', 'Trenzano'],
+  ['017191', 'Treviso Bresciano'],
+  ['017192', "Urago d'Oglio"],
+  ['017193', 'Vallio Terme'],
+  ['017194', 'Valvestino'],
+  ['017195', 'Verolanuova'],
+  ['017196', 'Verolavecchia'],
+  ['017197', 'Vestone'],
+  ['017198', "Vezza d'Oglio"],
+  ['017199', 'Villa Carcina'],
+  ['017200', 'Villachiara'],
+  ['017201', 'Villanuova sul Clisi'],
+  ['017202', 'Vione'],
+  ['017203', 'Visano'],
+  ['017204', 'Vobarno'],
+  ['017205', 'Zone'],
+  ['017206', 'Piancogno'],
+  ['018001', 'Alagna'],
+  ['018002', 'Albaredo Arnaboldi'],
+  ['018003', 'Albonese'],
+  ['018004', 'Albuzzano'],
+  ['018005', 'Arena Po'],
+  ['018006', 'Badia Pavese'],
+  ['018007', 'Bagnaria'],
+  ['018008', 'Barbianello'],
+  ['018009', 'Bascapè'],
+  ['018011', 'Bastida Pancarana'],
+  ['018012', 'Battuda'],
+  ['018013', 'Belgioioso'],
+  ['018014', 'Bereguardo'],
+  ['018015', 'Borgarello'],
+  ['018016', 'Borgo Priolo'],
+  ['018017', 'Borgoratto Mormorolo'],
+  ['018018', 'Borgo San Siro'],
+  ['018019', 'Bornasco'],
+  ['018020', 'Bosnasco'],
+  ['018021', 'Brallo di Pregola'],
+  ['018022', 'Breme'],
+  ['018023', 'Bressana Bottarone'],
+  ['018024', 'Broni'],
+  ['018025', 'Calvignano'],
+  ['018026', 'Campospinoso'],
+  ['018027', 'Candia Lomellina'],
+  ['018029', 'Canneto Pavese'],
+  ['018030', 'Carbonara al Ticino'],
+  ['018031', 'Casanova Lonati'],
+  ['018032', 'Casatisma'],
+  ['018033', 'Casei Gerola'],
+  ['018034', 'Casorate Primo'],
+  ['018035', 'Cassolnovo'],
+  ['018036', 'Castana'],
+  ['018037', 'Casteggio'],
+  ['018038', 'Castelletto di Branduzzo'],
+  ['018039', "Castello d'Agogna"],
+  ['018040', 'Castelnovetto'],
+  ['018041', 'Cava Manara'],
+  ['018042', 'Cecima'],
+  ['018043', 'Ceranova'],
+  ['018044', 'Ceretto Lomellina'],
+  ['018045', 'Cergnago'],
+  ['018046', 'Certosa di Pavia'],
+  ['018047', 'Cervesina'],
+  ['018048', 'Chignolo Po'],
+  ['018049', 'Cigognola'],
+  ['018050', 'Cilavegna'],
+  ['018051', 'Codevilla'],
+  ['018052', 'Confienza'],
+  ['018053', 'Copiano'],
+  ['018054', 'Corana'],
+  ['018057', 'Corvino San Quirico'],
+  ['018058', "Costa de' Nobili"],
+  ['018059', 'Cozzo'],
+  ['018060', 'Cura Carpignano'],
+  ['018061', 'Dorno'],
+  ['018062', 'Ferrera Erbognone'],
+  ['018063', 'Filighera'],
+  ['018064', 'Fortunago'],
+  ['018065', 'Frascarolo'],
+  ['018066', 'Galliavola'],
+  ['018067', 'Gambarana'],
+  ['018068', 'Gambolò'],
+  ['018069', 'Garlasco'],
+  ['018071', 'Gerenzago'],
+  ['018072', 'Giussago'],
+  ['018073', 'Godiasco Salice Terme'],
+  ['018074', 'Golferenzo'],
+  ['018075', 'Gravellona Lomellina'],
+  ['018076', 'Gropello Cairoli'],
+  ['018077', 'Inverno e Monteleone'],
+  ['018078', 'Landriano'],
+  ['018079', 'Langosco'],
+  ['018080', 'Lardirago'],
+  ['018081', 'Linarolo'],
+  ['018082', 'Lirio'],
+  ['018083', 'Lomello'],
+  ['018084', 'Lungavilla'],
+  ['018085', 'Magherno'],
+  ['018086', 'Marcignago'],
+  ['018087', 'Marzano'],
+  ['018088', 'Mede'],
+  ['018089', 'Menconico'],
+  ['018090', 'Mezzana Bigli'],
+  ['018091', 'Mezzana Rabattone'],
+  ['018092', 'Mezzanino'],
+  ['018093', 'Miradolo Terme'],
+  ['018094', 'Montalto Pavese'],
+  ['018095', 'Montebello della Battaglia'],
+  ['018096', 'Montecalvo Versiggia'],
+  ['018097', 'Montescano'],
+  ['018098', 'Montesegale'],
+  ['018099', 'Monticelli Pavese'],
+  ['018100', 'Montù Beccaria'],
+  ['018101', 'Mornico Losana'],
+  ['018102', 'Mortara'],
+  ['018103', 'Nicorvo'],
+  ['018104', 'Olevano di Lomellina'],
+  ['018105', 'Oliva Gessi'],
+  ['018106', 'Ottobiano'],
+  ['018107', 'Palestro'],
+  ['018108', 'Pancarana'],
+  ['018109', 'Parona'],
+  ['018110', 'Pavia'],
+  ['018111', "Pietra de' Giorgi"],
+  ['018112', 'Pieve Albignola'],
+  ['018113', 'Pieve del Cairo'],
+  ['018114', 'Pieve Porto Morone'],
+  ['018115', 'Pinarolo Po'],
+  ['018116', 'Pizzale'],
+  ['018117', 'Ponte Nizza'],
+  ['018118', 'Portalbera'],
+  ['018119', 'Rea'],
+  ['018120', 'Redavalle'],
+  ['018121', 'Retorbido'],
+  ['018122', 'Rivanazzano Terme'],
+  ['018123', 'Robbio'],
+  ['018124', 'Robecco Pavese'],
+  ['018125', "Rocca de' Giorgi"],
+  ['018126', 'Rocca Susella'],
+  ['018127', 'Rognano'],
+  ['018128', 'Romagnese'],
+  ['018129', 'Roncaro'],
+  ['018130', 'Rosasco'],
+  ['018131', 'Rovescala'],
+  ['018133', 'San Cipriano Po'],
+  ['018134', 'San Damiano al Colle'],
+  ['018135', 'San Genesio ed Uniti'],
+  ['018136', 'San Giorgio di Lomellina'],
+  ['018137', 'San Martino Siccomario'],
+  ['018138', "Sannazzaro de' Burgondi"],
+  ['018139', 'Santa Cristina e Bissone'],
+  ['018140', 'Santa Giuletta'],
+  ['018141', "Sant'Alessio con Vialone"],
+  ['018142', 'Santa Margherita di Staffora'],
+  ['018143', 'Santa Maria della Versa'],
+  ['018144', "Sant'Angelo Lomellina"],
+  ['018145', 'San Zenone al Po'],
+  ['018146', 'Sartirana Lomellina'],
+  ['018147', 'Scaldasole'],
+  ['018148', 'Semiana'],
+  ['018149', 'Silvano Pietra'],
+  ['018150', 'Siziano'],
+  ['018151', 'Sommo'],
+  ['018152', 'Spessa'],
+  ['018153', 'Stradella'],
+  ['018154', 'Suardi'],
+  ['018155', 'Torrazza Coste'],
+  ['018156', 'Torre Beretti e Castellaro'],
+  ['018157', "Torre d'Arese"],
+  ['018158', "Torre de' Negri"],
+  ['018159', "Torre d'Isola"],
+  ['018160', 'Torrevecchia Pia'],
+  ['018161', 'Torricella Verzate'],
+  ['018162', 'Travacò Siccomario'],
+  ['018163', 'Trivolzio'],
+  ['018164', 'Tromello'],
+  ['018165', 'Trovo'],
+  ['018166', 'Val di Nizza'],
+  ['018167', 'Valeggio'],
+  ['018168', 'Valle Lomellina'],
+  ['018169', 'Valle Salimbene'],
+  ['018171', 'Varzi'],
+  ['018172', 'Velezzo Lomellina'],
+  ['018173', 'Vellezzo Bellini'],
+  ['018174', 'Verretto'],
+  ['018175', 'Verrua Po'],
+  ['018176', 'Vidigulfo'],
+  ['018177', 'Vigevano'],
+  ['018178', 'Villa Biscossi'],
+  ['018179', "Villanova d'Ardenghi"],
+  ['018180', 'Villanterio'],
+  ['018181', 'Vistarino'],
+  ['018182', 'Voghera'],
+  ['018183', 'Volpara'],
+  ['018184', 'Zavattarello'],
+  ['018185', 'Zeccone'],
+  ['018186', 'Zeme'],
+  ['018187', 'Zenevredo'],
+  ['018188', 'Zerbo'],
+  ['018189', 'Zerbolò'],
+  ['018190', 'Zinasco'],
+  ['018191', 'Cornale e Bastida'],
+  ['018192', 'Corteolona e Genzone'],
+  ['018193', 'Colli Verdi'],
+  ['019001', 'Acquanegra Cremonese'],
+  ['019002', 'Agnadello'],
+  ['019003', 'Annicco'],
+  ['019004', 'Azzanello'],
+  ['019005', 'Bagnolo Cremasco'],
+  ['019006', 'Bonemerse'],
+  ['019007', 'Bordolano'],
+  ['019009', 'Calvatone'],
+  ['019010', 'Camisano'],
+  ['019011', 'Campagnola Cremasca'],
+  ['019012', 'Capergnanica'],
+  ['019013', 'Cappella Cantone'],
+  ['019014', "Cappella de' Picenardi"],
+  ['019015', 'Capralba'],
+  ['019016', 'Casalbuttano ed Uniti'],
+  ['019017', 'Casale Cremasco-Vidolasco'],
+  ['019018', 'Casaletto Ceredano'],
+  ['019019', 'Casaletto di Sopra'],
+  ['019020', 'Casaletto Vaprio'],
+  ['019021', 'Casalmaggiore'],
+  ['019022', 'Casalmorano'],
+  ['019023', 'Casteldidone'],
+  ['019024', 'Castel Gabbiano'],
+  ['019025', 'Castelleone'],
+  ['019026', 'Castelverde'],
+  ['019027', 'Castelvisconti'],
+  ['019028', 'Cella Dati'],
+  ['019029', 'Chieve'],
+  ['019030', 'Cicognolo'],
+  ['019031', "Cingia de' Botti"],
+  ['019032', "Corte de' Cortesi con Cignone"],
+  ['019033', "Corte de' Frati"],
+  ['019034', 'Credera Rubbiano'],
+  ['019035', 'Crema'],
+  ['019036', 'Cremona'],
+  ['019037', 'Cremosano'],
+  ['019038', "Crotta d'Adda"],
+  ['019039', 'Cumignano sul Naviglio'],
+  ['019040', 'Derovere'],
+  ['019041', 'Dovera'],
+  ['019043', 'Fiesco'],
+  ['019044', 'Formigara'],
+  ['019045', 'Gabbioneta-Binanuova'],
+  ['019046', 'Gadesco-Pieve Delmona'],
+  ['019047', 'Genivolta'],
+  ['019048', "Gerre de' Caprioli"],
+  ['019049', 'Gombito'],
+  ['019050', 'Grontardo'],
+  ['019051', 'Grumello Cremonese ed Uniti'],
+  ['019052', 'Gussola'],
+  ['019053', 'Isola Dovarese'],
+  ['019054', 'Izano'],
+  ['019055', 'Madignano'],
+  ['019056', 'Malagnino'],
+  ['019057', 'Martignana di Po'],
+  ['019058', 'Monte Cremasco'],
+  ['019059', 'Montodine'],
+  ['019060', 'Moscazzano'],
+  ['019061', 'Motta Baluffi'],
+  ['019062', 'Offanengo'],
+  ['019063', 'Olmeneta'],
+  ['019064', 'Ostiano'],
+  ['019065', 'Paderno Ponchielli'],
+  ['019066', 'Palazzo Pignano'],
+  ['019067', 'Pandino'],
+  ['019068', 'Persico Dosimo'],
+  ['019069', 'Pescarolo ed Uniti'],
+  ['019070', 'Pessina Cremonese'],
+  ['019072', 'Pianengo'],
+  ['019073', 'Pieranica'],
+  ['019074', "Pieve d'Olmi"],
+  ['019075', 'Pieve San Giacomo'],
+  ['019076', 'Pizzighettone'],
+  ['019077', 'Pozzaglio ed Uniti'],
+  ['019078', 'Quintano'],
+  ['019079', 'Ricengo'],
+  ['019080', 'Ripalta Arpina'],
+  ['019081', 'Ripalta Cremasca'],
+  ['019082', 'Ripalta Guerina'],
+  ['019083', 'Rivarolo del Re ed Uniti'],
+  ['019084', "Rivolta d'Adda"],
+  ['019085', "Robecco d'Oglio"],
+  ['019086', 'Romanengo'],
+  ['019087', 'Salvirola'],
+  ['019088', 'San Bassano'],
+  ['019089', 'San Daniele Po'],
+  ['019090', 'San Giovanni in Croce'],
+  ['019091', 'San Martino del Lago'],
+  ['019092', 'Scandolara Ravara'],
+  ['019093', "Scandolara Ripa d'Oglio"],
+  ['019094', 'Sergnano'],
+  ['019095', 'Sesto ed Uniti'],
+  ['019096', 'Solarolo Rainerio'],
+  ['019097', 'Soncino'],
+  ['019098', 'Soresina'],
+  ['019099', 'Sospiro'],
+  ['019100', 'Spinadesco'],
+  ['019101', 'Spineda'],
+  ['019102', "Spino d'Adda"],
+  ['019103', 'Stagno Lombardo'],
+  ['019104', 'Ticengo'],
+  ['019105', 'Torlino Vimercati'],
+  ['019106', 'Tornata'],
+  ['019107', "Torre de' Picenardi"],
+  ['019108', 'Torricella del Pizzo'],
+  ['019109', 'Trescore Cremasco'],
+  ['019110', 'Trigolo'],
+  ['019111', 'Vaiano Cremasco'],
+  ['019112', 'Vailate'],
+  ['019113', 'Vescovato'],
+  ['019114', 'Volongo'],
+  ['019115', 'Voltido'],
+  ['019116', 'Piadena Drizzona'],
+  ['020001', 'Acquanegra sul Chiese'],
+  ['020002', 'Asola'],
+  ['020003', 'Bagnolo San Vito'],
+  ['020007', 'Bozzolo'],
+  ['020008', "Canneto sull'Oglio"],
+  ['020010', 'Casalmoro'],
+  ['020011', 'Casaloldo'],
+  ['020012', 'Casalromano'],
+  ['020013', 'Castelbelforte'],
+  ['020014', "Castel d'Ario"],
+  ['020015', 'Castel Goffredo'],
+  ['020016', 'Castellucchio'],
+  ['020017', 'Castiglione delle Stiviere'],
+  ['020018', 'Cavriana'],
+  ['020019', 'Ceresara'],
+  ['020020', 'Commessaggio'],
+  ['020021', 'Curtatone'],
+  ['020022', 'Dosolo'],
+  ['020024', 'Gazoldo degli Ippoliti'],
+  ['020025', 'Gazzuolo'],
+  ['020026', 'Goito'],
+  ['020027', 'Gonzaga'],
+  ['020028', 'Guidizzolo'],
+  ['020029', 'Magnacavallo'],
+  ['020030', 'Mantova'],
+  ['020031', 'Marcaria'],
+  ['020032', 'Mariana Mantovana'],
+  ['020033', 'Marmirolo'],
+  ['020034', 'Medole'],
+  ['020035', 'Moglia'],
+  ['020036', 'Monzambano'],
+  ['020037', 'Motteggiana'],
+  ['020038', 'Ostiglia'],
+  ['020039', 'Pegognaga'],
+  ['020041', 'Piubega'],
+  ['020042', 'Poggio Rusco'],
+  ['020043', 'Pomponesco'],
+  ['020044', 'Ponti sul Mincio'],
+  ['020045', 'Porto Mantovano'],
+  ['020046', 'Quingentole'],
+  ['020047', 'Quistello'],
+  ['020048', 'Redondesco'],
+  ['020050', 'Rivarolo Mantovano'],
+  ['020051', 'Rodigo'],
+  ['020052', 'Roncoferraro'],
+  ['020053', 'Roverbella'],
+  ['020054', 'Sabbioneta'],
+  ['020055', 'San Benedetto Po'],
+  ['020056', 'San Giacomo delle Segnate'],
+  ['020057', 'San Giorgio Bigarello'],
+  ['020058', 'San Giovanni del Dosso'],
+  ['020059', "San Martino dall'Argine"],
+  ['020060', 'Schivenoglia'],
+  ['020061', 'Sermide e Felonica'],
+  ['020062', 'Serravalle a Po'],
+  ['020063', 'Solferino'],
+  ['020064', 'Sustinente'],
+  ['020065', 'Suzzara'],
+  ['020066', 'Viadana'],
+  ['020068', 'Villimpenta'],
+  ['020070', 'Volta Mantovana'],
+  ['020071', 'Borgo Virgilio'],
+  ['020072', 'Borgo Mantovano'],
+  ['020073', 'Borgocarbonara'],
+  ['021001', 'Aldino/Aldein'],
+  ['021002', 'Andriano/Andrian'],
+  ['021003', 'Anterivo/Altrei'],
+  ['021004', 'Appiano sulla strada del vino/Eppan an der Weinstraße'],
+  ['021005', 'Avelengo/Hafling'],
+  ['021006', 'Badia/Abtei'],
+  ['021007', 'Barbiano/Barbian'],
+  ['021008', 'Bolzano/Bozen'],
+  ['021009', 'Braies/Prags'],
+  ['021010', 'Brennero/Brenner'],
+  ['021011', 'Bressanone/Brixen'],
+  ['021012', 'Bronzolo/Branzoll'],
+  ['021013', 'Brunico/Bruneck'],
+  ['021014', 'Caines/Kuens'],
+  ['021015', 'Caldaro sulla strada del vino/Kaltern an der Weinstraße'],
+  ['021016', 'Campo di Trens/Freienfeld'],
+  ['021017', 'Campo Tures/Sand in Taufers'],
+  ['021018', 'Castelbello-Ciardes/Kastelbell-Tschars'],
+  ['021019', 'Castelrotto/Kastelruth'],
+  ['021020', 'Cermes/Tscherms'],
+  ['021021', 'Chienes/Kiens'],
+  ['021022', 'Chiusa/Klausen'],
+  ['021023', "Cornedo all'Isarco/Karneid"],
+  ['021024', 'Cortaccia sulla strada del vino/Kurtatsch an der Weinstraße'],
+  ['021025', 'Cortina sulla strada del vino/Kurtinig an der Weinstraße'],
+  ['021026', 'Corvara in Badia/Corvara'],
+  ['021027', 'Curon Venosta/Graun im Vinschgau'],
+  ['021028', 'Dobbiaco/Toblach'],
+  ['021029', 'Egna/Neumarkt'],
+  ['021030', 'Falzes/Pfalzen'],
+  ['021031', 'Fiè allo Sciliar/Völs am Schlern'],
+  ['021032', 'Fortezza/Franzensfeste'],
+  ['021033', 'Funes/Villnöß'],
+  ['021034', 'Gais/Gais'],
+  ['021035', 'Gargazzone/Gargazon'],
+  ['021036', 'Glorenza/Glurns'],
+  ['021037', 'Laces/Latsch'],
+  ['021038', 'Lagundo/Algund'],
+  ['021039', 'Laion/Lajen'],
+  ['021040', 'Laives/Leifers'],
+  ['021041', 'Lana/Lana'],
+  ['021042', 'Lasa/Laas'],
+  ['021043', 'Lauregno/Laurein'],
+  ['021044', 'Luson/Lüsen'],
+  ['021045', 'Magrè sulla strada del vino/Margreid an der Weinstraße'],
+  ['021046', 'Malles Venosta/Mals'],
+  ['021047', 'Marebbe/Enneberg'],
+  ['021048', 'Marlengo/Marling'],
+  ['021049', 'Martello/Martell'],
+  ['021050', 'Meltina/Mölten'],
+  ['021051', 'Merano/Meran'],
+  ['021052', 'Monguelfo-Tesido/Welsberg-Taisten'],
+  ['021053', 'Montagna/Montan'],
+  ['021054', 'Moso in Passiria/Moos in Passeier'],
+  ['021055', 'Nalles/Nals'],
+  ['021056', 'Naturno/Naturns'],
+  ['021057', 'Naz-Sciaves/Natz-Schabs'],
+  ['021058', 'Nova Levante/Welschnofen'],
+  ['021059', 'Nova Ponente/Deutschnofen'],
+  ['021060', 'Ora/Auer'],
+  ['021061', 'Ortisei/St. Ulrich'],
+  ['021062', 'Parcines/Partschins'],
+  ['021063', 'Perca/Percha'],
+  ['021064', 'Plaus/Plaus'],
+  ['021065', 'Ponte Gardena/Waidbruck'],
+  ['021066', 'Postal/Burgstall'],
+  ['021067', 'Prato allo Stelvio/Prad am Stilfserjoch'],
+  ['021068', 'Predoi/Prettau'],
+  ['021069', 'Proves/Proveis'],
+  ['021070', 'Racines/Ratschings'],
+  ['021071', 'Rasun-Anterselva/Rasen-Antholz'],
+  ['021072', 'Renon/Ritten'],
+  ['021073', 'Rifiano/Riffian'],
+  ['021074', 'Rio di Pusteria/Mühlbach'],
+  ['021075', 'Rodengo/Rodeneck'],
+  ['021076', 'Salorno/Salurn'],
+  ['021077', 'San Candido/Innichen'],
+  ['021079', 'San Genesio Atesino/Jenesien'],
+  ['021080', 'San Leonardo in Passiria/St. Leonhard in Passeier'],
+  ['021081', 'San Lorenzo di Sebato/St. Lorenzen'],
+  ['021082', 'San Martino in Badia/St. Martin in Thurn'],
+  ['021083', 'San Martino in Passiria/St. Martin in Passeier'],
+  ['021084', 'San Pancrazio/St. Pankraz'],
+  ['021085', 'Santa Cristina Valgardena/St. Christina in Gröden'],
+  ['021086', 'Sarentino/Sarntal'],
+  ['021087', 'Scena/Schenna'],
+  ['021088', 'Selva dei Molini/Mühlwald'],
+  ['021089', 'Selva di Val Gardena/Wolkenstein in Gröden'],
+  ['021091', 'Senales/Schnals'],
+  ['021092', 'Sesto/Sexten'],
+  ['021093', 'Silandro/Schlanders'],
+  ['021094', 'Sluderno/Schluderns'],
+  ['021095', 'Stelvio/Stilfs'],
+  ['021096', 'Terento/Terenten'],
+  ['021097', 'Terlano/Terlan'],
+  ['021098', 'Termeno sulla strada del vino/Tramin an der Weinstraße'],
+  ['021099', 'Tesimo/Tisens'],
+  ['021100', 'Tires/Tiers'],
+  ['021101', 'Tirolo/Tirol'],
+  ['021102', 'Trodena nel parco naturale/Truden im Naturpark'],
+  ['021103', 'Tubre/Taufers im Münstertal'],
+  ['021104', 'Ultimo/Ulten'],
+  ['021105', 'Vadena/Pfatten'],
+  ['021106', 'Valdaora/Olang'],
+  ['021107', 'Val di Vizze/Pfitsch'],
+  ['021108', 'Valle Aurina/Ahrntal'],
+  ['021109', 'Valle di Casies/Gsies'],
+  ['021110', 'Vandoies/Vintl'],
+  ['021111', 'Varna/Vahrn'],
+  ['021112', 'Verano/Vöran'],
+  ['021113', 'Villabassa/Niederdorf'],
+  ['021114', 'Villandro/Villanders'],
+  ['021115', 'Vipiteno/Sterzing'],
+  ['021116', 'Velturno/Feldthurns'],
+  ['021117', 'La Valle/Wengen'],
+  ['021118', 'Senale-San Felice/Unsere Liebe Frau im Walde-St. Felix'],
+  ['022001', 'Ala'],
+  ['022002', 'Albiano'],
+  ['022003', 'Aldeno'],
+  ['022005', 'Andalo'],
+  ['022006', 'Arco'],
+  ['022007', 'Avio'],
+  ['022009', 'Baselga di Pinè'],
+  ['022011', 'Bedollo'],
+  ['022013', 'Besenello'],
+  ['022015', 'Bieno'],
+  ['022017', 'Bleggio Superiore'],
+  ['022018', 'Bocenago'],
+  ['022021', 'Bondone'],
+  ['022022', 'Borgo Valsugana'],
+  ['022025', 'Brentonico'],
+  ['022026', 'Bresimo'],
+  ['022029', 'Caderzone Terme'],
+  ['022032', 'Calceranica al Lago'],
+  ['022033', 'Caldes'],
+  ['022034', 'Caldonazzo'],
+  ['022035', 'Calliano'],
+  ['022036', 'Campitello di Fassa'],
+  ['022037', 'Campodenno'],
+  ['022038', 'Canal San Bovo'],
+  ['022039', 'Canazei'],
+  ['022040', 'Capriana'],
+  ['022042', 'Carisolo'],
+  ['022043', 'Carzano'],
+  ['022045', 'Castel Condino'],
+  ['022047', 'Castello-Molina di Fiemme'],
+  ['022048', 'Castello Tesino'],
+  ['022049', 'Castelnuovo'],
+  ['022050', 'Cavalese'],
+  ['022051', 'Cavareno'],
+  ['022052', 'Cavedago'],
+  ['022053', 'Cavedine'],
+  ['022054', 'Cavizzana'],
+  ['022058', 'Cimone'],
+  ['022059', 'Cinte Tesino'],
+  ['022060', 'Cis'],
+  ['022061', 'Civezzano'],
+  ['022062', 'Cles'],
+  ['022064', 'Commezzadura'],
+  ['022068', 'Croviana'],
+  ['022071', 'Dambel'],
+  ['022074', 'Denno'],
+  ['022078', 'Drena'],
+  ['022079', 'Dro'],
+  ['022081', 'Fai della Paganella'],
+  ['022083', 'Fiavè'],
+  ['022085', 'Fierozzo'],
+  ['022087', 'Folgaria'],
+  ['022089', 'Fornace'],
+  ['022090', 'Frassilongo'],
+  ['022091', 'Garniga Terme'],
+  ['022092', 'Giovo'],
+  ['022093', 'Giustino'],
+  ['022095', 'Grigno'],
+  ['022097', 'Imer'],
+  ['022098', 'Isera'],
+  ['022102', 'Lavarone'],
+  ['022103', 'Lavis'],
+  ['022104', 'Levico Terme'],
+  ['022106', 'Livo'],
+  ['022108', 'Lona-Lases'],
+  ['022109', 'Luserna'],
+  ['022110', 'Malé'],
+  ['022112', 'Massimeno'],
+  ['022113', 'Mazzin'],
+  ['022114', 'Mezzana'],
+  ['022115', 'Mezzano'],
+  ['022116', 'Mezzocorona'],
+  ['022117', 'Mezzolombardo'],
+  ['022118', 'Moena'],
+  ['022120', 'Molveno'],
+  ['022123', 'Mori'],
+  ['022124', 'Nago-Torbole'],
+  ['022127', 'Nogaredo'],
+  ['022128', 'Nomi'],
+  ['022129', 'Novaledo'],
+  ['022130', 'Ospedaletto'],
+  ['022131', 'Ossana'],
+  ['022133', 'Palù del Fersina'],
+  ['022134', 'Panchià'],
+  ['022135', 'Ronzo-Chienis'],
+  ['022136', 'Peio'],
+  ['022137', 'Pellizzano'],
+  ['022138', 'Pelugo'],
+  ['022139', 'Pergine Valsugana'],
+  ['022142', 'Pieve Tesino'],
+  ['022143', 'Pinzolo'],
+  ['022144', 'Pomarolo'],
+  ['022147', 'Predazzo'],
+  ['022150', 'Rabbi'],
+  ['022153', 'Riva del Garda'],
+  ['022155', 'Romeno'],
+  ['022156', 'Roncegno Terme'],
+  ['022157', 'Ronchi Valsugana'],
+  ['022159', 'Ronzone'],
+  ['022160', 'Roverè della Luna'],
+  ['022161', 'Rovereto'],
+  ['022162', 'Ruffrè-Mendola'],
+  ['022163', 'Rumo'],
+  ['022164', 'Sagron Mis'],
+  ['022165', 'Samone'],
+  ['022167', "San Michele all'Adige"],
+  ['022168', "Sant'Orsola Terme"],
+  ['022169', 'Sanzeno'],
+  ['022170', 'Sarnonico'],
+  ['022171', 'Scurelle'],
+  ['022172', 'Segonzano'],
+  ['022173', 'Sfruz'],
+  ['022176', 'Soraga di Fassa'],
+  ['022177', 'Sover'],
+  ['022179', 'Spiazzo'],
+  ['022180', 'Spormaggiore'],
+  ['022181', 'Sporminore'],
+  ['022182', 'Stenico'],
+  ['022183', 'Storo'],
+  ['022184', 'Strembo'],
+  ['022188', 'Telve'],
+  ['022189', 'Telve di Sopra'],
+  ['022190', 'Tenna'],
+  ['022191', 'Tenno'],
+  ['022193', 'Terragnolo'],
+  ['022195', 'Terzolas'],
+  ['022196', 'Tesero'],
+  ['022199', 'Tione di Trento'],
+  ['022200', 'Ton'],
+  ['022202', 'Torcegno'],
+  ['022203', 'Trambileno'],
+  ['022205', 'Trento'],
+  ['022209', 'Valfloriana'],
+  ['022210', 'Vallarsa'],
+  ['022213', 'Vermiglio'],
+  ['022216', 'Vignola-Falesina'],
+  ['022222', 'Villa Lagarina'],
+  ['022224', 'Volano'],
+  ['022226', 'Ziano di Fiemme'],
+  ['022228', 'Comano Terme'],
+  ['022229', 'Ledro'],
+  ['022230', 'Predaia'],
+  ['022231', 'San Lorenzo Dorsino'],
+  ['022232', 'Valdaone'],
+  ['022233', 'Dimaro Folgarida'],
+  ['022234', 'Pieve di Bono-Prezzo'],
+  ['022235', 'Altavalle'],
+  ['022236', 'Altopiano della Vigolana'],
+  ['022237', 'Amblar-Don'],
+  ['022238', 'Borgo Chiese'],
+  ['022239', 'Borgo Lares'],
+  ['022240', 'Castel Ivano'],
+  ['022241', 'Cembra Lisignago'],
+  ['022242', 'Contà'],
+  ['022243', 'Madruzzo'],
+  ['022244', 'Porte di Rendena'],
+  ['022245', 'Primiero San Martino di Castrozza'],
+  ['022246', 'Sella Giudicarie'],
+  ['022247', 'Tre Ville'],
+  ['022248', 'Vallelaghi'],
+  ['022249', "Ville d'Anaunia"],
+  ['022250', 'San Giovanni di Fassa-Sèn Jan'],
+  ['022251', "Terre d'Adige"],
+  ['022252', "Borgo d'Anaunia"],
+  ['022253', 'Novella'],
+  ['022254', 'Ville di Fiemme'],
+  ['023001', 'Affi'],
+  ['023002', "Albaredo d'Adige"],
+  ['023003', 'Angiari'],
+  ['023004', 'Arcole'],
+  ['023005', 'Badia Calavena'],
+  ['023006', 'Bardolino'],
+  ['023007', 'Belfiore'],
+  ['023008', 'Bevilacqua'],
+  ['023009', 'Bonavigo'],
+  ['023010', "Boschi Sant'Anna"],
+  ['023011', 'Bosco Chiesanuova'],
+  ['023012', 'Bovolone'],
+  ['023013', 'Brentino Belluno'],
+  ['023014', 'Brenzone sul Garda'],
+  ['023015', 'Bussolengo'],
+  ['023016', 'Buttapietra'],
+  ['023017', 'Caldiero'],
+  ['023018', 'Caprino Veronese'],
+  ['023019', 'Casaleone'],
+  ['023020', 'Castagnaro'],
+  ['023021', "Castel d'Azzano"],
+  ['023022', 'Castelnuovo del Garda'],
+  ['023023', 'Cavaion Veronese'],
+  ['023024', 'Cazzano di Tramigna'],
+  ['023025', 'Cerea'],
+  ['023026', 'Cerro Veronese'],
+  ['023027', 'Cologna Veneta'],
+  ['023028', 'Colognola ai Colli'],
+  ['023029', 'Concamarise'],
+  ['023030', 'Costermano sul Garda'],
+  ['023031', 'Dolcè'],
+  ['023032', 'Erbè'],
+  ['023033', 'Erbezzo'],
+  ['023034', 'Ferrara di Monte Baldo'],
+  ['023035', 'Fumane'],
+  ['023036', 'Garda'],
+  ['023037', 'Gazzo Veronese'],
+  ['023038', 'Grezzana'],
+  ['023039', 'Illasi'],
+  ['023040', 'Isola della Scala'],
+  ['023041', 'Isola Rizza'],
+  ['023042', 'Lavagno'],
+  ['023043', 'Lazise'],
+  ['023044', 'Legnago'],
+  ['023045', 'Malcesine'],
+  ['023046', 'Marano di Valpolicella'],
+  ['023047', 'Mezzane di Sotto'],
+  ['023048', 'Minerbe'],
+  ['023049', 'Montecchia di Crosara'],
+  ['023050', "Monteforte d'Alpone"],
+  ['023051', 'Mozzecane'],
+  ['023052', 'Negrar di Valpolicella'],
+  ['023053', 'Nogara'],
+  ['023054', 'Nogarole Rocca'],
+  ['023055', 'Oppeano'],
+  ['023056', 'Palù'],
+  ['023057', 'Pastrengo'],
+  ['023058', 'Pescantina'],
+  ['023059', 'Peschiera del Garda'],
+  ['023060', 'Povegliano Veronese'],
+  ['023061', 'Pressana'],
+  ['023062', 'Rivoli Veronese'],
+  ['023063', 'Roncà'],
+  ['023064', "Ronco all'Adige"],
+  ['023065', 'Roverchiara'],
+  ['023066', 'Roveredo di Guà'],
+  ['023067', 'Roverè Veronese'],
+  ['023068', 'Salizzole'],
+  ['023069', 'San Bonifacio'],
+  ['023070', 'San Giovanni Ilarione'],
+  ['023071', 'San Giovanni Lupatoto'],
+  ['023072', 'Sanguinetto'],
+  ['023073', 'San Martino Buon Albergo'],
+  ['023074', 'San Mauro di Saline'],
+  ['023075', 'San Pietro di Morubio'],
+  ['023076', 'San Pietro in Cariano'],
+  ['023077', "Sant'Ambrogio di Valpolicella"],
+  ['023078', "Sant'Anna d'Alfaedo"],
+  ['023079', 'San Zeno di Montagna'],
+  ['023080', 'Selva di Progno'],
+  ['023081', 'Soave'],
+  ['023082', 'Sommacampagna'],
+  ['023083', 'Sona'],
+  ['023084', 'Sorgà'],
+  ['023085', 'Terrazzo'],
+  ['023086', 'Torri del Benaco'],
+  ['023087', 'Tregnago'],
+  ['023088', 'Trevenzuolo'],
+  ['023089', 'Valeggio sul Mincio'],
+  ['023090', 'Velo Veronese'],
+  ['023091', 'Verona'],
+  ['023092', 'Veronella'],
+  ['023093', 'Vestenanova'],
+  ['023094', 'Vigasio'],
+  ['023095', 'Villa Bartolomea'],
+  ['023096', 'Villafranca di Verona'],
+  ['023097', 'Zevio'],
+  ['023098', 'Zimella'],
+  ['024001', 'Agugliaro'],
+  ['024002', 'Albettone'],
+  ['024003', 'Alonte'],
+  ['024004', 'Altavilla Vicentina'],
+  ['024005', 'Altissimo'],
+  ['024006', 'Arcugnano'],
+  ['024007', 'Arsiero'],
+  ['024008', 'Arzignano'],
+  ['024009', 'Asiago'],
+  ['024010', 'Asigliano Veneto'],
+  ['024012', 'Bassano del Grappa'],
+  ['024013', 'Bolzano Vicentino'],
+  ['024014', 'Breganze'],
+  ['024015', 'Brendola'],
+  ['024016', 'Bressanvido'],
+  ['024017', 'Brogliano'],
+  ['024018', 'Caldogno'],
+  ['024019', 'Caltrano'],
+  ['024020', 'Calvene'],
+  ['024021', 'Camisano Vicentino'],
+  ['024022', 'Campiglia dei Berici'],
+  ['024024', 'Carrè'],
+  ['024025', 'Cartigliano'],
+  ['024026', 'Cassola'],
+  ['024027', 'Castegnero'],
+  ['024028', 'Castelgomberto'],
+  ['024029', 'Chiampo'],
+  ['024030', 'Chiuppano'],
+  ['024032', 'Cogollo del Cengio'],
+  ['024034', 'Cornedo Vicentino'],
+  ['024035', 'Costabissara'],
+  ['024036', 'Creazzo'],
+  ['024037', 'Crespadoro'],
+  ['024038', 'Dueville'],
+  ['024039', 'Enego'],
+  ['024040', 'Fara Vicentino'],
+  ['024041', 'Foza'],
+  ['024042', 'Gallio'],
+  ['024043', 'Gambellara'],
+  ['024044', 'Gambugliano'],
+  ['024046', 'Grisignano di Zocco'],
+  ['024047', 'Grumolo delle Abbadesse'],
+  ['024048', 'Isola Vicentina'],
+  ['024049', 'Laghi'],
+  ['024050', 'Lastebasse'],
+  ['024051', 'Longare'],
+  ['024052', 'Lonigo'],
+  ['024053', 'Lugo di Vicenza'],
+  ['024055', 'Malo'],
+  ['024056', 'Marano Vicentino'],
+  ['024057', 'Marostica'],
+  ['024060', 'Montebello Vicentino'],
+  ['024061', 'Montecchio Maggiore'],
+  ['024062', 'Montecchio Precalcino'],
+  ['024063', 'Monte di Malo'],
+  ['024064', 'Montegalda'],
+  ['024065', 'Montegaldella'],
+  ['024066', 'Monteviale'],
+  ['024067', 'Monticello Conte Otto'],
+  ['024068', 'Montorso Vicentino'],
+  ['024070', 'Mussolente'],
+  ['024071', 'Nanto'],
+  ['024072', 'Nogarole Vicentino'],
+  ['024073', 'Nove'],
+  ['024074', 'Noventa Vicentina'],
+  ['024075', 'Orgiano'],
+  ['024076', 'Pedemonte'],
+  ['024077', 'Pianezze'],
+  ['024078', 'Piovene Rocchette'],
+  ['024079', 'Pojana Maggiore'],
+  ['024080', 'Posina'],
+  ['024081', 'Pove del Grappa'],
+  ['024082', 'Pozzoleone'],
+  ['024083', 'Quinto Vicentino'],
+  ['024084', 'Recoaro Terme'],
+  ['024085', 'Roana'],
+  ['024086', "Romano d'Ezzelino"],
+  ['024087', 'Rosà'],
+  ['024088', 'Rossano Veneto'],
+  ['024089', 'Rotzo'],
+  ['024090', 'Salcedo'],
+  ['024091', 'Sandrigo'],
+  ['024094', 'San Pietro Mussolino'],
+  ['024095', 'Santorso'],
+  ['024096', 'San Vito di Leguzzano'],
+  ['024097', 'Sarcedo'],
+  ['024098', 'Sarego'],
+  ['024099', 'Schiavon'],
+  ['024100', 'Schio'],
+  ['024101', 'Solagna'],
+  ['024102', 'Sossano'],
+  ['024103', 'Sovizzo'],
+  ['024104', 'Tezze sul Brenta'],
+  ['024105', 'Thiene'],
+  ['024106', 'Tonezza del Cimone'],
+  ['024107', 'Torrebelvicino'],
+  ['024108', 'Torri di Quartesolo'],
+  ['024110', 'Trissino'],
+  ['024111', 'Valdagno'],
+  ['024112', 'Valdastico'],
+  ['024113', 'Valli del Pasubio'],
+  ['024115', "Velo d'Astico"],
+  ['024116', 'Vicenza'],
+  ['024117', 'Villaga'],
+  ['024118', 'Villaverla'],
+  ['024119', 'Zanè'],
+  ['024120', 'Zermeghedo'],
+  ['024121', 'Zovencedo'],
+  ['024122', 'Zugliano'],
+  ['024123', 'Val Liona'],
+  ['024124', 'Barbarano Mossano'],
+  ['024125', 'Valbrenta'],
+  ['024126', 'Colceresa'],
+  ['024127', 'Lusiana Conco'],
+  ['025001', 'Agordo'],
+  ['025002', 'Alano di Piave'],
+  ['025003', 'Alleghe'],
+  ['025004', 'Arsiè'],
+  ['025005', 'Auronzo di Cadore'],
+  ['025006', 'Belluno'],
+  ['025007', 'Borca di Cadore'],
+  ['025008', 'Calalzo di Cadore'],
+  ['025010', 'Cencenighe Agordino'],
+  ['025011', 'Cesiomaggiore'],
+  ['025012', "Chies d'Alpago"],
+  ['025013', 'Cibiana di Cadore'],
+  ['025014', 'Colle Santa Lucia'],
+  ['025015', 'Comelico Superiore'],
+  ['025016', "Cortina d'Ampezzo"],
+  ['025017', 'Danta di Cadore'],
+  ['025018', 'Domegge di Cadore'],
+  ['025019', 'Falcade'],
+  ['025021', 'Feltre'],
+  ['025022', 'Fonzaso'],
+  ['025023', "Canale d'Agordo"],
+  ['025025', 'Gosaldo'],
+  ['025026', 'Lamon'],
+  ['025027', 'La Valle Agordina'],
+  ['025029', 'Limana'],
+  ['025030', 'Livinallongo del Col di Lana'],
+  ['025032', 'Lorenzago di Cadore'],
+  ['025033', 'Lozzo di Cadore'],
+  ['025035', 'Ospitale di Cadore'],
+  ['025036', 'Pedavena'],
+  ['025037', 'Perarolo di Cadore'],
+  ['025039', 'Pieve di Cadore'],
+  ['025040', 'Ponte nelle Alpi'],
+  ['025043', 'Rivamonte Agordino'],
+  ['025044', 'Rocca Pietore'],
+  ['025045', 'San Gregorio nelle Alpi'],
+  ['025046', 'San Nicolò di Comelico'],
+  ['025047', 'San Pietro di Cadore'],
+  ['025048', 'Santa Giustina'],
+  ['025049', 'San Tomaso Agordino'],
+  ['025050', 'Santo Stefano di Cadore'],
+  ['025051', 'San Vito di Cadore'],
+  ['025053', 'Sedico'],
+  ['025054', 'Selva di Cadore'],
+  ['025055', 'Seren del Grappa'],
+  ['025056', 'Sospirolo'],
+  ['025057', 'Soverzene'],
+  ['025058', 'Sovramonte'],
+  ['025059', 'Taibon Agordino'],
+  ['025060', 'Tambre'],
+  ['025062', 'Vallada Agordina'],
+  ['025063', 'Valle di Cadore'],
+  ['025065', 'Vigo di Cadore'],
+  ['025066', 'Vodo Cadore'],
+  ['025067', 'Voltago Agordino'],
+  ['025069', 'Zoppè di Cadore'],
+  ['025070', 'Quero Vas'],
+  ['025071', 'Longarone'],
+  ['025072', 'Alpago'],
+  ['025073', 'Val di Zoldo'],
+  ['025074', 'Borgo Valbelluna'],
+  ['026001', 'Altivole'],
+  ['026002', 'Arcade'],
+  ['026003', 'Asolo'],
+  ['026004', 'Borso del Grappa'],
+  ['026005', 'Breda di Piave'],
+  ['026006', 'Caerano di San Marco'],
+  ['026007', 'Cappella Maggiore'],
+  ['026008', 'Carbonera'],
+  ['026009', 'Casale sul Sile'],
+  ['026010', 'Casier'],
+  ['026011', 'Castelcucco'],
+  ['026012', 'Castelfranco Veneto'],
+  ['026013', 'Castello di Godego'],
+  ['026014', 'Cavaso del Tomba'],
+  ['026015', 'Cessalto'],
+  ['026016', 'Chiarano'],
+  ['026017', 'Cimadolmo'],
+  ['026018', 'Cison di Valmarino'],
+  ['026019', 'Codognè'],
+  ['026020', 'Colle Umberto'],
+  ['026021', 'Conegliano'],
+  ['026022', 'Cordignano'],
+  ['026023', 'Cornuda'],
+  ['026025', 'Crocetta del Montello'],
+  ['026026', 'Farra di Soligo'],
+  ['026027', 'Follina'],
+  ['026028', 'Fontanelle'],
+  ['026029', 'Fonte'],
+  ['026030', 'Fregona'],
+  ['026031', 'Gaiarine'],
+  ['026032', 'Giavera del Montello'],
+  ['026033', "Godega di Sant'Urbano"],
+  ['026034', 'Gorgo al Monticano'],
+  ['026035', 'Istrana'],
+  ['026036', 'Loria'],
+  ['026037', 'Mansuè'],
+  ['026038', 'Mareno di Piave'],
+  ['026039', 'Maser'],
+  ['026040', 'Maserada sul Piave'],
+  ['026041', 'Meduna di Livenza'],
+  ['026042', 'Miane'],
+  ['026043', 'Mogliano Veneto'],
+  ['026044', 'Monastier di Treviso'],
+  ['026045', 'Monfumo'],
+  ['026046', 'Montebelluna'],
+  ['026047', 'Morgano'],
+  ['026048', 'Moriago della Battaglia'],
+  ['026049', 'Motta di Livenza'],
+  ['026050', 'Nervesa della Battaglia'],
+  ['026051', 'Oderzo'],
+  ['026052', 'Ormelle'],
+  ['026053', 'Orsago'],
+  ['026055', 'Paese'],
+  ['026056', 'Pederobba'],
+  ['026057', 'Pieve di Soligo'],
+  ['026058', 'Ponte di Piave'],
+  ['026059', 'Ponzano Veneto'],
+  ['026060', 'Portobuffolè'],
+  ['026061', 'Possagno'],
+  ['026062', 'Povegliano'],
+  ['026063', 'Preganziol'],
+  ['026064', 'Quinto di Treviso'],
+  ['026065', 'Refrontolo'],
+  ['026066', 'Resana'],
+  ['026067', 'Revine Lago'],
+  ['026068', 'Riese Pio X'],
+  ['026069', 'Roncade'],
+  ['026070', 'Salgareda'],
+  ['026071', 'San Biagio di Callalta'],
+  ['026072', 'San Fior'],
+  ['026073', 'San Pietro di Feletto'],
+  ['026074', 'San Polo di Piave'],
+  ['026075', 'Santa Lucia di Piave'],
+  ['026076', 'San Vendemiano'],
+  ['026077', 'San Zenone degli Ezzelini'],
+  ['026078', 'Sarmede'],
+  ['026079', 'Segusino'],
+  ['026080', 'Sernaglia della Battaglia'],
+  ['026081', 'Silea'],
+  ['026082', 'Spresiano'],
+  ['026083', 'Susegana'],
+  ['026084', 'Tarzo'],
+  ['026085', 'Trevignano'],
+  ['026086', 'Treviso'],
+  ['026087', 'Valdobbiadene'],
+  ['026088', 'Vazzola'],
+  ['026089', 'Vedelago'],
+  ['026090', 'Vidor'],
+  ['026091', 'Villorba'],
+  ['026092', 'Vittorio Veneto'],
+  ['026093', 'Volpago del Montello'],
+  ['026094', 'Zenson di Piave'],
+  ['026095', 'Zero Branco'],
+  ['026096', 'Pieve del Grappa'],
+  ['027001', 'Annone Veneto'],
+  ['027002', 'Campagna Lupia'],
+  ['027003', 'Campolongo Maggiore'],
+  ['027004', 'Camponogara'],
+  ['027005', 'Caorle'],
+  ['027006', 'Cavarzere'],
+  ['027007', 'Ceggia'],
+  ['027008', 'Chioggia'],
+  ['027009', 'Cinto Caomaggiore'],
+  ['027010', 'Cona'],
+  ['027011', 'Concordia Sagittaria'],
+  ['027012', 'Dolo'],
+  ['027013', 'Eraclea'],
+  ['027014', "Fiesso d'Artico"],
+  ['027015', 'Fossalta di Piave'],
+  ['027016', 'Fossalta di Portogruaro'],
+  ['027017', 'Fossò'],
+  ['027018', 'Gruaro'],
+  ['027019', 'Jesolo'],
+  ['027020', 'Marcon'],
+  ['027021', 'Martellago'],
+  ['027022', 'Meolo'],
+  ['027023', 'Mira'],
+  ['027024', 'Mirano'],
+  ['027025', 'Musile di Piave'],
+  ['027026', 'Noale'],
+  ['027027', 'Noventa di Piave'],
+  ['027028', 'Pianiga'],
+  ['027029', 'Portogruaro'],
+  ['027030', 'Pramaggiore'],
+  ['027031', "Quarto d'Altino"],
+  ['027032', 'Salzano'],
+  ['027033', 'San Donà di Piave'],
+  ['027034', 'San Michele al Tagliamento'],
+  ['027035', 'Santa Maria di Sala'],
+  ['027036', 'San Stino di Livenza'],
+  ['027037', 'Scorzè'],
+  ['027038', 'Spinea'],
+  ['027039', 'Stra'],
+  ['027040', 'Teglio Veneto'],
+  ['027041', 'Torre di Mosto'],
+  ['027042', 'Venezia'],
+  ['027043', 'Vigonovo'],
+  ['027044', 'Cavallino-Treporti'],
+  ['028001', 'Abano Terme'],
+  ['028002', 'Agna'],
+  ['028003', 'Albignasego'],
+  ['028004', 'Anguillara Veneta'],
+  ['028005', 'Arquà Petrarca'],
+  ['028006', 'Arre'],
+  ['028007', 'Arzergrande'],
+  ['028008', 'Bagnoli di Sopra'],
+  ['028009', 'Baone'],
+  ['028010', 'Barbona'],
+  ['028011', 'Battaglia Terme'],
+  ['028012', 'Boara Pisani'],
+  ['028013', 'Borgoricco'],
+  ['028014', 'Bovolenta'],
+  ['028015', 'Brugine'],
+  ['028016', 'Cadoneghe'],
+  ['028017', 'Campodarsego'],
+  ['028018', 'Campodoro'],
+  ['028019', 'Camposampiero'],
+  ['028020', 'Campo San Martino'],
+  ['028021', 'Candiana'],
+  ['028022', 'Carceri'],
+  ['028023', 'Carmignano di Brenta'],
+  ['028026', 'Cartura'],
+  ['028027', 'Casale di Scodosia'],
+  ['028028', 'Casalserugo'],
+  ['028029', 'Castelbaldo'],
+  ['028030', 'Cervarese Santa Croce'],
+  ['028031', 'Cinto Euganeo'],
+  ['028032', 'Cittadella'],
+  ['028033', 'Codevigo'],
+  ['028034', 'Conselve'],
+  ['028035', 'Correzzola'],
+  ['028036', 'Curtarolo'],
+  ['028037', 'Este'],
+  ['028038', 'Fontaniva'],
+  ['028039', 'Galliera Veneta'],
+  ['028040', 'Galzignano Terme'],
+  ['028041', 'Gazzo'],
+  ['028042', 'Grantorto'],
+  ['028043', 'Granze'],
+  ['028044', 'Legnaro'],
+  ['028045', 'Limena'],
+  ['028046', 'Loreggia'],
+  ['028047', 'Lozzo Atestino'],
+  ['028048', 'Maserà di Padova'],
+  ['028049', 'Masi'],
+  ['028050', 'Massanzago'],
+  ['028052', 'Megliadino San Vitale'],
+  ['028053', 'Merlara'],
+  ['028054', 'Mestrino'],
+  ['028055', 'Monselice'],
+  ['028056', 'Montagnana'],
+  ['028057', 'Montegrotto Terme'],
+  ['028058', 'Noventa Padovana'],
+  ['028059', 'Ospedaletto Euganeo'],
+  ['028060', 'Padova'],
+  ['028061', 'Pernumia'],
+  ['028062', "Piacenza d'Adige"],
+  ['028063', 'Piazzola sul Brenta'],
+  ['028064', 'Piombino Dese'],
+  ['028065', 'Piove di Sacco'],
+  ['028066', 'Polverara'],
+  ['028067', 'Ponso'],
+  ['028068', 'Pontelongo'],
+  ['028069', 'Ponte San Nicolò'],
+  ['028070', 'Pozzonovo'],
+  ['028071', 'Rovolon'],
+  ['028072', 'Rubano'],
+  ['028073', 'Saccolongo'],
+  ['028075', 'San Giorgio delle Pertiche'],
+  ['028076', 'San Giorgio in Bosco'],
+  ['028077', 'San Martino di Lupari'],
+  ['028078', 'San Pietro in Gu'],
+  ['028079', 'San Pietro Viminario'],
+  ['028080', 'Santa Giustina in Colle'],
+  ['028082', "Sant'Angelo di Piove di Sacco"],
+  ['028083', "Sant'Elena"],
+  ['028084', "Sant'Urbano"],
+  ['028085', 'Saonara'],
+  ['028086', 'Selvazzano Dentro'],
+  ['028087', 'Solesino'],
+  ['028088', 'Stanghella'],
+  ['028089', 'Teolo'],
+  ['028090', 'Terrassa Padovana'],
+  ['028091', 'Tombolo'],
+  ['028092', 'Torreglia'],
+  ['028093', 'Trebaseleghe'],
+  ['028094', 'Tribano'],
+  ['028095', 'Urbana'],
+  ['028096', 'Veggiano'],
+  ['028097', 'Vescovana'],
+  ['028098', "Vighizzolo d'Este"],
+  ['028099', 'Vigodarzere'],
+  ['028100', 'Vigonza'],
+  ['028101', 'Villa del Conte'],
+  ['028102', 'Villa Estense'],
+  ['028103', 'Villafranca Padovana'],
+  ['028104', 'Villanova di Camposampiero'],
+  ['028105', "Vo'"],
+  ['028106', 'Due Carrare'],
+  ['028107', 'Borgo Veneto'],
+  ['029001', 'Adria'],
+  ['029002', 'Ariano nel Polesine'],
+  ['029003', 'Arquà Polesine'],
+  ['029004', 'Badia Polesine'],
+  ['029005', 'Bagnolo di Po'],
+  ['029006', 'Bergantino'],
+  ['029007', 'Bosaro'],
+  ['029008', 'Calto'],
+  ['029009', 'Canaro'],
+  ['029010', 'Canda'],
+  ['029011', 'Castelguglielmo'],
+  ['029012', 'Castelmassa'],
+  ['029013', 'Castelnovo Bariano'],
+  ['029014', 'Ceneselli'],
+  ['029015', 'Ceregnano'],
+  ['029017', 'Corbola'],
+  ['029018', 'Costa di Rovigo'],
+  ['029019', 'Crespino'],
+  ['029021', 'Ficarolo'],
+  ['029022', 'Fiesso Umbertiano'],
+  ['029023', 'Frassinelle Polesine'],
+  ['029024', 'Fratta Polesine'],
+  ['029025', 'Gaiba'],
+  ['029026', 'Gavello'],
+  ['029027', 'Giacciano con Baruchella'],
+  ['029028', 'Guarda Veneta'],
+  ['029029', 'Lendinara'],
+  ['029030', 'Loreo'],
+  ['029031', 'Lusia'],
+  ['029032', 'Melara'],
+  ['029033', 'Occhiobello'],
+  ['029034', 'Papozze'],
+  ['029035', 'Pettorazza Grimani'],
+  ['029036', 'Pincara'],
+  ['029037', 'Polesella'],
+  ['029038', 'Pontecchio Polesine'],
+  ['029039', 'Porto Tolle'],
+  ['029040', 'Rosolina'],
+  ['029041', 'Rovigo'],
+  ['029042', 'Salara'],
+  ['029043', 'San Bellino'],
+  ['029044', 'San Martino di Venezze'],
+  ['029045', 'Stienta'],
+  ['029046', 'Taglio di Po'],
+  ['029047', 'Trecenta'],
+  ['029048', 'Villadose'],
+  ['029049', 'Villamarzana'],
+  ['029050', 'Villanova del Ghebbo'],
+  ['029051', 'Villanova Marchesana'],
+  ['029052', 'Porto Viro'],
+  ['030001', 'Aiello del Friuli'],
+  ['030002', 'Amaro'],
+  ['030003', 'Ampezzo'],
+  ['030004', 'Aquileia'],
+  ['030005', 'Arta Terme'],
+  ['030006', 'Artegna'],
+  ['030007', 'Attimis'],
+  ['030008', 'Bagnaria Arsa'],
+  ['030009', 'Basiliano'],
+  ['030010', 'Bertiolo'],
+  ['030011', 'Bicinicco'],
+  ['030012', 'Bordano'],
+  ['030013', 'Buja'],
+  ['030014', 'Buttrio'],
+  ['030015', 'Camino al Tagliamento'],
+  ['030016', 'Campoformido'],
+  ['030018', 'Carlino'],
+  ['030019', 'Cassacco'],
+  ['030020', 'Castions di Strada'],
+  ['030021', 'Cavazzo Carnico'],
+  ['030022', 'Cercivento'],
+  ['030023', 'Cervignano del Friuli'],
+  ['030024', 'Chiopris-Viscone'],
+  ['030025', 'Chiusaforte'],
+  ['030026', 'Cividale del Friuli'],
+  ['030027', 'Codroipo'],
+  ['030028', 'Colloredo di Monte Albano'],
+  ['030029', 'Comeglians'],
+  ['030030', 'Corno di Rosazzo'],
+  ['030031', 'Coseano'],
+  ['030032', 'Dignano'],
+  ['030033', 'Dogna'],
+  ['030034', 'Drenchia'],
+  ['030035', 'Enemonzo'],
+  ['030036', 'Faedis'],
+  ['030037', 'Fagagna'],
+  ['030039', 'Flaibano'],
+  ['030040', 'Forni Avoltri'],
+  ['030041', 'Forni di Sopra'],
+  ['030042', 'Forni di Sotto'],
+  ['030043', 'Gemona del Friuli'],
+  ['030044', 'Gonars'],
+  ['030045', 'Grimacco'],
+  ['030046', 'Latisana'],
+  ['030047', 'Lauco'],
+  ['030048', 'Lestizza'],
+  ['030049', 'Lignano Sabbiadoro'],
+  ['030051', 'Lusevera'],
+  ['030052', 'Magnano in Riviera'],
+  ['030053', 'Majano'],
+  ['030054', 'Malborghetto Valbruna'],
+  ['030055', 'Manzano'],
+  ['030056', 'Marano Lagunare'],
+  ['030057', 'Martignacco'],
+  ['030058', 'Mereto di Tomba'],
+  ['030059', 'Moggio Udinese'],
+  ['030060', 'Moimacco'],
+  ['030061', 'Montenars'],
+  ['030062', 'Mortegliano'],
+  ['030063', 'Moruzzo'],
+  ['030064', 'Muzzana del Turgnano'],
+  ['030065', 'Nimis'],
+  ['030066', 'Osoppo'],
+  ['030067', 'Ovaro'],
+  ['030068', 'Pagnacco'],
+  ['030069', 'Palazzolo dello Stella'],
+  ['030070', 'Palmanova'],
+  ['030071', 'Paluzza'],
+  ['030072', 'Pasian di Prato'],
+  ['030073', 'Paularo'],
+  ['030074', 'Pavia di Udine'],
+  ['030075', 'Pocenia'],
+  ['030076', 'Pontebba'],
+  ['030077', 'Porpetto'],
+  ['030078', 'Povoletto'],
+  ['030079', 'Pozzuolo del Friuli'],
+  ['030080', 'Pradamano'],
+  ['030081', 'Prato Carnico'],
+  ['030082', 'Precenicco'],
+  ['030083', 'Premariacco'],
+  ['030084', 'Preone'],
+  ['030085', 'Prepotto'],
+  ['030086', 'Pulfero'],
+  ['030087', 'Ragogna'],
+  ['030088', 'Ravascletto'],
+  ['030089', 'Raveo'],
+  ['030090', 'Reana del Rojale'],
+  ['030091', 'Remanzacco'],
+  ['030092', 'Resia'],
+  ['030093', 'Resiutta'],
+  ['030094', 'Rigolato'],
+  ['030095', "Rive d'Arcano"],
+  ['030097', 'Ronchis'],
+  ['030098', 'Ruda'],
+  ['030099', 'San Daniele del Friuli'],
+  ['030100', 'San Giorgio di Nogaro'],
+  ['030101', 'San Giovanni al Natisone'],
+  ['030102', 'San Leonardo'],
+  ['030103', 'San Pietro al Natisone'],
+  ['030104', 'Santa Maria la Longa'],
+  ['030105', 'San Vito al Torre'],
+  ['030106', 'San Vito di Fagagna'],
+  ['030107', 'Sauris'],
+  ['030108', 'Savogna'],
+  ['030109', 'Sedegliano'],
+  ['030110', 'Socchieve'],
+  ['030111', 'Stregna'],
+  ['030112', 'Sutrio'],
+  ['030113', 'Taipana'],
+  ['030114', 'Talmassons'],
+  ['030116', 'Tarcento'],
+  ['030117', 'Tarvisio'],
+  ['030118', 'Tavagnacco'],
+  ['030120', "Terzo d'Aquileia"],
+  ['030121', 'Tolmezzo'],
+  ['030122', 'Torreano'],
+  ['030123', 'Torviscosa'],
+  ['030124', 'Trasaghis'],
+  ['030126', 'Treppo Grande'],
+  ['030127', 'Tricesimo'],
+  ['030128', 'Trivignano Udinese'],
+  ['030129', 'Udine'],
+  ['030130', 'Varmo'],
+  ['030131', 'Venzone'],
+  ['030132', 'Verzegnis'],
+  ['030133', 'Villa Santina'],
+  ['030135', 'Visco'],
+  ['030136', 'Zuglio'],
+  ['030137', 'Forgaria nel Friuli'],
+  ['030138', 'Campolongo Tapogliano'],
+  ['030188', 'Rivignano Teor'],
+  ['030189', 'Sappada'],
+  ['030190', 'Fiumicello Villa Vicentina'],
+  ['030191', 'Treppo Ligosullo'],
+  ['031001', 'Capriva del Friuli'],
+  ['031002', 'Cormons'],
+  ['031003', 'Doberdò del Lago-Doberdob'],
+  ['031004', 'Dolegna del Collio'],
+  ['031005', "Farra d'Isonzo"],
+  ['031006', 'Fogliano Redipuglia'],
+  ['031007', 'Gorizia'],
+  ['031008', "Gradisca d'Isonzo"],
+  ['031009', 'Grado'],
+  ['031010', 'Mariano del Friuli'],
+  ['031011', 'Medea'],
+  ['031012', 'Monfalcone'],
+  ['031013', 'Moraro'],
+  ['031014', 'Mossa'],
+  ['031015', "Romans d'Isonzo"],
+  ['031016', 'Ronchi dei Legionari'],
+  ['031017', 'Sagrado'],
+  ['031018', "San Canzian d'Isonzo"],
+  ['031019', 'San Floriano del Collio-teverjan'],
+  ['031020', 'San Lorenzo Isontino'],
+  ['031021', "San Pier d'Isonzo"],
+  ['031022', "Savogna d'Isonzo-Sovodnje ob So?i"],
+  ['031023', 'Staranzano'],
+  ['031024', 'Turriaco'],
+  ['031025', 'Villesse'],
+  ['032001', 'Duino Aurisina-Devin Nabreina'],
+  ['032002', 'Monrupino-Repentabor'],
+  ['032003', 'Muggia'],
+  ['032004', 'San Dorligo della Valle-Dolina'],
+  ['032005', 'Sgonico-Zgonik'],
+  ['032006', 'Trieste'],
+  ['033001', 'Agazzano'],
+  ['033002', 'Alseno'],
+  ['033003', 'Besenzone'],
+  ['033004', 'Bettola'],
+  ['033005', 'Bobbio'],
+  ['033006', 'Borgonovo Val Tidone'],
+  ['033007', 'Cadeo'],
+  ['033008', 'Calendasco'],
+  ['033010', 'Caorso'],
+  ['033011', 'Carpaneto Piacentino'],
+  ['033012', "Castell'Arquato"],
+  ['033013', 'Castel San Giovanni'],
+  ['033014', 'Castelvetro Piacentino'],
+  ['033015', 'Cerignale'],
+  ['033016', 'Coli'],
+  ['033017', 'Corte Brugnatella'],
+  ['033018', 'Cortemaggiore'],
+  ['033019', 'Farini'],
+  ['033020', 'Ferriere'],
+  ['033021', "Fiorenzuola d'Arda"],
+  ['033022', 'Gazzola'],
+  ['033023', 'Gossolengo'],
+  ['033024', 'Gragnano Trebbiense'],
+  ['033025', 'Gropparello'],
+  ['033026', "Lugagnano Val d'Arda"],
+  ['033027', "Monticelli d'Ongina"],
+  ['033028', 'Morfasso'],
+  ['033030', 'Ottone'],
+  ['033032', 'Piacenza'],
+  ['033033', 'Pianello Val Tidone'],
+  ['033034', 'Piozzano'],
+  ['033035', 'Podenzano'],
+  ['033036', "Ponte dell'Olio"],
+  ['033037', 'Pontenure'],
+  ['033038', 'Rivergaro'],
+  ['033039', 'Rottofreno'],
+  ['033040', 'San Giorgio Piacentino'],
+  ['033041', 'San Pietro in Cerro'],
+  ['033042', 'Sarmato'],
+  ['033043', 'Travo'],
+  ['033044', 'Vernasca'],
+  ['033045', 'Vigolzone'],
+  ['033046', "Villanova sull'Arda"],
+  ['033047', 'Zerba'],
+  ['033048', 'Ziano Piacentino'],
+  ['033049', 'Alta Val Tidone'],
+  ['034001', 'Albareto'],
+  ['034002', 'Bardi'],
+  ['034003', 'Bedonia'],
+  ['034004', 'Berceto'],
+  ['034005', 'Bore'],
+  ['034006', 'Borgo Val di Taro'],
+  ['034007', 'Busseto'],
+  ['034008', 'Calestano'],
+  ['034009', 'Collecchio'],
+  ['034010', 'Colorno'],
+  ['034011', 'Compiano'],
+  ['034012', 'Corniglio'],
+  ['034013', 'Felino'],
+  ['034014', 'Fidenza'],
+  ['034015', 'Fontanellato'],
+  ['034016', 'Fontevivo'],
+  ['034017', 'Fornovo di Taro'],
+  ['034018', 'Langhirano'],
+  ['034019', "Lesignano de' Bagni"],
+  ['034020', 'Medesano'],
+  ['034022', 'Monchio delle Corti'],
+  ['034023', 'Montechiarugolo'],
+  ['034024', 'Neviano degli Arduini'],
+  ['034025', 'Noceto'],
+  ['034026', 'Palanzano'],
+  ['034027', 'Parma'],
+  ['034028', 'Pellegrino Parmense'],
+  ['034030', 'Roccabianca'],
+  ['034031', 'Sala Baganza'],
+  ['034032', 'Salsomaggiore Terme'],
+  ['034033', 'San Secondo Parmense'],
+  ['034035', 'Solignano'],
+  ['034036', 'Soragna'],
+  ['034038', 'Terenzo'],
+  ['034039', 'Tizzano Val Parma'],
+  ['034040', 'Tornolo'],
+  ['034041', 'Torrile'],
+  ['034042', 'Traversetolo'],
+  ['034044', 'Valmozzola'],
+  ['034045', "Varano de' Melegari"],
+  ['034046', 'Varsi'],
+  ['034049', 'Sissa Trecasali'],
+  ['034050', 'Polesine Zibello'],
+  ['034051', 'Sorbolo Mezzani'],
+  ['035001', 'Albinea'],
+  ['035002', 'Bagnolo in Piano'],
+  ['035003', 'Baiso'],
+  ['035004', 'Bibbiano'],
+  ['035005', 'Boretto'],
+  ['035006', 'Brescello'],
+  ['035008', 'Cadelbosco di Sopra'],
+  ['035009', 'Campagnola Emilia'],
+  ['035010', 'Campegine'],
+  ['035011', 'Carpineti'],
+  ['035012', 'Casalgrande'],
+  ['035013', 'Casina'],
+  ['035014', 'Castellarano'],
+  ['035015', 'Castelnovo di Sotto'],
+  ['035016', "Castelnovo ne' Monti"],
+  ['035017', 'Cavriago'],
+  ['035018', 'Canossa'],
+  ['035020', 'Correggio'],
+  ['035021', 'Fabbrico'],
+  ['035022', 'Gattatico'],
+  ['035023', 'Gualtieri'],
+  ['035024', 'Guastalla'],
+  ['035026', 'Luzzara'],
+  ['035027', 'Montecchio Emilia'],
+  ['035028', 'Novellara'],
+  ['035029', 'Poviglio'],
+  ['035030', 'Quattro Castella'],
+  ['035032', 'Reggiolo'],
+  ['035033', "Reggio nell'Emilia"],
+  ['035034', 'Rio Saliceto'],
+  ['035035', 'Rolo'],
+  ['035036', 'Rubiera'],
+  ['035037', 'San Martino in Rio'],
+  ['035038', "San Polo d'Enza"],
+  ['035039', "Sant'Ilario d'Enza"],
+  ['035040', 'Scandiano'],
+  ['035041', 'Toano'],
+  ['035042', 'Vetto'],
+  ['035043', 'Vezzano sul Crostolo'],
+  ['035044', 'Viano'],
+  ['035045', 'Villa Minozzo'],
+  ['035046', 'Ventasso'],
+  ['036001', 'Bastiglia'],
+  ['036002', 'Bomporto'],
+  ['036003', 'Campogalliano'],
+  ['036004', 'Camposanto'],
+  ['036005', 'Carpi'],
+  ['036006', 'Castelfranco Emilia'],
+  ['036007', 'Castelnuovo Rangone'],
+  ['036008', 'Castelvetro di Modena'],
+  ['036009', 'Cavezzo'],
+  ['036010', 'Concordia sulla Secchia'],
+  ['036011', 'Fanano'],
+  ['036012', 'Finale Emilia'],
+  ['036013', 'Fiorano Modenese'],
+  ['036014', 'Fiumalbo'],
+  ['036015', 'Formigine'],
+  ['036016', 'Frassinoro'],
+  ['036017', 'Guiglia'],
+  ['036018', 'Lama Mocogno'],
+  ['036019', 'Maranello'],
+  ['036020', 'Marano sul Panaro'],
+  ['036021', 'Medolla'],
+  ['036022', 'Mirandola'],
+  ['036023', 'Modena'],
+  ['036024', 'Montecreto'],
+  ['036025', 'Montefiorino'],
+  ['036026', 'Montese'],
+  ['036027', 'Nonantola'],
+  ['036028', 'Novi di Modena'],
+  ['036029', 'Palagano'],
+  ['036030', 'Pavullo nel Frignano'],
+  ['036031', 'Pievepelago'],
+  ['036032', 'Polinago'],
+  ['036033', 'Prignano sulla Secchia'],
+  ['036034', 'Ravarino'],
+  ['036035', 'Riolunato'],
+  ['036036', 'San Cesario sul Panaro'],
+  ['036037', 'San Felice sul Panaro'],
+  ['036038', 'San Possidonio'],
+  ['036039', 'San Prospero'],
+  ['036040', 'Sassuolo'],
+  ['036041', 'Savignano sul Panaro'],
+  ['036042', 'Serramazzoni'],
+  ['036043', 'Sestola'],
+  ['036044', 'Soliera'],
+  ['036045', 'Spilamberto'],
+  ['036046', 'Vignola'],
+  ['036047', 'Zocca'],
+  ['037001', "Anzola dell'Emilia"],
+  ['037002', 'Argelato'],
+  ['037003', 'Baricella'],
+  ['037005', 'Bentivoglio'],
+  ['037006', 'Bologna'],
+  ['037007', 'Borgo Tossignano'],
+  ['037008', 'Budrio'],
+  ['037009', 'Calderara di Reno'],
+  ['037010', 'Camugnano'],
+  ['037011', 'Casalecchio di Reno'],
+  ['037012', 'Casalfiumanese'],
+  ['037013', "Castel d'Aiano"],
+  ['037014', 'Castel del Rio'],
+  ['037015', 'Castel di Casio'],
+  ['037016', 'Castel Guelfo di Bologna'],
+  ['037017', "Castello d'Argile"],
+  ['037019', 'Castel Maggiore'],
+  ['037020', 'Castel San Pietro Terme'],
+  ['037021', 'Castenaso'],
+  ['037022', 'Castiglione dei Pepoli'],
+  ['037024', 'Crevalcore'],
+  ['037025', 'Dozza'],
+  ['037026', 'Fontanelice'],
+  ['037027', 'Gaggio Montano'],
+  ['037028', 'Galliera'],
+  ['037030', "Granarolo dell'Emilia"],
+  ['037031', 'Grizzana Morandi'],
+  ['037032', 'Imola'],
+  ['037033', 'Lizzano in Belvedere'],
+  ['037034', 'Loiano'],
+  ['037035', 'Malalbergo'],
+  ['037036', 'Marzabotto'],
+  ['037037', 'Medicina'],
+  ['037038', 'Minerbio'],
+  ['037039', 'Molinella'],
+  ['037040', 'Monghidoro'],
+  ['037041', 'Monterenzio'],
+  ['037042', 'Monte San Pietro'],
+  ['037044', 'Monzuno'],
+  ['037045', 'Mordano'],
+  ['037046', "Ozzano dell'Emilia"],
+  ['037047', 'Pianoro'],
+  ['037048', 'Pieve di Cento'],
+  ['037050', 'Sala Bolognese'],
+  ['037051', 'San Benedetto Val di Sambro'],
+  ['037052', 'San Giorgio di Piano'],
+  ['037053', 'San Giovanni in Persiceto'],
+  ['037054', 'San Lazzaro di Savena'],
+  ['037055', 'San Pietro in Casale'],
+  ['037056', "Sant'Agata Bolognese"],
+  ['037057', 'Sasso Marconi'],
+  ['037059', 'Vergato'],
+  ['037060', 'Zola Predosa'],
+  ['037061', 'Valsamoggia'],
+  ['037062', 'Alto Reno Terme'],
+  ['038001', 'Argenta'],
+  ['038003', 'Bondeno'],
+  ['038004', 'Cento'],
+  ['038005', 'Codigoro'],
+  ['038006', 'Comacchio'],
+  ['038007', 'Copparo'],
+  ['038008', 'Ferrara'],
+  ['038010', 'Jolanda di Savoia'],
+  ['038011', 'Lagosanto'],
+  ['038012', 'Masi Torello'],
+  ['038014', 'Mesola'],
+  ['038017', 'Ostellato'],
+  ['038018', 'Poggio Renatico'],
+  ['038019', 'Portomaggiore'],
+  ['038022', 'Vigarano Mainarda'],
+  ['038023', 'Voghiera'],
+  ['038025', 'Goro'],
+  ['038027', 'Fiscaglia'],
+  ['038028', 'Terre del Reno'],
+  ['038029', 'Riva del Po'],
+  ['038030', 'Tresignana'],
+  ['039001', 'Alfonsine'],
+  ['039002', 'Bagnacavallo'],
+  ['039003', 'Bagnara di Romagna'],
+  ['039004', 'Brisighella'],
+  ['039005', 'Casola Valsenio'],
+  ['039006', 'Castel Bolognese'],
+  ['039007', 'Cervia'],
+  ['039008', 'Conselice'],
+  ['039009', 'Cotignola'],
+  ['039010', 'Faenza'],
+  ['039011', 'Fusignano'],
+  ['039012', 'Lugo'],
+  ['039013', 'Massa Lombarda'],
+  ['039014', 'Ravenna'],
+  ['039015', 'Riolo Terme'],
+  ['039016', 'Russi'],
+  ['039017', "Sant'Agata sul Santerno"],
+  ['039018', 'Solarolo'],
+  ['040001', 'Bagno di Romagna'],
+  ['040003', 'Bertinoro'],
+  ['040004', 'Borghi'],
+  ['040005', 'Castrocaro Terme e Terra del Sole'],
+  ['040007', 'Cesena'],
+  ['040008', 'Cesenatico'],
+  ['040009', 'Civitella di Romagna'],
+  ['040011', 'Dovadola'],
+  ['040012', 'Forlì'],
+  ['040013', 'Forlimpopoli'],
+  ['040014', 'Galeata'],
+  ['040015', 'Gambettola'],
+  ['040016', 'Gatteo'],
+  ['040018', 'Longiano'],
+  ['040019', 'Meldola'],
+  ['040020', 'Mercato Saraceno'],
+  ['040022', 'Modigliana'],
+  ['040028', 'Montiano'],
+  ['040031', 'Portico e San Benedetto'],
+  ['040032', 'Predappio'],
+  ['040033', 'Premilcuore'],
+  ['040036', 'Rocca San Casciano'],
+  ['040037', 'Roncofreddo'],
+  ['040041', 'San Mauro Pascoli'],
+  ['040043', 'Santa Sofia'],
+  ['040044', 'Sarsina'],
+  ['040045', 'Savignano sul Rubicone'],
+  ['040046', 'Sogliano al Rubicone'],
+  ['040049', 'Tredozio'],
+  ['040050', 'Verghereto'],
+  ['041001', 'Acqualagna'],
+  ['041002', 'Apecchio'],
+  ['041005', "Belforte all'Isauro"],
+  ['041006', 'Borgo Pace'],
+  ['041007', 'Cagli'],
+  ['041008', 'Cantiano'],
+  ['041009', 'Carpegna'],
+  ['041010', 'Cartoceto'],
+  ['041013', 'Fano'],
+  ['041014', 'Fermignano'],
+  ['041015', 'Fossombrone'],
+  ['041016', 'Fratte Rosa'],
+  ['041017', 'Frontino'],
+  ['041018', 'Frontone'],
+  ['041019', 'Gabicce Mare'],
+  ['041020', 'Gradara'],
+  ['041021', 'Isola del Piano'],
+  ['041022', 'Lunano'],
+  ['041023', 'Macerata Feltria'],
+  ['041025', 'Mercatello sul Metauro'],
+  ['041026', 'Mercatino Conca'],
+  ['041027', 'Mombaroccio'],
+  ['041028', 'Mondavio'],
+  ['041029', 'Mondolfo'],
+  ['041030', 'Montecalvo in Foglia'],
+  ['041031', 'Monte Cerignone'],
+  ['041032', 'Monteciccardo'],
+  ['041033', 'Montecopiolo'],
+  ['041034', 'Montefelcino'],
+  ['041035', 'Monte Grimano Terme'],
+  ['041036', 'Montelabbate'],
+  ['041038', 'Monte Porzio'],
+  ['041041', 'Peglio'],
+  ['041043', 'Pergola'],
+  ['041044', 'Pesaro'],
+  ['041045', 'Petriano'],
+  ['041047', 'Piandimeleto'],
+  ['041048', 'Pietrarubbia'],
+  ['041049', 'Piobbico'],
+  ['041051', 'San Costanzo'],
+  ['041054', 'San Lorenzo in Campo'],
+  ['041057', "Sant'Angelo in Vado"],
+  ['041058', "Sant'Ippolito"],
+  ['041060', 'Sassofeltrio'],
+  ['041061', "Serra Sant'Abbondio"],
+  ['041064', 'Tavoleto'],
+  ['041065', 'Tavullia'],
+  ['041066', 'Urbania'],
+  ['041067', 'Urbino'],
+  ['041068', 'Vallefoglia'],
+  ['041069', 'Colli al Metauro'],
+  ['041070', 'Terre Roveresche'],
+  ['041071', 'Sassocorvaro Auditore'],
+  ['042001', 'Agugliano'],
+  ['042002', 'Ancona'],
+  ['042003', 'Arcevia'],
+  ['042004', 'Barbara'],
+  ['042005', 'Belvedere Ostrense'],
+  ['042006', 'Camerano'],
+  ['042007', 'Camerata Picena'],
+  ['042008', 'Castelbellino'],
+  ['042010', 'Castelfidardo'],
+  ['042011', 'Castelleone di Suasa'],
+  ['042012', 'Castelplanio'],
+  ['042013', "Cerreto d'Esi"],
+  ['042014', 'Chiaravalle'],
+  ['042015', 'Corinaldo'],
+  ['042016', 'Cupramontana'],
+  ['042017', 'Fabriano'],
+  ['042018', 'Falconara Marittima'],
+  ['042019', 'Filottrano'],
+  ['042020', 'Genga'],
+  ['042021', 'Jesi'],
+  ['042022', 'Loreto'],
+  ['042023', 'Maiolati Spontini'],
+  ['042024', 'Mergo'],
+  ['042025', 'Monsano'],
+  ['042026', 'Montecarotto'],
+  ['042027', 'Montemarciano'],
+  ['042029', 'Monte Roberto'],
+  ['042030', 'Monte San Vito'],
+  ['042031', "Morro d'Alba"],
+  ['042032', 'Numana'],
+  ['042033', 'Offagna'],
+  ['042034', 'Osimo'],
+  ['042035', 'Ostra'],
+  ['042036', 'Ostra Vetere'],
+  ['042037', 'Poggio San Marcello'],
+  ['042038', 'Polverigi'],
+  ['042040', 'Rosora'],
+  ['042041', 'San Marcello'],
+  ['042042', 'San Paolo di Jesi'],
+  ['042043', 'Santa Maria Nuova'],
+  ['042044', 'Sassoferrato'],
+  ['042045', 'Senigallia'],
+  ['042046', "Serra de' Conti"],
+  ['042047', 'Serra San Quirico'],
+  ['042048', 'Sirolo'],
+  ['042049', 'Staffolo'],
+  ['042050', 'Trecastelli'],
+  ['043002', 'Apiro'],
+  ['043003', 'Appignano'],
+  ['043004', 'Belforte del Chienti'],
+  ['043005', 'Bolognola'],
+  ['043006', 'Caldarola'],
+  ['043007', 'Camerino'],
+  ['043008', 'Camporotondo di Fiastrone'],
+  ['043009', 'Castelraimondo'],
+  ['043010', 'Castelsantangelo sul Nera'],
+  ['043011', 'Cessapalombo'],
+  ['043012', 'Cingoli'],
+  ['043013', 'Civitanova Marche'],
+  ['043014', 'Colmurano'],
+  ['043015', 'Corridonia'],
+  ['043016', 'Esanatoglia'],
+  ['043017', 'Fiastra'],
+  ['043019', 'Fiuminata'],
+  ['043020', 'Gagliole'],
+  ['043021', 'Gualdo'],
+  ['043022', 'Loro Piceno'],
+  ['043023', 'Macerata'],
+  ['043024', 'Matelica'],
+  ['043025', 'Mogliano'],
+  ['043026', 'Montecassiano'],
+  ['043027', 'Monte Cavallo'],
+  ['043028', 'Montecosaro'],
+  ['043029', 'Montefano'],
+  ['043030', 'Montelupone'],
+  ['043031', 'Monte San Giusto'],
+  ['043032', 'Monte San Martino'],
+  ['043033', 'Morrovalle'],
+  ['043034', 'Muccia'],
+  ['043035', 'Penna San Giovanni'],
+  ['043036', 'Petriolo'],
+  ['043038', 'Pieve Torina'],
+  ['043039', 'Pioraco'],
+  ['043040', 'Poggio San Vicino'],
+  ['043041', 'Pollenza'],
+  ['043042', 'Porto Recanati'],
+  ['043043', 'Potenza Picena'],
+  ['043044', 'Recanati'],
+  ['043045', 'Ripe San Ginesio'],
+  ['043046', 'San Ginesio'],
+  ['043047', 'San Severino Marche'],
+  ['043048', "Sant'Angelo in Pontano"],
+  ['043049', 'Sarnano'],
+  ['043050', 'Sefro'],
+  ['043051', 'Serrapetrona'],
+  ['043052', 'Serravalle di Chienti'],
+  ['043053', 'Tolentino'],
+  ['043054', 'Treia'],
+  ['043055', 'Urbisaglia'],
+  ['043056', 'Ussita'],
+  ['043057', 'Visso'],
+  ['043058', 'Valfornace'],
+  ['044001', 'Acquasanta Terme'],
+  ['044002', 'Acquaviva Picena'],
+  ['044005', 'Appignano del Tronto'],
+  ['044006', 'Arquata del Tronto'],
+  ['044007', 'Ascoli Piceno'],
+  ['044010', 'Carassai'],
+  ['044011', 'Castel di Lama'],
+  ['044012', 'Castignano'],
+  ['044013', 'Castorano'],
+  ['044014', 'Colli del Tronto'],
+  ['044015', 'Comunanza'],
+  ['044016', 'Cossignano'],
+  ['044017', 'Cupra Marittima'],
+  ['044020', 'Folignano'],
+  ['044021', 'Force'],
+  ['044023', 'Grottammare'],
+  ['044027', 'Maltignano'],
+  ['044029', 'Massignano'],
+  ['044031', 'Monsampolo del Tronto'],
+  ['044032', 'Montalto delle Marche'],
+  ['044034', 'Montedinove'],
+  ['044036', "Montefiore dell'Aso"],
+  ['044038', 'Montegallo'],
+  ['044044', 'Montemonaco'],
+  ['044045', 'Monteprandone'],
+  ['044054', 'Offida'],
+  ['044056', 'Palmiano'],
+  ['044063', 'Ripatransone'],
+  ['044064', 'Roccafluvione'],
+  ['044065', 'Rotella'],
+  ['044066', 'San Benedetto del Tronto'],
+  ['044071', 'Spinetoli'],
+  ['044073', 'Venarotta'],
+  ['045001', 'Aulla'],
+  ['045002', 'Bagnone'],
+  ['045003', 'Carrara'],
+  ['045004', 'Casola in Lunigiana'],
+  ['045005', 'Comano'],
+  ['045006', 'Filattiera'],
+  ['045007', 'Fivizzano'],
+  ['045008', 'Fosdinovo'],
+  ['045009', 'Licciana Nardi'],
+  ['045010', 'Massa'],
+  ['045011', 'Montignoso'],
+  ['045012', 'Mulazzo'],
+  ['045013', 'Podenzana'],
+  ['045014', 'Pontremoli'],
+  ['045015', 'Tresana'],
+  ['045016', 'Villafranca in Lunigiana'],
+  ['045017', 'Zeri'],
+  ['046001', 'Altopascio'],
+  ['046002', 'Bagni di Lucca'],
+  ['046003', 'Barga'],
+  ['046004', 'Borgo a Mozzano'],
+  ['046005', 'Camaiore'],
+  ['046006', 'Camporgiano'],
+  ['046007', 'Capannori'],
+  ['046008', 'Careggine'],
+  ['046009', 'Castelnuovo di Garfagnana'],
+  ['046010', 'Castiglione di Garfagnana'],
+  ['046011', 'Coreglia Antelminelli'],
+  ['046013', 'Forte dei Marmi'],
+  ['046014', 'Fosciandora'],
+  ['046015', 'Gallicano'],
+  ['046017', 'Lucca'],
+  ['046018', 'Massarosa'],
+  ['046019', 'Minucciano'],
+  ['046020', 'Molazzana'],
+  ['046021', 'Montecarlo'],
+  ['046022', 'Pescaglia'],
+  ['046023', 'Piazza al Serchio'],
+  ['046024', 'Pietrasanta'],
+  ['046025', 'Pieve Fosciana'],
+  ['046026', 'Porcari'],
+  ['046027', 'San Romano in Garfagnana'],
+  ['046028', 'Seravezza'],
+  ['046030', 'Stazzema'],
+  ['046031', 'Vagli Sotto'],
+  ['046033', 'Viareggio'],
+  ['046034', 'Villa Basilica'],
+  ['046035', 'Villa Collemandina'],
+  ['046036', 'Fabbriche di Vergemoli'],
+  ['046037', 'Sillano Giuncugnano'],
+  ['047002', 'Agliana'],
+  ['047003', 'Buggiano'],
+  ['047005', 'Lamporecchio'],
+  ['047006', 'Larciano'],
+  ['047007', 'Marliana'],
+  ['047008', 'Massa e Cozzile'],
+  ['047009', 'Monsummano Terme'],
+  ['047010', 'Montale'],
+  ['047011', 'Montecatini-Terme'],
+  ['047012', 'Pescia'],
+  ['047013', 'Pieve a Nievole'],
+  ['047014', 'Pistoia'],
+  ['047016', 'Ponte Buggianese'],
+  ['047017', 'Quarrata'],
+  ['047018', 'Sambuca Pistoiese'],
+  ['047020', 'Serravalle Pistoiese'],
+  ['047021', 'Uzzano'],
+  ['047022', 'Chiesina Uzzanese'],
+  ['047023', 'Abetone Cutigliano'],
+  ['047024', 'San Marcello Piteglio'],
+  ['048001', 'Bagno a Ripoli'],
+  ['048002', 'Barberino di Mugello'],
+  ['048004', 'Borgo San Lorenzo'],
+  ['048005', 'Calenzano'],
+  ['048006', 'Campi Bisenzio'],
+  ['048008', 'Capraia e Limite'],
+  ['048010', 'Castelfiorentino'],
+  ['048011', 'Cerreto Guidi'],
+  ['048012', 'Certaldo'],
+  ['048013', 'Dicomano'],
+  ['048014', 'Empoli'],
+  ['048015', 'Fiesole'],
+  ['048017', 'Firenze'],
+  ['048018', 'Firenzuola'],
+  ['048019', 'Fucecchio'],
+  ['048020', 'Gambassi Terme'],
+  ['048021', 'Greve in Chianti'],
+  ['048022', 'Impruneta'],
+  ['048024', 'Lastra a Signa'],
+  ['048025', 'Londa'],
+  ['048026', 'Marradi'],
+  ['048027', 'Montaione'],
+  ['048028', 'Montelupo Fiorentino'],
+  ['048030', 'Montespertoli'],
+  ['048031', 'Palazzuolo sul Senio'],
+  ['048032', 'Pelago'],
+  ['048033', 'Pontassieve'],
+  ['048035', 'Reggello'],
+  ['048036', "Rignano sull'Arno"],
+  ['048037', 'Rufina'],
+  ['048038', 'San Casciano in Val di Pesa'],
+  ['048039', 'San Godenzo'],
+  ['048041', 'Scandicci'],
+  ['048043', 'Sesto Fiorentino'],
+  ['048044', 'Signa'],
+  ['048046', 'Vaglia'],
+  ['048049', 'Vicchio'],
+  ['048050', 'Vinci'],
+  ['048052', 'Figline e Incisa Valdarno'],
+  ['048053', 'Scarperia e San Piero'],
+  ['048054', 'Barberino Tavarnelle'],
+  ['049001', 'Bibbona'],
+  ['049002', 'Campiglia Marittima'],
+  ['049003', "Campo nell'Elba"],
+  ['049004', 'Capoliveri'],
+  ['049005', 'Capraia Isola'],
+  ['049006', 'Castagneto Carducci'],
+  ['049007', 'Cecina'],
+  ['049008', 'Collesalvetti'],
+  ['049009', 'Livorno'],
+  ['049010', 'Marciana'],
+  ['049011', 'Marciana Marina'],
+  ['049012', 'Piombino'],
+  ['049013', 'Porto Azzurro'],
+  ['049014', 'Portoferraio'],
+  ['049017', 'Rosignano Marittimo'],
+  ['049018', 'San Vincenzo'],
+  ['049019', 'Sassetta'],
+  ['049020', 'Suvereto'],
+  ['049021', 'Rio'],
+  ['050001', 'Bientina'],
+  ['050002', 'Buti'],
+  ['050003', 'Calci'],
+  ['050004', 'Calcinaia'],
+  ['050005', 'Capannoli'],
+  ['050006', 'Casale Marittimo'],
+  ['050008', 'Cascina'],
+  ['050009', 'Castelfranco di Sotto'],
+  ['050010', 'Castellina Marittima'],
+  ['050011', 'Castelnuovo di Val di Cecina'],
+  ['050012', 'Chianni'],
+  ['050014', 'Fauglia'],
+  ['050015', 'Guardistallo'],
+  ['050016', 'Lajatico'],
+  ['050019', 'Montecatini Val di Cecina'],
+  ['050020', 'Montescudaio'],
+  ['050021', 'Monteverdi Marittimo'],
+  ['050022', "Montopoli in Val d'Arno"],
+  ['050023', 'Orciano Pisano'],
+  ['050024', 'Palaia'],
+  ['050025', 'Peccioli'],
+  ['050026', 'Pisa'],
+  ['050027', 'Pomarance'],
+  ['050028', 'Ponsacco'],
+  ['050029', 'Pontedera'],
+  ['050030', 'Riparbella'],
+  ['050031', 'San Giuliano Terme'],
+  ['050032', 'San Miniato'],
+  ['050033', "Santa Croce sull'Arno"],
+  ['050034', 'Santa Luce'],
+  ['050035', 'Santa Maria a Monte'],
+  ['050036', 'Terricciola'],
+  ['050037', 'Vecchiano'],
+  ['050038', 'Vicopisano'],
+  ['050039', 'Volterra'],
+  ['050040', 'Casciana Terme Lari'],
+  ['050041', 'Crespina Lorenzana'],
+  ['051001', 'Anghiari'],
+  ['051002', 'Arezzo'],
+  ['051003', 'Badia Tedalda'],
+  ['051004', 'Bibbiena'],
+  ['051005', 'Bucine'],
+  ['051006', 'Capolona'],
+  ['051007', 'Caprese Michelangelo'],
+  ['051008', 'Castel Focognano'],
+  ['051010', 'Castel San Niccolò'],
+  ['051011', 'Castiglion Fibocchi'],
+  ['051012', 'Castiglion Fiorentino'],
+  ['051013', 'Cavriglia'],
+  ['051014', 'Chitignano'],
+  ['051015', 'Chiusi della Verna'],
+  ['051016', 'Civitella in Val di Chiana'],
+  ['051017', 'Cortona'],
+  ['051018', 'Foiano della Chiana'],
+  ['051020', 'Loro Ciuffenna'],
+  ['051021', 'Lucignano'],
+  ['051022', 'Marciano della Chiana'],
+  ['051023', 'Montemignaio'],
+  ['051024', 'Monterchi'],
+  ['051025', 'Monte San Savino'],
+  ['051026', 'Montevarchi'],
+  ['051027', 'Ortignano Raggiolo'],
+  ['051030', 'Pieve Santo Stefano'],
+  ['051031', 'Poppi'],
+  ['051033', 'San Giovanni Valdarno'],
+  ['051034', 'Sansepolcro'],
+  ['051035', 'Sestino'],
+  ['051037', 'Subbiano'],
+  ['051038', 'Talla'],
+  ['051039', 'Terranuova Bracciolini'],
+  ['051040', 'Castelfranco Piandiscò'],
+  ['051041', 'Pratovecchio Stia'],
+  ['051042', 'Laterina Pergine Valdarno'],
+  ['052001', 'Abbadia San Salvatore'],
+  ['052002', 'Asciano'],
+  ['052003', 'Buonconvento'],
+  ['052004', "Casole d'Elsa"],
+  ['052005', 'Castellina in Chianti'],
+  ['052006', 'Castelnuovo Berardenga'],
+  ['052007', "Castiglione d'Orcia"],
+  ['052008', 'Cetona'],
+  ['052009', 'Chianciano Terme'],
+  ['052010', 'Chiusdino'],
+  ['052011', 'Chiusi'],
+  ['052012', "Colle di Val d'Elsa"],
+  ['052013', 'Gaiole in Chianti'],
+  ['052015', 'Montepulciano'],
+  ['052016', 'Monteriggioni'],
+  ['052017', "Monteroni d'Arbia"],
+  ['052018', 'Monticiano'],
+  ['052019', 'Murlo'],
+  ['052020', 'Piancastagnaio'],
+  ['052021', 'Pienza'],
+  ['052022', 'Poggibonsi'],
+  ['052023', 'Radda in Chianti'],
+  ['052024', 'Radicofani'],
+  ['052025', 'Radicondoli'],
+  ['052026', 'Rapolano Terme'],
+  ['052027', 'San Casciano dei Bagni'],
+  ['052028', 'San Gimignano'],
+  ['052030', "San Quirico d'Orcia"],
+  ['052031', 'Sarteano'],
+  ['052032', 'Siena'],
+  ['052033', 'Sinalunga'],
+  ['052034', 'Sovicille'],
+  ['052035', 'Torrita di Siena'],
+  ['052036', 'Trequanda'],
+  ['052037', 'Montalcino'],
+  ['053001', 'Arcidosso'],
+  ['053002', 'Campagnatico'],
+  ['053003', 'Capalbio'],
+  ['053004', 'Castel del Piano'],
+  ['053005', "Castell'Azzara"],
+  ['053006', 'Castiglione della Pescaia'],
+  ['053007', 'Cinigiano'],
+  ['053008', 'Civitella Paganico'],
+  ['053009', 'Follonica'],
+  ['053010', 'Gavorrano'],
+  ['053011', 'Grosseto'],
+  ['053012', 'Isola del Giglio'],
+  ['053013', 'Magliano in Toscana'],
+  ['053014', 'Manciano'],
+  ['053015', 'Massa Marittima'],
+  ['053016', 'Monte Argentario'],
+  ['053017', 'Montieri'],
+  ['053018', 'Orbetello'],
+  ['053019', 'Pitigliano'],
+  ['053020', 'Roccalbegna'],
+  ['053021', 'Roccastrada'],
+  ['053022', 'Santa Fiora'],
+  ['053023', 'Scansano'],
+  ['053024', 'Scarlino'],
+  ['053025', 'Seggiano'],
+  ['053026', 'Sorano'],
+  ['053027', 'Monterotondo Marittimo'],
+  ['053028', 'Semproniano'],
+  ['054001', 'Assisi'],
+  ['054002', 'Bastia Umbra'],
+  ['054003', 'Bettona'],
+  ['054004', 'Bevagna'],
+  ['054005', 'Campello sul Clitunno'],
+  ['054006', 'Cannara'],
+  ['054007', 'Cascia'],
+  ['054008', 'Castel Ritaldi'],
+  ['054009', 'Castiglione del Lago'],
+  ['054010', 'Cerreto di Spoleto'],
+  ['054011', 'Citerna'],
+  ['054012', 'Città della Pieve'],
+  ['054013', 'Città di Castello'],
+  ['054014', 'Collazzone'],
+  ['054015', 'Corciano'],
+  ['054016', 'Costacciaro'],
+  ['054017', 'Deruta'],
+  ['054018', 'Foligno'],
+  ['054019', 'Fossato di Vico'],
+  ['054020', 'Fratta Todina'],
+  ['054021', "Giano dell'Umbria"],
+  ['054022', 'Gualdo Cattaneo'],
+  ['054023', 'Gualdo Tadino'],
+  ['054024', 'Gubbio'],
+  ['054025', 'Lisciano Niccone'],
+  ['054026', 'Magione'],
+  ['054027', 'Marsciano'],
+  ['054028', 'Massa Martana'],
+  ['054029', 'Monte Castello di Vibio'],
+  ['054030', 'Montefalco'],
+  ['054031', 'Monteleone di Spoleto'],
+  ['054032', 'Monte Santa Maria Tiberina'],
+  ['054033', 'Montone'],
+  ['054034', 'Nocera Umbra'],
+  ['054035', 'Norcia'],
+  ['054036', 'Paciano'],
+  ['054037', 'Panicale'],
+  ['054038', 'Passignano sul Trasimeno'],
+  ['054039', 'Perugia'],
+  ['054040', 'Piegaro'],
+  ['054041', 'Pietralunga'],
+  ['054042', 'Poggiodomo'],
+  ['054043', 'Preci'],
+  ['054044', 'San Giustino'],
+  ['054045', "Sant'Anatolia di Narco"],
+  ['054046', 'Scheggia e Pascelupo'],
+  ['054047', 'Scheggino'],
+  ['054048', 'Sellano'],
+  ['054049', 'Sigillo'],
+  ['054050', 'Spello'],
+  ['054051', 'Spoleto'],
+  ['054052', 'Todi'],
+  ['054053', 'Torgiano'],
+  ['054054', 'Trevi'],
+  ['054055', 'Tuoro sul Trasimeno'],
+  ['054056', 'Umbertide'],
+  ['054057', 'Valfabbrica'],
+  ['054058', 'Vallo di Nera'],
+  ['054059', 'Valtopina'],
+  ['055001', 'Acquasparta'],
+  ['055002', 'Allerona'],
+  ['055003', 'Alviano'],
+  ['055004', 'Amelia'],
+  ['055005', 'Arrone'],
+  ['055006', 'Attigliano'],
+  ['055007', 'Baschi'],
+  ['055008', "Calvi dell'Umbria"],
+  ['055009', 'Castel Giorgio'],
+  ['055010', 'Castel Viscardo'],
+  ['055011', 'Fabro'],
+  ['055012', 'Ferentillo'],
+  ['055013', 'Ficulle'],
+  ['055014', 'Giove'],
+  ['055015', 'Guardea'],
+  ['055016', 'Lugnano in Teverina'],
+  ['055017', 'Montecastrilli'],
+  ['055018', 'Montecchio'],
+  ['055019', 'Montefranco'],
+  ['055020', 'Montegabbione'],
+  ['055021', "Monteleone d'Orvieto"],
+  ['055022', 'Narni'],
+  ['055023', 'Orvieto'],
+  ['055024', 'Otricoli'],
+  ['055025', 'Parrano'],
+  ['055026', 'Penna in Teverina'],
+  ['055027', 'Polino'],
+  ['055028', 'Porano'],
+  ['055029', 'San Gemini'],
+  ['055030', 'San Venanzo'],
+  ['055031', 'Stroncone'],
+  ['055032', 'Terni'],
+  ['055033', 'Avigliano Umbro'],
+  ['056001', 'Acquapendente'],
+  ['056002', 'Arlena di Castro'],
+  ['056003', 'Bagnoregio'],
+  ['056004', 'Barbarano Romano'],
+  ['056005', 'Bassano Romano'],
+  ['056006', 'Bassano in Teverina'],
+  ['056007', 'Blera'],
+  ['056008', 'Bolsena'],
+  ['056009', 'Bomarzo'],
+  ['056010', 'Calcata'],
+  ['056011', 'Canepina'],
+  ['056012', 'Canino'],
+  ['056013', 'Capodimonte'],
+  ['056014', 'Capranica'],
+  ['056015', 'Caprarola'],
+  ['056016', 'Carbognano'],
+  ['056017', "Castel Sant'Elia"],
+  ['056018', 'Castiglione in Teverina'],
+  ['056019', 'Celleno'],
+  ['056020', 'Cellere'],
+  ['056021', 'Civita Castellana'],
+  ['056022', "Civitella d'Agliano"],
+  ['056023', 'Corchiano'],
+  ['056024', 'Fabrica di Roma'],
+  ['056025', 'Faleria'],
+  ['056026', 'Farnese'],
+  ['056027', 'Gallese'],
+  ['056028', 'Gradoli'],
+  ['056029', 'Graffignano'],
+  ['056030', 'Grotte di Castro'],
+  ['056031', 'Ischia di Castro'],
+  ['056032', 'Latera'],
+  ['056033', 'Lubriano'],
+  ['056034', 'Marta'],
+  ['056035', 'Montalto di Castro'],
+  ['056036', 'Montefiascone'],
+  ['056037', 'Monte Romano'],
+  ['056038', 'Monterosi'],
+  ['056039', 'Nepi'],
+  ['056040', 'Onano'],
+  ['056041', 'Oriolo Romano'],
+  ['056042', 'Orte'],
+  ['056043', 'Piansano'],
+  ['056044', 'Proceno'],
+  ['056045', 'Ronciglione'],
+  ['056046', 'Villa San Giovanni in Tuscia'],
+  ['056047', 'San Lorenzo Nuovo'],
+  ['056048', 'Soriano nel Cimino'],
+  ['056049', 'Sutri'],
+  ['056050', 'Tarquinia'],
+  ['056051', 'Tessennano'],
+  ['056052', 'Tuscania'],
+  ['056053', 'Valentano'],
+  ['056054', 'Vallerano'],
+  ['056055', 'Vasanello'],
+  ['056056', 'Vejano'],
+  ['056057', 'Vetralla'],
+  ['056058', 'Vignanello'],
+  ['056059', 'Viterbo'],
+  ['056060', 'Vitorchiano'],
+  ['057001', 'Accumoli'],
+  ['057002', 'Amatrice'],
+  ['057003', 'Antrodoco'],
+  ['057004', 'Ascrea'],
+  ['057005', 'Belmonte in Sabina'],
+  ['057006', 'Borbona'],
+  ['057007', 'Borgorose'],
+  ['057008', 'Borgo Velino'],
+  ['057009', 'Cantalice'],
+  ['057010', 'Cantalupo in Sabina'],
+  ['057011', 'Casaprota'],
+  ['057012', 'Casperia'],
+  ['057013', 'Castel di Tora'],
+  ['057014', 'Castelnuovo di Farfa'],
+  ['057015', "Castel Sant'Angelo"],
+  ['057016', 'Cittaducale'],
+  ['057017', 'Cittareale'],
+  ['057018', 'Collalto Sabino'],
+  ['057019', 'Colle di Tora'],
+  ['057020', 'Collegiove'],
+  ['057021', 'Collevecchio'],
+  ['057022', 'Colli sul Velino'],
+  ['057023', 'Concerviano'],
+  ['057024', 'Configni'],
+  ['057025', 'Contigliano'],
+  ['057026', 'Cottanello'],
+  ['057027', 'Fara in Sabina'],
+  ['057028', 'Fiamignano'],
+  ['057029', 'Forano'],
+  ['057030', 'Frasso Sabino'],
+  ['057031', 'Greccio'],
+  ['057032', 'Labro'],
+  ['057033', 'Leonessa'],
+  ['057034', 'Longone Sabino'],
+  ['057035', 'Magliano Sabina'],
+  ['057036', 'Marcetelli'],
+  ['057037', 'Micigliano'],
+  ['057038', 'Mompeo'],
+  ['057039', 'Montasola'],
+  ['057040', 'Montebuono'],
+  ['057041', 'Monteleone Sabino'],
+  ['057042', 'Montenero Sabino'],
+  ['057043', 'Monte San Giovanni in Sabina'],
+  ['057044', 'Montopoli di Sabina'],
+  ['057045', 'Morro Reatino'],
+  ['057046', 'Nespolo'],
+  ['057047', 'Orvinio'],
+  ['057048', 'Paganico Sabino'],
+  ['057049', 'Pescorocchiano'],
+  ['057050', 'Petrella Salto'],
+  ['057051', 'Poggio Bustone'],
+  ['057052', 'Poggio Catino'],
+  ['057053', 'Poggio Mirteto'],
+  ['057054', 'Poggio Moiano'],
+  ['057055', 'Poggio Nativo'],
+  ['057056', 'Poggio San Lorenzo'],
+  ['057057', 'Posta'],
+  ['057058', 'Pozzaglia Sabina'],
+  ['057059', 'Rieti'],
+  ['057060', 'Rivodutri'],
+  ['057061', 'Roccantica'],
+  ['057062', 'Rocca Sinibalda'],
+  ['057063', 'Salisano'],
+  ['057064', 'Scandriglia'],
+  ['057065', 'Selci'],
+  ['057066', 'Stimigliano'],
+  ['057067', 'Tarano'],
+  ['057068', 'Toffia'],
+  ['057069', 'Torricella in Sabina'],
+  ['057070', 'Torri in Sabina'],
+  ['057071', 'Turania'],
+  ['057072', 'Vacone'],
+  ['057073', 'Varco Sabino'],
+  ['058001', 'Affile'],
+  ['058002', 'Agosta'],
+  ['058003', 'Albano Laziale'],
+  ['058004', 'Allumiere'],
+  ['058005', 'Anguillara Sabazia'],
+  ['058006', 'Anticoli Corrado'],
+  ['058007', 'Anzio'],
+  ['058008', 'Arcinazzo Romano'],
+  ['058009', 'Ariccia'],
+  ['058010', 'Arsoli'],
+  ['058011', 'Artena'],
+  ['058012', 'Bellegra'],
+  ['058013', 'Bracciano'],
+  ['058014', 'Camerata Nuova'],
+  ['058015', 'Campagnano di Roma'],
+  ['058016', 'Canale Monterano'],
+  ['058017', 'Canterano'],
+  ['058018', 'Capena'],
+  ['058019', 'Capranica Prenestina'],
+  ['058020', 'Carpineto Romano'],
+  ['058021', 'Casape'],
+  ['058022', 'Castel Gandolfo'],
+  ['058023', 'Castel Madama'],
+  ['058024', 'Castelnuovo di Porto'],
+  ['058025', 'Castel San Pietro Romano'],
+  ['058026', 'Cave'],
+  ['058027', 'Cerreto Laziale'],
+  ['058028', 'Cervara di Roma'],
+  ['058029', 'Cerveteri'],
+  ['058030', 'Ciciliano'],
+  ['058031', 'Cineto Romano'],
+  ['058032', 'Civitavecchia'],
+  ['058033', 'Civitella San Paolo'],
+  ['058034', 'Colleferro'],
+  ['058035', 'Colonna'],
+  ['058036', 'Fiano Romano'],
+  ['058037', 'Filacciano'],
+  ['058038', 'Formello'],
+  ['058039', 'Frascati'],
+  ['058040', 'Gallicano nel Lazio'],
+  ['058041', 'Gavignano'],
+  ['058042', 'Genazzano'],
+  ['058043', 'Genzano di Roma'],
+  ['058044', 'Gerano'],
+  ['058045', 'Gorga'],
+  ['058046', 'Grottaferrata'],
+  ['058047', 'Guidonia Montecelio'],
+  ['058048', 'Jenne'],
+  ['058049', 'Labico'],
+  ['058050', 'Lanuvio'],
+  ['058051', 'Licenza'],
+  ['058052', 'Magliano Romano'],
+  ['058053', 'Mandela'],
+  ['058054', 'Manziana'],
+  ['058055', 'Marano Equo'],
+  ['058056', 'Marcellina'],
+  ['058057', 'Marino'],
+  ['058058', 'Mazzano Romano'],
+  ['058059', 'Mentana'],
+  ['058060', 'Monte Compatri'],
+  ['058061', 'Monteflavio'],
+  ['058062', 'Montelanico'],
+  ['058063', 'Montelibretti'],
+  ['058064', 'Monte Porzio Catone'],
+  ['058065', 'Monterotondo'],
+  ['058066', 'Montorio Romano'],
+  ['058067', 'Moricone'],
+  ['058068', 'Morlupo'],
+  ['058069', 'Nazzano'],
+  ['058070', 'Nemi'],
+  ['058071', 'Nerola'],
+  ['058072', 'Nettuno'],
+  ['058073', 'Olevano Romano'],
+  ['058074', 'Palestrina'],
+  ['058075', 'Palombara Sabina'],
+  ['058076', 'Percile'],
+  ['058077', 'Pisoniano'],
+  ['058078', 'Poli'],
+  ['058079', 'Pomezia'],
+  ['058080', 'Ponzano Romano'],
+  ['058081', 'Riano'],
+  ['058082', 'Rignano Flaminio'],
+  ['058083', 'Riofreddo'],
+  ['058084', 'Rocca Canterano'],
+  ['058085', 'Rocca di Cave'],
+  ['058086', 'Rocca di Papa'],
+  ['058087', 'Roccagiovine'],
+  ['058088', 'Rocca Priora'],
+  ['058089', 'Rocca Santo Stefano'],
+  ['058090', 'Roiate'],
+  ['058091', 'Roma'],
+  ['058092', 'Roviano'],
+  ['058093', 'Sacrofano'],
+  ['058094', 'Sambuci'],
+  ['058095', 'San Gregorio da Sassola'],
+  ['058096', 'San Polo dei Cavalieri'],
+  ['058097', 'Santa Marinella'],
+  ['058098', "Sant'Angelo Romano"],
+  ['058099', "Sant'Oreste"],
+  ['058100', 'San Vito Romano'],
+  ['058101', 'Saracinesco'],
+  ['058102', 'Segni'],
+  ['058103', 'Subiaco'],
+  ['058104', 'Tivoli'],
+  ['058105', 'Tolfa'],
+  ['058106', 'Torrita Tiberina'],
+  ['058107', 'Trevignano Romano'],
+  ['058108', 'Vallepietra'],
+  ['058109', 'Vallinfreda'],
+  ['058110', 'Valmontone'],
+  ['058111', 'Velletri'],
+  ['058112', 'Vicovaro'],
+  ['058113', 'Vivaro Romano'],
+  ['058114', 'Zagarolo'],
+  ['058115', 'Lariano'],
+  ['058116', 'Ladispoli'],
+  ['058117', 'Ardea'],
+  ['058118', 'Ciampino'],
+  ['058119', 'San Cesareo'],
+  ['058120', 'Fiumicino'],
+  ['058122', 'Fonte Nuova'],
+  ['059001', 'Aprilia'],
+  ['059002', 'Bassiano'],
+  ['059003', 'Campodimele'],
+  ['059004', 'Castelforte'],
+  ['059005', 'Cisterna di Latina'],
+  ['059006', 'Cori'],
+  ['059007', 'Fondi'],
+  ['059008', 'Formia'],
+  ['059009', 'Gaeta'],
+  ['059010', 'Itri'],
+  ['059011', 'Latina'],
+  ['059012', 'Lenola'],
+  ['059013', 'Maenza'],
+  ['059014', 'Minturno'],
+  ['059015', 'Monte San Biagio'],
+  ['059016', 'Norma'],
+  ['059017', 'Pontinia'],
+  ['059018', 'Ponza'],
+  ['059019', 'Priverno'],
+  ['059020', 'Prossedi'],
+  ['059021', 'Roccagorga'],
+  ['059022', 'Rocca Massima'],
+  ['059023', 'Roccasecca dei Volsci'],
+  ['059024', 'Sabaudia'],
+  ['059025', 'San Felice Circeo'],
+  ['059026', 'Santi Cosma e Damiano'],
+  ['059027', 'Sermoneta'],
+  ['059028', 'Sezze'],
+  ['059029', 'Sonnino'],
+  ['059030', 'Sperlonga'],
+  ['059031', 'Spigno Saturnia'],
+  ['059032', 'Terracina'],
+  ['059033', 'Ventotene'],
+  ['060001', 'Acquafondata'],
+  ['060002', 'Acuto'],
+  ['060003', 'Alatri'],
+  ['060004', 'Alvito'],
+  ['060005', 'Amaseno'],
+  ['060006', 'Anagni'],
+  ['060007', 'Aquino'],
+  ['060008', 'Arce'],
+  ['060009', 'Arnara'],
+  ['060010', 'Arpino'],
+  ['060011', 'Atina'],
+  ['060012', 'Ausonia'],
+  ['060013', 'Belmonte Castello'],
+  ['060014', 'Boville Ernica'],
+  ['060015', 'Broccostella'],
+  ['060016', 'Campoli Appennino'],
+  ['060017', 'Casalattico'],
+  ['060018', 'Casalvieri'],
+  ['060019', 'Cassino'],
+  ['060020', 'Castelliri'],
+  ['060021', 'Castelnuovo Parano'],
+  ['060022', 'Castrocielo'],
+  ['060023', 'Castro dei Volsci'],
+  ['060024', 'Ceccano'],
+  ['060025', 'Ceprano'],
+  ['060026', 'Cervaro'],
+  ['060027', 'Colfelice'],
+  ['060028', 'Collepardo'],
+  ['060029', 'Colle San Magno'],
+  ['060030', 'Coreno Ausonio'],
+  ['060031', 'Esperia'],
+  ['060032', 'Falvaterra'],
+  ['060033', 'Ferentino'],
+  ['060034', 'Filettino'],
+  ['060035', 'Fiuggi'],
+  ['060036', 'Fontana Liri'],
+  ['060037', 'Fontechiari'],
+  ['060038', 'Frosinone'],
+  ['060039', 'Fumone'],
+  ['060040', 'Gallinaro'],
+  ['060041', 'Giuliano di Roma'],
+  ['060042', 'Guarcino'],
+  ['060043', 'Isola del Liri'],
+  ['060044', 'Monte San Giovanni Campano'],
+  ['060045', 'Morolo'],
+  ['060046', 'Paliano'],
+  ['060047', 'Pastena'],
+  ['060048', 'Patrica'],
+  ['060049', 'Pescosolido'],
+  ['060050', 'Picinisco'],
+  ['060051', 'Pico'],
+  ['060052', 'Piedimonte San Germano'],
+  ['060053', 'Piglio'],
+  ['060054', 'Pignataro Interamna'],
+  ['060055', 'Pofi'],
+  ['060056', 'Pontecorvo'],
+  ['060057', 'Posta Fibreno'],
+  ['060058', 'Ripi'],
+  ['060059', "Rocca d'Arce"],
+  ['060060', 'Roccasecca'],
+  ['060061', 'San Biagio Saracinisco'],
+  ['060062', 'San Donato Val di Comino'],
+  ['060063', 'San Giorgio a Liri'],
+  ['060064', 'San Giovanni Incarico'],
+  ['060065', "Sant'Ambrogio sul Garigliano"],
+  ['060066', "Sant'Andrea del Garigliano"],
+  ['060067', "Sant'Apollinare"],
+  ['060068', "Sant'Elia Fiumerapido"],
+  ['060069', 'Santopadre'],
+  ['060070', 'San Vittore del Lazio'],
+  ['060071', 'Serrone'],
+  ['060072', 'Settefrati'],
+  ['060073', 'Sgurgola'],
+  ['060074', 'Sora'],
+  ['060075', 'Strangolagalli'],
+  ['060076', 'Supino'],
+  ['060077', 'Terelle'],
+  ['060078', 'Torre Cajetani'],
+  ['060079', 'Torrice'],
+  ['060080', 'Trevi nel Lazio'],
+  ['060081', 'Trivigliano'],
+  ['060082', 'Vallecorsa'],
+  ['060083', 'Vallemaio'],
+  ['060084', 'Vallerotonda'],
+  ['060085', 'Veroli'],
+  ['060086', 'Vicalvi'],
+  ['060087', 'Vico nel Lazio'],
+  ['060088', 'Villa Latina'],
+  ['060089', 'Villa Santa Lucia'],
+  ['060090', 'Villa Santo Stefano'],
+  ['060091', 'Viticuso'],
+  ['061001', 'Ailano'],
+  ['061002', 'Alife'],
+  ['061003', 'Alvignano'],
+  ['061004', 'Arienzo'],
+  ['061005', 'Aversa'],
+  ['061006', 'Baia e Latina'],
+  ['061007', 'Bellona'],
+  ['061008', 'Caianello'],
+  ['061009', 'Caiazzo'],
+  ['061010', 'Calvi Risorta'],
+  ['061011', 'Camigliano'],
+  ['061012', 'Cancello ed Arnone'],
+  ['061013', 'Capodrise'],
+  ['061014', 'Capriati a Volturno'],
+  ['061015', 'Capua'],
+  ['061016', 'Carinaro'],
+  ['061017', 'Carinola'],
+  ['061018', 'Casagiove'],
+  ['061019', 'Casal di Principe'],
+  ['061020', 'Casaluce'],
+  ['061021', 'Casapulla'],
+  ['061022', 'Caserta'],
+  ['061023', 'Castel Campagnano'],
+  ['061024', 'Castel di Sasso'],
+  ['061025', 'Castello del Matese'],
+  ['061026', 'Castel Morrone'],
+  ['061027', 'Castel Volturno'],
+  ['061028', 'Cervino'],
+  ['061029', 'Cesa'],
+  ['061030', 'Ciorlano'],
+  ['061031', 'Conca della Campania'],
+  ['061032', 'Curti'],
+  ['061033', 'Dragoni'],
+  ['061034', 'Fontegreca'],
+  ['061035', 'Formicola'],
+  ['061036', 'Francolise'],
+  ['061037', 'Frignano'],
+  ['061038', 'Gallo Matese'],
+  ['061039', 'Galluccio'],
+  ['061040', 'Giano Vetusto'],
+  ['061041', 'Gioia Sannitica'],
+  ['061042', 'Grazzanise'],
+  ['061043', 'Gricignano di Aversa'],
+  ['061044', 'Letino'],
+  ['061045', 'Liberi'],
+  ['061046', 'Lusciano'],
+  ['061047', 'Macerata Campania'],
+  ['061048', 'Maddaloni'],
+  ['061049', 'Marcianise'],
+  ['061050', 'Marzano Appio'],
+  ['061051', 'Mignano Monte Lungo'],
+  ['061052', 'Mondragone'],
+  ['061053', 'Orta di Atella'],
+  ['061054', 'Parete'],
+  ['061055', 'Pastorano'],
+  ['061056', 'Piana di Monte Verna'],
+  ['061057', 'Piedimonte Matese'],
+  ['061058', 'Pietramelara'],
+  ['061059', 'Pietravairano'],
+  ['061060', 'Pignataro Maggiore'],
+  ['061061', 'Pontelatone'],
+  ['061062', 'Portico di Caserta'],
+  ['061063', 'Prata Sannita'],
+  ['061064', 'Pratella'],
+  ['061065', 'Presenzano'],
+  ['061066', 'Raviscanina'],
+  ['061067', 'Recale'],
+  ['061068', 'Riardo'],
+  ['061069', "Rocca d'Evandro"],
+  ['061070', 'Roccamonfina'],
+  ['061071', 'Roccaromana'],
+  ['061072', 'Rocchetta e Croce'],
+  ['061073', 'Ruviano'],
+  ['061074', "San Cipriano d'Aversa"],
+  ['061075', 'San Felice a Cancello'],
+  ['061076', 'San Gregorio Matese'],
+  ['061077', 'San Marcellino'],
+  ['061078', 'San Nicola la Strada'],
+  ['061079', 'San Pietro Infine'],
+  ['061080', 'San Potito Sannitico'],
+  ['061081', 'San Prisco'],
+  ['061082', 'Santa Maria a Vico'],
+  ['061083', 'Santa Maria Capua Vetere'],
+  ['061084', 'Santa Maria la Fossa'],
+  ['061085', 'San Tammaro'],
+  ['061086', "Sant'Angelo d'Alife"],
+  ['061087', "Sant'Arpino"],
+  ['061088', 'Sessa Aurunca'],
+  ['061089', 'Sparanise'],
+  ['061090', 'Succivo'],
+  ['061091', 'Teano'],
+  ['061092', 'Teverola'],
+  ['061093', 'Tora e Piccilli'],
+  ['061094', 'Trentola Ducenta'],
+  ['061095', 'Vairano Patenora'],
+  ['061096', 'Valle Agricola'],
+  ['061097', 'Valle di Maddaloni'],
+  ['061098', 'Villa di Briano'],
+  ['061099', 'Villa Literno'],
+  ['061100', 'Vitulazio'],
+  ['061101', 'Falciano del Massico'],
+  ['061102', 'Cellole'],
+  ['061103', 'Casapesenna'],
+  ['061104', 'San Marco Evangelista'],
+  ['062001', 'Airola'],
+  ['062002', 'Amorosi'],
+  ['062003', 'Apice'],
+  ['062004', 'Apollosa'],
+  ['062005', 'Arpaia'],
+  ['062006', 'Arpaise'],
+  ['062007', 'Baselice'],
+  ['062008', 'Benevento'],
+  ['062009', 'Bonea'],
+  ['062010', 'Bucciano'],
+  ['062011', 'Buonalbergo'],
+  ['062012', 'Calvi'],
+  ['062013', 'Campolattaro'],
+  ['062014', 'Campoli del Monte Taburno'],
+  ['062015', 'Casalduni'],
+  ['062016', 'Castelfranco in Miscano'],
+  ['062017', 'Castelpagano'],
+  ['062018', 'Castelpoto'],
+  ['062019', 'Castelvenere'],
+  ['062020', 'Castelvetere in Val Fortore'],
+  ['062021', 'Cautano'],
+  ['062022', 'Ceppaloni'],
+  ['062023', 'Cerreto Sannita'],
+  ['062024', 'Circello'],
+  ['062025', 'Colle Sannita'],
+  ['062026', 'Cusano Mutri'],
+  ['062027', 'Dugenta'],
+  ['062028', 'Durazzano'],
+  ['062029', 'Faicchio'],
+  ['062030', 'Foglianise'],
+  ['062031', 'Foiano di Val Fortore'],
+  ['062032', 'Forchia'],
+  ['062033', "Fragneto l'Abate"],
+  ['062034', 'Fragneto Monforte'],
+  ['062035', 'Frasso Telesino'],
+  ['062036', 'Ginestra degli Schiavoni'],
+  ['062037', 'Guardia Sanframondi'],
+  ['062038', 'Limatola'],
+  ['062039', 'Melizzano'],
+  ['062040', 'Moiano'],
+  ['062041', 'Molinara'],
+  ['062042', 'Montefalcone di Val Fortore'],
+  ['062043', 'Montesarchio'],
+  ['062044', 'Morcone'],
+  ['062045', 'Paduli'],
+  ['062046', 'Pago Veiano'],
+  ['062047', 'Pannarano'],
+  ['062048', 'Paolisi'],
+  ['062049', 'Paupisi'],
+  ['062050', 'Pesco Sannita'],
+  ['062051', 'Pietraroja'],
+  ['062052', 'Pietrelcina'],
+  ['062053', 'Ponte'],
+  ['062054', 'Pontelandolfo'],
+  ['062055', 'Puglianello'],
+  ['062056', 'Reino'],
+  ['062057', 'San Bartolomeo in Galdo'],
+  ['062058', 'San Giorgio del Sannio'],
+  ['062059', 'San Giorgio La Molara'],
+  ['062060', 'San Leucio del Sannio'],
+  ['062061', 'San Lorenzello'],
+  ['062062', 'San Lorenzo Maggiore'],
+  ['062063', 'San Lupo'],
+  ['062064', 'San Marco dei Cavoti'],
+  ['062065', 'San Martino Sannita'],
+  ['062066', 'San Nazzaro'],
+  ['062067', 'San Nicola Manfredi'],
+  ['062068', 'San Salvatore Telesino'],
+  ['062069', 'Santa Croce del Sannio'],
+  ['062070', "Sant'Agata de' Goti"],
+  ['062071', "Sant'Angelo a Cupolo"],
+  ['062072', 'Sassinoro'],
+  ['062073', 'Solopaca'],
+  ['062074', 'Telese Terme'],
+  ['062075', 'Tocco Caudio'],
+  ['062076', 'Torrecuso'],
+  ['062077', 'Vitulano'],
+  ['062078', "Sant'Arcangelo Trimonte"],
+  ['063001', 'Acerra'],
+  ['063002', 'Afragola'],
+  ['063003', 'Agerola'],
+  ['063004', 'Anacapri'],
+  ['063005', 'Arzano'],
+  ['063006', 'Bacoli'],
+  ['063007', "Barano d'Ischia"],
+  ['063008', 'Boscoreale'],
+  ['063009', 'Boscotrecase'],
+  ['063010', 'Brusciano'],
+  ['063011', 'Caivano'],
+  ['063012', 'Calvizzano'],
+  ['063013', 'Camposano'],
+  ['063014', 'Capri'],
+  ['063015', 'Carbonara di Nola'],
+  ['063016', 'Cardito'],
+  ['063017', 'Casalnuovo di Napoli'],
+  ['063018', 'Casamarciano'],
+  ['063019', 'Casamicciola Terme'],
+  ['063020', 'Casandrino'],
+  ['063021', 'Casavatore'],
+  ['063022', 'Casola di Napoli'],
+  ['063023', 'Casoria'],
+  ['063024', 'Castellammare di Stabia'],
+  ['063025', 'Castello di Cisterna'],
+  ['063026', 'Cercola'],
+  ['063027', 'Cicciano'],
+  ['063028', 'Cimitile'],
+  ['063029', 'Comiziano'],
+  ['063030', 'Crispano'],
+  ['063031', 'Forio'],
+  ['063032', 'Frattamaggiore'],
+  ['063033', 'Frattaminore'],
+  ['063034', 'Giugliano in Campania'],
+  ['063035', 'Gragnano'],
+  ['063036', 'Grumo Nevano'],
+  ['063037', 'Ischia'],
+  ['063038', 'Lacco Ameno'],
+  ['063039', 'Lettere'],
+  ['063040', 'Liveri'],
+  ['063041', 'Marano di Napoli'],
+  ['063042', 'Mariglianella'],
+  ['063043', 'Marigliano'],
+  ['063044', 'Massa Lubrense'],
+  ['063045', 'Melito di Napoli'],
+  ['063046', 'Meta'],
+  ['063047', 'Monte di Procida'],
+  ['063048', 'Mugnano di Napoli'],
+  ['063049', 'Napoli'],
+  ['063050', 'Nola'],
+  ['063051', 'Ottaviano'],
+  ['063052', 'Palma Campania'],
+  ['063053', 'Piano di Sorrento'],
+  ['063054', 'Pimonte'],
+  ['063055', 'Poggiomarino'],
+  ['063056', 'Pollena Trocchia'],
+  ['063057', "Pomigliano d'Arco"],
+  ['063058', 'Pompei'],
+  ['063059', 'Portici'],
+  ['063060', 'Pozzuoli'],
+  ['063061', 'Procida'],
+  ['063062', 'Qualiano'],
+  ['063063', 'Quarto'],
+  ['063064', 'Ercolano'],
+  ['063065', 'Roccarainola'],
+  ['063066', 'San Gennaro Vesuviano'],
+  ['063067', 'San Giorgio a Cremano'],
+  ['063068', 'San Giuseppe Vesuviano'],
+  ['063069', 'San Paolo Bel Sito'],
+  ['063070', 'San Sebastiano al Vesuvio'],
+  ['063071', "Sant'Agnello"],
+  ['063072', "Sant'Anastasia"],
+  ['063073', "Sant'Antimo"],
+  ['063074', "Sant'Antonio Abate"],
+  ['063075', 'San Vitaliano'],
+  ['063076', 'Saviano'],
+  ['063077', 'Scisciano'],
+  ['063078', 'Serrara Fontana'],
+  ['063079', 'Somma Vesuviana'],
+  ['063080', 'Sorrento'],
+  ['063081', 'Striano'],
+  ['063082', 'Terzigno'],
+  ['063083', 'Torre Annunziata'],
+  ['063084', 'Torre del Greco'],
+  ['063085', 'Tufino'],
+  ['063086', 'Vico Equense'],
+  ['063087', 'Villaricca'],
+  ['063088', 'Visciano'],
+  ['063089', 'Volla'],
+  ['063090', 'Santa Maria la Carità'],
+  ['063091', 'Trecase'],
+  ['063092', 'Massa di Somma'],
+  ['064001', 'Aiello del Sabato'],
+  ['064002', 'Altavilla Irpina'],
+  ['064003', 'Andretta'],
+  ['064004', 'Aquilonia'],
+  ['064005', 'Ariano Irpino'],
+  ['064006', 'Atripalda'],
+  ['064007', 'Avella'],
+  ['064008', 'Avellino'],
+  ['064009', 'Bagnoli Irpino'],
+  ['064010', 'Baiano'],
+  ['064011', 'Bisaccia'],
+  ['064012', 'Bonito'],
+  ['064013', 'Cairano'],
+  ['064014', 'Calabritto'],
+  ['064015', 'Calitri'],
+  ['064016', 'Candida'],
+  ['064017', 'Caposele'],
+  ['064018', 'Capriglia Irpina'],
+  ['064019', 'Carife'],
+  ['064020', 'Casalbore'],
+  ['064021', 'Cassano Irpino'],
+  ['064022', 'Castel Baronia'],
+  ['064023', 'Castelfranci'],
+  ['064024', 'Castelvetere sul Calore'],
+  ['064025', 'Cervinara'],
+  ['064026', 'Cesinali'],
+  ['064027', 'Chianche'],
+  ['064028', 'Chiusano di San Domenico'],
+  ['064029', 'Contrada'],
+  ['064030', 'Conza della Campania'],
+  ['064031', 'Domicella'],
+  ['064032', 'Flumeri'],
+  ['064033', 'Fontanarosa'],
+  ['064034', 'Forino'],
+  ['064035', 'Frigento'],
+  ['064036', 'Gesualdo'],
+  ['064037', 'Greci'],
+  ['064038', 'Grottaminarda'],
+  ['064039', 'Grottolella'],
+  ['064040', 'Guardia Lombardi'],
+  ['064041', 'Lacedonia'],
+  ['064042', 'Lapio'],
+  ['064043', 'Lauro'],
+  ['064044', 'Lioni'],
+  ['064045', 'Luogosano'],
+  ['064046', 'Manocalzati'],
+  ['064047', 'Marzano di Nola'],
+  ['064048', 'Melito Irpino'],
+  ['064049', 'Mercogliano'],
+  ['064050', 'Mirabella Eclano'],
+  ['064051', 'Montaguto'],
+  ['064052', 'Montecalvo Irpino'],
+  ['064053', 'Montefalcione'],
+  ['064054', 'Monteforte Irpino'],
+  ['064055', 'Montefredane'],
+  ['064056', 'Montefusco'],
+  ['064057', 'Montella'],
+  ['064058', 'Montemarano'],
+  ['064059', 'Montemiletto'],
+  ['064060', 'Monteverde'],
+  ['064063', 'Morra De Sanctis'],
+  ['064064', 'Moschiano'],
+  ['064065', 'Mugnano del Cardinale'],
+  ['064066', 'Nusco'],
+  ['064067', "Ospedaletto d'Alpinolo"],
+  ['064068', 'Pago del Vallo di Lauro'],
+  ['064069', 'Parolise'],
+  ['064070', 'Paternopoli'],
+  ['064071', 'Petruro Irpino'],
+  ['064072', 'Pietradefusi'],
+  ['064073', 'Pietrastornina'],
+  ['064074', 'Prata di Principato Ultra'],
+  ['064075', 'Pratola Serra'],
+  ['064076', 'Quadrelle'],
+  ['064077', 'Quindici'],
+  ['064078', 'Roccabascerana'],
+  ['064079', 'Rocca San Felice'],
+  ['064080', 'Rotondi'],
+  ['064081', 'Salza Irpina'],
+  ['064082', 'San Mango sul Calore'],
+  ['064083', 'San Martino Valle Caudina'],
+  ['064084', 'San Michele di Serino'],
+  ['064085', 'San Nicola Baronia'],
+  ['064086', 'San Potito Ultra'],
+  ['064087', 'San Sossio Baronia'],
+  ['064088', 'Santa Lucia di Serino'],
+  ['064089', "Sant'Andrea di Conza"],
+  ['064090', "Sant'Angelo all'Esca"],
+  ['064091', "Sant'Angelo a Scala"],
+  ['064092', "Sant'Angelo dei Lombardi"],
+  ['064093', 'Santa Paolina'],
+  ['064095', 'Santo Stefano del Sole'],
+  ['064096', 'Savignano Irpino'],
+  ['064097', 'Scampitella'],
+  ['064098', 'Senerchia'],
+  ['064099', 'Serino'],
+  ['064100', 'Sirignano'],
+  ['064101', 'Solofra'],
+  ['064102', 'Sorbo Serpico'],
+  ['064103', 'Sperone'],
+  ['064104', 'Sturno'],
+  ['064105', 'Summonte'],
+  ['064106', 'Taurano'],
+  ['064107', 'Taurasi'],
+  ['064108', 'Teora'],
+  ['064109', 'Torella dei Lombardi'],
+  ['064110', 'Torre Le Nocelle'],
+  ['064111', 'Torrioni'],
+  ['064112', 'Trevico'],
+  ['064113', 'Tufo'],
+  ['064114', 'Vallata'],
+  ['064115', 'Vallesaccarda'],
+  ['064116', 'Venticano'],
+  ['064117', 'Villamaina'],
+  ['064118', 'Villanova del Battista'],
+  ['064119', 'Volturara Irpina'],
+  ['064120', 'Zungoli'],
+  ['064121', 'Montoro'],
+  ['065001', 'Acerno'],
+  ['065002', 'Agropoli'],
+  ['065003', 'Albanella'],
+  ['065004', 'Alfano'],
+  ['065005', 'Altavilla Silentina'],
+  ['065006', 'Amalfi'],
+  ['065007', 'Angri'],
+  ['065008', 'Aquara'],
+  ['065009', 'Ascea'],
+  ['065010', 'Atena Lucana'],
+  ['065011', 'Atrani'],
+  ['065012', 'Auletta'],
+  ['065013', 'Baronissi'],
+  ['065014', 'Battipaglia'],
+  ['065015', 'Bellosguardo'],
+  ['065016', 'Bracigliano'],
+  ['065017', 'Buccino'],
+  ['065018', 'Buonabitacolo'],
+  ['065019', 'Caggiano'],
+  ['065020', 'Calvanico'],
+  ['065021', 'Camerota'],
+  ['065022', 'Campagna'],
+  ['065023', 'Campora'],
+  ['065024', 'Cannalonga'],
+  ['065025', 'Capaccio Paestum'],
+  ['065026', 'Casalbuono'],
+  ['065027', 'Casaletto Spartano'],
+  ['065028', 'Casal Velino'],
+  ['065029', 'Caselle in Pittari'],
+  ['065030', 'Castelcivita'],
+  ['065031', 'Castellabate'],
+  ['065032', 'Castelnuovo Cilento'],
+  ['065033', 'Castelnuovo di Conza'],
+  ['065034', 'Castel San Giorgio'],
+  ['065035', 'Castel San Lorenzo'],
+  ['065036', 'Castiglione del Genovesi'],
+  ['065037', "Cava de' Tirreni"],
+  ['065038', 'Celle di Bulgheria'],
+  ['065039', 'Centola'],
+  ['065040', 'Ceraso'],
+  ['065041', 'Cetara'],
+  ['065042', 'Cicerale'],
+  ['065043', 'Colliano'],
+  ['065044', 'Conca dei Marini'],
+  ['065045', 'Controne'],
+  ['065046', 'Contursi Terme'],
+  ['065047', 'Corbara'],
+  ['065048', 'Corleto Monforte'],
+  ['065049', 'Cuccaro Vetere'],
+  ['065050', 'Eboli'],
+  ['065051', 'Felitto'],
+  ['065052', 'Fisciano'],
+  ['065053', 'Furore'],
+  ['065054', 'Futani'],
+  ['065055', 'Giffoni Sei Casali'],
+  ['065056', 'Giffoni Valle Piana'],
+  ['065057', 'Gioi'],
+  ['065058', 'Giungano'],
+  ['065059', 'Ispani'],
+  ['065060', 'Laureana Cilento'],
+  ['065061', 'Laurino'],
+  ['065062', 'Laurito'],
+  ['065063', 'Laviano'],
+  ['065064', 'Lustra'],
+  ['065065', 'Magliano Vetere'],
+  ['065066', 'Maiori'],
+  ['065067', 'Mercato San Severino'],
+  ['065068', 'Minori'],
+  ['065069', 'Moio della Civitella'],
+  ['065070', 'Montano Antilia'],
+  ['065071', 'Montecorice'],
+  ['065072', 'Montecorvino Pugliano'],
+  ['065073', 'Montecorvino Rovella'],
+  ['065074', 'Monteforte Cilento'],
+  ['065075', 'Monte San Giacomo'],
+  ['065076', 'Montesano sulla Marcellana'],
+  ['065077', 'Morigerati'],
+  ['065078', 'Nocera Inferiore'],
+  ['065079', 'Nocera Superiore'],
+  ['065080', 'Novi Velia'],
+  ['065081', 'Ogliastro Cilento'],
+  ['065082', 'Olevano sul Tusciano'],
+  ['065083', 'Oliveto Citra'],
+  ['065084', 'Omignano'],
+  ['065085', 'Orria'],
+  ['065086', 'Ottati'],
+  ['065087', 'Padula'],
+  ['065088', 'Pagani'],
+  ['065089', 'Palomonte'],
+  ['065090', 'Pellezzano'],
+  ['065091', 'Perdifumo'],
+  ['065092', 'Perito'],
+  ['065093', 'Pertosa'],
+  ['065094', 'Petina'],
+  ['065095', 'Piaggine'],
+  ['065096', 'Pisciotta'],
+  ['065097', 'Polla'],
+  ['065098', 'Pollica'],
+  ['065099', 'Pontecagnano Faiano'],
+  ['065100', 'Positano'],
+  ['065101', 'Postiglione'],
+  ['065102', 'Praiano'],
+  ['065103', 'Prignano Cilento'],
+  ['065104', 'Ravello'],
+  ['065105', 'Ricigliano'],
+  ['065106', 'Roccadaspide'],
+  ['065107', 'Roccagloriosa'],
+  ['065108', 'Roccapiemonte'],
+  ['065109', 'Rofrano'],
+  ['065110', 'Romagnano al Monte'],
+  ['065111', 'Roscigno'],
+  ['065112', 'Rutino'],
+  ['065113', 'Sacco'],
+  ['065114', 'Sala Consilina'],
+  ['065115', 'Salento'],
+  ['065116', 'Salerno'],
+  ['065117', 'Salvitelle'],
+  ['065118', 'San Cipriano Picentino'],
+  ['065119', 'San Giovanni a Piro'],
+  ['065120', 'San Gregorio Magno'],
+  ['065121', 'San Mango Piemonte'],
+  ['065122', 'San Marzano sul Sarno'],
+  ['065123', 'San Mauro Cilento'],
+  ['065124', 'San Mauro la Bruca'],
+  ['065125', 'San Pietro al Tanagro'],
+  ['065126', 'San Rufo'],
+  ['065127', 'Santa Marina'],
+  ['065128', "Sant'Angelo a Fasanella"],
+  ['065129', "Sant'Arsenio"],
+  ['065130', "Sant'Egidio del Monte Albino"],
+  ['065131', 'Santomenna'],
+  ['065132', 'San Valentino Torio'],
+  ['065133', 'Sanza'],
+  ['065134', 'Sapri'],
+  ['065135', 'Sarno'],
+  ['065136', 'Sassano'],
+  ['065137', 'Scafati'],
+  ['065138', 'Scala'],
+  ['065139', 'Serramezzana'],
+  ['065140', 'Serre'],
+  ['065141', 'Sessa Cilento'],
+  ['065142', 'Siano'],
+  ['065143', 'Sicignano degli Alburni'],
+  ['065144', 'Stella Cilento'],
+  ['065145', 'Stio'],
+  ['065146', 'Teggiano'],
+  ['065147', 'Torchiara'],
+  ['065148', 'Torraca'],
+  ['065149', 'Torre Orsaia'],
+  ['065150', 'Tortorella'],
+  ['065151', 'Tramonti'],
+  ['065152', 'Trentinara'],
+  ['065153', "Valle dell'Angelo"],
+  ['065154', 'Vallo della Lucania'],
+  ['065155', 'Valva'],
+  ['065156', 'Vibonati'],
+  ['065157', 'Vietri sul Mare'],
+  ['065158', 'Bellizzi'],
+  ['066001', 'Acciano'],
+  ['066002', 'Aielli'],
+  ['066003', 'Alfedena'],
+  ['066004', 'Anversa degli Abruzzi'],
+  ['066005', 'Ateleta'],
+  ['066006', 'Avezzano'],
+  ['066007', 'Balsorano'],
+  ['066008', 'Barete'],
+  ['066009', 'Barisciano'],
+  ['066010', 'Barrea'],
+  ['066011', 'Bisegna'],
+  ['066012', 'Bugnara'],
+  ['066013', 'Cagnano Amiterno'],
+  ['066014', 'Calascio'],
+  ['066015', 'Campo di Giove'],
+  ['066016', 'Campotosto'],
+  ['066017', 'Canistro'],
+  ['066018', 'Cansano'],
+  ['066019', 'Capestrano'],
+  ['066020', 'Capistrello'],
+  ['066021', 'Capitignano'],
+  ['066022', 'Caporciano'],
+  ['066023', 'Cappadocia'],
+  ['066024', 'Carapelle Calvisio'],
+  ['066025', 'Carsoli'],
+  ['066026', 'Castel del Monte'],
+  ['066027', 'Castel di Ieri'],
+  ['066028', 'Castel di Sangro'],
+  ['066029', 'Castellafiume'],
+  ['066030', 'Castelvecchio Calvisio'],
+  ['066031', 'Castelvecchio Subequo'],
+  ['066032', 'Celano'],
+  ['066033', 'Cerchio'],
+  ['066034', "Civita d'Antino"],
+  ['066035', 'Civitella Alfedena'],
+  ['066036', 'Civitella Roveto'],
+  ['066037', 'Cocullo'],
+  ['066038', 'Collarmele'],
+  ['066039', 'Collelongo'],
+  ['066040', 'Collepietro'],
+  ['066041', 'Corfinio'],
+  ['066042', 'Fagnano Alto'],
+  ['066043', 'Fontecchio'],
+  ['066044', 'Fossa'],
+  ['066045', 'Gagliano Aterno'],
+  ['066046', 'Gioia dei Marsi'],
+  ['066047', 'Goriano Sicoli'],
+  ['066048', 'Introdacqua'],
+  ['066049', "L'Aquila"],
+  ['066050', 'Lecce nei Marsi'],
+  ['066051', 'Luco dei Marsi'],
+  ['066052', 'Lucoli'],
+  ['066053', "Magliano de' Marsi"],
+  ['066054', "Massa d'Albe"],
+  ['066055', 'Molina Aterno'],
+  ['066056', 'Montereale'],
+  ['066057', 'Morino'],
+  ['066058', 'Navelli'],
+  ['066059', 'Ocre'],
+  ['066060', 'Ofena'],
+  ['066061', 'Opi'],
+  ['066062', 'Oricola'],
+  ['066063', 'Ortona dei Marsi'],
+  ['066064', 'Ortucchio'],
+  ['066065', 'Ovindoli'],
+  ['066066', 'Pacentro'],
+  ['066067', 'Pereto'],
+  ['066068', 'Pescasseroli'],
+  ['066069', 'Pescina'],
+  ['066070', 'Pescocostanzo'],
+  ['066071', 'Pettorano sul Gizio'],
+  ['066072', 'Pizzoli'],
+  ['066073', 'Poggio Picenze'],
+  ['066074', "Prata d'Ansidonia"],
+  ['066075', 'Pratola Peligna'],
+  ['066076', 'Prezza'],
+  ['066077', 'Raiano'],
+  ['066078', 'Rivisondoli'],
+  ['066079', 'Roccacasale'],
+  ['066080', 'Rocca di Botte'],
+  ['066081', 'Rocca di Cambio'],
+  ['066082', 'Rocca di Mezzo'],
+  ['066083', 'Rocca Pia'],
+  ['066084', 'Roccaraso'],
+  ['066085', 'San Benedetto dei Marsi'],
+  ['066086', 'San Benedetto in Perillis'],
+  ['066087', "San Demetrio ne' Vestini"],
+  ['066088', 'San Pio delle Camere'],
+  ['066089', 'Sante Marie'],
+  ['066090', "Sant'Eusanio Forconese"],
+  ['066091', 'Santo Stefano di Sessanio'],
+  ['066092', 'San Vincenzo Valle Roveto'],
+  ['066093', 'Scanno'],
+  ['066094', 'Scontrone'],
+  ['066095', 'Scoppito'],
+  ['066096', 'Scurcola Marsicana'],
+  ['066097', 'Secinaro'],
+  ['066098', 'Sulmona'],
+  ['066099', 'Tagliacozzo'],
+  ['066100', 'Tione degli Abruzzi'],
+  ['066101', 'Tornimparte'],
+  ['066102', 'Trasacco'],
+  ['066103', 'Villalago'],
+  ['066104', 'Villa Santa Lucia degli Abruzzi'],
+  ['066105', "Villa Sant'Angelo"],
+  ['066106', 'Villavallelonga'],
+  ['066107', 'Villetta Barrea'],
+  ['066108', 'Vittorito'],
+  ['067001', 'Alba Adriatica'],
+  ['067002', 'Ancarano'],
+  ['067003', 'Arsita'],
+  ['067004', 'Atri'],
+  ['067005', 'Basciano'],
+  ['067006', 'Bellante'],
+  ['067007', 'Bisenti'],
+  ['067008', 'Campli'],
+  ['067009', 'Canzano'],
+  ['067010', 'Castel Castagna'],
+  ['067011', 'Castellalto'],
+  ['067012', 'Castelli'],
+  ['067013', 'Castiglione Messer Raimondo'],
+  ['067014', 'Castilenti'],
+  ['067015', 'Cellino Attanasio'],
+  ['067016', 'Cermignano'],
+  ['067017', 'Civitella del Tronto'],
+  ['067018', 'Colledara'],
+  ['067019', 'Colonnella'],
+  ['067020', 'Controguerra'],
+  ['067021', 'Corropoli'],
+  ['067022', 'Cortino'],
+  ['067023', 'Crognaleto'],
+  ['067024', 'Fano Adriano'],
+  ['067025', 'Giulianova'],
+  ['067026', "Isola del Gran Sasso d'Italia"],
+  ['067027', 'Montefino'],
+  ['067028', 'Montorio al Vomano'],
+  ['067029', "Morro d'Oro"],
+  ['067030', "Mosciano Sant'Angelo"],
+  ['067031', 'Nereto'],
+  ['067032', 'Notaresco'],
+  ['067033', "Penna Sant'Andrea"],
+  ['067034', 'Pietracamela'],
+  ['067035', 'Pineto'],
+  ['067036', 'Rocca Santa Maria'],
+  ['067037', 'Roseto degli Abruzzi'],
+  ['067038', "Sant'Egidio alla Vibrata"],
+  ['067039', "Sant'Omero"],
+  ['067040', 'Silvi'],
+  ['067041', 'Teramo'],
+  ['067042', 'Torano Nuovo'],
+  ['067043', 'Torricella Sicura'],
+  ['067044', 'Tortoreto'],
+  ['067045', 'Tossicia'],
+  ['067046', 'Valle Castellana'],
+  ['067047', 'Martinsicuro'],
+  ['068001', 'Abbateggio'],
+  ['068002', 'Alanno'],
+  ['068003', 'Bolognano'],
+  ['068004', 'Brittoli'],
+  ['068005', 'Bussi sul Tirino'],
+  ['068006', 'Cappelle sul Tavo'],
+  ['068007', 'Caramanico Terme'],
+  ['068008', 'Carpineto della Nora'],
+  ['068009', 'Castiglione a Casauria'],
+  ['068010', 'Catignano'],
+  ['068011', 'Cepagatti'],
+  ['068012', "Città Sant'Angelo"],
+  ['068013', 'Civitaquana'],
+  ['068014', 'Civitella Casanova'],
+  ['068015', 'Collecorvino'],
+  ['068016', 'Corvara'],
+  ['068017', 'Cugnoli'],
+  ['068018', 'Elice'],
+  ['068019', 'Farindola'],
+  ['068020', 'Lettomanoppello'],
+  ['068021', 'Loreto Aprutino'],
+  ['068022', 'Manoppello'],
+  ['068023', 'Montebello di Bertona'],
+  ['068024', 'Montesilvano'],
+  ['068025', 'Moscufo'],
+  ['068026', 'Nocciano'],
+  ['068027', 'Penne'],
+  ['068028', 'Pescara'],
+  ['068029', 'Pescosansonesco'],
+  ['068030', 'Pianella'],
+  ['068031', 'Picciano'],
+  ['068032', 'Pietranico'],
+  ['068033', 'Popoli'],
+  ['068034', 'Roccamorice'],
+  ['068035', 'Rosciano'],
+  ['068036', 'Salle'],
+  ['068037', "Sant'Eufemia a Maiella"],
+  ['068038', 'San Valentino in Abruzzo Citeriore'],
+  ['068039', 'Scafa'],
+  ['068040', 'Serramonacesca'],
+  ['068041', 'Spoltore'],
+  ['068042', 'Tocco da Casauria'],
+  ['068043', "Torre de' Passeri"],
+  ['068044', 'Turrivalignani'],
+  ['068045', 'Vicoli'],
+  ['068046', 'Villa Celiera'],
+  ['069001', 'Altino'],
+  ['069002', 'Archi'],
+  ['069003', 'Ari'],
+  ['069004', 'Arielli'],
+  ['069005', 'Atessa'],
+  ['069006', 'Bomba'],
+  ['069007', 'Borrello'],
+  ['069008', 'Bucchianico'],
+  ['069009', 'Montebello sul Sangro'],
+  ['069010', 'Canosa Sannita'],
+  ['069011', 'Carpineto Sinello'],
+  ['069012', 'Carunchio'],
+  ['069013', 'Casacanditella'],
+  ['069014', 'Casalanguida'],
+  ['069015', 'Casalbordino'],
+  ['069016', 'Casalincontrada'],
+  ['069017', 'Casoli'],
+  ['069018', 'Castel Frentano'],
+  ['069019', 'Castelguidone'],
+  ['069020', 'Castiglione Messer Marino'],
+  ['069021', 'Celenza sul Trigno'],
+  ['069022', 'Chieti'],
+  ['069023', 'Civitaluparella'],
+  ['069024', 'Civitella Messer Raimondo'],
+  ['069025', 'Colledimacine'],
+  ['069026', 'Colledimezzo'],
+  ['069027', 'Crecchio'],
+  ['069028', 'Cupello'],
+  ['069029', 'Dogliola'],
+  ['069030', 'Fara Filiorum Petri'],
+  ['069031', 'Fara San Martino'],
+  ['069032', 'Filetto'],
+  ['069033', 'Fossacesia'],
+  ['069034', 'Fraine'],
+  ['069035', 'Francavilla al Mare'],
+  ['069036', 'Fresagrandinaria'],
+  ['069037', 'Frisa'],
+  ['069038', 'Furci'],
+  ['069039', 'Gamberale'],
+  ['069040', 'Gessopalena'],
+  ['069041', 'Gissi'],
+  ['069042', 'Giuliano Teatino'],
+  ['069043', 'Guardiagrele'],
+  ['069044', 'Guilmi'],
+  ['069045', 'Lama dei Peligni'],
+  ['069046', 'Lanciano'],
+  ['069047', 'Lentella'],
+  ['069048', 'Lettopalena'],
+  ['069049', 'Liscia'],
+  ['069050', 'Miglianico'],
+  ['069051', 'Montazzoli'],
+  ['069052', 'Monteferrante'],
+  ['069053', 'Montelapiano'],
+  ['069054', 'Montenerodomo'],
+  ['069055', 'Monteodorisio'],
+  ['069056', 'Mozzagrogna'],
+  ['069057', 'Orsogna'],
+  ['069058', 'Ortona'],
+  ['069059', 'Paglieta'],
+  ['069060', 'Palena'],
+  ['069061', 'Palmoli'],
+  ['069062', 'Palombaro'],
+  ['069063', 'Pennadomo'],
+  ['069064', 'Pennapiedimonte'],
+  ['069065', 'Perano'],
+  ['069066', 'Pizzoferrato'],
+  ['069067', 'Poggiofiorito'],
+  ['069068', 'Pollutri'],
+  ['069069', 'Pretoro'],
+  ['069070', 'Quadri'],
+  ['069071', 'Rapino'],
+  ['069072', 'Ripa Teatina'],
+  ['069073', 'Roccamontepiano'],
+  ['069074', 'Rocca San Giovanni'],
+  ['069075', 'Roccascalegna'],
+  ['069076', 'Roccaspinalveti'],
+  ['069077', 'Roio del Sangro'],
+  ['069078', 'Rosello'],
+  ['069079', 'San Buono'],
+  ['069080', 'San Giovanni Lipioni'],
+  ['069081', 'San Giovanni Teatino'],
+  ['069082', 'San Martino sulla Marrucina'],
+  ['069083', 'San Salvo'],
+  ['069084', 'Santa Maria Imbaro'],
+  ['069085', "Sant'Eusanio del Sangro"],
+  ['069086', 'San Vito Chietino'],
+  ['069087', 'Scerni'],
+  ['069088', 'Schiavi di Abruzzo'],
+  ['069089', 'Taranta Peligna'],
+  ['069090', 'Tollo'],
+  ['069091', 'Torino di Sangro'],
+  ['069092', 'Tornareccio'],
+  ['069093', 'Torrebruna'],
+  ['069094', 'Torrevecchia Teatina'],
+  ['069095', 'Torricella Peligna'],
+  ['069096', 'Treglio'],
+  ['069097', 'Tufillo'],
+  ['069098', 'Vacri'],
+  ['069099', 'Vasto'],
+  ['069100', 'Villalfonsina'],
+  ['069101', 'Villamagna'],
+  ['069102', 'Villa Santa Maria'],
+  ['069103', 'Pietraferrazzana'],
+  ['069104', 'Fallo'],
+  ['070001', 'Acquaviva Collecroce'],
+  ['070002', 'Baranello'],
+  ['070003', 'Bojano'],
+  ['070004', 'Bonefro'],
+  ['070005', 'Busso'],
+  ['070006', 'Campobasso'],
+  ['070007', 'Campochiaro'],
+  ['070008', 'Campodipietra'],
+  ['070009', 'Campolieto'],
+  ['070010', 'Campomarino'],
+  ['070011', 'Casacalenda'],
+  ['070012', 'Casalciprano'],
+  ['070013', 'Castelbottaccio'],
+  ['070014', 'Castellino del Biferno'],
+  ['070015', 'Castelmauro'],
+  ['070016', 'Castropignano'],
+  ['070017', 'Cercemaggiore'],
+  ['070018', 'Cercepiccola'],
+  ['070019', 'Civitacampomarano'],
+  ['070020', "Colle d'Anchise"],
+  ['070021', 'Colletorto'],
+  ['070022', 'Duronia'],
+  ['070023', 'Ferrazzano'],
+  ['070024', 'Fossalto'],
+  ['070025', 'Gambatesa'],
+  ['070026', 'Gildone'],
+  ['070027', 'Guardialfiera'],
+  ['070028', 'Guardiaregia'],
+  ['070029', 'Guglionesi'],
+  ['070030', 'Jelsi'],
+  ['070031', 'Larino'],
+  ['070032', 'Limosano'],
+  ['070033', 'Lucito'],
+  ['070034', 'Lupara'],
+  ['070035', 'Macchia Valfortore'],
+  ['070036', 'Mafalda'],
+  ['070037', 'Matrice'],
+  ['070038', 'Mirabello Sannitico'],
+  ['070039', 'Molise'],
+  ['070040', 'Monacilioni'],
+  ['070041', 'Montagano'],
+  ['070042', 'Montecilfone'],
+  ['070043', 'Montefalcone nel Sannio'],
+  ['070044', 'Montelongo'],
+  ['070045', 'Montemitro'],
+  ['070046', 'Montenero di Bisaccia'],
+  ['070047', 'Montorio nei Frentani'],
+  ['070048', 'Morrone del Sannio'],
+  ['070049', 'Oratino'],
+  ['070050', 'Palata'],
+  ['070051', 'Petacciato'],
+  ['070052', 'Petrella Tifernina'],
+  ['070053', 'Pietracatella'],
+  ['070054', 'Pietracupa'],
+  ['070055', 'Portocannone'],
+  ['070056', 'Provvidenti'],
+  ['070057', 'Riccia'],
+  ['070058', 'Ripabottoni'],
+  ['070059', 'Ripalimosani'],
+  ['070060', 'Roccavivara'],
+  ['070061', 'Rotello'],
+  ['070062', 'Salcito'],
+  ['070063', 'San Biase'],
+  ['070064', 'San Felice del Molise'],
+  ['070065', 'San Giacomo degli Schiavoni'],
+  ['070066', 'San Giovanni in Galdo'],
+  ['070067', 'San Giuliano del Sannio'],
+  ['070068', 'San Giuliano di Puglia'],
+  ['070069', 'San Martino in Pensilis'],
+  ['070070', 'San Massimo'],
+  ['070071', 'San Polo Matese'],
+  ['070072', 'Santa Croce di Magliano'],
+  ['070073', "Sant'Angelo Limosano"],
+  ['070074', "Sant'Elia a Pianisi"],
+  ['070075', 'Sepino'],
+  ['070076', 'Spinete'],
+  ['070077', 'Tavenna'],
+  ['070078', 'Termoli'],
+  ['070079', 'Torella del Sannio'],
+  ['070080', 'Toro'],
+  ['070081', 'Trivento'],
+  ['070082', 'Tufara'],
+  ['070083', 'Ururi'],
+  ['070084', 'Vinchiaturo'],
+  ['071001', 'Accadia'],
+  ['071002', 'Alberona'],
+  ['071003', 'Anzano di Puglia'],
+  ['071004', 'Apricena'],
+  ['071005', 'Ascoli Satriano'],
+  ['071006', 'Biccari'],
+  ['071007', 'Bovino'],
+  ['071008', 'Cagnano Varano'],
+  ['071009', 'Candela'],
+  ['071010', 'Carapelle'],
+  ['071011', 'Carlantino'],
+  ['071012', 'Carpino'],
+  ['071013', 'Casalnuovo Monterotaro'],
+  ['071014', 'Casalvecchio di Puglia'],
+  ['071015', 'Castelluccio dei Sauri'],
+  ['071016', 'Castelluccio Valmaggiore'],
+  ['071017', 'Castelnuovo della Daunia'],
+  ['071018', 'Celenza Valfortore'],
+  ['071019', 'Celle di San Vito'],
+  ['071020', 'Cerignola'],
+  ['071021', 'Chieuti'],
+  ['071022', 'Deliceto'],
+  ['071023', 'Faeto'],
+  ['071024', 'Foggia'],
+  ['071025', 'Ischitella'],
+  ['071026', 'Isole Tremiti'],
+  ['071027', 'Lesina'],
+  ['071028', 'Lucera'],
+  ['071029', 'Manfredonia'],
+  ['071031', 'Mattinata'],
+  ['071032', 'Monteleone di Puglia'],
+  ['071033', "Monte Sant'Angelo"],
+  ['071034', 'Motta Montecorvino'],
+  ['071035', 'Orsara di Puglia'],
+  ['071036', 'Orta Nova'],
+  ['071037', 'Panni'],
+  ['071038', 'Peschici'],
+  ['071039', 'Pietramontecorvino'],
+  ['071040', 'Poggio Imperiale'],
+  ['071041', 'Rignano Garganico'],
+  ['071042', "Rocchetta Sant'Antonio"],
+  ['071043', 'Rodi Garganico'],
+  ['071044', 'Roseto Valfortore'],
+  ['071046', 'San Giovanni Rotondo'],
+  ['071047', 'San Marco in Lamis'],
+  ['071048', 'San Marco la Catola'],
+  ['071049', 'San Nicandro Garganico'],
+  ['071050', 'San Paolo di Civitate'],
+  ['071051', 'San Severo'],
+  ['071052', "Sant'Agata di Puglia"],
+  ['071053', 'Serracapriola'],
+  ['071054', 'Stornara'],
+  ['071055', 'Stornarella'],
+  ['071056', 'Torremaggiore'],
+  ['071058', 'Troia'],
+  ['071059', 'Vico del Gargano'],
+  ['071060', 'Vieste'],
+  ['071061', 'Volturara Appula'],
+  ['071062', 'Volturino'],
+  ['071063', 'Ordona'],
+  ['071064', 'Zapponeta'],
+  ['072001', 'Acquaviva delle Fonti'],
+  ['072002', 'Adelfia'],
+  ['072003', 'Alberobello'],
+  ['072004', 'Altamura'],
+  ['072006', 'Bari'],
+  ['072008', 'Binetto'],
+  ['072010', 'Bitetto'],
+  ['072011', 'Bitonto'],
+  ['072012', 'Bitritto'],
+  ['072014', 'Capurso'],
+  ['072015', 'Casamassima'],
+  ['072016', 'Cassano delle Murge'],
+  ['072017', 'Castellana Grotte'],
+  ['072018', 'Cellamare'],
+  ['072019', 'Conversano'],
+  ['072020', 'Corato'],
+  ['072021', 'Gioia del Colle'],
+  ['072022', 'Giovinazzo'],
+  ['072023', 'Gravina in Puglia'],
+  ['072024', 'Grumo Appula'],
+  ['072025', 'Locorotondo'],
+  ['072027', 'Modugno'],
+  ['072028', 'Mola di Bari'],
+  ['072029', 'Molfetta'],
+  ['072030', 'Monopoli'],
+  ['072031', 'Noci'],
+  ['072032', 'Noicattaro'],
+  ['072033', 'Palo del Colle'],
+  ['072034', 'Poggiorsini'],
+  ['072035', 'Polignano a Mare'],
+  ['072036', 'Putignano'],
+  ['072037', 'Rutigliano'],
+  ['072038', 'Ruvo di Puglia'],
+  ['072039', 'Sammichele di Bari'],
+  ['072040', 'Sannicandro di Bari'],
+  ['072041', 'Santeramo in Colle'],
+  ['072043', 'Terlizzi'],
+  ['072044', 'Toritto'],
+  ['072046', 'Triggiano'],
+  ['072047', 'Turi'],
+  ['072048', 'Valenzano'],
+  ['073001', 'Avetrana'],
+  ['073002', 'Carosino'],
+  ['073003', 'Castellaneta'],
+  ['073004', 'Crispiano'],
+  ['073005', 'Faggiano'],
+  ['073006', 'Fragagnano'],
+  ['073007', 'Ginosa'],
+  ['073008', 'Grottaglie'],
+  ['073009', 'Laterza'],
+  ['073010', 'Leporano'],
+  ['073011', 'Lizzano'],
+  ['073012', 'Manduria'],
+  ['073013', 'Martina Franca'],
+  ['073014', 'Maruggio'],
+  ['073015', 'Massafra'],
+  ['073016', 'Monteiasi'],
+  ['073017', 'Montemesola'],
+  ['073018', 'Monteparano'],
+  ['073019', 'Mottola'],
+  ['073020', 'Palagianello'],
+  ['073021', 'Palagiano'],
+  ['073022', 'Pulsano'],
+  ['073023', 'Roccaforzata'],
+  ['073024', 'San Giorgio Ionico'],
+  ['073025', 'San Marzano di San Giuseppe'],
+  ['073026', 'Sava'],
+  ['073027', 'Taranto'],
+  ['073028', 'Torricella'],
+  ['073029', 'Statte'],
+  ['074001', 'Brindisi'],
+  ['074002', 'Carovigno'],
+  ['074003', 'Ceglie Messapica'],
+  ['074004', 'Cellino San Marco'],
+  ['074005', 'Cisternino'],
+  ['074006', 'Erchie'],
+  ['074007', 'Fasano'],
+  ['074008', 'Francavilla Fontana'],
+  ['074009', 'Latiano'],
+  ['074010', 'Mesagne'],
+  ['074011', 'Oria'],
+  ['074012', 'Ostuni'],
+  ['074013', 'San Donaci'],
+  ['074014', 'San Michele Salentino'],
+  ['074015', 'San Pancrazio Salentino'],
+  ['074016', 'San Pietro Vernotico'],
+  ['074017', 'San Vito dei Normanni'],
+  ['074018', 'Torchiarolo'],
+  ['074019', 'Torre Santa Susanna'],
+  ['074020', 'Villa Castelli'],
+  ['075002', 'Alessano'],
+  ['075003', 'Alezio'],
+  ['075004', 'Alliste'],
+  ['075005', 'Andrano'],
+  ['075006', 'Aradeo'],
+  ['075007', 'Arnesano'],
+  ['075008', 'Bagnolo del Salento'],
+  ['075009', 'Botrugno'],
+  ['075010', 'Calimera'],
+  ['075011', 'Campi Salentina'],
+  ['075012', 'Cannole'],
+  ['075013', 'Caprarica di Lecce'],
+  ['075014', 'Carmiano'],
+  ['075015', 'Carpignano Salentino'],
+  ['075016', 'Casarano'],
+  ['075017', 'Castri di Lecce'],
+  ['075018', "Castrignano de' Greci"],
+  ['075019', 'Castrignano del Capo'],
+  ['075020', 'Cavallino'],
+  ['075021', 'Collepasso'],
+  ['075022', 'Copertino'],
+  ['075023', "Corigliano d'Otranto"],
+  ['075024', 'Corsano'],
+  ['075025', 'Cursi'],
+  ['075026', 'Cutrofiano'],
+  ['075027', 'Diso'],
+  ['075028', 'Gagliano del Capo'],
+  ['075029', 'Galatina'],
+  ['075030', 'Galatone'],
+  ['075031', 'Gallipoli'],
+  ['075032', 'Giuggianello'],
+  ['075033', 'Giurdignano'],
+  ['075034', 'Guagnano'],
+  ['075035', 'Lecce'],
+  ['075036', 'Lequile'],
+  ['075037', 'Leverano'],
+  ['075038', 'Lizzanello'],
+  ['075039', 'Maglie'],
+  ['075040', 'Martano'],
+  ['075041', 'Martignano'],
+  ['075042', 'Matino'],
+  ['075043', 'Melendugno'],
+  ['075044', 'Melissano'],
+  ['075045', 'Melpignano'],
+  ['075046', 'Miggiano'],
+  ['075047', 'Minervino di Lecce'],
+  ['075048', 'Monteroni di Lecce'],
+  ['075049', 'Montesano Salentino'],
+  ['075050', 'Morciano di Leuca'],
+  ['075051', 'Muro Leccese'],
+  ['075052', 'Nardò'],
+  ['075053', 'Neviano'],
+  ['075054', 'Nociglia'],
+  ['075055', 'Novoli'],
+  ['075056', 'Ortelle'],
+  ['075057', 'Otranto'],
+  ['075058', 'Palmariggi'],
+  ['075059', 'Parabita'],
+  ['075060', 'Patù'],
+  ['075061', 'Poggiardo'],
+  ['075063', 'Racale'],
+  ['075064', 'Ruffano'],
+  ['075065', 'Salice Salentino'],
+  ['075066', 'Salve'],
+  ['075067', 'Sanarica'],
+  ['075068', 'San Cesario di Lecce'],
+  ['075069', 'San Donato di Lecce'],
+  ['075070', 'Sannicola'],
+  ['075071', 'San Pietro in Lama'],
+  ['075072', 'Santa Cesarea Terme'],
+  ['075073', 'Scorrano'],
+  ['075074', 'Seclì'],
+  ['075075', 'Sogliano Cavour'],
+  ['075076', 'Soleto'],
+  ['075077', 'Specchia'],
+  ['075078', 'Spongano'],
+  ['075079', 'Squinzano'],
+  ['075080', 'Sternatia'],
+  ['075081', 'Supersano'],
+  ['075082', 'Surano'],
+  ['075083', 'Surbo'],
+  ['075084', 'Taurisano'],
+  ['075085', 'Taviano'],
+  ['075086', 'Tiggiano'],
+  ['075087', 'Trepuzzi'],
+  ['075088', 'Tricase'],
+  ['075089', 'Tuglie'],
+  ['075090', 'Ugento'],
+  ['075091', 'Uggiano la Chiesa'],
+  ['075092', 'Veglie'],
+  ['075093', 'Vernole'],
+  ['075094', 'Zollino'],
+  ['075095', 'San Cassiano'],
+  ['075096', 'Castro'],
+  ['075097', 'Porto Cesareo'],
+  ['075098', 'Presicce-Acquarica'],
+  ['076001', 'Abriola'],
+  ['076002', 'Acerenza'],
+  ['076003', 'Albano di Lucania'],
+  ['076004', 'Anzi'],
+  ['076005', 'Armento'],
+  ['076006', 'Atella'],
+  ['076007', 'Avigliano'],
+  ['076008', 'Balvano'],
+  ['076009', 'Banzi'],
+  ['076010', 'Baragiano'],
+  ['076011', 'Barile'],
+  ['076012', 'Bella'],
+  ['076013', 'Brienza'],
+  ['076014', 'Brindisi Montagna'],
+  ['076015', 'Calvello'],
+  ['076016', 'Calvera'],
+  ['076017', 'Campomaggiore'],
+  ['076018', 'Cancellara'],
+  ['076019', 'Carbone'],
+  ['076020', 'San Paolo Albanese'],
+  ['076021', 'Castelgrande'],
+  ['076022', 'Castelluccio Inferiore'],
+  ['076023', 'Castelluccio Superiore'],
+  ['076024', 'Castelmezzano'],
+  ['076025', 'Castelsaraceno'],
+  ['076026', "Castronuovo di Sant'Andrea"],
+  ['076027', 'Cersosimo'],
+  ['076028', 'Chiaromonte'],
+  ['076029', 'Corleto Perticara'],
+  ['076030', 'Episcopia'],
+  ['076031', 'Fardella'],
+  ['076032', 'Filiano'],
+  ['076033', 'Forenza'],
+  ['076034', 'Francavilla in Sinni'],
+  ['076035', 'Gallicchio'],
+  ['076036', 'Genzano di Lucania'],
+  ['076037', 'Grumento Nova'],
+  ['076038', 'Guardia Perticara'],
+  ['076039', 'Lagonegro'],
+  ['076040', 'Latronico'],
+  ['076041', 'Laurenzana'],
+  ['076042', 'Lauria'],
+  ['076043', 'Lavello'],
+  ['076044', 'Maratea'],
+  ['076045', 'Marsico Nuovo'],
+  ['076046', 'Marsicovetere'],
+  ['076047', 'Maschito'],
+  ['076048', 'Melfi'],
+  ['076049', 'Missanello'],
+  ['076050', 'Moliterno'],
+  ['076051', 'Montemilone'],
+  ['076052', 'Montemurro'],
+  ['076053', 'Muro Lucano'],
+  ['076054', 'Nemoli'],
+  ['076055', 'Noepoli'],
+  ['076056', 'Oppido Lucano'],
+  ['076057', 'Palazzo San Gervasio'],
+  ['076058', 'Pescopagano'],
+  ['076059', 'Picerno'],
+  ['076060', 'Pietragalla'],
+  ['076061', 'Pietrapertosa'],
+  ['076062', 'Pignola'],
+  ['076063', 'Potenza'],
+  ['076064', 'Rapolla'],
+  ['076065', 'Rapone'],
+  ['076066', 'Rionero in Vulture'],
+  ['076067', 'Ripacandida'],
+  ['076068', 'Rivello'],
+  ['076069', 'Roccanova'],
+  ['076070', 'Rotonda'],
+  ['076071', 'Ruoti'],
+  ['076072', 'Ruvo del Monte'],
+  ['076073', 'San Chirico Nuovo'],
+  ['076074', 'San Chirico Raparo'],
+  ['076075', 'San Costantino Albanese'],
+  ['076076', 'San Fele'],
+  ['076077', "San Martino d'Agri"],
+  ['076078', 'San Severino Lucano'],
+  ['076079', "Sant'Angelo Le Fratte"],
+  ['076080', "Sant'Arcangelo"],
+  ['076081', 'Sarconi'],
+  ['076082', 'Sasso di Castalda'],
+  ['076083', 'Satriano di Lucania'],
+  ['076084', 'Savoia di Lucania'],
+  ['076085', 'Senise'],
+  ['076086', 'Spinoso'],
+  ['076087', 'Teana'],
+  ['076088', 'Terranova di Pollino'],
+  ['076089', 'Tito'],
+  ['076090', 'Tolve'],
+  ['076091', 'Tramutola'],
+  ['076092', 'Trecchina'],
+  ['076093', 'Trivigno'],
+  ['076094', 'Vaglio Basilicata'],
+  ['076095', 'Venosa'],
+  ['076096', 'Vietri di Potenza'],
+  ['076097', 'Viggianello'],
+  ['076098', 'Viggiano'],
+  ['076099', 'Ginestra'],
+  ['076100', 'Paterno'],
+  ['077001', 'Accettura'],
+  ['077002', 'Aliano'],
+  ['077003', 'Bernalda'],
+  ['077004', 'Calciano'],
+  ['077005', 'Cirigliano'],
+  ['077006', 'Colobraro'],
+  ['077007', 'Craco'],
+  ['077008', 'Ferrandina'],
+  ['077009', 'Garaguso'],
+  ['077010', 'Gorgoglione'],
+  ['077011', 'Grassano'],
+  ['077012', 'Grottole'],
+  ['077013', 'Irsina'],
+  ['077014', 'Matera'],
+  ['077015', 'Miglionico'],
+  ['077016', 'Montalbano Jonico'],
+  ['077017', 'Montescaglioso'],
+  ['077018', 'Nova Siri'],
+  ['077019', 'Oliveto Lucano'],
+  ['077020', 'Pisticci'],
+  ['077021', 'Policoro'],
+  ['077022', 'Pomarico'],
+  ['077023', 'Rotondella'],
+  ['077024', 'Salandra'],
+  ['077025', 'San Giorgio Lucano'],
+  ['077026', 'San Mauro Forte'],
+  ['077027', 'Stigliano'],
+  ['077028', 'Tricarico'],
+  ['077029', 'Tursi'],
+  ['077030', 'Valsinni'],
+  ['077031', 'Scanzano Jonico'],
+  ['078001', 'Acquaformosa'],
+  ['078002', 'Acquappesa'],
+  ['078003', 'Acri'],
+  ['078004', 'Aiello Calabro'],
+  ['078005', 'Aieta'],
+  ['078006', 'Albidona'],
+  ['078007', 'Alessandria del Carretto'],
+  ['078008', 'Altilia'],
+  ['078009', 'Altomonte'],
+  ['078010', 'Amantea'],
+  ['078011', 'Amendolara'],
+  ['078012', 'Aprigliano'],
+  ['078013', 'Belmonte Calabro'],
+  ['078014', 'Belsito'],
+  ['078015', 'Belvedere Marittimo'],
+  ['078016', 'Bianchi'],
+  ['078017', 'Bisignano'],
+  ['078018', 'Bocchigliero'],
+  ['078019', 'Bonifati'],
+  ['078020', 'Buonvicino'],
+  ['078021', 'Calopezzati'],
+  ['078022', 'Caloveto'],
+  ['078023', 'Campana'],
+  ['078024', 'Canna'],
+  ['078025', 'Cariati'],
+  ['078026', 'Carolei'],
+  ['078027', 'Carpanzano'],
+  ['078029', "Cassano all'Ionio"],
+  ['078030', 'Castiglione Cosentino'],
+  ['078031', 'Castrolibero'],
+  ['078032', 'Castroregio'],
+  ['078033', 'Castrovillari'],
+  ['078034', 'Celico'],
+  ['078035', 'Cellara'],
+  ['078036', 'Cerchiara di Calabria'],
+  ['078037', 'Cerisano'],
+  ['078038', 'Cervicati'],
+  ['078039', 'Cerzeto'],
+  ['078040', 'Cetraro'],
+  ['078041', 'Civita'],
+  ['078042', 'Cleto'],
+  ['078043', 'Colosimi'],
+  ['078045', 'Cosenza'],
+  ['078046', 'Cropalati'],
+  ['078047', 'Crosia'],
+  ['078048', 'Diamante'],
+  ['078049', 'Dipignano'],
+  ['078050', 'Domanico'],
+  ['078051', 'Fagnano Castello'],
+  ['078052', 'Falconara Albanese'],
+  ['078053', 'Figline Vegliaturo'],
+  ['078054', 'Firmo'],
+  ['078055', 'Fiumefreddo Bruzio'],
+  ['078056', 'Francavilla Marittima'],
+  ['078057', 'Frascineto'],
+  ['078058', 'Fuscaldo'],
+  ['078059', 'Grimaldi'],
+  ['078060', 'Grisolia'],
+  ['078061', 'Guardia Piemontese'],
+  ['078062', 'Lago'],
+  ['078063', 'Laino Borgo'],
+  ['078064', 'Laino Castello'],
+  ['078065', 'Lappano'],
+  ['078066', 'Lattarico'],
+  ['078067', 'Longobardi'],
+  ['078068', 'Longobucco'],
+  ['078069', 'Lungro'],
+  ['078070', 'Luzzi'],
+  ['078071', 'Maierà'],
+  ['078072', 'Malito'],
+  ['078073', 'Malvito'],
+  ['078074', 'Mandatoriccio'],
+  ['078075', 'Mangone'],
+  ['078076', 'Marano Marchesato'],
+  ['078077', 'Marano Principato'],
+  ['078078', 'Marzi'],
+  ['078079', 'Mendicino'],
+  ['078080', 'Mongrassano'],
+  ['078081', 'Montalto Uffugo'],
+  ['078082', 'Montegiordano'],
+  ['078083', 'Morano Calabro'],
+  ['078084', 'Mormanno'],
+  ['078085', 'Mottafollone'],
+  ['078086', 'Nocara'],
+  ['078087', 'Oriolo'],
+  ['078088', 'Orsomarso'],
+  ['078089', 'Paludi'],
+  ['078090', 'Panettieri'],
+  ['078091', 'Paola'],
+  ['078092', 'Papasidero'],
+  ['078093', 'Parenti'],
+  ['078094', 'Paterno Calabro'],
+  ['078096', 'Pedivigliano'],
+  ['078097', 'Piane Crati'],
+  ['078098', 'Pietrafitta'],
+  ['078099', 'Pietrapaola'],
+  ['078100', 'Plataci'],
+  ['078101', 'Praia a Mare'],
+  ['078102', 'Rende'],
+  ['078103', 'Rocca Imperiale'],
+  ['078104', 'Roggiano Gravina'],
+  ['078105', 'Rogliano'],
+  ['078106', 'Rose'],
+  ['078107', 'Roseto Capo Spulico'],
+  ['078109', 'Rota Greca'],
+  ['078110', 'Rovito'],
+  ['078111', 'San Basile'],
+  ['078112', 'San Benedetto Ullano'],
+  ['078113', 'San Cosmo Albanese'],
+  ['078114', 'San Demetrio Corone'],
+  ['078115', 'San Donato di Ninea'],
+  ['078116', 'San Fili'],
+  ['078117', 'Sangineto'],
+  ['078118', 'San Giorgio Albanese'],
+  ['078119', 'San Giovanni in Fiore'],
+  ['078120', 'San Lorenzo Bellizzi'],
+  ['078121', 'San Lorenzo del Vallo'],
+  ['078122', 'San Lucido'],
+  ['078123', 'San Marco Argentano'],
+  ['078124', 'San Martino di Finita'],
+  ['078125', 'San Nicola Arcella'],
+  ['078126', 'San Pietro in Amantea'],
+  ['078127', 'San Pietro in Guarano'],
+  ['078128', 'San Sosti'],
+  ['078129', 'Santa Caterina Albanese'],
+  ['078130', 'Santa Domenica Talao'],
+  ['078131', "Sant'Agata di Esaro"],
+  ['078132', 'Santa Maria del Cedro'],
+  ['078133', "Santa Sofia d'Epiro"],
+  ['078134', 'Santo Stefano di Rogliano'],
+  ['078135', 'San Vincenzo La Costa'],
+  ['078136', 'Saracena'],
+  ['078137', 'Scala Coeli'],
+  ['078138', 'Scalea'],
+  ['078139', 'Scigliano'],
+  ['078140', "Serra d'Aiello"],
+  ['078142', 'Spezzano Albanese'],
+  ['078143', 'Spezzano della Sila'],
+  ['078145', 'Tarsia'],
+  ['078146', 'Terranova da Sibari'],
+  ['078147', 'Terravecchia'],
+  ['078148', 'Torano Castello'],
+  ['078149', 'Tortora'],
+  ['078150', 'Trebisacce'],
+  ['078152', 'Vaccarizzo Albanese'],
+  ['078153', 'Verbicaro'],
+  ['078154', 'Villapiana'],
+  ['078155', 'Zumpano'],
+  ['078156', 'Casali del Manco'],
+  ['078157', 'Corigliano-Rossano'],
+  ['079002', 'Albi'],
+  ['079003', 'Amaroni'],
+  ['079004', 'Amato'],
+  ['079005', 'Andali'],
+  ['079007', 'Argusto'],
+  ['079008', 'Badolato'],
+  ['079009', 'Belcastro'],
+  ['079011', 'Borgia'],
+  ['079012', 'Botricello'],
+  ['079017', 'Caraffa di Catanzaro'],
+  ['079018', 'Cardinale'],
+  ['079020', 'Carlopoli'],
+  ['079023', 'Catanzaro'],
+  ['079024', 'Cenadi'],
+  ['079025', 'Centrache'],
+  ['079027', 'Cerva'],
+  ['079029', 'Chiaravalle Centrale'],
+  ['079030', 'Cicala'],
+  ['079033', 'Conflenti'],
+  ['079034', 'Cortale'],
+  ['079036', 'Cropani'],
+  ['079039', 'Curinga'],
+  ['079042', 'Davoli'],
+  ['079043', 'Decollatura'],
+  ['079047', 'Falerna'],
+  ['079048', 'Feroleto Antico'],
+  ['079052', 'Fossato Serralta'],
+  ['079055', 'Gagliato'],
+  ['079056', 'Gasperina'],
+  ['079058', 'Gimigliano'],
+  ['079059', 'Girifalco'],
+  ['079060', 'Gizzeria'],
+  ['079061', 'Guardavalle'],
+  ['079063', 'Isca sullo Ionio'],
+  ['079065', 'Jacurso'],
+  ['079068', 'Magisano'],
+  ['079069', 'Maida'],
+  ['079071', 'Marcedusa'],
+  ['079072', 'Marcellinara'],
+  ['079073', 'Martirano'],
+  ['079074', 'Martirano Lombardo'],
+  ['079077', 'Miglierina'],
+  ['079080', 'Montauro'],
+  ['079081', 'Montepaone'],
+  ['079083', 'Motta Santa Lucia'],
+  ['079087', 'Nocera Terinese'],
+  ['079088', 'Olivadi'],
+  ['079089', 'Palermiti'],
+  ['079092', 'Pentone'],
+  ['079094', 'Petrizzi'],
+  ['079095', 'Petronà'],
+  ['079096', 'Pianopoli'],
+  ['079099', 'Platania'],
+  ['079108', 'San Floro'],
+  ['079110', "San Mango d'Aquino"],
+  ['079114', 'San Pietro a Maida'],
+  ['079115', 'San Pietro Apostolo'],
+  ['079116', 'San Sostene'],
+  ['079117', 'Santa Caterina dello Ionio'],
+  ['079118', "Sant'Andrea Apostolo dello Ionio"],
+  ['079122', 'San Vito sullo Ionio'],
+  ['079123', 'Satriano'],
+  ['079126', 'Sellia'],
+  ['079127', 'Sellia Marina'],
+  ['079129', 'Serrastretta'],
+  ['079130', 'Sersale'],
+  ['079131', 'Settingiano'],
+  ['079133', 'Simeri Crichi'],
+  ['079134', 'Sorbo San Basile'],
+  ['079137', 'Soverato'],
+  ['079138', 'Soveria Mannelli'],
+  ['079139', 'Soveria Simeri'],
+  ['079142', 'Squillace'],
+  ['079143', 'Stalettì'],
+  ['079146', 'Taverna'],
+  ['079147', 'Tiriolo'],
+  ['079148', 'Torre di Ruggiero'],
+  ['079151', 'Vallefiorita'],
+  ['079157', 'Zagarise'],
+  ['079160', 'Lamezia Terme'],
+  ['080001', 'Africo'],
+  ['080002', 'Agnana Calabra'],
+  ['080003', 'Anoia'],
+  ['080004', 'Antonimina'],
+  ['080005', 'Ardore'],
+  ['080006', 'Bagaladi'],
+  ['080007', 'Bagnara Calabra'],
+  ['080008', 'Benestare'],
+  ['080009', 'Bianco'],
+  ['080010', 'Bivongi'],
+  ['080011', 'Bova'],
+  ['080012', 'Bovalino'],
+  ['080013', 'Bova Marina'],
+  ['080014', 'Brancaleone'],
+  ['080015', 'Bruzzano Zeffirio'],
+  ['080016', 'Calanna'],
+  ['080017', 'Camini'],
+  ['080018', 'Campo Calabro'],
+  ['080019', 'Candidoni'],
+  ['080020', 'Canolo'],
+  ['080021', 'Caraffa del Bianco'],
+  ['080022', 'Cardeto'],
+  ['080023', 'Careri'],
+  ['080024', 'Casignana'],
+  ['080025', 'Caulonia'],
+  ['080026', 'Ciminà'],
+  ['080027', 'Cinquefrondi'],
+  ['080028', 'Cittanova'],
+  ['080029', 'Condofuri'],
+  ['080030', 'Cosoleto'],
+  ['080031', 'Delianuova'],
+  ['080032', 'Feroleto della Chiesa'],
+  ['080033', 'Ferruzzano'],
+  ['080034', 'Fiumara'],
+  ['080035', 'Galatro'],
+  ['080036', 'Gerace'],
+  ['080037', 'Giffone'],
+  ['080038', 'Gioia Tauro'],
+  ['080039', 'Gioiosa Ionica'],
+  ['080040', 'Grotteria'],
+  ['080041', 'Laganadi'],
+  ['080042', 'Laureana di Borrello'],
+  ['080043', 'Locri'],
+  ['080044', 'Mammola'],
+  ['080045', 'Marina di Gioiosa Ionica'],
+  ['080046', 'Maropati'],
+  ['080047', 'Martone'],
+  ['080048', 'Melicuccà'],
+  ['080049', 'Melicucco'],
+  ['080050', 'Melito di Porto Salvo'],
+  ['080051', 'Molochio'],
+  ['080052', 'Monasterace'],
+  ['080053', 'Montebello Jonico'],
+  ['080054', 'Motta San Giovanni'],
+  ['080055', 'Oppido Mamertina'],
+  ['080056', 'Palizzi'],
+  ['080057', 'Palmi'],
+  ['080058', 'Pazzano'],
+  ['080059', 'Placanica'],
+  ['080060', 'Platì'],
+  ['080061', 'Polistena'],
+  ['080062', 'Portigliola'],
+  ['080063', 'Reggio di Calabria'],
+  ['080064', 'Riace'],
+  ['080065', 'Rizziconi'],
+  ['080066', 'Roccaforte del Greco'],
+  ['080067', 'Roccella Ionica'],
+  ['080068', 'Roghudi'],
+  ['080069', 'Rosarno'],
+  ['080070', 'Samo'],
+  ['080071', 'San Giorgio Morgeto'],
+  ['080072', 'San Giovanni di Gerace'],
+  ['080073', 'San Lorenzo'],
+  ['080074', 'San Luca'],
+  ['080075', 'San Pietro di Caridà'],
+  ['080076', 'San Procopio'],
+  ['080077', 'San Roberto'],
+  ['080078', "Santa Cristina d'Aspromonte"],
+  ['080079', "Sant'Agata del Bianco"],
+  ['080080', "Sant'Alessio in Aspromonte"],
+  ['080081', "Sant'Eufemia d'Aspromonte"],
+  ['080082', "Sant'Ilario dello Ionio"],
+  ['080083', 'Santo Stefano in Aspromonte'],
+  ['080084', 'Scido'],
+  ['080085', 'Scilla'],
+  ['080086', 'Seminara'],
+  ['080087', 'Serrata'],
+  ['080088', 'Siderno'],
+  ['080089', 'Sinopoli'],
+  ['080090', 'Staiti'],
+  ['080091', 'Stignano'],
+  ['080092', 'Stilo'],
+  ['080093', 'Taurianova'],
+  ['080094', 'Terranova Sappo Minulio'],
+  ['080095', 'Varapodio'],
+  ['080096', 'Villa San Giovanni'],
+  ['080097', 'San Ferdinando'],
+  ['081001', 'Alcamo'],
+  ['081002', 'Buseto Palizzolo'],
+  ['081003', 'Calatafimi-Segesta'],
+  ['081004', 'Campobello di Mazara'],
+  ['081005', 'Castellammare del Golfo'],
+  ['081006', 'Castelvetrano'],
+  ['081007', 'Custonaci'],
+  ['081008', 'Erice'],
+  ['081009', 'Favignana'],
+  ['081010', 'Gibellina'],
+  ['081011', 'Marsala'],
+  ['081012', 'Mazara del Vallo'],
+  ['081013', 'Paceco'],
+  ['081014', 'Pantelleria'],
+  ['081015', 'Partanna'],
+  ['081016', 'Poggioreale'],
+  ['081017', 'Salaparuta'],
+  ['081018', 'Salemi'],
+  ['081019', 'Santa Ninfa'],
+  ['081020', 'San Vito Lo Capo'],
+  ['081021', 'Trapani'],
+  ['081022', 'Valderice'],
+  ['081023', 'Vita'],
+  ['081024', 'Petrosino'],
+  ['082001', 'Alia'],
+  ['082002', 'Alimena'],
+  ['082003', 'Aliminusa'],
+  ['082004', 'Altavilla Milicia'],
+  ['082005', 'Altofonte'],
+  ['082006', 'Bagheria'],
+  ['082007', 'Balestrate'],
+  ['082008', 'Baucina'],
+  ['082009', 'Belmonte Mezzagno'],
+  ['082010', 'Bisacquino'],
+  ['082011', 'Bolognetta'],
+  ['082012', 'Bompietro'],
+  ['082013', 'Borgetto'],
+  ['082014', 'Caccamo'],
+  ['082015', 'Caltavuturo'],
+  ['082016', 'Campofelice di Fitalia'],
+  ['082017', 'Campofelice di Roccella'],
+  ['082018', 'Campofiorito'],
+  ['082019', 'Camporeale'],
+  ['082020', 'Capaci'],
+  ['082021', 'Carini'],
+  ['082022', 'Castelbuono'],
+  ['082023', 'Casteldaccia'],
+  ['082024', 'Castellana Sicula'],
+  ['082025', 'Castronovo di Sicilia'],
+  ['082026', 'Cefalà Diana'],
+  ['082027', 'Cefalù'],
+  ['082028', 'Cerda'],
+  ['082029', 'Chiusa Sclafani'],
+  ['082030', 'Ciminna'],
+  ['082031', 'Cinisi'],
+  ['082032', 'Collesano'],
+  ['082033', 'Contessa Entellina'],
+  ['082034', 'Corleone'],
+  ['082035', 'Ficarazzi'],
+  ['082036', 'Gangi'],
+  ['082037', 'Geraci Siculo'],
+  ['082038', 'Giardinello'],
+  ['082039', 'Giuliana'],
+  ['082040', 'Godrano'],
+  ['082041', 'Gratteri'],
+  ['082042', 'Isnello'],
+  ['082043', 'Isola delle Femmine'],
+  ['082044', 'Lascari'],
+  ['082045', 'Lercara Friddi'],
+  ['082046', 'Marineo'],
+  ['082047', 'Mezzojuso'],
+  ['082048', 'Misilmeri'],
+  ['082049', 'Monreale'],
+  ['082050', 'Montelepre'],
+  ['082051', 'Montemaggiore Belsito'],
+  ['082052', 'Palazzo Adriano'],
+  ['082053', 'Palermo'],
+  ['082054', 'Partinico'],
+  ['082055', 'Petralia Soprana'],
+  ['082056', 'Petralia Sottana'],
+  ['082057', 'Piana degli Albanesi'],
+  ['082058', 'Polizzi Generosa'],
+  ['082059', 'Pollina'],
+  ['082060', 'Prizzi'],
+  ['082061', 'Roccamena'],
+  ['082062', 'Roccapalumba'],
+  ['082063', 'San Cipirello'],
+  ['082064', 'San Giuseppe Jato'],
+  ['082065', 'San Mauro Castelverde'],
+  ['082066', 'Santa Cristina Gela'],
+  ['082067', 'Santa Flavia'],
+  ['082068', 'Sciara'],
+  ['082069', 'Sclafani Bagni'],
+  ['082070', 'Termini Imerese'],
+  ['082071', 'Terrasini'],
+  ['082072', 'Torretta'],
+  ['082073', 'Trabia'],
+  ['082074', 'Trappeto'],
+  ['082075', 'Ustica'],
+  ['082076', 'Valledolmo'],
+  ['082077', 'Ventimiglia di Sicilia'],
+  ['082078', 'Vicari'],
+  ['082079', 'Villabate'],
+  ['082080', 'Villafrati'],
+  ['082081', 'Scillato'],
+  ['082082', 'Blufi'],
+  ['083001', 'Alcara li Fusi'],
+  ['083002', 'Alì'],
+  ['083003', 'Alì Terme'],
+  ['083004', 'Antillo'],
+  ['083005', 'Barcellona Pozzo di Gotto'],
+  ['083006', 'Basicò'],
+  ['083007', 'Brolo'],
+  ['083008', 'Capizzi'],
+  ['083009', "Capo d'Orlando"],
+  ['083010', 'Capri Leone'],
+  ['083011', 'Caronia'],
+  ['083012', 'Casalvecchio Siculo'],
+  ['083013', 'Castel di Lucio'],
+  ['083014', "Castell'Umberto"],
+  ['083015', 'Castelmola'],
+  ['083016', 'Castroreale'],
+  ['083017', 'Cesarò'],
+  ['083018', 'Condrò'],
+  ['083019', 'Falcone'],
+  ['083020', 'Ficarra'],
+  ['083021', 'Fiumedinisi'],
+  ['083022', 'Floresta'],
+  ['083023', 'Fondachelli-Fantina'],
+  ['083024', "Forza d'Agrò"],
+  ['083025', 'Francavilla di Sicilia'],
+  ['083026', 'Frazzanò'],
+  ['083027', 'Furci Siculo'],
+  ['083028', 'Furnari'],
+  ['083029', 'Gaggi'],
+  ['083030', 'Galati Mamertino'],
+  ['083031', 'Gallodoro'],
+  ['083032', 'Giardini-Naxos'],
+  ['083033', 'Gioiosa Marea'],
+  ['083034', 'Graniti'],
+  ['083035', 'Gualtieri Sicaminò'],
+  ['083036', 'Itala'],
+  ['083037', 'Leni'],
+  ['083038', 'Letojanni'],
+  ['083039', 'Librizzi'],
+  ['083040', 'Limina'],
+  ['083041', 'Lipari'],
+  ['083042', 'Longi'],
+  ['083043', 'Malfa'],
+  ['083044', 'Malvagna'],
+  ['083045', 'Mandanici'],
+  ['083046', "Mazzarrà Sant'Andrea"],
+  ['083047', 'Merì'],
+  ['083048', 'Messina'],
+  ['083049', 'Milazzo'],
+  ['083050', 'Militello Rosmarino'],
+  ['083051', 'Mirto'],
+  ['083052', 'Mistretta'],
+  ['083053', 'Moio Alcantara'],
+  ['083054', 'Monforte San Giorgio'],
+  ['083055', 'Mongiuffi Melia'],
+  ['083056', 'Montagnareale'],
+  ['083057', 'Montalbano Elicona'],
+  ['083058', 'Motta Camastra'],
+  ['083059', "Motta d'Affermo"],
+  ['083060', 'Naso'],
+  ['083061', 'Nizza di Sicilia'],
+  ['083062', 'Novara di Sicilia'],
+  ['083063', 'Oliveri'],
+  ['083064', 'Pace del Mela'],
+  ['083065', 'Pagliara'],
+  ['083066', 'Patti'],
+  ['083067', 'Pettineo'],
+  ['083068', 'Piraino'],
+  ['083069', 'Raccuja'],
+  ['083070', 'Reitano'],
+  ['083071', 'Roccafiorita'],
+  ['083072', 'Roccalumera'],
+  ['083073', 'Roccavaldina'],
+  ['083074', 'Roccella Valdemone'],
+  ['083075', 'Rodì Milici'],
+  ['083076', 'Rometta'],
+  ['083077', 'San Filippo del Mela'],
+  ['083078', 'San Fratello'],
+  ['083079', "San Marco d'Alunzio"],
+  ['083080', 'San Pier Niceto'],
+  ['083081', 'San Piero Patti'],
+  ['083082', 'San Salvatore di Fitalia'],
+  ['083083', 'Santa Domenica Vittoria'],
+  ['083084', "Sant'Agata di Militello"],
+  ['083085', "Sant'Alessio Siculo"],
+  ['083086', 'Santa Lucia del Mela'],
+  ['083087', 'Santa Marina Salina'],
+  ['083088', "Sant'Angelo di Brolo"],
+  ['083089', 'Santa Teresa di Riva'],
+  ['083090', 'San Teodoro'],
+  ['083091', 'Santo Stefano di Camastra'],
+  ['083092', 'Saponara'],
+  ['083093', 'Savoca'],
+  ['083094', 'Scaletta Zanclea'],
+  ['083095', 'Sinagra'],
+  ['083096', 'Spadafora'],
+  ['083097', 'Taormina'],
+  ['083098', 'Torregrotta'],
+  ['083099', 'Tortorici'],
+  ['083100', 'Tripi'],
+  ['083101', 'Tusa'],
+  ['083102', 'Ucria'],
+  ['083103', 'Valdina'],
+  ['083104', 'Venetico'],
+  ['083105', 'Villafranca Tirrena'],
+  ['083106', 'Terme Vigliatore'],
+  ['083107', 'Acquedolci'],
+  ['083108', 'Torrenova'],
+  ['084001', 'Agrigento'],
+  ['084002', 'Alessandria della Rocca'],
+  ['084003', 'Aragona'],
+  ['084004', 'Bivona'],
+  ['084005', 'Burgio'],
+  ['084006', 'Calamonaci'],
+  ['084007', 'Caltabellotta'],
+  ['084008', 'Camastra'],
+  ['084009', 'Cammarata'],
+  ['084010', 'Campobello di Licata'],
+  ['084011', 'Canicattì'],
+  ['084012', 'Casteltermini'],
+  ['084013', 'Castrofilippo'],
+  ['084014', 'Cattolica Eraclea'],
+  ['084015', 'Cianciana'],
+  ['084016', 'Comitini'],
+  ['084017', 'Favara'],
+  ['084018', 'Grotte'],
+  ['084019', 'Joppolo Giancaxio'],
+  ['084020', 'Lampedusa e Linosa'],
+  ['084021', 'Licata'],
+  ['084022', 'Lucca Sicula'],
+  ['084023', 'Menfi'],
+  ['084024', 'Montallegro'],
+  ['084025', 'Montevago'],
+  ['084026', 'Naro'],
+  ['084027', 'Palma di Montechiaro'],
+  ['084028', 'Porto Empedocle'],
+  ['084029', 'Racalmuto'],
+  ['084030', 'Raffadali'],
+  ['084031', 'Ravanusa'],
+  ['084032', 'Realmonte'],
+  ['084033', 'Ribera'],
+  ['084034', 'Sambuca di Sicilia'],
+  ['084035', 'San Biagio Platani'],
+  ['084036', 'San Giovanni Gemini'],
+  ['084037', 'Santa Elisabetta'],
+  ['084038', 'Santa Margherita di Belice'],
+  ['084039', "Sant'Angelo Muxaro"],
+  ['084040', 'Santo Stefano Quisquina'],
+  ['084041', 'Sciacca'],
+  ['084042', 'Siculiana'],
+  ['084043', 'Villafranca Sicula'],
+  ['085001', 'Acquaviva Platani'],
+  ['085002', 'Bompensiere'],
+  ['085003', 'Butera'],
+  ['085004', 'Caltanissetta'],
+  ['085005', 'Campofranco'],
+  ['085006', 'Delia'],
+  ['085007', 'Gela'],
+  ['085008', 'Marianopoli'],
+  ['085009', 'Mazzarino'],
+  ['085010', 'Milena'],
+  ['085011', 'Montedoro'],
+  ['085012', 'Mussomeli'],
+  ['085013', 'Niscemi'],
+  ['085014', 'Resuttano'],
+  ['085015', 'Riesi'],
+  ['085016', 'San Cataldo'],
+  ['085017', 'Santa Caterina Villarmosa'],
+  ['085018', 'Serradifalco'],
+  ['085019', 'Sommatino'],
+  ['085020', 'Sutera'],
+  ['085021', 'Vallelunga Pratameno'],
+  ['085022', 'Villalba'],
+  ['086001', 'Agira'],
+  ['086002', 'Aidone'],
+  ['086003', 'Assoro'],
+  ['086004', 'Barrafranca'],
+  ['086005', 'Calascibetta'],
+  ['086006', 'Catenanuova'],
+  ['086007', 'Centuripe'],
+  ['086008', 'Cerami'],
+  ['086009', 'Enna'],
+  ['086010', 'Gagliano Castelferrato'],
+  ['086011', 'Leonforte'],
+  ['086012', 'Nicosia'],
+  ['086013', 'Nissoria'],
+  ['086014', 'Piazza Armerina'],
+  ['086015', 'Pietraperzia'],
+  ['086016', 'Regalbuto'],
+  ['086017', 'Sperlinga'],
+  ['086018', 'Troina'],
+  ['086019', 'Valguarnera Caropepe'],
+  ['086020', 'Villarosa'],
+  ['087001', 'Aci Bonaccorsi'],
+  ['087002', 'Aci Castello'],
+  ['087003', 'Aci Catena'],
+  ['087004', 'Acireale'],
+  ['087005', "Aci Sant'Antonio"],
+  ['087006', 'Adrano'],
+  ['087007', 'Belpasso'],
+  ['087008', 'Biancavilla'],
+  ['087009', 'Bronte'],
+  ['087010', 'Calatabiano'],
+  ['087011', 'Caltagirone'],
+  ['087012', 'Camporotondo Etneo'],
+  ['087013', 'Castel di Iudica'],
+  ['087014', 'Castiglione di Sicilia'],
+  ['087015', 'Catania'],
+  ['087016', 'Fiumefreddo di Sicilia'],
+  ['087017', 'Giarre'],
+  ['087018', 'Grammichele'],
+  ['087019', 'Gravina di Catania'],
+  ['087020', 'Licodia Eubea'],
+  ['087021', 'Linguaglossa'],
+  ['087022', 'Maletto'],
+  ['087023', 'Mascali'],
+  ['087024', 'Mascalucia'],
+  ['087025', 'Militello in Val di Catania'],
+  ['087026', 'Milo'],
+  ['087027', 'Mineo'],
+  ['087028', 'Mirabella Imbaccari'],
+  ['087029', 'Misterbianco'],
+  ['087030', "Motta Sant'Anastasia"],
+  ['087031', 'Nicolosi'],
+  ['087032', 'Palagonia'],
+  ['087033', 'Paternò'],
+  ['087034', 'Pedara'],
+  ['087035', 'Piedimonte Etneo'],
+  ['087036', 'Raddusa'],
+  ['087037', 'Ramacca'],
+  ['087038', 'Randazzo'],
+  ['087039', 'Riposto'],
+  ['087040', 'San Cono'],
+  ['087041', 'San Giovanni la Punta'],
+  ['087042', 'San Gregorio di Catania'],
+  ['087043', 'San Michele di Ganzaria'],
+  ['087044', 'San Pietro Clarenza'],
+  ['087045', "Sant'Agata li Battiati"],
+  ['087046', "Sant'Alfio"],
+  ['087047', 'Santa Maria di Licodia'],
+  ['087048', 'Santa Venerina'],
+  ['087049', 'Scordia'],
+  ['087050', 'Trecastagni'],
+  ['087051', 'Tremestieri Etneo'],
+  ['087052', 'Valverde'],
+  ['087053', 'Viagrande'],
+  ['087054', 'Vizzini'],
+  ['087055', 'Zafferana Etnea'],
+  ['087056', 'Mazzarrone'],
+  ['087057', 'Maniace'],
+  ['087058', 'Ragalna'],
+  ['088001', 'Acate'],
+  ['088002', 'Chiaramonte Gulfi'],
+  ['088003', 'Comiso'],
+  ['088004', 'Giarratana'],
+  ['088005', 'Ispica'],
+  ['088006', 'Modica'],
+  ['088007', 'Monterosso Almo'],
+  ['088008', 'Pozzallo'],
+  ['088009', 'Ragusa'],
+  ['088010', 'Santa Croce Camerina'],
+  ['088011', 'Scicli'],
+  ['088012', 'Vittoria'],
+  ['089001', 'Augusta'],
+  ['089002', 'Avola'],
+  ['089003', 'Buccheri'],
+  ['089004', 'Buscemi'],
+  ['089005', 'Canicattini Bagni'],
+  ['089006', 'Carlentini'],
+  ['089007', 'Cassaro'],
+  ['089008', 'Ferla'],
+  ['089009', 'Floridia'],
+  ['089010', 'Francofonte'],
+  ['089011', 'Lentini'],
+  ['089012', 'Melilli'],
+  ['089013', 'Noto'],
+  ['089014', 'Pachino'],
+  ['089015', 'Palazzolo Acreide'],
+  ['089016', 'Rosolini'],
+  ['089017', 'Siracusa'],
+  ['089018', 'Solarino'],
+  ['089019', 'Sortino'],
+  ['089020', 'Portopalo di Capo Passero'],
+  ['089021', 'Priolo Gargallo'],
+  ['090001', 'Aggius'],
+  ['090002', 'Alà dei Sardi'],
+  ['090003', 'Alghero'],
+  ['090004', 'Anela'],
+  ['090005', 'Ardara'],
+  ['090006', 'Arzachena'],
+  ['090007', 'Banari'],
+  ['090008', 'Benetutti'],
+  ['090009', 'Berchidda'],
+  ['090010', 'Bessude'],
+  ['090011', 'Bonnanaro'],
+  ['090012', 'Bono'],
+  ['090013', 'Bonorva'],
+  ['090014', 'Bortigiadas'],
+  ['090015', 'Borutta'],
+  ['090016', 'Bottidda'],
+  ['090017', 'Buddusò'],
+  ['090018', 'Bultei'],
+  ['090019', 'Bulzi'],
+  ['090020', 'Burgos'],
+  ['090021', 'Calangianus'],
+  ['090022', 'Cargeghe'],
+  ['090023', 'Castelsardo'],
+  ['090024', 'Cheremule'],
+  ['090025', 'Chiaramonti'],
+  ['090026', 'Codrongianos'],
+  ['090027', 'Cossoine'],
+  ['090028', 'Esporlatu'],
+  ['090029', 'Florinas'],
+  ['090030', 'Giave'],
+  ['090031', 'Illorai'],
+  ['090032', 'Ittireddu'],
+  ['090033', 'Ittiri'],
+  ['090034', 'Laerru'],
+  ['090035', 'La Maddalena'],
+  ['090036', 'Luogosanto'],
+  ['090037', 'Luras'],
+  ['090038', 'Mara'],
+  ['090039', 'Martis'],
+  ['090040', 'Monteleone Rocca Doria'],
+  ['090041', 'Monti'],
+  ['090042', 'Mores'],
+  ['090043', 'Muros'],
+  ['090044', 'Nughedu San Nicolò'],
+  ['090045', 'Nule'],
+  ['090046', 'Nulvi'],
+  ['090047', 'Olbia'],
+  ['090048', 'Olmedo'],
+  ['090049', 'Oschiri'],
+  ['090050', 'Osilo'],
+  ['090051', 'Ossi'],
+  ['090052', 'Ozieri'],
+  ['090053', 'Padria'],
+  ['090054', 'Palau'],
+  ['090055', 'Pattada'],
+  ['090056', 'Perfugas'],
+  ['090057', 'Ploaghe'],
+  ['090058', 'Porto Torres'],
+  ['090059', 'Pozzomaggiore'],
+  ['090060', 'Putifigari'],
+  ['090061', 'Romana'],
+  ['090062', 'Aglientu'],
+  ['090063', 'Santa Teresa Gallura'],
+  ['090064', 'Sassari'],
+  ['090065', 'Sedini'],
+  ['090066', 'Semestene'],
+  ['090067', 'Sennori'],
+  ['090068', 'Siligo'],
+  ['090069', 'Sorso'],
+  ['090070', 'Tempio Pausania'],
+  ['090071', 'Thiesi'],
+  ['090072', 'Tissi'],
+  ['090073', 'Torralba'],
+  ['090074', "Trinità d'Agultu e Vignola"],
+  ['090075', 'Tula'],
+  ['090076', 'Uri'],
+  ['090077', 'Usini'],
+  ['090078', 'Villanova Monteleone'],
+  ['090079', 'Valledoria'],
+  ['090080', 'Telti'],
+  ['090081', 'Badesi'],
+  ['090082', 'Viddalba'],
+  ['090083', 'Golfo Aranci'],
+  ['090084', 'Loiri Porto San Paolo'],
+  ['090085', "Sant'Antonio di Gallura"],
+  ['090086', 'Tergu'],
+  ['090087', 'Santa Maria Coghinas'],
+  ['090088', 'Erula'],
+  ['090089', 'Stintino'],
+  ['090090', 'Padru'],
+  ['090091', 'Budoni'],
+  ['090092', 'San Teodoro'],
+  ['091001', 'Aritzo'],
+  ['091002', 'Arzana'],
+  ['091003', 'Atzara'],
+  ['091004', 'Austis'],
+  ['091005', 'Bari Sardo'],
+  ['091006', 'Baunei'],
+  ['091007', 'Belvì'],
+  ['091008', 'Birori'],
+  ['091009', 'Bitti'],
+  ['091010', 'Bolotana'],
+  ['091011', 'Borore'],
+  ['091012', 'Bortigali'],
+  ['091016', 'Desulo'],
+  ['091017', 'Dorgali'],
+  ['091018', 'Dualchi'],
+  ['091019', 'Elini'],
+  ['091024', 'Fonni'],
+  ['091025', 'Gadoni'],
+  ['091026', 'Gairo'],
+  ['091027', 'Galtellì'],
+  ['091028', 'Gavoi'],
+  ['091031', 'Girasole'],
+  ['091032', 'Ilbono'],
+  ['091033', 'Irgoli'],
+  ['091035', 'Jerzu'],
+  ['091037', 'Lanusei'],
+  ['091038', 'Lei'],
+  ['091039', 'Loceri'],
+  ['091040', 'Loculi'],
+  ['091041', 'Lodè'],
+  ['091042', 'Lotzorai'],
+  ['091043', 'Lula'],
+  ['091044', 'Macomer'],
+  ['091046', 'Mamoiada'],
+  ['091047', 'Meana Sardo'],
+  ['091050', 'Noragugume'],
+  ['091051', 'Nuoro'],
+  ['091055', 'Oliena'],
+  ['091056', 'Ollolai'],
+  ['091057', 'Olzai'],
+  ['091058', 'Onanì'],
+  ['091059', 'Onifai'],
+  ['091060', 'Oniferi'],
+  ['091061', 'Orani'],
+  ['091062', 'Orgosolo'],
+  ['091063', 'Orosei'],
+  ['091064', 'Orotelli'],
+  ['091066', 'Ortueri'],
+  ['091067', 'Orune'],
+  ['091068', 'Osidda'],
+  ['091069', 'Osini'],
+  ['091070', 'Ottana'],
+  ['091071', 'Ovodda'],
+  ['091072', 'Perdasdefogu'],
+  ['091073', 'Posada'],
+  ['091077', 'Sarule'],
+  ['091083', 'Silanus'],
+  ['091084', 'Sindia'],
+  ['091085', 'Siniscola'],
+  ['091086', 'Sorgono'],
+  ['091088', 'Talana'],
+  ['091089', 'Tertenia'],
+  ['091090', 'Teti'],
+  ['091091', 'Tiana'],
+  ['091093', 'Tonara'],
+  ['091094', 'Torpè'],
+  ['091095', 'Tortolì'],
+  ['091097', 'Triei'],
+  ['091098', 'Ulassai'],
+  ['091099', 'Urzulei'],
+  ['091100', 'Ussassai'],
+  ['091101', 'Villagrande Strisaili'],
+  ['091103', 'Cardedu'],
+  ['091104', 'Lodine'],
+  ['092003', 'Assemini'],
+  ['092009', 'Cagliari'],
+  ['092011', 'Capoterra'],
+  ['092015', 'Decimomannu'],
+  ['092037', 'Maracalagonis'],
+  ['092050', 'Pula'],
+  ['092051', "Quartu Sant'Elena"],
+  ['092066', 'Sarroch'],
+  ['092068', 'Selargius'],
+  ['092074', 'Sestu'],
+  ['092075', 'Settimo San Pietro'],
+  ['092080', 'Sinnai'],
+  ['092090', 'Uta'],
+  ['092099', 'Villa San Pietro'],
+  ['092105', 'Quartucciu'],
+  ['092108', 'Elmas'],
+  ['092109', 'Monserrato'],
+  ['093001', 'Andreis'],
+  ['093002', 'Arba'],
+  ['093004', 'Aviano'],
+  ['093005', 'Azzano Decimo'],
+  ['093006', 'Barcis'],
+  ['093007', 'Brugnera'],
+  ['093008', 'Budoia'],
+  ['093009', 'Caneva'],
+  ['093010', 'Casarsa della Delizia'],
+  ['093011', 'Castelnovo del Friuli'],
+  ['093012', 'Cavasso Nuovo'],
+  ['093013', 'Chions'],
+  ['093014', 'Cimolais'],
+  ['093015', 'Claut'],
+  ['093016', 'Clauzetto'],
+  ['093017', 'Cordenons'],
+  ['093018', 'Cordovado'],
+  ['093019', 'Erto e Casso'],
+  ['093020', 'Fanna'],
+  ['093021', 'Fiume Veneto'],
+  ['093022', 'Fontanafredda'],
+  ['093024', 'Frisanco'],
+  ['093025', 'Maniago'],
+  ['093026', 'Meduno'],
+  ['093027', 'Montereale Valcellina'],
+  ['093028', 'Morsano al Tagliamento'],
+  ['093029', 'Pasiano di Pordenone'],
+  ['093030', 'Pinzano al Tagliamento'],
+  ['093031', 'Polcenigo'],
+  ['093032', 'Porcia'],
+  ['093033', 'Pordenone'],
+  ['093034', 'Prata di Pordenone'],
+  ['093035', 'Pravisdomini'],
+  ['093036', 'Roveredo in Piano'],
+  ['093037', 'Sacile'],
+  ['093038', 'San Giorgio della Richinvelda'],
+  ['093039', 'San Martino al Tagliamento'],
+  ['093040', 'San Quirino'],
+  ['093041', 'San Vito al Tagliamento'],
+  ['093042', 'Sequals'],
+  ['093043', 'Sesto al Reghena'],
+  ['093044', 'Spilimbergo'],
+  ['093045', 'Tramonti di Sopra'],
+  ['093046', 'Tramonti di Sotto'],
+  ['093047', 'Travesio'],
+  ['093049', "Vito d'Asio"],
+  ['093050', 'Vivaro'],
+  ['093051', 'Zoppola'],
+  ['093052', 'Vajont'],
+  ['093053', 'Valvasone Arzene'],
+  ['094001', "Acquaviva d'Isernia"],
+  ['094002', 'Agnone'],
+  ['094003', 'Bagnoli del Trigno'],
+  ['094004', 'Belmonte del Sannio'],
+  ['094005', 'Cantalupo nel Sannio'],
+  ['094006', 'Capracotta'],
+  ['094007', 'Carovilli'],
+  ['094008', 'Carpinone'],
+  ['094009', 'Castel del Giudice'],
+  ['094010', 'Castelpetroso'],
+  ['094011', 'Castelpizzuto'],
+  ['094012', 'Castel San Vincenzo'],
+  ['094013', 'Castelverrino'],
+  ['094014', 'Cerro al Volturno'],
+  ['094015', 'Chiauci'],
+  ['094016', 'Civitanova del Sannio'],
+  ['094017', 'Colli a Volturno'],
+  ['094018', 'Conca Casale'],
+  ['094019', 'Filignano'],
+  ['094020', 'Forlì del Sannio'],
+  ['094021', 'Fornelli'],
+  ['094022', 'Frosolone'],
+  ['094023', 'Isernia'],
+  ['094024', 'Longano'],
+  ['094025', "Macchia d'Isernia"],
+  ['094026', 'Macchiagodena'],
+  ['094027', 'Miranda'],
+  ['094028', 'Montaquila'],
+  ['094029', 'Montenero Val Cocchiara'],
+  ['094030', 'Monteroduni'],
+  ['094031', 'Pesche'],
+  ['094032', 'Pescolanciano'],
+  ['094033', 'Pescopennataro'],
+  ['094034', 'Pettoranello del Molise'],
+  ['094035', 'Pietrabbondante'],
+  ['094036', 'Pizzone'],
+  ['094037', 'Poggio Sannita'],
+  ['094038', 'Pozzilli'],
+  ['094039', 'Rionero Sannitico'],
+  ['094040', 'Roccamandolfi'],
+  ['094041', 'Roccasicura'],
+  ['094042', 'Rocchetta a Volturno'],
+  ['094043', 'San Pietro Avellana'],
+  ['094044', "Sant'Agapito"],
+  ['094045', 'Santa Maria del Molise'],
+  ['094046', "Sant'Angelo del Pesco"],
+  ['094047', "Sant'Elena Sannita"],
+  ['094048', 'Scapoli'],
+  ['094049', 'Sessano del Molise'],
+  ['094050', 'Sesto Campano'],
+  ['094051', 'Vastogirardi'],
+  ['094052', 'Venafro'],
+  ['095001', 'Abbasanta'],
+  ['095002', 'Aidomaggiore'],
+  ['095003', 'Albagiara'],
+  ['095004', 'Ales'],
+  ['095005', 'Allai'],
+  ['095006', 'Arborea'],
+  ['095007', 'Ardauli'],
+  ['095008', 'Assolo'],
+  ['095009', 'Asuni'],
+  ['095010', 'Baradili'],
+  ['095011', 'Baratili San Pietro'],
+  ['095012', 'Baressa'],
+  ['095013', 'Bauladu'],
+  ['095014', 'Bidonì'],
+  ['095015', 'Bonarcado'],
+  ['095016', 'Boroneddu'],
+  ['095017', 'Busachi'],
+  ['095018', 'Cabras'],
+  ['095019', 'Cuglieri'],
+  ['095020', 'Fordongianus'],
+  ['095021', 'Ghilarza'],
+  ['095022', 'Gonnoscodina'],
+  ['095023', 'Gonnosnò'],
+  ['095024', 'Gonnostramatza'],
+  ['095025', 'Marrubiu'],
+  ['095026', 'Masullas'],
+  ['095027', 'Milis'],
+  ['095028', 'Mogorella'],
+  ['095029', 'Mogoro'],
+  ['095030', 'Morgongiori'],
+  ['095031', 'Narbolia'],
+  ['095032', 'Neoneli'],
+  ['095033', 'Norbello'],
+  ['095034', 'Nughedu Santa Vittoria'],
+  ['095035', 'Nurachi'],
+  ['095036', 'Nureci'],
+  ['095037', 'Ollastra'],
+  ['095038', 'Oristano'],
+  ['095039', 'Palmas Arborea'],
+  ['095040', 'Pau'],
+  ['095041', 'Paulilatino'],
+  ['095042', 'Pompu'],
+  ['095043', 'Riola Sardo'],
+  ['095044', 'Ruinas'],
+  ['095045', 'Samugheo'],
+  ['095046', "San Nicolò d'Arcidano"],
+  ['095047', 'Santa Giusta'],
+  ['095048', "Villa Sant'Antonio"],
+  ['095049', 'Santu Lussurgiu'],
+  ['095050', 'San Vero Milis'],
+  ['095051', 'Scano di Montiferro'],
+  ['095052', 'Sedilo'],
+  ['095053', 'Seneghe'],
+  ['095054', 'Senis'],
+  ['095055', 'Sennariolo'],
+  ['095056', 'Siamaggiore'],
+  ['095057', 'Siamanna'],
+  ['095058', 'Simala'],
+  ['095059', 'Simaxis'],
+  ['095060', 'Sini'],
+  ['095061', 'Siris'],
+  ['095062', 'Solarussa'],
+  ['095063', 'Sorradile'],
+  ['095064', 'Tadasuni'],
+  ['095065', 'Terralba'],
+  ['095066', 'Tramatza'],
+  ['095067', 'Tresnuraghes'],
+  ['095068', 'Ulà Tirso'],
+  ['095069', 'Uras'],
+  ['095070', 'Usellus'],
+  ['095071', 'Villanova Truschedu'],
+  ['095072', 'Villaurbana'],
+  ['095073', 'Villa Verde'],
+  ['095074', 'Zeddiani'],
+  ['095075', 'Zerfaliu'],
+  ['095076', 'Siapiccia'],
+  ['095077', 'Curcuris'],
+  ['095078', 'Soddì'],
+  ['095079', 'Bosa'],
+  ['095080', 'Flussio'],
+  ['095082', 'Laconi'],
+  ['095083', 'Magomadas'],
+  ['095084', 'Modolo'],
+  ['095085', 'Montresta'],
+  ['095086', 'Sagama'],
+  ['095087', 'Suni'],
+  ['095088', 'Tinnura'],
+  ['096001', 'Ailoche'],
+  ['096002', 'Andorno Micca'],
+  ['096003', 'Benna'],
+  ['096004', 'Biella'],
+  ['096005', 'Bioglio'],
+  ['096006', 'Borriana'],
+  ['096007', 'Brusnengo'],
+  ['096008', 'Callabiana'],
+  ['096009', 'Camandona'],
+  ['096010', 'Camburzano'],
+  ['096012', 'Candelo'],
+  ['096013', 'Caprile'],
+  ['096014', 'Casapinta'],
+  ['096015', 'Castelletto Cervo'],
+  ['096016', 'Cavaglià'],
+  ['096018', 'Cerrione'],
+  ['096019', 'Coggiola'],
+  ['096020', 'Cossato'],
+  ['096021', 'Crevacuore'],
+  ['096023', 'Curino'],
+  ['096024', 'Donato'],
+  ['096025', 'Dorzano'],
+  ['096026', 'Gaglianico'],
+  ['096027', 'Gifflenga'],
+  ['096028', 'Graglia'],
+  ['096030', 'Magnano'],
+  ['096031', 'Massazza'],
+  ['096032', 'Masserano'],
+  ['096033', 'Mezzana Mortigliengo'],
+  ['096034', 'Miagliano'],
+  ['096035', 'Mongrando'],
+  ['096037', 'Mottalciata'],
+  ['096038', 'Muzzano'],
+  ['096039', 'Netro'],
+  ['096040', 'Occhieppo Inferiore'],
+  ['096041', 'Occhieppo Superiore'],
+  ['096042', 'Pettinengo'],
+  ['096043', 'Piatto'],
+  ['096044', 'Piedicavallo'],
+  ['096046', 'Pollone'],
+  ['096047', 'Ponderano'],
+  ['096048', 'Portula'],
+  ['096049', 'Pralungo'],
+  ['096050', 'Pray'],
+  ['096053', 'Ronco Biellese'],
+  ['096054', 'Roppolo'],
+  ['096055', 'Rosazza'],
+  ['096056', 'Sagliano Micca'],
+  ['096057', 'Sala Biellese'],
+  ['096058', 'Salussola'],
+  ['096059', 'Sandigliano'],
+  ['096063', 'Sordevolo'],
+  ['096064', 'Sostegno'],
+  ['096065', 'Strona'],
+  ['096066', 'Tavigliano'],
+  ['096067', 'Ternengo'],
+  ['096068', 'Tollegno'],
+  ['096069', 'Torrazzo'],
+  ['096071', 'Valdengo'],
+  ['096072', 'Vallanzengo'],
+  ['096074', 'Valle San Nicolao'],
+  ['096075', 'Veglio'],
+  ['096076', 'Verrone'],
+  ['096077', 'Vigliano Biellese'],
+  ['096078', 'Villa del Bosco'],
+  ['096079', 'Villanova Biellese'],
+  ['096080', 'Viverone'],
+  ['096081', 'Zimone'],
+  ['096082', 'Zubiena'],
+  ['096083', 'Zumaglia'],
+  ['096085', 'Lessona'],
+  ['096086', 'Campiglia Cervo'],
+  ['096087', 'Quaregna Cerreto'],
+  ['096088', 'Valdilana'],
+  ['097001', 'Abbadia Lariana'],
+  ['097002', 'Airuno'],
+  ['097003', 'Annone di Brianza'],
+  ['097004', 'Ballabio'],
+  ['097005', 'Barzago'],
+  ['097006', 'Barzanò'],
+  ['097007', 'Barzio'],
+  ['097008', 'Bellano'],
+  ['097009', 'Bosisio Parini'],
+  ['097010', 'Brivio'],
+  ['097011', 'Bulciago'],
+  ['097012', 'Calco'],
+  ['097013', 'Calolziocorte'],
+  ['097014', 'Carenno'],
+  ['097015', 'Casargo'],
+  ['097016', 'Casatenovo'],
+  ['097017', 'Cassago Brianza'],
+  ['097018', 'Cassina Valsassina'],
+  ['097019', 'Castello di Brianza'],
+  ['097020', 'Cernusco Lombardone'],
+  ['097021', 'Cesana Brianza'],
+  ['097022', 'Civate'],
+  ['097023', 'Colico'],
+  ['097024', 'Colle Brianza'],
+  ['097025', 'Cortenova'],
+  ['097026', 'Costa Masnaga'],
+  ['097027', 'Crandola Valsassina'],
+  ['097028', 'Cremella'],
+  ['097029', 'Cremeno'],
+  ['097030', 'Dervio'],
+  ['097031', 'Dolzago'],
+  ['097032', 'Dorio'],
+  ['097033', 'Ello'],
+  ['097034', 'Erve'],
+  ['097035', 'Esino Lario'],
+  ['097036', 'Galbiate'],
+  ['097037', 'Garbagnate Monastero'],
+  ['097038', 'Garlate'],
+  ['097039', 'Imbersago'],
+  ['097040', 'Introbio'],
+  ['097042', 'Lecco'],
+  ['097043', 'Lierna'],
+  ['097044', 'Lomagna'],
+  ['097045', 'Malgrate'],
+  ['097046', 'Mandello del Lario'],
+  ['097047', 'Margno'],
+  ['097048', 'Merate'],
+  ['097049', 'Missaglia'],
+  ['097050', 'Moggio'],
+  ['097051', 'Molteno'],
+  ['097052', 'Monte Marenzo'],
+  ['097053', 'Montevecchia'],
+  ['097054', 'Monticello Brianza'],
+  ['097055', 'Morterone'],
+  ['097056', 'Nibionno'],
+  ['097057', 'Oggiono'],
+  ['097058', 'Olgiate Molgora'],
+  ['097059', 'Olginate'],
+  ['097060', 'Oliveto Lario'],
+  ['097061', 'Osnago'],
+  ['097062', "Paderno d'Adda"],
+  ['097063', 'Pagnona'],
+  ['097064', 'Parlasco'],
+  ['097065', 'Pasturo'],
+  ['097067', 'Perledo'],
+  ['097068', 'Pescate'],
+  ['097069', 'Premana'],
+  ['097070', 'Primaluna'],
+  ['097071', 'Robbiate'],
+  ['097072', 'Rogeno'],
+  ['097074', 'Santa Maria Hoè'],
+  ['097075', 'Sirone'],
+  ['097076', 'Sirtori'],
+  ['097077', 'Sueglio'],
+  ['097078', 'Suello'],
+  ['097079', 'Taceno'],
+  ['097082', 'Valgreghentino'],
+  ['097083', 'Valmadrera'],
+  ['097084', 'Varenna'],
+  ['097086', 'Vercurago'],
+  ['097090', 'Viganò'],
+  ['097091', 'Verderio'],
+  ['097092', 'La Valletta Brianza'],
+  ['097093', 'Valvarrone'],
+  ['098001', 'Abbadia Cerreto'],
+  ['098002', 'Bertonico'],
+  ['098003', "Boffalora d'Adda"],
+  ['098004', 'Borghetto Lodigiano'],
+  ['098005', 'Borgo San Giovanni'],
+  ['098006', 'Brembio'],
+  ['098008', 'Casaletto Lodigiano'],
+  ['098009', 'Casalmaiocco'],
+  ['098010', 'Casalpusterlengo'],
+  ['098011', 'Caselle Landi'],
+  ['098012', 'Caselle Lurani'],
+  ['098013', "Castelnuovo Bocca d'Adda"],
+  ['098014', "Castiglione d'Adda"],
+  ['098015', 'Castiraga Vidardo'],
+  ['098017', "Cavenago d'Adda"],
+  ['098018', "Cervignano d'Adda"],
+  ['098019', 'Codogno'],
+  ['098020', 'Comazzo'],
+  ['098021', 'Cornegliano Laudense'],
+  ['098022', 'Corno Giovine'],
+  ['098023', 'Cornovecchio'],
+  ['098024', 'Corte Palasio'],
+  ['098025', 'Crespiatica'],
+  ['098026', 'Fombio'],
+  ['098027', 'Galgagnano'],
+  ['098028', 'Graffignana'],
+  ['098029', 'Guardamiglio'],
+  ['098030', 'Livraga'],
+  ['098031', 'Lodi'],
+  ['098032', 'Lodi Vecchio'],
+  ['098033', 'Maccastorna'],
+  ['098034', 'Mairago'],
+  ['098035', 'Maleo'],
+  ['098036', 'Marudo'],
+  ['098037', 'Massalengo'],
+  ['098038', 'Meleti'],
+  ['098039', 'Merlino'],
+  ['098040', 'Montanaso Lombardo'],
+  ['098041', 'Mulazzano'],
+  ['098042', 'Orio Litta'],
+  ['098043', 'Ospedaletto Lodigiano'],
+  ['098044', 'Ossago Lodigiano'],
+  ['098045', 'Pieve Fissiraga'],
+  ['098046', 'Salerano sul Lambro'],
+  ['098047', 'San Fiorano'],
+  ['098048', 'San Martino in Strada'],
+  ['098049', 'San Rocco al Porto'],
+  ['098050', "Sant'Angelo Lodigiano"],
+  ['098051', 'Santo Stefano Lodigiano'],
+  ['098052', 'Secugnago'],
+  ['098053', 'Senna Lodigiana'],
+  ['098054', 'Somaglia'],
+  ['098055', 'Sordio'],
+  ['098056', 'Tavazzano con Villavesco'],
+  ['098057', 'Terranova dei Passerini'],
+  ['098058', 'Turano Lodigiano'],
+  ['098059', 'Valera Fratta'],
+  ['098060', 'Villanova del Sillaro'],
+  ['098061', 'Zelo Buon Persico'],
+  ['098062', 'Castelgerundo'],
+  ['099001', 'Bellaria-Igea Marina'],
+  ['099002', 'Cattolica'],
+  ['099003', 'Coriano'],
+  ['099004', 'Gemmano'],
+  ['099005', 'Misano Adriatico'],
+  ['099006', 'Mondaino'],
+  ['099008', 'Montefiore Conca'],
+  ['099009', 'Montegridolfo'],
+  ['099011', 'Morciano di Romagna'],
+  ['099013', 'Riccione'],
+  ['099014', 'Rimini'],
+  ['099015', 'Saludecio'],
+  ['099016', 'San Clemente'],
+  ['099017', 'San Giovanni in Marignano'],
+  ['099018', 'Santarcangelo di Romagna'],
+  ['099020', 'Verucchio'],
+  ['099021', 'Casteldelci'],
+  ['099022', 'Maiolo'],
+  ['099023', 'Novafeltria'],
+  ['099024', 'Pennabilli'],
+  ['099025', 'San Leo'],
+  ['099026', "Sant'Agata Feltria"],
+  ['099027', 'Talamello'],
+  ['099028', 'Poggio Torriana'],
+  ['099029', 'Montescudo-Monte Colombo'],
+  ['100001', 'Cantagallo'],
+  ['100002', 'Carmignano'],
+  ['100003', 'Montemurlo'],
+  ['100004', 'Poggio a Caiano'],
+  ['100005', 'Prato'],
+  ['100006', 'Vaiano'],
+  ['100007', 'Vernio'],
+  ['101001', 'Belvedere di Spinello'],
+  ['101002', 'Caccuri'],
+  ['101003', 'Carfizzi'],
+  ['101004', 'Casabona'],
+  ['101005', 'Castelsilano'],
+  ['101006', 'Cerenzia'],
+  ['101007', 'Cirò'],
+  ['101008', 'Cirò Marina'],
+  ['101009', 'Cotronei'],
+  ['101010', 'Crotone'],
+  ['101011', 'Crucoli'],
+  ['101012', 'Cutro'],
+  ['101013', 'Isola di Capo Rizzuto'],
+  ['101014', 'Melissa'],
+  ['101015', 'Mesoraca'],
+  ['101016', 'Pallagorio'],
+  ['101017', 'Petilia Policastro'],
+  ['101018', 'Roccabernarda'],
+  ['101019', 'Rocca di Neto'],
+  ['101020', 'San Mauro Marchesato'],
+  ['101021', "San Nicola dell'Alto"],
+  ['101022', 'Santa Severina'],
+  ['101023', 'Savelli'],
+  ['101024', 'Scandale'],
+  ['101025', 'Strongoli'],
+  ['101026', 'Umbriatico'],
+  ['101027', 'Verzino'],
+  ['102001', 'Acquaro'],
+  ['102002', 'Arena'],
+  ['102003', 'Briatico'],
+  ['102004', 'Brognaturo'],
+  ['102005', 'Capistrano'],
+  ['102006', 'Cessaniti'],
+  ['102007', 'Dasà'],
+  ['102008', 'Dinami'],
+  ['102009', 'Drapia'],
+  ['102010', 'Fabrizia'],
+  ['102011', 'Filadelfia'],
+  ['102012', 'Filandari'],
+  ['102013', 'Filogaso'],
+  ['102014', 'Francavilla Angitola'],
+  ['102015', 'Francica'],
+  ['102016', 'Gerocarne'],
+  ['102017', 'Ionadi'],
+  ['102018', 'Joppolo'],
+  ['102019', 'Limbadi'],
+  ['102020', 'Maierato'],
+  ['102021', 'Mileto'],
+  ['102022', 'Mongiana'],
+  ['102023', 'Monterosso Calabro'],
+  ['102024', 'Nardodipace'],
+  ['102025', 'Nicotera'],
+  ['102026', 'Parghelia'],
+  ['102027', 'Pizzo'],
+  ['102028', 'Pizzoni'],
+  ['102029', 'Polia'],
+  ['102030', 'Ricadi'],
+  ['102031', 'Rombiolo'],
+  ['102032', 'San Calogero'],
+  ['102033', 'San Costantino Calabro'],
+  ['102034', "San Gregorio d'Ippona"],
+  ['102035', 'San Nicola da Crissa'],
+  ['102036', "Sant'Onofrio"],
+  ['102037', 'Serra San Bruno'],
+  ['102038', 'Simbario'],
+  ['102039', 'Sorianello'],
+  ['102040', 'Soriano Calabro'],
+  ['102041', 'Spadola'],
+  ['102042', 'Spilinga'],
+  ['102043', 'Stefanaconi'],
+  ['102044', 'Tropea'],
+  ['102045', 'Vallelonga'],
+  ['102046', 'Vazzano'],
+  ['102047', 'Vibo Valentia'],
+  ['102048', 'Zaccanopoli'],
+  ['102049', 'Zambrone'],
+  ['102050', 'Zungri'],
+  ['103001', 'Antrona Schieranco'],
+  ['103002', "Anzola d'Ossola"],
+  ['103003', 'Arizzano'],
+  ['103004', 'Arola'],
+  ['103005', 'Aurano'],
+  ['103006', 'Baceno'],
+  ['103007', 'Bannio Anzino'],
+  ['103008', 'Baveno'],
+  ['103009', 'Bee'],
+  ['103010', 'Belgirate'],
+  ['103011', 'Beura-Cardezza'],
+  ['103012', 'Bognanco'],
+  ['103013', 'Brovello-Carpugnino'],
+  ['103014', 'Calasca-Castiglione'],
+  ['103015', 'Cambiasca'],
+  ['103016', 'Cannero Riviera'],
+  ['103017', 'Cannobio'],
+  ['103018', 'Caprezzo'],
+  ['103019', 'Casale Corte Cerro'],
+  ['103021', 'Ceppo Morelli'],
+  ['103022', 'Cesara'],
+  ['103023', 'Cossogno'],
+  ['103024', 'Craveggia'],
+  ['103025', 'Crevoladossola'],
+  ['103026', 'Crodo'],
+  ['103028', 'Domodossola'],
+  ['103029', 'Druogno'],
+  ['103031', 'Formazza'],
+  ['103032', 'Germagno'],
+  ['103033', 'Ghiffa'],
+  ['103034', 'Gignese'],
+  ['103035', 'Gravellona Toce'],
+  ['103036', 'Gurro'],
+  ['103037', 'Intragna'],
+  ['103038', 'Loreglia'],
+  ['103039', 'Macugnaga'],
+  ['103040', 'Madonna del Sasso'],
+  ['103041', 'Malesco'],
+  ['103042', 'Masera'],
+  ['103043', 'Massiola'],
+  ['103044', 'Mergozzo'],
+  ['103045', 'Miazzina'],
+  ['103046', 'Montecrestese'],
+  ['103047', 'Montescheno'],
+  ['103048', 'Nonio'],
+  ['103049', 'Oggebbio'],
+  ['103050', 'Omegna'],
+  ['103051', 'Ornavasso'],
+  ['103052', 'Pallanzeno'],
+  ['103053', 'Piedimulera'],
+  ['103054', 'Pieve Vergonte'],
+  ['103055', 'Premeno'],
+  ['103056', 'Premia'],
+  ['103057', 'Premosello-Chiovenda'],
+  ['103058', 'Quarna Sopra'],
+  ['103059', 'Quarna Sotto'],
+  ['103060', 'Re'],
+  ['103061', 'San Bernardino Verbano'],
+  ['103062', 'Santa Maria Maggiore'],
+  ['103064', 'Stresa'],
+  ['103065', 'Toceno'],
+  ['103066', 'Trarego Viggiona'],
+  ['103067', 'Trasquera'],
+  ['103068', 'Trontano'],
+  ['103069', 'Valstrona'],
+  ['103070', 'Vanzone con San Carlo'],
+  ['103071', 'Varzo'],
+  ['103072', 'Verbania'],
+  ['103074', 'Vignone'],
+  ['103075', 'Villadossola'],
+  ['103076', 'Villette'],
+  ['103077', 'Vogogna'],
+  ['103078', 'Borgomezzavalle'],
+  ['103079', 'Valle Cannobina'],
+  ['108001', 'Agrate Brianza'],
+  ['108002', 'Aicurzio'],
+  ['108003', 'Albiate'],
+  ['108004', 'Arcore'],
+  ['108005', 'Barlassina'],
+  ['108006', 'Bellusco'],
+  ['108007', 'Bernareggio'],
+  ['108008', 'Besana in Brianza'],
+  ['108009', 'Biassono'],
+  ['108010', 'Bovisio-Masciago'],
+  ['108011', 'Briosco'],
+  ['108012', 'Brugherio'],
+  ['108013', 'Burago di Molgora'],
+  ['108014', 'Camparada'],
+  ['108015', 'Carate Brianza'],
+  ['108016', 'Carnate'],
+  ['108017', 'Cavenago di Brianza'],
+  ['108018', 'Ceriano Laghetto'],
+  ['108019', 'Cesano Maderno'],
+  ['108020', 'Cogliate'],
+  ['108021', 'Concorezzo'],
+  ['108022', 'Correzzana'],
+  ['108023', 'Desio'],
+  ['108024', 'Giussano'],
+  ['108025', 'Lazzate'],
+  ['108026', 'Lesmo'],
+  ['108027', 'Limbiate'],
+  ['108028', 'Lissone'],
+  ['108029', 'Macherio'],
+  ['108030', 'Meda'],
+  ['108031', 'Mezzago'],
+  ['108032', 'Misinto'],
+  ['108033', 'Monza'],
+  ['108034', 'Muggiò'],
+  ['108035', 'Nova Milanese'],
+  ['108036', 'Ornago'],
+  ['108037', 'Renate'],
+  ['108038', 'Ronco Briantino'],
+  ['108039', 'Seregno'],
+  ['108040', 'Seveso'],
+  ['108041', 'Sovico'],
+  ['108042', 'Sulbiate'],
+  ['108043', 'Triuggio'],
+  ['108044', 'Usmate Velate'],
+  ['108045', 'Varedo'],
+  ['108046', 'Vedano al Lambro'],
+  ['108047', 'Veduggio con Colzano'],
+  ['108048', 'Verano Brianza'],
+  ['108049', 'Villasanta'],
+  ['108050', 'Vimercate'],
+  ['108051', 'Busnago'],
+  ['108052', 'Caponago'],
+  ['108053', "Cornate d'Adda"],
+  ['108054', 'Lentate sul Seveso'],
+  ['108055', 'Roncello'],
+  ['109001', 'Altidona'],
+  ['109002', 'Amandola'],
+  ['109003', 'Belmonte Piceno'],
+  ['109004', 'Campofilone'],
+  ['109005', 'Falerone'],
+  ['109006', 'Fermo'],
+  ['109007', "Francavilla d'Ete"],
+  ['109008', 'Grottazzolina'],
+  ['109009', 'Lapedona'],
+  ['109010', 'Magliano di Tenna'],
+  ['109011', 'Massa Fermana'],
+  ['109012', 'Monsampietro Morico'],
+  ['109013', 'Montappone'],
+  ['109014', 'Montefalcone Appennino'],
+  ['109015', 'Montefortino'],
+  ['109016', 'Monte Giberto'],
+  ['109017', 'Montegiorgio'],
+  ['109018', 'Montegranaro'],
+  ['109019', 'Monteleone di Fermo'],
+  ['109020', 'Montelparo'],
+  ['109021', 'Monte Rinaldo'],
+  ['109022', 'Monterubbiano'],
+  ['109023', 'Monte San Pietrangeli'],
+  ['109024', 'Monte Urano'],
+  ['109025', 'Monte Vidon Combatte'],
+  ['109026', 'Monte Vidon Corrado'],
+  ['109027', 'Montottone'],
+  ['109028', 'Moresco'],
+  ['109029', 'Ortezzano'],
+  ['109030', 'Pedaso'],
+  ['109031', 'Petritoli'],
+  ['109032', 'Ponzano di Fermo'],
+  ['109033', 'Porto San Giorgio'],
+  ['109034', "Porto Sant'Elpidio"],
+  ['109035', 'Rapagnano'],
+  ['109036', 'Santa Vittoria in Matenano'],
+  ['109037', "Sant'Elpidio a Mare"],
+  ['109038', 'Servigliano'],
+  ['109039', 'Smerillo'],
+  ['109040', 'Torre San Patrizio'],
+  ['110001', 'Andria'],
+  ['110002', 'Barletta'],
+  ['110003', 'Bisceglie'],
+  ['110004', 'Canosa di Puglia'],
+  ['110005', 'Margherita di Savoia'],
+  ['110006', 'Minervino Murge'],
+  ['110007', 'San Ferdinando di Puglia'],
+  ['110008', 'Spinazzola'],
+  ['110009', 'Trani'],
+  ['110010', 'Trinitapoli'],
+  ['111001', 'Arbus'],
+  ['111002', 'Armungia'],
+  ['111003', 'Ballao'],
+  ['111004', 'Barrali'],
+  ['111005', 'Barumini'],
+  ['111006', 'Buggerru'],
+  ['111007', 'Burcei'],
+  ['111008', 'Calasetta'],
+  ['111009', 'Carbonia'],
+  ['111010', 'Carloforte'],
+  ['111011', 'Castiadas'],
+  ['111012', 'Collinas'],
+  ['111013', 'Decimoputzu'],
+  ['111014', 'Dolianova'],
+  ['111015', 'Domus de Maria'],
+  ['111016', 'Domusnovas'],
+  ['111017', 'Donori'],
+  ['111018', 'Escalaplano'],
+  ['111019', 'Escolca'],
+  ['111020', 'Esterzili'],
+  ['111021', 'Fluminimaggiore'],
+  ['111022', 'Furtei'],
+  ['111023', 'Genoni'],
+  ['111024', 'Genuri'],
+  ['111025', 'Gergei'],
+  ['111026', 'Gesico'],
+  ['111027', 'Gesturi'],
+  ['111028', 'Giba'],
+  ['111029', 'Goni'],
+  ['111030', 'Gonnesa'],
+  ['111031', 'Gonnosfanadiga'],
+  ['111032', 'Guamaggiore'],
+  ['111033', 'Guasila'],
+  ['111034', 'Guspini'],
+  ['111035', 'Iglesias'],
+  ['111036', 'Isili'],
+  ['111037', 'Las Plassas'],
+  ['111038', 'Lunamatrona'],
+  ['111039', 'Mandas'],
+  ['111040', 'Masainas'],
+  ['111041', 'Monastir'],
+  ['111042', 'Muravera'],
+  ['111043', 'Musei'],
+  ['111044', 'Narcao'],
+  ['111045', 'Nuragus'],
+  ['111046', 'Nurallao'],
+  ['111047', 'Nuraminis'],
+  ['111048', 'Nurri'],
+  ['111049', 'Nuxis'],
+  ['111050', 'Orroli'],
+  ['111051', 'Ortacesus'],
+  ['111052', 'Pabillonis'],
+  ['111053', 'Pauli Arbarei'],
+  ['111054', 'Perdaxius'],
+  ['111055', 'Pimentel'],
+  ['111056', 'Piscinas'],
+  ['111057', 'Portoscuso'],
+  ['111058', 'Sadali'],
+  ['111059', 'Samassi'],
+  ['111060', 'Samatzai'],
+  ['111061', 'San Basilio'],
+  ['111062', 'San Gavino Monreale'],
+  ['111063', 'San Giovanni Suergiu'],
+  ['111064', 'San Nicolò Gerrei'],
+  ['111065', 'San Sperate'],
+  ['111066', 'San Vito'],
+  ['111067', 'Sanluri'],
+  ['111068', 'Santadi'],
+  ['111069', "Sant'Andrea Frius"],
+  ['111070', "Sant'Anna Arresi"],
+  ['111071', "Sant'Antioco"],
+  ['111072', 'Sardara'],
+  ['111073', 'Segariu'],
+  ['111074', 'Selegas'],
+  ['111075', 'Senorbì'],
+  ['111076', 'Serdiana'],
+  ['111077', 'Serramanna'],
+  ['111078', 'Serrenti'],
+  ['111079', 'Serri'],
+  ['111080', 'Setzu'],
+  ['111081', 'Seui'],
+  ['111082', 'Seulo'],
+  ['111083', 'Siddi'],
+  ['111084', 'Siliqua'],
+  ['111085', 'Silius'],
+  ['111086', 'Siurgus Donigala'],
+  ['111087', 'Soleminis'],
+  ['111088', 'Suelli'],
+  ['111089', 'Teulada'],
+  ['111090', 'Tratalias'],
+  ['111091', 'Tuili'],
+  ['111092', 'Turri'],
+  ['111093', 'Ussana'],
+  ['111094', 'Ussaramanna'],
+  ['111095', 'Vallermosa'],
+  ['111096', 'Villacidro'],
+  ['111097', 'Villamar'],
+  ['111098', 'Villamassargia'],
+  ['111099', 'Villanova Tulo'],
+  ['111100', 'Villanovaforru'],
+  ['111101', 'Villanovafranca'],
+  ['111102', 'Villaperuccio'],
+  ['111103', 'Villaputzu'],
+  ['111104', 'Villasalto'],
+  ['111105', 'Villasimius'],
+  ['111106', 'Villasor'],
+  ['111107', 'Villaspeciosa'],
+]
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+import type { CostSimulationInput } from './cost-simulator'
+import {
+  type ComparedOffer,
+  getCheapestRanges,
+  getComparisonRows,
+  getCostCurve,
+} from './offer-comparison'
+
+const createOffer = (
+  id: string,
+  fixedFee: number,
+  energyPrice: number,
+  overrides: Partial<CostSimulationInput> = {},
+): ComparedOffer => ({
+  id,
+  label: id,
+  formStates: {
+    offerDetails: { marketType: '01', clientType: '01', duration: 12 },
+    pricingConfig: { timeBandConfiguration: '01' },
+    companyComponents: {
+      companyComponents: [
+        {
+          name: 'Quota fissa',
+          description: 'Commercializzazione',
+          componentType: '01',
+          macroArea: '01',
+          priceIntervals: [{ price: fixedFee, unitOfMeasure: '01' }],
+        },
+        {
+          name: 'Prezzo energia',
+          description: 'Materia prima',
+          componentType: '01',
+          macroArea: '04',
+          priceIntervals: [{ price: energyPrice, unitOfMeasure: '03' }],
+        },
+      ],
+    },
+    ...overrides,
+  },
+})
+
+// With a fixed fee: cheaper at high consumption, break-even at 2400 kWh
+const fixedFeeOffer = createOffer('A', 96, 0.1)
+const energyOnlyOffer = createOffer('B', 0, 0.14)
+
+describe('offer-comparison', () => {
+  describe('getComparisonRows', () => {
+    it('should line up the fields of every offer', () => {
+      const rows = getComparisonRows([fixedFeeOffer, energyOnlyOffer])
+      const market = rows.find((row) => row.values[0] === 'Elettrico')
+
+      expect(market).toMatchObject({
+        values: ['Elettrico', 'Elettrico'],
+        differs: false,
+      })
+      expect(rows.map((row) => row.label)).toHaveLength(8)
+    })
+
+    it('should flag the fields that differ', () => {
+      const rows = getComparisonRows([
+        fixedFeeOffer,
+        createOffer('C', 96, 0.1, {
+          offerDetails: { marketType: '01', clientType: '01', duration: 24 },
+        }),
+      ])
+
+      expect(rows.filter((row) => row.differs)).toHaveLength(1)
+      expect(rows.find((row) => row.differs)?.values).toEqual([
+        '12 mesi',
+        '24 mesi',
+      ])
+    })
+
+    it('should name the components of each offer', () => {
+      const values = getComparisonRows([fixedFeeOffer]).map(
+        (row) => row.values[0],
+      )
+
+      expect(
+        values.some((value) =>
+          value?.endsWith(': Quota fissa, Prezzo energia'),
+        ),
+      ).toBe(true)
+    })
+  })
+
+  describe('getCostCurve', () => {
+    it('should compute the totals over the consumption levels', () => {
+      const curve = getCostCurve([fixedFeeOffer, energyOnlyOffer])
+      const first = curve.points[0]
+      const last = curve.points.at(-1)
+
+      expect(curve.marketType).toBe('01')
+      expect(curve.points).toHaveLength(10)
+      expect(first.totals).toEqual([146, 70])
+      expect(first.cheapest).toEqual([1])
+      expect(last?.totals).toEqual([596, 700])
+      expect(last?.cheapest).toEqual([0])
+    })
+
+    it('should mark every offer on a tie', () => {
+      const curve = getCostCurve([fixedFeeOffer, createOffer('C', 96, 0.1)])
+
+      expect(curve.points[0].cheapest).toEqual([0, 1])
+    })
+
+    it('should leave out offers of other markets and non-simulable offers', () => {
+      const curve = getCostCurve([
+        fixedFeeOffer,
+        createOffer('Gas', 96, 0.8, { offerDetails: { marketType: '02' } }),
+        createOffer('Non simulabile', 0, 0.05, {
+          offerDetails: { marketType: '01', offerMode: 'NON_SIMULABILE' },
+        }),
+      ])
+
+      expect(curve.excluded).toEqual([
+        { offerIndex: 1, reason: 'mercato Gas' },
+        { offerIndex: 2, reason: 'offerta non simulabile' },
+      ])
+      expect(curve.points[0].totals).toEqual([146, undefined, undefined])
+      expect(curve.points[0].cheapest).toEqual([0])
+    })
+
+    it('should return no points without a market type', () => {
+      const curve = getCostCurve([
+        createOffer('A', 96, 0.1, { offerDetails: {} }),
+      ])
+
+      expect(curve.points).toEqual([])
+    })
+  })
+
+  describe('getCheapestRanges', () => {
+    it('should group the consumption levels where the same offer wins', () => {
+      const curve = getCostCurve([fixedFeeOffer, energyOnlyOffer])
+      const ranges = getCheapestRanges(curve.points)
+
+      expect(ranges).toHaveLength(2)
+      expect(ranges[0]).toMatchObject({ offers: [1] })
+      expect(ranges[0].from.electricityKWh).toBe(500)
+      expect(ranges[0].to.electricityKWh).toBe(2000)
+      expect(ranges[1]).toMatchObject({ offers: [0] })
+      expect(ranges[1].from.electricityKWh).toBe(2500)
+      expect(ranges[1].to.electricityKWh).toBe(5000)
+    })
+  })
+})
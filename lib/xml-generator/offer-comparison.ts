@@ -0,0 +1,181 @@
+import { isSimulableOffer, MARKET_TYPE_LABELS } from './constants'
+import {
+  type ConsumptionProfile,
+  type CostSimulationInput,
+  getCostCurveProfiles,
+  simulateAnnualCost,
+} from './cost-simulator'
+import { type OfferStepKey, summarizeField } from './offer-mapping'
+import type { FormStatesInput } from './xml-form-data'
+
+/**
+ * Comparison of candidate offers (FE-4)
+ * Lines up the structure of several offers, loaded from workspace drafts or
+ * XML files, and their annual cost curves over the consumption levels, to
+ * show where each offer is the cheapest before publishing
+ */
+
+export const MAX_COMPARED_OFFERS = 5
+
+export interface ComparedOffer {
+  // "file:<name>" for XML files, the workspace id for drafts
+  id: string
+  label: string
+  formStates: FormStatesInput
+}
+
+export interface ComparisonRow {
+  label: string
+  // One per offer, undefined when the offer does not set the field
+  values: (string | undefined)[]
+  differs: boolean
+}
+
+export interface CostCurvePoint {
+  profile: ConsumptionProfile
+  // One per offer, undefined for the offers left out of the curve
+  totals: (number | undefined)[]
+  // Offers with the lowest total, more than one on a tie
+  cheapest: number[]
+}
+
+export interface ExcludedOffer {
+  offerIndex: number
+  reason: string
+}
+
+export interface CostCurve {
+  marketType?: string
+  points: CostCurvePoint[]
+  excluded: ExcludedOffer[]
+}
+
+export interface CheapestRange {
+  offers: number[]
+  from: ConsumptionProfile
+  to: ConsumptionProfile
+}
+
+// Fields lined up side by side, in the order of the wizard steps
+const COMPARISON_FIELDS: { step: OfferStepKey; field: string }[] = [
+  { step: 'offerDetails', field: 'marketType' },
+  { step: 'offerDetails', field: 'clientType' },
+  { step: 'offerDetails', field: 'offerType' },
+  { step: 'offerDetails', field: 'duration' },
+  { step: 'pricingConfig', field: 'energyPriceIndex' },
+  { step: 'pricingConfig', field: 'timeBandConfiguration' },
+  { step: 'companyComponents', field: 'companyComponents' },
+  { step: 'additionalFeatures', field: 'discounts' },
+]
+
+// Totals within half a cent are a tie
+const TIE_TOLERANCE = 0.005
+
+const getNames = (items: unknown) =>
+  Array.isArray(items)
+    ? items
+        .map((item) => (item as { name?: string }).name)
+        .filter((name): name is string => Boolean(name))
+    : []
+
+function getComparisonValue(
+  formStates: FormStatesInput,
+  step: OfferStepKey,
+  field: string,
+): string | undefined {
+  const values = formStates[step] as Record<string, unknown> | null | undefined
+  const summary = summarizeField(step, field, values)?.value
+  // Components and discounts are counted, their names tell them apart
+  const names = getNames(values?.[field])
+  return summary && names.length > 0
+    ? `${summary}: ${names.join(', ')}`
+    : summary
+}
+
+/**
+ * Structure of the offers side by side
+ * @param offers - Offers to compare
+ * @returns One row per compared field, with the rows that differ flagged
+ */
+export function getComparisonRows(offers: ComparedOffer[]): ComparisonRow[] {
+  return COMPARISON_FIELDS.map(({ step, field }) => {
+    const values = offers.map((offer) =>
+      getComparisonValue(offer.formStates, step, field),
+    )
+    return {
+      label: summarizeField(step, field, {})?.label ?? field,
+      values,
+      differs: new Set(values).size > 1,
+    }
+  })
+}
+
+/**
+ * Annual cost of every offer over the consumption levels of a market
+ * The curve follows the market of the first offer that sets one, offers of
+ * other markets and non-simulable offers are left out
+ * @param offers - Offers to compare
+ * @returns Totals per consumption level with the cheapest offers
+ */
+export function getCostCurve(offers: ComparedOffer[]): CostCurve {
+  const marketType = offers.find(
+    (offer) => offer.formStates.offerDetails?.marketType,
+  )?.formStates.offerDetails?.marketType
+
+  const excluded: ExcludedOffer[] = []
+  offers.forEach((offer, offerIndex) => {
+    const offerDetails = offer.formStates.offerDetails
+    if (offerDetails?.marketType !== marketType) {
+      excluded.push({
+        offerIndex,
+        reason: `mercato ${MARKET_TYPE_LABELS[offerDetails?.marketType ?? ''] ?? 'non specificato'}`,
+      })
+    } else if (!isSimulableOffer(offerDetails?.offerMode)) {
+      excluded.push({ offerIndex, reason: 'offerta non simulabile' })
+    }
+  })
+  const excludedIndexes = new Set(excluded.map(({ offerIndex }) => offerIndex))
+
+  const points = getCostCurveProfiles(marketType).map((profile) => {
+    const totals = offers.map((offer, offerIndex) =>
+      excludedIndexes.has(offerIndex)
+        ? undefined
+        : simulateAnnualCost(offer.formStates as CostSimulationInput, profile)
+            .total,
+    )
+    const lowest = Math.min(
+      ...totals.filter((total): total is number => total !== undefined),
+    )
+    const cheapest = totals.flatMap((total, offerIndex) =>
+      total !== undefined && total - lowest < TIE_TOLERANCE ? [offerIndex] : [],
+    )
+    return { profile, totals, cheapest }
+  })
+
+  return { marketType, points, excluded }
+}
+
+/**
+ * Consecutive consumption levels where the same offers are the cheapest
+ * @param points - Points of the cost curve
+ * @returns Ranges from the lowest to the highest consumption
+ */
+export function getCheapestRanges(points: CostCurvePoint[]): CheapestRange[] {
+  const ranges: CheapestRange[] = []
+  for (const point of points) {
+    if (point.cheapest.length === 0) {
+      continue
+    }
+    const last = ranges.at(-1)
+    if (last && last.offers.join() === point.cheapest.join()) {
+      last.to = point.profile
+    } else {
+      ranges.push({
+        offers: point.cheapest,
+        from: point.profile,
+        to: point.profile,
+      })
+    }
+  }
+  return ranges
+}
@@ -0,0 +1,321 @@
+import { describe, expect, it } from 'vitest'
+import {
+  diffOffers,
+  formatOfferDiffAsHtml,
+  formatOfferDiffAsMarkdown,
+  generateOfferDiffFilename,
+  getArrayItemKey,
+  groupOfferDiffEntries,
+} from './offer-diff'
+import { buildXML } from './xml-builder'
+import { toXMLFormData } from './xml-form-data'
+
+const createOffer = ({
+  endDate = '31/12/2099_23:59:59',
+  components = '',
+  discounts = '',
+  months = '<MESE_VALIDITA>01</MESE_VALIDITA>',
+} = {}) => `<?xml version="1.0" encoding="UTF-8"?>
+<Offerta>
+  <IdentificativiOfferta>
+    <PIVA_UTENTE>IT12345678901</PIVA_UTENTE>
+    <COD_OFFERTA>LUCE01</COD_OFFERTA>
+  </IdentificativiOfferta>
+  <ValiditaOfferta>
+    <DATA_INIZIO>01/01/2099_00:00:00</DATA_INIZIO>
+    <DATA_FINE>${endDate}</DATA_FINE>
+  </ValiditaOfferta>
+  ${components}
+  ${discounts}
+  <PeriodoValidita>${months}</PeriodoValidita>
+</Offerta>`
+
+const component = (name: string, intervals: string) => `
+  <ComponenteImpresa>
+    <NOME>${name}</NOME>
+    <DESCRIZIONE>${name}</DESCRIZIONE>
+    <TIPOLOGIA>01</TIPOLOGIA>
+    <MACROAREA>02</MACROAREA>
+    ${intervals}
+  </ComponenteImpresa>`
+
+const interval = (band: string, price: string, period = '') => `
+  <IntervalloPrezzi>
+    <FASCIA_COMPONENTE>${band}</FASCIA_COMPONENTE>
+    <PREZZO>${price}</PREZZO>
+    <UNITA_MISURA>03</UNITA_MISURA>
+    ${period}
+  </IntervalloPrezzi>`
+
+const discount = (name: string) => `
+  <Sconto>
+    <NOME>${name}</NOME>
+    <DESCRIZIONE>Sconto ${name}</DESCRIZIONE>
+  </Sconto>`
+
+describe('offer-diff', () => {
+  describe('diffOffers', () => {
+    it('should report no differences for the same offer', () => {
+      const xml = createOffer({
+        components: component('Spread', interval('01', '0.1')),
+      })
+
+      expect(diffOffers(xml, xml)).toEqual({ success: true, entries: [] })
+    })
+
+    it('should report changed prices per component and interval', () => {
+      const result = diffOffers(
+        createOffer({
+          components: component(
+            'Spread',
+            interval('01', '0.1') + interval('02', '0.08'),
+          ),
+        }),
+        createOffer({
+          components: component(
+            'Spread',
+            interval('01', '0.1') + interval('02', '0.09'),
+          ),
+        }),
+      )
+
+      expect(result.entries).toEqual([
+        {
+          section: 'ComponenteImpresa[NOME=Spread]',
+          path: 'ComponenteImpresa[NOME=Spread]/IntervalloPrezzi[FASCIA_COMPONENTE=02]/PREZZO',
+          kind: 'changed',
+          before: '0.08',
+          after: '0.09',
+        },
+      ])
+    })
+
+    it('should report a changed validity end of an interval', () => {
+      const result = diffOffers(
+        createOffer({
+          components: component(
+            'Spread',
+            interval(
+              '01',
+              '0.1',
+              '<PeriodoValidita><DURATA>6</DURATA><VALIDO_FINO>06/2099</VALIDO_FINO></PeriodoValidita>',
+            ),
+          ),
+        }),
+        createOffer({
+          components: component(
+            'Spread',
+            interval(
+              '01',
+              '0.1',
+              '<PeriodoValidita><DURATA>6</DURATA><VALIDO_FINO>12/2099</VALIDO_FINO></PeriodoValidita>',
+            ),
+          ),
+        }),
+      )
+
+      expect(result.entries).toEqual([
+        {
+          section: 'ComponenteImpresa[NOME=Spread]',
+          path: 'ComponenteImpresa[NOME=Spread]/IntervalloPrezzi[FASCIA_COMPONENTE=01, PeriodoValidita.DURATA=6]/PeriodoValidita/VALIDO_FINO',
+          kind: 'changed',
+          before: '06/2099',
+          after: '12/2099',
+        },
+      ])
+    })
+
+    it('should match the intervals of a band by their validity months', () => {
+      const months = (...values: string[]) =>
+        `<PeriodoValidita>${values
+          .map((month) => `<MESE_VALIDITA>${month}</MESE_VALIDITA>`)
+          .join('')}</PeriodoValidita>`
+      const result = diffOffers(
+        createOffer({
+          components: component(
+            'Spread',
+            interval('01', '0.1', months('01', '02')) +
+              interval('01', '0.2', months('07')),
+          ),
+        }),
+        createOffer({
+          components: component(
+            'Spread',
+            interval('01', '0.25', months('07')) +
+              interval('01', '0.1', months('01', '02')),
+          ),
+        }),
+      )
+
+      expect(result.entries).toEqual([
+        {
+          section: 'ComponenteImpresa[NOME=Spread]',
+          path: 'ComponenteImpresa[NOME=Spread]/IntervalloPrezzi[FASCIA_COMPONENTE=01, PeriodoValidita.MESE_VALIDITA=07]/PREZZO',
+          kind: 'changed',
+          before: '0.2',
+          after: '0.25',
+        },
+      ])
+    })
+
+    it('should match repeated elements by NOME instead of position', () => {
+      const result = diffOffers(
+        createOffer({
+          components:
+            component('Spread', interval('01', '0.1')) +
+            component('Quota fissa', interval('01', '5')),
+        }),
+        createOffer({
+          components:
+            component('Quota fissa', interval('01', '5')) +
+            component('Spread', interval('01', '0.1')),
+        }),
+      )
+
+      expect(result.entries).toEqual([])
+    })
+
+    it('should report added and removed discounts', () => {
+      const result = diffOffers(
+        createOffer({ discounts: discount('Benvenuto') }),
+        createOffer({ discounts: discount('Fedeltà') }),
+      )
+
+      expect(result.entries.map((entry) => [entry.path, entry.kind])).toEqual([
+        ['Sconto[NOME=Benvenuto]', 'removed'],
+        ['Sconto[NOME=Fedeltà]', 'added'],
+      ])
+    })
+
+    it('should report changed validity dates', () => {
+      const result = diffOffers(
+        createOffer(),
+        createOffer({ endDate: '30/06/2099_23:59:59' }),
+      )
+
+      expect(result.entries).toEqual([
+        {
+          section: 'ValiditaOfferta',
+          path: 'ValiditaOfferta/DATA_FINE',
+          kind: 'changed',
+          before: '31/12/2099_23:59:59',
+          after: '30/06/2099_23:59:59',
+        },
+      ])
+    })
+
+    it('should compare lists of codes as sets', () => {
+      const result = diffOffers(
+        createOffer({
+          months:
+            '<MESE_VALIDITA>01</MESE_VALIDITA><MESE_VALIDITA>02</MESE_VALIDITA>',
+        }),
+        createOffer({
+          months:
+            '<MESE_VALIDITA>03</MESE_VALIDITA><MESE_VALIDITA>01</MESE_VALIDITA>',
+        }),
+      )
+
+      expect(result.entries).toEqual([
+        {
+          section: 'PeriodoValidita',
+          path: 'PeriodoValidita/MESE_VALIDITA',
+          kind: 'removed',
+          before: '02',
+        },
+        {
+          section: 'PeriodoValidita',
+          path: 'PeriodoValidita/MESE_VALIDITA',
+          kind: 'added',
+          after: '03',
+        },
+      ])
+    })
+
+    it('should compare a draft with its generated XML', () => {
+      const xml = buildXML(
+        toXMLFormData({
+          basicInfo: { pivaUtente: 'IT12345678901', codOfferta: 'LUCE01' },
+          offerDetails: { marketType: '01', offerName: 'Luce Fissa' },
+        }),
+      )
+
+      expect(diffOffers(xml, xml).entries).toEqual([])
+    })
+
+    it('should reject files that are not SII offers', () => {
+      expect(diffOffers('<Offerta>', createOffer())).toEqual({
+        success: false,
+        entries: [],
+        error: expect.stringContaining('Versione precedente: XML non valido'),
+      })
+      expect(diffOffers(createOffer(), '<Altro />').error).toBe(
+        'Versione nuova: elemento radice <Offerta> mancante',
+      )
+    })
+  })
+
+  describe('getArrayItemKey', () => {
+    it('should fall back to the position without identifying fields', () => {
+      expect(getArrayItemKey('IntervalloPrezzi', { PREZZO: '5' }, 1)).toBe('2')
+      expect(
+        getArrayItemKey(
+          'IntervalloPrezzi',
+          { FASCIA_COMPONENTE: '01', CONSUMO_DA: '0', PREZZO: '5' },
+          0,
+        ),
+      ).toBe('FASCIA_COMPONENTE=01, CONSUMO_DA=0')
+    })
+  })
+
+  describe('reports', () => {
+    const result = diffOffers(
+      createOffer({ discounts: discount('Benvenuto') }),
+      createOffer({
+        endDate: '30/06/2099_23:59:59',
+        discounts: discount('Benvenuto &amp; Co'),
+      }),
+    )
+    const labels = { before: 'LUCE01 v1', after: 'LUCE01 | v2' }
+
+    it('should group the entries by section', () => {
+      expect([...groupOfferDiffEntries(result.entries).keys()]).toEqual([
+        'ValiditaOfferta',
+        'Sconto[NOME=Benvenuto]',
+        'Sconto[NOME=Benvenuto & Co]',
+      ])
+    })
+
+    it('should format the diff as Markdown', () => {
+      const markdown = formatOfferDiffAsMarkdown(result.entries, labels)
+
+      expect(markdown).toContain('# Confronto offerte SII')
+      expect(markdown).toContain('- Differenze: 3')
+      expect(markdown).toContain('## ValiditaOfferta')
+      expect(markdown).toContain(
+        '| ValiditaOfferta/DATA_FINE | Modificato | 31/12/2099_23:59:59 | 30/06/2099_23:59:59 |',
+      )
+      expect(markdown).toContain('| Sconto[NOME=Benvenuto] | Rimosso | — | — |')
+    })
+
+    it('should format the diff as escaped HTML', () => {
+      const html = formatOfferDiffAsHtml(result.entries, labels)
+
+      expect(html).toContain('<li>Versione nuova: LUCE01 | v2</li>')
+      expect(html).toContain('<h2>Sconto[NOME=Benvenuto &amp; Co]</h2>')
+      expect(html).toContain('<tr class="added">')
+      expect(html).not.toContain('& Co')
+    })
+  })
+
+  it('should generate report file names by format', () => {
+    const date = new Date(2026, 9, 19)
+
+    expect(generateOfferDiffFilename('markdown', date)).toBe(
+      'CONFRONTO_OFFERTE_20261019.md',
+    )
+    expect(generateOfferDiffFilename('html', date)).toBe(
+      'CONFRONTO_OFFERTE_20261019.html',
+    )
+  })
+})
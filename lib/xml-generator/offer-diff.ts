@@ -0,0 +1,449 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser'
+import { downloadFile } from './xml-builder'
+import { REPEATABLE_ELEMENTS } from './xml-importer'
+
+/**
+ * Semantic diff between two SII offers
+ * Compares two offer XMLs element by element, matching repeated elements
+ * by their identifying fields (NOME, FASCIA_COMPONENTE...) instead of their
+ * position, and formats the result as a Markdown or HTML report
+ */
+
+type XMLNode = { [key: string]: XMLValue }
+type XMLValue = string | XMLNode | XMLValue[]
+
+export type OfferDiffKind = 'added' | 'removed' | 'changed'
+
+export type OfferDiffEntry = {
+  // Top-level element of <Offerta> the change belongs to
+  section: string
+  // Slash separated path, repeated elements carry their match key in brackets
+  path: string
+  kind: OfferDiffKind
+  // Text value, undefined for whole elements added or removed
+  before?: string
+  after?: string
+}
+
+export type OfferDiffResult = {
+  success: boolean
+  entries: OfferDiffEntry[]
+  error?: string
+}
+
+export type OfferDiffReportFormat = 'markdown' | 'html'
+
+export type OfferDiffLabels = {
+  before: string
+  after: string
+}
+
+export const OFFER_DIFF_KIND_LABELS: Record<OfferDiffKind, string> = {
+  added: 'Aggiunto',
+  removed: 'Rimosso',
+  changed: 'Modificato',
+}
+
+// Fields identifying a repeated element, elements with a NOME are matched by it
+// Nested fields are separated by dots, fields that are not set are left out
+const ARRAY_MATCH_KEYS: Record<string, string[]> = {
+  IntervalloPrezzi: [
+    'FASCIA_COMPONENTE',
+    'CONSUMO_DA',
+    'PeriodoValidita.DURATA',
+    'PeriodoValidita.MESE_VALIDITA',
+  ],
+  PREZZISconto: ['TIPOLOGIA', 'VALIDO_DA'],
+  MetodoPagamento: ['MODALITA_PAGAMENTO'],
+  CondizioniContrattuali: ['TIPOLOGIA_CONDIZIONE'],
+}
+const DEFAULT_MATCH_KEYS = ['NOME']
+
+const REPORT_TITLE = 'Confronto offerte SII'
+
+// Keep codes such as "01" as strings, the same text is compared on both sides
+const xmlParser = new XMLParser({
+  ignoreAttributes: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (tagName) => REPEATABLE_ELEMENTS.has(tagName),
+})
+
+const isNode = (value: XMLValue | undefined): value is XMLNode =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const formatValue = (value: XMLValue): string => {
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(', ')
+  }
+  if (isNode(value)) {
+    return Object.entries(value)
+      .map(([key, child]) => `${key}: ${formatValue(child)}`)
+      .join('; ')
+  }
+  return value
+}
+
+const joinPath = (parent: string, segment: string) =>
+  parent ? `${parent}/${segment}` : segment
+
+// Elements directly under <Offerta> start their own section
+const getSection = (section: string, path: string) => section || path
+
+const getField = (item: XMLNode, field: string): XMLValue | undefined => {
+  let current: XMLValue | undefined = item
+  for (const key of field.split('.')) {
+    current = isNode(current) ? current[key] : undefined
+  }
+  return current
+}
+
+const toArray = (value: XMLValue | undefined): XMLValue[] => {
+  if (value === undefined) {
+    return []
+  }
+  return Array.isArray(value) ? value : [value]
+}
+
+/**
+ * Label identifying an element of a repeated list
+ *
+ * @param name - Element name
+ * @param item - Element content
+ * @param index - Position in the list, used when no identifying field is set
+ * @returns The match key, e.g. "NOME=Spread PUN" or "2"
+ */
+export function getArrayItemKey(
+  name: string,
+  item: XMLValue,
+  index: number,
+): string {
+  const fields = ARRAY_MATCH_KEYS[name] ?? DEFAULT_MATCH_KEYS
+  const parts = isNode(item)
+    ? fields.flatMap((field) => {
+        const value = getField(item, field)
+        return value === undefined ? [] : [`${field}=${formatValue(value)}`]
+      })
+    : []
+  return parts.length > 0 ? parts.join(', ') : String(index + 1)
+}
+
+// Keys are made unique so repeated identifiers are matched in order
+const keyItems = (name: string, items: XMLValue[]) => {
+  const keyed = new Map<string, XMLValue>()
+  for (const [index, item] of items.entries()) {
+    const key = getArrayItemKey(name, item, index)
+    let unique = key
+    for (let occurrence = 2; keyed.has(unique); occurrence++) {
+      unique = `${key} #${occurrence}`
+    }
+    keyed.set(unique, item)
+  }
+  return keyed
+}
+
+type DiffTarget = {
+  path: string
+  section: string
+  entries: OfferDiffEntry[]
+}
+
+const pushEntry = (
+  { path, section, entries }: DiffTarget,
+  entry: Omit<OfferDiffEntry, 'section' | 'path'>,
+) => {
+  entries.push({ section: getSection(section, path), path, ...entry })
+}
+
+const diffPrimitiveArrays = (
+  before: XMLValue[],
+  after: XMLValue[],
+  target: DiffTarget,
+) => {
+  const beforeValues = new Set(before.map(formatValue))
+  const afterValues = new Set(after.map(formatValue))
+  for (const value of beforeValues) {
+    if (!afterValues.has(value)) {
+      pushEntry(target, { kind: 'removed', before: value })
+    }
+  }
+  for (const value of afterValues) {
+    if (!beforeValues.has(value)) {
+      pushEntry(target, { kind: 'added', after: value })
+    }
+  }
+}
+
+const diffArrays = (
+  name: string,
+  before: XMLValue[],
+  after: XMLValue[],
+  target: DiffTarget,
+) => {
+  if ([...before, ...after].every((item) => !isNode(item))) {
+    diffPrimitiveArrays(before, after, target)
+    return
+  }
+
+  const beforeItems = keyItems(name, before)
+  const afterItems = keyItems(name, after)
+  const keys = new Set([...beforeItems.keys(), ...afterItems.keys()])
+  for (const key of keys) {
+    const path = `${target.path}[${key}]`
+    diffValues(name, beforeItems.get(key), afterItems.get(key), {
+      ...target,
+      path,
+      section: getSection(target.section, path),
+    })
+  }
+}
+
+const diffNodes = (before: XMLNode, after: XMLNode, target: DiffTarget) => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  for (const key of keys) {
+    const path = joinPath(target.path, key)
+    // Repeated elements get their section once the item key is known
+    const section = REPEATABLE_ELEMENTS.has(key)
+      ? target.section
+      : getSection(target.section, path)
+    diffValues(key, before[key], after[key], { ...target, path, section })
+  }
+}
+
+function diffValues(
+  name: string,
+  before: XMLValue | undefined,
+  after: XMLValue | undefined,
+  target: DiffTarget,
+) {
+  if (REPEATABLE_ELEMENTS.has(name) && !isNode(before) && !isNode(after)) {
+    diffArrays(name, toArray(before), toArray(after), target)
+    return
+  }
+  if (before === undefined && after === undefined) {
+    return
+  }
+  if (before === undefined || after === undefined) {
+    const value = before ?? after
+    const text = isNode(value) ? undefined : formatValue(value as XMLValue)
+    pushEntry(
+      target,
+      before === undefined
+        ? { kind: 'added', after: text }
+        : { kind: 'removed', before: text },
+    )
+    return
+  }
+
+  if (isNode(before) && isNode(after)) {
+    diffNodes(before, after, target)
+    return
+  }
+
+  const beforeText = formatValue(before)
+  const afterText = formatValue(after)
+  if (beforeText !== afterText) {
+    pushEntry(target, { kind: 'changed', before: beforeText, after: afterText })
+  }
+}
+
+const parseOffer = (xmlString: string, label: string) => {
+  const syntaxCheck = XMLValidator.validate(xmlString)
+  if (syntaxCheck !== true) {
+    return {
+      error: `${label}: XML non valido alla riga ${syntaxCheck.err.line}: ${syntaxCheck.err.msg}`,
+    }
+  }
+
+  const parsed = xmlParser.parse(xmlString) as XMLNode
+  if (!isNode(parsed.Offerta)) {
+    return { error: `${label}: elemento radice <Offerta> mancante` }
+  }
+  return { offerta: parsed.Offerta }
+}
+
+/**
+ * Compare two versions of an SII offer
+ *
+ * @param beforeXML - XML of the previous version
+ * @param afterXML - XML of the new version
+ * @returns The changed elements, in document order
+ */
+export function diffOffers(
+  beforeXML: string,
+  afterXML: string,
+): OfferDiffResult {
+  const before = parseOffer(beforeXML, 'Versione precedente')
+  const after = parseOffer(afterXML, 'Versione nuova')
+  if (!(before.offerta && after.offerta)) {
+    return {
+      success: false,
+      entries: [],
+      error: before.error ?? after.error,
+    }
+  }
+
+  const entries: OfferDiffEntry[] = []
+  diffNodes(before.offerta, after.offerta, { path: '', section: '', entries })
+  return { success: true, entries }
+}
+
+/**
+ * Group the diff entries by top-level element of <Offerta>
+ *
+ * @param entries - Diff entries
+ * @returns Entries of each section, in order of first appearance
+ */
+export function groupOfferDiffEntries(
+  entries: OfferDiffEntry[],
+): Map<string, OfferDiffEntry[]> {
+  const groups = new Map<string, OfferDiffEntry[]>()
+  for (const entry of entries) {
+    groups.set(entry.section, [...(groups.get(entry.section) ?? []), entry])
+  }
+  return groups
+}
+
+const escapeMarkdownCell = (text: string | undefined) =>
+  text ? text.replaceAll('|', '\\|').replaceAll('\n', ' ') : '—'
+
+/**
+ * Format a diff as a Markdown report
+ *
+ * @param entries - Diff entries
+ * @param labels - Names of the compared versions
+ * @returns Markdown document with one table per section
+ */
+export function formatOfferDiffAsMarkdown(
+  entries: OfferDiffEntry[],
+  labels: OfferDiffLabels,
+): string {
+  const lines = [
+    `# ${REPORT_TITLE}`,
+    '',
+    `- Versione precedente: ${labels.before}`,
+    `- Versione nuova: ${labels.after}`,
+    `- Differenze: ${entries.length}`,
+  ]
+
+  for (const [section, sectionEntries] of groupOfferDiffEntries(entries)) {
+    lines.push(
+      '',
+      `## ${section}`,
+      '',
+      '| Elemento | Modifica | Prima | Dopo |',
+      '| --- | --- | --- | --- |',
+      ...sectionEntries.map(
+        (entry) =>
+          `| ${escapeMarkdownCell(entry.path)} | ${OFFER_DIFF_KIND_LABELS[entry.kind]} | ${escapeMarkdownCell(entry.before)} | ${escapeMarkdownCell(entry.after)} |`,
+      ),
+    )
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+const escapeHTML = (text: string) =>
+  text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;')
+
+const htmlCell = (text: string | undefined) =>
+  `<td>${text ? escapeHTML(text) : '—'}</td>`
+
+/**
+ * Format a diff as a standalone HTML report
+ *
+ * @param entries - Diff entries
+ * @param labels - Names of the compared versions
+ * @returns HTML document with one table per section
+ */
+export function formatOfferDiffAsHtml(
+  entries: OfferDiffEntry[],
+  labels: OfferDiffLabels,
+): string {
+  const sections = [...groupOfferDiffEntries(entries)].map(
+    ([section, sectionEntries]) =>
+      [
+        `<h2>${escapeHTML(section)}</h2>`,
+        '<table>',
+        '<thead><tr><th>Elemento</th><th>Modifica</th><th>Prima</th><th>Dopo</th></tr></thead>',
+        '<tbody>',
+        ...sectionEntries.map(
+          (entry) =>
+            `<tr class="${entry.kind}">${htmlCell(entry.path)}${htmlCell(OFFER_DIFF_KIND_LABELS[entry.kind])}${htmlCell(entry.before)}${htmlCell(entry.after)}</tr>`,
+        ),
+        '</tbody>',
+        '</table>',
+      ].join('\n'),
+  )
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="it">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${REPORT_TITLE}</title>`,
+    '<style>table{border-collapse:collapse}td,th{border:1px solid #ccc;padding:4px 8px;text-align:left}.added{background:#ecfdf5}.removed{background:#fef2f2}.changed{background:#fffbeb}</style>',
+    '</head>',
+    '<body>',
+    `<h1>${REPORT_TITLE}</h1>`,
+    '<ul>',
+    `<li>Versione precedente: ${escapeHTML(labels.before)}</li>`,
+    `<li>Versione nuova: ${escapeHTML(labels.after)}</li>`,
+    `<li>Differenze: ${entries.length}</li>`,
+    '</ul>',
+    ...sections,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Generate the file name of a diff report
+ * @param format - Report format
+ * @param date - Generation date
+ * @returns Filename in format CONFRONTO_OFFERTE_<YYYYMMDD>.<md|html>
+ */
+export function generateOfferDiffFilename(
+  format: OfferDiffReportFormat,
+  date: Date = new Date(),
+): string {
+  const day = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('')
+  return `CONFRONTO_OFFERTE_${day}.${format === 'html' ? 'html' : 'md'}`
+}
+
+/**
+ * Download a diff report
+ * @param entries - Diff entries
+ * @param labels - Names of the compared versions
+ * @param format - Report format
+ * @returns Success status and optional error message
+ */
+export function downloadOfferDiff(
+  entries: OfferDiffEntry[],
+  labels: OfferDiffLabels,
+  format: OfferDiffReportFormat,
+): { success: boolean; error?: string } {
+  const content =
+    format === 'html'
+      ? formatOfferDiffAsHtml(entries, labels)
+      : formatOfferDiffAsMarkdown(entries, labels)
+  const type =
+    format === 'html'
+      ? 'text/html;charset=utf-8'
+      : 'text/markdown;charset=utf-8'
+
+  return downloadFile(
+    () => new Blob([content], { type }),
+    generateOfferDiffFilename(format),
+  )
+}
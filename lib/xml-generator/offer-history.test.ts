@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createOfferSnapshot,
+  diffOfferSnapshots,
+  formatOfferHistoryAsCSV,
+  formatOfferHistoryAsJSON,
+  generateOfferHistoryFilename,
+  getExpiredOfferSnapshots,
+  isUnchangedSinceLastSnapshot,
+  listOfferSnapshots,
+} from './offer-history'
+import type { FormStatesInput } from './xml-form-data'
+
+// Regex patterns for testing
+const EXPORT_ROW_REGEX =
+  /^2026-10-19T09:30:00\.000Z;Luce Fissa;Esportazione;AGGIORNAMENTO;IT12345678901_AGGIORNAMENTO_LUCE_FISSA\.XML;NON VALIDO;\d+;/
+
+const SAVED_AT = new Date('2026-10-19T08:00:00Z')
+const EXPORTED_AT = new Date('2026-10-19T09:30:00Z')
+
+const formStates: FormStatesInput = {
+  basicInfo: {
+    pivaUtente: 'IT12345678901',
+    codOfferta: 'LUCE01',
+    action: 'AGGIORNAMENTO',
+  },
+  offerDetails: { marketType: '01', offerName: 'Luce Fissa' },
+}
+
+describe('offer-history', () => {
+  describe('createOfferSnapshot', () => {
+    it('should record timestamp, action and file name of the offer', () => {
+      const snapshot = createOfferSnapshot(
+        'offer-1',
+        formStates,
+        'save',
+        SAVED_AT,
+        'snapshot-1',
+      )
+
+      expect(snapshot).toMatchObject({
+        id: 'snapshot-1',
+        offerId: 'offer-1',
+        offerName: 'Luce Fissa',
+        event: 'save',
+        timestamp: '2026-10-19T08:00:00.000Z',
+        action: 'AGGIORNAMENTO',
+        filename: 'IT12345678901_AGGIORNAMENTO_LUCE_FISSA.XML',
+        formStates,
+      })
+    })
+
+    it('should record the validation outcome of the generated XML', () => {
+      const { validation } = createOfferSnapshot('offer-1', formStates, 'save')
+
+      expect(validation.isValid).toBe(false)
+      expect(validation.errorCount).toBeGreaterThan(0)
+      expect(validation.summary).not.toBe('')
+    })
+
+    it('should default the action to INSERIMENTO', () => {
+      const snapshot = createOfferSnapshot('offer-1', {}, 'export')
+
+      expect(snapshot.action).toBe('INSERIMENTO')
+      expect(snapshot.filename).toBe('IT00000000000_INSERIMENTO_OFFERTA.XML')
+    })
+  })
+
+  describe('diffOfferSnapshots', () => {
+    it('should list the XML changes between two snapshots', () => {
+      const before = createOfferSnapshot('offer-1', formStates, 'save')
+      const after = createOfferSnapshot(
+        'offer-1',
+        {
+          ...formStates,
+          offerDetails: { marketType: '01', offerName: 'Luce Base' },
+        },
+        'save',
+      )
+
+      const result = diffOfferSnapshots(before, after)
+
+      expect(result.success).toBe(true)
+      expect(result.entries).toEqual([
+        expect.objectContaining({
+          path: 'DettaglioOfferta/NOME_OFFERTA',
+          kind: 'changed',
+          before: 'Luce Fissa',
+          after: 'Luce Base',
+        }),
+      ])
+    })
+  })
+
+  describe('export', () => {
+    const snapshots = [
+      createOfferSnapshot('offer-1', formStates, 'export', EXPORTED_AT, 's2'),
+      createOfferSnapshot('offer-1', formStates, 'save', SAVED_AT, 's1'),
+    ]
+
+    it('should write one CSV row per snapshot', () => {
+      const [header, first, second] =
+        formatOfferHistoryAsCSV(snapshots).split('\n')
+
+      expect(header).toBe(
+        'DATA;OFFERTA;EVENTO;AZIONE;NOME_FILE;ESITO;ERRORI;DETTAGLIO',
+      )
+      expect(first).toMatch(EXPORT_ROW_REGEX)
+      expect(second).toContain(';Salvataggio;')
+    })
+
+    it('should quote CSV cells with delimiters and quotes', () => {
+      const [snapshot] = snapshots
+      const csv = formatOfferHistoryAsCSV([
+        { ...snapshot, offerName: 'Luce "Casa"; Verde' },
+      ])
+
+      expect(csv).toContain(';"Luce ""Casa""; Verde";')
+    })
+
+    it('should keep spreadsheets from evaluating CSV cells as formulas', () => {
+      const [snapshot] = snapshots
+      const csv = formatOfferHistoryAsCSV([
+        { ...snapshot, offerName: '=HYPERLINK("http://x")' },
+        { ...snapshot, offerName: '@SUM(A1)' },
+        { ...snapshot, offerName: '+39 Luce' },
+        { ...snapshot, offerName: '-10% Gas' },
+      ])
+
+      expect(csv).toContain(';"\'=HYPERLINK(""http://x"")";')
+      expect(csv).toContain(";'@SUM(A1);")
+      expect(csv).toContain(";'+39 Luce;")
+      expect(csv).toContain(";'-10% Gas;")
+    })
+
+    it('should keep the form data in the JSON log', () => {
+      expect(JSON.parse(formatOfferHistoryAsJSON(snapshots))).toEqual(snapshots)
+    })
+
+    it('should name the log after the export day', () => {
+      expect(generateOfferHistoryFilename('csv', EXPORTED_AT)).toBe(
+        'CRONOLOGIA_OFFERTE_20261019.csv',
+      )
+      expect(generateOfferHistoryFilename('json', EXPORTED_AT)).toBe(
+        'CRONOLOGIA_OFFERTE_20261019.json',
+      )
+    })
+  })
+
+  describe('retention', () => {
+    it('should detect a save without changes since the latest snapshot', () => {
+      const snapshots = [
+        createOfferSnapshot('offer-1', formStates, 'save', SAVED_AT, 's1'),
+        createOfferSnapshot(
+          'offer-1',
+          { ...formStates, offerDetails: { offerName: 'Luce Base' } },
+          'save',
+          EXPORTED_AT,
+          's2',
+        ),
+      ]
+
+      expect(isUnchangedSinceLastSnapshot(snapshots, formStates)).toBe(false)
+      expect(
+        isUnchangedSinceLastSnapshot(snapshots.slice(0, 1), formStates),
+      ).toBe(true)
+      expect(isUnchangedSinceLastSnapshot([], formStates)).toBe(false)
+    })
+
+    it('should expire the oldest saves of each offer past the limit', () => {
+      const at = (minutes: number) =>
+        new Date(SAVED_AT.getTime() + minutes * 60_000)
+      const snapshots = [
+        createOfferSnapshot('offer-1', formStates, 'save', at(0), 'a0'),
+        createOfferSnapshot('offer-1', formStates, 'export', at(1), 'a1'),
+        createOfferSnapshot('offer-1', formStates, 'save', at(2), 'a2'),
+        createOfferSnapshot('offer-1', formStates, 'save', at(3), 'a3'),
+        createOfferSnapshot('offer-2', formStates, 'save', at(0), 'b0'),
+      ]
+
+      expect(
+        getExpiredOfferSnapshots(snapshots, 2).map((snapshot) => snapshot.id),
+      ).toEqual(['a0'])
+    })
+  })
+
+  describe('storage', () => {
+    it('should reject when IndexedDB is not available', async () => {
+      await expect(listOfferSnapshots('offer-1')).rejects.toThrow(
+        'IndexedDB non è disponibile in questo browser',
+      )
+    })
+  })
+})
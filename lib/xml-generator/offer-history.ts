@@ -0,0 +1,353 @@
+import { ACTION_TYPES } from './constants'
+import { diffOffers, type OfferDiffResult } from './offer-diff'
+import {
+  getWorkspaceOfferName,
+  requestToPromise,
+  runOnWorkspaceStore,
+  runWorkspaceTransaction,
+  WORKSPACE_HISTORY_STORE_NAME,
+} from './offer-workspace'
+import { resolveSpecVersion } from './spec-registry'
+import { validateOfferXML } from './xml-api'
+import {
+  buildXML,
+  downloadFile,
+  generateXMLFilename,
+  PLACEHOLDER_PIVA_UTENTE,
+} from './xml-builder'
+import { type FormStatesInput, toXMLFormData } from './xml-form-data'
+
+/**
+ * Audit trail of the offers (FR-7.1–7.3)
+ * Every save of the wizard that changes the offer and every XML export
+ * records a snapshot of the offer in the workspace database, with the file
+ * name and the validation outcome of that moment. Snapshots can be compared,
+ * restored into the wizard and exported as a CSV or JSON log
+ */
+
+export type OfferHistoryEvent = 'save' | 'export'
+
+export const OFFER_HISTORY_EVENT_LABELS: Record<OfferHistoryEvent, string> = {
+  save: 'Salvataggio',
+  export: 'Esportazione',
+}
+
+export type OfferHistoryFormat = 'csv' | 'json'
+
+export type OfferSnapshotValidation = {
+  isValid: boolean
+  errorCount: number
+  summary: string
+}
+
+export type OfferSnapshot = {
+  id: string
+  // Workspace record the snapshot belongs to
+  offerId: string
+  offerName: string
+  event: OfferHistoryEvent
+  timestamp: string
+  // INSERIMENTO or AGGIORNAMENTO
+  action: string
+  filename: string
+  validation: OfferSnapshotValidation
+  formStates: FormStatesInput
+}
+
+// Save snapshots kept for each offer, export snapshots are never dropped
+export const OFFER_HISTORY_SAVE_LIMIT = 50
+
+const CSV_DELIMITER = ';'
+const CSV_QUOTE_REGEX = /[";\r\n]/
+// Spreadsheet applications evaluate cells starting with these as formulas
+const CSV_FORMULA_REGEX = /^[=+\-@]/
+const CSV_HEADER = [
+  'DATA',
+  'OFFERTA',
+  'EVENTO',
+  'AZIONE',
+  'NOME_FILE',
+  'ESITO',
+  'ERRORI',
+  'DETTAGLIO',
+]
+
+const buildSnapshotXML = (formStates: FormStatesInput) =>
+  buildXML(
+    toXMLFormData(formStates),
+    resolveSpecVersion(formStates.basicInfo?.specVersion),
+  )
+
+// Outcome of the same checks as the download, drafts are rarely valid
+const validateSnapshot = (
+  formStates: FormStatesInput,
+): OfferSnapshotValidation => {
+  try {
+    const validation = validateOfferXML(
+      buildSnapshotXML(formStates),
+      formStates.offerDetails?.offerMode,
+      resolveSpecVersion(formStates.basicInfo?.specVersion),
+    )
+    return {
+      isValid: validation.isValid,
+      errorCount: validation.errors.filter(
+        (error) => error.severity === 'error',
+      ).length,
+      summary: validation.summary,
+    }
+  } catch {
+    return {
+      isValid: false,
+      errorCount: 1,
+      summary: 'Errore nella generazione del XML',
+    }
+  }
+}
+
+/**
+ * Records the state of an offer at a save or an export
+ *
+ * @param offerId - Workspace record of the offer
+ * @param formStates - Wizard form states
+ * @param event - What produced the snapshot
+ * @param now - Snapshot date, defaults to now
+ * @param id - Snapshot identifier, a random UUID by default
+ * @returns The snapshot with file name and validation outcome
+ */
+export function createOfferSnapshot(
+  offerId: string,
+  formStates: FormStatesInput,
+  event: OfferHistoryEvent,
+  now: Date = new Date(),
+  id: string = crypto.randomUUID(),
+): OfferSnapshot {
+  const action = formStates.basicInfo?.action || ACTION_TYPES.INSERIMENTO
+
+  return {
+    id,
+    offerId,
+    offerName: getWorkspaceOfferName(formStates),
+    event,
+    timestamp: now.toISOString(),
+    action,
+    filename: generateXMLFilename(
+      formStates.basicInfo?.pivaUtente || PLACEHOLDER_PIVA_UTENTE,
+      formStates.offerDetails?.offerName || 'OFFERTA',
+      action,
+    ),
+    validation: validateSnapshot(formStates),
+    formStates: JSON.parse(JSON.stringify(formStates)),
+  }
+}
+
+/**
+ * Changes between two snapshots, on the XML each of them generates
+ *
+ * @param before - Older snapshot
+ * @param after - Newer snapshot
+ * @returns The changed elements, or the error when a snapshot has no XML
+ */
+export function diffOfferSnapshots(
+  before: OfferSnapshot,
+  after: OfferSnapshot,
+): OfferDiffResult {
+  try {
+    return diffOffers(
+      buildSnapshotXML(before.formStates),
+      buildSnapshotXML(after.formStates),
+    )
+  } catch {
+    return {
+      success: false,
+      entries: [],
+      error: 'Impossibile generare il XML di una delle versioni',
+    }
+  }
+}
+
+const toCSVCell = (cell: string) => {
+  const value = CSV_FORMULA_REGEX.test(cell) ? `'${cell}` : cell
+  return CSV_QUOTE_REGEX.test(value)
+    ? `"${value.replaceAll('"', '""')}"`
+    : value
+}
+
+/**
+ * Format the log as CSV, one row per snapshot without the form data
+ *
+ * @param snapshots - Snapshots of the log
+ * @returns CSV document separated by semicolons
+ */
+export function formatOfferHistoryAsCSV(snapshots: OfferSnapshot[]): string {
+  const rows = snapshots.map((snapshot) => [
+    snapshot.timestamp,
+    snapshot.offerName,
+    OFFER_HISTORY_EVENT_LABELS[snapshot.event],
+    snapshot.action,
+    snapshot.filename,
+    snapshot.validation.isValid ? 'VALIDO' : 'NON VALIDO',
+    String(snapshot.validation.errorCount),
+    snapshot.validation.summary,
+  ])
+
+  return [CSV_HEADER, ...rows]
+    .map((row) => row.map(toCSVCell).join(CSV_DELIMITER))
+    .join('\n')
+}
+
+/**
+ * Format the log as JSON, with the form data of every snapshot
+ *
+ * @param snapshots - Snapshots of the log
+ * @returns Indented JSON array
+ */
+export function formatOfferHistoryAsJSON(snapshots: OfferSnapshot[]): string {
+  return JSON.stringify(snapshots, null, 2)
+}
+
+/**
+ * Generate the file name of the exported log
+ * @param format - Log format
+ * @param date - Export date
+ * @returns Filename in format CRONOLOGIA_OFFERTE_<YYYYMMDD>.<csv|json>
+ */
+export function generateOfferHistoryFilename(
+  format: OfferHistoryFormat,
+  date: Date = new Date(),
+): string {
+  const day = [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('')
+  return `CRONOLOGIA_OFFERTE_${day}.${format}`
+}
+
+/**
+ * Download the log
+ * @param snapshots - Snapshots of the log
+ * @param format - Log format
+ * @returns Success status and optional error message
+ */
+export function downloadOfferHistory(
+  snapshots: OfferSnapshot[],
+  format: OfferHistoryFormat,
+): { success: boolean; error?: string } {
+  // The BOM lets spreadsheet applications read the CSV as UTF-8
+  const content =
+    format === 'csv'
+      ? `\uFEFF${formatOfferHistoryAsCSV(snapshots)}`
+      : formatOfferHistoryAsJSON(snapshots)
+  const type =
+    format === 'csv'
+      ? 'text/csv;charset=utf-8'
+      : 'application/json;charset=utf-8'
+
+  return downloadFile(
+    () => new Blob([content], { type }),
+    generateOfferHistoryFilename(format),
+  )
+}
+
+/**
+ * Lists the snapshots of the log
+ *
+ * @param offerId - Workspace record to filter on, every offer by default
+ * @returns The snapshots, most recent first
+ */
+export async function listOfferSnapshots(
+  offerId?: string,
+): Promise<OfferSnapshot[]> {
+  const snapshots = await runOnWorkspaceStore<OfferSnapshot[]>(
+    WORKSPACE_HISTORY_STORE_NAME,
+    'readonly',
+    (store) =>
+      offerId ? store.index('offerId').getAll(offerId) : store.getAll(),
+  )
+  return snapshots.sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+}
+
+/**
+ * Checks whether a save would record the same data as the latest snapshot
+ *
+ * @param snapshots - Snapshots of the offer
+ * @param formStates - Wizard form states
+ * @returns True if the most recent snapshot holds the same form states
+ */
+export function isUnchangedSinceLastSnapshot(
+  snapshots: OfferSnapshot[],
+  formStates: FormStatesInput,
+): boolean {
+  const [latest] = [...snapshots].sort((a, b) =>
+    b.timestamp.localeCompare(a.timestamp),
+  )
+  return (
+    latest !== undefined &&
+    JSON.stringify(latest.formStates) === JSON.stringify(formStates)
+  )
+}
+
+/**
+ * Save snapshots beyond the retention limit of each offer
+ *
+ * @param snapshots - Snapshots of the log
+ * @param limit - Save snapshots kept for each offer
+ * @returns The oldest save snapshots of every offer past the limit
+ */
+export function getExpiredOfferSnapshots(
+  snapshots: OfferSnapshot[],
+  limit: number = OFFER_HISTORY_SAVE_LIMIT,
+): OfferSnapshot[] {
+  const kept = new Map<string, number>()
+  return [...snapshots]
+    .filter((snapshot) => snapshot.event === 'save')
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .filter((snapshot) => {
+      const count = (kept.get(snapshot.offerId) ?? 0) + 1
+      kept.set(snapshot.offerId, count)
+      return count > limit
+    })
+}
+
+/**
+ * Records a snapshot of an offer in the log
+ * A save is skipped when the data matches the latest snapshot of the offer,
+ * and the oldest saves past OFFER_HISTORY_SAVE_LIMIT are dropped
+ *
+ * @param offerId - Workspace record of the offer
+ * @param formStates - Wizard form states
+ * @param event - What produced the snapshot
+ * @returns The stored snapshot, undefined if the save was skipped
+ */
+export async function recordOfferSnapshot(
+  offerId: string,
+  formStates: FormStatesInput,
+  event: OfferHistoryEvent,
+): Promise<OfferSnapshot | undefined> {
+  const snapshot = createOfferSnapshot(offerId, formStates, event)
+  return await runWorkspaceTransaction(
+    [WORKSPACE_HISTORY_STORE_NAME],
+    'readwrite',
+    async (transaction) => {
+      const store = transaction.objectStore(WORKSPACE_HISTORY_STORE_NAME)
+      const snapshots = await requestToPromise<OfferSnapshot[]>(
+        store.index('offerId').getAll(offerId),
+      )
+      if (
+        event === 'save' &&
+        isUnchangedSinceLastSnapshot(snapshots, snapshot.formStates)
+      ) {
+        return
+      }
+
+      store.put(snapshot)
+      for (const expired of getExpiredOfferSnapshots([
+        ...snapshots,
+        snapshot,
+      ])) {
+        store.delete(expired.id)
+      }
+      return snapshot
+    },
+  )
+}
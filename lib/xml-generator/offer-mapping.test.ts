@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import {
+  OFFER_FIELD_MAPPINGS,
+  type OfferStepKey,
+  summarizeField,
+  summarizeStep,
+  toXMLPath,
+} from './offer-mapping'
+import { schemaMap } from './schemas'
+import { COMPLETE_OFFER_FIXTURE } from './test-fixtures'
+import { buildXML } from './xml-builder'
+import { type FormStatesInput, toXMLFormData } from './xml-form-data'
+import { importXML } from './xml-importer'
+
+// Fields that only drive the wizard and are not written to the XML
+const FORM_ONLY_FIELDS: Partial<Record<OfferStepKey, string[]>> = {
+  basicInfo: ['action', 'existingOfferConfirmed', 'specVersion'],
+  offerDetails: ['offerMode'],
+  validityReview: ['reviewConfirmed', 'notes'],
+}
+
+// Offer filling every step, for the round trip through the XML
+const completeOffer: FormStatesInput = {
+  ...COMPLETE_OFFER_FIXTURE,
+  offerDetails: {
+    ...COMPLETE_OFFER_FIXTURE.offerDetails,
+    contractActivationTypes: ['01', '02'],
+  },
+  activationContacts: {
+    activationMethods: ['01', '03'],
+    phone: '800123456',
+    vendorWebsite: 'https://example.com',
+  },
+  pricingConfig: {
+    timeBandConfiguration: '02',
+    weeklyTimeBands: {
+      monday: '28-2,76-1,96-2',
+      saturday: '96-2',
+    },
+    dispatching: [{ dispatchingType: '01', componentName: 'Disp. del.111/06' }],
+  },
+  companyComponents: {
+    regulatedComponents: ['01'],
+    companyComponents: [
+      {
+        name: 'Quota energia',
+        description: 'Prezzo della materia prima',
+        componentType: '01',
+        macroArea: '02',
+        priceIntervals: [
+          {
+            componentTimeBand: '01',
+            consumptionFrom: 0,
+            consumptionTo: 1000,
+            price: 0.12,
+            unitOfMeasure: '03',
+            validityPeriod: {
+              duration: 6,
+              validUntil: '12/2099',
+              validMonths: ['01', '02'],
+            },
+          },
+        ],
+      },
+    ],
+  },
+  additionalFeatures: {
+    discounts: [
+      {
+        name: 'Sconto benvenuto',
+        description: 'Sconto sul primo anno',
+        validity: '01',
+        vatApplicability: '01',
+        validityPeriod: { validMonths: ['06'] },
+        condition: { applicationCondition: '00' },
+        discountPrices: [{ discountType: '01', unitOfMeasure: '01', price: 5 }],
+      },
+    ],
+  },
+  validityReview: {
+    validityPeriod: {
+      startDate: '01/01/2099_08:00:00',
+      endDate: '31/12/2099_23:59:59',
+    },
+    reviewConfirmed: true,
+  },
+}
+
+// Field names of a step schema, below its refinements
+const collectFields = (schema: z.ZodTypeAny): string[] => {
+  let current = schema
+  while (current instanceof z.ZodEffects) {
+    current = current.innerType()
+  }
+  return current instanceof z.ZodObject ? Object.keys(current.shape) : []
+}
+
+describe('offer-mapping', () => {
+  describe('round trip', () => {
+    it('should import the XML generated from the form states', () => {
+      const result = importXML(buildXML(toXMLFormData(completeOffer)))
+
+      expect(result.issues).toEqual([])
+      expect(result.formStates).toEqual({
+        ...completeOffer,
+        // An imported offer is an update of the transmitted one
+        basicInfo: {
+          ...completeOffer.basicInfo,
+          action: 'AGGIORNAMENTO',
+          existingOfferConfirmed: true,
+        },
+        offerDetails: {
+          ...completeOffer.offerDetails,
+          offerMode: 'SIMULABILE',
+        },
+        // The review has to be confirmed again in the wizard
+        validityReview: {
+          ...completeOffer.validityReview,
+          reviewConfirmed: false,
+        },
+      })
+    })
+
+    it('should keep the validity period of price intervals', () => {
+      const data = toXMLFormData(completeOffer)
+
+      expect(
+        data.companyComponents.componenteImpresa?.[0].intervalloPrezzi[0]
+          .periodoValidita,
+      ).toEqual({
+        durata: 6,
+        validoFino: '12/2099',
+        meseValidita: ['01', '02'],
+      })
+    })
+  })
+
+  describe('OFFER_FIELD_MAPPINGS', () => {
+    it('should map every field of the step schemas', () => {
+      for (const [step, mappings] of Object.entries(OFFER_FIELD_MAPPINGS)) {
+        const schemaFields = collectFields(
+          schemaMap[step as OfferStepKey],
+        ).filter(
+          (field) => !FORM_ONLY_FIELDS[step as OfferStepKey]?.includes(field),
+        )
+
+        expect(mappings.map((mapping) => mapping.field).sort()).toEqual(
+          schemaFields.sort(),
+        )
+      }
+    })
+  })
+
+  describe('toXMLPath', () => {
+    it('should convert nested field paths', () => {
+      expect(
+        toXMLPath('companyComponents', [
+          'companyComponents',
+          0,
+          'priceIntervals',
+          1,
+          'validityPeriod',
+          'duration',
+        ]),
+      ).toBe(
+        '/Offerta/ComponenteImpresa[1]/IntervalloPrezzi[2]/PeriodoValidita/DURATA',
+      )
+    })
+
+    it('should keep unknown fields as they are', () => {
+      expect(toXMLPath('basicInfo', ['action'])).toBe('/Offerta/action')
+    })
+  })
+
+  describe('summarizeStep', () => {
+    it('should format the labelled fields', () => {
+      expect(
+        summarizeStep('activationContacts', completeOffer.activationContacts),
+      ).toEqual([
+        {
+          field: 'activationMethods',
+          label: 'Metodi di Attivazione',
+          value: '2 metodi selezionati',
+        },
+        { field: 'phone', label: 'Telefono', value: '800123456' },
+        {
+          field: 'vendorWebsite',
+          label: 'Sito Venditore',
+          value: 'https://example.com',
+        },
+        { field: 'offerUrl', label: 'URL Offerta', value: undefined },
+      ])
+    })
+
+    it('should use the option labels', () => {
+      expect(
+        summarizeField('offerDetails', 'duration', completeOffer.offerDetails)
+          ?.value,
+      ).toBe('12 mesi')
+      expect(
+        summarizeField(
+          'offerDetails',
+          'contractActivationTypes',
+          completeOffer.offerDetails,
+        )?.value,
+      ).toContain(', ')
+    })
+
+    it('should ignore fields without a label', () => {
+      expect(
+        summarizeField(
+          'offerDetails',
+          'offerDescription',
+          completeOffer.offerDetails,
+        ),
+      ).toBeUndefined()
+    })
+  })
+})
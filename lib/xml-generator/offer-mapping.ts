@@ -0,0 +1,494 @@
+import {
+  ACTIVATION_METHOD_LABELS,
+  CLIENT_TYPE_LABELS,
+  CONTRACT_ACTIVATION_LABELS,
+  ENERGY_PRICE_INDEX_LABELS,
+  MARKET_TYPE_LABELS,
+  OFFER_TYPE_LABELS,
+  RESIDENTIAL_STATUS_LABELS,
+  SINGLE_OFFER_LABELS,
+  TIME_BAND_CONFIGURATION_LABELS,
+} from './constants'
+import type { CompleteFormValues } from './schemas'
+
+/**
+ * Field mapping between the wizard and the SII XML
+ * Single declaration of where every step field goes in the XML builder input
+ * and in the XML document, used by toXMLFormData, importXML and the review
+ * summary
+ */
+
+export type OfferStepKey = keyof CompleteFormValues
+
+// How a field is converted: lists and groups contain nested mappings
+export type FieldKind =
+  | 'text'
+  | 'number'
+  | 'texts'
+  | 'timestamp'
+  | 'group'
+  | 'list'
+
+export interface FieldMapping {
+  // Field name in the step values, e.g. marketType
+  field: string
+  // Key in the builder input, dotted for nested objects, e.g. tipoPrezzo.tipologiaFasce
+  data: string
+  // Element path relative to the parent element, e.g. DettaglioOfferta/TIPO_MERCATO
+  xml: string
+  kind: FieldKind
+  // The builder needs a value even when the field is empty
+  required?: boolean
+  // Review summary
+  label?: string
+  options?: Record<string, string>
+  unit?: string
+  fields?: FieldMapping[]
+}
+
+type MappingOptions = Pick<
+  FieldMapping,
+  'required' | 'label' | 'options' | 'unit'
+>
+
+const scalar =
+  (kind: FieldKind) =>
+  (
+    field: string,
+    data: string,
+    xml: string,
+    options?: MappingOptions,
+  ): FieldMapping => ({ field, data, xml, kind, ...options })
+
+const nested =
+  (kind: FieldKind) =>
+  (
+    field: string,
+    data: string,
+    xml: string,
+    fields: FieldMapping[],
+    options?: MappingOptions,
+  ): FieldMapping => ({ field, data, xml, kind, fields, ...options })
+
+const text = scalar('text')
+const number = scalar('number')
+const texts = scalar('texts')
+const timestamp = scalar('timestamp')
+const group = nested('group')
+const list = nested('list')
+
+// PeriodoValidita of price intervals and discounts
+const validityPeriodFields = [
+  number('duration', 'durata', 'DURATA'),
+  text('validUntil', 'validoFino', 'VALIDO_FINO'),
+  texts('validMonths', 'meseValidita', 'MESE_VALIDITA'),
+]
+
+export const OFFER_FIELD_MAPPINGS: Record<OfferStepKey, FieldMapping[]> = {
+  basicInfo: [
+    text('pivaUtente', 'pivaUtente', 'IdentificativiOfferta/PIVA_UTENTE', {
+      required: true,
+      label: 'PIVA Utente',
+    }),
+    text('codOfferta', 'codOfferta', 'IdentificativiOfferta/COD_OFFERTA', {
+      required: true,
+      label: 'Codice Offerta',
+    }),
+  ],
+  offerDetails: [
+    text('marketType', 'tipoMercato', 'DettaglioOfferta/TIPO_MERCATO', {
+      required: true,
+      label: 'Tipo Mercato',
+      options: MARKET_TYPE_LABELS,
+    }),
+    text('singleOffer', 'offertaSingola', 'DettaglioOfferta/OFFERTA_SINGOLA', {
+      label: 'Offerta Singola',
+      options: SINGLE_OFFER_LABELS,
+    }),
+    text('clientType', 'tipoCliente', 'DettaglioOfferta/TIPO_CLIENTE', {
+      required: true,
+      label: 'Tipo Cliente',
+      options: CLIENT_TYPE_LABELS,
+    }),
+    text(
+      'residentialStatus',
+      'domesticoResidente',
+      'DettaglioOfferta/DOMESTICO_RESIDENTE',
+      { label: 'Domestico Residente', options: RESIDENTIAL_STATUS_LABELS },
+    ),
+    text('offerType', 'tipoOfferta', 'DettaglioOfferta/TIPO_OFFERTA', {
+      required: true,
+      label: 'Tipo Offerta',
+      options: OFFER_TYPE_LABELS,
+    }),
+    texts(
+      'contractActivationTypes',
+      'tipologiaAttContr',
+      'DettaglioOfferta/TIPOLOGIA_ATT_CONTR',
+      {
+        required: true,
+        label: 'Tipologie di Attivazione',
+        options: CONTRACT_ACTIVATION_LABELS,
+      },
+    ),
+    text('offerName', 'nomeOfferta', 'DettaglioOfferta/NOME_OFFERTA', {
+      required: true,
+      label: 'Nome Offerta',
+    }),
+    text('offerDescription', 'descrizione', 'DettaglioOfferta/DESCRIZIONE', {
+      required: true,
+    }),
+    number('duration', 'durata', 'DettaglioOfferta/DURATA', {
+      required: true,
+      label: 'Durata',
+      unit: 'mesi',
+    }),
+    text('guarantees', 'garanzie', 'DettaglioOfferta/GARANZIE', {
+      required: true,
+      label: 'Garanzie',
+    }),
+  ],
+  activationContacts: [
+    texts(
+      'activationMethods',
+      'modalita',
+      'DettaglioOfferta.ModalitaAttivazione/MODALITA',
+      {
+        required: true,
+        label: 'Metodi di Attivazione',
+        options: ACTIVATION_METHOD_LABELS,
+        unit: 'metodi selezionati',
+      },
+    ),
+    text(
+      'activationDescription',
+      'descrizioneModalita',
+      'DettaglioOfferta.ModalitaAttivazione/DESCRIZIONE',
+    ),
+    text('phone', 'telefono', 'DettaglioOfferta.Contatti/TELEFONO', {
+      required: true,
+      label: 'Telefono',
+    }),
+    text(
+      'vendorWebsite',
+      'urlSitoVenditore',
+      'DettaglioOfferta.Contatti/URL_SITO_VENDITORE',
+      { label: 'Sito Venditore' },
+    ),
+    text('offerUrl', 'urlOfferta', 'DettaglioOfferta.Contatti/URL_OFFERTA', {
+      label: 'URL Offerta',
+    }),
+  ],
+  pricingConfig: [
+    text(
+      'energyPriceIndex',
+      'riferimentiPrezzoEnergia.idxPrezzoEnergia',
+      'RiferimentiPrezzoEnergia/IDX_PREZZO_ENERGIA',
+      { label: 'Indice Prezzo Energia', options: ENERGY_PRICE_INDEX_LABELS },
+    ),
+    text(
+      'alternativeIndexDescription',
+      'riferimentiPrezzoEnergia.altro',
+      'RiferimentiPrezzoEnergia/ALTRO',
+    ),
+    text(
+      'timeBandConfiguration',
+      'tipoPrezzo.tipologiaFasce',
+      'TipoPrezzo/TIPOLOGIA_FASCE',
+      {
+        label: 'Tipologia Fasce',
+        options: TIME_BAND_CONFIGURATION_LABELS,
+      },
+    ),
+    group(
+      'weeklyTimeBands',
+      'fasceOrarieSettimanale',
+      'FasceOrarieSettimanale',
+      [
+        text('monday', 'fLunedi', 'F_LUNEDI'),
+        text('tuesday', 'fMartedi', 'F_MARTEDI'),
+        text('wednesday', 'fMercoledi', 'F_MERCOLEDI'),
+        text('thursday', 'fGiovedi', 'F_GIOVEDI'),
+        text('friday', 'fVenerdi', 'F_VENERDI'),
+        text('saturday', 'fSabato', 'F_SABATO'),
+        text('sunday', 'fDomenica', 'F_DOMENICA'),
+        text('holidays', 'fFestivita', 'F_FESTIVITA'),
+      ],
+    ),
+    list(
+      'dispatching',
+      'dispacciamento',
+      'Dispacciamento',
+      [
+        text('dispatchingType', 'tipoDispacciamento', 'TIPO_DISPACCIAMENTO'),
+        number('dispatchingValue', 'valoreDisp', 'VALORE_DISP'),
+        text('componentName', 'nome', 'NOME'),
+        text('componentDescription', 'descrizione', 'DESCRIZIONE'),
+      ],
+      { label: 'Dispacciamento', unit: 'componenti' },
+    ),
+  ],
+  companyComponents: [
+    texts(
+      'regulatedComponents',
+      'componentiRegolate.codice',
+      'ComponentiRegolate/CODICE',
+      { label: 'Componenti Regolate', unit: 'componenti' },
+    ),
+    list(
+      'companyComponents',
+      'componenteImpresa',
+      'ComponenteImpresa',
+      [
+        text('name', 'nome', 'NOME'),
+        text('description', 'descrizione', 'DESCRIZIONE'),
+        text('componentType', 'tipologia', 'TIPOLOGIA'),
+        text('macroArea', 'macroArea', 'MACROAREA'),
+        list(
+          'priceIntervals',
+          'intervalloPrezzi',
+          'IntervalloPrezzi',
+          [
+            text('componentTimeBand', 'fasciaComponente', 'FASCIA_COMPONENTE'),
+            number('consumptionFrom', 'consumoDa', 'CONSUMO_DA'),
+            number('consumptionTo', 'consumoA', 'CONSUMO_A'),
+            number('price', 'prezzo', 'PREZZO'),
+            text('unitOfMeasure', 'unitaMisura', 'UNITA_MISURA'),
+            group(
+              'validityPeriod',
+              'periodoValidita',
+              'PeriodoValidita',
+              validityPeriodFields,
+            ),
+          ],
+          { required: true },
+        ),
+      ],
+      { label: 'Componenti Impresa', unit: 'componenti' },
+    ),
+  ],
+  paymentConditions: [
+    list(
+      'paymentMethods',
+      'metodoPagamento',
+      'MetodoPagamento',
+      [
+        text('paymentMethodType', 'modalitaPagamento', 'MODALITA_PAGAMENTO'),
+        text('description', 'descrizione', 'DESCRIZIONE'),
+      ],
+      { required: true, label: 'Metodi di Pagamento', unit: 'metodi' },
+    ),
+    list(
+      'contractualConditions',
+      'condizioniContrattuali',
+      'CondizioniContrattuali',
+      [
+        text('conditionType', 'tipologiaCondizione', 'TIPOLOGIA_CONDIZIONE'),
+        text('alternativeDescription', 'altro', 'ALTRO'),
+        text('description', 'descrizione', 'DESCRIZIONE'),
+        text('isLimiting', 'limitante', 'LIMITANTE'),
+      ],
+      { label: 'Condizioni Contrattuali', unit: 'condizioni' },
+    ),
+  ],
+  additionalFeatures: [
+    group(
+      'offerCharacteristics',
+      'caratteristicheOfferta',
+      'CaratteristicheOfferta',
+      [
+        number('consumptionMin', 'consumoMin', 'CONSUMO_MIN'),
+        number('consumptionMax', 'consumoMax', 'CONSUMO_MAX'),
+        number('powerMin', 'potenzaMin', 'POTENZA_MIN'),
+        number('powerMax', 'potenzaMax', 'POTENZA_MAX'),
+      ],
+    ),
+    group('dualOffer', 'offertaDUAL', 'OffertaDUAL', [
+      texts(
+        'electricityJointOffers',
+        'offerteCongiungeEE',
+        'OFFERTE_CONGIUNTE_EE',
+      ),
+      texts('gasJointOffers', 'offerteCongiungeGas', 'OFFERTE_CONGIUNTE_GAS'),
+    ]),
+    group('zoneOffers', 'zoneOfferta', 'ZoneOfferta', [
+      texts('regions', 'regione', 'REGIONE'),
+      texts('provinces', 'provincia', 'PROVINCIA'),
+      texts('municipalities', 'comune', 'COMUNE'),
+    ]),
+    list(
+      'discounts',
+      'sconto',
+      'Sconto',
+      [
+        text('name', 'nome', 'NOME'),
+        text('description', 'descrizione', 'DESCRIZIONE'),
+        texts(
+          'componentBandCodes',
+          'codiceComponenteFascia',
+          'CODICE_COMPONENTE_FASCIA',
+        ),
+        text('validity', 'validita', 'VALIDITA'),
+        text('vatApplicability', 'ivaSconto', 'IVA_SCONTO'),
+        group(
+          'validityPeriod',
+          'periodoValidita',
+          'PeriodoValidita',
+          validityPeriodFields,
+        ),
+        group('condition', 'scontoCondizione', 'Condizione', [
+          text(
+            'applicationCondition',
+            'condizioneApplicazione',
+            'CONDIZIONE_APPLICAZIONE',
+          ),
+          text(
+            'conditionDescription',
+            'descrizioneCondizione',
+            'DESCRIZIONE_CONDIZIONE',
+          ),
+        ]),
+        list(
+          'discountPrices',
+          'prezziSconto',
+          'PREZZISconto',
+          [
+            text('discountType', 'tipologia', 'TIPOLOGIA'),
+            number('validFrom', 'validoDa', 'VALIDO_DA'),
+            number('validTo', 'validoFino', 'VALIDO_FINO'),
+            text('unitOfMeasure', 'unitaMisura', 'UNITA_MISURA'),
+            number('price', 'prezzo', 'PREZZO'),
+          ],
+          { required: true },
+        ),
+      ],
+      { label: 'Sconti', unit: 'sconti' },
+    ),
+    list(
+      'additionalProducts',
+      'prodottiServiziAggiuntivi',
+      'ProdottiServiziAggiuntivi',
+      [
+        text('name', 'nome', 'NOME'),
+        text('details', 'dettaglio', 'DETTAGLIO'),
+        text('macroArea', 'macroArea', 'MACROAREA'),
+        text('macroAreaDetails', 'dettagliMacroArea', 'DETTAGLI_MACROAREA'),
+      ],
+      { label: 'Prodotti e Servizi Aggiuntivi', unit: 'prodotti' },
+    ),
+  ],
+  validityReview: [
+    group(
+      'validityPeriod',
+      'validitaOfferta',
+      'ValiditaOfferta',
+      [
+        timestamp('startDate', 'dataInizio', 'DATA_INIZIO', {
+          required: true,
+        }),
+        timestamp('endDate', 'dataFine', 'DATA_FINE', { required: true }),
+      ],
+      { required: true },
+    ),
+  ],
+}
+
+/**
+ * Find the mapping of a field among the mappings of a step or group
+ * @param mappings - Mappings to search
+ * @param field - Field name in the step values
+ * @returns The mapping, or undefined for fields that are not written to the XML
+ */
+export function findFieldMapping(
+  mappings: FieldMapping[] | undefined,
+  field: string,
+): FieldMapping | undefined {
+  return mappings?.find((mapping) => mapping.field === field)
+}
+
+/**
+ * Convert a step field path into the XPath-like location of the XML element
+ * @param step - Step of the field
+ * @param path - Field path in the step values, e.g. ['companyComponents', 0, 'name']
+ * @returns The element location, e.g. /Offerta/ComponenteImpresa[1]/NOME
+ */
+export function toXMLPath(
+  step: OfferStepKey,
+  path: (string | number)[],
+): string {
+  let xmlPath = '/Offerta'
+  let mappings: FieldMapping[] | undefined = OFFER_FIELD_MAPPINGS[step]
+
+  for (const segment of path) {
+    if (typeof segment === 'number') {
+      xmlPath += `[${segment + 1}]`
+      continue
+    }
+    const mapping = findFieldMapping(mappings, segment)
+    xmlPath += `/${mapping?.xml ?? segment}`
+    mappings = mapping?.fields
+  }
+
+  return xmlPath
+}
+
+export interface OfferSummaryItem {
+  field: string
+  label: string
+  // Undefined when the field is empty
+  value?: string
+}
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0)
+
+const formatSummaryValue = (mapping: FieldMapping, value: unknown) => {
+  if (isEmptyValue(value)) {
+    return
+  }
+  if (Array.isArray(value)) {
+    // Lists are counted when a unit is given, otherwise their labels are joined
+    return mapping.unit
+      ? `${value.length} ${mapping.unit}`
+      : value.map((item) => mapping.options?.[item] ?? item).join(', ')
+  }
+  const label = mapping.options?.[String(value)] ?? String(value)
+  return mapping.unit ? `${label} ${mapping.unit}` : label
+}
+
+/**
+ * Summary of the labelled fields of a step, in mapping order
+ * @param step - Step to summarize
+ * @param values - Current values of the step
+ * @returns Label and display value of each field
+ */
+export function summarizeStep(
+  step: OfferStepKey,
+  values: Record<string, unknown> | null | undefined,
+): OfferSummaryItem[] {
+  return OFFER_FIELD_MAPPINGS[step]
+    .filter((mapping) => mapping.label)
+    .map((mapping) => ({
+      field: mapping.field,
+      label: mapping.label as string,
+      value: formatSummaryValue(mapping, values?.[mapping.field]),
+    }))
+}
+
+/**
+ * Summary of a single labelled field of a step
+ * @param step - Step of the field
+ * @param field - Field name in the step values
+ * @param values - Current values of the step
+ * @returns The summary item, or undefined when the field has no label
+ */
+export function summarizeField(
+  step: OfferStepKey,
+  field: string,
+  values: Record<string, unknown> | null | undefined,
+): OfferSummaryItem | undefined {
+  return summarizeStep(step, values).find((item) => item.field === field)
+}
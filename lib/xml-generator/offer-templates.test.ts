@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  applyTemplate,
+  BUILT_IN_TEMPLATES,
+  createTemplateFromFormStates,
+  deleteUserTemplate,
+  loadUserTemplates,
+  saveUserTemplate,
+  USER_TEMPLATES_STORAGE_KEY,
+} from './offer-templates'
+import { schemaMap } from './schemas'
+
+const PREFILLED_STEPS = [
+  'offerDetails',
+  'pricingConfig',
+  'companyComponents',
+  'paymentConditions',
+  'additionalFeatures',
+] as const
+
+const formStates = {
+  basicInfo: {
+    pivaUtente: 'IT12345678901',
+    codOfferta: 'LUCE01',
+    action: 'AGGIORNAMENTO' as const,
+  },
+  offerDetails: { offerName: 'Luce Fissa', duration: 12 },
+  paymentConditions: { paymentMethods: [{ paymentMethodType: '01' as const }] },
+  validityReview: {
+    validityPeriod: { startDate: '01/01/2027' },
+    reviewConfirmed: true,
+    notes: 'Listino gennaio',
+  },
+}
+
+describe('offer-templates', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  describe('BUILT_IN_TEMPLATES', () => {
+    it('should cover every market and offer type combination', () => {
+      expect(BUILT_IN_TEMPLATES).toHaveLength(9)
+      expect(
+        new Set(
+          BUILT_IN_TEMPLATES.map(
+            (template) =>
+              `${template.formStates.offerDetails?.marketType}-${template.formStates.offerDetails?.offerType}`,
+          ),
+        ).size,
+      ).toBe(9)
+    })
+
+    it.each(
+      BUILT_IN_TEMPLATES.map((template) => [template.name, template] as const),
+    )('should prefill valid steps for %s', (_name, template) => {
+      for (const step of PREFILLED_STEPS) {
+        const result = schemaMap[step].safeParse(template.formStates[step])
+        expect(result.success, `${template.name}: ${step}`).toBe(true)
+      }
+    })
+
+    it('should include the conditional sections of the offer type', () => {
+      const flat = BUILT_IN_TEMPLATES.find((t) => t.id === 'builtin-01-03')
+      const variableGas = BUILT_IN_TEMPLATES.find(
+        (t) => t.id === 'builtin-02-02',
+      )
+
+      expect(flat?.formStates.additionalFeatures?.offerCharacteristics).toEqual(
+        { consumptionMin: 0, consumptionMax: 2700 },
+      )
+      expect(flat?.formStates.pricingConfig?.timeBandConfiguration).toBe(
+        undefined,
+      )
+      expect(variableGas?.formStates.pricingConfig).toEqual({
+        energyPriceIndex: '14',
+      })
+    })
+  })
+
+  describe('createTemplateFromFormStates', () => {
+    it('should drop offer identifiers and validity dates', () => {
+      const template = createTemplateFromFormStates(
+        ' Mio modello ',
+        formStates,
+        new Date('2026-10-19T10:00:00Z'),
+      )
+
+      expect(template).toMatchObject({
+        name: 'Mio modello',
+        builtIn: false,
+        createdAt: '2026-10-19T10:00:00.000Z',
+      })
+      expect(template.formStates).toEqual({
+        basicInfo: { pivaUtente: 'IT12345678901' },
+        offerDetails: formStates.offerDetails,
+        paymentConditions: formStates.paymentConditions,
+        validityReview: { notes: 'Listino gennaio' },
+      })
+    })
+  })
+
+  describe('applyTemplate', () => {
+    it('should set every step and keep the current VAT number', () => {
+      const [template] = BUILT_IN_TEMPLATES
+      const nextStates = applyTemplate(template, formStates)
+
+      expect(Object.keys(nextStates)).toHaveLength(8)
+      expect(nextStates.basicInfo).toEqual({ pivaUtente: 'IT12345678901' })
+      expect(nextStates.offerDetails).toEqual(template.formStates.offerDetails)
+      expect(nextStates.offerDetails).not.toBe(template.formStates.offerDetails)
+      expect(nextStates.activationContacts).toBeNull()
+      expect(nextStates.validityReview).toBeNull()
+    })
+  })
+
+  describe('user templates storage', () => {
+    it('should save, replace and delete templates', () => {
+      const first = createTemplateFromFormStates(
+        'Modello',
+        formStates,
+        new Date('2026-10-19T10:00:00Z'),
+      )
+      const second = createTemplateFromFormStates(
+        'modello',
+        {},
+        new Date('2026-10-20T10:00:00Z'),
+      )
+
+      saveUserTemplate(first)
+      expect(loadUserTemplates()).toEqual([first])
+
+      saveUserTemplate(second)
+      expect(loadUserTemplates()).toEqual([second])
+
+      expect(deleteUserTemplate(second.id)).toEqual([])
+      expect(loadUserTemplates()).toEqual([])
+    })
+
+    it('should ignore corrupted storage entries', () => {
+      localStorage.setItem(USER_TEMPLATES_STORAGE_KEY, '{not json')
+      expect(loadUserTemplates()).toEqual([])
+
+      localStorage.setItem(
+        USER_TEMPLATES_STORAGE_KEY,
+        JSON.stringify([{ id: 'x' }, { id: 'y', name: 'Y', formStates: {} }]),
+      )
+      expect(loadUserTemplates()).toEqual([
+        { id: 'y', name: 'Y', formStates: {}, builtIn: false },
+      ])
+    })
+  })
+})
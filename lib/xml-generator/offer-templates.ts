@@ -0,0 +1,370 @@
+import {
+  CLIENT_TYPES,
+  COMPONENT_TIME_BANDS,
+  COMPONENT_TYPES,
+  CONTRACT_ACTIVATION_TYPES,
+  DISPATCHING_TYPES,
+  ENERGY_PRICE_INDICES,
+  MACRO_AREAS,
+  MARKET_TYPE_LABELS,
+  MARKET_TYPES,
+  type MarketType,
+  OFFER_TYPE_LABELS,
+  OFFER_TYPES,
+  type OfferType,
+  PAYMENT_METHODS,
+  RESIDENTIAL_STATUS,
+  SINGLE_OFFER_OPTIONS,
+  TIME_BAND_CONFIGURATIONS,
+  UNITS_OF_MEASURE,
+} from './constants'
+import type { CompanyComponentsFormValues } from './schemas'
+import { type Step, steps } from './stepperize/config'
+import type { FormStatesInput } from './xml-form-data'
+
+/**
+ * Offer template library (FE-3)
+ * Built-in skeletons for the common market/offer type combinations plus
+ * templates saved by the user from the current form state
+ */
+
+export const USER_TEMPLATES_STORAGE_KEY = 'sii-xml-generator:offer-templates'
+
+export type OfferTemplate = {
+  id: string
+  name: string
+  description: string
+  builtIn: boolean
+  createdAt?: string
+  formStates: FormStatesInput
+}
+
+// State of every wizard step after applying a template
+export type TemplateFormStates = {
+  [K in Step]: FormStatesInput[K] | null
+}
+
+type CompanyComponent = NonNullable<
+  CompanyComponentsFormValues['companyComponents']
+>[number]
+
+// Default consumption range of FLAT offers (kWh for electricity, Smc for gas)
+const FLAT_CONSUMPTION_MAX: Record<MarketType, number> = {
+  '01': 2700,
+  '02': 1400,
+  '03': 2700,
+}
+
+const MARKET_NAMES: Record<MarketType, string> = {
+  '01': 'Luce',
+  '02': 'Gas',
+  '03': 'Luce e Gas',
+}
+
+const createFixedFeeComponent = (): CompanyComponent => ({
+  name: 'Quota fissa',
+  description: 'Corrispettivo di commercializzazione in quota fissa',
+  componentType: COMPONENT_TYPES.STANDARD,
+  macroArea: MACRO_AREAS.FIXED_COMMERCIALIZATION_FEE,
+  priceIntervals: [{ price: 0, unitOfMeasure: UNITS_OF_MEASURE.EURO_YEAR }],
+})
+
+const createEnergyComponent = (
+  marketType: MarketType,
+  offerType: OfferType,
+): CompanyComponent => {
+  const isGas = marketType === MARKET_TYPES.GAS
+  const isVariable = offerType === OFFER_TYPES.VARIABLE
+
+  return {
+    name: isVariable ? 'Spread' : `Prezzo ${isGas ? 'gas' : 'energia'}`,
+    description: isVariable
+      ? "Maggiorazione applicata all'indice di riferimento"
+      : `Prezzo fisso della ${isGas ? 'materia prima gas' : 'componente energia'}`,
+    componentType: COMPONENT_TYPES.STANDARD,
+    macroArea: MACRO_AREAS.ENERGY_PRICE_COMPONENT,
+    priceIntervals: [
+      {
+        ...(isGas
+          ? {}
+          : { componentTimeBand: COMPONENT_TIME_BANDS.MONORARIO_F1 }),
+        price: 0,
+        unitOfMeasure: isGas
+          ? UNITS_OF_MEASURE.EURO_SM3
+          : UNITS_OF_MEASURE.EURO_KWH,
+      },
+    ],
+  }
+}
+
+const createCompanyComponents = (
+  marketType: MarketType,
+  offerType: OfferType,
+): CompanyComponent[] => {
+  if (offerType === OFFER_TYPES.FLAT) {
+    return [
+      {
+        name: 'Canone FLAT',
+        description: 'Canone annuo comprensivo dei consumi inclusi',
+        componentType: COMPONENT_TYPES.STANDARD,
+        macroArea: MACRO_AREAS.FIXED_COMMERCIALIZATION_FEE,
+        priceIntervals: [
+          { price: 0, unitOfMeasure: UNITS_OF_MEASURE.EURO_YEAR },
+        ],
+      },
+    ]
+  }
+
+  // The prices of a dual fuel offer are detailed in the joint offers
+  if (marketType === MARKET_TYPES.DUAL_FUEL) {
+    return [createFixedFeeComponent()]
+  }
+
+  return [
+    createFixedFeeComponent(),
+    createEnergyComponent(marketType, offerType),
+  ]
+}
+
+const createPricingConfig = (
+  marketType: MarketType,
+  offerType: OfferType,
+): FormStatesInput['pricingConfig'] => {
+  const isElectricity = marketType === MARKET_TYPES.ELECTRICITY
+
+  return {
+    ...(offerType === OFFER_TYPES.VARIABLE && {
+      energyPriceIndex:
+        marketType === MARKET_TYPES.GAS
+          ? ENERGY_PRICE_INDICES.PSV_MONTHLY
+          : ENERGY_PRICE_INDICES.PUN_MONTHLY,
+    }),
+    ...(isElectricity &&
+      offerType !== OFFER_TYPES.FLAT && {
+        timeBandConfiguration: TIME_BAND_CONFIGURATIONS.MONORARIO,
+      }),
+    ...(isElectricity && {
+      dispatching: [
+        {
+          dispatchingType: DISPATCHING_TYPES.DISP_DEL_111_06,
+          componentName: 'Dispacciamento',
+        },
+      ],
+    }),
+  }
+}
+
+const createBuiltInTemplate = (
+  marketType: MarketType,
+  offerType: OfferType,
+): OfferTemplate => {
+  const name = `${MARKET_NAMES[marketType]} ${OFFER_TYPE_LABELS[offerType]} Domestico`
+
+  return {
+    id: `builtin-${marketType}-${offerType}`,
+    name,
+    description: `${MARKET_TYPE_LABELS[marketType]}, prezzo ${OFFER_TYPE_LABELS[offerType].toLowerCase()}, cliente domestico residente`,
+    builtIn: true,
+    formStates: {
+      offerDetails: {
+        marketType,
+        ...(marketType !== MARKET_TYPES.DUAL_FUEL && {
+          singleOffer: SINGLE_OFFER_OPTIONS.YES,
+        }),
+        clientType: CLIENT_TYPES.DOMESTIC,
+        residentialStatus: RESIDENTIAL_STATUS.DOMESTIC_RESIDENT,
+        offerType,
+        contractActivationTypes: [
+          CONTRACT_ACTIVATION_TYPES.SUPPLIER_CHANGE,
+          CONTRACT_ACTIVATION_TYPES.CONTRACT_TRANSFER,
+        ],
+        offerName: name,
+        offerDescription: `Offerta ${MARKET_TYPE_LABELS[marketType].toLowerCase()} a prezzo ${OFFER_TYPE_LABELS[offerType].toLowerCase()} per clienti domestici`,
+        duration: offerType === OFFER_TYPES.VARIABLE ? -1 : 12,
+        guarantees: 'NO',
+      },
+      pricingConfig: createPricingConfig(marketType, offerType),
+      companyComponents: {
+        companyComponents: createCompanyComponents(marketType, offerType),
+      },
+      paymentConditions: {
+        paymentMethods: [
+          { paymentMethodType: PAYMENT_METHODS.BANK_DIRECT_DEBIT },
+        ],
+      },
+      additionalFeatures:
+        offerType === OFFER_TYPES.FLAT
+          ? {
+              offerCharacteristics: {
+                consumptionMin: 0,
+                consumptionMax: FLAT_CONSUMPTION_MAX[marketType],
+              },
+            }
+          : {},
+    },
+  }
+}
+
+// Fixed, variable and FLAT skeletons for electricity, gas and dual fuel
+export const BUILT_IN_TEMPLATES: OfferTemplate[] = Object.values(
+  MARKET_TYPES,
+).flatMap((marketType) =>
+  Object.values(OFFER_TYPES).map((offerType) =>
+    createBuiltInTemplate(marketType, offerType),
+  ),
+)
+
+/**
+ * Creates a user template from the current form state
+ * Offer identifiers and validity dates are left out so that every offer
+ * created from the template gets its own code and dates
+ *
+ * @param name - Template name shown in the picker
+ * @param formStates - Current wizard form states
+ * @param createdAt - Creation date, defaults to now
+ * @returns The new template
+ */
+export function createTemplateFromFormStates(
+  name: string,
+  formStates: FormStatesInput,
+  createdAt: Date = new Date(),
+): OfferTemplate {
+  const templateStates: FormStatesInput = { ...formStates }
+
+  if (formStates.basicInfo?.pivaUtente) {
+    templateStates.basicInfo = { pivaUtente: formStates.basicInfo.pivaUtente }
+  } else {
+    templateStates.basicInfo = undefined
+  }
+
+  if (formStates.validityReview?.notes) {
+    templateStates.validityReview = { notes: formStates.validityReview.notes }
+  } else {
+    templateStates.validityReview = undefined
+  }
+
+  const offerName = formStates.offerDetails?.offerName
+
+  return {
+    id: `user-${createdAt.getTime()}`,
+    name: name.trim(),
+    description: offerName
+      ? `Salvato da "${offerName}"`
+      : 'Modello salvato dal modulo',
+    builtIn: false,
+    createdAt: createdAt.toISOString(),
+    formStates: JSON.parse(JSON.stringify(templateStates)),
+  }
+}
+
+/**
+ * Builds the next state of every wizard step from a template
+ * Steps missing from the template are cleared, the VAT number of the
+ * current form is kept when the template does not define one
+ *
+ * @param template - Template to apply
+ * @param current - Current wizard form states
+ * @returns The form states for all the steps, null for empty steps
+ */
+export function applyTemplate(
+  template: OfferTemplate,
+  current: FormStatesInput = {},
+): TemplateFormStates {
+  const pivaUtente = current.basicInfo?.pivaUtente
+  const nextStates = Object.fromEntries(
+    steps.map((step) => [
+      step,
+      template.formStates[step]
+        ? structuredClone(template.formStates[step])
+        : null,
+    ]),
+  ) as TemplateFormStates
+
+  if (pivaUtente && !nextStates.basicInfo?.pivaUtente) {
+    nextStates.basicInfo = { ...nextStates.basicInfo, pivaUtente }
+  }
+
+  return nextStates
+}
+
+const getStorage = (): Storage | undefined =>
+  typeof window === 'undefined' ? undefined : window.localStorage
+
+const isOfferTemplate = (value: unknown): value is OfferTemplate => {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+  const template = value as Partial<OfferTemplate>
+  return (
+    typeof template.id === 'string' &&
+    typeof template.name === 'string' &&
+    typeof template.formStates === 'object' &&
+    template.formStates !== null
+  )
+}
+
+/**
+ * Reads the templates saved by the user
+ * Corrupted storage entries are ignored
+ *
+ * @param storage - Storage to read from, defaults to localStorage
+ * @returns The saved templates, oldest first
+ */
+export function loadUserTemplates(
+  storage: Storage | undefined = getStorage(),
+): OfferTemplate[] {
+  const raw = storage?.getItem(USER_TEMPLATES_STORAGE_KEY)
+  if (!raw) {
+    return []
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    return Array.isArray(parsed)
+      ? parsed
+          .filter(isOfferTemplate)
+          .map((template) => ({ ...template, builtIn: false }))
+      : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Saves a user template, replacing a previous template with the same name
+ *
+ * @param template - Template to save
+ * @param storage - Storage to write to, defaults to localStorage
+ * @returns The saved templates after the change
+ */
+export function saveUserTemplate(
+  template: OfferTemplate,
+  storage: Storage | undefined = getStorage(),
+): OfferTemplate[] {
+  const templates = [
+    ...loadUserTemplates(storage).filter(
+      (saved) => saved.name.toLowerCase() !== template.name.toLowerCase(),
+    ),
+    template,
+  ]
+  storage?.setItem(USER_TEMPLATES_STORAGE_KEY, JSON.stringify(templates))
+  return templates
+}
+
+/**
+ * Deletes a user template
+ *
+ * @param id - Identifier of the template to delete
+ * @param storage - Storage to write to, defaults to localStorage
+ * @returns The saved templates after the change
+ */
+export function deleteUserTemplate(
+  id: string,
+  storage: Storage | undefined = getStorage(),
+): OfferTemplate[] {
+  const templates = loadUserTemplates(storage).filter(
+    (template) => template.id !== id,
+  )
+  storage?.setItem(USER_TEMPLATES_STORAGE_KEY, JSON.stringify(templates))
+  return templates
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createWorkspaceOffer,
+  duplicateWorkspaceOffer,
+  getExportedOfferCodes,
+  getWorkspaceOfferName,
+  hasFormData,
+  listExportedOfferCodes,
+  listWorkspaceOffers,
+  markWorkspaceOfferExported,
+  updateWorkspaceOffer,
+} from './offer-workspace'
+
+const CREATED_AT = new Date('2026-10-19T08:00:00Z')
+const UPDATED_AT = new Date('2026-10-19T09:30:00Z')
+
+const completeFormStates = {
+  basicInfo: { pivaUtente: 'IT12345678901', codOfferta: 'LUCE01' },
+  offerDetails: {
+    marketType: '01' as const,
+    singleOffer: 'SI' as const,
+    clientType: '01' as const,
+    offerType: '01' as const,
+    contractActivationTypes: ['01' as const],
+    offerName: 'Luce Fissa',
+    offerDescription: 'Prezzo fisso per 12 mesi',
+    duration: 12,
+    guarantees: 'NO',
+  },
+  activationContacts: {
+    activationMethods: ['01' as const],
+    phone: '800123456',
+  },
+  pricingConfig: {},
+  companyComponents: {},
+  paymentConditions: { paymentMethods: [{ paymentMethodType: '01' as const }] },
+  additionalFeatures: {},
+  validityReview: {
+    validityPeriod: { startDate: '01/01/2099' },
+    reviewConfirmed: true,
+  },
+}
+
+describe('offer-workspace', () => {
+  describe('getWorkspaceOfferName', () => {
+    it('should prefer the offer name, then the offer code', () => {
+      expect(getWorkspaceOfferName(completeFormStates)).toBe('Luce Fissa')
+      expect(
+        getWorkspaceOfferName({ basicInfo: { codOfferta: 'LUCE01' } }),
+      ).toBe('LUCE01')
+      expect(getWorkspaceOfferName({})).toBe('Offerta senza nome')
+    })
+  })
+
+  describe('hasFormData', () => {
+    it('should ignore empty steps', () => {
+      expect(hasFormData({ basicInfo: {}, offerDetails: null })).toBe(false)
+      expect(hasFormData({ basicInfo: { pivaUtente: 'IT1' } })).toBe(true)
+    })
+  })
+
+  describe('createWorkspaceOffer', () => {
+    it('should derive name, market and status from the form states', () => {
+      expect(
+        createWorkspaceOffer(completeFormStates, CREATED_AT, 'offer-1'),
+      ).toEqual({
+        id: 'offer-1',
+        name: 'Luce Fissa',
+        marketType: '01',
+        status: 'validated',
+        createdAt: '2026-10-19T08:00:00.000Z',
+        updatedAt: '2026-10-19T08:00:00.000Z',
+        formStates: completeFormStates,
+      })
+    })
+
+    it('should keep incomplete offers as drafts', () => {
+      const offer = createWorkspaceOffer(
+        { basicInfo: completeFormStates.basicInfo },
+        CREATED_AT,
+      )
+
+      expect(offer.status).toBe('draft')
+      expect(offer.name).toBe('LUCE01')
+      expect(offer.id).not.toBe('')
+    })
+  })
+
+  describe('updateWorkspaceOffer', () => {
+    it('should return the same record when nothing changed', () => {
+      const offer = createWorkspaceOffer(completeFormStates, CREATED_AT)
+
+      expect(
+        updateWorkspaceOffer(offer, { ...completeFormStates }, UPDATED_AT),
+      ).toBe(offer)
+    })
+
+    it('should reset the export status once the data changes', () => {
+      const exported = markWorkspaceOfferExported(
+        createWorkspaceOffer(completeFormStates, CREATED_AT),
+        CREATED_AT,
+      )
+      expect(exported).toMatchObject({
+        status: 'exported',
+        exportedAt: '2026-10-19T08:00:00.000Z',
+      })
+
+      const updated = updateWorkspaceOffer(
+        exported,
+        { ...completeFormStates, activationContacts: null },
+        UPDATED_AT,
+      )
+
+      expect(updated).toMatchObject({
+        status: 'draft',
+        exportedAt: undefined,
+        createdAt: '2026-10-19T08:00:00.000Z',
+        updatedAt: '2026-10-19T09:30:00.000Z',
+      })
+    })
+  })
+
+  describe('duplicateWorkspaceOffer', () => {
+    it('should copy the data under a new identifier', () => {
+      const offer = markWorkspaceOfferExported(
+        createWorkspaceOffer(completeFormStates, CREATED_AT, 'offer-1'),
+      )
+      const copy = duplicateWorkspaceOffer(offer, UPDATED_AT, 'offer-2')
+
+      expect(copy).toMatchObject({
+        id: 'offer-2',
+        name: 'Luce Fissa (copia)',
+        status: 'validated',
+        createdAt: '2026-10-19T09:30:00.000Z',
+        formStates: completeFormStates,
+      })
+      expect(copy.formStates).not.toBe(offer.formStates)
+
+      // The copy keeps its name until the offer name is edited
+      const edited = updateWorkspaceOffer(copy, {
+        ...completeFormStates,
+        paymentConditions: null,
+      })
+      expect(edited.name).toBe('Luce Fissa (copia)')
+    })
+  })
+
+  describe('getExportedOfferCodes', () => {
+    it('should collect the codes of the exported offers', () => {
+      const withCode = (codOfferta: string) => ({
+        basicInfo: { pivaUtente: 'IT12345678901', codOfferta },
+      })
+      const offers = [
+        createWorkspaceOffer(withCode('BOZZA01'), CREATED_AT, 'offer-1'),
+        markWorkspaceOfferExported(
+          createWorkspaceOffer(withCode('LUCE01'), CREATED_AT, 'offer-2'),
+          UPDATED_AT,
+        ),
+      ]
+      const snapshots = [
+        { event: 'export', formStates: withCode('GAS01') },
+        { event: 'save', formStates: withCode('GAS02') },
+        { event: 'export', formStates: withCode('LUCE01') },
+      ]
+
+      expect(getExportedOfferCodes(offers, snapshots)).toEqual([
+        'LUCE01',
+        'GAS01',
+      ])
+    })
+  })
+
+  describe('storage', () => {
+    it('should reject when IndexedDB is not available', async () => {
+      await expect(listWorkspaceOffers()).rejects.toThrow(
+        'IndexedDB non è disponibile in questo browser',
+      )
+      await expect(listExportedOfferCodes()).rejects.toThrow(
+        'IndexedDB non è disponibile in questo browser',
+      )
+    })
+  })
+})
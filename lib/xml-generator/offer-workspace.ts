@@ -0,0 +1,403 @@
+import { schemaMap } from './schemas'
+import { steps } from './stepperize/config'
+import type { FormStatesInput } from './xml-form-data'
+
+/**
+ * Local offer workspace
+ * Keeps drafts and generated offers in the browser IndexedDB so that the
+ * work survives the URL state of a single tab
+ */
+
+export const WORKSPACE_DB_NAME = 'sii-xml-generator'
+export const WORKSPACE_DB_VERSION = 2
+export const WORKSPACE_STORE_NAME = 'offers'
+// Snapshots of the offer history, see offer-history.ts
+export const WORKSPACE_HISTORY_STORE_NAME = 'history'
+
+export type WorkspaceOfferStatus = 'draft' | 'validated' | 'exported'
+
+export const WORKSPACE_STATUS_LABELS: Record<WorkspaceOfferStatus, string> = {
+  draft: 'Bozza',
+  validated: 'Validata',
+  exported: 'Esportata',
+}
+
+// Fields of a history snapshot read by the workspace, see offer-history.ts
+export type WorkspaceSnapshotRecord = {
+  event: string
+  formStates: FormStatesInput
+}
+
+export type WorkspaceOffer = {
+  id: string
+  name: string
+  marketType?: string
+  status: WorkspaceOfferStatus
+  createdAt: string
+  updatedAt: string
+  exportedAt?: string
+  formStates: FormStatesInput
+}
+
+const UNNAMED_OFFER = 'Offerta senza nome'
+
+/**
+ * Name shown in the workspace for a set of form states
+ *
+ * @param formStates - Wizard form states
+ * @returns The offer name, the offer code or a placeholder
+ */
+export function getWorkspaceOfferName(formStates: FormStatesInput): string {
+  return (
+    formStates.offerDetails?.offerName?.trim() ||
+    formStates.basicInfo?.codOfferta ||
+    UNNAMED_OFFER
+  )
+}
+
+/**
+ * Checks whether the form states contain any user input
+ *
+ * @param formStates - Wizard form states
+ * @returns True if at least one step has data
+ */
+export function hasFormData(formStates: FormStatesInput): boolean {
+  return steps.some((step) => {
+    const state = formStates[step]
+    return Boolean(state && Object.keys(state).length > 0)
+  })
+}
+
+// An offer is validated when every step passes its schema
+const getContentStatus = (formStates: FormStatesInput): WorkspaceOfferStatus =>
+  steps.every((step) => schemaMap[step].safeParse(formStates[step]).success)
+    ? 'validated'
+    : 'draft'
+
+// Copy that drops undefined values, as IndexedDB and the URL state would
+const cloneFormStates = (formStates: FormStatesInput): FormStatesInput =>
+  JSON.parse(JSON.stringify(formStates))
+
+/**
+ * Creates a workspace record for the given form states
+ *
+ * @param formStates - Wizard form states
+ * @param now - Creation date, defaults to now
+ * @param id - Record identifier, a random UUID by default
+ * @returns The new workspace record
+ */
+export function createWorkspaceOffer(
+  formStates: FormStatesInput,
+  now: Date = new Date(),
+  id: string = crypto.randomUUID(),
+): WorkspaceOffer {
+  const timestamp = now.toISOString()
+
+  return {
+    id,
+    name: getWorkspaceOfferName(formStates),
+    marketType: formStates.offerDetails?.marketType,
+    status: getContentStatus(formStates),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    formStates: cloneFormStates(formStates),
+  }
+}
+
+/**
+ * Updates a workspace record with the current form states
+ * An exported offer goes back to draft or validated once its data changes
+ *
+ * @param offer - Stored workspace record
+ * @param formStates - Current wizard form states
+ * @param now - Update date, defaults to now
+ * @returns The same record when nothing changed, otherwise the updated copy
+ */
+export function updateWorkspaceOffer(
+  offer: WorkspaceOffer,
+  formStates: FormStatesInput,
+  now: Date = new Date(),
+): WorkspaceOffer {
+  const nextStates = cloneFormStates(formStates)
+  if (JSON.stringify(nextStates) === JSON.stringify(offer.formStates)) {
+    return offer
+  }
+
+  // Keep a custom name (e.g. of a copy) until the offer name itself changes
+  const previousName = getWorkspaceOfferName(offer.formStates)
+  const nextName = getWorkspaceOfferName(nextStates)
+
+  return {
+    ...offer,
+    name: nextName === previousName ? offer.name : nextName,
+    marketType: nextStates.offerDetails?.marketType,
+    status: getContentStatus(nextStates),
+    updatedAt: now.toISOString(),
+    exportedAt: undefined,
+    formStates: nextStates,
+  }
+}
+
+/**
+ * Marks a workspace record as exported to XML
+ *
+ * @param offer - Stored workspace record
+ * @param now - Export date, defaults to now
+ * @returns The updated record
+ */
+export function markWorkspaceOfferExported(
+  offer: WorkspaceOffer,
+  now: Date = new Date(),
+): WorkspaceOffer {
+  const timestamp = now.toISOString()
+  return {
+    ...offer,
+    status: 'exported',
+    updatedAt: timestamp,
+    exportedAt: timestamp,
+  }
+}
+
+/**
+ * Creates a copy of a workspace record
+ *
+ * @param offer - Workspace record to copy
+ * @param now - Creation date of the copy, defaults to now
+ * @param id - Identifier of the copy, a random UUID by default
+ * @returns The new record, never marked as exported
+ */
+export function duplicateWorkspaceOffer(
+  offer: WorkspaceOffer,
+  now: Date = new Date(),
+  id: string = crypto.randomUUID(),
+): WorkspaceOffer {
+  return {
+    ...createWorkspaceOffer(offer.formStates, now, id),
+    name: `${offer.name} (copia)`,
+  }
+}
+
+const getIndexedDB = (): IDBFactory | undefined =>
+  typeof indexedDB === 'undefined' ? undefined : indexedDB
+
+/**
+ * Waits for an IndexedDB request
+ *
+ * @param request - Request to wait for
+ * @returns The result of the request
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionToPromise = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+/**
+ * Opens the workspace database, creating the missing stores on upgrade
+ *
+ * @param factory - IndexedDB implementation, the browser one by default
+ * @returns The open database
+ */
+export function openWorkspaceDB(
+  factory: IDBFactory | undefined = getIndexedDB(),
+): Promise<IDBDatabase> {
+  if (!factory) {
+    return Promise.reject(
+      new Error('IndexedDB non è disponibile in questo browser'),
+    )
+  }
+
+  const request = factory.open(WORKSPACE_DB_NAME, WORKSPACE_DB_VERSION)
+  request.onupgradeneeded = () => {
+    const db = request.result
+    if (!db.objectStoreNames.contains(WORKSPACE_STORE_NAME)) {
+      db.createObjectStore(WORKSPACE_STORE_NAME, { keyPath: 'id' })
+    }
+    // Added in version 2, the offers of version 1 are kept
+    if (!db.objectStoreNames.contains(WORKSPACE_HISTORY_STORE_NAME)) {
+      db.createObjectStore(WORKSPACE_HISTORY_STORE_NAME, {
+        keyPath: 'id',
+      }).createIndex('offerId', 'offerId')
+    }
+  }
+  return requestToPromise(request)
+}
+
+/**
+ * Runs a single request on a store of the workspace and closes the connection
+ *
+ * @param storeName - Store to open
+ * @param mode - Transaction mode
+ * @param run - Builds the request on the store
+ * @returns The result of the request
+ */
+export async function runOnWorkspaceStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openWorkspaceDB()
+  try {
+    const transaction = db.transaction(storeName, mode)
+    return await requestToPromise(run(transaction.objectStore(storeName)))
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Runs several requests on the workspace stores in a single transaction and
+ * closes the connection once the transaction completes
+ *
+ * @param storeNames - Stores to open
+ * @param mode - Transaction mode
+ * @param run - Issues the requests, awaiting only requests of the transaction
+ * @returns The value returned by run
+ */
+export async function runWorkspaceTransaction<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => Promise<T>,
+): Promise<T> {
+  const db = await openWorkspaceDB()
+  try {
+    const transaction = db.transaction(storeNames, mode)
+    const [result] = await Promise.all([
+      run(transaction),
+      transactionToPromise(transaction),
+    ])
+    return result
+  } finally {
+    db.close()
+  }
+}
+
+const runOnStore = <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => runOnWorkspaceStore(WORKSPACE_STORE_NAME, mode, run)
+
+/**
+ * Lists the workspace records
+ *
+ * @returns The records, most recently updated first
+ */
+export async function listWorkspaceOffers(): Promise<WorkspaceOffer[]> {
+  const offers = await runOnStore<WorkspaceOffer[]>('readonly', (store) =>
+    store.getAll(),
+  )
+  return offers.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+/**
+ * Reads a workspace record
+ *
+ * @param id - Record identifier
+ * @returns The record, undefined if it does not exist
+ */
+export function getWorkspaceOffer(
+  id: string,
+): Promise<WorkspaceOffer | undefined> {
+  return runOnStore<WorkspaceOffer | undefined>('readonly', (store) =>
+    store.get(id),
+  )
+}
+
+/**
+ * Creates or replaces a workspace record
+ *
+ * @param offer - Record to store
+ * @returns The stored record
+ */
+export async function saveWorkspaceOffer(
+  offer: WorkspaceOffer,
+): Promise<WorkspaceOffer> {
+  await runOnStore('readwrite', (store) => store.put(offer))
+  return offer
+}
+
+/**
+ * Deletes a workspace record together with its history snapshots
+ *
+ * @param id - Record identifier
+ */
+export async function deleteWorkspaceOffer(id: string): Promise<void> {
+  await runWorkspaceTransaction(
+    [WORKSPACE_STORE_NAME, WORKSPACE_HISTORY_STORE_NAME],
+    'readwrite',
+    async (transaction) => {
+      transaction.objectStore(WORKSPACE_STORE_NAME).delete(id)
+      const history = transaction.objectStore(WORKSPACE_HISTORY_STORE_NAME)
+      const snapshotIds = await requestToPromise(
+        history.index('offerId').getAllKeys(id),
+      )
+      for (const snapshotId of snapshotIds) {
+        history.delete(snapshotId)
+      }
+    },
+  )
+}
+
+/**
+ * Marks a stored workspace record as exported
+ *
+ * @param id - Record identifier
+ * @param now - Export date, defaults to now
+ * @returns The updated record, undefined if it does not exist
+ */
+export async function recordWorkspaceOfferExport(
+  id: string,
+  now: Date = new Date(),
+): Promise<WorkspaceOffer | undefined> {
+  const offer = await getWorkspaceOffer(id)
+  return offer
+    ? saveWorkspaceOffer(markWorkspaceOfferExported(offer, now))
+    : undefined
+}
+
+/**
+ * Offer codes exported from this browser, the only offers known to have
+ * reached SII: an update can be checked against them, not against SII itself
+ *
+ * @param offers - Workspace records
+ * @param snapshots - Snapshots of the offer history
+ * @returns Codes of the exported records and of the export snapshots
+ */
+export function getExportedOfferCodes(
+  offers: WorkspaceOffer[],
+  snapshots: WorkspaceSnapshotRecord[],
+): string[] {
+  const codes = [
+    ...offers
+      .filter((offer) => offer.status === 'exported')
+      .map((offer) => offer.formStates.basicInfo?.codOfferta),
+    ...snapshots
+      .filter((snapshot) => snapshot.event === 'export')
+      .map((snapshot) => snapshot.formStates.basicInfo?.codOfferta),
+  ]
+  return [...new Set(codes.filter((code): code is string => Boolean(code)))]
+}
+
+/**
+ * Lists the offer codes exported from this browser
+ *
+ * @returns Codes of the exported records and of the export snapshots
+ */
+export async function listExportedOfferCodes(): Promise<string[]> {
+  const [offers, snapshots] = await Promise.all([
+    listWorkspaceOffers(),
+    runOnWorkspaceStore<WorkspaceSnapshotRecord[]>(
+      WORKSPACE_HISTORY_STORE_NAME,
+      'readonly',
+      (store) => store.getAll(),
+    ),
+  ])
+  return getExportedOfferCodes(offers, snapshots)
+}
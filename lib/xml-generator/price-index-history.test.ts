@@ -0,0 +1,172 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import {
+  clearPriceIndexHistory,
+  getEffectivePriceHistory,
+  importPriceIndexCSV,
+  loadPriceIndexHistory,
+  mergePriceIndexValues,
+  PRICE_INDEX_STORAGE_KEY,
+  savePriceIndexValues,
+} from './price-index-history'
+import type { FormStatesInput } from './xml-form-data'
+
+const TODAY = new Date(2027, 3, 15)
+
+const variableOffer: FormStatesInput = {
+  offerDetails: { marketType: '01', offerType: '02' },
+  pricingConfig: { energyPriceIndex: '12' },
+  companyComponents: {
+    companyComponents: [
+      {
+        name: 'Spread PUN',
+        description: 'Spread sul PUN mensile',
+        componentType: '01',
+        macroArea: '04',
+        priceIntervals: [
+          { componentTimeBand: '01', price: 0.02, unitOfMeasure: '03' },
+          { componentTimeBand: '02', price: 0.015, unitOfMeasure: '03' },
+        ],
+      },
+      {
+        name: 'Quota fissa',
+        description: 'Commercializzazione',
+        componentType: '01',
+        macroArea: '01',
+        priceIntervals: [{ price: 120, unitOfMeasure: '01' }],
+      },
+    ],
+  },
+}
+
+describe('price-index-history', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  describe('importPriceIndexCSV', () => {
+    it('should import the values with the decimal comma', () => {
+      const result = importPriceIndexCSV(
+        'INDICE;MESE;VALORE\n12;02/2027;0,1092\n12;01/2027;0,1185\n4;01/2027;0,35',
+      )
+
+      expect(result.success).toBe(true)
+      expect(result.issues).toEqual([])
+      expect(result.values).toEqual([
+        { index: '04', month: '01/2027', value: 0.35 },
+        { index: '12', month: '01/2027', value: 0.1185 },
+        { index: '12', month: '02/2027', value: 0.1092 },
+      ])
+    })
+
+    it('should report rows with an unknown index, month or value', () => {
+      const result = importPriceIndexCSV(
+        'INDICE,MESE,VALORE\n99,01/2027,0.1\n12,2027-01,0.1\n12,01/2027,n.d.\n12,02/2027,0.1',
+      )
+
+      expect(result.values).toHaveLength(1)
+      expect(result.issues.map((issue) => issue.path)).toEqual([
+        'Riga 2, colonna INDICE',
+        'Riga 3, colonna MESE',
+        'Riga 4, colonna VALORE',
+      ])
+    })
+
+    it('should fail when a column is missing', () => {
+      const result = importPriceIndexCSV('INDICE;VALORE\n12;0,1')
+
+      expect(result.success).toBe(false)
+      expect(result.issues[0].message).toBe(
+        'Colonne obbligatorie mancanti: MESE',
+      )
+    })
+  })
+
+  describe('mergePriceIndexValues', () => {
+    it('should replace the value of the same index and month', () => {
+      const merged = mergePriceIndexValues(
+        [
+          { index: '12', month: '01/2027', value: 0.1 },
+          { index: '12', month: '12/2026', value: 0.09 },
+        ],
+        [{ index: '12', month: '01/2027', value: 0.11 }],
+      )
+
+      expect(merged).toEqual([
+        { index: '12', month: '12/2026', value: 0.09 },
+        { index: '12', month: '01/2027', value: 0.11 },
+      ])
+    })
+  })
+
+  describe('storage', () => {
+    it('should save, load and clear the values of an index', () => {
+      savePriceIndexValues([
+        { index: '12', month: '01/2027', value: 0.1 },
+        { index: '04', month: '01/2027', value: 0.35 },
+      ])
+
+      expect(loadPriceIndexHistory()).toHaveLength(2)
+      expect(clearPriceIndexHistory('12')).toEqual([
+        { index: '04', month: '01/2027', value: 0.35 },
+      ])
+      expect(loadPriceIndexHistory()).toHaveLength(1)
+    })
+
+    it('should ignore corrupted storage entries', () => {
+      localStorage.setItem(PRICE_INDEX_STORAGE_KEY, '{not json')
+      expect(loadPriceIndexHistory()).toEqual([])
+
+      localStorage.setItem(
+        PRICE_INDEX_STORAGE_KEY,
+        JSON.stringify([{ index: '12', month: '2027', value: 1 }]),
+      )
+      expect(loadPriceIndexHistory()).toEqual([])
+    })
+  })
+
+  describe('getEffectivePriceHistory', () => {
+    const history = [
+      { index: '12', month: '02/2027', value: 0.1092 },
+      { index: '12', month: '01/2027', value: 0.1185 },
+      { index: '12', month: '05/2027', value: 0.1 },
+      { index: '04', month: '01/2027', value: 0.35 },
+    ]
+
+    it('should add the spreads to the index values of the past months', () => {
+      const result = getEffectivePriceHistory(variableOffer, history, 12, TODAY)
+
+      expect(result?.spreads.map((spread) => spread.label)).toEqual([
+        'Spread PUN (Monorario/F1)',
+        'Spread PUN (F2)',
+      ])
+      expect(result?.rows.map((row) => row.month)).toEqual([
+        '02/2027',
+        '01/2027',
+      ])
+      expect(result?.rows[1].prices.map((price) => price.price)).toEqual([
+        0.1385, 0.1335,
+      ])
+    })
+
+    it('should keep only the most recent months', () => {
+      const result = getEffectivePriceHistory(variableOffer, history, 1, TODAY)
+
+      expect(result?.rows.map((row) => row.month)).toEqual(['02/2027'])
+    })
+
+    it('should not compute prices for offers without a known index', () => {
+      expect(
+        getEffectivePriceHistory(
+          { ...variableOffer, offerDetails: { offerType: '01' } },
+          history,
+        ),
+      ).toBeUndefined()
+      expect(
+        getEffectivePriceHistory(
+          { ...variableOffer, pricingConfig: { energyPriceIndex: '99' } },
+          history,
+        ),
+      ).toBeUndefined()
+    })
+  })
+})
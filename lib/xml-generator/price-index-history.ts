@@ -0,0 +1,354 @@
+import {
+  COMPONENT_TIME_BAND_LABELS,
+  ENERGY_PRICE_INDEX_LABELS,
+  ENERGY_PRICE_INDICES,
+  isSimulableOffer,
+  MACRO_AREAS,
+  OFFER_TYPES,
+  UNIT_OF_MEASURE_LABELS,
+  UNITS_OF_MEASURE,
+} from './constants'
+import type { CompanyComponentsFormValues } from './schemas'
+import {
+  parseCSV,
+  parseNumber,
+  type SpreadsheetIssue,
+} from './spreadsheet-importer'
+import type { FormStatesInput } from './xml-form-data'
+
+/**
+ * Historical values of the energy price indices
+ * The SII files only name the index of a variable offer (IDX_PREZZO_ENERGIA),
+ * the values are imported by the user from a CSV file with one row per index
+ * and month and kept in the browser. The effective price of a past month is
+ * the index value plus the spread set in the ComponenteImpresa of the energy
+ * price. The file format is documented in
+ * documentation/spreadsheet-import-format.md
+ */
+
+export const PRICE_INDEX_STORAGE_KEY = 'sii-xml-generator:price-indices'
+
+export const PRICE_INDEX_COLUMNS = ['INDICE', 'MESE', 'VALORE'] as const
+
+// mm/aaaa, as VALIDO_FINO
+const MONTH_REGEX = /^(0[1-9]|1[0-2])\/(\d{4})$/
+
+// Months shown by default in the effective price history
+export const DEFAULT_HISTORY_MONTHS = 12
+
+// Units of the spreads added to the index value
+const SPREAD_UNITS: string[] = [
+  UNITS_OF_MEASURE.EURO_KWH,
+  UNITS_OF_MEASURE.EURO_SM3,
+]
+
+export type PriceIndexValue = {
+  // IDX_PREZZO_ENERGIA code, e.g. 12 for the monthly PUN
+  index: string
+  // mm/aaaa
+  month: string
+  // In the unit of the spreads of the offer, €/kWh or €/Sm³
+  value: number
+}
+
+export interface PriceIndexImportResult {
+  success: boolean
+  values: PriceIndexValue[]
+  issues: SpreadsheetIssue[]
+}
+
+export interface EffectivePrice {
+  // Component name and time band, e.g. "Prezzo energia (F1)"
+  label: string
+  spread: number
+  price: number
+  unit: string
+}
+
+export interface EffectivePriceRow {
+  month: string
+  indexValue: number
+  prices: EffectivePrice[]
+}
+
+export interface EffectivePriceHistory {
+  index: string
+  // Spreads of the offer, also when no index value is known
+  spreads: Omit<EffectivePrice, 'price'>[]
+  // Most recent month first
+  rows: EffectivePriceRow[]
+}
+
+type CompanyComponent = NonNullable<
+  CompanyComponentsFormValues['companyComponents']
+>[number]
+
+// Codes that have historical values, every index except "Altro"
+const INDEX_CODES: string[] = Object.values(ENERGY_PRICE_INDICES).filter(
+  (code) => code !== ENERGY_PRICE_INDICES.OTHER,
+)
+
+/**
+ * Sortable key of a month
+ * @param month - mm/aaaa
+ * @returns aaaamm
+ */
+export const toMonthKey = (month: string) =>
+  `${month.slice(3)}${month.slice(0, 2)}`
+
+const toValueKey = (value: PriceIndexValue) =>
+  `${value.index}:${toMonthKey(value.month)}`
+
+const issue = (
+  row: number,
+  message: string,
+  column?: string,
+): SpreadsheetIssue => ({
+  row,
+  column,
+  path: column ? `Riga ${row}, colonna ${column}` : `Riga ${row}`,
+  message,
+  severity: 'error',
+})
+
+/**
+ * Import index values from a CSV file with the INDICE, MESE and VALORE
+ * columns. Rows with errors are skipped and reported
+ * @param content - CSV file content
+ * @returns Values of the valid rows and the issues of the others
+ */
+export function importPriceIndexCSV(content: string): PriceIndexImportResult {
+  const [header, ...rows] = parseCSV(content)
+  const columns = header?.cells.map((cell) => cell.trim().toUpperCase()) ?? []
+  const missing = PRICE_INDEX_COLUMNS.filter(
+    (column) => !columns.includes(column),
+  )
+  if (missing.length > 0) {
+    return {
+      success: false,
+      values: [],
+      issues: [
+        issue(1, `Colonne obbligatorie mancanti: ${missing.join(', ')}`),
+      ],
+    }
+  }
+
+  const [indexColumn, monthColumn, valueColumn] = PRICE_INDEX_COLUMNS.map(
+    (column) => columns.indexOf(column),
+  )
+  const values: PriceIndexValue[] = []
+  const issues: SpreadsheetIssue[] = []
+
+  for (const row of rows) {
+    const index = row.cells[indexColumn]?.trim().padStart(2, '0') ?? ''
+    const month = row.cells[monthColumn]?.trim() ?? ''
+    const value = parseNumber(row.cells[valueColumn]?.trim() ?? '')
+
+    if (!INDEX_CODES.includes(index)) {
+      issues.push(
+        issue(row.line, `Indice non riconosciuto: ${index}`, 'INDICE'),
+      )
+    } else if (!MONTH_REGEX.test(month)) {
+      issues.push(
+        issue(row.line, 'Il mese deve essere nel formato mm/aaaa', 'MESE'),
+      )
+    } else if (Number.isNaN(value) || row.cells[valueColumn]?.trim() === '') {
+      issues.push(issue(row.line, 'Il valore deve essere un numero', 'VALORE'))
+    } else {
+      values.push({ index, month, value })
+    }
+  }
+
+  return {
+    success: values.length > 0,
+    values: mergePriceIndexValues([], values),
+    issues,
+  }
+}
+
+/**
+ * Merge index values, later values replace earlier ones of the same index
+ * and month
+ * @param current - Values already known
+ * @param added - New values
+ * @returns Values sorted by index and month
+ */
+export function mergePriceIndexValues(
+  current: PriceIndexValue[],
+  added: PriceIndexValue[],
+): PriceIndexValue[] {
+  const merged = new Map(
+    [...current, ...added].map((value) => [toValueKey(value), value]),
+  )
+  return [...merged.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, value]) => value)
+}
+
+const getStorage = (): Storage | undefined =>
+  typeof window === 'undefined' ? undefined : window.localStorage
+
+const isPriceIndexValue = (value: unknown): value is PriceIndexValue => {
+  if (!value || typeof value !== 'object') {
+    return false
+  }
+  const entry = value as Partial<PriceIndexValue>
+  return (
+    typeof entry.index === 'string' &&
+    typeof entry.month === 'string' &&
+    MONTH_REGEX.test(entry.month) &&
+    typeof entry.value === 'number'
+  )
+}
+
+/**
+ * Reads the index values imported by the user
+ * Corrupted storage entries are ignored
+ *
+ * @param storage - Storage to read from, defaults to localStorage
+ * @returns The stored values
+ */
+export function loadPriceIndexHistory(
+  storage: Storage | undefined = getStorage(),
+): PriceIndexValue[] {
+  const raw = storage?.getItem(PRICE_INDEX_STORAGE_KEY)
+  if (!raw) {
+    return []
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter(isPriceIndexValue) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Adds imported values to the stored history
+ *
+ * @param values - Values to add, replacing stored values of the same month
+ * @param storage - Storage to write to, defaults to localStorage
+ * @returns The stored values after the change
+ */
+export function savePriceIndexValues(
+  values: PriceIndexValue[],
+  storage: Storage | undefined = getStorage(),
+): PriceIndexValue[] {
+  const history = mergePriceIndexValues(loadPriceIndexHistory(storage), values)
+  storage?.setItem(PRICE_INDEX_STORAGE_KEY, JSON.stringify(history))
+  return history
+}
+
+/**
+ * Deletes the stored values of an index
+ *
+ * @param index - IDX_PREZZO_ENERGIA code
+ * @param storage - Storage to write to, defaults to localStorage
+ * @returns The stored values after the change
+ */
+export function clearPriceIndexHistory(
+  index: string,
+  storage: Storage | undefined = getStorage(),
+): PriceIndexValue[] {
+  const history = loadPriceIndexHistory(storage).filter(
+    (value) => value.index !== index,
+  )
+  storage?.setItem(PRICE_INDEX_STORAGE_KEY, JSON.stringify(history))
+  return history
+}
+
+// Component name followed by the time band and the consumption range
+const getSpreadLabel = (
+  name: string,
+  interval: CompanyComponent['priceIntervals'][number],
+) => {
+  const details = [
+    interval.componentTimeBand
+      ? COMPONENT_TIME_BAND_LABELS[interval.componentTimeBand]
+      : undefined,
+    interval.consumptionFrom === undefined
+      ? undefined
+      : `da ${interval.consumptionFrom}`,
+    interval.consumptionTo === undefined
+      ? undefined
+      : `a ${interval.consumptionTo}`,
+  ].filter(Boolean)
+  return details.length > 0 ? `${name} (${details.join(' ')})` : name
+}
+
+// Spreads of the energy price components, one per price interval
+const getSpreads = (
+  components: CompanyComponent[],
+): EffectivePriceHistory['spreads'] =>
+  components
+    .filter(
+      (component) => component.macroArea === MACRO_AREAS.ENERGY_PRICE_COMPONENT,
+    )
+    .flatMap((component) =>
+      component.priceIntervals
+        .filter((interval) => SPREAD_UNITS.includes(interval.unitOfMeasure))
+        .map((interval) => ({
+          label: getSpreadLabel(component.name, interval),
+          spread: interval.price,
+          unit: UNIT_OF_MEASURE_LABELS[interval.unitOfMeasure],
+        })),
+    )
+
+/**
+ * Effective prices of a variable offer in the months with a known index value
+ * @param formStates - Form states of the offer
+ * @param history - Stored index values
+ * @param months - Number of most recent months to include
+ * @param today - Reference date, later months are left out
+ * @returns The history, undefined when the offer is not variable, is not
+ * simulable or its index has no historical values (IDX_PREZZO_ENERGIA 99)
+ */
+export function getEffectivePriceHistory(
+  formStates: FormStatesInput,
+  history: PriceIndexValue[],
+  months: number = DEFAULT_HISTORY_MONTHS,
+  today: Date = new Date(),
+): EffectivePriceHistory | undefined {
+  const index = formStates.pricingConfig?.energyPriceIndex
+  if (
+    formStates.offerDetails?.offerType !== OFFER_TYPES.VARIABLE ||
+    !isSimulableOffer(formStates.offerDetails.offerMode) ||
+    !index ||
+    !INDEX_CODES.includes(index)
+  ) {
+    return
+  }
+
+  const spreads = getSpreads(
+    (formStates.companyComponents?.companyComponents ??
+      []) as CompanyComponent[],
+  )
+  const currentMonth = `${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, '0')}`
+  const rows = history
+    .filter(
+      (value) =>
+        value.index === index && toMonthKey(value.month) <= currentMonth,
+    )
+    .sort((a, b) => toMonthKey(b.month).localeCompare(toMonthKey(a.month)))
+    .slice(0, months)
+    .map((value) => ({
+      month: value.month,
+      indexValue: value.value,
+      prices: spreads.map((spread) => ({
+        ...spread,
+        // Rounded to the 6 decimals of the SII prices
+        price: Math.round((value.value + spread.spread) * 1e6) / 1e6,
+      })),
+    }))
+
+  return { index, spreads, rows }
+}
+
+/**
+ * Label of an index
+ * @param index - IDX_PREZZO_ENERGIA code
+ * @returns e.g. "PUN (Monthly)"
+ */
+export const getPriceIndexLabel = (index: string) =>
+  ENERGY_PRICE_INDEX_LABELS[index] ?? index
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest'
+import { TIME_BAND_CONFIGURATIONS } from './constants'
+import {
+  getConfigurationComponentBands,
+  validateElectricityPriceIntervals,
+} from './price-interval-rules'
+
+const energyComponent = (bands: (string | undefined)[]) => ({
+  macroArea: '04',
+  priceIntervals: bands.map((componentTimeBand) => ({
+    componentTimeBand,
+    unitOfMeasure: '03',
+  })),
+})
+
+describe('price-interval-rules', () => {
+  describe('getConfigurationComponentBands', () => {
+    it('should map each time band configuration to its component bands', () => {
+      expect(
+        getConfigurationComponentBands(TIME_BAND_CONFIGURATIONS.F1_F2_F3),
+      ).toEqual(['01', '02', '03'])
+      expect(
+        getConfigurationComponentBands(TIME_BAND_CONFIGURATIONS.PEAK_OFFPEAK),
+      ).toEqual(['07', '08'])
+      expect(
+        getConfigurationComponentBands(
+          TIME_BAND_CONFIGURATIONS.BIORARIO_F1_F23,
+        ),
+      ).toEqual(['01', '91'])
+      expect(getConfigurationComponentBands(undefined)).toEqual([])
+    })
+  })
+
+  describe('per band intervals', () => {
+    it('should accept one interval per band', () => {
+      expect(
+        validateElectricityPriceIntervals(
+          energyComponent(['01', '02', '03']),
+          TIME_BAND_CONFIGURATIONS.F1_F2_F3,
+        ),
+      ).toEqual([])
+    })
+
+    it('should suggest adding the intervals of the missing bands', () => {
+      const issues = validateElectricityPriceIntervals(
+        energyComponent(['01']),
+        TIME_BAND_CONFIGURATIONS.F1_F2_F3,
+      )
+
+      expect(issues.map((issue) => issue.fix)).toEqual([
+        {
+          type: 'addInterval',
+          componentTimeBand: '02',
+          label: 'Aggiungi intervallo per F2',
+        },
+        {
+          type: 'addInterval',
+          componentTimeBand: '03',
+          label: 'Aggiungi intervallo per F3',
+        },
+      ])
+    })
+
+    it('should suggest removing duplicated and unexpected intervals', () => {
+      const issues = validateElectricityPriceIntervals(
+        energyComponent(['07', '08', '08', undefined]),
+        TIME_BAND_CONFIGURATIONS.PEAK_OFFPEAK,
+      )
+
+      expect(issues.map((issue) => issue.intervalIndex)).toEqual([2, 3])
+      expect(issues[0].fix).toEqual({
+        type: 'removeInterval',
+        intervalIndex: 2,
+        label: "Rimuovi l'intervallo 3",
+      })
+    })
+
+    it('should allow stepped brackets to repeat a band', () => {
+      expect(
+        validateElectricityPriceIntervals(
+          {
+            macroArea: '04',
+            priceIntervals: [
+              { componentTimeBand: '07', unitOfMeasure: '03' },
+              {
+                componentTimeBand: '08',
+                unitOfMeasure: '03',
+                consumptionFrom: 0,
+                consumptionTo: 1000,
+              },
+              {
+                componentTimeBand: '08',
+                unitOfMeasure: '03',
+                consumptionFrom: 1000,
+              },
+            ],
+          },
+          TIME_BAND_CONFIGURATIONS.PEAK_OFFPEAK,
+        ),
+      ).toEqual([])
+    })
+
+    it('should skip the rule without a time band configuration', () => {
+      expect(
+        validateElectricityPriceIntervals(energyComponent(['01']), undefined),
+      ).toEqual([])
+    })
+  })
+
+  describe('single interval', () => {
+    it('should accept a single interval without band', () => {
+      expect(
+        validateElectricityPriceIntervals(
+          {
+            macroArea: '01',
+            priceIntervals: [{ unitOfMeasure: '01' }],
+          },
+          TIME_BAND_CONFIGURATIONS.F1_F2_F3,
+        ),
+      ).toEqual([])
+    })
+
+    it('should report extra intervals and component bands', () => {
+      const issues = validateElectricityPriceIntervals(
+        {
+          macroArea: '05',
+          priceIntervals: [
+            { unitOfMeasure: '05', componentTimeBand: '01' },
+            { unitOfMeasure: '05' },
+          ],
+        },
+        TIME_BAND_CONFIGURATIONS.F1_F2_F3,
+      )
+
+      expect(issues.map((issue) => issue.fix?.type)).toEqual([
+        'removeInterval',
+        'clearTimeBands',
+      ])
+    })
+  })
+
+  it('should ignore components with mixed units of measure', () => {
+    expect(
+      validateElectricityPriceIntervals(
+        {
+          macroArea: '04',
+          priceIntervals: [{ unitOfMeasure: '03' }, { unitOfMeasure: '01' }],
+        },
+        TIME_BAND_CONFIGURATIONS.F1_F2,
+      ),
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,274 @@
+import {
+  COMPONENT_TIME_BAND_LABELS,
+  COMPONENT_TIME_BANDS,
+  type ComponentTimeBand,
+  MACRO_AREAS,
+  TIME_BAND_CONFIGURATIONS,
+  UNITS_OF_MEASURE,
+} from './constants'
+import {
+  type BracketIntervalInput,
+  getValidityPeriodKey,
+} from './consumption-brackets'
+
+/**
+ * Electricity price interval rules (FR-4.6)
+ * Checks the number of IntervalloPrezzi of each ComponenteImpresa against the
+ * bands of TIPOLOGIA_FASCE and suggests the fixes that make the offer valid
+ */
+
+// FASCIA_COMPONENTE values needed by each TIPOLOGIA_FASCE
+const CONFIGURATION_COMPONENT_BANDS: Record<string, ComponentTimeBand[]> = {
+  [TIME_BAND_CONFIGURATIONS.MONORARIO]: [COMPONENT_TIME_BANDS.MONORARIO_F1],
+  [TIME_BAND_CONFIGURATIONS.F1_F2]: [
+    COMPONENT_TIME_BANDS.MONORARIO_F1,
+    COMPONENT_TIME_BANDS.F2,
+  ],
+  [TIME_BAND_CONFIGURATIONS.F1_F2_F3]: [
+    COMPONENT_TIME_BANDS.MONORARIO_F1,
+    COMPONENT_TIME_BANDS.F2,
+    COMPONENT_TIME_BANDS.F3,
+  ],
+  [TIME_BAND_CONFIGURATIONS.F1_F2_F3_F4]: [
+    COMPONENT_TIME_BANDS.MONORARIO_F1,
+    COMPONENT_TIME_BANDS.F2,
+    COMPONENT_TIME_BANDS.F3,
+    COMPONENT_TIME_BANDS.F4,
+  ],
+  [TIME_BAND_CONFIGURATIONS.F1_F2_F3_F4_F5]: [
+    COMPONENT_TIME_BANDS.MONORARIO_F1,
+    COMPONENT_TIME_BANDS.F2,
+    COMPONENT_TIME_BANDS.F3,
+    COMPONENT_TIME_BANDS.F4,
+    COMPONENT_TIME_BANDS.F5,
+  ],
+  [TIME_BAND_CONFIGURATIONS.F1_F2_F3_F4_F5_F6]: [
+    COMPONENT_TIME_BANDS.MONORARIO_F1,
+    COMPONENT_TIME_BANDS.F2,
+    COMPONENT_TIME_BANDS.F3,
+    COMPONENT_TIME_BANDS.F4,
+    COMPONENT_TIME_BANDS.F5,
+    COMPONENT_TIME_BANDS.F6,
+  ],
+  [TIME_BAND_CONFIGURATIONS.PEAK_OFFPEAK]: [
+    COMPONENT_TIME_BANDS.PEAK,
+    COMPONENT_TIME_BANDS.OFFPEAK,
+  ],
+  [TIME_BAND_CONFIGURATIONS.BIORARIO_F1_F23]: [
+    COMPONENT_TIME_BANDS.MONORARIO_F1,
+    COMPONENT_TIME_BANDS.F2_F3,
+  ],
+  [TIME_BAND_CONFIGURATIONS.BIORARIO_F2_F13]: [
+    COMPONENT_TIME_BANDS.F2,
+    COMPONENT_TIME_BANDS.F1_F3,
+  ],
+  [TIME_BAND_CONFIGURATIONS.BIORARIO_F3_F12]: [
+    COMPONENT_TIME_BANDS.F3,
+    COMPONENT_TIME_BANDS.F1_F2,
+  ],
+}
+
+// Components priced per kWh need one interval per band
+const PER_BAND_MACRO_AREAS: string[] = [
+  MACRO_AREAS.ENERGY_COMMERCIALIZATION_FEE,
+  MACRO_AREAS.ENERGY_PRICE_COMPONENT,
+  MACRO_AREAS.RENEWABLE_GREEN_ENERGY,
+]
+const PER_BAND_UNITS: string[] = [UNITS_OF_MEASURE.EURO_KWH]
+
+// Fixed components need a single interval without band
+const SINGLE_INTERVAL_MACRO_AREAS: string[] = [
+  MACRO_AREAS.FIXED_COMMERCIALIZATION_FEE,
+  MACRO_AREAS.ENERGY_PRICE_COMPONENT,
+  MACRO_AREAS.ONE_TIME_FEE,
+  MACRO_AREAS.RENEWABLE_GREEN_ENERGY,
+]
+const SINGLE_INTERVAL_UNITS: string[] = [
+  UNITS_OF_MEASURE.EURO_YEAR,
+  UNITS_OF_MEASURE.EURO_KW,
+  UNITS_OF_MEASURE.EURO,
+]
+
+export type PriceIntervalRuleInput = {
+  macroArea?: string
+  priceIntervals?: BracketIntervalInput[]
+}
+
+export type PriceIntervalFix =
+  | {
+      type: 'addInterval'
+      componentTimeBand: ComponentTimeBand
+      label: string
+    }
+  | { type: 'removeInterval'; intervalIndex: number; label: string }
+  | { type: 'clearTimeBands'; label: string }
+
+export type PriceIntervalIssue = {
+  // Interval the issue refers to, undefined for the whole component
+  intervalIndex?: number
+  message: string
+  fix?: PriceIntervalFix
+}
+
+/**
+ * FASCIA_COMPONENTE values required by a time band configuration
+ *
+ * @param timeBandConfiguration - TIPOLOGIA_FASCE code
+ * @returns The component bands, empty when the configuration is unknown
+ */
+export function getConfigurationComponentBands(
+  timeBandConfiguration: string | undefined,
+): ComponentTimeBand[] {
+  return CONFIGURATION_COMPONENT_BANDS[timeBandConfiguration ?? ''] ?? []
+}
+
+const bandLabel = (band: string | undefined) =>
+  band ? (COMPONENT_TIME_BAND_LABELS[band] ?? band) : 'nessuna fascia'
+
+const isStepped = (interval: BracketIntervalInput) =>
+  interval.consumptionFrom !== undefined || interval.consumptionTo !== undefined
+
+const removeIntervalFix = (intervalIndex: number): PriceIntervalFix => ({
+  type: 'removeInterval',
+  intervalIndex,
+  label: `Rimuovi l'intervallo ${intervalIndex + 1}`,
+})
+
+// Intervals repeating the band and period of a previous interval
+// Stepped brackets repeat the band on purpose, their ranges are checked separately
+const findRepeatedIntervals = (
+  intervals: NonNullable<PriceIntervalRuleInput['priceIntervals']>,
+): Set<number> => {
+  const seen = new Set<string>()
+  const repeated = new Set<number>()
+
+  for (const [intervalIndex, interval] of intervals.entries()) {
+    if (isStepped(interval)) {
+      continue
+    }
+    const key = `${interval.componentTimeBand}|${getValidityPeriodKey(interval.validityPeriod)}`
+    if (seen.has(key)) {
+      repeated.add(intervalIndex)
+    }
+    seen.add(key)
+  }
+  return repeated
+}
+
+const validatePerBandIntervals = (
+  intervals: NonNullable<PriceIntervalRuleInput['priceIntervals']>,
+  timeBandConfiguration: string,
+  requiredBands: ComponentTimeBand[],
+): PriceIntervalIssue[] => {
+  const issues: PriceIntervalIssue[] = []
+  const seenBands = new Set(
+    intervals.map((interval) => interval.componentTimeBand),
+  )
+  const repeated = findRepeatedIntervals(intervals)
+
+  for (const [intervalIndex, interval] of intervals.entries()) {
+    const band = interval.componentTimeBand
+    if (!(band && requiredBands.some((required) => required === band))) {
+      issues.push({
+        intervalIndex,
+        message: `L'intervallo ${intervalIndex + 1} (${bandLabel(band)}) non corrisponde a una fascia della tipologia ${timeBandConfiguration}`,
+        fix: removeIntervalFix(intervalIndex),
+      })
+    } else if (repeated.has(intervalIndex)) {
+      issues.push({
+        intervalIndex,
+        message: `La fascia ${bandLabel(band)} ha più di un intervallo di prezzo`,
+        fix: removeIntervalFix(intervalIndex),
+      })
+    }
+  }
+
+  for (const band of requiredBands) {
+    if (!seenBands.has(band)) {
+      issues.push({
+        message: `La tipologia ${timeBandConfiguration} richiede ${requiredBands.length} intervalli, uno per fascia: manca la fascia ${bandLabel(band)}`,
+        fix: {
+          type: 'addInterval',
+          componentTimeBand: band,
+          label: `Aggiungi intervallo per ${bandLabel(band)}`,
+        },
+      })
+    }
+  }
+
+  return issues
+}
+
+const validateSingleInterval = (
+  intervals: NonNullable<PriceIntervalRuleInput['priceIntervals']>,
+): PriceIntervalIssue[] => {
+  const issues: PriceIntervalIssue[] = []
+
+  for (const intervalIndex of intervals.keys()) {
+    if (intervalIndex > 0) {
+      issues.push({
+        intervalIndex,
+        message:
+          'Per questa macroarea e unità di misura è ammesso un solo intervallo di prezzo',
+        fix: removeIntervalFix(intervalIndex),
+      })
+    }
+  }
+
+  if (intervals.some((interval) => interval.componentTimeBand)) {
+    issues.push({
+      message:
+        'Per questa macroarea e unità di misura FASCIA_COMPONENTE non deve essere valorizzata',
+      fix: { type: 'clearTimeBands', label: 'Rimuovi la fascia componente' },
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Checks the price intervals of an electricity ComponenteImpresa (FR-4.6)
+ * MACROAREA 02/04/06 priced in €/kWh needs one interval per band of
+ * TIPOLOGIA_FASCE, MACROAREA 01/04/05/06 priced in €/Anno, €/kW or € needs a
+ * single interval without FASCIA_COMPONENTE
+ *
+ * @param component - Company component with its price intervals
+ * @param timeBandConfiguration - TIPOLOGIA_FASCE code of the offer
+ * @returns The issues found, each with a suggested fix when one exists
+ */
+export function validateElectricityPriceIntervals(
+  component: PriceIntervalRuleInput,
+  timeBandConfiguration: string | undefined,
+): PriceIntervalIssue[] {
+  const intervals = component.priceIntervals ?? []
+  const macroArea = component.macroArea ?? ''
+  if (intervals.length === 0) {
+    return []
+  }
+
+  const hasUnits = (units: string[]) =>
+    intervals.every((interval) => units.includes(interval.unitOfMeasure ?? ''))
+
+  const requiredBands = getConfigurationComponentBands(timeBandConfiguration)
+  if (
+    timeBandConfiguration &&
+    requiredBands.length > 0 &&
+    PER_BAND_MACRO_AREAS.includes(macroArea) &&
+    hasUnits(PER_BAND_UNITS)
+  ) {
+    return validatePerBandIntervals(
+      intervals,
+      timeBandConfiguration,
+      requiredBands,
+    )
+  }
+
+  if (
+    SINGLE_INTERVAL_MACRO_AREAS.includes(macroArea) &&
+    hasUnits(SINGLE_INTERVAL_UNITS)
+  ) {
+    return validateSingleInterval(intervals)
+  }
+
+  return []
+}
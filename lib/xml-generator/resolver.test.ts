@@ -0,0 +1,92 @@
+import type { FieldValues, ResolverOptions } from 'react-hook-form'
+import { describe, expect, it } from 'vitest'
+import { createContextualResolver } from './resolver'
+import {
+  type ActivationContactsFormValues,
+  activationContactsSchema,
+  type CompanyComponentsFormValues,
+  type CompleteFormValues,
+  companyComponentsSchema,
+} from './schemas'
+
+const resolverOptions = {
+  fields: {},
+  shouldUseNativeValidation: false,
+} satisfies ResolverOptions<FieldValues>
+
+// Single €/kWh interval for F1, F2 is missing with time bands 02
+const companyComponents: CompanyComponentsFormValues = {
+  companyComponents: [
+    {
+      name: 'Prezzo energia',
+      description: 'Materia prima',
+      componentType: '01',
+      macroArea: '04',
+      priceIntervals: [
+        { price: 0.1, unitOfMeasure: '03', componentTimeBand: '01' },
+      ],
+    },
+  ],
+}
+
+describe('createContextualResolver', () => {
+  it('should apply the price interval rules of the selected time bands', async () => {
+    const resolver = createContextualResolver<CompanyComponentsFormValues>(
+      companyComponentsSchema,
+      {
+        offerDetails: { marketType: '01' },
+        pricingConfig: { timeBandConfiguration: '02' },
+      } as Partial<CompleteFormValues>,
+    )
+
+    const { errors } = await resolver(
+      companyComponents,
+      undefined,
+      resolverOptions,
+    )
+
+    expect(errors).toMatchObject({
+      companyComponents: [
+        { priceIntervals: { message: expect.stringContaining('F2') } },
+      ],
+    })
+  })
+
+  it('should follow the market of the offer details step', async () => {
+    const resolver = createContextualResolver<CompanyComponentsFormValues>(
+      companyComponentsSchema,
+      {
+        offerDetails: { marketType: '02' },
+        pricingConfig: { timeBandConfiguration: '02' },
+      } as Partial<CompleteFormValues>,
+    )
+
+    const { errors } = await resolver(
+      companyComponents,
+      undefined,
+      resolverOptions,
+    )
+
+    expect(errors).toEqual({})
+  })
+
+  it('should require the offer URL of a non-simulable offer', async () => {
+    const activationContacts: ActivationContactsFormValues = {
+      activationMethods: ['01'],
+      phone: '800123456',
+    }
+    const resolve = (offerMode: 'SIMULABILE' | 'NON_SIMULABILE') =>
+      createContextualResolver<ActivationContactsFormValues>(
+        activationContactsSchema,
+        { offerDetails: { offerMode } } as Partial<CompleteFormValues>,
+      )(activationContacts, undefined, resolverOptions)
+
+    expect((await resolve('NON_SIMULABILE')).errors).toMatchObject({
+      offerUrl: {
+        message:
+          "L'URL dell'offerta è obbligatorio per le offerte non simulabili",
+      },
+    })
+    expect((await resolve('SIMULABILE')).errors).toEqual({})
+  })
+})
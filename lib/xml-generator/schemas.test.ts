@@ -1,6 +1,13 @@
-import { describe, expect, it, vi } from 'vitest'
+import { afterEach, describe, expect, it, vi } from 'vitest'
 import { z } from 'zod'
-import { companyComponentsSchema, paymentConditionsSchema } from './schemas'
+import {
+  additionalFeaturesSchema,
+  basicInfoSchema,
+  companyComponentsSchema,
+  paymentConditionsSchema,
+  pricingConfigSchema,
+  validityReviewSchema,
+} from './schemas'
 
 // Mock context type for testing superRefine validation
 interface MockRefinementContext {
@@ -395,3 +402,201 @@ describe('paymentConditionsSchema', () => {
     }
   })
 })
+
+describe('basicInfoSchema', () => {
+  const baseData = {
+    pivaUtente: 'IT12345678901',
+    codOfferta: 'OFFER2024',
+  }
+
+  it('treats a missing action as INSERIMENTO', () => {
+    const result = basicInfoSchema.safeParse(baseData)
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects an unknown action', () => {
+    const result = basicInfoSchema.safeParse({
+      ...baseData,
+      action: 'CANCELLAZIONE',
+    })
+    expect(result.success).toBe(false)
+  })
+
+  it('requires the existing offer confirmation for AGGIORNAMENTO', () => {
+    const result = basicInfoSchema.safeParse({
+      ...baseData,
+      action: 'AGGIORNAMENTO',
+    })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['existingOfferConfirmed'])
+      expect(result.error.issues[0].message).toBe(
+        "Per un aggiornamento conferma che il codice offerta corrisponde a un'offerta già trasmessa al SII",
+      )
+    }
+  })
+
+  it('accepts AGGIORNAMENTO referencing a confirmed existing offer', () => {
+    const result = basicInfoSchema.safeParse({
+      ...baseData,
+      action: 'AGGIORNAMENTO',
+      existingOfferConfirmed: true,
+    })
+    expect(result.success).toBe(true)
+  })
+})
+
+describe('pricingConfigSchema', () => {
+  const weeklyTimeBands = {
+    monday: '28-3,32-2,76-1,92-2,96-3',
+    tuesday: '28-3,32-2,76-1,92-2,96-3',
+    wednesday: '28-3,32-2,76-1,92-2,96-3',
+    thursday: '28-3,32-2,76-1,92-2,96-3',
+    friday: '28-3,32-2,76-1,92-2,96-3',
+    saturday: '28-3,76-2,96-3',
+    sunday: '96-3',
+    holidays: '96-3',
+  }
+
+  it('accepts weekly time bands matching TIPOLOGIA_FASCE', () => {
+    const result = pricingConfigSchema.safeParse({
+      timeBandConfiguration: '03',
+      weeklyTimeBands,
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects bands not included in TIPOLOGIA_FASCE', () => {
+    const result = pricingConfigSchema.safeParse({
+      timeBandConfiguration: '02',
+      weeklyTimeBands: { monday: '32-1,96-5', tuesday: '96-2' },
+    })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues).toHaveLength(1)
+      expect(result.error.issues[0].path).toEqual(['weeklyTimeBands', 'monday'])
+      expect(result.error.issues[0].message).toBe(
+        'Fasce non previste dalla tipologia 02: F5',
+      )
+    }
+  })
+
+  it('requires every configured band to appear in the week', () => {
+    const result = pricingConfigSchema.safeParse({
+      timeBandConfiguration: '04',
+      weeklyTimeBands,
+    })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['weeklyTimeBands'])
+      expect(result.error.issues[0].message).toBe(
+        'Fasce della tipologia 04 non presenti in nessun giorno: F4',
+      )
+    }
+  })
+
+  it('requires the last segment to end at quarter 96', () => {
+    const result = pricingConfigSchema.safeParse({
+      timeBandConfiguration: '01',
+      weeklyTimeBands: { monday: '92-1' },
+    })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['weeklyTimeBands', 'monday'])
+    }
+  })
+})
+
+describe('additionalFeaturesSchema', () => {
+  it('accepts zones in different territories', () => {
+    const result = additionalFeaturesSchema.safeParse({
+      zoneOffers: { regions: ['03'], provinces: ['058'] },
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('accepts codes missing from the ISTAT list', () => {
+    const result = additionalFeaturesSchema.safeParse({
+      zoneOffers: { provinces: ['113'], municipalities: ['114001'] },
+    })
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects a municipality of a selected province', () => {
+    const result = additionalFeaturesSchema.safeParse({
+      zoneOffers: { provinces: ['016'], municipalities: ['016024'] },
+    })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues).toHaveLength(1)
+      expect(result.error.issues[0].path).toEqual([
+        'zoneOffers',
+        'municipalities',
+        0,
+      ])
+      expect(result.error.issues[0].message).toBe(
+        'Il comune 016024 Bergamo è già incluso nella provincia 016 Bergamo',
+      )
+    }
+  })
+})
+
+describe('validityReviewSchema', () => {
+  const parseValidity = (startDate: string, endDate?: string) =>
+    validityReviewSchema.safeParse({
+      validityPeriod: { startDate, endDate },
+      reviewConfirmed: true,
+    })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('accepts dates with and without the time of day', () => {
+    expect(parseValidity('01/01/2099', '31/12/2099').success).toBe(true)
+    expect(
+      parseValidity('01/01/2099_08:30:00', '31/12/2099_18:00:00').success,
+    ).toBe(true)
+  })
+
+  it('rejects invalid dates and times', () => {
+    expect(parseValidity('31/02/2099').success).toBe(false)
+    expect(parseValidity('01/01/2099_24:00:00').success).toBe(false)
+    expect(parseValidity('01/01/2099 08:30').success).toBe(false)
+  })
+
+  it('accepts a single day with the default times', () => {
+    expect(parseValidity('01/01/2099', '01/01/2099').success).toBe(true)
+  })
+
+  it('rejects an end not after the start', () => {
+    const result = parseValidity('01/01/2099_12:00:00', '01/01/2099_08:00:00')
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['validityPeriod', 'endDate'])
+    }
+  })
+
+  it('compares the start date with today in Italy', () => {
+    vi.useFakeTimers()
+    // 23:30 UTC on December 31st is already January 1st in Rome
+    vi.setSystemTime(new Date('2098-12-31T23:30:00Z'))
+
+    const result = parseValidity('31/12/2098')
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual([
+        'validityPeriod',
+        'startDate',
+      ])
+    }
+    expect(parseValidity('01/01/2099').success).toBe(true)
+  })
+})
@@ -1,25 +1,86 @@
 import { z } from 'zod'
-import { getFormContext } from './resolver'
+import { isSimulableOffer } from './constants'
+import { validateConsumptionBrackets } from './consumption-brackets'
+import { validateZoneHierarchy } from './istat-territories'
+import { validateElectricityPriceIntervals } from './price-interval-rules'
+import {
+  DEFAULT_END_TIME,
+  DEFAULT_START_TIME,
+  getSIITimestamp,
+  parseSIITimestamp,
+  toTimestampKey,
+} from './sii-timestamp'
+import {
+  getSpecVersion,
+  resolveSpecVersion,
+  SPEC_VERSIONS,
+  type SpecVersion,
+  validateSpecFields,
+} from './spec-registry'
+import { validateWeeklyTimeBands } from './time-band-grid'
+
+const TIMESTAMP_FORMAT_MESSAGE =
+  'Formato data non valido (gg/mm/aaaa oppure gg/mm/aaaa_hh:mm:ss)'
+
+const isValidFormTimestamp = (value: string) =>
+  parseSIITimestamp(value) !== undefined
+
+// URL_OFFERTA is the only source of the prices of non-simulable offers (FR-5.8)
+const requiresOfferUrl = (offerMode?: string, offerUrl?: string) =>
+  !(isSimulableOffer(offerMode) || offerUrl)
+
+const OFFER_URL_ISSUE = {
+  code: z.ZodIssueCode.custom,
+  message: "L'URL dell'offerta è obbligatorio per le offerte non simulabili",
+  path: ['offerUrl'],
+}
 
 // Basic Information Schema - matching SII specification
-export const basicInfoSchema = z.object({
-  pivaUtente: z
-    .string()
-    .min(11, 'La PIVA deve contenere almeno 11 caratteri')
-    .max(16, 'La PIVA non può superare i 16 caratteri')
-    .regex(
-      /^[A-Z0-9]+$/,
-      'La PIVA deve contenere solo lettere maiuscole e numeri',
-    ),
-  codOfferta: z
-    .string()
-    .min(1, 'Il codice offerta è obbligatorio')
-    .max(32, 'Il codice offerta non può superare i 32 caratteri')
-    .regex(
-      /^[A-Z0-9]+$/,
-      'Il codice offerta deve contenere solo lettere maiuscole e numeri',
-    ),
-})
+export const basicInfoSchema = z
+  .object({
+    // Action (AZIONE) - used in the file name, INSERIMENTO when not set
+    action: z.enum(['INSERIMENTO', 'AGGIORNAMENTO']).optional(),
+    pivaUtente: z
+      .string()
+      .min(11, 'La PIVA deve contenere almeno 11 caratteri')
+      .max(16, 'La PIVA non può superare i 16 caratteri')
+      .regex(
+        /^[A-Z0-9]+$/,
+        'La PIVA deve contenere solo lettere maiuscole e numeri',
+      ),
+    codOfferta: z
+      .string()
+      .min(1, 'Il codice offerta è obbligatorio')
+      .max(32, 'Il codice offerta non può superare i 32 caratteri')
+      .regex(
+        /^[A-Z0-9]+$/,
+        'Il codice offerta deve contenere solo lettere maiuscole e numeri',
+      ),
+    // Confirmation that COD_OFFERTA identifies an offer already sent to SII - mandatory for AGGIORNAMENTO
+    existingOfferConfirmed: z.boolean().optional(),
+    // Target version of the SII specification - the one in force when not set
+    specVersion: z
+      .string()
+      .refine(
+        (version) => getSpecVersion(version) !== undefined,
+        'Versione delle specifiche SII non supportata',
+      )
+      .optional(),
+  })
+  .refine(
+    (data) => {
+      // An update must reference the COD_OFFERTA of an existing offer
+      if (data.action === 'AGGIORNAMENTO' && !data.existingOfferConfirmed) {
+        return false
+      }
+      return true
+    },
+    {
+      message:
+        "Per un aggiornamento conferma che il codice offerta corrisponde a un'offerta già trasmessa al SII",
+      path: ['existingOfferConfirmed'],
+    },
+  )
 
 // Offer Details Schema - matching SII specification
 export const offerDetailsSchema = z
@@ -48,6 +109,9 @@ export const offerDetailsSchema = z
       required_error: 'Seleziona un tipo di offerta',
     }),
 
+    // Offer mode (FR-5.8) - not transmitted, simulable when missing
+    offerMode: z.enum(['SIMULABILE', 'NON_SIMULABILE']).optional(),
+
     // Contract activation types (TIPOLOGIA_ATT_CONTR) - mandatory, can be multiple
     contractActivationTypes: z
       .array(z.enum(['01', '02', '03', '04', '99']))
@@ -329,6 +393,57 @@ export const pricingConfigSchema = z
       path: ['dispatching'],
     },
   )
+  .superRefine((data, ctx) => {
+    // Weekly strings must match the bands of TIPOLOGIA_FASCE
+    const issues = validateWeeklyTimeBands(
+      data.timeBandConfiguration,
+      data.weeklyTimeBands,
+    )
+    for (const issue of issues) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: issue.message,
+        path: issue.day ? ['weeklyTimeBands', issue.day] : ['weeklyTimeBands'],
+      })
+    }
+  })
+
+// Validity period (PeriodoValidita) - shared by price intervals and discounts
+const validityPeriodSchema = z.object({
+  // Duration (DURATA) - optional
+  duration: z
+    .number()
+    .int()
+    .min(1, 'La durata deve essere maggiore di 0')
+    .max(99, 'La durata non può superare 99')
+    .optional(),
+
+  // Valid until (VALIDO_FINO) - format: MM/AAAA
+  validUntil: z
+    .string()
+    .regex(/^\d{2}\/\d{4}$/, 'Formato non valido (MM/AAAA)')
+    .optional(),
+
+  // Valid months (MESE_VALIDITA) - optional
+  validMonths: z
+    .array(
+      z.enum([
+        '01',
+        '02',
+        '03',
+        '04',
+        '05',
+        '06',
+        '07',
+        '08',
+        '09',
+        '10',
+        '11',
+        '12',
+      ]),
+    )
+    .optional(),
+})
 
 // Company Components Schema - matching SII specification
 export const companyComponentsSchema = z
@@ -433,27 +548,7 @@ export const companyComponentsSchema = z
                 }),
 
                 // Validity period (PeriodoValidita) - optional
-                validityPeriod: z
-                  .object({
-                    // From date (DATA_INIZIO) - format: gg/mm/aaaa
-                    fromDate: z
-                      .string()
-                      .regex(
-                        /^\d{2}\/\d{2}\/\d{4}$/,
-                        'Formato data non valido (gg/mm/aaaa)',
-                      )
-                      .optional(),
-
-                    // To date (DATA_FINE) - format: gg/mm/aaaa
-                    toDate: z
-                      .string()
-                      .regex(
-                        /^\d{2}\/\d{2}\/\d{4}$/,
-                        'Formato data non valido (gg/mm/aaaa)',
-                      )
-                      .optional(),
-                  })
-                  .optional(),
+                validityPeriod: validityPeriodSchema.optional(),
               }),
             )
             .min(1, 'È richiesto almeno un intervallo di prezzo'),
@@ -461,45 +556,6 @@ export const companyComponentsSchema = z
       )
       .optional(),
   })
-  .superRefine((data, ctx) => {
-    // Access form context through the special context object
-    // This will be available when using createContextualResolver
-    try {
-      const contextData = ctx as unknown as {
-        context?: { formStates?: CompleteFormValues }
-      }
-      const formStates = contextData?.context?.formStates
-
-      if (!formStates) {
-        // If no context is available, skip cross-step validation
-        return
-      }
-
-      const marketType = formStates.offerDetails?.marketType
-
-      // Gas market validation: Each ComponenteImpresa must have at least one IntervalloPrezzi
-      if (marketType === '02' && data.companyComponents) {
-        data.companyComponents.forEach((component, index) => {
-          if (
-            !component.priceIntervals ||
-            component.priceIntervals.length === 0
-          ) {
-            ctx.addIssue({
-              code: z.ZodIssueCode.custom,
-              message:
-                'Per il mercato gas, ogni componente aziendale deve avere almeno un intervallo di prezzo',
-              path: ['companyComponents', index, 'priceIntervals'],
-            })
-          }
-        })
-      }
-
-      // Additional cross-step validations can be added here
-    } catch {
-      // If context access fails, skip validation silently
-      // This ensures the schema works even without the custom resolver
-    }
-  })
   .refine(
     (data) => {
       // Check consumption range consistency in price intervals
@@ -526,42 +582,26 @@ export const companyComponentsSchema = z
       path: ['companyComponents'],
     },
   )
-  .refine(
-    (data) => {
-      // Check validity period consistency
-      if (!data.companyComponents) {
-        return true
-      }
-
-      for (const component of data.companyComponents) {
-        for (const interval of component.priceIntervals) {
-          const validityPeriod = interval.validityPeriod
-          if (!validityPeriod?.fromDate) {
-            continue
-          }
-          if (!validityPeriod?.toDate) {
-            continue
-          }
-
-          const fromDate = new Date(
-            validityPeriod.fromDate.split('/').reverse().join('-'),
-          )
-          const toDate = new Date(
-            validityPeriod.toDate.split('/').reverse().join('-'),
-          )
-
-          if (fromDate >= toDate) {
-            return false
-          }
-        }
+  .superRefine((data, ctx) => {
+    // Stepped consumption brackets must start at 0 without gaps or overlaps
+    for (const [index, component] of (data.companyComponents ?? []).entries()) {
+      for (const issue of validateConsumptionBrackets(
+        component.priceIntervals,
+      )) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: issue.message,
+          path: [
+            'companyComponents',
+            index,
+            'priceIntervals',
+            issue.intervalIndex,
+            'consumptionFrom',
+          ],
+        })
       }
-      return true
-    },
-    {
-      message: 'La data di inizio deve essere precedente alla data di fine',
-      path: ['companyComponents'],
-    },
-  )
+    }
+  })
 
 // Helper function to validate early withdrawal charges date
 function validateEarlyWithdrawalDate(
@@ -579,18 +619,12 @@ function validateEarlyWithdrawalDate(
     return
   }
 
-  const dateParts = startDateStr.split('/')
-  if (dateParts.length !== 3) {
+  const startDate = toTimestampKey(startDateStr, DEFAULT_START_TIME)
+  if (!startDate) {
     return
   }
 
-  const startDate = new Date(
-    Number.parseInt(dateParts[2], 10), // year
-    Number.parseInt(dateParts[1], 10) - 1, // month (0-indexed)
-    Number.parseInt(dateParts[0], 10), // day
-  )
-
-  const minimumDate = new Date(2024, 0, 1) // January 1, 2024
+  const minimumDate = '20240101000000' // January 1, 2024
 
   if (startDate < minimumDate) {
     ctx.addIssue({
@@ -697,25 +731,6 @@ export const paymentConditionsSchema = z
       path: ['contractualConditions'],
     },
   )
-  .superRefine((data, ctx) => {
-    // TIPOLOGIA_CONDIZIONE = 05 (Early Withdrawal Charges) can only be used starting from January 1, 2024
-    if (!data.contractualConditions) {
-      return
-    }
-
-    const formContext = getFormContext(ctx)
-    const validityReview = formContext.validityReview
-
-    for (const [index, condition] of data.contractualConditions.entries()) {
-      if (condition.conditionType === '05') {
-        validateEarlyWithdrawalDate(
-          validityReview?.validityPeriod?.startDate,
-          index,
-          ctx,
-        )
-      }
-    }
-  })
 
 // Additional Features Schema - matching SII specification
 export const additionalFeaturesSchema = z
@@ -884,43 +899,7 @@ export const additionalFeaturesSchema = z
           }),
 
           // Validity period (PeriodoValidita) - optional
-          validityPeriod: z
-            .object({
-              // Duration (DURATA) - optional
-              duration: z
-                .number()
-                .int()
-                .min(1, 'La durata deve essere maggiore di 0')
-                .max(99, 'La durata non può superare 99')
-                .optional(),
-
-              // Valid until (VALIDO_FINO) - format: MM/AAAA
-              validUntil: z
-                .string()
-                .regex(/^\d{2}\/\d{4}$/, 'Formato non valido (MM/AAAA)')
-                .optional(),
-
-              // Valid months (MESE_VALIDITA) - optional
-              validMonths: z
-                .array(
-                  z.enum([
-                    '01',
-                    '02',
-                    '03',
-                    '04',
-                    '05',
-                    '06',
-                    '07',
-                    '08',
-                    '09',
-                    '10',
-                    '11',
-                    '12',
-                  ]),
-                )
-                .optional(),
-            })
-            .optional(),
+          validityPeriod: validityPeriodSchema.optional(),
 
           // Discount condition (Condizione) - mandatory
           condition: z.object({
@@ -1140,22 +1119,34 @@ export const additionalFeaturesSchema = z
       path: ['discounts'],
     },
   )
+  .superRefine((data, ctx) => {
+    // Validate zones against the ISTAT hierarchy, unknown codes are warnings
+    for (const issue of validateZoneHierarchy(data.zoneOffers).filter(
+      ({ severity }) => severity === 'error',
+    )) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: issue.message,
+        path: ['zoneOffers', issue.field, issue.index],
+      })
+    }
+  })
 
 // Validity & Review Schema - matching SII specification
 export const validityReviewSchema = z
   .object({
     // Validity period (PeriodoValidita) - mandatory for offer validity
     validityPeriod: z.object({
-      // Start date (DATA_INIZIO) - format: gg/mm/aaaa - mandatory
+      // Start date (DATA_INIZIO) - format: gg/mm/aaaa_hh:mm:ss, Italian time - mandatory
       startDate: z
         .string()
         .min(1, 'La data di inizio è obbligatoria')
-        .regex(/^\d{2}\/\d{2}\/\d{4}$/, 'Formato data non valido (gg/mm/aaaa)'),
+        .refine(isValidFormTimestamp, TIMESTAMP_FORMAT_MESSAGE),
 
-      // End date (DATA_FINE) - format: gg/mm/aaaa - optional (null means indefinite)
+      // End date (DATA_FINE) - format: gg/mm/aaaa_hh:mm:ss, Italian time - optional (null means indefinite)
       endDate: z
         .string()
-        .regex(/^\d{2}\/\d{2}\/\d{4}$/, 'Formato data non valido (gg/mm/aaaa)')
+        .refine(isValidFormTimestamp, TIMESTAMP_FORMAT_MESSAGE)
         .optional()
         .or(z.literal('')),
     }),
@@ -1173,47 +1164,29 @@ export const validityReviewSchema = z
   })
   .refine(
     (data) => {
-      // Validate date range if both dates are provided
-      if (data.validityPeriod.endDate && data.validityPeriod.endDate !== '') {
-        const startParts = data.validityPeriod.startDate.split('/')
-        const endParts = data.validityPeriod.endDate.split('/')
-
-        const startDate = new Date(
-          Number.parseInt(startParts[2], 10), // year
-          Number.parseInt(startParts[1], 10) - 1, // month (0-indexed)
-          Number.parseInt(startParts[0], 10), // day
-        )
-
-        const endDate = new Date(
-          Number.parseInt(endParts[2], 10), // year
-          Number.parseInt(endParts[1], 10) - 1, // month (0-indexed)
-          Number.parseInt(endParts[0], 10), // day
-        )
-
-        return startDate <= endDate
-      }
-      return true
+      // Validate date range if both dates are provided, without a time the
+      // offer starts at 00:00:00 and ends at 23:59:59
+      const start = toTimestampKey(
+        data.validityPeriod.startDate,
+        DEFAULT_START_TIME,
+      )
+      const end = toTimestampKey(data.validityPeriod.endDate, DEFAULT_END_TIME)
+      return !(start && end) || start < end
     },
     {
-      message:
-        'La data di fine deve essere successiva o uguale alla data di inizio',
+      message: 'La data di fine deve essere successiva alla data di inizio',
       path: ['validityPeriod', 'endDate'],
     },
   )
   .refine(
     (data) => {
-      // Validate that start date is not in the past (at least today)
-      const startParts = data.validityPeriod.startDate.split('/')
-      const startDate = new Date(
-        Number.parseInt(startParts[2], 10), // year
-        Number.parseInt(startParts[1], 10) - 1, // month (0-indexed)
-        Number.parseInt(startParts[0], 10), // day
+      // Validate that start date is not in the past (at least today in Italy)
+      const start = toTimestampKey(
+        data.validityPeriod.startDate,
+        DEFAULT_START_TIME,
       )
-
-      const today = new Date()
-      today.setHours(0, 0, 0, 0) // Reset time to start of day
-
-      return startDate >= today
+      const now = toTimestampKey(getSIITimestamp(), DEFAULT_START_TIME)
+      return !(start && now) || start.slice(0, 8) >= now.slice(0, 8)
     },
     {
       message: 'La data di inizio non può essere precedente alla data odierna',
@@ -1252,16 +1225,166 @@ export const schemaMap = {
 
 export type SchemaMap = typeof schemaMap
 
+// Form states of the whole wizard, seen by the rules spanning several steps
+type FormStatesContext = Partial<CompleteFormValues>
+
+type CrossStepRules = {
+  [K in keyof SchemaMap]?: (
+    data: z.infer<SchemaMap[K]>,
+    formStates: FormStatesContext,
+    ctx: z.RefinementCtx,
+  ) => void
+}
+
+// Rules of a step that depend on the values of other steps
+const CROSS_STEP_RULES: CrossStepRules = {
+  activationContacts: (data, formStates, ctx) => {
+    if (requiresOfferUrl(formStates.offerDetails?.offerMode, data.offerUrl)) {
+      ctx.addIssue(OFFER_URL_ISSUE)
+    }
+  },
+
+  companyComponents: (data, formStates, ctx) => {
+    const marketType = formStates.offerDetails?.marketType
+
+    for (const [index, component] of (data.companyComponents ?? []).entries()) {
+      const path = ['companyComponents', index, 'priceIntervals']
+
+      // Gas market: each ComponenteImpresa needs at least one IntervalloPrezzi
+      if (marketType === '02' && component.priceIntervals.length === 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message:
+            'Per il mercato gas, ogni componente aziendale deve avere almeno un intervallo di prezzo',
+          path,
+        })
+      }
+
+      // Electricity market: IntervalloPrezzi must match TIPOLOGIA_FASCE (FR-4.6)
+      if (marketType === '01') {
+        for (const issue of validateElectricityPriceIntervals(
+          component,
+          formStates.pricingConfig?.timeBandConfiguration,
+        )) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: issue.message,
+            path:
+              issue.intervalIndex === undefined
+                ? path
+                : [...path, issue.intervalIndex],
+          })
+        }
+      }
+    }
+  },
+
+  paymentConditions: (data, formStates, ctx) => {
+    // TIPOLOGIA_CONDIZIONE = 05 (Early Withdrawal Charges) only from January 1, 2024
+    for (const [index, condition] of (
+      data.contractualConditions ?? []
+    ).entries()) {
+      if (condition.conditionType === '05') {
+        validateEarlyWithdrawalDate(
+          formStates.validityReview?.validityPeriod?.startDate,
+          index,
+          ctx,
+        )
+      }
+    }
+  },
+}
+
+const CROSS_STEP_RULE_STEPS = Object.keys(
+  CROSS_STEP_RULES,
+) as (keyof SchemaMap)[]
+
+function applyCrossStepRule<K extends keyof SchemaMap>(
+  step: K,
+  data: z.infer<SchemaMap[K]>,
+  formStates: FormStatesContext,
+  ctx: z.RefinementCtx,
+) {
+  CROSS_STEP_RULES[step]?.(data, formStates, ctx)
+}
+
+// Enumerations and limits of the target version, the static schemas accept
+// the values of every registered version
+function applySpecFieldRules(
+  step: keyof SchemaMap,
+  data: unknown,
+  spec: SpecVersion,
+  ctx: z.RefinementCtx,
+) {
+  for (const issue of validateSpecFields(spec, step, data)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `${issue.message} (specifiche ${spec.version})`,
+      path: issue.path,
+    })
+  }
+}
+
+/**
+ * Schema of a wizard step with the rules depending on the other steps
+ * The step schemas of schemaMap only check their own values, zod has no way
+ * to hand them the rest of the form. The target version of basicInfo decides
+ * the enumerations and limits of every step
+ * @param step - Wizard step
+ * @param formStates - Values of every step, the current one included
+ * @param versions - Registered versions
+ * @returns Schema validating the step values against the form states
+ */
+export function getStepSchema<K extends keyof SchemaMap>(
+  step: K,
+  formStates: FormStatesContext,
+  versions: SpecVersion[] = SPEC_VERSIONS,
+): z.ZodTypeAny {
+  const schema: z.ZodTypeAny = schemaMap[step]
+  const spec = resolveSpecVersion(
+    formStates.basicInfo?.specVersion,
+    new Date(),
+    versions,
+  )
+
+  return schema.superRefine((data, ctx) => {
+    applySpecFieldRules(step, data, spec, ctx)
+    applyCrossStepRule(step, data, formStates, ctx)
+  })
+}
+
 // Complete form schema that combines all steps and applies conditional validation
-export const completeFormSchema = z.object({
-  basicInfo: basicInfoSchema.optional(),
-  offerDetails: offerDetailsSchema.optional(),
-  activationContacts: activationContactsSchema.optional(),
-  pricingConfig: pricingConfigSchema.optional(),
-  companyComponents: companyComponentsSchema.optional(),
-  paymentConditions: paymentConditionsSchema.optional(),
-  additionalFeatures: additionalFeaturesSchema.optional(),
-  validityReview: validityReviewSchema.optional(),
-})
+export const completeFormSchema = z
+  .object({
+    basicInfo: basicInfoSchema.optional(),
+    offerDetails: offerDetailsSchema.optional(),
+    activationContacts: activationContactsSchema.optional(),
+    pricingConfig: pricingConfigSchema.optional(),
+    companyComponents: companyComponentsSchema.optional(),
+    paymentConditions: paymentConditionsSchema.optional(),
+    additionalFeatures: additionalFeaturesSchema.optional(),
+    validityReview: validityReviewSchema.optional(),
+  })
+  .superRefine((data, ctx) => {
+    const spec = resolveSpecVersion(data.basicInfo?.specVersion)
+    const stepCtx = (step: keyof SchemaMap): z.RefinementCtx => ({
+      ...ctx,
+      addIssue: (issue) =>
+        ctx.addIssue({ ...issue, path: [step, ...(issue.path ?? [])] }),
+    })
+
+    // Step rules, with the issues under the step they belong to
+    for (const step of Object.keys(schemaMap) as (keyof SchemaMap)[]) {
+      if (data[step]) {
+        applySpecFieldRules(step, data[step], spec, stepCtx(step))
+      }
+    }
+    for (const step of CROSS_STEP_RULE_STEPS) {
+      const values = data[step]
+      if (values) {
+        applyCrossStepRule(step, values, data, stepCtx(step))
+      }
+    }
+  })
 
 export type CompleteFormValues = z.infer<typeof completeFormSchema>
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_END_TIME,
+  DEFAULT_START_TIME,
+  getSIITimestamp,
+  parseSIITimestamp,
+  toSIITime,
+  toSIITimestamp,
+  toTimestampKey,
+} from './sii-timestamp'
+
+describe('sii-timestamp', () => {
+  describe('parseSIITimestamp', () => {
+    it('should split the date and the time', () => {
+      expect(parseSIITimestamp('01/02/2099_08:30:00')).toEqual({
+        date: '01/02/2099',
+        time: '08:30:00',
+      })
+      expect(parseSIITimestamp('01/02/2099')).toEqual({
+        date: '01/02/2099',
+        time: undefined,
+      })
+    })
+
+    it('should reject values that are not calendar dates and times', () => {
+      expect(parseSIITimestamp('29/02/2099')).toBeUndefined()
+      expect(parseSIITimestamp('01/13/2099')).toBeUndefined()
+      expect(parseSIITimestamp('01/01/2099_12:60:00')).toBeUndefined()
+      expect(parseSIITimestamp('2099-01-01')).toBeUndefined()
+      expect(parseSIITimestamp(undefined)).toBeUndefined()
+    })
+  })
+
+  describe('toSIITimestamp', () => {
+    it('should add the default time to dates', () => {
+      expect(toSIITimestamp('01/01/2099', DEFAULT_START_TIME)).toBe(
+        '01/01/2099_00:00:00',
+      )
+      expect(toSIITimestamp('31/12/2099', DEFAULT_END_TIME)).toBe(
+        '31/12/2099_23:59:59',
+      )
+    })
+
+    it('should keep the time of timestamps', () => {
+      expect(toSIITimestamp('01/01/2099_08:30:00', DEFAULT_START_TIME)).toBe(
+        '01/01/2099_08:30:00',
+      )
+    })
+
+    it('should leave invalid values unchanged', () => {
+      expect(toSIITimestamp('', DEFAULT_END_TIME)).toBe('')
+      expect(toSIITimestamp('1/1/2099', DEFAULT_START_TIME)).toBe('1/1/2099')
+    })
+  })
+
+  describe('toSIITime', () => {
+    it('should add the seconds omitted by time inputs', () => {
+      expect(toSIITime('08:30')).toBe('08:30:00')
+      expect(toSIITime('08:30:15')).toBe('08:30:15')
+    })
+  })
+
+  describe('getSIITimestamp', () => {
+    it('should use Italian winter time', () => {
+      expect(getSIITimestamp(new Date('2099-01-15T23:30:00Z'))).toBe(
+        '16/01/2099_00:30:00',
+      )
+    })
+
+    it('should use Italian summer time', () => {
+      expect(getSIITimestamp(new Date('2099-07-15T10:00:00Z'))).toBe(
+        '15/07/2099_12:00:00',
+      )
+    })
+  })
+
+  describe('toTimestampKey', () => {
+    it('should sort timestamps chronologically', () => {
+      const keys = ['02/01/2099', '01/01/2099_12:00:00', '31/12/2098'].map(
+        (value) => toTimestampKey(value, DEFAULT_START_TIME),
+      )
+
+      expect(keys.sort()).toEqual([
+        '20981231000000',
+        '20990101120000',
+        '20990102000000',
+      ])
+    })
+  })
+})
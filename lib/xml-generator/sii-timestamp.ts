@@ -0,0 +1,122 @@
+/**
+ * SII timestamps of the offer validity
+ * DATA_INIZIO and DATA_FINE are Italian wall-clock times in the format
+ * GG/MM/AAAA_HH:MM:SS. The form may omit the time, in which case the start
+ * of the day is used for DATA_INIZIO and its end for DATA_FINE
+ */
+
+// Time zone of every SII timestamp
+export const SII_TIME_ZONE = 'Europe/Rome'
+
+export const DEFAULT_START_TIME = '00:00:00'
+export const DEFAULT_END_TIME = '23:59:59'
+
+// gg/mm/aaaa with an optional _hh:mm:ss
+export const FORM_TIMESTAMP_REGEX =
+  /^(\d{2})\/(\d{2})\/(\d{4})(?:_(\d{2}):(\d{2}):(\d{2}))?$/
+
+const SECONDS_REGEX = /^\d{2}:\d{2}$/
+
+const romeFormatter = new Intl.DateTimeFormat('it-IT', {
+  timeZone: SII_TIME_ZONE,
+  day: '2-digit',
+  month: '2-digit',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23',
+})
+
+export interface SIITimestampParts {
+  // gg/mm/aaaa
+  date: string
+  // hh:mm:ss, undefined when the value has no time
+  time?: string
+}
+
+/**
+ * Split a form timestamp into its date and time
+ * @param value - gg/mm/aaaa or gg/mm/aaaa_hh:mm:ss
+ * @returns The date and time, or undefined when the value is not a valid
+ * calendar date and time
+ */
+export function parseSIITimestamp(
+  value: string | undefined,
+): SIITimestampParts | undefined {
+  const match = FORM_TIMESTAMP_REGEX.exec(value ?? '')
+  if (!match) {
+    return
+  }
+
+  const [, day, month, year, hour, minute, second] = match.map(Number)
+  const calendarDate = new Date(Date.UTC(year, month - 1, day))
+  const isValidDate =
+    calendarDate.getUTCFullYear() === year &&
+    calendarDate.getUTCMonth() === month - 1 &&
+    calendarDate.getUTCDate() === day
+  const isValidTime =
+    match[4] === undefined || (hour < 24 && minute < 60 && second < 60)
+  if (!(isValidDate && isValidTime)) {
+    return
+  }
+
+  return {
+    date: `${match[1]}/${match[2]}/${match[3]}`,
+    time:
+      match[4] === undefined
+        ? undefined
+        : `${match[4]}:${match[5]}:${match[6]}`,
+  }
+}
+
+/**
+ * Convert a form timestamp into the SII format
+ * @param value - gg/mm/aaaa or gg/mm/aaaa_hh:mm:ss
+ * @param defaultTime - Time used when the value has no time
+ * @returns GG/MM/AAAA_HH:MM:SS, or the value unchanged when it is not a valid
+ * timestamp so that the validation reports it
+ */
+export function toSIITimestamp(value: string, defaultTime: string): string {
+  const parts = parseSIITimestamp(value)
+  return parts ? `${parts.date}_${parts.time ?? defaultTime}` : value
+}
+
+/**
+ * Normalize the value of a time input, which omits the seconds when they are 0
+ * @param time - hh:mm or hh:mm:ss
+ * @returns hh:mm:ss
+ */
+export function toSIITime(time: string): string {
+  return SECONDS_REGEX.test(time) ? `${time}:00` : time
+}
+
+/**
+ * Current time in Italy
+ * @param now - Instant to convert, defaults to the current time
+ * @returns GG/MM/AAAA_HH:MM:SS in the Europe/Rome time zone
+ */
+export function getSIITimestamp(now: Date = new Date()): string {
+  const parts = Object.fromEntries(
+    romeFormatter.formatToParts(now).map((part) => [part.type, part.value]),
+  )
+  return `${parts.day}/${parts.month}/${parts.year}_${parts.hour}:${parts.minute}:${parts.second}`
+}
+
+/**
+ * Sortable key of a form timestamp
+ * @param value - gg/mm/aaaa or gg/mm/aaaa_hh:mm:ss
+ * @param defaultTime - Time used when the value has no time
+ * @returns aaaammgghhmmss, or undefined when the value is not a valid timestamp
+ */
+export function toTimestampKey(
+  value: string | undefined,
+  defaultTime: string,
+): string | undefined {
+  const parts = parseSIITimestamp(value)
+  if (!parts) {
+    return
+  }
+  const [day, month, year] = parts.date.split('/')
+  return `${year}${month}${day}${(parts.time ?? defaultTime).replaceAll(':', '')}`
+}
@@ -0,0 +1,312 @@
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { type FieldMapping, OFFER_FIELD_MAPPINGS } from './offer-mapping'
+import { getStepSchema, schemaMap } from './schemas'
+import {
+  CURRENT_SPEC,
+  getDefaultSpecVersion,
+  getFieldDeclaration,
+  getFieldFacets,
+  getProducibleSpecVersions,
+  getSectionOrder,
+  getSpecSchema,
+  getSpecVersion,
+  resolveSpecVersion,
+  SPEC_4_5,
+  SPEC_VERSIONS,
+  validateSpecFields,
+} from './spec-registry'
+import {
+  COMPLETE_OFFER_FIXTURE,
+  NEXT_SPEC_FIXTURE as nextSpec,
+  PREVIOUS_SPEC_FIXTURE as previousSpec,
+  TRANSITION_SPEC_FIXTURES as transitionVersions,
+} from './test-fixtures'
+import { validateOfferXML } from './xml-api'
+import { buildXML } from './xml-builder'
+import { type FormStatesInput, toXMLFormData } from './xml-form-data'
+
+// Schema of the values of a field, without wrappers and array items
+const unwrapSchema = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return unwrapSchema(schema.unwrap())
+  }
+  if (schema instanceof z.ZodEffects) {
+    return unwrapSchema(schema.innerType())
+  }
+  if (schema instanceof z.ZodArray) {
+    return unwrapSchema(schema.element)
+  }
+  return schema
+}
+
+// Static enumerations of the step schemas with the XSD path of their field
+function collectStaticEnums(
+  mappings: FieldMapping[],
+  schema: z.ZodTypeAny,
+  elementPath: string[],
+): { path: string[]; options: string[] }[] {
+  const object = unwrapSchema(schema)
+  if (!(object instanceof z.ZodObject)) {
+    return []
+  }
+  return mappings.flatMap((mapping) => {
+    const fieldSchema = object.shape[mapping.field]
+    const path = [...elementPath, ...mapping.xml.split('/')]
+    if (!fieldSchema) {
+      return []
+    }
+    if (mapping.fields) {
+      return collectStaticEnums(mapping.fields, fieldSchema, path)
+    }
+    const values = unwrapSchema(fieldSchema)
+    return values instanceof z.ZodEnum
+      ? [{ path, options: values.options }]
+      : []
+  })
+}
+
+const gasOffer: FormStatesInput = {
+  ...COMPLETE_OFFER_FIXTURE,
+  basicInfo: { ...COMPLETE_OFFER_FIXTURE.basicInfo, codOfferta: 'GAS01' },
+  offerDetails: {
+    ...COMPLETE_OFFER_FIXTURE.offerDetails,
+    marketType: '02',
+    offerName: 'Gas Fisso',
+  },
+  validityReview: {
+    validityPeriod: {
+      startDate: '01/05/2099_00:00:00',
+      endDate: '31/12/2099_23:59:59',
+    },
+  },
+}
+
+describe('spec-registry', () => {
+  describe('getSpecVersion', () => {
+    it('should find the registered versions', () => {
+      expect(getSpecVersion('4.5')).toBe(SPEC_4_5)
+      expect(getSpecVersion('1.0')).toBeUndefined()
+    })
+  })
+
+  describe('getProducibleSpecVersions', () => {
+    it('should accept both versions during the transition period', () => {
+      expect(
+        getProducibleSpecVersions(new Date(2099, 4, 15), transitionVersions),
+      ).toEqual([nextSpec, previousSpec])
+    })
+
+    it('should accept the previous version up to its last day', () => {
+      expect(
+        getProducibleSpecVersions(new Date(2099, 5, 30), transitionVersions),
+      ).toHaveLength(2)
+      expect(
+        getProducibleSpecVersions(new Date(2099, 6, 1), transitionVersions),
+      ).toEqual([nextSpec])
+    })
+
+    it('should not accept a version before it is in force', () => {
+      expect(
+        getProducibleSpecVersions(new Date(2099, 0, 1), transitionVersions),
+      ).toEqual([previousSpec])
+    })
+  })
+
+  describe('getDefaultSpecVersion', () => {
+    it('should pick the newest accepted version', () => {
+      expect(
+        getDefaultSpecVersion(new Date(2099, 4, 15), transitionVersions),
+      ).toBe(nextSpec)
+      expect(
+        getDefaultSpecVersion(new Date(2099, 0, 1), transitionVersions),
+      ).toBe(previousSpec)
+    })
+
+    it('should fall back to the newest registered version', () => {
+      expect(
+        getDefaultSpecVersion(new Date(2020, 0, 1), transitionVersions),
+      ).toBe(nextSpec)
+    })
+  })
+
+  describe('resolveSpecVersion', () => {
+    it('should use the chosen version or the one in force', () => {
+      expect(resolveSpecVersion('4.5')).toBe(SPEC_4_5)
+      expect(resolveSpecVersion()).toBe(CURRENT_SPEC)
+      expect(resolveSpecVersion('1.0')).toBe(CURRENT_SPEC)
+    })
+  })
+
+  describe('declarations of a version', () => {
+    it('should parse the XSD once', () => {
+      expect(getSpecSchema(SPEC_4_5)).toBe(getSpecSchema(SPEC_4_5))
+    })
+
+    it('should read the section order from the XSD', () => {
+      const order = getSectionOrder(SPEC_4_5)
+
+      expect(order.slice(0, 2)).toEqual([
+        'IdentificativiOfferta',
+        'DettaglioOfferta',
+      ])
+      expect(order.at(-1)).toBe('ProdottiServiziAggiuntivi')
+    })
+
+    it('should read enumerations and limits from the XSD', () => {
+      expect(
+        getFieldFacets(SPEC_4_5, ['DettaglioOfferta', 'TIPO_MERCATO'])
+          ?.enumeration,
+      ).toEqual(['01', '02', '03'])
+      expect(
+        getFieldFacets(SPEC_4_5, ['IdentificativiOfferta', 'PIVA_UTENTE'])
+          ?.maxLength,
+      ).toBe(16)
+      expect(getFieldFacets(SPEC_4_5, ['DettaglioOfferta', 'ALTRO'])).toBe(
+        undefined,
+      )
+    })
+
+    it('should find the declarations of nested fields', () => {
+      expect(
+        getFieldDeclaration(SPEC_4_5, [
+          'ComponenteImpresa',
+          'IntervalloPrezzi',
+          'PREZZO',
+        ])?.simpleType?.base,
+      ).toBe('decimal')
+    })
+  })
+
+  describe('validateSpecFields', () => {
+    it('should report the values the version does not accept', () => {
+      expect(
+        validateSpecFields(nextSpec, 'offerDetails', {
+          marketType: '01',
+          offerName: 'A'.repeat(101),
+        }),
+      ).toEqual([
+        {
+          path: ['marketType'],
+          message:
+            'Valore "01" non ammesso per TIPO_MERCATO (valori ammessi: 02, 03)',
+        },
+        {
+          path: ['offerName'],
+          message: 'NOME_OFFERTA non può superare 100 caratteri (attuali 101)',
+        },
+      ])
+      expect(
+        validateSpecFields(previousSpec, 'offerDetails', {
+          marketType: '01',
+          offerName: 'A'.repeat(101),
+        }),
+      ).toEqual([])
+    })
+
+    it('should locate the fields of lists and groups', () => {
+      const issues = validateSpecFields(SPEC_4_5, 'companyComponents', {
+        companyComponents: [
+          {
+            name: 'Energia',
+            priceIntervals: [
+              { price: 0.123_456_7, unitOfMeasure: '06' },
+              { price: 0.1, validityPeriod: { duration: 100 } },
+            ],
+          },
+        ],
+      })
+
+      expect(issues.map((issue) => issue.path)).toEqual([
+        ['companyComponents', 0, 'priceIntervals', 0, 'price'],
+        ['companyComponents', 0, 'priceIntervals', 0, 'unitOfMeasure'],
+        [
+          'companyComponents',
+          0,
+          'priceIntervals',
+          1,
+          'validityPeriod',
+          'duration',
+        ],
+      ])
+    })
+  })
+
+  describe('step schemas', () => {
+    it('should accept every code of the registered versions', () => {
+      for (const [step, mappings] of Object.entries(OFFER_FIELD_MAPPINGS)) {
+        const schema = schemaMap[step as keyof typeof schemaMap]
+        for (const { path, options } of collectStaticEnums(
+          mappings,
+          schema,
+          [],
+        )) {
+          for (const spec of SPEC_VERSIONS) {
+            expect(options).toEqual(
+              expect.arrayContaining(
+                getFieldFacets(spec, path)?.enumeration ?? [],
+              ),
+            )
+          }
+        }
+      }
+    })
+  })
+
+  describe('transition between versions', () => {
+    it('should validate the wizard steps against the chosen version', () => {
+      const offerDetails = {
+        ...gasOffer.offerDetails,
+        marketType: '01',
+        offerName: 'A'.repeat(150),
+      }
+      const validate = (specVersion: string) =>
+        getStepSchema(
+          'offerDetails',
+          { basicInfo: { specVersion }, offerDetails } as Parameters<
+            typeof getStepSchema
+          >[1],
+          transitionVersions,
+        ).safeParse(offerDetails)
+
+      const nextResult = validate('4.6')
+      expect(nextResult.success).toBe(false)
+      expect(
+        nextResult.error?.issues.map((issue) => [issue.path, issue.message]),
+      ).toEqual([
+        [
+          ['marketType'],
+          'Valore "01" non ammesso per TIPO_MERCATO (valori ammessi: 02, 03) (specifiche 4.6)',
+        ],
+        [
+          ['offerName'],
+          'NOME_OFFERTA non può superare 100 caratteri (attuali 150) (specifiche 4.6)',
+        ],
+      ])
+      expect(validate('4.5').success).toBe(true)
+    })
+
+    it('should build and validate the XML of either version', () => {
+      for (const spec of transitionVersions) {
+        const xml = buildXML(toXMLFormData(gasOffer), spec)
+
+        expect(validateOfferXML(xml, undefined, spec).errors).toEqual([])
+      }
+
+      const electricityXML = buildXML(
+        toXMLFormData({
+          ...gasOffer,
+          offerDetails: { ...gasOffer.offerDetails, marketType: '01' },
+        }),
+        nextSpec,
+      )
+      expect(
+        validateOfferXML(electricityXML, undefined, nextSpec).errors,
+      ).toContainEqual(
+        expect.objectContaining({
+          path: '/Offerta/DettaglioOfferta/TIPO_MERCATO',
+        }),
+      )
+    })
+  })
+})
@@ -0,0 +1,289 @@
+import {
+  type FieldMapping,
+  OFFER_FIELD_MAPPINGS,
+  type OfferStepKey,
+} from './offer-mapping'
+import { SII_OFFER_XSD } from './xsd-source'
+import {
+  checkSimpleValue,
+  parseXSDSchema,
+  type XSDElement,
+  type XSDFacets,
+  type XSDSchema,
+} from './xsd-validator'
+
+/**
+ * Registry of the "Trasmissione Offerte" versions supported by the generator
+ * Each version declares its XSD, source of the enumerations, field limits and
+ * element order, and the conditional rules applied by the validator. During a
+ * transition period SII accepts both the previous and the current version, so
+ * the wizard, the builder and the validator take the target version as input
+ */
+
+// Conditional rules of xml-validator.ts that a version can enable
+export type ConditionalRuleId =
+  | 'OFFERTA_SINGOLA'
+  | 'DOMESTICO_RESIDENTE'
+  | 'TIPO_OFFERTA'
+  | 'MODALITA_ATTIVAZIONE'
+  | 'OFFERTA_DUAL'
+
+export interface SpecVersion {
+  // Version of the SII document, e.g. 4.5
+  version: string
+  label: string
+  // First and last day SII accepts files of the version, YYYY-MM-DD
+  validFrom: string
+  validUntil?: string
+  xsd: string
+  conditionalRules: ConditionalRuleId[]
+}
+
+// Field of a step whose value the version does not accept
+export interface SpecFieldIssue {
+  // Field path in the step values, e.g. ['companyComponents', 0, 'name']
+  path: (string | number)[]
+  message: string
+}
+
+export const SPEC_4_5: SpecVersion = {
+  version: '4.5',
+  label: 'Trasmissione Offerte 4.5 (6 dicembre 2023)',
+  validFrom: '2023-12-06',
+  xsd: SII_OFFER_XSD,
+  conditionalRules: [
+    'OFFERTA_SINGOLA',
+    'DOMESTICO_RESIDENTE',
+    'TIPO_OFFERTA',
+    'MODALITA_ATTIVAZIONE',
+    'OFFERTA_DUAL',
+  ],
+}
+
+// From the oldest to the newest, a new version goes at the end
+export const SPEC_VERSIONS: SpecVersion[] = [SPEC_4_5]
+
+// Default of the builder and the validator when no version is given
+export const CURRENT_SPEC = SPEC_4_5
+
+const ROOT_ELEMENT = 'Offerta'
+
+const parsedSchemas = new WeakMap<SpecVersion, XSDSchema>()
+
+/**
+ * Find a registered version
+ * @param version - Version number, e.g. 4.5
+ * @param versions - Registered versions
+ * @returns The version, undefined when it is not registered
+ */
+export function getSpecVersion(
+  version: string,
+  versions: SpecVersion[] = SPEC_VERSIONS,
+): SpecVersion | undefined {
+  return versions.find((spec) => spec.version === version)
+}
+
+/**
+ * Versions SII accepts on a day, two of them during a transition period
+ * @param today - Day of the transmission
+ * @param versions - Registered versions
+ * @returns Accepted versions, the newest first
+ */
+export function getProducibleSpecVersions(
+  today: Date = new Date(),
+  versions: SpecVersion[] = SPEC_VERSIONS,
+): SpecVersion[] {
+  const day = [
+    today.getFullYear(),
+    String(today.getMonth() + 1).padStart(2, '0'),
+    String(today.getDate()).padStart(2, '0'),
+  ].join('-')
+
+  return versions
+    .filter(
+      (spec) =>
+        spec.validFrom <= day && (!spec.validUntil || day <= spec.validUntil),
+    )
+    .reverse()
+}
+
+/**
+ * Version used when the offer does not choose one
+ * @param today - Day of the transmission
+ * @param versions - Registered versions
+ * @returns Newest accepted version, or the newest registered one
+ */
+export function getDefaultSpecVersion(
+  today: Date = new Date(),
+  versions: SpecVersion[] = SPEC_VERSIONS,
+): SpecVersion {
+  return (
+    getProducibleSpecVersions(today, versions)[0] ??
+    versions.at(-1) ??
+    CURRENT_SPEC
+  )
+}
+
+/**
+ * Target version of an offer
+ * @param version - Version chosen in the wizard, if any
+ * @param today - Day of the transmission
+ * @param versions - Registered versions
+ * @returns The chosen version, or the default one when it is not registered
+ */
+export function resolveSpecVersion(
+  version?: string,
+  today: Date = new Date(),
+  versions: SpecVersion[] = SPEC_VERSIONS,
+): SpecVersion {
+  return (
+    (version ? getSpecVersion(version, versions) : undefined) ??
+    getDefaultSpecVersion(today, versions)
+  )
+}
+
+/**
+ * Parsed XSD of a version, parsed on first use
+ * @param spec - Version
+ * @returns Schema for validateXSD
+ */
+export function getSpecSchema(spec: SpecVersion): XSDSchema {
+  let schema = parsedSchemas.get(spec)
+  if (!schema) {
+    schema = parseXSDSchema(spec.xsd)
+    parsedSchemas.set(spec, schema)
+  }
+  return schema
+}
+
+const getRootElement = (spec: SpecVersion): XSDElement | undefined =>
+  getSpecSchema(spec).elements.find((element) => element.name === ROOT_ELEMENT)
+
+/**
+ * Sections of the offer in the order of the XSD sequence
+ * @param spec - Version
+ * @returns Names of the elements under Offerta
+ */
+export function getSectionOrder(spec: SpecVersion): string[] {
+  return (getRootElement(spec)?.sequence ?? []).map((element) => element.name)
+}
+
+/**
+ * Declaration of a field
+ * @param spec - Version
+ * @param path - Elements under Offerta, e.g. ['DettaglioOfferta', 'TIPO_MERCATO']
+ * @returns Declaration of the field, undefined when the version does not declare it
+ */
+export function getFieldDeclaration(
+  spec: SpecVersion,
+  path: string[],
+): XSDElement | undefined {
+  let element = getRootElement(spec)
+  for (const name of path) {
+    element = element?.sequence?.find((child) => child.name === name)
+  }
+  return element
+}
+
+/**
+ * Enumeration and limits of a field
+ * @param spec - Version
+ * @param path - Elements under Offerta, e.g. ['DettaglioOfferta', 'TIPO_MERCATO']
+ * @returns Facets of the field, undefined when the version does not declare it
+ */
+export function getFieldFacets(
+  spec: SpecVersion,
+  path: string[],
+): XSDFacets | undefined {
+  return getFieldDeclaration(spec, path)?.simpleType?.facets
+}
+
+type StepValues = Record<string, unknown>
+
+const isStepValues = (value: unknown): value is StepValues =>
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+
+// Text written to the XML for a scalar field, timestamps keep the form format
+const toXMLTexts = (mapping: FieldMapping, value: unknown): string[] => {
+  if (mapping.kind === 'texts') {
+    return Array.isArray(value) ? value.map(String) : []
+  }
+  if (mapping.kind === 'timestamp' || value === null || value === '') {
+    return []
+  }
+  return typeof value === 'string' || typeof value === 'number'
+    ? [String(value)]
+    : []
+}
+
+// Nested values of a group or of each item of a list, with their field path
+const getNestedValues = (
+  mapping: FieldMapping,
+  value: unknown,
+  fieldPath: (string | number)[],
+): { values: StepValues; fieldPath: (string | number)[] }[] => {
+  if (mapping.kind === 'group') {
+    return isStepValues(value) ? [{ values: value, fieldPath }] : []
+  }
+  return Array.isArray(value)
+    ? value.flatMap((item, index) =>
+        isStepValues(item)
+          ? [{ values: item, fieldPath: [...fieldPath, index] }]
+          : [],
+      )
+    : []
+}
+
+function collectSpecFieldIssues(
+  spec: SpecVersion,
+  mappings: FieldMapping[],
+  values: StepValues,
+  elementPath: string[],
+  fieldPath: (string | number)[],
+): SpecFieldIssue[] {
+  return mappings.flatMap((mapping) => {
+    const value = values[mapping.field]
+    const path = [...elementPath, ...mapping.xml.split('/')]
+    const valuePath = [...fieldPath, mapping.field]
+
+    if (mapping.fields) {
+      return getNestedValues(mapping, value, valuePath).flatMap((nested) =>
+        collectSpecFieldIssues(
+          spec,
+          mapping.fields ?? [],
+          nested.values,
+          path,
+          nested.fieldPath,
+        ),
+      )
+    }
+
+    const declaration = getFieldDeclaration(spec, path)
+    return declaration
+      ? toXMLTexts(mapping, value).flatMap((text) =>
+          checkSimpleValue(text, declaration).map((message) => ({
+            path: valuePath,
+            message,
+          })),
+        )
+      : []
+  })
+}
+
+/**
+ * Check the values of a wizard step against the enumerations and limits of a
+ * version, so the wizard follows the version chosen for the offer
+ * @param spec - Target version
+ * @param step - Wizard step
+ * @param values - Step values
+ * @returns Fields whose value the version does not accept
+ */
+export function validateSpecFields(
+  spec: SpecVersion,
+  step: OfferStepKey,
+  values: unknown,
+): SpecFieldIssue[] {
+  return isStepValues(values)
+    ? collectSpecFieldIssues(spec, OFFER_FIELD_MAPPINGS[step], values, [], [])
+    : []
+}
@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createSpreadsheetTemplate,
+  importSpreadsheet,
+  parseCSV,
+  SPREADSHEET_COLUMNS,
+} from './spreadsheet-importer'
+
+const HEADER = [
+  'SEZIONE',
+  'COD_OFFERTA',
+  'PIVA_UTENTE',
+  'TIPO_MERCATO',
+  'TIPO_CLIENTE',
+  'TIPO_OFFERTA',
+  'TIPOLOGIA_ATT_CONTR',
+  'NOME_OFFERTA',
+  'DESCRIZIONE',
+  'DURATA',
+  'GARANZIE',
+  'MODALITA',
+  'TELEFONO',
+  'MODALITA_PAGAMENTO',
+  'REGIONE',
+  'DATA_INIZIO',
+  'NOME',
+  'TIPOLOGIA',
+  'MACROAREA',
+  'CONSUMO_DA',
+  'CONSUMO_A',
+  'PREZZO',
+  'UNITA_MISURA',
+  'IVA_SCONTO',
+  'VALIDITA',
+  'CONDIZIONE_APPLICAZIONE',
+  'OFFERTA_SINGOLA',
+].join(';')
+
+const offerRow = (code: string, name: string, region: string) =>
+  `OFFERTA;${code};IT12345678901;01;01;01;01|02;${name};Prezzo fisso;12;NO;01;800123456;01|02;${region};01/01/2099;;;;;;;;;;;SI`
+
+const CSV = [
+  HEADER,
+  offerRow('LUCE01NORD', 'Luce Nord', '03|05'),
+  offerRow('LUCE01SUD', 'Luce Sud', '15'),
+  'COMPONENTE_IMPRESA;LUCE01NORD;;;;;;;"Prezzo; energia";;;;;;;;Materia prima;01;04;0;1000;0,12;03;;;',
+  'COMPONENTE_IMPRESA;LUCE01NORD;;;;;;;;;;;;;;;Materia prima;;;1001;;0,10;03;;;',
+  'SCONTO;LUCE01NORD;;;;;;;Sconto web;;;;;;;;Sconto web;01;;;;5;01;01;01;00',
+].join('\n')
+
+describe('spreadsheet-importer', () => {
+  describe('parseCSV', () => {
+    it('should read quoted cells with delimiters, quotes and line breaks', () => {
+      const rows = parseCSV(
+        '\uFEFFA;B\r\n"uno; due";"riga\nnuova ""citata"""\r\n\r\nx;y',
+      )
+
+      expect(rows).toEqual([
+        { line: 1, cells: ['A', 'B'] },
+        { line: 2, cells: ['uno; due', 'riga\nnuova "citata"'] },
+        { line: 5, cells: ['x', 'y'] },
+      ])
+    })
+
+    it('should detect comma separated files', () => {
+      expect(parseCSV('A,B\n1.5,"2,5"')[1].cells).toEqual(['1.5', '2,5'])
+    })
+  })
+
+  describe('createSpreadsheetTemplate', () => {
+    it('should list every column once', () => {
+      const template = createSpreadsheetTemplate()
+
+      expect(template.startsWith('SEZIONE;COD_OFFERTA;PIVA_UTENTE;')).toBe(true)
+      expect(template.trim().split(';')).toEqual(SPREADSHEET_COLUMNS)
+      expect(new Set(SPREADSHEET_COLUMNS).size).toBe(SPREADSHEET_COLUMNS.length)
+    })
+  })
+
+  describe('importSpreadsheet', () => {
+    it('should build one offer per OFFERTA row', () => {
+      const result = importSpreadsheet(CSV)
+
+      expect(result.success).toBe(true)
+      expect(result.issues).toEqual([])
+      expect(result.offers.map((offer) => offer.codOfferta)).toEqual([
+        'LUCE01NORD',
+        'LUCE01SUD',
+      ])
+      expect(result.offers.every((offer) => offer.isValid)).toBe(true)
+
+      const [nord] = result.offers
+      expect(nord.formStates.offerDetails).toMatchObject({
+        offerName: 'Luce Nord',
+        duration: 12,
+        contractActivationTypes: ['01', '02'],
+      })
+      expect(nord.formStates.paymentConditions?.paymentMethods).toEqual([
+        { paymentMethodType: '01' },
+        { paymentMethodType: '02' },
+      ])
+      expect(nord.formStates.additionalFeatures?.zoneOffers?.regions).toEqual([
+        '03',
+        '05',
+      ])
+    })
+
+    it('should group repeated rows into components and discounts', () => {
+      const [nord, sud] = importSpreadsheet(CSV).offers
+
+      expect(nord.formStates.companyComponents?.companyComponents).toEqual([
+        {
+          name: 'Materia prima',
+          description: 'Prezzo; energia',
+          componentType: '01',
+          macroArea: '04',
+          priceIntervals: [
+            {
+              consumptionFrom: 0,
+              consumptionTo: 1000,
+              price: 0.12,
+              unitOfMeasure: '03',
+            },
+            { consumptionFrom: 1001, price: 0.1, unitOfMeasure: '03' },
+          ],
+        },
+      ])
+      expect(nord.formStates.additionalFeatures?.discounts).toEqual([
+        {
+          name: 'Sconto web',
+          description: 'Sconto web',
+          validity: '01',
+          vatApplicability: '01',
+          condition: { applicationCondition: '00' },
+          discountPrices: [
+            { discountType: '01', price: 5, unitOfMeasure: '01' },
+          ],
+        },
+      ])
+      expect(sud.formStates.companyComponents).toEqual({})
+    })
+
+    it('should report schema issues on the row and column of the value', () => {
+      const csv = [
+        HEADER,
+        offerRow('LUCE01NORD', '', '03'),
+        'COMPONENTE_IMPRESA;LUCE01NORD;;;;;;;Materia prima;;;;;;;;Energia;01;04;;;abc;03;;;',
+      ].join('\n')
+
+      const [offer] = importSpreadsheet(csv).offers
+
+      expect(offer.isValid).toBe(false)
+      expect(offer.issues).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            row: 2,
+            column: 'NOME_OFFERTA',
+            path: 'Riga 2, colonna NOME_OFFERTA',
+            issue: expect.objectContaining({ path: ['offerName'] }),
+          }),
+          expect.objectContaining({
+            row: 3,
+            column: 'PREZZO',
+            message: 'Valore numerico non valido: "abc"',
+          }),
+          expect.objectContaining({
+            row: 3,
+            column: 'PREZZO',
+            message: 'Campo obbligatorio mancante',
+            issue: expect.objectContaining({
+              path: ['companyComponents', 0, 'priceIntervals', 0, 'price'],
+            }),
+          }),
+        ]),
+      )
+    })
+
+    it('should report rows that do not belong to an offer', () => {
+      const csv = [
+        `${HEADER};COLONNA_EXTRA`,
+        offerRow('LUCE01NORD', 'Luce Nord', '03'),
+        offerRow('LUCE01NORD', 'Luce Nord bis', '03'),
+        'SCONTO;LUCE01SUD;;;;;;;;;;;;;;;Sconto;;;;;;;;;',
+        'TARIFFA;LUCE01NORD;;;;;;;;;;;;;;;;;;;;;;;;',
+      ].join('\n')
+
+      const result = importSpreadsheet(csv)
+
+      expect(result.offers).toHaveLength(1)
+      expect(
+        result.issues.map((issue) => [issue.path, issue.severity]),
+      ).toEqual([
+        ['Riga 1, colonna COLONNA_EXTRA', 'warning'],
+        ['Riga 3, colonna COD_OFFERTA', 'error'],
+        ['Riga 4, colonna COD_OFFERTA', 'error'],
+        ['Riga 5, colonna SEZIONE', 'error'],
+      ])
+    })
+
+    it('should fail without the mandatory columns', () => {
+      const result = importSpreadsheet('COD_OFFERTA;NOME_OFFERTA\nA;B')
+
+      expect(result.success).toBe(false)
+      expect(result.issues[0].message).toBe(
+        'Colonna obbligatoria mancante: SEZIONE',
+      )
+      expect(importSpreadsheet(HEADER).issues[0].message).toBe(
+        'Il file non contiene righe di offerta',
+      )
+    })
+  })
+})
@@ -0,0 +1,808 @@
+import type { ZodIssue } from 'zod'
+import { type CompleteFormValues, schemaMap } from './schemas'
+import { baseConfig } from './stepperize/config'
+import { describeIssue } from './xml-importer'
+import type { ValidationError } from './xml-validator'
+
+/**
+ * Spreadsheet importer for bulk offer generation
+ * Reads a CSV export of the pricing spreadsheet, with one OFFERTA row per
+ * offer plus repeated rows for its Dispacciamento, ComponenteImpresa and
+ * Sconto elements, and validates every offer against the step schemas.
+ * The column layout is documented in documentation/spreadsheet-import-format.md
+ */
+
+// Top-level regex patterns for performance
+const BOM_REGEX = /^\uFEFF/
+const THOUSANDS_SEPARATOR_REGEX = /\./g
+
+const CANDIDATE_DELIMITERS = [';', ',', '\t']
+const LIST_SEPARATOR = '|'
+
+export const SPREADSHEET_SECTIONS = {
+  OFFER: 'OFFERTA',
+  DISPATCHING: 'DISPACCIAMENTO',
+  COMPANY_COMPONENT: 'COMPONENTE_IMPRESA',
+  DISCOUNT: 'SCONTO',
+} as const
+
+const SECTION_COLUMN = 'SEZIONE'
+const OFFER_CODE_COLUMN = 'COD_OFFERTA'
+
+type StepKey = keyof CompleteFormValues
+type StepValues = Record<string, unknown>
+
+interface ColumnDefinition {
+  column: string
+  // Location of the value in the step or list item it belongs to
+  field: string[]
+  type?: 'text' | 'number' | 'list'
+  // Lists of objects with a single field, such as MetodoPagamento
+  itemField?: string
+}
+
+interface OfferColumnDefinition extends ColumnDefinition {
+  step: StepKey
+}
+
+// Columns of the OFFERTA rows
+const OFFER_COLUMNS: OfferColumnDefinition[] = [
+  { column: 'PIVA_UTENTE', step: 'basicInfo', field: ['pivaUtente'] },
+  { column: 'COD_OFFERTA', step: 'basicInfo', field: ['codOfferta'] },
+  { column: 'TIPO_MERCATO', step: 'offerDetails', field: ['marketType'] },
+  { column: 'OFFERTA_SINGOLA', step: 'offerDetails', field: ['singleOffer'] },
+  { column: 'TIPO_CLIENTE', step: 'offerDetails', field: ['clientType'] },
+  {
+    column: 'DOMESTICO_RESIDENTE',
+    step: 'offerDetails',
+    field: ['residentialStatus'],
+  },
+  { column: 'TIPO_OFFERTA', step: 'offerDetails', field: ['offerType'] },
+  {
+    column: 'TIPOLOGIA_ATT_CONTR',
+    step: 'offerDetails',
+    field: ['contractActivationTypes'],
+    type: 'list',
+  },
+  { column: 'NOME_OFFERTA', step: 'offerDetails', field: ['offerName'] },
+  { column: 'DESCRIZIONE', step: 'offerDetails', field: ['offerDescription'] },
+  {
+    column: 'DURATA',
+    step: 'offerDetails',
+    field: ['duration'],
+    type: 'number',
+  },
+  { column: 'GARANZIE', step: 'offerDetails', field: ['guarantees'] },
+  {
+    column: 'MODALITA',
+    step: 'activationContacts',
+    field: ['activationMethods'],
+    type: 'list',
+  },
+  {
+    column: 'DESCRIZIONE_MODALITA',
+    step: 'activationContacts',
+    field: ['activationDescription'],
+  },
+  { column: 'TELEFONO', step: 'activationContacts', field: ['phone'] },
+  {
+    column: 'URL_SITO_VENDITORE',
+    step: 'activationContacts',
+    field: ['vendorWebsite'],
+  },
+  { column: 'URL_OFFERTA', step: 'activationContacts', field: ['offerUrl'] },
+  {
+    column: 'IDX_PREZZO_ENERGIA',
+    step: 'pricingConfig',
+    field: ['energyPriceIndex'],
+  },
+  {
+    column: 'ALTRO',
+    step: 'pricingConfig',
+    field: ['alternativeIndexDescription'],
+  },
+  {
+    column: 'TIPOLOGIA_FASCE',
+    step: 'pricingConfig',
+    field: ['timeBandConfiguration'],
+  },
+  {
+    column: 'F_LUNEDI',
+    step: 'pricingConfig',
+    field: ['weeklyTimeBands', 'monday'],
+  },
+  {
+    column: 'F_MARTEDI',
+    step: 'pricingConfig',
+    field: ['weeklyTimeBands', 'tuesday'],
+  },
+  {
+    column: 'F_MERCOLEDI',
+    step: 'pricingConfig',
+    field: ['weeklyTimeBands', 'wednesday'],
+  },
+  {
+    column: 'F_GIOVEDI',
+    step: 'pricingConfig',
+    field: ['weeklyTimeBands', 'thursday'],
+  },
+  {
+    column: 'F_VENERDI',
+    step: 'pricingConfig',
+    field: ['weeklyTimeBands', 'friday'],
+  },
+  {
+    column: 'F_SABATO',
+    step: 'pricingConfig',
+    field: ['weeklyTimeBands', 'saturday'],
+  },
+  {
+    column: 'F_DOMENICA',
+    step: 'pricingConfig',
+    field: ['weeklyTimeBands', 'sunday'],
+  },
+  {
+    column: 'F_FESTIVITA',
+    step: 'pricingConfig',
+    field: ['weeklyTimeBands', 'holidays'],
+  },
+  {
+    column: 'CODICE',
+    step: 'companyComponents',
+    field: ['regulatedComponents'],
+    type: 'list',
+  },
+  {
+    column: 'MODALITA_PAGAMENTO',
+    step: 'paymentConditions',
+    field: ['paymentMethods'],
+    type: 'list',
+    itemField: 'paymentMethodType',
+  },
+  {
+    column: 'REGIONE',
+    step: 'additionalFeatures',
+    field: ['zoneOffers', 'regions'],
+    type: 'list',
+  },
+  {
+    column: 'PROVINCIA',
+    step: 'additionalFeatures',
+    field: ['zoneOffers', 'provinces'],
+    type: 'list',
+  },
+  {
+    column: 'COMUNE',
+    step: 'additionalFeatures',
+    field: ['zoneOffers', 'municipalities'],
+    type: 'list',
+  },
+  {
+    column: 'DATA_INIZIO',
+    step: 'validityReview',
+    field: ['validityPeriod', 'startDate'],
+  },
+  {
+    column: 'DATA_FINE',
+    step: 'validityReview',
+    field: ['validityPeriod', 'endDate'],
+  },
+]
+
+// Columns of the DISPACCIAMENTO rows, one row per Dispacciamento
+const DISPATCHING_COLUMNS: ColumnDefinition[] = [
+  { column: 'TIPO_DISPACCIAMENTO', field: ['dispatchingType'] },
+  { column: 'VALORE_DISP', field: ['dispatchingValue'], type: 'number' },
+  { column: 'NOME', field: ['componentName'] },
+  { column: 'DESCRIZIONE', field: ['componentDescription'] },
+]
+
+// Columns of the COMPONENTE_IMPRESA rows, one row per IntervalloPrezzi:
+// rows with the same NOME belong to the same ComponenteImpresa
+const COMPANY_COMPONENT_COLUMNS: ColumnDefinition[] = [
+  { column: 'NOME', field: ['name'] },
+  { column: 'DESCRIZIONE', field: ['description'] },
+  { column: 'TIPOLOGIA', field: ['componentType'] },
+  { column: 'MACROAREA', field: ['macroArea'] },
+]
+
+const PRICE_INTERVAL_COLUMNS: ColumnDefinition[] = [
+  { column: 'FASCIA_COMPONENTE', field: ['componentTimeBand'] },
+  { column: 'CONSUMO_DA', field: ['consumptionFrom'], type: 'number' },
+  { column: 'CONSUMO_A', field: ['consumptionTo'], type: 'number' },
+  { column: 'PREZZO', field: ['price'], type: 'number' },
+  { column: 'UNITA_MISURA', field: ['unitOfMeasure'] },
+]
+
+// Columns of the SCONTO rows, one row per PREZZISconto:
+// rows with the same NOME belong to the same Sconto
+const DISCOUNT_COLUMNS: ColumnDefinition[] = [
+  { column: 'NOME', field: ['name'] },
+  { column: 'DESCRIZIONE', field: ['description'] },
+  {
+    column: 'CODICE_COMPONENTE_FASCIA',
+    field: ['componentBandCodes'],
+    type: 'list',
+  },
+  { column: 'VALIDITA', field: ['validity'] },
+  { column: 'IVA_SCONTO', field: ['vatApplicability'] },
+  { column: 'DURATA', field: ['validityPeriod', 'duration'], type: 'number' },
+  {
+    column: 'CONDIZIONE_APPLICAZIONE',
+    field: ['condition', 'applicationCondition'],
+  },
+  {
+    column: 'DESCRIZIONE_CONDIZIONE',
+    field: ['condition', 'conditionDescription'],
+  },
+]
+
+const DISCOUNT_PRICE_COLUMNS: ColumnDefinition[] = [
+  { column: 'TIPOLOGIA', field: ['discountType'] },
+  { column: 'VALIDO_DA', field: ['validFrom'], type: 'number' },
+  { column: 'VALIDO_FINO', field: ['validTo'], type: 'number' },
+  { column: 'UNITA_MISURA', field: ['unitOfMeasure'] },
+  { column: 'PREZZO', field: ['price'], type: 'number' },
+]
+
+/**
+ * Every column of the import layout, in the order used by the template
+ */
+export const SPREADSHEET_COLUMNS = [
+  ...new Set([
+    SECTION_COLUMN,
+    OFFER_CODE_COLUMN,
+    ...[
+      ...OFFER_COLUMNS,
+      ...DISPATCHING_COLUMNS,
+      ...COMPANY_COMPONENT_COLUMNS,
+      ...PRICE_INTERVAL_COLUMNS,
+      ...DISCOUNT_COLUMNS,
+      ...DISCOUNT_PRICE_COLUMNS,
+    ].map((definition) => definition.column),
+  ]),
+]
+
+export interface SpreadsheetIssue extends ValidationError {
+  // Line of the file the issue refers to, the header is line 1
+  row: number
+  column?: string
+  // Schema issue the error comes from, when reported by schemaMap
+  issue?: ZodIssue
+}
+
+export interface SpreadsheetOffer {
+  codOfferta: string
+  row: number
+  formStates: Partial<CompleteFormValues>
+  isValid: boolean
+  issues: SpreadsheetIssue[]
+}
+
+export interface SpreadsheetImportResult {
+  success: boolean
+  offers: SpreadsheetOffer[]
+  // Issues that do not belong to a single offer
+  issues: SpreadsheetIssue[]
+}
+
+interface CSVRow {
+  line: number
+  cells: string[]
+}
+
+interface SpreadsheetRecord {
+  line: number
+  values: Record<string, string>
+}
+
+// Row that produced a value of the offer and the columns it was read from
+interface RowSource {
+  line: number
+  columns: ColumnDefinition[]
+}
+
+interface OfferDraft {
+  codOfferta: string
+  row: number
+  states: Record<StepKey, StepValues>
+  // Keyed by step and form path, e.g. companyComponents.companyComponents.0
+  sources: Map<string, RowSource>
+  issues: SpreadsheetIssue[]
+}
+
+/**
+ * Parse CSV content into rows of cells
+ * Supports quoted cells with delimiters, quotes and line breaks, and detects
+ * the delimiter (semicolon, comma or tab) from the header line
+ * @param content - CSV file content
+ * @returns Non-empty rows with the line where each one starts
+ */
+export function parseCSV(content: string): CSVRow[] {
+  const text = content.replace(BOM_REGEX, '')
+  const delimiter = detectDelimiter(text)
+  const rows: CSVRow[] = []
+  let cells: string[] = []
+  let line = 1
+  let rowLine = 1
+  let index = 0
+
+  while (index <= text.length) {
+    let value = ''
+    if (text[index] === '"') {
+      const quoted = readQuotedCell(text, index + 1)
+      value = quoted.value
+      index = quoted.end
+      line += quoted.lineBreaks
+    }
+    const end = findCellEnd(text, index, delimiter)
+    value += text.slice(index, end)
+    index = end
+    cells.push(value.trim())
+
+    if (text[index] === delimiter) {
+      index++
+      continue
+    }
+
+    if (cells.some((cell) => cell.length > 0)) {
+      rows.push({ line: rowLine, cells })
+    }
+    if (text[index] === '\r' && text[index + 1] === '\n') {
+      index++
+    }
+    index++
+    line++
+    rowLine = line
+    cells = []
+  }
+
+  return rows
+}
+
+function detectDelimiter(text: string): string {
+  const headerLine = text.split('\n', 1)[0]
+  let delimiter = CANDIDATE_DELIMITERS[0]
+  let maxCount = 0
+  for (const candidate of CANDIDATE_DELIMITERS) {
+    const count = headerLine.split(candidate).length - 1
+    if (count > maxCount) {
+      delimiter = candidate
+      maxCount = count
+    }
+  }
+  return delimiter
+}
+
+function readQuotedCell(
+  text: string,
+  start: number,
+): { value: string; end: number; lineBreaks: number } {
+  let value = ''
+  let lineBreaks = 0
+  let index = start
+
+  while (index < text.length) {
+    const char = text[index]
+    if (char === '"') {
+      // Doubled quotes are an escaped quote, a single one closes the cell
+      if (text[index + 1] !== '"') {
+        return { value, end: index + 1, lineBreaks }
+      }
+      index++
+    } else if (char === '\n') {
+      lineBreaks++
+    }
+    value += char
+    index++
+  }
+
+  return { value, end: index, lineBreaks }
+}
+
+function findCellEnd(text: string, start: number, delimiter: string): number {
+  let index = start
+  while (
+    index < text.length &&
+    text[index] !== delimiter &&
+    text[index] !== '\n' &&
+    text[index] !== '\r'
+  ) {
+    index++
+  }
+  return index
+}
+
+/**
+ * Create the header row of an empty import spreadsheet
+ * @returns CSV content with the column names, separated by semicolons
+ */
+export function createSpreadsheetTemplate(): string {
+  return `${SPREADSHEET_COLUMNS.join(';')}\n`
+}
+
+/**
+ * Import the offers of a spreadsheet exported as CSV
+ * Every offer is validated against the step schemas and each schema issue
+ * is reported on the row and column the value was read from
+ * @param content - CSV file content
+ * @returns Offers found in the file with their form states and issues
+ */
+export function importSpreadsheet(content: string): SpreadsheetImportResult {
+  const [header, ...rows] = parseCSV(content)
+  if (!header || rows.length === 0) {
+    return failure('Il file non contiene righe di offerta')
+  }
+
+  const columns = header.cells.map((cell) => cell.toUpperCase())
+  for (const required of [SECTION_COLUMN, OFFER_CODE_COLUMN]) {
+    if (!columns.includes(required)) {
+      return failure(`Colonna obbligatoria mancante: ${required}`)
+    }
+  }
+
+  const issues: SpreadsheetIssue[] = []
+  for (const column of columns) {
+    if (column && !SPREADSHEET_COLUMNS.includes(column)) {
+      issues.push({
+        row: header.line,
+        column,
+        path: formatLocation(header.line, column),
+        message: 'Colonna non riconosciuta: verrà ignorata',
+        severity: 'warning',
+      })
+    }
+  }
+
+  const records = rows.map((row) => toRecord(row, columns))
+  const drafts = new Map<string, OfferDraft>()
+
+  // Offer rows first, so list rows can be placed anywhere in the file
+  for (const record of records) {
+    if (getSection(record) === SPREADSHEET_SECTIONS.OFFER) {
+      addOffer(record, drafts, issues)
+    }
+  }
+  for (const record of records) {
+    if (getSection(record) !== SPREADSHEET_SECTIONS.OFFER) {
+      addListRow(record, drafts, issues)
+    }
+  }
+
+  return {
+    success: true,
+    offers: [...drafts.values()].map(validateOffer),
+    issues,
+  }
+}
+
+function failure(message: string): SpreadsheetImportResult {
+  return {
+    success: false,
+    offers: [],
+    issues: [{ row: 1, path: formatLocation(1), message, severity: 'error' }],
+  }
+}
+
+function formatLocation(row: number, column?: string): string {
+  return column ? `Riga ${row}, colonna ${column}` : `Riga ${row}`
+}
+
+function toRecord(row: CSVRow, columns: string[]): SpreadsheetRecord {
+  const values: Record<string, string> = {}
+  columns.forEach((column, index) => {
+    const value = row.cells[index]
+    if (column && value) {
+      values[column] = value
+    }
+  })
+  return { line: row.line, values }
+}
+
+function getSection(record: SpreadsheetRecord): string {
+  return (record.values[SECTION_COLUMN] ?? '').toUpperCase()
+}
+
+function getOfferCode(record: SpreadsheetRecord): string {
+  return (record.values[OFFER_CODE_COLUMN] ?? '').toUpperCase()
+}
+
+function addOffer(
+  record: SpreadsheetRecord,
+  drafts: Map<string, OfferDraft>,
+  issues: SpreadsheetIssue[],
+) {
+  const codOfferta = getOfferCode(record)
+  const existing = drafts.get(codOfferta)
+  if (existing) {
+    issues.push({
+      row: record.line,
+      column: OFFER_CODE_COLUMN,
+      path: formatLocation(record.line, OFFER_CODE_COLUMN),
+      message: `Offerta "${codOfferta}" già definita alla riga ${existing.row}: riga ignorata`,
+      severity: 'error',
+    })
+    return
+  }
+
+  const draft: OfferDraft = {
+    codOfferta,
+    row: record.line,
+    states: {
+      basicInfo: {},
+      offerDetails: {},
+      activationContacts: {},
+      pricingConfig: {},
+      companyComponents: {},
+      paymentConditions: {},
+      additionalFeatures: {},
+      // Offers are reviewed in the spreadsheet before being imported
+      validityReview: { reviewConfirmed: true },
+    },
+    sources: new Map(),
+    issues: [],
+  }
+
+  for (const step of baseConfig) {
+    const columns = OFFER_COLUMNS.filter((column) => column.step === step.id)
+    draft.sources.set(step.id, { line: record.line, columns })
+    readColumns(record, columns, draft.states[step.id], draft.issues)
+  }
+
+  drafts.set(codOfferta, draft)
+}
+
+function addListRow(
+  record: SpreadsheetRecord,
+  drafts: Map<string, OfferDraft>,
+  issues: SpreadsheetIssue[],
+) {
+  const section = getSection(record)
+  const codOfferta = getOfferCode(record)
+  const draft = drafts.get(codOfferta)
+
+  if (!draft) {
+    issues.push({
+      row: record.line,
+      column: OFFER_CODE_COLUMN,
+      path: formatLocation(record.line, OFFER_CODE_COLUMN),
+      message: `Offerta "${codOfferta}" non trovata: aggiungi una riga ${SPREADSHEET_SECTIONS.OFFER}`,
+      severity: 'error',
+    })
+    return
+  }
+
+  switch (section) {
+    case SPREADSHEET_SECTIONS.DISPATCHING:
+      addDispatching(record, draft)
+      break
+    case SPREADSHEET_SECTIONS.COMPANY_COMPONENT:
+      addGroupedItem(record, draft, {
+        step: 'companyComponents',
+        listField: 'companyComponents',
+        itemColumns: COMPANY_COMPONENT_COLUMNS,
+        childField: 'priceIntervals',
+        childColumns: PRICE_INTERVAL_COLUMNS,
+      })
+      break
+    case SPREADSHEET_SECTIONS.DISCOUNT:
+      addGroupedItem(record, draft, {
+        step: 'additionalFeatures',
+        listField: 'discounts',
+        itemColumns: DISCOUNT_COLUMNS,
+        childField: 'discountPrices',
+        childColumns: DISCOUNT_PRICE_COLUMNS,
+      })
+      break
+    default:
+      issues.push({
+        row: record.line,
+        column: SECTION_COLUMN,
+        path: formatLocation(record.line, SECTION_COLUMN),
+        message: `Sezione "${section}" non riconosciuta (valori ammessi: ${Object.values(SPREADSHEET_SECTIONS).join(', ')})`,
+        severity: 'error',
+      })
+  }
+}
+
+function addDispatching(record: SpreadsheetRecord, draft: OfferDraft) {
+  const pricingConfig = draft.states.pricingConfig
+  const dispatching = (pricingConfig.dispatching ?? []) as StepValues[]
+  const item: StepValues = {}
+
+  readColumns(record, DISPATCHING_COLUMNS, item, draft.issues)
+  draft.sources.set(`pricingConfig.dispatching.${dispatching.length}`, {
+    line: record.line,
+    columns: DISPATCHING_COLUMNS,
+  })
+  pricingConfig.dispatching = [...dispatching, item]
+}
+
+/**
+ * Add a row to a list whose items span several rows, such as the price
+ * intervals of a ComponenteImpresa: item fields are read from the first row
+ * with a given NOME, the following rows only add child elements
+ */
+function addGroupedItem(
+  record: SpreadsheetRecord,
+  draft: OfferDraft,
+  layout: {
+    step: StepKey
+    listField: string
+    itemColumns: ColumnDefinition[]
+    childField: string
+    childColumns: ColumnDefinition[]
+  },
+) {
+  const stepValues = draft.states[layout.step]
+  const items = (stepValues[layout.listField] ?? []) as StepValues[]
+  const name = record.values.NOME
+  let itemIndex = items.findIndex((item) => item.name === name)
+
+  if (itemIndex === -1) {
+    const item: StepValues = { [layout.childField]: [] }
+    readColumns(record, layout.itemColumns, item, draft.issues)
+    itemIndex = items.length
+    items.push(item)
+    draft.sources.set(`${layout.step}.${layout.listField}.${itemIndex}`, {
+      line: record.line,
+      columns: [...layout.itemColumns, ...layout.childColumns],
+    })
+  }
+
+  const children = items[itemIndex][layout.childField] as StepValues[]
+  const child: StepValues = {}
+  readColumns(record, layout.childColumns, child, draft.issues)
+  draft.sources.set(
+    `${layout.step}.${layout.listField}.${itemIndex}.${layout.childField}.${children.length}`,
+    { line: record.line, columns: layout.childColumns },
+  )
+  children.push(child)
+  stepValues[layout.listField] = items
+}
+
+function readColumns(
+  record: SpreadsheetRecord,
+  columns: ColumnDefinition[],
+  target: StepValues,
+  issues: SpreadsheetIssue[],
+) {
+  for (const definition of columns) {
+    const value = readCell(record, definition, issues)
+    if (value !== undefined) {
+      setValue(target, definition.field, value)
+    }
+  }
+}
+
+function readCell(
+  record: SpreadsheetRecord,
+  definition: ColumnDefinition,
+  issues: SpreadsheetIssue[],
+): unknown {
+  const value = record.values[definition.column]
+  if (value === undefined) {
+    return
+  }
+
+  if (definition.type === 'list') {
+    const values = value
+      .split(LIST_SEPARATOR)
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0)
+    return definition.itemField
+      ? values.map((item) => ({ [definition.itemField as string]: item }))
+      : values
+  }
+
+  if (definition.type === 'number') {
+    const parsed = parseNumber(value)
+    if (Number.isNaN(parsed)) {
+      issues.push({
+        row: record.line,
+        column: definition.column,
+        path: formatLocation(record.line, definition.column),
+        message: `Valore numerico non valido: "${value}"`,
+        severity: 'error',
+      })
+      return
+    }
+    return parsed
+  }
+
+  return value
+}
+
+/**
+ * Parse a number of a spreadsheet cell
+ * Spreadsheets exported with Italian settings use the decimal comma
+ * @param value - Cell content, e.g. 1.234,56 or 1234.56
+ * @returns The number, NaN when the cell is not a number
+ */
+export function parseNumber(value: string): number {
+  const normalized = value.includes(',')
+    ? value.replace(THOUSANDS_SEPARATOR_REGEX, '').replace(',', '.')
+    : value
+  return Number(normalized)
+}
+
+function setValue(target: StepValues, field: string[], value: unknown) {
+  let container = target
+  for (const key of field.slice(0, -1)) {
+    container[key] ??= {}
+    container = container[key] as StepValues
+  }
+  container[field.at(-1) as string] = value
+}
+
+function validateOffer(draft: OfferDraft): SpreadsheetOffer {
+  const issues = [...draft.issues]
+
+  for (const step of baseConfig) {
+    const result = schemaMap[step.id].safeParse(draft.states[step.id])
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        issues.push(toSpreadsheetIssue(draft, step.id, issue))
+      }
+    }
+  }
+
+  return {
+    codOfferta: draft.codOfferta,
+    row: draft.row,
+    formStates: draft.states as Partial<CompleteFormValues>,
+    isValid: !issues.some((issue) => issue.severity === 'error'),
+    issues,
+  }
+}
+
+/**
+ * Locate a schema issue on the row that produced the failing value
+ */
+function toSpreadsheetIssue(
+  draft: OfferDraft,
+  step: StepKey,
+  issue: ZodIssue,
+): SpreadsheetIssue {
+  let source: RowSource | undefined
+  for (let length = issue.path.length; length >= 0 && !source; length--) {
+    source = draft.sources.get([step, ...issue.path.slice(0, length)].join('.'))
+  }
+
+  const row = source?.line ?? draft.row
+  const column = source ? findColumn(source.columns, issue.path) : undefined
+
+  return {
+    row,
+    column,
+    path: formatLocation(row, column),
+    message: describeIssue(issue),
+    severity: 'error',
+    issue,
+  }
+}
+
+function findColumn(
+  columns: ColumnDefinition[],
+  path: (string | number)[],
+): string | undefined {
+  // Field path inside the innermost list item, e.g. ['price'] for
+  // companyComponents.0.priceIntervals.1.price
+  let end = path.length
+  while (end > 0 && typeof path[end - 1] === 'number') {
+    end--
+  }
+  let start = end
+  while (start > 0 && typeof path[start - 1] !== 'number') {
+    start--
+  }
+  const field = path.slice(start, end).join('.')
+  if (!field) {
+    return
+  }
+
+  return columns.find((definition) => {
+    const definitionField = definition.field.join('.')
+    return definitionField === field || definitionField.startsWith(`${field}.`)
+  })?.column
+}
@@ -0,0 +1,61 @@
+import { SPEC_4_5, type SpecVersion } from './spec-registry'
+import type { FormStatesInput } from './xml-form-data'
+
+/**
+ * Fixtures shared by the xml-generator tests
+ * Not imported by the application
+ */
+
+const OFFER_NAME_MAX_LENGTH_REGEX =
+  /(<xs:element name="NOME_OFFERTA">\s*<xs:simpleType>\s*<xs:restriction base="xs:string">\s*)<xs:maxLength value="255"\/>/
+
+// Electricity offer with the mandatory fields only, valid for 4.5
+export const COMPLETE_OFFER_FIXTURE: FormStatesInput = {
+  basicInfo: {
+    action: 'INSERIMENTO',
+    pivaUtente: 'IT12345678901',
+    codOfferta: 'LUCE01',
+  },
+  offerDetails: {
+    marketType: '01',
+    singleOffer: 'SI',
+    clientType: '01',
+    residentialStatus: '01',
+    offerType: '01',
+    contractActivationTypes: ['01'],
+    offerName: 'Luce Fissa',
+    offerDescription: 'Prezzo fisso per 12 mesi',
+    duration: 12,
+    guarantees: 'NO',
+  },
+  activationContacts: { activationMethods: ['01'], phone: '800123456' },
+  paymentConditions: { paymentMethods: [{ paymentMethodType: '01' }] },
+  validityReview: {
+    validityPeriod: { startDate: '01/01/2099', endDate: '31/12/2099' },
+    reviewConfirmed: true,
+  },
+}
+
+// 4.5 closing at the end of the transition period
+export const PREVIOUS_SPEC_FIXTURE: SpecVersion = {
+  ...SPEC_4_5,
+  validUntil: '2099-06-30',
+}
+
+// Next version without electricity offers, shorter offer names and none of
+// the conditional rules of 4.5
+export const NEXT_SPEC_FIXTURE: SpecVersion = {
+  version: '4.6',
+  label: 'Trasmissione Offerte 4.6 (fixture)',
+  validFrom: '2099-04-01',
+  xsd: SPEC_4_5.xsd
+    .replace('<xs:enumeration value="01"/> <!-- Elettrico -->', '')
+    .replace(OFFER_NAME_MAX_LENGTH_REGEX, '$1<xs:maxLength value="100"/>'),
+  conditionalRules: [],
+}
+
+// Both versions are accepted from April to June 2099
+export const TRANSITION_SPEC_FIXTURES = [
+  PREVIOUS_SPEC_FIXTURE,
+  NEXT_SPEC_FIXTURE,
+]
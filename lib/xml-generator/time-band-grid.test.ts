@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest'
+import { TIME_BAND_CONFIGURATIONS } from './constants'
+import {
+  countDaySegments,
+  createEmptyDay,
+  exceedsSegmentLimit,
+  formatDayTimeBands,
+  formatQuarterTime,
+  getAllowedTimeBands,
+  getDisallowedBands,
+  paintDayQuarters,
+  parseDayTimeBands,
+  validateWeeklyTimeBands,
+} from './time-band-grid'
+
+const SAMPLE_DAY = '28-3,32-2,76-1,92-2,96-3'
+
+describe('time-band-grid', () => {
+  describe('parseDayTimeBands', () => {
+    it('should expand a day string into 96 quarter hours', () => {
+      const quarters = parseDayTimeBands(SAMPLE_DAY)
+
+      expect(quarters).toHaveLength(96)
+      expect(quarters?.[0]).toBe(3)
+      expect(quarters?.[27]).toBe(3)
+      expect(quarters?.[28]).toBe(2)
+      expect(quarters?.[32]).toBe(1)
+      expect(quarters?.[95]).toBe(3)
+    })
+
+    it('should leave the quarters after the last segment empty', () => {
+      const quarters = parseDayTimeBands('32-2')
+
+      expect(quarters?.[31]).toBe(2)
+      expect(quarters?.[32]).toBeNull()
+    })
+
+    it('should return an empty day for an empty string', () => {
+      expect(parseDayTimeBands('')).toEqual(createEmptyDay())
+      expect(parseDayTimeBands(undefined)).toEqual(createEmptyDay())
+    })
+
+    it('should return null for malformed strings', () => {
+      expect(parseDayTimeBands('abc')).toBeNull()
+      expect(parseDayTimeBands('32-1,28-2')).toBeNull()
+      expect(parseDayTimeBands('96-9')).toBeNull()
+    })
+  })
+
+  describe('formatDayTimeBands', () => {
+    it('should round trip a day string', () => {
+      const quarters = parseDayTimeBands(SAMPLE_DAY)
+
+      expect(quarters).not.toBeNull()
+      expect(formatDayTimeBands(quarters ?? [])).toBe(SAMPLE_DAY)
+    })
+
+    it('should stop at the first quarter without a band', () => {
+      const quarters = createEmptyDay()
+      quarters.fill(1, 0, 8)
+      quarters.fill(2, 10, 20)
+
+      expect(formatDayTimeBands(quarters)).toBe('8-1')
+      expect(formatDayTimeBands(createEmptyDay())).toBe('')
+    })
+  })
+
+  describe('paintDayQuarters', () => {
+    it('should fill an empty day around the painted range', () => {
+      const painted = paintDayQuarters(createEmptyDay(), 35, 28, 1)
+
+      expect(formatDayTimeBands(painted)).toBe('96-1')
+    })
+
+    it('should apply a band to an inclusive range', () => {
+      const base = parseDayTimeBands('96-3') ?? createEmptyDay()
+      const painted = paintDayQuarters(base, 32, 75, 1)
+
+      expect(formatDayTimeBands(painted)).toBe('32-3,76-1,96-3')
+      expect(formatDayTimeBands(base)).toBe('96-3')
+    })
+  })
+
+  describe('segment limit', () => {
+    it('should count the segments of a day', () => {
+      expect(countDaySegments(parseDayTimeBands(SAMPLE_DAY) ?? [])).toBe(5)
+      expect(countDaySegments(createEmptyDay())).toBe(0)
+    })
+
+    it('should detect days with more than 10 segments', () => {
+      const quarters = createEmptyDay().map((_, quarter) =>
+        quarter < 11 ? (quarter % 2) + 1 : 1,
+      )
+
+      expect(countDaySegments(quarters)).toBe(11)
+      expect(exceedsSegmentLimit(quarters)).toBe(true)
+      expect(exceedsSegmentLimit(quarters.fill(1, 9))).toBe(false)
+    })
+  })
+
+  describe('allowed bands', () => {
+    it('should restrict the bands to the time band configuration', () => {
+      expect(getAllowedTimeBands(TIME_BAND_CONFIGURATIONS.MONORARIO)).toEqual([
+        1,
+      ])
+      expect(getAllowedTimeBands(TIME_BAND_CONFIGURATIONS.F1_F2_F3_F4)).toEqual(
+        [1, 2, 3, 4],
+      )
+      expect(
+        getAllowedTimeBands(TIME_BAND_CONFIGURATIONS.PEAK_OFFPEAK),
+      ).toEqual([7, 8])
+      expect(getAllowedTimeBands(undefined)).toHaveLength(8)
+    })
+
+    it('should report the bands outside the configuration', () => {
+      const quarters = parseDayTimeBands('32-7,76-2,96-1') ?? []
+
+      expect(getDisallowedBands(quarters, [1, 2])).toEqual([7])
+      expect(getDisallowedBands(quarters, [1, 2, 7])).toEqual([])
+    })
+  })
+
+  it('should format quarter indices as times', () => {
+    expect(formatQuarterTime(0)).toBe('00:00')
+    expect(formatQuarterTime(29)).toBe('07:15')
+    expect(formatQuarterTime(96)).toBe('24:00')
+  })
+
+  describe('validateWeeklyTimeBands', () => {
+    it('should accept a week consistent with the configuration', () => {
+      expect(
+        validateWeeklyTimeBands(TIME_BAND_CONFIGURATIONS.F1_F2_F3, {
+          monday: SAMPLE_DAY,
+          sunday: '96-3',
+        }),
+      ).toEqual([])
+    })
+
+    it('should skip the checks when no day is set', () => {
+      expect(
+        validateWeeklyTimeBands(TIME_BAND_CONFIGURATIONS.F1_F2, {}),
+      ).toEqual([])
+    })
+
+    it('should report malformed, truncated and inconsistent days', () => {
+      const issues = validateWeeklyTimeBands(TIME_BAND_CONFIGURATIONS.F1_F2, {
+        monday: '28-2,96-1',
+        tuesday: 'abc',
+        wednesday: '92-1',
+        sunday: '96-3',
+      })
+
+      expect(issues.map((issue) => issue.day)).toEqual([
+        'tuesday',
+        'wednesday',
+        'sunday',
+      ])
+      expect(issues[2].message).toBe(
+        'Fasce non previste dalla tipologia 02: F3',
+      )
+    })
+
+    it('should report configured bands missing from the week', () => {
+      const issues = validateWeeklyTimeBands(
+        TIME_BAND_CONFIGURATIONS.PEAK_OFFPEAK,
+        { monday: '96-7' },
+      )
+
+      expect(issues).toEqual([
+        {
+          message:
+            'Fasce della tipologia 07 non presenti in nessun giorno: OffPeak',
+        },
+      ])
+    })
+  })
+})
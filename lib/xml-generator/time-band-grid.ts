@@ -0,0 +1,284 @@
+import {
+  isValidTimeBandFormat,
+  TIME_BAND_CONFIGURATIONS,
+  TIME_BAND_CONSTANTS,
+} from './constants'
+
+/**
+ * Weekly time band grid (FasceOrarieSettimanale)
+ * Converts the SII day strings "XX1-Y1,...,XXn-Yn" to and from an array of
+ * 96 quarter hours holding the band applied in each quarter
+ */
+
+// Band applied in each quarter hour of a day, null where no band is set
+export type DayQuarters = (number | null)[]
+
+export const TIME_BAND_DAYS = [
+  { key: 'monday', label: 'Lunedì', element: 'F_LUNEDI' },
+  { key: 'tuesday', label: 'Martedì', element: 'F_MARTEDI' },
+  { key: 'wednesday', label: 'Mercoledì', element: 'F_MERCOLEDI' },
+  { key: 'thursday', label: 'Giovedì', element: 'F_GIOVEDI' },
+  { key: 'friday', label: 'Venerdì', element: 'F_VENERDI' },
+  { key: 'saturday', label: 'Sabato', element: 'F_SABATO' },
+  { key: 'sunday', label: 'Domenica', element: 'F_DOMENICA' },
+  { key: 'holidays', label: 'Festività', element: 'F_FESTIVITA' },
+] as const
+
+export type TimeBandDay = (typeof TIME_BAND_DAYS)[number]['key']
+
+export const TIME_BAND_NUMBER_LABELS: Record<number, string> = {
+  1: 'F1',
+  2: 'F2',
+  3: 'F3',
+  4: 'F4',
+  5: 'F5',
+  6: 'F6',
+  7: 'Peak',
+  8: 'OffPeak',
+}
+
+// Bands that can appear in the weekly strings of each TIPOLOGIA_FASCE
+const ALLOWED_BANDS: Record<string, number[]> = {
+  [TIME_BAND_CONFIGURATIONS.MONORARIO]: [1],
+  [TIME_BAND_CONFIGURATIONS.F1_F2]: [1, 2],
+  [TIME_BAND_CONFIGURATIONS.F1_F2_F3]: [1, 2, 3],
+  [TIME_BAND_CONFIGURATIONS.F1_F2_F3_F4]: [1, 2, 3, 4],
+  [TIME_BAND_CONFIGURATIONS.F1_F2_F3_F4_F5]: [1, 2, 3, 4, 5],
+  [TIME_BAND_CONFIGURATIONS.F1_F2_F3_F4_F5_F6]: [1, 2, 3, 4, 5, 6],
+  [TIME_BAND_CONFIGURATIONS.PEAK_OFFPEAK]: [
+    TIME_BAND_CONSTANTS.PEAK_BAND_NUMBER,
+    TIME_BAND_CONSTANTS.OFFPEAK_BAND_NUMBER,
+  ],
+  [TIME_BAND_CONFIGURATIONS.BIORARIO_F1_F23]: [1, 2, 3],
+  [TIME_BAND_CONFIGURATIONS.BIORARIO_F2_F13]: [1, 2, 3],
+  [TIME_BAND_CONFIGURATIONS.BIORARIO_F3_F12]: [1, 2, 3],
+}
+
+/**
+ * Bands allowed in the weekly strings for a time band configuration
+ *
+ * @param timeBandConfiguration - TIPOLOGIA_FASCE code
+ * @returns The band numbers, every band when the configuration is unknown
+ */
+export function getAllowedTimeBands(
+  timeBandConfiguration: string | undefined,
+): number[] {
+  return ALLOWED_BANDS[timeBandConfiguration ?? ''] ?? [1, 2, 3, 4, 5, 6, 7, 8]
+}
+
+/**
+ * Creates a day without any band
+ *
+ * @returns 96 empty quarter hours
+ */
+export function createEmptyDay(): DayQuarters {
+  return Array.from(
+    { length: TIME_BAND_CONSTANTS.QUARTERS_PER_DAY },
+    () => null,
+  )
+}
+
+/**
+ * Expands a SII day string into quarter hours
+ * Quarters after the last segment are left empty
+ *
+ * @param value - Day string, e.g. "28-3,32-2,76-1,92-2,96-3"
+ * @returns The quarter hours, null if the string is not well formed
+ */
+export function parseDayTimeBands(
+  value: string | undefined,
+): DayQuarters | null {
+  const quarters = createEmptyDay()
+  if (!value) {
+    return quarters
+  }
+  if (!isValidTimeBandFormat(value)) {
+    return null
+  }
+
+  let start = 0
+  for (const segment of value.split(',')) {
+    const [lastQuarter, band] = segment.split('-').map(Number)
+    quarters.fill(band, start, lastQuarter)
+    start = lastQuarter
+  }
+  return quarters
+}
+
+/**
+ * Compresses quarter hours into a SII day string
+ * The string stops at the first quarter without a band
+ *
+ * @param quarters - Band of each quarter hour
+ * @returns The day string, empty when the first quarter has no band
+ */
+export function formatDayTimeBands(quarters: DayQuarters): string {
+  const segments: string[] = []
+
+  for (const [index, band] of quarters.entries()) {
+    if (band === null) {
+      break
+    }
+    if (quarters[index + 1] !== band) {
+      segments.push(`${index + 1}-${band}`)
+    }
+  }
+  return segments.join(',')
+}
+
+/**
+ * Counts the segments the day string needs for the given quarter hours
+ *
+ * @param quarters - Band of each quarter hour
+ * @returns The number of segments
+ */
+export function countDaySegments(quarters: DayQuarters): number {
+  const formatted = formatDayTimeBands(quarters)
+  return formatted ? formatted.split(',').length : 0
+}
+
+/**
+ * Applies a band to a range of quarter hours
+ * Quarters without a band are filled with the same band, so that the day
+ * string always covers the painted range
+ *
+ * @param quarters - Band of each quarter hour
+ * @param from - First quarter of the range (0-95), inclusive
+ * @param to - Last quarter of the range (0-95), inclusive
+ * @param band - Band number to apply
+ * @returns A new array with the band applied
+ */
+export function paintDayQuarters(
+  quarters: DayQuarters,
+  from: number,
+  to: number,
+  band: number,
+): DayQuarters {
+  const next = quarters.map((current) => current ?? band)
+  next.fill(band, Math.min(from, to), Math.max(from, to) + 1)
+  return next
+}
+
+/**
+ * Bands of a day that the time band configuration does not allow
+ *
+ * @param quarters - Band of each quarter hour
+ * @param allowedBands - Bands allowed by TIPOLOGIA_FASCE
+ * @returns The disallowed band numbers, in ascending order
+ */
+export function getDisallowedBands(
+  quarters: DayQuarters,
+  allowedBands: number[],
+): number[] {
+  const used = new Set(quarters.filter((band): band is number => band !== null))
+  return [...used]
+    .filter((band) => !allowedBands.includes(band))
+    .sort((a, b) => a - b)
+}
+
+/**
+ * Start time of a quarter hour
+ *
+ * @param quarter - Quarter index (0-96)
+ * @returns The time as HH:MM
+ */
+export function formatQuarterTime(quarter: number): string {
+  const minutes = quarter * 15
+  const hours = Math.floor(minutes / 60)
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+/**
+ * Checks whether a day needs more segments than the SII format allows
+ *
+ * @param quarters - Band of each quarter hour
+ * @returns True if the day has more than MAX_SEGMENTS_PER_DAY segments
+ */
+export function exceedsSegmentLimit(quarters: DayQuarters): boolean {
+  return countDaySegments(quarters) > TIME_BAND_CONSTANTS.MAX_SEGMENTS_PER_DAY
+}
+
+export type WeeklyTimeBandIssue = {
+  // Day the issue refers to, undefined for issues about the whole week
+  day?: TimeBandDay
+  message: string
+}
+
+const formatBandList = (bands: number[]) =>
+  bands.map((band) => TIME_BAND_NUMBER_LABELS[band]).join(', ')
+
+// Checks a single well formed day string
+const validateDay = (
+  day: TimeBandDay,
+  quarters: DayQuarters,
+  timeBandConfiguration: string | undefined,
+): WeeklyTimeBandIssue[] => {
+  const issues: WeeklyTimeBandIssue[] = []
+
+  if (quarters.at(-1) === null) {
+    issues.push({
+      day,
+      message: `L'ultimo segmento deve terminare al quarto d'ora ${TIME_BAND_CONSTANTS.QUARTERS_PER_DAY}`,
+    })
+  }
+
+  const disallowed = getDisallowedBands(
+    quarters,
+    getAllowedTimeBands(timeBandConfiguration),
+  )
+  if (disallowed.length > 0) {
+    issues.push({
+      day,
+      message: `Fasce non previste dalla tipologia ${timeBandConfiguration}: ${formatBandList(disallowed)}`,
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Checks the weekly strings against the time band configuration
+ * Every string must be well formed, end at quarter 96 and only use the bands
+ * of TIPOLOGIA_FASCE, and every band of TIPOLOGIA_FASCE must appear in the week
+ *
+ * @param timeBandConfiguration - TIPOLOGIA_FASCE code
+ * @param weeklyTimeBands - Day strings keyed by day
+ * @returns The issues found, empty when no day string is set
+ */
+export function validateWeeklyTimeBands(
+  timeBandConfiguration: string | undefined,
+  weeklyTimeBands: Partial<Record<TimeBandDay, string>> | undefined,
+): WeeklyTimeBandIssue[] {
+  const issues: WeeklyTimeBandIssue[] = []
+  const usedBands = new Set<number>()
+  const days = TIME_BAND_DAYS.filter(({ key }) => weeklyTimeBands?.[key])
+
+  for (const { key } of days) {
+    const quarters = parseDayTimeBands(weeklyTimeBands?.[key])
+    if (!quarters) {
+      issues.push({
+        day: key,
+        message: `Formato non valido: usa segmenti XX-Y in ordine crescente, al massimo ${TIME_BAND_CONSTANTS.MAX_SEGMENTS_PER_DAY}`,
+      })
+      continue
+    }
+
+    issues.push(...validateDay(key, quarters, timeBandConfiguration))
+    for (const band of quarters) {
+      if (band !== null) {
+        usedBands.add(band)
+      }
+    }
+  }
+
+  // Coverage is only meaningful for a known TIPOLOGIA_FASCE
+  const configuredBands = ALLOWED_BANDS[timeBandConfiguration ?? ''] ?? []
+  const missing = configuredBands.filter((band) => !usedBands.has(band))
+  if (days.length > 0 && missing.length > 0) {
+    issues.push({
+      message: `Fasce della tipologia ${timeBandConfiguration} non presenti in nessun giorno: ${formatBandList(missing)}`,
+    })
+  }
+
+  return issues
+}
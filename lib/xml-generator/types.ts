@@ -329,76 +329,142 @@ export interface SIIOfferta {
   ProdottiServiziAggiuntivi?: ProdottiServiziAggiuntivi[]
 }
 
-// Form data structure for the multi-step form
+// Input of the XML builder, produced from the form states by toXMLFormData
 export interface FormData {
-  // Basic Information (Step 1)
   basicInfo: {
     pivaUtente: string
     codOfferta: string
   }
-
-  // Offer Details (Step 2)
   offerDetails: {
-    tipoMercato: MarketType
-    offertaSingola?: 'SI' | 'NO'
-    tipoCliente: ClientType
-    domesticoResidente?: ResidentialStatus
-    tipoOfferta: OfferType
-    tipologiaAttContr: ContractActivationType[]
+    tipoMercato: string
+    offertaSingola?: string
+    tipoCliente: string
+    domesticoResidente?: string
+    tipoOfferta: string
+    tipologiaAttContr: string[]
     nomeOfferta: string
     descrizione: string
     durata: number
     garanzie: string
   }
-
-  // Activation & Contacts (Step 3)
   activationContacts: {
-    modalita: ActivationMethod[]
+    modalita: string[]
     descrizioneModalita?: string
     telefono: string
     urlSitoVenditore?: string
     urlOfferta?: string
   }
-
-  // Pricing Configuration (Step 4)
   pricingConfig: {
     riferimentiPrezzoEnergia?: {
-      idxPrezzoEnergia: EnergyPriceIndex
+      idxPrezzoEnergia: string
       altro?: string
     }
     tipoPrezzo?: {
-      tipologiaFasce: TimeBandType
+      tipologiaFasce: string
+    }
+    fasceOrarieSettimanale?: {
+      fLunedi?: string
+      fMartedi?: string
+      fMercoledi?: string
+      fGiovedi?: string
+      fVenerdi?: string
+      fSabato?: string
+      fDomenica?: string
+      fFestivita?: string
     }
-    fasceOrarieSettimanale?: FasceOrarieSettimanale
-    dispacciamento?: Dispacciamento[]
+    dispacciamento?: Array<{
+      tipoDispacciamento: string
+      valoreDisp?: number
+      nome: string
+      descrizione?: string
+    }>
   }
-
-  // Company Components (Step 5)
   companyComponents: {
     componentiRegolate?: {
-      codice: RegulatedComponentCode[]
+      codice: string[]
     }
-    componenteImpresa?: ComponenteImpresa[]
+    componenteImpresa?: Array<{
+      nome: string
+      descrizione: string
+      tipologia: string
+      macroArea: string
+      intervalloPrezzi: Array<{
+        fasciaComponente?: string
+        consumoDa?: number
+        consumoA?: number
+        prezzo: number
+        unitaMisura: string
+        periodoValidita?: {
+          durata?: number
+          validoFino?: string
+          meseValidita?: string[]
+        }
+      }>
+    }>
   }
-
-  // Payment & Conditions (Step 6)
   paymentConditions: {
-    metodoPagamento: MetodoPagamento[]
-    condizioniContrattuali?: CondizioniContrattuali[]
+    metodoPagamento: Array<{
+      modalitaPagamento: string
+      descrizione?: string
+    }>
+    condizioniContrattuali?: Array<{
+      tipologiaCondizione: string
+      altro?: string
+      descrizione: string
+      limitante: string
+    }>
   }
-
-  // Additional Features (Step 7)
   additionalFeatures: {
-    caratteristicheOfferta?: CaratteristicheOfferta
-    offertaDUAL?: OffertaDUAL
-    zoneOfferta?: ZoneOfferta
-    sconto?: Sconto[]
-    prodottiServiziAggiuntivi?: ProdottiServiziAggiuntivi[]
+    caratteristicheOfferta?: {
+      consumoMin?: number
+      consumoMax?: number
+      potenzaMin?: number
+      potenzaMax?: number
+    }
+    offertaDUAL?: {
+      offerteCongiungeEE?: string[]
+      offerteCongiungeGas?: string[]
+    }
+    zoneOfferta?: {
+      regione?: string[]
+      provincia?: string[]
+      comune?: string[]
+    }
+    sconto?: Array<{
+      nome: string
+      descrizione: string
+      codiceComponenteFascia?: string[]
+      validita?: string
+      ivaSconto: string
+      periodoValidita?: {
+        durata?: number
+        validoFino?: string
+        meseValidita?: string[]
+      }
+      scontoCondizione: {
+        condizioneApplicazione: string
+        descrizioneCondizione?: string
+      }
+      prezziSconto: Array<{
+        tipologia: string
+        validoDa?: number
+        validoFino?: number
+        unitaMisura: string
+        prezzo: number
+      }>
+    }>
+    prodottiServiziAggiuntivi?: Array<{
+      nome: string
+      dettaglio: string
+      macroArea?: string
+      dettagliMacroArea?: string
+    }>
   }
-
-  // Validity & Review (Step 8)
   validityReview: {
-    validitaOfferta: ValiditaOfferta
+    validitaOfferta: {
+      dataInizio: string
+      dataFine: string
+    }
   }
 }
 
@@ -0,0 +1,310 @@
+import { describe, expect, it } from 'vitest'
+import { COMPLETE_OFFER_FIXTURE, NEXT_SPEC_FIXTURE } from './test-fixtures'
+import {
+  createErrorBody,
+  generateOfferXML,
+  toValidationErrors,
+  validateOfferXML,
+} from './xml-api'
+import { buildXML } from './xml-builder'
+import { toXMLFormData } from './xml-form-data'
+
+// Top-level regex patterns for performance
+const ERROR_SUMMARY_REGEX = /^Trovati \d+ errori?/
+
+describe('xml-api', () => {
+  describe('generateOfferXML', () => {
+    it('should generate the XML with SII validity timestamps', () => {
+      const result = generateOfferXML(COMPLETE_OFFER_FIXTURE)
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.filename).toBe('IT12345678901_INSERIMENTO_LUCE_FISSA.XML')
+        expect(result.xml).toContain(
+          '<DATA_INIZIO>01/01/2099_00:00:00</DATA_INIZIO>',
+        )
+        expect(result.xml).toContain(
+          '<DATA_FINE>31/12/2099_23:59:59</DATA_FINE>',
+        )
+      }
+    })
+
+    it('should keep the time of day of the validity dates', () => {
+      const result = generateOfferXML({
+        ...COMPLETE_OFFER_FIXTURE,
+        validityReview: {
+          validityPeriod: {
+            startDate: '01/01/2099_08:30:00',
+            endDate: '31/12/2099_18:00:00',
+          },
+          reviewConfirmed: true,
+        },
+      })
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.xml).toContain(
+          '<DATA_INIZIO>01/01/2099_08:30:00</DATA_INIZIO>',
+        )
+        expect(result.xml).toContain(
+          '<DATA_FINE>31/12/2099_18:00:00</DATA_FINE>',
+        )
+      }
+    })
+
+    it('should report schema errors with the path of the JSON field', () => {
+      const result = generateOfferXML({
+        ...COMPLETE_OFFER_FIXTURE,
+        basicInfo: { pivaUtente: 'it123', codOfferta: 'LUCE01' },
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.errors).toContainEqual({
+          path: 'basicInfo.pivaUtente',
+          message: 'La PIVA deve contenere almeno 11 caratteri',
+          severity: 'error',
+        })
+      }
+    })
+
+    it('should refuse offers failing the business rules', () => {
+      const { activationContacts: _, ...withoutContacts } =
+        COMPLETE_OFFER_FIXTURE
+      const result = generateOfferXML(withoutContacts)
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.errors.length).toBeGreaterThan(0)
+        expect(result.errors.every((error) => error.severity === 'error')).toBe(
+          true,
+        )
+      }
+    })
+
+    it('should require the offer URL for non-simulable offers', () => {
+      const result = generateOfferXML({
+        ...COMPLETE_OFFER_FIXTURE,
+        offerDetails: {
+          ...COMPLETE_OFFER_FIXTURE.offerDetails,
+          offerMode: 'NON_SIMULABILE',
+        },
+      })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.errors).toContainEqual({
+          path: 'activationContacts.offerUrl',
+          message:
+            "L'URL dell'offerta è obbligatorio per le offerte non simulabili",
+          severity: 'error',
+        })
+      }
+    })
+
+    it('should leave the simulable-only sections out of non-simulable offers', () => {
+      const result = generateOfferXML({
+        ...COMPLETE_OFFER_FIXTURE,
+        offerDetails: {
+          ...COMPLETE_OFFER_FIXTURE.offerDetails,
+          offerMode: 'NON_SIMULABILE',
+        },
+        activationContacts: {
+          ...COMPLETE_OFFER_FIXTURE.activationContacts,
+          offerUrl: 'https://example.com/offerta',
+        },
+        pricingConfig: {
+          timeBandConfiguration: '01',
+          dispatching: [
+            {
+              dispatchingType: '01',
+              dispatchingValue: 1,
+              componentName: 'Disp',
+            },
+          ],
+        },
+      })
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.xml).toContain(
+          '<URL_OFFERTA>https://example.com/offerta</URL_OFFERTA>',
+        )
+        expect(result.xml).not.toContain('<TipoPrezzo>')
+        expect(result.xml).not.toContain('<Dispacciamento>')
+      }
+    })
+
+    it('should report the required fields of the missing steps', () => {
+      const result = generateOfferXML({})
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.errors).toContainEqual({
+          path: 'basicInfo.pivaUtente',
+          message: 'Campo obbligatorio mancante',
+          severity: 'error',
+        })
+        expect(result.errors).toContainEqual({
+          path: 'validityReview.validityPeriod',
+          message: 'Campo obbligatorio mancante',
+          severity: 'error',
+        })
+        expect(
+          result.errors.filter((error) => error.path.startsWith('/')),
+        ).toEqual([])
+      }
+    })
+
+    it('should treat null steps as missing', () => {
+      const result = generateOfferXML({
+        ...COMPLETE_OFFER_FIXTURE,
+        paymentConditions: null,
+      })
+
+      expect(result).toEqual({
+        success: false,
+        errors: [
+          {
+            path: 'paymentConditions.paymentMethods',
+            message: 'Campo obbligatorio mancante',
+            severity: 'error',
+          },
+        ],
+      })
+    })
+
+    it('should reject a body that is not an object', () => {
+      const result = generateOfferXML('offerta')
+
+      expect(result).toEqual({
+        success: false,
+        errors: [
+          {
+            path: '/',
+            message: 'Tipo di valore non valido: atteso object',
+            severity: 'error',
+          },
+        ],
+      })
+    })
+  })
+
+  describe('validateOfferXML', () => {
+    it('should accept a complete offer', () => {
+      const xml = buildXML(
+        toXMLFormData({
+          ...COMPLETE_OFFER_FIXTURE,
+          validityReview: {
+            validityPeriod: {
+              startDate: '01/01/2099_00:00:00',
+              endDate: '31/12/2099_23:59:59',
+            },
+          },
+        }),
+      )
+
+      expect(validateOfferXML(xml)).toMatchObject({
+        isValid: true,
+        summary: expect.not.stringContaining('errore'),
+      })
+    })
+
+    it('should apply the non-simulable profile', () => {
+      const xml = buildXML(
+        toXMLFormData({
+          ...COMPLETE_OFFER_FIXTURE,
+          pricingConfig: { timeBandConfiguration: '01' },
+          validityReview: {
+            validityPeriod: {
+              startDate: '01/01/2099_00:00:00',
+              endDate: '31/12/2099_23:59:59',
+            },
+          },
+        }),
+      )
+
+      const validation = validateOfferXML(xml, 'NON_SIMULABILE')
+
+      expect(validation.isValid).toBe(false)
+      expect(validation.errors).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            path: '/Offerta/TipoPrezzo',
+            severity: 'error',
+          }),
+          expect.objectContaining({
+            message: 'URL_OFFERTA è obbligatorio per le offerte non simulabili',
+            severity: 'error',
+          }),
+        ]),
+      )
+    })
+
+    it('should apply the enumerations and rules of the target version', () => {
+      const xml = buildXML(
+        toXMLFormData({
+          ...COMPLETE_OFFER_FIXTURE,
+          offerDetails: {
+            ...COMPLETE_OFFER_FIXTURE.offerDetails,
+            singleOffer: undefined,
+          },
+          validityReview: {
+            validityPeriod: {
+              startDate: '01/01/2099_00:00:00',
+              endDate: '31/12/2099_23:59:59',
+            },
+          },
+        }),
+      )
+
+      const errors = validateOfferXML(xml, undefined, NEXT_SPEC_FIXTURE).errors
+
+      expect(errors).toContainEqual({
+        path: '/Offerta/DettaglioOfferta/TIPO_MERCATO',
+        message: 'TIPO_MERCATO deve essere 02 (Gas) o 03 (Dual Fuel)',
+        severity: 'error',
+      })
+      expect(validateOfferXML(xml).errors).toContainEqual(
+        expect.objectContaining({
+          path: '/Offerta/DettaglioOfferta/OFFERTA_SINGOLA',
+        }),
+      )
+      expect(errors).not.toContainEqual(
+        expect.objectContaining({
+          path: '/Offerta/DettaglioOfferta/OFFERTA_SINGOLA',
+        }),
+      )
+    })
+
+    it('should report malformed XML', () => {
+      const validation = validateOfferXML('<Offerta>')
+
+      expect(validation.isValid).toBe(false)
+      expect(validation.summary).toMatch(ERROR_SUMMARY_REGEX)
+    })
+  })
+
+  it('should describe missing fields in Italian', () => {
+    const errors = toValidationErrors([
+      {
+        code: 'invalid_type',
+        expected: 'string',
+        received: 'undefined',
+        path: ['basicInfo', 'codOfferta'],
+        message: 'Required',
+      },
+    ])
+
+    expect(createErrorBody(errors)).toEqual({
+      summary: 'Trovati 1 errore',
+      errors: [
+        {
+          path: 'basicInfo.codOfferta',
+          message: 'Campo obbligatorio mancante',
+          severity: 'error',
+        },
+      ],
+    })
+  })
+})
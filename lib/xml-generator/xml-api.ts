@@ -0,0 +1,168 @@
+import type { ZodIssue } from 'zod'
+import { ACTION_TYPES, type OfferMode } from './constants'
+import {
+  type CompleteFormValues,
+  completeFormSchema,
+  schemaMap,
+} from './schemas'
+import {
+  CURRENT_SPEC,
+  getSpecSchema,
+  resolveSpecVersion,
+  type SpecVersion,
+} from './spec-registry'
+import {
+  buildXML,
+  generateXMLFilename,
+  PLACEHOLDER_PIVA_UTENTE,
+} from './xml-builder'
+import { toXMLFormData } from './xml-form-data'
+import { describeIssue } from './xml-importer'
+import {
+  getValidationSummary,
+  type ValidationError,
+  validateBusinessRules,
+} from './xml-validator'
+import { validateXSD } from './xsd-validator'
+
+/**
+ * Server-side XML generation
+ * Shared by the /api/xml and /api/validate route handlers, so other systems
+ * get the same checks as the wizard without going through the UI
+ */
+
+export const XML_CONTENT_TYPE = 'application/xml; charset=utf-8'
+
+export type XMLGenerationResult =
+  | {
+      success: true
+      xml: string
+      filename: string
+      warnings: ValidationError[]
+    }
+  | { success: false; errors: ValidationError[] }
+
+export interface XMLValidationResponse {
+  isValid: boolean
+  summary: string
+  errors: ValidationError[]
+}
+
+/**
+ * Convert the issues of a schema validation into validation errors
+ * @param issues - Zod issues of the complete form schema
+ * @returns Errors with the dotted path of the JSON field, e.g. basicInfo.pivaUtente
+ */
+export function toValidationErrors(issues: ZodIssue[]): ValidationError[] {
+  return issues.map((issue) => ({
+    path: issue.path.length > 0 ? issue.path.join('.') : '/',
+    message: describeIssue(issue),
+    severity: 'error',
+  }))
+}
+
+/**
+ * Check a JSON body against the complete form schema
+ * Missing or null steps are checked as empty, so the required fields of every
+ * step are reported with their JSON path before any XML is built
+ * @param input - Parsed JSON body, expected to match CompleteFormValues
+ * @returns The outcome of the schema validation
+ */
+export function parseCompleteFormValues(input: unknown) {
+  if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+    return completeFormSchema.safeParse(input)
+  }
+
+  const body = input as Record<string, unknown>
+  return completeFormSchema.safeParse({
+    ...body,
+    ...Object.fromEntries(
+      Object.keys(schemaMap).map((step) => [step, body[step] ?? {}]),
+    ),
+  })
+}
+
+/**
+ * Check an XML string against the business rules and the SII XSD
+ * @param xmlString - XML content of the offer
+ * @param offerMode - Offer mode, simulable for XML received as it is
+ * @param spec - Version of the SII specification the XML targets
+ * @returns Validation outcome with an Italian summary
+ */
+export function validateOfferXML(
+  xmlString: string,
+  offerMode?: OfferMode,
+  spec: SpecVersion = CURRENT_SPEC,
+): XMLValidationResponse {
+  const businessRules = validateBusinessRules(xmlString, offerMode, spec)
+  const xsd = validateXSD(xmlString, getSpecSchema(spec))
+  const errors = [...businessRules.errors, ...xsd.errors]
+
+  return {
+    isValid: businessRules.isValid && xsd.isValid,
+    summary: getValidationSummary(errors),
+    errors,
+  }
+}
+
+/**
+ * Generate the XML of an offer from the complete form values
+ * @param input - Parsed JSON body, expected to match CompleteFormValues
+ * @returns The XML with its file name, or the errors preventing generation
+ */
+export function generateOfferXML(input: unknown): XMLGenerationResult {
+  const parsed = parseCompleteFormValues(input)
+  if (!parsed.success) {
+    return { success: false, errors: toValidationErrors(parsed.error.issues) }
+  }
+
+  const formValues: CompleteFormValues = parsed.data
+  const spec = resolveSpecVersion(formValues.basicInfo?.specVersion)
+  let xml: string
+  try {
+    xml = buildXML(toXMLFormData(formValues), spec)
+  } catch {
+    return {
+      success: false,
+      errors: [
+        {
+          path: '/',
+          message: 'Errore nella generazione del XML',
+          severity: 'error',
+        },
+      ],
+    }
+  }
+
+  const validation = validateOfferXML(
+    xml,
+    formValues.offerDetails?.offerMode,
+    spec,
+  )
+  if (!validation.isValid) {
+    return {
+      success: false,
+      errors: validation.errors.filter((error) => error.severity === 'error'),
+    }
+  }
+
+  return {
+    success: true,
+    xml,
+    filename: generateXMLFilename(
+      formValues.basicInfo?.pivaUtente || PLACEHOLDER_PIVA_UTENTE,
+      formValues.offerDetails?.offerName || 'OFFERTA',
+      formValues.basicInfo?.action || ACTION_TYPES.INSERIMENTO,
+    ),
+    warnings: validation.errors,
+  }
+}
+
+/**
+ * Body of the error responses of the API
+ * @param errors - Errors to report
+ * @returns JSON body with the Italian summary and the error list
+ */
+export function createErrorBody(errors: ValidationError[]) {
+  return { summary: getValidationSummary(errors), errors }
+}
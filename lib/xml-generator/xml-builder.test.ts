@@ -1,4 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { SPEC_4_5 } from './spec-registry'
 import {
   buildXML,
   createXMLBlob,
@@ -273,6 +274,27 @@ describe('xml-builder', () => {
       expect(xml).toContain('<ProdottiServiziAggiuntivi>')
     })
 
+    it('should follow the sections of the target version', () => {
+      const zoneElement =
+        '<xs:element name="ZoneOfferta" type="ZoneOffertaType" minOccurs="0"/>'
+      const conditionsElement =
+        '<xs:element name="CondizioniContrattuali" type="CondizioniContrattualiType" minOccurs="0" maxOccurs="unbounded"/>'
+      // Without ZoneOfferta, CondizioniContrattuali as the last section
+      const xml = buildXML(createCompleteFormData(), {
+        ...SPEC_4_5,
+        version: '4.6',
+        xsd: SPEC_4_5.xsd
+          .replace(zoneElement, '')
+          .replace(conditionsElement, '')
+          .replace('</xs:sequence>', `${conditionsElement}</xs:sequence>`),
+      })
+
+      expect(xml).not.toContain('<ZoneOfferta>')
+      expect(xml.indexOf('<ProdottiServiziAggiuntivi>')).toBeLessThan(
+        xml.indexOf('<CondizioniContrattuali>'),
+      )
+    })
+
     it('should generate valid XML with minimal form data', () => {
       const formData = createMinimalFormData()
       const xml = buildXML(formData)
@@ -296,6 +318,17 @@ describe('xml-builder', () => {
       expect(xml).not.toContain('<FasceOrarieSettimanale>')
     })
 
+    it('should emit optional DettaglioOfferta fields in schema order', () => {
+      const xml = buildXML(createCompleteFormData())
+
+      expect(xml.indexOf('<OFFERTA_SINGOLA>')).toBeLessThan(
+        xml.indexOf('<TIPO_CLIENTE>'),
+      )
+      expect(xml.indexOf('<DOMESTICO_RESIDENTE>')).toBeLessThan(
+        xml.indexOf('<TIPO_OFFERTA>'),
+      )
+    })
+
     it('should handle special characters in text fields', () => {
       const formData = createMinimalFormData()
       formData.offerDetails.descrizione = 'Test & < > " \' special chars'
@@ -389,6 +422,24 @@ describe('xml-builder', () => {
       const filename = generateXMLFilename('IT12345678901', '___Test___')
       expect(filename).toBe('IT12345678901_INSERIMENTO_TEST.XML')
     })
+
+    it('should use the AGGIORNAMENTO action for updates', () => {
+      const filename = generateXMLFilename(
+        'IT12345678901',
+        'Test',
+        'AGGIORNAMENTO',
+      )
+      expect(filename).toBe('IT12345678901_AGGIORNAMENTO_TEST.XML')
+    })
+
+    it('should use the AGGIORNAMENTO action without description', () => {
+      const filename = generateXMLFilename(
+        'IT12345678901',
+        undefined,
+        'AGGIORNAMENTO',
+      )
+      expect(filename).toBe('IT12345678901_AGGIORNAMENTO.XML')
+    })
   })
 
   describe('createXMLBlob', () => {
@@ -1431,6 +1482,32 @@ describe('xml-builder', () => {
       expect(xml).toContain('<DATA_FINE>2024-12-31 23:59:59</DATA_FINE>')
     })
 
+    it('should add the default time to validity dates', () => {
+      const formData = createMinimalFormData()
+      formData.validityReview.validitaOfferta = {
+        dataInizio: '15/01/2099',
+        dataFine: '31/12/2099',
+      }
+
+      const xml = buildXML(formData)
+
+      expect(xml).toContain('<DATA_INIZIO>15/01/2099_00:00:00</DATA_INIZIO>')
+      expect(xml).toContain('<DATA_FINE>31/12/2099_23:59:59</DATA_FINE>')
+    })
+
+    it('should keep the time of day of validity timestamps', () => {
+      const formData = createMinimalFormData()
+      formData.validityReview.validitaOfferta = {
+        dataInizio: '15/01/2099_10:30:45',
+        dataFine: '31/12/2099_18:00:00',
+      }
+
+      const xml = buildXML(formData)
+
+      expect(xml).toContain('<DATA_INIZIO>15/01/2099_10:30:45</DATA_INIZIO>')
+      expect(xml).toContain('<DATA_FINE>31/12/2099_18:00:00</DATA_FINE>')
+    })
+
     it('should handle month/year formatting correctly', () => {
       const formData = createCompleteFormData()
       formData.companyComponents.componenteImpresa[0].intervalloPrezzi[0].periodoValidita =
@@ -1,4 +1,16 @@
 import { XMLBuilder } from 'fast-xml-parser'
+import { ACTION_TYPES, type ActionType } from './constants'
+import {
+  DEFAULT_END_TIME,
+  DEFAULT_START_TIME,
+  toSIITimestamp,
+} from './sii-timestamp'
+import {
+  CURRENT_SPEC,
+  getSectionOrder,
+  type SpecVersion,
+} from './spec-registry'
+import type { FormData } from './types'
 
 /**
  * XML Builder for SII "Trasmissione Offerte" specification
@@ -11,6 +23,12 @@ const CRLF_REGEX = /\r\n/g
 const SPECIAL_CHARS_REGEX = /[^\w\s-]/g
 const MULTIPLE_UNDERSCORES_REGEX = /_+/g
 
+// Items of the repeated sections of the builder input
+type ScontoData = NonNullable<FormData['additionalFeatures']['sconto']>[number]
+type ComponenteImpresaData = NonNullable<
+  FormData['companyComponents']['componenteImpresa']
+>[number]
+
 /**
  * Remove invalid XML characters from a string
  * XML 1.0 valid characters: #x9 | #xA | #xD | [#x20-#xD7FF] | [#xE000-#xFFFD]
@@ -35,145 +53,6 @@ function removeInvalidXMLChars(str: string): string {
   return result
 }
 
-// Type definition for the form data structure
-interface FormData {
-  basicInfo: {
-    pivaUtente: string
-    codOfferta: string
-  }
-  offerDetails: {
-    tipoMercato: string
-    offertaSingola?: string
-    tipoCliente: string
-    domesticoResidente?: string
-    tipoOfferta: string
-    tipologiaAttContr: string[]
-    nomeOfferta: string
-    descrizione: string
-    durata: number
-    garanzie: string
-  }
-  activationContacts: {
-    modalita: string[]
-    descrizioneModalita?: string
-    telefono: string
-    urlSitoVenditore?: string
-    urlOfferta?: string
-  }
-  pricingConfig: {
-    riferimentiPrezzoEnergia?: {
-      idxPrezzoEnergia: string
-      altro?: string
-    }
-    tipoPrezzo?: {
-      tipologiaFasce: string
-    }
-    fasceOrarieSettimanale?: {
-      fLunedi?: string
-      fMartedi?: string
-      fMercoledi?: string
-      fGiovedi?: string
-      fVenerdi?: string
-      fSabato?: string
-      fDomenica?: string
-      fFestivita?: string
-    }
-    dispacciamento?: Array<{
-      tipoDispacciamento: string
-      valoreDisp?: number
-      nome: string
-      descrizione?: string
-    }>
-  }
-  companyComponents: {
-    componentiRegolate?: {
-      codice: string[]
-    }
-    componenteImpresa?: Array<{
-      nome: string
-      descrizione: string
-      tipologia: string
-      macroArea: string
-      intervalloPrezzi: Array<{
-        fasciaComponente?: string
-        consumoDa?: number
-        consumoA?: number
-        prezzo: number
-        unitaMisura: string
-        periodoValidita?: {
-          durata?: number
-          validoFino?: string
-          meseValidita?: string[]
-        }
-      }>
-    }>
-  }
-  paymentConditions: {
-    metodoPagamento: Array<{
-      modalitaPagamento: string
-      descrizione?: string
-    }>
-    condizioniContrattuali?: Array<{
-      tipologiaCondizione: string
-      altro?: string
-      descrizione: string
-      limitante: string
-    }>
-  }
-  additionalFeatures: {
-    caratteristicheOfferta?: {
-      consumoMin?: number
-      consumoMax?: number
-      potenzaMin?: number
-      potenzaMax?: number
-    }
-    offertaDUAL?: {
-      offerteCongiungeEE: string[]
-      offerteCongiungeGas: string[]
-    }
-    zoneOfferta?: {
-      regione?: string[]
-      provincia?: string[]
-      comune?: string[]
-    }
-    sconto?: Array<{
-      nome: string
-      descrizione: string
-      codiceComponenteFascia?: string[]
-      validita?: string
-      ivaSconto: string
-      periodoValidita?: {
-        durata?: number
-        validoFino?: string
-        meseValidita?: string[]
-      }
-      scontoCondizione: {
-        condizioneApplicazione: string
-        descrizioneCondizione?: string
-      }
-      prezziSconto: Array<{
-        tipologia: string
-        validoDa?: number
-        validoFino?: number
-        unitaMisura: string
-        prezzo: number
-      }>
-    }>
-    prodottiServiziAggiuntivi?: Array<{
-      nome: string
-      dettaglio: string
-      macroArea?: string
-      dettagliMacroArea?: string
-    }>
-  }
-  validityReview: {
-    validitaOfferta: {
-      dataInizio: string
-      dataFine: string
-    }
-  }
-}
-
 // Configure the XML builder with SII specification requirements
 const xmlBuilder = new XMLBuilder({
   ignoreAttributes: false,
@@ -190,11 +69,15 @@ const xmlBuilder = new XMLBuilder({
 /**
  * Build XML string from form data
  * @param formData - Complete form data from all steps
+ * @param spec - Target version of the SII specification
  * @returns XML string with proper declaration and UTF-8 encoding
  */
-export function buildXML(formData: FormData): string {
+export function buildXML(
+  formData: FormData,
+  spec: SpecVersion = CURRENT_SPEC,
+): string {
   // Transform form data to XML structure
-  const xmlStructure = transformToXMLStructure(formData)
+  const xmlStructure = orderSections(transformToXMLStructure(formData), spec)
 
   // Build XML string
   const xmlString = xmlBuilder.build(xmlStructure)
@@ -214,7 +97,9 @@ export function buildXML(formData: FormData): string {
  * Transform form data to XML structure matching SII specification
  * Maps camelCase form fields to UPPER_CASE XML elements
  */
-function transformToXMLStructure(formData: FormData): object {
+function transformToXMLStructure(formData: FormData): {
+  Offerta: Record<string, unknown>
+} {
   const xmlData = {
     Offerta: {} as Record<string, unknown>,
   }
@@ -235,6 +120,23 @@ function transformToXMLStructure(formData: FormData): object {
   return xmlData
 }
 
+/**
+ * Sort the sections of the offer in the order of the target version
+ * Sections the version does not declare are left out
+ */
+function orderSections(
+  xmlData: { Offerta: Record<string, unknown> },
+  spec: SpecVersion,
+) {
+  const Offerta: Record<string, unknown> = {}
+  for (const section of getSectionOrder(spec)) {
+    if (xmlData.Offerta[section] !== undefined) {
+      Offerta[section] = xmlData.Offerta[section]
+    }
+  }
+  return { Offerta }
+}
+
 // Transform functions for mandatory sections
 function transformIdentificativiOfferta(formData: FormData) {
   return {
@@ -244,9 +146,16 @@ function transformIdentificativiOfferta(formData: FormData) {
 }
 
 function transformDettaglioOfferta(formData: FormData) {
-  const dettaglioOfferta: Record<string, unknown> = {
+  const { offertaSingola, domesticoResidente } = formData.offerDetails
+
+  // Optional elements are spread in place to keep the XSD sequence order
+  return {
     TIPO_MERCATO: formData.offerDetails.tipoMercato,
+    ...(offertaSingola !== undefined && { OFFERTA_SINGOLA: offertaSingola }),
     TIPO_CLIENTE: formData.offerDetails.tipoCliente,
+    ...(domesticoResidente !== undefined && {
+      DOMESTICO_RESIDENTE: domesticoResidente,
+    }),
     TIPO_OFFERTA: formData.offerDetails.tipoOfferta,
     TIPOLOGIA_ATT_CONTR: formData.offerDetails.tipologiaAttContr,
     NOME_OFFERTA: formData.offerDetails.nomeOfferta,
@@ -254,17 +163,6 @@ function transformDettaglioOfferta(formData: FormData) {
     DURATA: formData.offerDetails.durata,
     GARANZIE: formData.offerDetails.garanzie,
   }
-
-  if (formData.offerDetails.offertaSingola !== undefined) {
-    dettaglioOfferta.OFFERTA_SINGOLA = formData.offerDetails.offertaSingola
-  }
-
-  if (formData.offerDetails.domesticoResidente !== undefined) {
-    dettaglioOfferta.DOMESTICO_RESIDENTE =
-      formData.offerDetails.domesticoResidente
-  }
-
-  return dettaglioOfferta
 }
 
 function transformModalitaAttivazione(formData: FormData) {
@@ -298,8 +196,15 @@ function transformContatti(formData: FormData) {
 
 function transformValiditaOfferta(formData: FormData) {
   return {
-    DATA_INIZIO: formData.validityReview.validitaOfferta.dataInizio,
-    DATA_FINE: formData.validityReview.validitaOfferta.dataFine,
+    // The form may omit the time: the offer then covers whole days
+    DATA_INIZIO: toSIITimestamp(
+      formData.validityReview.validitaOfferta.dataInizio,
+      DEFAULT_START_TIME,
+    ),
+    DATA_FINE: toSIITimestamp(
+      formData.validityReview.validitaOfferta.dataFine,
+      DEFAULT_END_TIME,
+    ),
   }
 }
 
@@ -413,11 +318,13 @@ function addAdditionalFeaturesSections(
   }
 
   if (formData.additionalFeatures.offertaDUAL) {
+    const { offerteCongiungeEE, offerteCongiungeGas } =
+      formData.additionalFeatures.offertaDUAL
     xmlData.Offerta.OffertaDUAL = {
-      OFFERTE_CONGIUNTE_EE:
-        formData.additionalFeatures.offertaDUAL.offerteCongiungeEE,
-      OFFERTE_CONGIUNTE_GAS:
-        formData.additionalFeatures.offertaDUAL.offerteCongiungeGas,
+      ...(offerteCongiungeEE && { OFFERTE_CONGIUNTE_EE: offerteCongiungeEE }),
+      ...(offerteCongiungeGas && {
+        OFFERTE_CONGIUNTE_GAS: offerteCongiungeGas,
+      }),
     }
   }
 
@@ -489,29 +396,7 @@ function transformZoneOfferta(formData: FormData) {
   return Object.keys(zoneData).length > 0 ? zoneData : null
 }
 
-function transformSconto(sconto: {
-  nome: string
-  descrizione: string
-  codiceComponenteFascia?: string[]
-  validita?: string
-  ivaSconto: string
-  periodoValidita?: {
-    durata?: number
-    validoFino?: string
-    meseValidita?: string[]
-  }
-  scontoCondizione: {
-    condizioneApplicazione: string
-    descrizioneCondizione?: string
-  }
-  prezziSconto: Array<{
-    tipologia: string
-    validoDa?: number
-    validoFino?: number
-    unitaMisura: string
-    prezzo: number
-  }>
-}) {
+function transformSconto(sconto: ScontoData) {
   const scontoData: Record<string, unknown> = {
     NOME: sconto.nome,
     DESCRIZIONE: sconto.descrizione,
@@ -581,24 +466,7 @@ function addCompanyComponentsSections(
   }
 }
 
-function transformComponenteImpresa(comp: {
-  nome: string
-  descrizione: string
-  tipologia: string
-  macroArea: string
-  intervalloPrezzi: Array<{
-    fasciaComponente?: string
-    consumoDa?: number
-    consumoA?: number
-    prezzo: number
-    unitaMisura: string
-    periodoValidita?: {
-      durata?: number
-      validoFino?: string
-      meseValidita?: string[]
-    }
-  }>
-}) {
+function transformComponenteImpresa(comp: ComponenteImpresaData) {
   return {
     NOME: comp.nome,
     DESCRIZIONE: comp.descrizione,
@@ -608,18 +476,9 @@ function transformComponenteImpresa(comp: {
   }
 }
 
-function transformIntervalloPrezzi(interval: {
-  fasciaComponente?: string
-  consumoDa?: number
-  consumoA?: number
-  prezzo: number
-  unitaMisura: string
-  periodoValidita?: {
-    durata?: number
-    validoFino?: string
-    meseValidita?: string[]
-  }
-}) {
+function transformIntervalloPrezzi(
+  interval: ComponenteImpresaData['intervalloPrezzi'][number],
+) {
   const intervalData: Record<string, unknown> = {
     PREZZO: interval.prezzo,
     UNITA_MISURA: interval.unitaMisura,
@@ -672,21 +531,26 @@ function addPaymentConditionsSections(
   }
 }
 
+// Stands in for PIVA_UTENTE in file names while it is not filled in
+export const PLACEHOLDER_PIVA_UTENTE = 'IT00000000000'
+
 /**
  * Generate XML filename following SII convention with safe characters
  * @param pivaUtente - PIVA of the user
  * @param description - Optional description for the filename
- * @returns Filename in format <PIVA>_INSERIMENTO_<DESCRIPTION>.XML
+ * @param action - Action to perform, INSERIMENTO for new offers or AGGIORNAMENTO for updates
+ * @returns Filename in format <PIVA>_<AZIONE>_<DESCRIPTION>.XML
  */
 export function generateXMLFilename(
   pivaUtente: string,
   description?: string,
+  action: ActionType = ACTION_TYPES.INSERIMENTO,
 ): string {
   const piva = pivaUtente.toUpperCase()
 
   // Sanitize description to ensure only safe filename characters
   if (!description || description.trim().length === 0) {
-    return `${piva}_INSERIMENTO.XML`
+    return `${piva}_${action}.XML`
   }
 
   const sanitized = description
@@ -699,10 +563,10 @@ export function generateXMLFilename(
 
   // If sanitization results in empty string, return without description
   if (sanitized.length === 0) {
-    return `${piva}_INSERIMENTO.XML`
+    return `${piva}_${action}.XML`
   }
 
-  return `${piva}_INSERIMENTO_${sanitized}.XML`
+  return `${piva}_${action}_${sanitized}.XML`
 }
 
 /**
@@ -731,12 +595,25 @@ export function downloadXML(
   xmlString: string,
   filename: string,
 ): { success: boolean; error?: string } {
-  try {
-    // Validate inputs
-    if (!xmlString || xmlString.trim().length === 0) {
-      return { success: false, error: 'Il contenuto XML è vuoto' }
-    }
+  // Validate inputs
+  if (!xmlString || xmlString.trim().length === 0) {
+    return { success: false, error: 'Il contenuto XML è vuoto' }
+  }
+
+  return downloadFile(() => createXMLBlob(xmlString), filename)
+}
 
+/**
+ * Trigger a browser download for a generated file
+ * @param createBlob - Builds the file content once the browser supports Blob
+ * @param filename - Filename for the download
+ * @returns Object with success status and optional error message
+ */
+export function downloadFile(
+  createBlob: () => Blob,
+  filename: string,
+): { success: boolean; error?: string } {
+  try {
     if (!filename || filename.trim().length === 0) {
       return { success: false, error: 'Il nome del file non è valido' }
     }
@@ -749,7 +626,7 @@ export function downloadXML(
       }
     }
 
-    const blob = createXMLBlob(xmlString)
+    const blob = createBlob()
     const url = URL.createObjectURL(blob)
 
     // Create download link
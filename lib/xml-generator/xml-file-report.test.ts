@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest'
+import { COMPLETE_OFFER_FIXTURE } from './test-fixtures'
+import { generateOfferXML } from './xml-api'
+import {
+  checkXMLFile,
+  DOCUMENT_SECTION,
+  FILENAME_SECTION,
+  getIssueSection,
+  groupIssuesBySection,
+  validateXMLFilename,
+} from './xml-file-report'
+
+const generateXML = () => {
+  const result = generateOfferXML(COMPLETE_OFFER_FIXTURE)
+  if (!result.success) {
+    throw new Error('The offer fixture must be complete')
+  }
+  return result.xml
+}
+
+describe('xml-file-report', () => {
+  describe('validateXMLFilename', () => {
+    it('should accept names following the SII convention', () => {
+      expect(
+        validateXMLFilename('IT12345678901_INSERIMENTO_LUCEFISSA.XML'),
+      ).toEqual([])
+      expect(validateXMLFilename('IT12345678901_AGGIORNAMENTO.XML')).toEqual([])
+    })
+
+    it('should reject names with an unknown action or extension', () => {
+      for (const filename of [
+        'IT12345678901_CANCELLAZIONE_LUCE.XML',
+        'IT12345678901_INSERIMENTO_LUCE.xml',
+        'offerta.XML',
+      ]) {
+        expect(validateXMLFilename(filename)).toEqual([
+          expect.objectContaining({
+            path: FILENAME_SECTION,
+            severity: 'error',
+          }),
+        ])
+      }
+    })
+
+    it('should warn about descriptions out of the convention', () => {
+      expect(
+        validateXMLFilename('IT12345678901_INSERIMENTO_LUCE_FISSA.XML'),
+      ).toEqual([expect.objectContaining({ severity: 'warning' })])
+    })
+
+    it('should report a PIVA different from the content', () => {
+      const [issue] = validateXMLFilename(
+        'IT98765432109_INSERIMENTO_LUCE.XML',
+        'IT12345678901',
+      )
+
+      expect(issue.message).toBe(
+        'La PIVA del nome file (IT98765432109) è diversa da PIVA_UTENTE (IT12345678901)',
+      )
+    })
+  })
+
+  describe('getIssueSection', () => {
+    it('should return the top element under Offerta', () => {
+      expect(getIssueSection('/Offerta/ComponenteImpresa[1]/NOME')).toBe(
+        'ComponenteImpresa',
+      )
+      expect(
+        getIssueSection('/Offerta/DettaglioOfferta.ModalitaAttivazione'),
+      ).toBe('DettaglioOfferta')
+      expect(getIssueSection('/')).toBe(DOCUMENT_SECTION)
+      expect(getIssueSection(FILENAME_SECTION)).toBe(FILENAME_SECTION)
+    })
+  })
+
+  describe('groupIssuesBySection', () => {
+    it('should split errors and warnings of each section', () => {
+      const sections = groupIssuesBySection([
+        { path: '/Offerta/TipoPrezzo', message: 'A', severity: 'error' },
+        { path: '/', message: 'B', severity: 'error' },
+        { path: '/Offerta/TipoPrezzo', message: 'C', severity: 'warning' },
+      ])
+
+      expect(sections).toEqual([
+        {
+          section: 'TipoPrezzo',
+          errors: [expect.objectContaining({ message: 'A' })],
+          warnings: [expect.objectContaining({ message: 'C' })],
+        },
+        {
+          section: DOCUMENT_SECTION,
+          errors: [expect.objectContaining({ message: 'B' })],
+          warnings: [],
+        },
+      ])
+    })
+  })
+
+  describe('checkXMLFile', () => {
+    it('should report a valid file without errors', () => {
+      const report = checkXMLFile(
+        'IT12345678901_INSERIMENTO_LUCEFISSA.XML',
+        generateXML(),
+      )
+
+      expect(report.isValid).toBe(true)
+      expect(report.sections.flatMap((section) => section.errors)).toEqual([])
+      expect(report.sections.map((section) => section.section)).not.toContain(
+        FILENAME_SECTION,
+      )
+    })
+
+    it('should stay valid with filename warnings only', () => {
+      const report = checkXMLFile(
+        'IT12345678901_INSERIMENTO_LUCE_FISSA.XML',
+        generateXML(),
+      )
+
+      expect(report.isValid).toBe(true)
+      expect(report.sections[0]).toEqual({
+        section: FILENAME_SECTION,
+        errors: [],
+        warnings: [expect.objectContaining({ severity: 'warning' })],
+      })
+    })
+
+    it('should report the content errors by section', () => {
+      const report = checkXMLFile(
+        'IT12345678901_INSERIMENTO_LUCE.XML',
+        generateXML().replace('<DURATA>12</DURATA>', '<DURATA>120</DURATA>'),
+      )
+
+      expect(report.isValid).toBe(false)
+      expect(report.sections.map((section) => section.section)).toContain(
+        'DettaglioOfferta',
+      )
+    })
+
+    it('should report files that are not XML', () => {
+      const report = checkXMLFile(
+        'IT12345678901_INSERIMENTO_LUCE.XML',
+        'non è un XML',
+      )
+
+      expect(report.isValid).toBe(false)
+      expect(report.sections[0].section).toBe(DOCUMENT_SECTION)
+    })
+  })
+})
@@ -0,0 +1,150 @@
+import { ACTION_TYPES, isValidFilenameDescription } from './constants'
+import { validateOfferXML } from './xml-api'
+import { getValidationSummary, type ValidationError } from './xml-validator'
+
+/**
+ * Reports of SII XML files checked outside the wizard
+ * Used by the standalone validator for files received from partners or
+ * produced by other tools: the content goes through the same business rules
+ * and XSD checks of /api/validate, the name through the
+ * <PIVA_UTENTE>_<AZIONE>_<DESCRIZIONE>.XML convention
+ */
+
+export const FILENAME_SECTION = 'Nome file'
+
+// Errors of the whole document, e.g. XML that cannot be parsed
+export const DOCUMENT_SECTION = 'Documento'
+
+const FILENAME_REGEX = new RegExp(
+  `^([A-Z0-9]{11,16})_(${Object.values(ACTION_TYPES).join('|')})(?:_(.*))?\\.XML$`,
+)
+
+const PIVA_UTENTE_REGEX = /<PIVA_UTENTE>\s*([^<]*?)\s*<\/PIVA_UTENTE>/
+
+// Repeated elements and nested groups belong to the top section
+const SECTION_SEPARATORS_REGEX = /[.[]/
+
+export interface XMLFileSection {
+  section: string
+  errors: ValidationError[]
+  warnings: ValidationError[]
+}
+
+export interface XMLFileReport {
+  filename: string
+  isValid: boolean
+  summary: string
+  errors: ValidationError[]
+  // In the order of the first issue of each section
+  sections: XMLFileSection[]
+}
+
+const filenameIssue = (
+  message: string,
+  severity: ValidationError['severity'] = 'error',
+): ValidationError => ({ path: FILENAME_SECTION, message, severity })
+
+/**
+ * Check a file name against the SII naming convention
+ * @param filename - Name of the received file
+ * @param pivaUtente - PIVA_UTENTE of the file content, when known
+ * @returns Errors for the name structure, warnings for the description
+ */
+export function validateXMLFilename(
+  filename: string,
+  pivaUtente?: string,
+): ValidationError[] {
+  const match = FILENAME_REGEX.exec(filename)
+  if (!match) {
+    return [
+      filenameIssue(
+        'Il nome del file deve seguire il formato <PIVA_UTENTE>_<AZIONE>_<DESCRIZIONE>.XML, con AZIONE INSERIMENTO o AGGIORNAMENTO',
+      ),
+    ]
+  }
+
+  const [, piva, , description] = match
+  const issues: ValidationError[] = []
+  if (pivaUtente && piva !== pivaUtente) {
+    issues.push(
+      filenameIssue(
+        `La PIVA del nome file (${piva}) è diversa da PIVA_UTENTE (${pivaUtente})`,
+      ),
+    )
+  }
+  if (description !== undefined && !isValidFilenameDescription(description)) {
+    issues.push(
+      filenameIssue(
+        'La descrizione deve contenere al massimo 25 caratteri alfanumerici, senza spazi né underscore',
+        'warning',
+      ),
+    )
+  }
+  return issues
+}
+
+/**
+ * Section of the offer an issue belongs to
+ * @param path - Issue path, e.g. /Offerta/ComponenteImpresa[1]/NOME
+ * @returns Top element under Offerta, e.g. ComponenteImpresa
+ */
+export function getIssueSection(path: string): string {
+  if (path === FILENAME_SECTION) {
+    return FILENAME_SECTION
+  }
+  const [root, section] = path.split('/').filter(Boolean)
+  if (root !== 'Offerta' || !section) {
+    return DOCUMENT_SECTION
+  }
+  return section.split(SECTION_SEPARATORS_REGEX)[0]
+}
+
+/**
+ * Group issues by section and severity
+ * @param issues - Issues of a file
+ * @returns One entry per section with at least an issue
+ */
+export function groupIssuesBySection(
+  issues: ValidationError[],
+): XMLFileSection[] {
+  const sections = new Map<string, XMLFileSection>()
+  for (const issue of issues) {
+    const name = getIssueSection(issue.path)
+    const section = sections.get(name) ?? {
+      section: name,
+      errors: [],
+      warnings: [],
+    }
+    if (issue.severity === 'error') {
+      section.errors.push(issue)
+    } else {
+      section.warnings.push(issue)
+    }
+    sections.set(name, section)
+  }
+  return [...sections.values()]
+}
+
+/**
+ * Check a received XML file
+ * @param filename - Name of the file
+ * @param content - XML content
+ * @returns Report with the issues of the name and the content
+ */
+export function checkXMLFile(filename: string, content: string): XMLFileReport {
+  const validation = validateOfferXML(content)
+  const pivaUtente = PIVA_UTENTE_REGEX.exec(content)?.[1]
+  const filenameIssues = validateXMLFilename(filename, pivaUtente)
+  const errors = [...filenameIssues, ...validation.errors]
+  const isValid =
+    validation.isValid &&
+    filenameIssues.every((issue) => issue.severity !== 'error')
+
+  return {
+    filename,
+    isValid,
+    summary: getValidationSummary(errors),
+    errors,
+    sections: groupIssuesBySection(errors),
+  }
+}
@@ -0,0 +1,149 @@
+import { isSimulableOffer, SIMULABLE_ONLY_SECTIONS } from './constants'
+import {
+  type FieldKind,
+  type FieldMapping,
+  OFFER_FIELD_MAPPINGS,
+  type OfferStepKey,
+} from './offer-mapping'
+import type { CompleteFormValues } from './schemas'
+import type { FormData } from './types'
+
+/**
+ * Form data mapping for SII XML generation
+ * Converts the wizard form states into the structure expected by buildXML,
+ * following OFFER_FIELD_MAPPINGS
+ */
+
+// Wizard form states, each step may still be empty or partially filled
+export type FormStatesInput = {
+  [K in keyof CompleteFormValues]?: Partial<
+    NonNullable<CompleteFormValues[K]>
+  > | null
+}
+
+type DataObject = Record<string, unknown>
+
+// Value given to the required fields that are still empty
+const EMPTY_VALUES: Record<FieldKind, () => unknown> = {
+  text: () => '',
+  number: () => 0,
+  texts: () => [],
+  timestamp: () => '',
+  group: () => ({}),
+  list: () => [],
+}
+
+const isObject = (value: unknown): value is DataObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value)
+
+const setDataPath = (target: DataObject, dataPath: string, value: unknown) => {
+  const keys = dataPath.split('.')
+  let current = target
+  for (const key of keys.slice(0, -1)) {
+    if (!isObject(current[key])) {
+      current[key] = {}
+    }
+    current = current[key] as DataObject
+  }
+  current[keys.at(-1) as string] = value
+}
+
+const convertValue = (mapping: FieldMapping, value: unknown): unknown => {
+  const fields = mapping.fields ?? []
+  if (mapping.kind === 'group') {
+    return isObject(value) || mapping.required
+      ? toDataObject(fields, isObject(value) ? value : {})
+      : undefined
+  }
+  if (mapping.kind === 'list') {
+    return Array.isArray(value)
+      ? value.map((item) => toDataObject(fields, isObject(item) ? item : {}))
+      : undefined
+  }
+  return value === null || value === '' ? undefined : value
+}
+
+const toDataValue = (mapping: FieldMapping, value: unknown): unknown => {
+  const converted = convertValue(mapping, value)
+  return converted === undefined && mapping.required
+    ? EMPTY_VALUES[mapping.kind]()
+    : converted
+}
+
+function toDataObject(mappings: FieldMapping[], values: DataObject) {
+  const data: DataObject = {}
+  for (const mapping of mappings) {
+    const value = toDataValue(mapping, values[mapping.field])
+    if (value !== undefined) {
+      setDataPath(data, mapping.data, value)
+    }
+  }
+  return data
+}
+
+// Non-simulable offers leave out the price structure (FR-5.8)
+const isSimulableOnly = (mapping: FieldMapping) =>
+  (SIMULABLE_ONLY_SECTIONS as readonly string[]).includes(
+    mapping.xml.split('/')[0],
+  )
+
+const getStepMappings = (isSimulable: boolean) =>
+  Object.entries(OFFER_FIELD_MAPPINGS).map(
+    ([step, mappings]) =>
+      [
+        step as OfferStepKey,
+        isSimulable
+          ? mappings
+          : mappings.filter((mapping) => !isSimulableOnly(mapping)),
+      ] as const,
+  )
+
+const hasDataPath = (values: DataObject, dataPath: string) => {
+  let current: unknown = values
+  for (const key of dataPath.split('.')) {
+    if (!isObject(current)) {
+      return false
+    }
+    current = current[key]
+  }
+  return current !== undefined
+}
+
+// Every step is built with its required fields, empty values included
+const isFormData = (
+  data: unknown,
+  stepMappings: ReturnType<typeof getStepMappings>,
+): data is FormData =>
+  isObject(data) &&
+  stepMappings.every(([step, mappings]) => {
+    const values = data[step]
+    return (
+      isObject(values) &&
+      mappings.every(
+        (mapping) => !mapping.required || hasDataPath(values, mapping.data),
+      )
+    )
+  })
+
+/**
+ * Convert the wizard form states into XML builder input
+ * Fields of the simulable-only sections are dropped for non-simulable offers,
+ * even when filled in before the offer mode was changed
+ * @param formStates - Form states of every wizard step
+ * @returns Data to pass to buildXML
+ */
+export function toXMLFormData(formStates: FormStatesInput): FormData {
+  const stepMappings = getStepMappings(
+    isSimulableOffer(formStates.offerDetails?.offerMode),
+  )
+  const data: DataObject = {}
+  for (const [step, mappings] of stepMappings) {
+    const values = formStates[step]
+    data[step] = toDataObject(mappings, isObject(values) ? values : {})
+  }
+
+  if (!isFormData(data, stepMappings)) {
+    throw new Error('Campi obbligatori mancanti nei dati del XML')
+  }
+  return data
+}
@@ -0,0 +1,377 @@
+import { describe, expect, it } from 'vitest'
+import { buildXML } from './xml-builder'
+import { importXML } from './xml-importer'
+
+// Top-level regex patterns for performance
+const INVALID_XML_REGEX = /XML non valido/
+const MISSING_ROOT_REGEX = /Elemento radice <Offerta> mancante/
+const UNKNOWN_VALUE_REGEX = /Valore "07" non riconosciuto/
+const NOT_IMPORTED_REGEX = /non importata/
+const IGNORED_REGEX = /verrà ignorato/
+const NUMERIC_REGEX = /Valore numerico non valido/
+const SIMULABLE_SECTIONS_REGEX =
+  /<(TipoPrezzo|FasceOrarieSettimanale|Dispacciamento)>[\s\S]*?<\/\1>/g
+const COMPONENT_REGEX = /<ComponenteImpresa>[\s\S]*<\/ComponenteImpresa>/
+
+const createOfferXML = (
+  overrides: { dettaglio?: string; extra?: string } = {},
+) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<Offerta>
+    <IdentificativiOfferta>
+        <PIVA_UTENTE>IT12345678901</PIVA_UTENTE>
+        <COD_OFFERTA>OFFER2024TEST</COD_OFFERTA>
+    </IdentificativiOfferta>
+    <DettaglioOfferta>
+        ${
+          overrides.dettaglio ??
+          `<TIPO_MERCATO>01</TIPO_MERCATO>
+        <OFFERTA_SINGOLA>SI</OFFERTA_SINGOLA>`
+        }
+        <TIPO_CLIENTE>01</TIPO_CLIENTE>
+        <DOMESTICO_RESIDENTE>01</DOMESTICO_RESIDENTE>
+        <TIPO_OFFERTA>01</TIPO_OFFERTA>
+        <TIPOLOGIA_ATT_CONTR>01</TIPOLOGIA_ATT_CONTR>
+        <NOME_OFFERTA>Offerta Luce Fissa</NOME_OFFERTA>
+        <DESCRIZIONE>Prezzo bloccato per 12 mesi</DESCRIZIONE>
+        <DURATA>12</DURATA>
+        <GARANZIE>NESSUNA</GARANZIE>
+    </DettaglioOfferta>
+    <DettaglioOfferta.ModalitaAttivazione>
+        <MODALITA>01</MODALITA>
+        <MODALITA>02</MODALITA>
+    </DettaglioOfferta.ModalitaAttivazione>
+    <DettaglioOfferta.Contatti>
+        <TELEFONO>800123456</TELEFONO>
+        <URL_SITO_VENDITORE>https://example.com</URL_SITO_VENDITORE>
+    </DettaglioOfferta.Contatti>
+    <TipoPrezzo>
+        <TIPOLOGIA_FASCE>02</TIPOLOGIA_FASCE>
+    </TipoPrezzo>
+    <FasceOrarieSettimanale>
+        <F_LUNEDI>28-2,76-1,96-2</F_LUNEDI>
+        <F_SABATO>96-2</F_SABATO>
+    </FasceOrarieSettimanale>
+    <Dispacciamento>
+        <TIPO_DISPACCIAMENTO>01</TIPO_DISPACCIAMENTO>
+        <NOME>Disp. del.111/06</NOME>
+    </Dispacciamento>
+    <ValiditaOfferta>
+        <DATA_INIZIO>01/01/2099_00:00:00</DATA_INIZIO>
+        <DATA_FINE>31/12/2099_23:59:59</DATA_FINE>
+    </ValiditaOfferta>
+    <MetodoPagamento>
+        <MODALITA_PAGAMENTO>01</MODALITA_PAGAMENTO>
+    </MetodoPagamento>
+    <ComponenteImpresa>
+        <NOME>Quota energia</NOME>
+        <DESCRIZIONE>Prezzo della materia prima</DESCRIZIONE>
+        <TIPOLOGIA>01</TIPOLOGIA>
+        <MACROAREA>04</MACROAREA>
+        <IntervalloPrezzi>
+            <FASCIA_COMPONENTE>01</FASCIA_COMPONENTE>
+            <PREZZO>0.120000</PREZZO>
+            <UNITA_MISURA>03</UNITA_MISURA>
+        </IntervalloPrezzi>
+    </ComponenteImpresa>
+    ${overrides.extra ?? ''}
+</Offerta>`
+
+describe('xml-importer', () => {
+  describe('importXML', () => {
+    it('should map every section back to the form states', () => {
+      const result = importXML(createOfferXML())
+
+      expect(result.success).toBe(true)
+      expect(result.issues).toEqual([])
+      expect(result.formStates.basicInfo).toEqual({
+        action: 'AGGIORNAMENTO',
+        pivaUtente: 'IT12345678901',
+        codOfferta: 'OFFER2024TEST',
+        existingOfferConfirmed: true,
+      })
+      expect(result.formStates.offerDetails).toMatchObject({
+        offerMode: 'SIMULABILE',
+        marketType: '01',
+        singleOffer: 'SI',
+        contractActivationTypes: ['01'],
+        duration: 12,
+      })
+      expect(result.formStates.activationContacts).toEqual({
+        activationMethods: ['01', '02'],
+        phone: '800123456',
+        vendorWebsite: 'https://example.com',
+      })
+      expect(result.formStates.pricingConfig).toEqual({
+        timeBandConfiguration: '02',
+        weeklyTimeBands: { monday: '28-2,76-1,96-2', saturday: '96-2' },
+        dispatching: [
+          { dispatchingType: '01', componentName: 'Disp. del.111/06' },
+        ],
+      })
+      expect(result.formStates.companyComponents?.companyComponents).toEqual([
+        {
+          name: 'Quota energia',
+          description: 'Prezzo della materia prima',
+          componentType: '01',
+          macroArea: '04',
+          priceIntervals: [
+            { componentTimeBand: '01', price: 0.12, unitOfMeasure: '03' },
+          ],
+        },
+      ])
+      expect(result.formStates.paymentConditions).toEqual({
+        paymentMethods: [{ paymentMethodType: '01' }],
+      })
+    })
+
+    it('should keep SII timestamps with their time of day', () => {
+      const xml = createOfferXML().replace(
+        '01/01/2099_00:00:00',
+        '01/01/2099_08:30:00',
+      )
+      const result = importXML(xml)
+
+      expect(result.formStates.validityReview).toEqual({
+        validityPeriod: {
+          startDate: '01/01/2099_08:30:00',
+          endDate: '31/12/2099_23:59:59',
+        },
+        reviewConfirmed: false,
+      })
+      expect(result.issues).toEqual([])
+    })
+
+    it('should import an offer without the simulable sections as non-simulable', () => {
+      const xml = createOfferXML()
+        .replace(SIMULABLE_SECTIONS_REGEX, '')
+        .replace(COMPONENT_REGEX, '')
+
+      const result = importXML(xml)
+
+      expect(result.formStates.offerDetails?.offerMode).toBe('NON_SIMULABILE')
+    })
+
+    it('should read the output of the builder back', () => {
+      const xml = buildXML({
+        basicInfo: { pivaUtente: 'IT12345678901', codOfferta: 'GAS2024' },
+        offerDetails: {
+          tipoMercato: '02',
+          offertaSingola: 'NO',
+          tipoCliente: '02',
+          tipoOfferta: '02',
+          tipologiaAttContr: ['03', '99'],
+          nomeOfferta: 'Gas Variabile',
+          descrizione: 'Prezzo indicizzato',
+          durata: -1,
+          garanzie: 'Deposito cauzionale',
+        },
+        activationContacts: {
+          modalita: ['99'],
+          descrizioneModalita: 'Agenzia',
+          telefono: '+39 02 1234567',
+        },
+        pricingConfig: {
+          riferimentiPrezzoEnergia: { idxPrezzoEnergia: '12' },
+        },
+        companyComponents: {
+          componentiRegolate: { codice: ['04'] },
+        },
+        paymentConditions: {
+          metodoPagamento: [
+            { modalitaPagamento: '99', descrizione: 'Bonifico' },
+          ],
+          condizioniContrattuali: [
+            {
+              tipologiaCondizione: '01',
+              descrizione: 'Attivazione',
+              limitante: '02',
+            },
+          ],
+        },
+        additionalFeatures: {
+          zoneOfferta: { regione: ['03', '05'] },
+          sconto: [
+            {
+              nome: 'Sconto benvenuto',
+              descrizione: 'Sconto primo anno',
+              ivaSconto: '01',
+              periodoValidita: { durata: 12 },
+              scontoCondizione: { condizioneApplicazione: '00' },
+              prezziSconto: [
+                { tipologia: '02', unitaMisura: '04', prezzo: 0.05 },
+              ],
+            },
+          ],
+        },
+        validityReview: {
+          validitaOfferta: { dataInizio: '01/02/2099', dataFine: '' },
+        },
+      })
+
+      const result = importXML(xml)
+
+      expect(result.issues).toEqual([])
+      expect(result.formStates.offerDetails).toMatchObject({
+        marketType: '02',
+        duration: -1,
+        contractActivationTypes: ['03', '99'],
+      })
+      expect(result.formStates.pricingConfig).toEqual({
+        energyPriceIndex: '12',
+      })
+      expect(result.formStates.companyComponents).toEqual({
+        regulatedComponents: ['04'],
+      })
+      expect(result.formStates.additionalFeatures).toEqual({
+        zoneOffers: { regions: ['03', '05'] },
+        discounts: [
+          {
+            name: 'Sconto benvenuto',
+            description: 'Sconto primo anno',
+            vatApplicability: '01',
+            validityPeriod: { duration: 12 },
+            condition: { applicationCondition: '00' },
+            discountPrices: [
+              { discountType: '02', unitOfMeasure: '04', price: 0.05 },
+            ],
+          },
+        ],
+      })
+      expect(result.formStates.validityReview?.validityPeriod).toEqual({
+        startDate: '01/02/2099_00:00:00',
+      })
+    })
+
+    it('should fail on malformed XML', () => {
+      const result = importXML('<Offerta><IdentificativiOfferta></Offerta>')
+
+      expect(result.success).toBe(false)
+      expect(result.formStates).toEqual({})
+      expect(result.issues[0].message).toMatch(INVALID_XML_REGEX)
+    })
+
+    it('should fail when the root element is not Offerta', () => {
+      const result = importXML('<Altro><A>1</A></Altro>')
+
+      expect(result.success).toBe(false)
+      expect(result.issues[0].message).toMatch(MISSING_ROOT_REGEX)
+    })
+
+    it('should report unknown enumeration values in Italian and drop the step', () => {
+      const result = importXML(
+        createOfferXML({
+          dettaglio: `<TIPO_MERCATO>07</TIPO_MERCATO>
+        <OFFERTA_SINGOLA>SI</OFFERTA_SINGOLA>`,
+        }),
+      )
+
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({
+          path: '/Offerta/DettaglioOfferta/TIPO_MERCATO',
+          message: expect.stringMatching(UNKNOWN_VALUE_REGEX),
+          severity: 'error',
+        }),
+      )
+      expect(
+        result.issues.some((issue) => NOT_IMPORTED_REGEX.test(issue.message)),
+      ).toBe(true)
+      expect(result.formStates.offerDetails).toBeUndefined()
+      expect(result.formStates.basicInfo).toBeDefined()
+    })
+
+    it('should drop only the invalid optional values of a step', () => {
+      const xml = createOfferXML().replace(
+        '<URL_SITO_VENDITORE>https://example.com</URL_SITO_VENDITORE>',
+        '<URL_SITO_VENDITORE>non-un-url</URL_SITO_VENDITORE>',
+      )
+      const result = importXML(xml)
+
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({
+          path: '/Offerta/DettaglioOfferta.Contatti/URL_SITO_VENDITORE',
+          severity: 'error',
+        }),
+      )
+      expect(result.formStates.activationContacts).toEqual({
+        activationMethods: ['01', '02'],
+        phone: '800123456',
+      })
+    })
+
+    it('should drop incomplete repeated elements and keep the others', () => {
+      const result = importXML(
+        createOfferXML({
+          extra: `<ComponenteImpresa>
+        <NOME>Quota fissa</NOME>
+        <DESCRIZIONE>Commercializzazione</DESCRIZIONE>
+        <TIPOLOGIA>01</TIPOLOGIA>
+        <MACROAREA>01</MACROAREA>
+        <IntervalloPrezzi>
+            <PREZZO>abc</PREZZO>
+            <UNITA_MISURA>01</UNITA_MISURA>
+        </IntervalloPrezzi>
+    </ComponenteImpresa>`,
+        }),
+      )
+
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({
+          path: '/Offerta/ComponenteImpresa[2]/IntervalloPrezzi[1]/PREZZO',
+          message: expect.stringMatching(NUMERIC_REGEX),
+        }),
+      )
+      expect(
+        result.formStates.companyComponents?.companyComponents,
+      ).toHaveLength(1)
+      expect(
+        result.formStates.companyComponents?.companyComponents?.[0].name,
+      ).toBe('Quota energia')
+    })
+
+    it('should warn about unknown sections', () => {
+      const result = importXML(
+        createOfferXML({
+          extra: '<SezioneSconosciuta><A>1</A></SezioneSconosciuta>',
+        }),
+      )
+
+      expect(result.issues).toContainEqual({
+        path: '/Offerta/SezioneSconosciuta',
+        message: expect.stringMatching(IGNORED_REGEX),
+        severity: 'warning',
+      })
+    })
+
+    it('should import the validity period of price intervals', () => {
+      const result = importXML(
+        createOfferXML().replace(
+          '<UNITA_MISURA>03</UNITA_MISURA>',
+          '<UNITA_MISURA>03</UNITA_MISURA><PeriodoValidita><DURATA>6</DURATA><MESE_VALIDITA>01</MESE_VALIDITA><MESE_VALIDITA>02</MESE_VALIDITA></PeriodoValidita>',
+        ),
+      )
+
+      expect(
+        result.formStates.companyComponents?.companyComponents?.[0]
+          .priceIntervals[0].validityPeriod,
+      ).toEqual({ duration: 6, validMonths: ['01', '02'] })
+      expect(result.issues).toEqual([])
+    })
+
+    it('should not import a validity period starting in the past', () => {
+      const xml = createOfferXML().replace(
+        '01/01/2099_00:00:00',
+        '01/01/2020_00:00:00',
+      )
+      const result = importXML(xml)
+
+      expect(result.formStates.validityReview).toBeUndefined()
+      expect(result.issues).toContainEqual(
+        expect.objectContaining({
+          path: '/Offerta/ValiditaOfferta/DATA_INIZIO',
+          severity: 'error',
+        }),
+      )
+    })
+  })
+})
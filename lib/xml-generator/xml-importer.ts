@@ -0,0 +1,425 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser'
+import type { ZodIssue } from 'zod'
+import { ACTION_TYPES, OFFER_MODES, SIMULABLE_ONLY_SECTIONS } from './constants'
+import {
+  type FieldMapping,
+  OFFER_FIELD_MAPPINGS,
+  type OfferStepKey,
+  toXMLPath,
+} from './offer-mapping'
+import { type CompleteFormValues, schemaMap } from './schemas'
+import { baseConfig } from './stepperize/config'
+import type { ValidationError } from './xml-validator'
+
+/**
+ * XML Importer for SII "Trasmissione Offerte" specification
+ * Converts an existing SII offer XML back into the multi-step form states
+ */
+
+// Safety limit for the prune-and-revalidate loop of a single step
+const MAX_PRUNE_PASSES = 50
+
+// Elements that can occur more than once in the SII schema
+export const REPEATABLE_ELEMENTS = new Set([
+  'TIPOLOGIA_ATT_CONTR',
+  'MODALITA',
+  'MetodoPagamento',
+  'Dispacciamento',
+  'CODICE',
+  'ComponenteImpresa',
+  'IntervalloPrezzi',
+  'MESE_VALIDITA',
+  'CondizioniContrattuali',
+  'OFFERTE_CONGIUNTE_EE',
+  'OFFERTE_CONGIUNTE_GAS',
+  'REGIONE',
+  'PROVINCIA',
+  'COMUNE',
+  'Sconto',
+  'CODICE_COMPONENTE_FASCIA',
+  'PREZZISconto',
+  'ProdottiServiziAggiuntivi',
+])
+
+// Top-level sections of <Offerta> that the importer knows how to read
+const KNOWN_SECTIONS = new Set([
+  'IdentificativiOfferta',
+  'DettaglioOfferta',
+  'DettaglioOfferta.ModalitaAttivazione',
+  'DettaglioOfferta.Contatti',
+  'RiferimentiPrezzoEnergia',
+  'ValiditaOfferta',
+  'CaratteristicheOfferta',
+  'OffertaDUAL',
+  'MetodoPagamento',
+  'ComponentiRegolate',
+  'TipoPrezzo',
+  'FasceOrarieSettimanale',
+  'Dispacciamento',
+  'ComponenteImpresa',
+  'CondizioniContrattuali',
+  'ZoneOfferta',
+  'Sconto',
+  'ProdottiServiziAggiuntivi',
+])
+
+type StepKey = OfferStepKey
+type FieldPath = (string | number)[]
+type XMLNode = Record<string, unknown>
+type StepValues = Record<string, unknown>
+
+export interface XMLImportResult {
+  success: boolean
+  formStates: Partial<CompleteFormValues>
+  issues: ValidationError[]
+}
+
+// Keep codes such as "01" as strings: numbers are converted field by field
+const xmlParser = new XMLParser({
+  ignoreAttributes: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (tagName) => REPEATABLE_ELEMENTS.has(tagName),
+})
+
+/**
+ * Import an existing SII offer XML into the form states of the wizard
+ * Fields that cannot be represented or do not pass the step schemas are
+ * dropped and reported, so the remaining data can still pre-fill the form
+ * @param xmlString - XML content of the offer
+ * @returns Form states for every importable step and the list of issues
+ */
+export function importXML(xmlString: string): XMLImportResult {
+  const issues: ValidationError[] = []
+
+  const syntaxCheck = XMLValidator.validate(xmlString)
+  if (syntaxCheck !== true) {
+    return {
+      success: false,
+      formStates: {},
+      issues: [
+        {
+          path: '/',
+          message: `XML non valido alla riga ${syntaxCheck.err.line}: ${syntaxCheck.err.msg}`,
+          severity: 'error',
+        },
+      ],
+    }
+  }
+
+  const parsed = xmlParser.parse(xmlString) as XMLNode
+  const offerta = asNode(parsed.Offerta)
+  if (!offerta) {
+    return {
+      success: false,
+      formStates: {},
+      issues: [
+        {
+          path: '/Offerta',
+          message:
+            "Elemento radice <Offerta> mancante: il file non è un'offerta SII",
+          severity: 'error',
+        },
+      ],
+    }
+  }
+
+  for (const section of Object.keys(offerta)) {
+    if (!KNOWN_SECTIONS.has(section)) {
+      issues.push({
+        path: `/Offerta/${section}`,
+        message: 'Elemento non riconosciuto: verrà ignorato',
+        severity: 'warning',
+      })
+    }
+  }
+
+  const rawStates = Object.fromEntries(
+    Object.entries(OFFER_FIELD_MAPPINGS).map(([step, mappings]) => [
+      step,
+      readFields(mappings, offerta, '/Offerta', issues),
+    ]),
+  ) as Record<StepKey, StepValues>
+  // An imported offer has already been transmitted to SII: edits update it
+  Object.assign(rawStates.basicInfo, {
+    action: ACTION_TYPES.AGGIORNAMENTO,
+    existingOfferConfirmed: true,
+  })
+  rawStates.offerDetails.offerMode = getOfferMode(offerta)
+  // The schema only accepts a confirmed review: the data is checked as
+  // confirmed, then the user has to confirm the review again in the wizard
+  rawStates.validityReview.reviewConfirmed = true
+
+  const formStates: Record<string, unknown> = {}
+  for (const step of baseConfig) {
+    const values = sanitizeStep(step.id, rawStates[step.id], issues)
+    if (values) {
+      formStates[step.id] = values
+    } else {
+      issues.push({
+        path: '/Offerta',
+        message: `Sezione "${step.title}" non importata: completarla manualmente nel passo corrispondente`,
+        severity: 'error',
+      })
+    }
+  }
+
+  const validityReview = asNode(formStates.validityReview)
+  if (validityReview) {
+    validityReview.reviewConfirmed = false
+  }
+
+  return {
+    success: true,
+    formStates: formStates as Partial<CompleteFormValues>,
+    issues,
+  }
+}
+
+// The offer mode is not an XML field: only non-simulable offers leave out
+// every section of the simulable format (FR-5.8)
+const getOfferMode = (offerta: XMLNode) =>
+  SIMULABLE_ONLY_SECTIONS.some((section) => section in offerta)
+    ? OFFER_MODES.SIMULABLE
+    : OFFER_MODES.NON_SIMULABLE
+
+/**
+ * Validate the values of a step against its schema, dropping the values that
+ * fail until the step is valid or cannot be fixed by removing data
+ */
+function sanitizeStep(
+  step: StepKey,
+  values: StepValues,
+  issues: ValidationError[],
+): StepValues | null {
+  const schema = schemaMap[step]
+
+  for (let pass = 0; pass < MAX_PRUNE_PASSES; pass++) {
+    const result = schema.safeParse(values)
+    if (result.success) {
+      return values
+    }
+
+    const [issue] = result.error.issues
+    const xmlPath = toXMLPath(step, issue.path)
+    const removed = removeAtPath(values, issue.path)
+
+    if (removed === null) {
+      issues.push({
+        path: xmlPath,
+        message: describeIssue(issue),
+        severity: 'error',
+      })
+      return null
+    }
+
+    if (removed.length === issue.path.length) {
+      issues.push({
+        path: xmlPath,
+        message: `${describeIssue(issue)}: valore ignorato`,
+        severity: 'error',
+      })
+    } else {
+      issues.push({
+        path: toXMLPath(step, removed),
+        message: `Elemento incompleto (${describeIssue(issue)}): verrà ignorato`,
+        severity: 'warning',
+      })
+    }
+  }
+
+  return null
+}
+
+/**
+ * Remove the value at the given path, or its closest existing ancestor when
+ * the value itself is missing
+ * @returns The path that was removed, or null when only the whole step could
+ */
+function removeAtPath(values: StepValues, path: FieldPath): FieldPath | null {
+  const parents: unknown[] = [values]
+  let depth = 0
+
+  while (depth < path.length) {
+    const current = parents[depth] as Record<string | number, unknown>
+    const next = current?.[path[depth]]
+    // Empty lists only come from required elements: removing them never helps
+    if (
+      next === undefined ||
+      next === null ||
+      (Array.isArray(next) && next.length === 0)
+    ) {
+      break
+    }
+    parents.push(next)
+    depth++
+  }
+
+  // Remove the failing value, or its deepest existing container when missing
+  if (depth === 0) {
+    return null
+  }
+
+  const container = parents[depth - 1]
+  const key = path[depth - 1]
+  if (Array.isArray(container) && typeof key === 'number') {
+    container.splice(key, 1)
+  } else {
+    delete (container as Record<string | number, unknown>)[key]
+  }
+
+  return path.slice(0, depth)
+}
+
+/**
+ * Italian description of a schema issue, translating the generic zod messages
+ * @param issue - Issue reported by a step schema
+ * @returns Message to show next to the offending value
+ */
+export function describeIssue(issue: ZodIssue): string {
+  if (issue.code === 'invalid_enum_value') {
+    return `Valore "${issue.received}" non riconosciuto (valori ammessi: ${issue.options.join(', ')})`
+  }
+  if (issue.code === 'invalid_type') {
+    if (issue.received === 'undefined') {
+      return issue.message === 'Required'
+        ? 'Campo obbligatorio mancante'
+        : issue.message
+    }
+    return `Tipo di valore non valido: atteso ${issue.expected}`
+  }
+  return issue.message
+}
+
+// Field readers: map the SII elements back to the field names of each step
+
+/**
+ * Read the fields of a step or of a nested element
+ * @param mappings - Field mappings of the step or element
+ * @param node - Parsed element containing the fields
+ * @param basePath - XML location of the element, used in the issues
+ */
+function readFields(
+  mappings: FieldMapping[],
+  node: XMLNode | undefined,
+  basePath: string,
+  issues: ValidationError[],
+): StepValues {
+  const values: Record<string, unknown> = {}
+  for (const mapping of mappings) {
+    values[mapping.field] = readField(mapping, node, basePath, issues)
+  }
+  return compact(values)
+}
+
+function readField(
+  mapping: FieldMapping,
+  node: XMLNode | undefined,
+  basePath: string,
+  issues: ValidationError[],
+): unknown {
+  const segments = mapping.xml.split('/')
+  const name = segments.pop() as string
+  const parent = segments.reduce<XMLNode | undefined>(
+    (current, segment) => asNode(current?.[segment]),
+    node,
+  )
+  const path = `${basePath}/${mapping.xml}`
+  const fields = mapping.fields ?? []
+
+  switch (mapping.kind) {
+    case 'number':
+      return number(parent, name, path, issues)
+    case 'texts':
+      return mapping.required
+        ? texts(parent, name)
+        : optionalList(texts(parent, name))
+    case 'group': {
+      const child = asNode(parent?.[name])
+      return child || mapping.required
+        ? readFields(fields, child, path, issues)
+        : undefined
+    }
+    case 'list': {
+      const items = nodes(parent, name).map((item, index) =>
+        readFields(fields, item, `${path}[${index + 1}]`, issues),
+      )
+      return mapping.required ? items : optionalList(items)
+    }
+    default:
+      return text(parent, name)
+  }
+}
+
+// Value helpers
+
+function asNode(value: unknown): XMLNode | undefined {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? (value as XMLNode)
+    : undefined
+}
+
+function text(node: XMLNode | undefined, key: string): string | undefined {
+  const value = node?.[key]
+  if (value === undefined || value === null || typeof value === 'object') {
+    return
+  }
+  const stringValue = String(value)
+  return stringValue.length > 0 ? stringValue : undefined
+}
+
+function texts(node: XMLNode | undefined, key: string): string[] {
+  const values = node?.[key]
+  if (!Array.isArray(values)) {
+    return []
+  }
+  return values
+    .filter((value) => value !== null && typeof value !== 'object')
+    .map(String)
+    .filter((value) => value.length > 0)
+}
+
+function nodes(node: XMLNode | undefined, key: string): XMLNode[] {
+  const values = node?.[key]
+  if (!Array.isArray(values)) {
+    return []
+  }
+  // Empty elements are parsed as strings: treat them as elements without children
+  return values.map((value) => asNode(value) ?? {})
+}
+
+function number(
+  node: XMLNode | undefined,
+  key: string,
+  path: string,
+  issues: ValidationError[],
+): number | undefined {
+  const value = text(node, key)
+  if (value === undefined) {
+    return
+  }
+  const parsed = Number(value)
+  if (Number.isNaN(parsed)) {
+    issues.push({
+      path,
+      message: `Valore numerico non valido: "${value}"`,
+      severity: 'error',
+    })
+    return
+  }
+  return parsed
+}
+
+function optionalList<T>(values: T[]): T[] | undefined {
+  return values.length > 0 ? values : undefined
+}
+
+function compact(values: Record<string, unknown>): StepValues {
+  const result: StepValues = {}
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) {
+      result[key] = value
+    }
+  }
+  return result
+}
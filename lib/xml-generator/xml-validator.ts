@@ -1,4 +1,21 @@
 import { XMLParser } from 'fast-xml-parser'
+import {
+  isSimulableOffer,
+  MARKET_TYPE_LABELS,
+  OFFER_MODES,
+  type OfferMode,
+  SIMULABLE_ONLY_SECTIONS,
+} from './constants'
+import { validateConsumptionBrackets } from './consumption-brackets'
+import { validateElectricityPriceIntervals } from './price-interval-rules'
+import {
+  type ConditionalRuleId,
+  CURRENT_SPEC,
+  getFieldFacets,
+  getSectionOrder,
+  type SpecVersion,
+} from './spec-registry'
+import { TIME_BAND_DAYS, validateWeeklyTimeBands } from './time-band-grid'
 
 /**
  * XML Validator for SII "Trasmissione Offerte" specification
@@ -39,9 +56,15 @@ export interface ValidationError {
 /**
  * Validate XML string against SII specification requirements
  * @param xmlString - XML string to validate
+ * @param offerMode - Offer mode selecting the validation profile (FR-5.8)
+ * @param spec - Version of the SII specification the XML targets
  * @returns Validation result with errors if any
  */
-export function validateXML(xmlString: string): ValidationResult {
+export function validateXML(
+  xmlString: string,
+  offerMode: OfferMode = OFFER_MODES.SIMULABLE,
+  spec: SpecVersion = CURRENT_SPEC,
+): ValidationResult {
   const errors: ValidationError[] = []
 
   try {
@@ -64,13 +87,16 @@ export function validateXML(xmlString: string): ValidationResult {
     validateMandatorySections(offerta, errors)
 
     // Validate field formats and constraints
-    validateFieldFormats(offerta, errors)
+    validateFieldFormats(offerta, spec, errors)
 
     // Validate conditional requirements
-    validateConditionalRequirements(offerta, errors)
+    validateConditionalRequirements(offerta, spec, errors)
+
+    // Validate the sections of the offer mode
+    validateOfferModeRequirements(offerta, offerMode, errors)
 
     // Validate element order
-    validateElementOrder(offerta, errors)
+    validateElementOrder(offerta, spec, errors)
   } catch (error) {
     errors.push({
       path: '/',
@@ -201,6 +227,7 @@ function validateDettaglioOfferta(
  */
 function validateFieldFormats(
   offerta: Record<string, unknown>,
+  spec: SpecVersion,
   errors: ValidationError[],
 ) {
   // Validate PIVA format
@@ -210,7 +237,7 @@ function validateFieldFormats(
   validateDateFormats(offerta, errors)
 
   // Validate enum values
-  validateEnumValues(offerta, errors)
+  validateEnumValues(offerta, spec, errors)
 
   // Validate numeric constraints
   validateNumericConstraints(offerta, errors)
@@ -278,20 +305,26 @@ function validateDateFormats(
 
 function validateEnumValues(
   offerta: Record<string, unknown>,
+  spec: SpecVersion,
   errors: ValidationError[],
 ) {
   const dettaglio = offerta.DettaglioOfferta as
     | Record<string, unknown>
     | undefined
+  const marketTypes =
+    getFieldFacets(spec, ['DettaglioOfferta', 'TIPO_MERCATO'])?.enumeration ??
+    []
 
   if (
     dettaglio?.TIPO_MERCATO &&
-    !['01', '02', '03'].includes(String(dettaglio.TIPO_MERCATO))
+    !marketTypes.includes(toCode(dettaglio.TIPO_MERCATO) ?? '')
   ) {
+    const allowed = marketTypes.map(
+      (code) => `${code} (${MARKET_TYPE_LABELS[code] ?? code})`,
+    )
     errors.push({
       path: '/Offerta/DettaglioOfferta/TIPO_MERCATO',
-      message:
-        'TIPO_MERCATO deve essere 01 (Elettrico), 02 (Gas) o 03 (Dual Fuel)',
+      message: `TIPO_MERCATO deve essere ${allowed.slice(0, -1).join(', ')} o ${allowed.at(-1)}`,
       severity: 'error',
     })
   }
@@ -317,46 +350,48 @@ function validateNumericConstraints(
   }
 }
 
-/**
- * Validate conditional requirements based on other field values
- */
-function validateConditionalRequirements(
+type ConditionalRule = (
   offerta: Record<string, unknown>,
   errors: ValidationError[],
-) {
-  // Validate market-specific requirements
-  validateMarketSpecificRequirements(offerta, errors)
-
-  // Validate offer type requirements
-  validateOfferTypeRequirements(offerta, errors)
-
-  // Validate modality requirements
-  validateModalityRequirements(offerta, errors)
+) => void
+
+// Market-specific requirements only look at DettaglioOfferta
+const onDettaglio =
+  (
+    rule: (
+      dettaglio: Record<string, unknown>,
+      errors: ValidationError[],
+    ) => void,
+  ): ConditionalRule =>
+  (offerta, errors) => {
+    const dettaglio = offerta.DettaglioOfferta as
+      | Record<string, unknown>
+      | undefined
+    if (dettaglio) {
+      rule(dettaglio, errors)
+    }
+  }
 
-  // Validate dual fuel requirements
-  validateDualFuelRequirements(offerta, errors)
+// Rules a version of the specification can enable, see spec-registry.ts
+const CONDITIONAL_RULES: Record<ConditionalRuleId, ConditionalRule> = {
+  OFFERTA_SINGOLA: onDettaglio(validateOffertaSingolaRequirement),
+  DOMESTICO_RESIDENTE: onDettaglio(validateDomesticoResidenteRequirement),
+  TIPO_OFFERTA: validateOfferTypeRequirements,
+  MODALITA_ATTIVAZIONE: validateModalityRequirements,
+  OFFERTA_DUAL: validateDualFuelRequirements,
 }
 
-function validateMarketSpecificRequirements(
+/**
+ * Validate conditional requirements based on other field values
+ */
+function validateConditionalRequirements(
   offerta: Record<string, unknown>,
+  spec: SpecVersion,
   errors: ValidationError[],
 ) {
-  const dettaglio = offerta.DettaglioOfferta as
-    | Record<string, unknown>
-    | undefined
-
-  if (!dettaglio) {
-    return
+  for (const rule of spec.conditionalRules) {
+    CONDITIONAL_RULES[rule](offerta, errors)
   }
-
-  // Validate OFFERTA_SINGOLA requirement
-  validateOffertaSingolaRequirement(dettaglio, errors)
-
-  // Validate DOMESTICO_RESIDENTE requirement
-  validateDomesticoResidenteRequirement(dettaglio, errors)
-
-  // Validate electricity market requirements
-  validateElectricityMarketRequirements(dettaglio, offerta, errors)
 }
 
 function validateOffertaSingolaRequirement(
@@ -365,7 +400,7 @@ function validateOffertaSingolaRequirement(
 ) {
   if (
     dettaglio.TIPO_MERCATO &&
-    dettaglio.TIPO_MERCATO !== '03' &&
+    toCode(dettaglio.TIPO_MERCATO) !== '03' &&
     !dettaglio.OFFERTA_SINGOLA
   ) {
     errors.push({
@@ -381,8 +416,8 @@ function validateDomesticoResidenteRequirement(
   errors: ValidationError[],
 ) {
   if (
-    dettaglio.TIPO_CLIENTE === '01' &&
-    dettaglio.TIPO_MERCATO === '01' &&
+    toCode(dettaglio.TIPO_CLIENTE) === '01' &&
+    toCode(dettaglio.TIPO_MERCATO) === '01' &&
     !dettaglio.DOMESTICO_RESIDENTE
   ) {
     errors.push({
@@ -394,13 +429,55 @@ function validateDomesticoResidenteRequirement(
   }
 }
 
+/**
+ * Validate the sections required or excluded by the offer mode (FR-5.8)
+ */
+function validateOfferModeRequirements(
+  offerta: Record<string, unknown>,
+  offerMode: OfferMode,
+  errors: ValidationError[],
+) {
+  const dettaglio = offerta.DettaglioOfferta as
+    | Record<string, unknown>
+    | undefined
+
+  if (isSimulableOffer(offerMode)) {
+    if (dettaglio) {
+      validateElectricityMarketRequirements(dettaglio, offerta, errors)
+    }
+    return
+  }
+
+  for (const section of SIMULABLE_ONLY_SECTIONS) {
+    if (offerta[section]) {
+      errors.push({
+        path: `/Offerta/${section}`,
+        message: `La sezione "${section}" non è prevista per le offerte non simulabili`,
+        severity: 'error',
+      })
+    }
+  }
+
+  // Without the expense estimate the offer page is the only source of prices
+  const contatti = offerta['DettaglioOfferta.Contatti'] as
+    | Record<string, unknown>
+    | undefined
+  if (contatti && !contatti.URL_OFFERTA) {
+    errors.push({
+      path: '/Offerta/DettaglioOfferta.Contatti/URL_OFFERTA',
+      message: 'URL_OFFERTA è obbligatorio per le offerte non simulabili',
+      severity: 'error',
+    })
+  }
+}
+
 function validateElectricityMarketRequirements(
   dettaglio: Record<string, unknown>,
   offerta: Record<string, unknown>,
   errors: ValidationError[],
 ) {
-  if (dettaglio.TIPO_MERCATO === '01') {
-    if (!offerta.TipoPrezzo && dettaglio.TIPO_OFFERTA !== '03') {
+  if (toCode(dettaglio.TIPO_MERCATO) === '01') {
+    if (!offerta.TipoPrezzo && toCode(dettaglio.TIPO_OFFERTA) !== '03') {
       errors.push({
         path: '/Offerta/TipoPrezzo',
         message: 'TipoPrezzo è obbligatorio per offerte elettriche non FLAT',
@@ -442,7 +519,7 @@ function validateFlatOfferRequirements(
   offerta: Record<string, unknown>,
   errors: ValidationError[],
 ) {
-  if (dettaglio.TIPO_OFFERTA === '03') {
+  if (toCode(dettaglio.TIPO_OFFERTA) === '03') {
     const caratteristiche = offerta.CaratteristicheOfferta as
       | Record<string, unknown>
       | undefined
@@ -469,7 +546,10 @@ function validateVariableOfferRequirements(
   offerta: Record<string, unknown>,
   errors: ValidationError[],
 ) {
-  if (dettaglio.TIPO_OFFERTA === '02' && !offerta.RiferimentiPrezzoEnergia) {
+  if (
+    toCode(dettaglio.TIPO_OFFERTA) === '02' &&
+    !offerta.RiferimentiPrezzoEnergia
+  ) {
     errors.push({
       path: '/Offerta/RiferimentiPrezzoEnergia',
       message: 'RiferimentiPrezzoEnergia è obbligatorio per offerte variabili',
@@ -491,7 +571,10 @@ function validateModalityRequirements(
       ? modalita.MODALITA
       : [modalita.MODALITA]
 
-    if (modalitaArray.includes('99') && !modalita.DESCRIZIONE) {
+    if (
+      modalitaArray.some((code) => toCode(code) === '99') &&
+      !modalita.DESCRIZIONE
+    ) {
       errors.push({
         path: '/Offerta/DettaglioOfferta.ModalitaAttivazione/DESCRIZIONE',
         message:
@@ -511,7 +594,7 @@ function validateDualFuelRequirements(
     | undefined
 
   // For Dual Fuel offers, joint offers are mandatory
-  if (dettaglio?.TIPO_MERCATO === '03') {
+  if (toCode(dettaglio?.TIPO_MERCATO) === '03') {
     const dual = offerta.OffertaDUAL as Record<string, unknown> | undefined
 
     if (!dual?.OFFERTE_CONGIUNTE_EE) {
@@ -536,28 +619,10 @@ function validateDualFuelRequirements(
  */
 function validateElementOrder(
   offerta: Record<string, unknown>,
+  spec: SpecVersion,
   errors: ValidationError[],
 ) {
-  const expectedOrder = [
-    'IdentificativiOfferta',
-    'DettaglioOfferta',
-    'DettaglioOfferta.ModalitaAttivazione',
-    'DettaglioOfferta.Contatti',
-    'ValiditaOfferta',
-    'MetodoPagamento',
-    'RiferimentiPrezzoEnergia',
-    'CaratteristicheOfferta',
-    'OffertaDUAL',
-    'ComponentiRegolate',
-    'TipoPrezzo',
-    'FasceOrarieSettimanale',
-    'Dispacciamento',
-    'ComponenteImpresa',
-    'CondizioniContrattuali',
-    'ZoneOfferta',
-    'Sconto',
-    'ProdottiServiziAggiuntivi',
-  ]
+  const expectedOrder = getSectionOrder(spec)
 
   const actualKeys = Object.keys(offerta)
   let lastIndex = -1
@@ -580,10 +645,16 @@ function validateElementOrder(
 /**
  * Validate XML against specific business rules
  * @param xmlString - XML string to validate
+ * @param offerMode - Offer mode selecting the validation profile (FR-5.8)
+ * @param spec - Version of the SII specification the XML targets
  * @returns Validation result
  */
-export function validateBusinessRules(xmlString: string): ValidationResult {
-  const baseValidation = validateXML(xmlString)
+export function validateBusinessRules(
+  xmlString: string,
+  offerMode: OfferMode = OFFER_MODES.SIMULABLE,
+  spec: SpecVersion = CURRENT_SPEC,
+): ValidationResult {
+  const baseValidation = validateXML(xmlString, offerMode, spec)
   const additionalErrors: ValidationError[] = []
 
   try {
@@ -596,6 +667,12 @@ export function validateBusinessRules(xmlString: string): ValidationResult {
 
       // Validate price intervals
       validatePriceIntervals(offerta, additionalErrors)
+
+      // Validate weekly time bands against TIPOLOGIA_FASCE
+      validateTimeBandConsistency(offerta, additionalErrors)
+
+      // Validate electricity price intervals against TIPOLOGIA_FASCE (FR-4.6)
+      validateElectricityIntervalCount(offerta, additionalErrors)
     }
   } catch {
     // Ignore parsing errors as they're already handled in base validation
@@ -668,6 +745,16 @@ function validateComponentIntervals(
   intervals.forEach((interval, intIndex) => {
     validateSingleInterval(interval, compIndex, intIndex, errors)
   })
+
+  for (const issue of validateConsumptionBrackets(
+    (intervals as Record<string, unknown>[]).map(toRuleInterval),
+  )) {
+    errors.push({
+      path: `/Offerta/ComponenteImpresa[${compIndex}]/IntervalloPrezzi[${issue.intervalIndex}]`,
+      message: issue.message,
+      severity: 'error',
+    })
+  }
 }
 
 function validateSingleInterval(
@@ -691,6 +778,106 @@ function validateSingleInterval(
   }
 }
 
+// Codes like "02" are parsed as numbers
+const toCode = (value: unknown): string | undefined =>
+  value === undefined ? undefined : String(value).padStart(2, '0')
+
+const toNumber = (value: unknown): number | undefined =>
+  value === undefined ? undefined : Number(value)
+
+// Form-like view of an IntervalloPrezzi element for the shared rules
+const toRuleInterval = (interval: Record<string, unknown>) => ({
+  componentTimeBand: toCode(interval.FASCIA_COMPONENTE),
+  unitOfMeasure: toCode(interval.UNITA_MISURA),
+  consumptionFrom: toNumber(interval.CONSUMO_DA),
+  consumptionTo: toNumber(interval.CONSUMO_A),
+  validityPeriod: interval.PeriodoValidita as
+    | Record<string, unknown>
+    | undefined,
+})
+
+const toArray = (value: unknown): Record<string, unknown>[] => {
+  if (value === undefined) {
+    return []
+  }
+  return (Array.isArray(value) ? value : [value]) as Record<string, unknown>[]
+}
+
+function validateElectricityIntervalCount(
+  offerta: Record<string, unknown>,
+  errors: ValidationError[],
+) {
+  const dettaglio = offerta.DettaglioOfferta as
+    | Record<string, unknown>
+    | undefined
+
+  if (toCode(dettaglio?.TIPO_MERCATO) !== '01') {
+    return
+  }
+
+  const tipoPrezzo = offerta.TipoPrezzo as Record<string, unknown> | undefined
+  const tipologiaFasce = toCode(tipoPrezzo?.TIPOLOGIA_FASCE)
+
+  for (const [compIndex, component] of toArray(
+    offerta.ComponenteImpresa,
+  ).entries()) {
+    const issues = validateElectricityPriceIntervals(
+      {
+        macroArea: toCode(component.MACROAREA),
+        priceIntervals: toArray(component.IntervalloPrezzi).map(toRuleInterval),
+      },
+      tipologiaFasce,
+    )
+
+    for (const issue of issues) {
+      errors.push({
+        path:
+          issue.intervalIndex === undefined
+            ? `/Offerta/ComponenteImpresa[${compIndex}]`
+            : `/Offerta/ComponenteImpresa[${compIndex}]/IntervalloPrezzi[${issue.intervalIndex}]`,
+        message: issue.message,
+        severity: 'error',
+      })
+    }
+  }
+}
+
+function validateTimeBandConsistency(
+  offerta: Record<string, unknown>,
+  errors: ValidationError[],
+) {
+  const fasce = offerta.FasceOrarieSettimanale as
+    | Record<string, unknown>
+    | undefined
+
+  if (!fasce) {
+    return
+  }
+
+  const tipoPrezzo = offerta.TipoPrezzo as Record<string, unknown> | undefined
+  const tipologiaFasce = toCode(tipoPrezzo?.TIPOLOGIA_FASCE)
+
+  const weeklyTimeBands = Object.fromEntries(
+    TIME_BAND_DAYS.filter((day) => fasce[day.element] !== undefined).map(
+      (day) => [day.key, String(fasce[day.element])],
+    ),
+  )
+
+  for (const issue of validateWeeklyTimeBands(
+    tipologiaFasce,
+    weeklyTimeBands,
+  )) {
+    const element = TIME_BAND_DAYS.find((day) => day.key === issue.day)?.element
+    errors.push({
+      path: element
+        ? `/Offerta/FasceOrarieSettimanale/${element}`
+        : '/Offerta/FasceOrarieSettimanale',
+      message: issue.message,
+      severity: 'error',
+    })
+  }
+}
+
 /**
  * Parse SII date format to Date object
  */
@@ -0,0 +1,15 @@
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { SII_OFFER_XSD } from './xsd-source'
+
+describe('xsd-source', () => {
+  it('should match documentation/xml-schema.xsd', () => {
+    const xsd = readFileSync(
+      path.resolve(__dirname, '../../documentation/xml-schema.xsd'),
+      'utf8',
+    )
+
+    expect(SII_OFFER_XSD).toBe(xsd.trimEnd())
+  })
+})
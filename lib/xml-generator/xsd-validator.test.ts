@@ -0,0 +1,273 @@
+import { describe, expect, it } from 'vitest'
+import { parseXSDSchema, validateXSD } from './xsd-validator'
+
+// Top-level regex patterns for performance
+const PARSE_ERROR_REGEX = /Errore nel parsing XML/
+const ROOT_ERROR_REGEX = /Elemento radice non valido/
+const MISSING_REGEX = /Elemento obbligatorio mancante: COD_OFFERTA/
+const UNKNOWN_REGEX = /Elemento non previsto dallo schema: EXTRA/
+const ORDER_REGEX = /Elemento fuori sequenza: PIVA_UTENTE/
+const ENUMERATION_REGEX = /Valore "07" non ammesso per TIPO_MERCATO/
+const MAX_LENGTH_REGEX = /non può superare 32 caratteri/
+const PATTERN_REGEX = /DATA_INIZIO non rispetta il formato richiesto/
+const INTEGER_REGEX = /DURATA deve essere un numero intero/
+const FRACTION_DIGITS_REGEX = /al massimo 6 cifre decimali/
+const TOTAL_DIGITS_REGEX = /al massimo 4 cifre/
+const MAX_OCCURS_REGEX = /Troppe occorrenze di ITEM: massimo 2/
+const UNSUPPORTED_REGEX = /Costrutto XSD non supportato: xs:attribute/
+
+const createOfferXML = (
+  overrides: {
+    identificativi?: string
+    dettaglio?: string
+    validita?: string
+    extra?: string
+  } = {},
+) =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<Offerta>
+    <IdentificativiOfferta>
+        ${
+          overrides.identificativi ??
+          `<PIVA_UTENTE>IT12345678901</PIVA_UTENTE>
+        <COD_OFFERTA>OFFER2024TEST</COD_OFFERTA>`
+        }
+    </IdentificativiOfferta>
+    <DettaglioOfferta>
+        ${
+          overrides.dettaglio ??
+          `<TIPO_MERCATO>01</TIPO_MERCATO>
+        <OFFERTA_SINGOLA>SI</OFFERTA_SINGOLA>`
+        }
+        <TIPO_CLIENTE>01</TIPO_CLIENTE>
+        <DOMESTICO_RESIDENTE>01</DOMESTICO_RESIDENTE>
+        <TIPO_OFFERTA>01</TIPO_OFFERTA>
+        <TIPOLOGIA_ATT_CONTR>01</TIPOLOGIA_ATT_CONTR>
+        <NOME_OFFERTA>Offerta Luce Fissa</NOME_OFFERTA>
+        <DESCRIZIONE>Prezzo bloccato per 12 mesi</DESCRIZIONE>
+        <DURATA>12</DURATA>
+        <GARANZIE>NESSUNA</GARANZIE>
+    </DettaglioOfferta>
+    <DettaglioOfferta.ModalitaAttivazione>
+        <MODALITA>01</MODALITA>
+    </DettaglioOfferta.ModalitaAttivazione>
+    <DettaglioOfferta.Contatti>
+        <TELEFONO>800123456</TELEFONO>
+    </DettaglioOfferta.Contatti>
+    <ValiditaOfferta>
+        ${
+          overrides.validita ?? '<DATA_INIZIO>01/01/2099_00:00:00</DATA_INIZIO>'
+        }
+        <DATA_FINE>31/12/2099_23:59:59</DATA_FINE>
+    </ValiditaOfferta>
+    <MetodoPagamento>
+        <MODALITA_PAGAMENTO>01</MODALITA_PAGAMENTO>
+    </MetodoPagamento>
+    <MetodoPagamento>
+        <MODALITA_PAGAMENTO>02</MODALITA_PAGAMENTO>
+    </MetodoPagamento>
+    ${overrides.extra ?? ''}
+</Offerta>`
+
+const createSchema = (restriction: string, maxOccurs = '2') =>
+  parseXSDSchema(`<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+    <xs:element name="Root">
+        <xs:complexType>
+            <xs:sequence>
+                <xs:element name="ITEM" maxOccurs="${maxOccurs}">
+                    <xs:simpleType>
+                        ${restriction}
+                    </xs:simpleType>
+                </xs:element>
+            </xs:sequence>
+        </xs:complexType>
+    </xs:element>
+</xs:schema>`)
+
+const decimalSchema = createSchema(`<xs:restriction base="xs:decimal">
+    <xs:totalDigits value="4"/>
+    <xs:fractionDigits value="2"/>
+</xs:restriction>`)
+
+describe('xsd-validator', () => {
+  describe('parseXSDSchema', () => {
+    it('should resolve named complex types and occurrence bounds', () => {
+      const schema = createSchema(
+        '<xs:restriction base="xs:string"><xs:maxLength value="5"/></xs:restriction>',
+        'unbounded',
+      )
+
+      expect(schema.elements).toEqual([
+        {
+          name: 'Root',
+          minOccurs: 1,
+          maxOccurs: 1,
+          sequence: [
+            {
+              name: 'ITEM',
+              minOccurs: 1,
+              maxOccurs: Number.POSITIVE_INFINITY,
+              simpleType: { base: 'string', facets: { maxLength: 5 } },
+            },
+          ],
+        },
+      ])
+    })
+
+    it('should reject constructs outside the supported subset', () => {
+      expect(() =>
+        parseXSDSchema(`<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+    <xs:attribute name="version" type="xs:string"/>
+</xs:schema>`),
+      ).toThrow(UNSUPPORTED_REGEX)
+    })
+  })
+
+  describe('validateXSD', () => {
+    it('should accept a valid offer against the bundled SII schema', () => {
+      const result = validateXSD(createOfferXML())
+
+      expect(result.errors).toEqual([])
+      expect(result.isValid).toBe(true)
+    })
+
+    it('should report malformed XML', () => {
+      const result = validateXSD('<Offerta><IdentificativiOfferta></Offerta>')
+
+      expect(result.isValid).toBe(false)
+      expect(result.errors[0].message).toMatch(PARSE_ERROR_REGEX)
+    })
+
+    it('should report an unexpected root element', () => {
+      const result = validateXSD('<Offerte></Offerte>')
+
+      expect(result.isValid).toBe(false)
+      expect(result.errors[0]).toMatchObject({ path: '/' })
+      expect(result.errors[0].message).toMatch(ROOT_ERROR_REGEX)
+    })
+
+    it('should report missing mandatory elements', () => {
+      const result = validateXSD(
+        createOfferXML({
+          identificativi: '<PIVA_UTENTE>IT12345678901</PIVA_UTENTE>',
+        }),
+      )
+
+      expect(result.errors).toEqual([
+        {
+          path: '/Offerta/IdentificativiOfferta/COD_OFFERTA',
+          message: expect.stringMatching(MISSING_REGEX),
+          severity: 'error',
+        },
+      ])
+    })
+
+    it('should report elements out of sequence', () => {
+      const result = validateXSD(
+        createOfferXML({
+          identificativi: `<COD_OFFERTA>OFFER2024TEST</COD_OFFERTA>
+        <PIVA_UTENTE>IT12345678901</PIVA_UTENTE>`,
+        }),
+      )
+
+      expect(result.isValid).toBe(false)
+      expect(result.errors).toContainEqual({
+        path: '/Offerta/IdentificativiOfferta/PIVA_UTENTE',
+        message: expect.stringMatching(ORDER_REGEX),
+        severity: 'error',
+      })
+    })
+
+    it('should report elements not declared in the schema', () => {
+      const result = validateXSD(createOfferXML({ extra: '<EXTRA>1</EXTRA>' }))
+
+      expect(result.errors).toEqual([
+        {
+          path: '/Offerta/EXTRA',
+          message: expect.stringMatching(UNKNOWN_REGEX),
+          severity: 'error',
+        },
+      ])
+    })
+
+    it('should check enumerations and index repeated elements', () => {
+      const result = validateXSD(
+        createOfferXML({
+          dettaglio: `<TIPO_MERCATO>07</TIPO_MERCATO>
+        <OFFERTA_SINGOLA>SI</OFFERTA_SINGOLA>`,
+          extra: `<MetodoPagamento>
+        <MODALITA_PAGAMENTO>77</MODALITA_PAGAMENTO>
+    </MetodoPagamento>`,
+        }),
+      )
+
+      expect(result.errors.map((error) => error.path)).toEqual([
+        '/Offerta/DettaglioOfferta/TIPO_MERCATO',
+        '/Offerta/MetodoPagamento[3]/MODALITA_PAGAMENTO',
+      ])
+      expect(result.errors[0].message).toMatch(ENUMERATION_REGEX)
+    })
+
+    it('should check lengths, patterns and integers', () => {
+      const result = validateXSD(
+        createOfferXML({
+          identificativi: `<PIVA_UTENTE>IT12345678901</PIVA_UTENTE>
+        <COD_OFFERTA>${'A'.repeat(33)}</COD_OFFERTA>`,
+          validita: '<DATA_INIZIO>2099-01-01</DATA_INIZIO>',
+        }).replace('<DURATA>12</DURATA>', '<DURATA>12.5</DURATA>'),
+      )
+      const messages = result.errors.map((error) => error.message)
+
+      expect(messages).toEqual([
+        expect.stringMatching(MAX_LENGTH_REGEX),
+        expect.stringMatching(INTEGER_REGEX),
+        expect.stringMatching(PATTERN_REGEX),
+      ])
+    })
+
+    it('should check totalDigits and fractionDigits', () => {
+      expect(
+        validateXSD('<Root><ITEM>12.34</ITEM></Root>', decimalSchema),
+      ).toEqual({ isValid: true, errors: [] })
+
+      const fraction = validateXSD(
+        '<Root><ITEM>1.2345678</ITEM></Root>',
+        createSchema(
+          '<xs:restriction base="xs:decimal"><xs:fractionDigits value="6"/></xs:restriction>',
+        ),
+      )
+      expect(fraction.errors[0].message).toMatch(FRACTION_DIGITS_REGEX)
+
+      const total = validateXSD(
+        '<Root><ITEM>123.45</ITEM></Root>',
+        decimalSchema,
+      )
+      expect(total.errors[0].message).toMatch(TOTAL_DIGITS_REGEX)
+    })
+
+    it('should ignore insignificant zeros when counting digits', () => {
+      const result = validateXSD(
+        '<Root><ITEM>0012.3400</ITEM></Root>',
+        decimalSchema,
+      )
+
+      expect(result.isValid).toBe(true)
+    })
+
+    it('should enforce maxOccurs with XPath-like indexes', () => {
+      const result = validateXSD(
+        '<Root><ITEM>1</ITEM><ITEM>2</ITEM><ITEM>3</ITEM></Root>',
+        decimalSchema,
+      )
+
+      expect(result.errors).toEqual([
+        {
+          path: '/Root/ITEM[3]',
+          message: expect.stringMatching(MAX_OCCURS_REGEX),
+          severity: 'error',
+        },
+      ])
+    })
+  })
+})
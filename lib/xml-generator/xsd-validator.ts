@@ -0,0 +1,586 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser'
+import type { ValidationError, ValidationResult } from './xml-validator'
+import { SII_OFFER_XSD } from './xsd-source'
+
+/**
+ * XSD Validator for SII "Trasmissione Offerte" specification
+ * Validates XML documents against the bundled xml-schema.xsd in pure
+ * TypeScript, so it runs in the browser and in Node without libxml.
+ * Supports the subset of XML Schema used by the SII specification:
+ * element sequences with minOccurs/maxOccurs and simple types restricting
+ * xs:string, xs:integer and xs:decimal.
+ */
+
+// Top-level regex patterns for performance
+const INTEGER_REGEX = /^[+-]?\d+$/
+const DECIMAL_REGEX = /^[+-]?(\d+(\.\d*)?|\.\d+)$/
+const SIGN_REGEX = /^[+-]/
+const LEADING_ZEROS_REGEX = /^0+/
+const TRAILING_ZEROS_REGEX = /0+$/
+
+const XS_PREFIX = 'xs:'
+const ATTRIBUTES_KEY = ':@'
+const TEXT_KEY = '#text'
+
+type XSDBaseType = 'string' | 'integer' | 'decimal'
+
+export interface XSDFacets {
+  enumeration?: string[]
+  pattern?: RegExp[]
+  length?: number
+  minLength?: number
+  maxLength?: number
+  totalDigits?: number
+  fractionDigits?: number
+  minInclusive?: number
+  maxInclusive?: number
+}
+
+export interface XSDSimpleType {
+  base: XSDBaseType
+  facets: XSDFacets
+}
+
+export interface XSDElement {
+  name: string
+  minOccurs: number
+  maxOccurs: number
+  // Exactly one of the two is set: complex elements hold a sequence
+  sequence?: XSDElement[]
+  simpleType?: XSDSimpleType
+}
+
+export interface XSDSchema {
+  elements: XSDElement[]
+}
+
+// Node shape produced by fast-xml-parser with preserveOrder enabled
+type OrderedNode = Record<string, unknown>
+
+const xsdParser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+})
+
+const instanceParser = new XMLParser({
+  preserveOrder: true,
+  ignoreAttributes: true,
+  parseTagValue: false,
+  trimValues: true,
+})
+
+const BASE_TYPES: Record<string, XSDBaseType> = {
+  'xs:string': 'string',
+  'xs:integer': 'integer',
+  'xs:decimal': 'decimal',
+}
+
+const NUMERIC_FACETS = [
+  'length',
+  'minLength',
+  'maxLength',
+  'totalDigits',
+  'fractionDigits',
+  'minInclusive',
+  'maxInclusive',
+] as const
+
+function getTagName(node: OrderedNode): string | undefined {
+  return Object.keys(node).find((key) => key !== ATTRIBUTES_KEY)
+}
+
+function getChildren(node: OrderedNode, tagName: string): OrderedNode[] {
+  const children = node[tagName]
+  return Array.isArray(children) ? (children as OrderedNode[]) : []
+}
+
+function getAttributes(node: OrderedNode): Record<string, string> {
+  return (node[ATTRIBUTES_KEY] as Record<string, string> | undefined) ?? {}
+}
+
+// Child elements of a node, skipping text, comments and processing instructions
+function getElementChildren(
+  node: OrderedNode,
+  tagName: string,
+): Array<{ tagName: string; node: OrderedNode }> {
+  return getChildren(node, tagName).flatMap((child) => {
+    const childTag = getTagName(child)
+    return childTag && childTag !== TEXT_KEY && !childTag.startsWith('?')
+      ? [{ tagName: childTag, node: child }]
+      : []
+  })
+}
+
+function getText(node: OrderedNode, tagName: string): string {
+  return getChildren(node, tagName)
+    .map((child) => (child[TEXT_KEY] === undefined ? '' : child[TEXT_KEY]))
+    .join('')
+}
+
+function addFacet(facets: XSDFacets, tagName: string, value: string) {
+  const facetName = tagName.slice(XS_PREFIX.length)
+
+  if (facetName === 'enumeration') {
+    facets.enumeration = [...(facets.enumeration ?? []), value]
+  } else if (facetName === 'pattern') {
+    // XSD patterns always match the whole value
+    facets.pattern = [
+      ...(facets.pattern ?? []),
+      new RegExp(`^(?:${value})$`, 'u'),
+    ]
+  } else if ((NUMERIC_FACETS as readonly string[]).includes(facetName)) {
+    facets[facetName as (typeof NUMERIC_FACETS)[number]] = Number(value)
+  } else {
+    throw new Error(`Facet XSD non supportato: ${tagName}`)
+  }
+}
+
+function parseOccurs(attributes: Record<string, string>) {
+  return {
+    minOccurs: attributes.minOccurs ? Number(attributes.minOccurs) : 1,
+    maxOccurs:
+      attributes.maxOccurs === 'unbounded'
+        ? Number.POSITIVE_INFINITY
+        : Number(attributes.maxOccurs ?? 1),
+  }
+}
+
+/**
+ * Parse an XSD document into element declarations
+ * @param xsdString - XSD document restricted to the constructs used by SII
+ * @returns Parsed schema with the global element declarations
+ * @throws Error if the XSD uses unsupported constructs
+ */
+export function parseXSDSchema(xsdString: string): XSDSchema {
+  const documentNodes = xsdParser.parse(xsdString) as OrderedNode[]
+  const schemaNode = documentNodes.find(
+    (node) => getTagName(node) === 'xs:schema',
+  )
+
+  if (!schemaNode) {
+    throw new Error('Elemento xs:schema mancante nel file XSD')
+  }
+
+  const complexTypes = new Map<string, OrderedNode>()
+  const globalElements: OrderedNode[] = []
+
+  for (const child of getElementChildren(schemaNode, 'xs:schema')) {
+    if (child.tagName === 'xs:complexType') {
+      complexTypes.set(getAttributes(child.node).name, child.node)
+    } else if (child.tagName === 'xs:element') {
+      globalElements.push(child.node)
+    } else {
+      throw new Error(`Costrutto XSD non supportato: ${child.tagName}`)
+    }
+  }
+
+  const resolving = new Set<string>()
+
+  const parseSimpleType = (node: OrderedNode): XSDSimpleType => {
+    const [restriction, ...rest] = getElementChildren(node, 'xs:simpleType')
+
+    if (restriction?.tagName !== 'xs:restriction' || rest.length > 0) {
+      throw new Error('Sono supportati solo xs:simpleType con xs:restriction')
+    }
+
+    const baseName = getAttributes(restriction.node).base
+    const base = BASE_TYPES[baseName]
+    if (!base) {
+      throw new Error(`Tipo base XSD non supportato: ${baseName}`)
+    }
+
+    const facets: XSDFacets = {}
+    for (const facet of getElementChildren(
+      restriction.node,
+      'xs:restriction',
+    )) {
+      addFacet(facets, facet.tagName, getAttributes(facet.node).value)
+    }
+
+    return { base, facets }
+  }
+
+  const parseSequence = (node: OrderedNode): XSDElement[] => {
+    const children = getElementChildren(node, 'xs:complexType')
+
+    if (children.length === 0) {
+      return []
+    }
+    if (children.length > 1 || children[0].tagName !== 'xs:sequence') {
+      throw new Error('Sono supportati solo xs:complexType con xs:sequence')
+    }
+
+    return getElementChildren(children[0].node, 'xs:sequence').map((child) => {
+      if (child.tagName !== 'xs:element') {
+        throw new Error(`Costrutto XSD non supportato: ${child.tagName}`)
+      }
+      return parseElement(child.node)
+    })
+  }
+
+  const resolveNamedType = (
+    typeName: string,
+  ): Pick<XSDElement, 'sequence' | 'simpleType'> => {
+    const base = BASE_TYPES[typeName]
+    if (base) {
+      return { simpleType: { base, facets: {} } }
+    }
+
+    const complexType = complexTypes.get(typeName)
+    if (!complexType) {
+      throw new Error(`Tipo XSD non definito: ${typeName}`)
+    }
+    if (resolving.has(typeName)) {
+      throw new Error(`Tipo XSD ricorsivo non supportato: ${typeName}`)
+    }
+
+    resolving.add(typeName)
+    const sequence = parseSequence(complexType)
+    resolving.delete(typeName)
+    return { sequence }
+  }
+
+  const parseElement = (node: OrderedNode): XSDElement => {
+    const attributes = getAttributes(node)
+    const element: XSDElement = {
+      name: attributes.name,
+      ...parseOccurs(attributes),
+    }
+
+    if (attributes.type) {
+      return { ...element, ...resolveNamedType(attributes.type) }
+    }
+
+    const [definition] = getElementChildren(node, 'xs:element')
+    if (definition?.tagName === 'xs:complexType') {
+      element.sequence = parseSequence(definition.node)
+    } else if (definition?.tagName === 'xs:simpleType') {
+      element.simpleType = parseSimpleType(definition.node)
+    } else {
+      throw new Error(`Tipo mancante per l'elemento XSD ${attributes.name}`)
+    }
+
+    return element
+  }
+
+  return { elements: globalElements.map(parseElement) }
+}
+
+let siiSchema: XSDSchema | null = null
+
+/**
+ * Get the parsed SII offer schema, parsing the bundled XSD on first use
+ * @returns Parsed SII offer schema
+ */
+export function getSIISchema(): XSDSchema {
+  if (!siiSchema) {
+    siiSchema = parseXSDSchema(SII_OFFER_XSD)
+  }
+  return siiSchema
+}
+
+/**
+ * Validate an XML string against an XSD schema
+ * @param xmlString - XML string to validate
+ * @param schema - Parsed schema, defaults to the bundled SII offer schema
+ * @returns Validation result with XPath-like paths for each violation
+ */
+export function validateXSD(
+  xmlString: string,
+  schema: XSDSchema = getSIISchema(),
+): ValidationResult {
+  const errors: ValidationError[] = []
+
+  const syntaxCheck = XMLValidator.validate(xmlString)
+  if (syntaxCheck !== true) {
+    errors.push({
+      path: '/',
+      message: `Errore nel parsing XML (riga ${syntaxCheck.err.line}): ${syntaxCheck.err.msg}`,
+      severity: 'error',
+    })
+    return { isValid: false, errors }
+  }
+
+  const documentNodes = instanceParser.parse(xmlString) as OrderedNode[]
+  const roots = documentNodes.flatMap((node) => {
+    const tagName = getTagName(node)
+    return tagName && tagName !== TEXT_KEY && !tagName.startsWith('?')
+      ? [{ tagName, node }]
+      : []
+  })
+  const [root] = roots
+  const declaration = schema.elements.find(
+    (element) => element.name === root?.tagName,
+  )
+
+  if (!(root && declaration)) {
+    const expected = schema.elements.map((element) => element.name).join(', ')
+    errors.push({
+      path: '/',
+      message: `Elemento radice non valido: atteso ${expected}`,
+      severity: 'error',
+    })
+    return { isValid: false, errors }
+  }
+
+  validateElement(
+    root.node,
+    root.tagName,
+    declaration,
+    `/${root.tagName}`,
+    errors,
+  )
+
+  return { isValid: errors.length === 0, errors }
+}
+
+function validateElement(
+  node: OrderedNode,
+  tagName: string,
+  declaration: XSDElement,
+  path: string,
+  errors: ValidationError[],
+) {
+  const children = getElementChildren(node, tagName)
+
+  if (declaration.simpleType) {
+    if (children.length > 0) {
+      errors.push({
+        path,
+        message: `L'elemento ${declaration.name} non può contenere elementi figli`,
+        severity: 'error',
+      })
+      return
+    }
+    validateSimpleValue(getText(node, tagName), declaration, path, errors)
+    return
+  }
+
+  if (getText(node, tagName).length > 0) {
+    errors.push({
+      path,
+      message: `L'elemento ${declaration.name} non può contenere testo`,
+      severity: 'error',
+    })
+  }
+
+  validateSequence(children, declaration.sequence ?? [], path, errors)
+}
+
+/**
+ * Match child elements against a sequence of element declarations,
+ * reporting missing, repeated, out of order and unknown elements
+ */
+function validateSequence(
+  children: Array<{ tagName: string; node: OrderedNode }>,
+  sequence: XSDElement[],
+  parentPath: string,
+  errors: ValidationError[],
+) {
+  let particle = 0
+  let occurrences = 0
+
+  const reportMissing = (from: number, to: number) => {
+    for (let index = from; index < to; index++) {
+      const expected = sequence[index]
+      const found = index === particle ? occurrences : 0
+      if (found < expected.minOccurs) {
+        errors.push({
+          path: `${parentPath}/${expected.name}`,
+          message:
+            expected.minOccurs > 1
+              ? `Elemento obbligatorio mancante: ${expected.name} (minimo ${expected.minOccurs} occorrenze)`
+              : `Elemento obbligatorio mancante: ${expected.name}`,
+          severity: 'error',
+        })
+      }
+    }
+  }
+
+  for (const child of children) {
+    const position = sequence.findIndex(
+      (element) => element.name === child.tagName,
+    )
+
+    if (position === -1) {
+      errors.push({
+        path: `${parentPath}/${child.tagName}`,
+        message: `Elemento non previsto dallo schema: ${child.tagName}`,
+        severity: 'error',
+      })
+      continue
+    }
+
+    if (position < particle) {
+      errors.push({
+        path: `${parentPath}/${child.tagName}`,
+        message: `Elemento fuori sequenza: ${child.tagName} deve precedere ${sequence[particle].name}`,
+        severity: 'error',
+      })
+      continue
+    }
+
+    if (position > particle) {
+      reportMissing(particle, position)
+      particle = position
+      occurrences = 0
+    }
+
+    const declaration = sequence[position]
+    occurrences++
+
+    if (occurrences > declaration.maxOccurs) {
+      errors.push({
+        path: `${parentPath}/${child.tagName}[${occurrences}]`,
+        message: `Troppe occorrenze di ${child.tagName}: massimo ${declaration.maxOccurs}`,
+        severity: 'error',
+      })
+      continue
+    }
+
+    // Index repeatable elements XPath-style, starting from 1
+    const childPath =
+      declaration.maxOccurs > 1
+        ? `${parentPath}/${child.tagName}[${occurrences}]`
+        : `${parentPath}/${child.tagName}`
+
+    validateElement(child.node, child.tagName, declaration, childPath, errors)
+  }
+
+  reportMissing(particle, sequence.length)
+}
+
+function countDigits(value: string): { total: number; fraction: number } {
+  const [integerPart, fractionPart = ''] = value
+    .replace(SIGN_REGEX, '')
+    .split('.')
+  const integerDigits = integerPart.replace(LEADING_ZEROS_REGEX, '')
+  const fractionDigits = fractionPart.replace(TRAILING_ZEROS_REGEX, '')
+
+  return {
+    // Zero still counts as one digit
+    total: Math.max(integerDigits.length + fractionDigits.length, 1),
+    fraction: fractionDigits.length,
+  }
+}
+
+// Enumeration, length and pattern facets, shared by every base type
+function checkLexicalFacets(
+  value: string,
+  name: string,
+  facets: XSDFacets,
+): string[] {
+  const messages: string[] = []
+
+  if (facets.enumeration && !facets.enumeration.includes(value)) {
+    messages.push(
+      `Valore "${value}" non ammesso per ${name} (valori ammessi: ${facets.enumeration.join(', ')})`,
+    )
+  }
+
+  // Lengths are measured in characters, not UTF-16 code units
+  const length = Array.from(value).length
+  if (facets.length !== undefined && length !== facets.length) {
+    messages.push(
+      `${name} deve essere lungo esattamente ${facets.length} caratteri`,
+    )
+  }
+  if (facets.minLength !== undefined && length < facets.minLength) {
+    messages.push(`${name} deve contenere almeno ${facets.minLength} caratteri`)
+  }
+  if (facets.maxLength !== undefined && length > facets.maxLength) {
+    messages.push(
+      `${name} non può superare ${facets.maxLength} caratteri (attuali ${length})`,
+    )
+  }
+
+  if (facets.pattern && !facets.pattern.some((regex) => regex.test(value))) {
+    messages.push(
+      `${name} non rispetta il formato richiesto (valore "${value}")`,
+    )
+  }
+
+  return messages
+}
+
+// Digit and range facets, only meaningful for xs:integer and xs:decimal
+function checkNumericFacets(
+  value: string,
+  name: string,
+  facets: XSDFacets,
+): string[] {
+  const messages: string[] = []
+
+  const digits = countDigits(value)
+  if (facets.totalDigits !== undefined && digits.total > facets.totalDigits) {
+    messages.push(
+      `${name} può avere al massimo ${facets.totalDigits} cifre (valore "${value}")`,
+    )
+  }
+  if (
+    facets.fractionDigits !== undefined &&
+    digits.fraction > facets.fractionDigits
+  ) {
+    messages.push(
+      `${name} può avere al massimo ${facets.fractionDigits} cifre decimali (valore "${value}")`,
+    )
+  }
+
+  const numericValue = Number(value)
+  if (facets.minInclusive !== undefined && numericValue < facets.minInclusive) {
+    messages.push(
+      `${name} deve essere maggiore o uguale a ${facets.minInclusive}`,
+    )
+  }
+  if (facets.maxInclusive !== undefined && numericValue > facets.maxInclusive) {
+    messages.push(
+      `${name} deve essere minore o uguale a ${facets.maxInclusive}`,
+    )
+  }
+
+  return messages
+}
+
+/**
+ * Check a text value against the simple type of its declaration
+ * @param value - Text of the element
+ * @param declaration - Element declaration with a simple type
+ * @returns Error messages, empty when the value is valid
+ */
+export function checkSimpleValue(
+  value: string,
+  declaration: XSDElement,
+): string[] {
+  if (!declaration.simpleType) {
+    return []
+  }
+  const { base, facets } = declaration.simpleType
+  const name = declaration.name
+
+  if (base === 'integer' && !INTEGER_REGEX.test(value)) {
+    return [`${name} deve essere un numero intero (valore "${value}")`]
+  }
+  if (base === 'decimal' && !DECIMAL_REGEX.test(value)) {
+    return [`${name} deve essere un numero decimale (valore "${value}")`]
+  }
+
+  return [
+    ...checkLexicalFacets(value, name, facets),
+    ...(base === 'string' ? [] : checkNumericFacets(value, name, facets)),
+  ]
+}
+
+function validateSimpleValue(
+  value: string,
+  declaration: XSDElement,
+  path: string,
+  errors: ValidationError[],
+) {
+  for (const message of checkSimpleValue(value, declaration)) {
+    errors.push({ path, message, severity: 'error' })
+  }
+}
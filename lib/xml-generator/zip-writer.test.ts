@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { crc32, createZip } from './zip-writer'
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04_03_4b_50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06_05_4b_50
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+describe('zip-writer', () => {
+  describe('crc32', () => {
+    it('should match the standard CRC-32 check value', () => {
+      expect(crc32(encoder.encode('123456789'))).toBe(0xcb_f4_39_26)
+      expect(crc32(new Uint8Array())).toBe(0)
+    })
+  })
+
+  describe('createZip', () => {
+    const modifiedAt = new Date(2024, 5, 15, 10, 30, 20)
+
+    it('should store each file after its local header', () => {
+      const archive = createZip(
+        [
+          { name: 'A.XML', content: '<Offerta/>' },
+          { name: 'B.XML', content: encoder.encode('àèì') },
+        ],
+        modifiedAt,
+      )
+      const view = new DataView(archive.buffer)
+
+      expect(view.getUint32(0, true)).toBe(LOCAL_FILE_HEADER_SIGNATURE)
+      expect(view.getUint32(14, true)).toBe(crc32(encoder.encode('<Offerta/>')))
+      expect(view.getUint32(18, true)).toBe(10)
+      expect(decoder.decode(archive.subarray(30, 35))).toBe('A.XML')
+      expect(decoder.decode(archive.subarray(35, 45))).toBe('<Offerta/>')
+      expect(decoder.decode(archive.subarray(80, 86))).toBe('àèì')
+    })
+
+    it('should end with a central directory listing every file', () => {
+      const archive = createZip(
+        [
+          { name: 'A.XML', content: 'a' },
+          { name: 'B.XML', content: 'b' },
+        ],
+        modifiedAt,
+      )
+      const view = new DataView(archive.buffer)
+      const endOffset = archive.length - END_OF_CENTRAL_DIRECTORY_SIZE
+
+      expect(view.getUint32(endOffset, true)).toBe(
+        END_OF_CENTRAL_DIRECTORY_SIGNATURE,
+      )
+      expect(view.getUint16(endOffset + 10, true)).toBe(2)
+      // Central directory starts right after the two local entries
+      expect(view.getUint32(endOffset + 16, true)).toBe(2 * (30 + 5 + 1))
+    })
+
+    it('should create an empty archive without entries', () => {
+      expect(createZip([], modifiedAt)).toHaveLength(
+        END_OF_CENTRAL_DIRECTORY_SIZE,
+      )
+    })
+  })
+})
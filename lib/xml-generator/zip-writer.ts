@@ -0,0 +1,153 @@
+/**
+ * Minimal ZIP writer for batch downloads
+ * Stores files without compression (method 0), which every archive tool reads,
+ * so batches can be packed in the browser without a compression library
+ */
+
+export interface ZipEntry {
+  name: string
+  content: string | Uint8Array
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04_03_4b_50
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02_01_4b_50
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06_05_4b_50
+const LOCAL_FILE_HEADER_SIZE = 30
+const CENTRAL_DIRECTORY_HEADER_SIZE = 46
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22
+const ZIP_VERSION = 20
+// General purpose flag bit 11: file names are UTF-8
+const UTF8_FLAG = 0x08_00
+const MAX_ENTRIES = 0xff_ff
+
+// biome-ignore-start lint/nursery/noBitwiseOperators: CRC-32 and DOS dates are defined on bit fields
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let index = 0; index < 256; index++) {
+    let crc = index
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? 0xed_b8_83_20 ^ (crc >>> 1) : crc >>> 1
+    }
+    table[index] = crc >>> 0
+  }
+  return table
+})()
+
+/**
+ * Compute the CRC-32 checksum used by the ZIP format
+ * @param data - Bytes to checksum
+ * @returns Unsigned CRC-32 value
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xff_ff_ff_ff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xff_ff_ff_ff) >>> 0
+}
+
+// MS-DOS date and time, with two seconds resolution
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  }
+}
+// biome-ignore-end lint/nursery/noBitwiseOperators: CRC-32 and DOS dates are defined on bit fields
+
+/**
+ * Pack files into an uncompressed ZIP archive
+ * @param entries - Files to store, string contents are encoded as UTF-8
+ * @param modifiedAt - Modification date recorded for every file
+ * @returns ZIP archive bytes
+ * @throws Error if there are more entries than the ZIP format allows
+ */
+export function createZip(
+  entries: ZipEntry[],
+  modifiedAt: Date = new Date(),
+): Uint8Array {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(
+      `Un archivio ZIP può contenere al massimo ${MAX_ENTRIES} file`,
+    )
+  }
+
+  const encoder = new TextEncoder()
+  const dosDateTime = toDosDateTime(modifiedAt)
+  const files = entries.map((entry) => {
+    const data =
+      typeof entry.content === 'string'
+        ? encoder.encode(entry.content)
+        : entry.content
+    return { name: encoder.encode(entry.name), data, crc: crc32(data) }
+  })
+
+  const localSize = files.reduce(
+    (size, file) =>
+      size + LOCAL_FILE_HEADER_SIZE + file.name.length + file.data.length,
+    0,
+  )
+  const centralSize = files.reduce(
+    (size, file) => size + CENTRAL_DIRECTORY_HEADER_SIZE + file.name.length,
+    0,
+  )
+
+  const archive = new Uint8Array(
+    localSize + centralSize + END_OF_CENTRAL_DIRECTORY_SIZE,
+  )
+  const view = new DataView(archive.buffer)
+  let localOffset = 0
+  let centralOffset = localSize
+
+  for (const file of files) {
+    // Local file header followed by the stored data
+    view.setUint32(localOffset, LOCAL_FILE_HEADER_SIGNATURE, true)
+    view.setUint16(localOffset + 4, ZIP_VERSION, true)
+    view.setUint16(localOffset + 6, UTF8_FLAG, true)
+    view.setUint16(localOffset + 8, 0, true)
+    view.setUint16(localOffset + 10, dosDateTime.time, true)
+    view.setUint16(localOffset + 12, dosDateTime.date, true)
+    view.setUint32(localOffset + 14, file.crc, true)
+    view.setUint32(localOffset + 18, file.data.length, true)
+    view.setUint32(localOffset + 22, file.data.length, true)
+    view.setUint16(localOffset + 26, file.name.length, true)
+    view.setUint16(localOffset + 28, 0, true)
+    archive.set(file.name, localOffset + LOCAL_FILE_HEADER_SIZE)
+    archive.set(
+      file.data,
+      localOffset + LOCAL_FILE_HEADER_SIZE + file.name.length,
+    )
+
+    // Central directory entry pointing back to the local header
+    view.setUint32(centralOffset, CENTRAL_DIRECTORY_SIGNATURE, true)
+    view.setUint16(centralOffset + 4, ZIP_VERSION, true)
+    view.setUint16(centralOffset + 6, ZIP_VERSION, true)
+    view.setUint16(centralOffset + 8, UTF8_FLAG, true)
+    view.setUint16(centralOffset + 10, 0, true)
+    view.setUint16(centralOffset + 12, dosDateTime.time, true)
+    view.setUint16(centralOffset + 14, dosDateTime.date, true)
+    view.setUint32(centralOffset + 16, file.crc, true)
+    view.setUint32(centralOffset + 20, file.data.length, true)
+    view.setUint32(centralOffset + 24, file.data.length, true)
+    view.setUint16(centralOffset + 28, file.name.length, true)
+    view.setUint32(centralOffset + 42, localOffset, true)
+    archive.set(file.name, centralOffset + CENTRAL_DIRECTORY_HEADER_SIZE)
+
+    localOffset += LOCAL_FILE_HEADER_SIZE + file.name.length + file.data.length
+    centralOffset += CENTRAL_DIRECTORY_HEADER_SIZE + file.name.length
+  }
+
+  view.setUint32(centralOffset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true)
+  view.setUint16(centralOffset + 8, files.length, true)
+  view.setUint16(centralOffset + 10, files.length, true)
+  view.setUint32(centralOffset + 12, centralSize, true)
+  view.setUint32(centralOffset + 16, localSize, true)
+
+  return archive
+}
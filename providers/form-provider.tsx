@@ -35,8 +35,10 @@ const getDefaultValues = (stepId: string) => {
   switch (stepId) {
     case 'basicInfo':
       return {
+        action: 'INSERIMENTO',
         pivaUtente: '',
         codOfferta: '',
+        existingOfferConfirmed: false,
       }
     case 'offerDetails':
       return {
@@ -45,6 +47,7 @@ const getDefaultValues = (stepId: string) => {
         clientType: '',
         residentialStatus: '',
         offerType: '',
+        offerMode: 'SIMULABILE',
         contractActivationTypes: [],
         offerName: '',
         offerDescription: '',
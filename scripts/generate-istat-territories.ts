@@ -0,0 +1,207 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+
+/**
+ * Generates lib/xml-generator/istat-territory-list.ts from the official ISTAT
+ * list of municipalities ("Elenco dei comuni italiani", CSV separated by
+ * semicolons, published at
+ * https://www.istat.it/storage/codici-unita-amministrative/Elenco-comuni-italiani.csv)
+ * Regions and provinces are taken from the columns of the same rows, so the
+ * three levels always come from the same list
+ *
+ * Usage: pnpm istat:territories <csv> <YYYY-MM-DD of the list>
+ */
+
+const OUTPUT_PATH = 'lib/xml-generator/istat-territory-list.ts'
+const COLUMNS = {
+  regionCode: 'Codice Regione',
+  regionName: 'Denominazione regione',
+  // The first 3 digits of the municipality codes
+  provinceCode: 'Codice Provincia (Storico)',
+  provinceName:
+    "Denominazione dell'Unità territoriale sovracomunale (valida a fini statistici)",
+  municipalityCode: 'Codice Comune formato alfanumerico',
+  municipalityName: 'Denominazione (Italiana e straniera)',
+}
+
+type Column = keyof typeof COLUMNS
+type Row = Record<Column, string>
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+const CODE_REGEX = /^\d{6}$/
+const WHITESPACE_REGEX = /\s+/g
+// Footnote references of the headers, e.g. "Codice Provincia (Storico)(1)"
+const FOOTNOTE_REGEX = /\(\d+\)$/
+
+// Recent lists are UTF-8, older ones Windows-1252
+function decode(buffer: Buffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer)
+  }
+}
+
+// Quoted text of a cell starting at index, with the index after the closing quote
+function readQuoted(text: string, index: number): [string, number] {
+  let value = ''
+  let position = index + 1
+  while (position < text.length) {
+    if (text[position] === '"' && text[position + 1] === '"') {
+      value += '"'
+      position += 2
+    } else if (text[position] === '"') {
+      return [value, position + 1]
+    } else {
+      value += text[position]
+      position++
+    }
+  }
+  return [value, position]
+}
+
+// Header cells contain quoted line breaks
+function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let index = 0
+
+  while (index < text.length) {
+    const char = text[index]
+    if (char === '"') {
+      const [value, next] = readQuoted(text, index)
+      cell += value
+      index = next
+      continue
+    }
+    if (char === ';') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n') {
+      rows.push([...row, cell.replace('\r', '')])
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+    index++
+  }
+  if (cell || row.length > 0) {
+    rows.push([...row, cell])
+  }
+  return rows
+}
+
+const normalizeHeader = (cell: string) =>
+  cell.replace(WHITESPACE_REGEX, ' ').trim().replace(FOOTNOTE_REGEX, '').trim()
+
+const findColumn = (header: string[], name: string) => {
+  const index = header.findIndex((cell) => normalizeHeader(cell) === name)
+  if (index === -1) {
+    throw new Error(`Colonna "${name}" non trovata nel CSV`)
+  }
+  return index
+}
+
+const readRows = (csvPath: string): Row[] => {
+  const [header, ...rows] = parseCSV(decode(readFileSync(csvPath)))
+  const columns = Object.entries(COLUMNS).map(
+    ([column, name]) => [column, findColumn(header, name)] as const,
+  )
+  return rows
+    .map(
+      (cells) =>
+        Object.fromEntries(
+          columns.map(([column, index]) => [
+            column,
+            cells[index]?.trim() ?? '',
+          ]),
+        ) as Row,
+    )
+    .filter((row) => CODE_REGEX.test(row.municipalityCode))
+}
+
+// One entry per code, a code with two names means a broken list
+const collect = (rows: Row[], toEntry: (row: Row) => string[]) => {
+  const entries = new Map<string, string[]>()
+  for (const row of rows) {
+    const entry = toEntry(row)
+    const known = entries.get(entry[0])
+    if (known && known.join() !== entry.join()) {
+      throw new Error(
+        `Codice ISTAT ${entry[0]} con valori diversi: ${known.join(', ')} e ${entry.join(', ')}`,
+      )
+    }
+    entries.set(entry[0], entry)
+  }
+  return [...entries.values()].sort(([a], [b]) => a.localeCompare(b))
+}
+
+const toLiteral = (text: string) =>
+  text.includes("'") ? JSON.stringify(text) : `'${text}'`
+
+const formatTable = (
+  comment: string,
+  declaration: string,
+  entries: string[][],
+) => [
+  comment,
+  `export const ${declaration} = [`,
+  ...entries.map((entry) => `  [${entry.map(toLiteral).join(', ')}],`),
+  ']',
+  '',
+]
+
+function main() {
+  const [csvPath, date] = process.argv.slice(2)
+  if (!(csvPath && date && DATE_REGEX.test(date))) {
+    throw new Error(
+      'Uso: pnpm istat:territories <csv> <data del file, YYYY-MM-DD>',
+    )
+  }
+
+  const rows = readRows(csvPath)
+  const regions = collect(rows, (row) => [row.regionCode, row.regionName])
+  const provinces = collect(rows, (row) => [
+    row.provinceCode,
+    row.provinceName,
+    row.regionCode,
+  ])
+  const municipalities = collect(rows, (row) => [
+    row.municipalityCode,
+    row.municipalityName,
+  ])
+
+  writeFileSync(
+    OUTPUT_PATH,
+    [
+      '/**',
+      ' * ISTAT territories of ZoneOfferta',
+      ` * Generated by scripts/generate-istat-territories.ts from the ISTAT list of ${date}, do not edit`,
+      ' */',
+      '',
+      `export const ISTAT_LIST_DATE = '${date}'`,
+      '',
+      ...formatTable(
+        '// [code, name]',
+        'ISTAT_REGIONS: [string, string][]',
+        regions,
+      ),
+      ...formatTable(
+        '// [code, name, region]',
+        'ISTAT_PROVINCES: [string, string, string][]',
+        provinces,
+      ),
+      ...formatTable(
+        '// [code, name]',
+        'ISTAT_MUNICIPALITIES: [string, string][]',
+        municipalities,
+      ),
+    ].join('\n'),
+  )
+  process.stdout.write(
+    `${regions.length} regioni, ${provinces.length} province e ${municipalities.length} comuni scritti in ${OUTPUT_PATH}\n`,
+  )
+}
+
+main()